@@ -152,6 +152,7 @@ export default defineConfig([
     ".next/**",
     "out/**",
     "build/**",
+    "public/**",
     "next-env.d.ts",
     "src/components/ui",
     "*.config.ts",
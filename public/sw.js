@@ -0,0 +1,84 @@
+// Service worker: keeps the dashboard shell and the data daily records entry needs available offline.
+// The data cache is cleared on sign-out (clearOfflineDataCache in src/lib/offline-queue.ts).
+// Daily records saved while offline are queued in IndexedDB by the page itself (src/lib/offline-queue.ts).
+
+const SHELL_CACHE = "teaos-shell-v1";
+const DATA_CACHE = "teaos-data-v1";
+const SHELL_URLS = ["/dashboard/daily-plucking"];
+
+// Supabase tables read when opening daily records; served from cache when the network is down
+const OFFLINE_TABLES = ["workers", "organizations", "organization_members", "extra_work_types"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE).map((key) => caches.delete(key))),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+function isOfflineTable(url) {
+  return OFFLINE_TABLES.some((table) => url.pathname === `/rest/v1/${table}`);
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    if (isOfflineTable(url)) event.respondWith(networkFirst(request, DATA_CACHE));
+    return;
+  }
+
+  if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/auth/")) return;
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  // Pages and their RSC payloads
+  if (request.mode === "navigate" || request.headers.get("RSC")) {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});
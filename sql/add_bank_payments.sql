@@ -0,0 +1,32 @@
+-- =====================================================
+-- BANK TRANSFER SALARY PAYMENTS
+-- =====================================================
+-- Workers are paid in cash or into a bank account. Bank-paid workers keep
+-- the account details a bulk payment file needs (SLIPS bank and branch
+-- codes, account number and name). The salary page exports the month's net
+-- salaries as a bank upload file with the columns listed in
+-- organizations.settings->'bank_payments', and marks those salaries paid.
+-- Run after create_worker_settlements.sql
+-- =====================================================
+
+-- 1. WORKER PAYMENT DETAILS
+-- =====================================================
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS payment_method VARCHAR(4) NOT NULL DEFAULT 'cash'
+  CHECK (payment_method IN ('cash', 'bank'));
+-- 4-digit bank and 3-digit branch codes from the LankaClear SLIPS directory
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS bank_code VARCHAR(4);
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS bank_branch_code VARCHAR(3);
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS bank_account_number VARCHAR(20);
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS bank_account_name VARCHAR(100);
+
+-- 2. HOW EACH SALARY WAS PAID
+-- =====================================================
+ALTER TABLE salary_payments ADD COLUMN IF NOT EXISTS amount DECIMAL(12,2);
+ALTER TABLE salary_payments ADD COLUMN IF NOT EXISTS payment_method VARCHAR(4) NOT NULL DEFAULT 'cash'
+  CHECK (payment_method IN ('cash', 'bank'));
+-- The bank payment file the salary was included in
+ALTER TABLE salary_payments ADD COLUMN IF NOT EXISTS reference VARCHAR(100);
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
@@ -0,0 +1,23 @@
+-- =====================================================
+-- SALARY INSTALMENTS
+-- =====================================================
+-- A worker's salary for a month can be paid in several instalments, e.g. a
+-- mid-month payment and the balance at month end. Each salary_payments row
+-- is one payment with its amount, method, reference and date (paid_at).
+-- Rows recorded before this change have no amount; they settled the whole
+-- month and are still read that way.
+-- A final settlement deducts what was already paid of the last month.
+-- Run after create_payment_signatures.sql
+-- =====================================================
+
+-- 1. SEVERAL PAYMENTS PER WORKER-MONTH
+-- =====================================================
+ALTER TABLE salary_payments DROP CONSTRAINT IF EXISTS salary_payments_worker_id_month_key;
+
+-- 2. PART-PAID MONTHS IN FINAL SETTLEMENTS
+-- =====================================================
+ALTER TABLE worker_settlements ADD COLUMN IF NOT EXISTS wages_paid DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
@@ -0,0 +1,104 @@
+-- =====================================================
+-- EFFECTIVE AND SCHEDULED FACTORY RATES
+-- =====================================================
+-- rate_history becomes the source of truth for what a factory paid on any date:
+--   factory_rate_on()          - the rate in force on a date (latest entry on or before it)
+--   apply_due_factory_rates()  - moves factory_rates.current_rate onto entries whose
+--                                effective_date has arrived, so future-dated rates
+--                                switch on by themselves
+-- Run after create_factory_rates_table.sql and multi_tenant_setup.sql
+-- =====================================================
+
+-- 1. BACKFILL ORGANIZATION ON HISTORY
+-- =====================================================
+-- Entries written from the app before now were missing organization_id and hidden by RLS
+UPDATE rate_history rh
+SET organization_id = f.organization_id
+FROM factory_rates f
+WHERE rh.factory_id = f.id
+  AND rh.organization_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rate_history_factory_date ON rate_history(factory_id, effective_date DESC);
+
+-- Members who can edit the organization can correct history entries
+DROP POLICY IF EXISTS "Users can update org rate_history" ON rate_history;
+DROP POLICY IF EXISTS "Users can delete org rate_history" ON rate_history;
+
+CREATE POLICY "Users can update org rate_history" ON rate_history
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "Users can delete org rate_history" ON rate_history
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 2. RATE ON A DATE
+-- =====================================================
+-- Falls back to current_rate for factories with no history
+CREATE OR REPLACE FUNCTION factory_rate_on(p_factory_id UUID, p_date DATE)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(
+    (SELECT rate FROM rate_history
+      WHERE factory_id = p_factory_id AND effective_date <= p_date
+      ORDER BY effective_date DESC, created_at DESC
+      LIMIT 1),
+    (SELECT current_rate FROM factory_rates WHERE id = p_factory_id)
+  );
+$$ LANGUAGE sql SECURITY INVOKER STABLE;
+
+-- 3. SWITCH ON DUE RATES
+-- =====================================================
+-- Internal: brings current_rate in line with the history for one organization, or all when NULL.
+-- "Today" is the Sri Lankan date so a rate dated tomorrow doesn't switch on at 18:30 local time.
+CREATE OR REPLACE FUNCTION refresh_factory_rates(p_org_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Colombo')::date;
+  v_count INTEGER;
+BEGIN
+  WITH due AS (
+    SELECT DISTINCT ON (rh.factory_id) rh.factory_id, rh.rate, rh.effective_date
+    FROM rate_history rh
+    JOIN factory_rates f ON f.id = rh.factory_id
+    WHERE rh.effective_date <= v_today
+      AND (p_org_id IS NULL OR f.organization_id = p_org_id)
+    ORDER BY rh.factory_id, rh.effective_date DESC, rh.created_at DESC
+  )
+  UPDATE factory_rates f
+  SET previous_rate = CASE WHEN f.current_rate <> due.rate THEN f.current_rate ELSE f.previous_rate END,
+      current_rate = due.rate,
+      effective_date = due.effective_date
+  FROM due
+  WHERE f.id = due.factory_id
+    AND (f.current_rate <> due.rate OR f.effective_date <> due.effective_date);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION refresh_factory_rates(UUID) FROM PUBLIC;
+
+-- Called by the app when rates are read; any member may trigger it because it only applies
+-- rates that an editor already scheduled
+CREATE OR REPLACE FUNCTION apply_due_factory_rates(p_org_id UUID)
+RETURNS INTEGER AS $$
+BEGIN
+  IF p_org_id NOT IN (SELECT auth_user_org_ids()) THEN
+    RAISE EXCEPTION 'You are not a member of this organization';
+  END IF;
+
+  RETURN refresh_factory_rates(p_org_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION factory_rate_on(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION apply_due_factory_rates(UUID) TO authenticated;
+
+-- 4. OPTIONAL: SWITCH RATES ON AT MIDNIGHT WITHOUT ANYONE OPENING THE APP
+-- =====================================================
+-- With the pg_cron extension enabled (Database > Extensions), 00:05 Sri Lanka time:
+-- SELECT cron.schedule('apply-due-factory-rates', '35 18 * * *', 'SELECT refresh_factory_rates()');
+
+SELECT refresh_factory_rates();
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
@@ -0,0 +1,76 @@
+-- =====================================================
+-- EPF / ETF CONTRIBUTIONS IN PAYROLL SNAPSHOTS
+-- =====================================================
+-- Contribution rates live in organizations.settings->'statutory_rules'.
+-- This adds the contribution amounts to payroll_run_lines so a closed month keeps
+-- the EPF and ETF figures that were remitted.
+-- Run after create_payroll_runs.sql
+-- =====================================================
+
+-- 1. SNAPSHOT COLUMNS
+-- =====================================================
+ALTER TABLE payroll_run_lines ADD COLUMN IF NOT EXISTS contributory_wage DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE payroll_run_lines ADD COLUMN IF NOT EXISTS epf_employee DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE payroll_run_lines ADD COLUMN IF NOT EXISTS epf_employer DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE payroll_run_lines ADD COLUMN IF NOT EXISTS etf DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- 2. CLOSE FUNCTION (now stores the contribution columns)
+-- =====================================================
+CREATE OR REPLACE FUNCTION close_payroll_month(
+  p_org_id UUID,
+  p_month DATE,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_month DATE := date_trunc('month', p_month)::date;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to close payroll';
+  END IF;
+
+  IF is_payroll_month_closed(p_org_id, v_month) THEN
+    RAISE EXCEPTION 'Payroll for % is already closed', to_char(v_month, 'FMMonth YYYY');
+  END IF;
+
+  INSERT INTO payroll_runs (organization_id, month, closed_by)
+  VALUES (p_org_id, v_month, auth.uid())
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO payroll_run_lines (
+    payroll_run_id, organization_id, worker_id, employee_id, worker_name,
+    days_worked, total_kg, total_earned, extra_work, extra_work_by_type,
+    bonus, advance_issued, advance_recovered, advance_carried,
+    contributory_wage, epf_employee, epf_employer, etf, net_salary
+  )
+  SELECT
+    v_run_id, p_org_id, l.worker_id, l.employee_id, l.worker_name,
+    COALESCE(l.days_worked, 0), COALESCE(l.total_kg, 0), COALESCE(l.total_earned, 0),
+    COALESCE(l.extra_work, 0), COALESCE(l.extra_work_by_type, '{}'),
+    COALESCE(l.bonus, 0), COALESCE(l.advance_issued, 0), COALESCE(l.advance_recovered, 0),
+    COALESCE(l.advance_carried, 0), COALESCE(l.contributory_wage, 0), COALESCE(l.epf_employee, 0),
+    COALESCE(l.epf_employer, 0), COALESCE(l.etf, 0), COALESCE(l.net_salary, 0)
+  FROM jsonb_to_recordset(p_lines) AS l(
+    worker_id UUID, employee_id TEXT, worker_name TEXT,
+    days_worked INTEGER, total_kg DECIMAL, total_earned DECIMAL, extra_work DECIMAL,
+    extra_work_by_type JSONB, bonus DECIMAL, advance_issued DECIMAL,
+    advance_recovered DECIMAL, advance_carried DECIMAL, contributory_wage DECIMAL,
+    epf_employee DECIMAL, epf_employer DECIMAL, etf DECIMAL, net_salary DECIMAL
+  );
+
+  UPDATE payroll_runs
+  SET worker_count = totals.worker_count, total_kg = totals.total_kg, total_net = totals.total_net
+  FROM (
+    SELECT COUNT(*) AS worker_count, COALESCE(SUM(total_kg), 0) AS total_kg, COALESCE(SUM(net_salary), 0) AS total_net
+    FROM payroll_run_lines WHERE payroll_run_id = v_run_id
+  ) AS totals
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
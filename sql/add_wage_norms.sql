@@ -0,0 +1,25 @@
+-- =====================================================
+-- NORM-BASED PLUCKING WAGES
+-- =====================================================
+-- With norms on, a plucker who brings in the norm kg earns the guaranteed
+-- daily wage plus an over-kilo rate for every kg above it; shorter days are
+-- paid kg × rate and topped up to the minimum daily wage. The norms live in
+-- organizations.settings->'wage_norms' (a default plus optional overrides per
+-- plantation and/or season).
+-- wage_earned stays the full day's pay. These columns keep the breakdown the
+-- record was saved with, so later changes to the norms don't rewrite history.
+-- norm_kg is NULL for records paid kg × rate.
+-- Run after create_worker_attendance.sql
+-- =====================================================
+
+ALTER TABLE daily_plucking ADD COLUMN IF NOT EXISTS norm_kg DECIMAL(10,2);
+ALTER TABLE daily_plucking ADD COLUMN IF NOT EXISTS over_kilo_pay DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE daily_plucking ADD COLUMN IF NOT EXISTS wage_top_up DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN daily_plucking.norm_kg IS 'Norm in force when the record was saved; NULL when paid kg x rate';
+COMMENT ON COLUMN daily_plucking.over_kilo_pay IS 'Part of wage_earned paid for kg above the norm';
+COMMENT ON COLUMN daily_plucking.wage_top_up IS 'Part of wage_earned topping a short day up to the minimum daily wage';
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
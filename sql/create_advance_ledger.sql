@@ -0,0 +1,65 @@
+-- =====================================================
+-- WORKER ADVANCE LEDGER
+-- =====================================================
+-- Advances are still daily_plucking rows with is_advance = true. This adds:
+--   workers.max_advance          - per-worker cap on the outstanding balance
+--   advance_schedules            - optional instalment plan per advance
+--   worker_monthly_earnings      - view used to work out what each month can recover
+-- Role limits and the warn/block mode live in organizations.settings->'advance_policy'
+-- Run after create_daily_plucking_table.sql and fix_rls_recursion.sql
+-- =====================================================
+
+-- 1. PER-WORKER LIMIT (NULL = use the role limit from the advance policy)
+-- =====================================================
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS max_advance DECIMAL(10,2);
+
+-- 2. INSTALMENT SCHEDULES
+-- =====================================================
+-- Without a schedule an advance is recovered in full from the salary of the month it was given
+CREATE TABLE IF NOT EXISTS advance_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  daily_plucking_id UUID NOT NULL UNIQUE REFERENCES daily_plucking(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  instalments INTEGER NOT NULL DEFAULT 1 CHECK (instalments >= 1 AND instalments <= 24),
+  start_month DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_advance_schedules_org_id ON advance_schedules(organization_id);
+CREATE INDEX IF NOT EXISTS idx_advance_schedules_worker ON advance_schedules(worker_id);
+
+CREATE TRIGGER update_advance_schedules_updated_at
+  BEFORE UPDATE ON advance_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE advance_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "advance_schedules_select_policy" ON advance_schedules
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "advance_schedules_insert_policy" ON advance_schedules
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "advance_schedules_update_policy" ON advance_schedules
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "advance_schedules_delete_policy" ON advance_schedules
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 3. MONTHLY EARNINGS VIEW
+-- =====================================================
+-- security_invoker keeps the daily_plucking RLS policies in force for the caller
+CREATE OR REPLACE VIEW worker_monthly_earnings
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  worker_id,
+  date_trunc('month', date)::date AS month,
+  SUM(kg_plucked * rate_per_kg + COALESCE(extra_work_payment, 0)) AS earned
+FROM daily_plucking
+WHERE is_advance IS NOT TRUE
+GROUP BY organization_id, worker_id, date_trunc('month', date);
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
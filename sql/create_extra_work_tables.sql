@@ -0,0 +1,133 @@
+-- =====================================================
+-- STRUCTURED EXTRA WORK STORAGE
+-- =====================================================
+-- Replaces the extra work JSON stored in daily_plucking.notes with:
+--   extra_work_types           - per-organization catalogue with default rates
+--   daily_plucking_extra_work  - one row per extra work item on a daily record
+-- daily_plucking.extra_work_payment is kept as the per-record total
+-- Run after multi_tenant_setup.sql and fix_rls_recursion.sql
+-- =====================================================
+
+-- 1. CREATE TABLES
+-- =====================================================
+CREATE TABLE IF NOT EXISTS extra_work_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  default_rate DECIMAL(10,2) NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(organization_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS daily_plucking_extra_work (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  daily_plucking_id UUID NOT NULL REFERENCES daily_plucking(id) ON DELETE CASCADE,
+  extra_work_type_id UUID REFERENCES extra_work_types(id) ON DELETE SET NULL,
+  description VARCHAR(255) NOT NULL,
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extra_work_types_org_id ON extra_work_types(organization_id);
+CREATE INDEX IF NOT EXISTS idx_dp_extra_work_org_id ON daily_plucking_extra_work(organization_id);
+CREATE INDEX IF NOT EXISTS idx_dp_extra_work_record ON daily_plucking_extra_work(daily_plucking_id);
+CREATE INDEX IF NOT EXISTS idx_dp_extra_work_type ON daily_plucking_extra_work(extra_work_type_id);
+
+CREATE TRIGGER update_extra_work_types_updated_at
+  BEFORE UPDATE ON extra_work_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS POLICIES
+-- =====================================================
+ALTER TABLE extra_work_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_plucking_extra_work ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "extra_work_types_select_policy" ON extra_work_types
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "extra_work_types_insert_policy" ON extra_work_types
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "extra_work_types_update_policy" ON extra_work_types
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "extra_work_types_delete_policy" ON extra_work_types
+  FOR DELETE USING (organization_id IN (SELECT auth_user_admin_org_ids()));
+
+CREATE POLICY "dp_extra_work_select_policy" ON daily_plucking_extra_work
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "dp_extra_work_insert_policy" ON daily_plucking_extra_work
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "dp_extra_work_update_policy" ON daily_plucking_extra_work
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "dp_extra_work_delete_policy" ON daily_plucking_extra_work
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 3. SEED DEFAULT CATALOGUE FOR EVERY ORGANIZATION
+-- =====================================================
+INSERT INTO extra_work_types (organization_id, name, default_rate)
+SELECT o.id, t.name, t.default_rate
+FROM organizations o
+CROSS JOIN (VALUES
+  ('Weeding', 1000),
+  ('Pruning', 1200),
+  ('Fertilizing', 1000),
+  ('Drain Cleaning', 1000),
+  ('Sundry Work', 800)
+) AS t(name, default_rate)
+ON CONFLICT (organization_id, name) DO NOTHING;
+
+-- 4. MIGRATE EXISTING NOTES JSON
+-- =====================================================
+-- Notes were written as {"extra_work": [{description, amount}], "text": "..."}
+-- Plain text notes are left untouched
+CREATE OR REPLACE FUNCTION try_parse_jsonb(p_text TEXT)
+RETURNS JSONB AS $$
+BEGIN
+  RETURN p_text::jsonb;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Add any description used in the past to the catalogue (rate 0 until edited)
+INSERT INTO extra_work_types (organization_id, name, default_rate)
+SELECT DISTINCT dp.organization_id, trim(item->>'description'), 0
+FROM daily_plucking dp
+CROSS JOIN LATERAL jsonb_array_elements(try_parse_jsonb(dp.notes)->'extra_work') AS item
+WHERE dp.organization_id IS NOT NULL
+  AND jsonb_typeof(try_parse_jsonb(dp.notes)->'extra_work') = 'array'
+  AND coalesce(trim(item->>'description'), '') <> ''
+ON CONFLICT (organization_id, name) DO NOTHING;
+
+INSERT INTO daily_plucking_extra_work (organization_id, daily_plucking_id, extra_work_type_id, description, amount)
+SELECT
+  dp.organization_id,
+  dp.id,
+  ewt.id,
+  coalesce(nullif(trim(item->>'description'), ''), 'Extra work'),
+  coalesce((item->>'amount')::decimal, 0)
+FROM daily_plucking dp
+CROSS JOIN LATERAL jsonb_array_elements(try_parse_jsonb(dp.notes)->'extra_work') AS item
+LEFT JOIN extra_work_types ewt
+  ON ewt.organization_id = dp.organization_id
+  AND lower(ewt.name) = lower(trim(item->>'description'))
+WHERE jsonb_typeof(try_parse_jsonb(dp.notes)->'extra_work') = 'array'
+  AND NOT EXISTS (SELECT 1 FROM daily_plucking_extra_work x WHERE x.daily_plucking_id = dp.id);
+
+-- Records with an extra work total but no itemised JSON get a single generic line
+INSERT INTO daily_plucking_extra_work (organization_id, daily_plucking_id, description, amount)
+SELECT dp.organization_id, dp.id, 'Extra work', dp.extra_work_payment
+FROM daily_plucking dp
+WHERE coalesce(dp.extra_work_payment, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM daily_plucking_extra_work x WHERE x.daily_plucking_id = dp.id);
+
+-- Keep only the free text part of the notes
+UPDATE daily_plucking
+SET notes = nullif(try_parse_jsonb(notes)->>'text', '')
+WHERE jsonb_typeof(try_parse_jsonb(notes)) = 'object';
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
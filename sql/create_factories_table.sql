@@ -0,0 +1,228 @@
+-- =====================================================
+-- FACTORY MASTER RECORDS
+-- =====================================================
+-- factory_rates used to be the factory itself, and tea sales only carried a free-text
+-- factory_name. This separates the two:
+--   factories      - one record per factory: contact, location, registration and bank details
+--   factory_rates  - the rate in force today, one row per factory (id = factories.id),
+--                    kept up to date from rate_history by refresh_factory_rates()
+--   rate_history   - every rate over time, now hanging off factories
+-- tea_sales gains factory_id; factory_name stays as the display name and follows renames.
+-- Existing factory names are deduplicated ignoring case and extra spaces, so
+-- "Ceylon Tea Factory" and "ceylon tea  factory " become one factory.
+-- The old rate rows are kept in factory_rates_backup before they are merged, and
+-- the script is safe to run again: steps that need the old columns only run
+-- while factory_rates still has them.
+-- Run after create_tea_sale_deductions.sql and add_scheduled_factory_rates.sql
+-- =====================================================
+
+-- 1. FACTORIES TABLE
+-- =====================================================
+CREATE OR REPLACE FUNCTION normalize_factory_name(p_name TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(regexp_replace(btrim(p_name), '\s+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE TABLE IF NOT EXISTS factories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  contact_person VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  distance_km DECIMAL(6,1),
+  registration_number VARCHAR(100),
+  bank_name VARCHAR(255),
+  bank_branch VARCHAR(255),
+  bank_account_name VARCHAR(255),
+  bank_account_number VARCHAR(50),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_factories_org_id ON factories(organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_factories_org_name ON factories(organization_id, normalize_factory_name(name));
+
+DROP TRIGGER IF EXISTS update_factories_updated_at ON factories;
+CREATE TRIGGER update_factories_updated_at
+  BEFORE UPDATE ON factories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. ONE FACTORY PER DUPLICATE RATE ROW
+-- =====================================================
+-- The first rate row created for a name is kept, and its id becomes the factory id.
+-- Only runs while factory_rates still has factory_name, i.e. the first time through.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'factory_rates' AND column_name = 'factory_name'
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Every rate row as it was, duplicates included, in case a merge needs checking later
+  CREATE TABLE IF NOT EXISTS factory_rates_backup AS
+  SELECT * FROM factory_rates;
+  -- No policies: only the SQL editor can read it
+  ALTER TABLE factory_rates_backup ENABLE ROW LEVEL SECURITY;
+
+  CREATE TEMP TABLE factory_merge ON COMMIT DROP AS
+  SELECT
+    id AS old_id,
+    first_value(id) OVER (
+      PARTITION BY organization_id, normalize_factory_name(factory_name)
+      ORDER BY created_at, id
+    ) AS factory_id
+  FROM factory_rates;
+
+  -- The kept factory takes the notes of all its duplicates
+  INSERT INTO factories (id, organization_id, name, notes, created_at)
+  SELECT f.id, f.organization_id, regexp_replace(btrim(f.factory_name), '\s+', ' ', 'g'),
+    (
+      SELECT string_agg(DISTINCT btrim(d.notes), E'\n')
+      FROM factory_rates d
+      JOIN factory_merge dm ON dm.old_id = d.id
+      WHERE dm.factory_id = f.id AND btrim(COALESCE(d.notes, '')) <> ''
+    ),
+    f.created_at
+  FROM factory_rates f
+  JOIN factory_merge m ON m.old_id = f.id AND m.factory_id = f.id
+  ON CONFLICT (id) DO NOTHING;
+
+  -- History and deduction types of the duplicates move to the kept factory
+  UPDATE rate_history rh
+  SET factory_id = m.factory_id
+  FROM factory_merge m
+  WHERE rh.factory_id = m.old_id
+    AND m.old_id <> m.factory_id;
+
+  DELETE FROM factory_deduction_types d
+  USING factory_merge m
+  WHERE d.factory_id = m.old_id
+    AND m.old_id <> m.factory_id
+    AND EXISTS (
+      SELECT 1 FROM factory_deduction_types kept
+      WHERE kept.factory_id = m.factory_id AND kept.name = d.name
+    );
+
+  UPDATE factory_deduction_types d
+  SET factory_id = m.factory_id
+  FROM factory_merge m
+  WHERE d.factory_id = m.old_id
+    AND m.old_id <> m.factory_id;
+
+  DELETE FROM factory_rates
+  WHERE id IN (SELECT old_id FROM factory_merge WHERE old_id <> factory_id);
+
+  DROP TABLE factory_merge;
+END $$;
+
+-- 3. FACTORIES ONLY EVER TYPED INTO TEA SALES
+-- =====================================================
+INSERT INTO factories (organization_id, name)
+SELECT DISTINCT ON (s.organization_id, normalize_factory_name(s.factory_name))
+  s.organization_id, regexp_replace(btrim(s.factory_name), '\s+', ' ', 'g')
+FROM tea_sales s
+WHERE btrim(COALESCE(s.factory_name, '')) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM factories f
+    WHERE f.organization_id IS NOT DISTINCT FROM s.organization_id
+      AND normalize_factory_name(f.name) = normalize_factory_name(s.factory_name)
+  )
+ORDER BY s.organization_id, normalize_factory_name(s.factory_name), s.date DESC;
+
+-- 4. LINK TEA SALES TO FACTORIES
+-- =====================================================
+ALTER TABLE tea_sales ADD COLUMN IF NOT EXISTS factory_id UUID;
+ALTER TABLE tea_sales DROP CONSTRAINT IF EXISTS tea_sales_factory_id_fkey;
+
+UPDATE tea_sales s
+SET factory_id = f.id,
+    factory_name = f.name
+FROM factories f
+WHERE f.organization_id IS NOT DISTINCT FROM s.organization_id
+  AND normalize_factory_name(f.name) = normalize_factory_name(s.factory_name);
+
+ALTER TABLE tea_sales
+  ADD CONSTRAINT tea_sales_factory_id_fkey FOREIGN KEY (factory_id) REFERENCES factories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tea_sales_factory ON tea_sales(factory_id);
+
+-- Renaming a factory renames it on its sales, so reports keep grouping them together
+CREATE OR REPLACE FUNCTION sync_tea_sale_factory_names()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE tea_sales SET factory_name = NEW.name WHERE factory_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_tea_sale_factory_names ON factories;
+CREATE TRIGGER sync_tea_sale_factory_names
+  AFTER UPDATE OF name ON factories
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tea_sale_factory_names();
+
+-- 5. RATES HANG OFF FACTORIES
+-- =====================================================
+-- Factories added in step 3 get their history from the sales: each rate from the first
+-- day it was used
+INSERT INTO rate_history (organization_id, factory_id, rate, effective_date)
+SELECT s.organization_id, s.factory_id, s.rate_per_kg, MIN(s.date)
+FROM tea_sales s
+WHERE s.factory_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM factory_rates r WHERE r.id = s.factory_id)
+GROUP BY s.organization_id, s.factory_id, s.rate_per_kg;
+
+-- Name and notes now live on the factory (the old values stay in factory_rates_backup)
+ALTER TABLE factory_rates DROP COLUMN IF EXISTS factory_name;
+ALTER TABLE factory_rates DROP COLUMN IF EXISTS notes;
+
+INSERT INTO factory_rates (id, organization_id, current_rate, effective_date)
+SELECT DISTINCT ON (rh.factory_id) rh.factory_id, rh.organization_id, rh.rate, rh.effective_date
+FROM rate_history rh
+WHERE NOT EXISTS (SELECT 1 FROM factory_rates r WHERE r.id = rh.factory_id)
+ORDER BY rh.factory_id, rh.effective_date DESC, rh.created_at DESC;
+
+ALTER TABLE factory_rates DROP CONSTRAINT IF EXISTS factory_rates_id_fkey;
+ALTER TABLE factory_rates
+  ADD CONSTRAINT factory_rates_id_fkey FOREIGN KEY (id) REFERENCES factories(id) ON DELETE CASCADE;
+
+ALTER TABLE rate_history DROP CONSTRAINT IF EXISTS rate_history_factory_id_fkey;
+ALTER TABLE rate_history
+  ADD CONSTRAINT rate_history_factory_id_fkey FOREIGN KEY (factory_id) REFERENCES factories(id) ON DELETE CASCADE;
+
+ALTER TABLE factory_deduction_types DROP CONSTRAINT IF EXISTS factory_deduction_types_factory_id_fkey;
+ALTER TABLE factory_deduction_types
+  ADD CONSTRAINT factory_deduction_types_factory_id_fkey FOREIGN KEY (factory_id) REFERENCES factories(id) ON DELETE CASCADE;
+
+-- Merged histories may change which rate is in force today
+SELECT refresh_factory_rates();
+
+-- 6. RLS POLICIES
+-- =====================================================
+ALTER TABLE factories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "factories_select_policy" ON factories;
+DROP POLICY IF EXISTS "factories_insert_policy" ON factories;
+DROP POLICY IF EXISTS "factories_update_policy" ON factories;
+DROP POLICY IF EXISTS "factories_delete_policy" ON factories;
+
+CREATE POLICY "factories_select_policy" ON factories
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "factories_insert_policy" ON factories
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "factories_update_policy" ON factories
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "factories_delete_policy" ON factories
+  FOR DELETE USING (organization_id IN (SELECT auth_user_admin_org_ids()));
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
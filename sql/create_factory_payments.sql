@@ -0,0 +1,201 @@
+-- =====================================================
+-- FACTORY PAYMENTS AND RECEIVABLES
+-- =====================================================
+-- Leaf is delivered daily but factories pay monthly, often one payment for many
+-- deliveries and sometimes only part of what is owed. This adds:
+--   factory_payments             - money received from a factory
+--   factory_payment_allocations  - how much of a payment settles each delivery
+-- tea_sales keeps amount_paid and payment_status (unpaid / partial / paid) in step
+-- with its allocations, so outstanding balances and aging can be read straight off sales.
+-- Run after create_factories_table.sql
+-- =====================================================
+
+-- 1. PAYMENT STATE ON SALES
+-- =====================================================
+ALTER TABLE tea_sales ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE tea_sales ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid';
+
+ALTER TABLE tea_sales DROP CONSTRAINT IF EXISTS tea_sales_payment_status_check;
+ALTER TABLE tea_sales
+  ADD CONSTRAINT tea_sales_payment_status_check CHECK (payment_status IN ('unpaid', 'partial', 'paid'));
+
+CREATE INDEX IF NOT EXISTS idx_tea_sales_payment_status ON tea_sales(organization_id, payment_status);
+
+-- What the factory owes for a sale: net income, or gross less deductions for older rows
+CREATE OR REPLACE FUNCTION tea_sale_amount_due(p_sale tea_sales)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(p_sale.net_income, p_sale.total_income - COALESCE(p_sale.deductions, 0));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Status follows amount_paid, and also the amount due when a sale is edited
+CREATE OR REPLACE FUNCTION set_tea_sale_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.payment_status := CASE
+    WHEN NEW.amount_paid <= 0 THEN 'unpaid'
+    WHEN NEW.amount_paid >= tea_sale_amount_due(NEW) - 0.005 THEN 'paid'
+    ELSE 'partial'
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_tea_sale_payment_status ON tea_sales;
+CREATE TRIGGER set_tea_sale_payment_status
+  BEFORE INSERT OR UPDATE ON tea_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_tea_sale_payment_status();
+
+-- 2. PAYMENTS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS factory_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL REFERENCES factories(id) ON DELETE CASCADE,
+  payment_date DATE NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  method TEXT NOT NULL DEFAULT 'bank_transfer' CHECK (method IN ('bank_transfer', 'cheque', 'cash')),
+  reference VARCHAR(100),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_payments_org_id ON factory_payments(organization_id);
+CREATE INDEX IF NOT EXISTS idx_factory_payments_factory ON factory_payments(factory_id, payment_date DESC);
+
+CREATE TRIGGER update_factory_payments_updated_at
+  BEFORE UPDATE ON factory_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. ALLOCATIONS
+-- =====================================================
+-- Whatever part of a payment is not allocated stays on account with the factory
+CREATE TABLE IF NOT EXISTS factory_payment_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  payment_id UUID NOT NULL REFERENCES factory_payments(id) ON DELETE CASCADE,
+  tea_sale_id UUID NOT NULL REFERENCES tea_sales(id) ON DELETE CASCADE,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(payment_id, tea_sale_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_payment_allocations_org_id ON factory_payment_allocations(organization_id);
+CREATE INDEX IF NOT EXISTS idx_factory_payment_allocations_sale ON factory_payment_allocations(tea_sale_id);
+
+-- Keeps tea_sales.amount_paid equal to the sum of its allocations
+CREATE OR REPLACE FUNCTION sync_tea_sale_amount_paid()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_sale_id UUID := COALESCE(NEW.tea_sale_id, OLD.tea_sale_id);
+BEGIN
+  UPDATE tea_sales
+  SET amount_paid = COALESCE((
+    SELECT SUM(amount) FROM factory_payment_allocations WHERE tea_sale_id = v_sale_id
+  ), 0)
+  WHERE id = v_sale_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.tea_sale_id <> NEW.tea_sale_id THEN
+    UPDATE tea_sales
+    SET amount_paid = COALESCE((
+      SELECT SUM(amount) FROM factory_payment_allocations WHERE tea_sale_id = OLD.tea_sale_id
+    ), 0)
+    WHERE id = OLD.tea_sale_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_tea_sale_amount_paid ON factory_payment_allocations;
+CREATE TRIGGER sync_tea_sale_amount_paid
+  AFTER INSERT OR UPDATE OR DELETE ON factory_payment_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tea_sale_amount_paid();
+
+-- 4. RECORD A PAYMENT
+-- =====================================================
+-- Creates the payment and its allocations in one transaction. p_allocations is a JSON
+-- array of { tea_sale_id, amount }. Each delivery must belong to the factory and no
+-- delivery may be paid beyond what is due on it.
+CREATE OR REPLACE FUNCTION record_factory_payment(
+  p_org_id UUID,
+  p_factory_id UUID,
+  p_payment_date DATE,
+  p_amount DECIMAL,
+  p_method TEXT,
+  p_reference TEXT,
+  p_notes TEXT,
+  p_allocations JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_payment_id UUID;
+  v_allocated DECIMAL;
+  v_bad_sale TEXT;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to record factory payments';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM factories WHERE id = p_factory_id AND organization_id = p_org_id) THEN
+    RAISE EXCEPTION 'Factory not found';
+  END IF;
+
+  SELECT COALESCE(SUM(a.amount), 0) INTO v_allocated
+  FROM jsonb_to_recordset(COALESCE(p_allocations, '[]')) AS a(tea_sale_id UUID, amount DECIMAL);
+
+  IF v_allocated > p_amount + 0.005 THEN
+    RAISE EXCEPTION 'Allocations (%) are more than the payment (%)', v_allocated, p_amount;
+  END IF;
+
+  SELECT to_char(s.date, 'YYYY-MM-DD') INTO v_bad_sale
+  FROM jsonb_to_recordset(COALESCE(p_allocations, '[]')) AS a(tea_sale_id UUID, amount DECIMAL)
+  LEFT JOIN tea_sales s ON s.id = a.tea_sale_id AND s.organization_id = p_org_id AND s.factory_id = p_factory_id
+  WHERE s.id IS NULL OR a.amount > tea_sale_amount_due(s) - s.amount_paid + 0.005
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Delivery % is not outstanding with this factory for that amount', COALESCE(v_bad_sale, '');
+  END IF;
+
+  INSERT INTO factory_payments (organization_id, factory_id, payment_date, amount, method, reference, notes, created_by)
+  VALUES (p_org_id, p_factory_id, p_payment_date, p_amount, p_method, NULLIF(trim(p_reference), ''), NULLIF(trim(p_notes), ''), auth.uid())
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO factory_payment_allocations (organization_id, payment_id, tea_sale_id, amount)
+  SELECT p_org_id, v_payment_id, a.tea_sale_id, a.amount
+  FROM jsonb_to_recordset(COALESCE(p_allocations, '[]')) AS a(tea_sale_id UUID, amount DECIMAL)
+  WHERE a.amount > 0;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION record_factory_payment(UUID, UUID, DATE, DECIMAL, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+-- 5. RLS POLICIES
+-- =====================================================
+-- Payments are entered through record_factory_payment; editors may delete them,
+-- which releases their allocations
+ALTER TABLE factory_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE factory_payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "factory_payments_select_policy" ON factory_payments
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "factory_payments_update_policy" ON factory_payments
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "factory_payments_delete_policy" ON factory_payments
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+CREATE POLICY "factory_payment_allocations_select_policy" ON factory_payment_allocations
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "factory_payment_allocations_delete_policy" ON factory_payment_allocations
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
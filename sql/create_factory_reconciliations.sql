@@ -0,0 +1,182 @@
+-- =====================================================
+-- FACTORY STATEMENT RECONCILIATION
+-- =====================================================
+-- Each factory sends a monthly statement of the leaf it received per day, the
+-- leaf deductions it took and the rate it paid. The statement is imported and
+-- matched line by line against tea_sales, then either accepted (our sales are
+-- corrected to the factory's figures) or disputed. This adds:
+--   factory_reconciliations  - one record per factory and month
+--   factory_statement_lines  - the matched lines, with both sides' figures
+-- Run after create_factory_payments.sql
+-- =====================================================
+
+-- 1. RECONCILIATIONS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS factory_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL REFERENCES factories(id) ON DELETE CASCADE,
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  status TEXT NOT NULL CHECK (status IN ('accepted', 'disputed')),
+  file_name VARCHAR(255),
+  statement_kg DECIMAL(12,2) NOT NULL DEFAULT 0,
+  statement_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  recorded_kg DECIMAL(12,2) NOT NULL DEFAULT 0,
+  recorded_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  mismatch_count INTEGER NOT NULL DEFAULT 0,
+  dispute_reason TEXT,
+  reconciled_by UUID REFERENCES auth.users(id),
+  reconciled_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(factory_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_reconciliations_org_id ON factory_reconciliations(organization_id);
+CREATE INDEX IF NOT EXISTS idx_factory_reconciliations_factory ON factory_reconciliations(factory_id, month DESC);
+
+CREATE TRIGGER update_factory_reconciliations_updated_at
+  BEFORE UPDATE ON factory_reconciliations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. STATEMENT LINES
+-- =====================================================
+-- Statement figures are NULL for deliveries the factory did not list, recorded
+-- figures are NULL for days the factory listed that we have no sale for
+CREATE TABLE IF NOT EXISTS factory_statement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  reconciliation_id UUID NOT NULL REFERENCES factory_reconciliations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  tea_sale_id UUID REFERENCES tea_sales(id) ON DELETE SET NULL,
+  statement_kg DECIMAL(10,2),
+  statement_deduction_kg DECIMAL(10,2),
+  statement_rate DECIMAL(10,2),
+  recorded_kg DECIMAL(10,2),
+  recorded_deduction_kg DECIMAL(10,2),
+  recorded_rate DECIMAL(10,2),
+  status TEXT NOT NULL CHECK (status IN ('matched', 'mismatch', 'missing_recorded', 'missing_statement')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_statement_lines_org_id ON factory_statement_lines(organization_id);
+CREATE INDEX IF NOT EXISTS idx_factory_statement_lines_reconciliation ON factory_statement_lines(reconciliation_id, date);
+
+-- 3. SAVE A RECONCILIATION
+-- =====================================================
+-- Replaces the factory-month's reconciliation and its lines in one transaction,
+-- so re-importing a corrected statement starts the month afresh. p_lines is a JSON
+-- array shaped like factory_statement_lines.
+CREATE OR REPLACE FUNCTION save_factory_reconciliation(
+  p_org_id UUID,
+  p_factory_id UUID,
+  p_month DATE,
+  p_status TEXT,
+  p_file_name TEXT,
+  p_dispute_reason TEXT,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_reconciliation_id UUID;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to reconcile factory statements';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM factories WHERE id = p_factory_id AND organization_id = p_org_id) THEN
+    RAISE EXCEPTION 'Factory not found';
+  END IF;
+
+  IF p_status = 'disputed' AND NULLIF(trim(p_dispute_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for disputing the statement';
+  END IF;
+
+  CREATE TEMP TABLE reconciliation_lines ON COMMIT DROP AS
+  SELECT *
+  FROM jsonb_to_recordset(COALESCE(p_lines, '[]')) AS l(
+    date DATE,
+    tea_sale_id UUID,
+    statement_kg DECIMAL,
+    statement_deduction_kg DECIMAL,
+    statement_rate DECIMAL,
+    recorded_kg DECIMAL,
+    recorded_deduction_kg DECIMAL,
+    recorded_rate DECIMAL,
+    status TEXT
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM reconciliation_lines
+    WHERE date_trunc('month', date)::DATE <> date_trunc('month', p_month)::DATE
+  ) THEN
+    RAISE EXCEPTION 'Statement lines must all fall in %', to_char(p_month, 'FMMonth YYYY');
+  END IF;
+
+  INSERT INTO factory_reconciliations (
+    organization_id, factory_id, month, status, file_name,
+    statement_kg, statement_amount, recorded_kg, recorded_amount, mismatch_count,
+    dispute_reason, reconciled_by, reconciled_at
+  )
+  SELECT
+    p_org_id, p_factory_id, date_trunc('month', p_month)::DATE, p_status, NULLIF(trim(p_file_name), ''),
+    COALESCE(SUM(statement_kg), 0),
+    COALESCE(SUM((statement_kg - COALESCE(statement_deduction_kg, 0)) * statement_rate), 0),
+    COALESCE(SUM(recorded_kg), 0),
+    COALESCE(SUM((recorded_kg - COALESCE(recorded_deduction_kg, 0)) * recorded_rate), 0),
+    COUNT(*) FILTER (WHERE status <> 'matched'),
+    CASE WHEN p_status = 'disputed' THEN trim(p_dispute_reason) END,
+    auth.uid(), NOW()
+  FROM reconciliation_lines
+  ON CONFLICT (factory_id, month) DO UPDATE SET
+    status = EXCLUDED.status,
+    file_name = EXCLUDED.file_name,
+    statement_kg = EXCLUDED.statement_kg,
+    statement_amount = EXCLUDED.statement_amount,
+    recorded_kg = EXCLUDED.recorded_kg,
+    recorded_amount = EXCLUDED.recorded_amount,
+    mismatch_count = EXCLUDED.mismatch_count,
+    dispute_reason = EXCLUDED.dispute_reason,
+    reconciled_by = EXCLUDED.reconciled_by,
+    reconciled_at = EXCLUDED.reconciled_at
+  RETURNING id INTO v_reconciliation_id;
+
+  DELETE FROM factory_statement_lines WHERE reconciliation_id = v_reconciliation_id;
+
+  INSERT INTO factory_statement_lines (
+    organization_id, reconciliation_id, date, tea_sale_id,
+    statement_kg, statement_deduction_kg, statement_rate,
+    recorded_kg, recorded_deduction_kg, recorded_rate, status
+  )
+  SELECT
+    p_org_id, v_reconciliation_id, l.date, s.id,
+    l.statement_kg, l.statement_deduction_kg, l.statement_rate,
+    l.recorded_kg, l.recorded_deduction_kg, l.recorded_rate, l.status
+  FROM reconciliation_lines l
+  LEFT JOIN tea_sales s ON s.id = l.tea_sale_id AND s.organization_id = p_org_id AND s.factory_id = p_factory_id;
+
+  RETURN v_reconciliation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION save_factory_reconciliation(UUID, UUID, DATE, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+-- 4. RLS POLICIES
+-- =====================================================
+-- Reconciliations are written through save_factory_reconciliation; editors may
+-- delete one to clear the month
+ALTER TABLE factory_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE factory_statement_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "factory_reconciliations_select_policy" ON factory_reconciliations
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "factory_reconciliations_delete_policy" ON factory_reconciliations
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+CREATE POLICY "factory_statement_lines_select_policy" ON factory_statement_lines
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
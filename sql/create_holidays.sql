@@ -0,0 +1,55 @@
+-- =====================================================
+-- HOLIDAY CALENDAR
+-- =====================================================
+-- Poya days, public and mercantile holidays and the estate's own days off.
+-- The Sri Lankan list for a year is loaded from the app and can then be
+-- edited. Plucking on a holiday is paid at the rate multiplier for its type,
+-- kept in organizations.settings->'holiday_rates'.
+-- daily_plucking.holiday_pay keeps the extra the multiplier added, so later
+-- changes to the calendar or the rates don't rewrite history.
+-- Run after add_wage_norms.sql
+-- =====================================================
+
+-- 1. HOLIDAYS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  holiday_type VARCHAR(12) NOT NULL CHECK (holiday_type IN ('poya', 'public', 'mercantile', 'estate')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Two holidays can fall on one day (e.g. May Day on Vesak Poya)
+  UNIQUE(organization_id, date, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holidays_org_date ON holidays(organization_id, date);
+
+CREATE TRIGGER update_holidays_updated_at
+  BEFORE UPDATE ON holidays
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS POLICIES
+-- =====================================================
+ALTER TABLE holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "holidays_select_policy" ON holidays
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "holidays_insert_policy" ON holidays
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "holidays_update_policy" ON holidays
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "holidays_delete_policy" ON holidays
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 3. HOLIDAY PAY
+-- =====================================================
+ALTER TABLE daily_plucking ADD COLUMN IF NOT EXISTS holiday_pay DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN daily_plucking.holiday_pay IS 'Part of wage_earned added by the holiday rate multiplier';
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
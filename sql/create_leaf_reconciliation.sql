@@ -0,0 +1,46 @@
+-- =====================================================
+-- PLUCKED VS DELIVERED LEAF
+-- =====================================================
+-- Leaf is weighed per worker when plucked (daily_plucking) and again at the
+-- factory (tea_sales). leaf_reconciliation() totals both per day so the app can
+-- show the difference and shrinkage without downloading every plucking record.
+-- It runs with the caller's rights, so RLS limits it to their organizations.
+-- The tolerance lives in organizations.settings->'leaf_tolerance'.
+-- Run after create_factory_payments.sql
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_tea_sales_org_date ON tea_sales(organization_id, date);
+
+CREATE OR REPLACE FUNCTION leaf_reconciliation(p_org_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (date DATE, plucked_kg DECIMAL, delivered_kg DECIMAL, pluckers INTEGER, deliveries INTEGER) AS $$
+  WITH plucked AS (
+    SELECT dp.date, SUM(dp.kg_plucked) AS kg, COUNT(DISTINCT dp.worker_id)::INTEGER AS pluckers
+    FROM daily_plucking dp
+    WHERE dp.organization_id = p_org_id
+      AND dp.date BETWEEN p_from AND p_to
+      AND NOT COALESCE(dp.is_advance, false)
+    GROUP BY dp.date
+  ),
+  delivered AS (
+    SELECT ts.date, SUM(ts.kg_delivered) AS kg, COUNT(*)::INTEGER AS deliveries
+    FROM tea_sales ts
+    WHERE ts.organization_id = p_org_id
+      AND ts.date BETWEEN p_from AND p_to
+    GROUP BY ts.date
+  )
+  SELECT
+    COALESCE(p.date, d.date),
+    COALESCE(p.kg, 0),
+    COALESCE(d.kg, 0),
+    COALESCE(p.pluckers, 0),
+    COALESCE(d.deliveries, 0)
+  FROM plucked p
+  FULL OUTER JOIN delivered d ON d.date = p.date
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION leaf_reconciliation(UUID, DATE, DATE) TO authenticated;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
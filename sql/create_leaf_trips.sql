@@ -0,0 +1,56 @@
+-- =====================================================
+-- LEAF COLLECTION TRIPS
+-- =====================================================
+-- Leaf goes to the factories on lorry trips, sometimes several a day and sometimes
+-- one trip calling at more than one factory. A trip records the vehicle, driver,
+-- departure time and what the trip cost; the deliveries it carried point at it
+-- through tea_sales.trip_id. Trip cost is shared across its deliveries by kg to
+-- give a transport cost per kg for each factory.
+-- Run after create_factory_payments.sql
+-- =====================================================
+
+-- 1. TRIPS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS leaf_trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  trip_date DATE NOT NULL,
+  departure_time TIME,
+  vehicle_number VARCHAR(30) NOT NULL,
+  driver_name VARCHAR(100),
+  cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (cost >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaf_trips_org_date ON leaf_trips(organization_id, trip_date DESC);
+
+CREATE TRIGGER update_leaf_trips_updated_at
+  BEFORE UPDATE ON leaf_trips
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. DELIVERIES ON A TRIP
+-- =====================================================
+-- Deleting a trip leaves its deliveries in place, just no longer on a trip
+ALTER TABLE tea_sales ADD COLUMN IF NOT EXISTS trip_id UUID REFERENCES leaf_trips(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tea_sales_trip ON tea_sales(trip_id);
+
+-- 3. RLS POLICIES
+-- =====================================================
+ALTER TABLE leaf_trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "leaf_trips_select_policy" ON leaf_trips
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "leaf_trips_insert_policy" ON leaf_trips
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "leaf_trips_update_policy" ON leaf_trips
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "leaf_trips_delete_policy" ON leaf_trips
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
@@ -0,0 +1,108 @@
+-- =====================================================
+-- PAYMENT SIGNATURES
+-- =====================================================
+-- Workers sign on screen when they take a cash salary or an advance. The
+-- signature is a PNG in the private 'signatures' storage bucket, stored under
+-- <organization_id>/<salary_payments|daily_plucking>/, and the payment row
+-- keeps its path. Images are read through signed URLs, so only members of
+-- the organization can see them.
+-- Run after add_bank_payments.sql
+-- =====================================================
+
+-- 1. SIGNATURE PATHS
+-- =====================================================
+ALTER TABLE salary_payments ADD COLUMN IF NOT EXISTS signature_path TEXT;
+-- Only set on advance rows (is_advance = true)
+ALTER TABLE daily_plucking ADD COLUMN IF NOT EXISTS signature_path TEXT;
+
+-- 2. STORAGE BUCKET
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('signatures', 'signatures', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- 3. STORAGE POLICIES (first folder is the organization id)
+-- =====================================================
+DROP POLICY IF EXISTS "Members can view signatures" ON storage.objects;
+DROP POLICY IF EXISTS "Editors can upload signatures" ON storage.objects;
+-- Signatures are proof of payment, so no one can delete one: there is no
+-- DELETE policy, and a re-signed receipt keeps the earlier image
+DROP POLICY IF EXISTS "Editors can delete signatures" ON storage.objects;
+
+CREATE POLICY "Members can view signatures"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'signatures' AND
+  ((storage.foldername(name))[1])::uuid IN (SELECT auth_user_org_ids())
+);
+
+CREATE POLICY "Editors can upload signatures"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'signatures' AND
+  auth_can_edit_org(((storage.foldername(name))[1])::uuid)
+);
+
+-- 4. SIGNING FOR PAYMENTS IN CLOSED MONTHS
+-- =====================================================
+-- Replaces the function from create_payroll_runs.sql. A worker can still sign
+-- for a payment after its month is closed: an update that only sets a missing
+-- signature_path changes no amounts, so the lock lets it through. A signature
+-- already on a closed month's record cannot be replaced.
+CREATE OR REPLACE FUNCTION enforce_open_payroll_month()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_date DATE;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND to_jsonb(OLD) ->> 'signature_path' IS NULL
+    AND to_jsonb(NEW) - 'signature_path' - 'updated_at' = to_jsonb(OLD) - 'signature_path' - 'updated_at' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_date := (to_jsonb(OLD) ->> TG_ARGV[0])::date;
+    IF is_payroll_month_closed(OLD.organization_id, v_date) THEN
+      RAISE EXCEPTION 'Payroll for % is closed. Ask the owner to reopen the month to change it.', to_char(v_date, 'FMMonth YYYY');
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_date := (to_jsonb(NEW) ->> TG_ARGV[0])::date;
+    IF is_payroll_month_closed(NEW.organization_id, v_date) THEN
+      RAISE EXCEPTION 'Payroll for % is closed. Ask the owner to reopen the month to change it.', to_char(v_date, 'FMMonth YYYY');
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Salary payments are still made after their month closes, so the month lock
+-- does not cover them; only their signature is kept once the month is closed
+CREATE OR REPLACE FUNCTION keep_closed_month_signature()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.signature_path IS NOT NULL
+    AND NEW.signature_path IS DISTINCT FROM OLD.signature_path
+    AND is_payroll_month_closed(OLD.organization_id, OLD.month) THEN
+    RAISE EXCEPTION 'Payroll for % is closed. A signature already collected cannot be replaced.', to_char(OLD.month, 'FMMonth YYYY');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_closed_month_signature_salary_payments ON salary_payments;
+CREATE TRIGGER keep_closed_month_signature_salary_payments
+  BEFORE UPDATE ON salary_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_closed_month_signature();
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
@@ -0,0 +1,255 @@
+-- =====================================================
+-- MONTH-END PAYROLL CLOSE
+-- =====================================================
+-- Closing a month snapshots every worker's salary lines into payroll_run_lines
+-- and locks the plucking, bonus and advance records dated in that month.
+-- Only the organization owner can reopen a month; the reopen is recorded on the run.
+-- Run after create_advance_ledger.sql and fix_rls_recursion.sql
+-- =====================================================
+
+-- 1. PAYROLL RUNS
+-- =====================================================
+-- A month can be closed, reopened and closed again; each close is a new run
+CREATE TABLE IF NOT EXISTS payroll_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  month DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'closed' CHECK (status IN ('closed', 'reopened')),
+  worker_count INTEGER NOT NULL DEFAULT 0,
+  total_kg DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_net DECIMAL(12,2) NOT NULL DEFAULT 0,
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ DEFAULT NOW(),
+  reopened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reopened_at TIMESTAMPTZ,
+  reopen_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one closed run per organization and month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payroll_runs_closed_month
+  ON payroll_runs(organization_id, month) WHERE status = 'closed';
+CREATE INDEX IF NOT EXISTS idx_payroll_runs_org_month ON payroll_runs(organization_id, month);
+
+-- 2. SNAPSHOT LINES
+-- =====================================================
+-- Worker details are copied so the snapshot survives worker edits and deletion
+CREATE TABLE IF NOT EXISTS payroll_run_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payroll_run_id UUID NOT NULL REFERENCES payroll_runs(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  worker_id UUID REFERENCES workers(id) ON DELETE SET NULL,
+  employee_id TEXT NOT NULL,
+  worker_name TEXT NOT NULL,
+  days_worked INTEGER NOT NULL DEFAULT 0,
+  total_kg DECIMAL(10,2) NOT NULL DEFAULT 0,
+  total_earned DECIMAL(12,2) NOT NULL DEFAULT 0,
+  extra_work DECIMAL(12,2) NOT NULL DEFAULT 0,
+  extra_work_by_type JSONB NOT NULL DEFAULT '{}',
+  bonus DECIMAL(12,2) NOT NULL DEFAULT 0,
+  advance_issued DECIMAL(12,2) NOT NULL DEFAULT 0,
+  advance_recovered DECIMAL(12,2) NOT NULL DEFAULT 0,
+  advance_carried DECIMAL(12,2) NOT NULL DEFAULT 0,
+  net_salary DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_run_lines_run ON payroll_run_lines(payroll_run_id);
+
+-- 3. RLS
+-- =====================================================
+-- Runs and lines are written only through the functions below.
+-- There are no UPDATE or DELETE policies, so snapshots cannot be changed from the app.
+ALTER TABLE payroll_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payroll_run_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "payroll_runs_select_policy" ON payroll_runs
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "payroll_run_lines_select_policy" ON payroll_run_lines
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+
+-- 4. LOCK CHECK
+-- =====================================================
+-- The join lets an organization be deleted: its cascaded deletes run after the
+-- organization row is gone, so its closed months no longer count
+CREATE OR REPLACE FUNCTION is_payroll_month_closed(p_org_id UUID, p_date DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM payroll_runs pr
+    JOIN organizations o ON o.id = pr.organization_id
+    WHERE pr.organization_id = p_org_id
+    AND pr.month = date_trunc('month', p_date)::date
+    AND pr.status = 'closed'
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+-- Rejects changes to rows dated in a closed month.
+-- TG_ARGV[0] is the name of the row's date column.
+CREATE OR REPLACE FUNCTION enforce_open_payroll_month()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_date DATE;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_date := (to_jsonb(OLD) ->> TG_ARGV[0])::date;
+    IF is_payroll_month_closed(OLD.organization_id, v_date) THEN
+      RAISE EXCEPTION 'Payroll for % is closed. Ask the owner to reopen the month to change it.', to_char(v_date, 'FMMonth YYYY');
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_date := (to_jsonb(NEW) ->> TG_ARGV[0])::date;
+    IF is_payroll_month_closed(NEW.organization_id, v_date) THEN
+      RAISE EXCEPTION 'Payroll for % is closed. Ask the owner to reopen the month to change it.', to_char(v_date, 'FMMonth YYYY');
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Plucking records and advances (daily_plucking rows with is_advance = true)
+DROP TRIGGER IF EXISTS lock_closed_payroll_daily_plucking ON daily_plucking;
+CREATE TRIGGER lock_closed_payroll_daily_plucking
+  BEFORE INSERT OR UPDATE OR DELETE ON daily_plucking
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_open_payroll_month('date');
+
+DROP TRIGGER IF EXISTS lock_closed_payroll_worker_bonuses ON worker_bonuses;
+CREATE TRIGGER lock_closed_payroll_worker_bonuses
+  BEFORE INSERT OR UPDATE OR DELETE ON worker_bonuses
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_open_payroll_month('month');
+
+-- Moving an instalment schedule into or out of a closed month changes that month's recovery
+DROP TRIGGER IF EXISTS lock_closed_payroll_advance_schedules ON advance_schedules;
+CREATE TRIGGER lock_closed_payroll_advance_schedules
+  BEFORE INSERT OR UPDATE OR DELETE ON advance_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_open_payroll_month('start_month');
+
+-- Extra work lines take their date from the plucking record they belong to
+CREATE OR REPLACE FUNCTION enforce_open_payroll_month_extra_work()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_date DATE;
+BEGIN
+  SELECT date INTO v_date FROM daily_plucking
+  WHERE id = COALESCE(NEW.daily_plucking_id, OLD.daily_plucking_id);
+
+  IF v_date IS NOT NULL AND is_payroll_month_closed(COALESCE(NEW.organization_id, OLD.organization_id), v_date) THEN
+    RAISE EXCEPTION 'Payroll for % is closed. Ask the owner to reopen the month to change it.', to_char(v_date, 'FMMonth YYYY');
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_closed_payroll_extra_work ON daily_plucking_extra_work;
+CREATE TRIGGER lock_closed_payroll_extra_work
+  BEFORE INSERT OR UPDATE OR DELETE ON daily_plucking_extra_work
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_open_payroll_month_extra_work();
+
+-- 5. CLOSE AND REOPEN
+-- =====================================================
+-- Creates the run and its lines in one transaction. p_lines is a JSON array of
+-- payroll_run_lines columns (without ids, run or organization).
+CREATE OR REPLACE FUNCTION close_payroll_month(
+  p_org_id UUID,
+  p_month DATE,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_month DATE := date_trunc('month', p_month)::date;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to close payroll';
+  END IF;
+
+  IF is_payroll_month_closed(p_org_id, v_month) THEN
+    RAISE EXCEPTION 'Payroll for % is already closed', to_char(v_month, 'FMMonth YYYY');
+  END IF;
+
+  INSERT INTO payroll_runs (organization_id, month, closed_by)
+  VALUES (p_org_id, v_month, auth.uid())
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO payroll_run_lines (
+    payroll_run_id, organization_id, worker_id, employee_id, worker_name,
+    days_worked, total_kg, total_earned, extra_work, extra_work_by_type,
+    bonus, advance_issued, advance_recovered, advance_carried, net_salary
+  )
+  SELECT
+    v_run_id, p_org_id, l.worker_id, l.employee_id, l.worker_name,
+    COALESCE(l.days_worked, 0), COALESCE(l.total_kg, 0), COALESCE(l.total_earned, 0),
+    COALESCE(l.extra_work, 0), COALESCE(l.extra_work_by_type, '{}'),
+    COALESCE(l.bonus, 0), COALESCE(l.advance_issued, 0), COALESCE(l.advance_recovered, 0),
+    COALESCE(l.advance_carried, 0), COALESCE(l.net_salary, 0)
+  FROM jsonb_to_recordset(p_lines) AS l(
+    worker_id UUID, employee_id TEXT, worker_name TEXT,
+    days_worked INTEGER, total_kg DECIMAL, total_earned DECIMAL, extra_work DECIMAL,
+    extra_work_by_type JSONB, bonus DECIMAL, advance_issued DECIMAL,
+    advance_recovered DECIMAL, advance_carried DECIMAL, net_salary DECIMAL
+  );
+
+  UPDATE payroll_runs
+  SET worker_count = totals.worker_count, total_kg = totals.total_kg, total_net = totals.total_net
+  FROM (
+    SELECT COUNT(*) AS worker_count, COALESCE(SUM(total_kg), 0) AS total_kg, COALESCE(SUM(net_salary), 0) AS total_net
+    FROM payroll_run_lines WHERE payroll_run_id = v_run_id
+  ) AS totals
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Owner only. The run and its lines are kept as history.
+CREATE OR REPLACE FUNCTION reopen_payroll_run(
+  p_run_id UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT organization_id INTO v_org_id
+  FROM payroll_runs
+  WHERE id = p_run_id AND status = 'closed';
+
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'Payroll run not found or already reopened';
+  END IF;
+
+  IF NOT auth_is_org_owner(v_org_id) THEN
+    RAISE EXCEPTION 'Only the organization owner can reopen a closed month';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reopen a closed month';
+  END IF;
+
+  UPDATE payroll_runs
+  SET status = 'reopened', reopened_by = auth.uid(), reopened_at = NOW(), reopen_reason = trim(p_reason)
+  WHERE id = p_run_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_payroll_month_closed(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION close_payroll_month(UUID, DATE, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION reopen_payroll_run(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
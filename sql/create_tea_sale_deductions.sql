@@ -0,0 +1,104 @@
+-- =====================================================
+-- ITEMISED TEA SALE DEDUCTIONS
+-- =====================================================
+-- Factories deduct transport, bag weight, moisture/water and fertiliser advances
+-- from what they pay for green leaf. This adds:
+--   factory_deduction_types - per-factory catalogue of deductions and how each is worked out
+--   tea_sale_deductions     - one row per deduction line on a sale
+-- tea_sales.deductions is kept as the per-sale total and net_income = total_income - deductions
+-- Run after multi_tenant_setup.sql and fix_rls_recursion.sql
+-- =====================================================
+
+-- 1. SALE TOTALS
+-- =====================================================
+ALTER TABLE tea_sales ADD COLUMN IF NOT EXISTS deductions DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE tea_sales ADD COLUMN IF NOT EXISTS net_income DECIMAL(12,2);
+
+UPDATE tea_sales SET net_income = total_income - deductions WHERE net_income IS NULL;
+
+-- 2. DEDUCTION TYPES PER FACTORY
+-- =====================================================
+-- method decides how default_value turns into an amount on a sale:
+--   fixed    - a flat amount (e.g. fertiliser advance instalment)
+--   per_kg   - default_value × kg delivered (e.g. transport)
+--   percent  - default_value % of the gross income (e.g. moisture/water)
+--   kg       - default_value kg struck off the weight, valued at the sale rate (e.g. bag weight)
+CREATE TABLE IF NOT EXISTS factory_deduction_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL REFERENCES factory_rates(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  method TEXT NOT NULL DEFAULT 'fixed' CHECK (method IN ('fixed', 'per_kg', 'percent', 'kg')),
+  default_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(factory_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_deduction_types_org_id ON factory_deduction_types(organization_id);
+CREATE INDEX IF NOT EXISTS idx_factory_deduction_types_factory ON factory_deduction_types(factory_id);
+
+CREATE TRIGGER update_factory_deduction_types_updated_at
+  BEFORE UPDATE ON factory_deduction_types
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. DEDUCTION LINES
+-- =====================================================
+-- name, method and value are copied from the type so past sales survive catalogue edits
+CREATE TABLE IF NOT EXISTS tea_sale_deductions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  tea_sale_id UUID NOT NULL REFERENCES tea_sales(id) ON DELETE CASCADE,
+  deduction_type_id UUID REFERENCES factory_deduction_types(id) ON DELETE SET NULL,
+  name VARCHAR(100) NOT NULL,
+  method TEXT NOT NULL DEFAULT 'fixed' CHECK (method IN ('fixed', 'per_kg', 'percent', 'kg')),
+  value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tea_sale_deductions_org_id ON tea_sale_deductions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_tea_sale_deductions_sale ON tea_sale_deductions(tea_sale_id);
+
+-- 4. RLS POLICIES
+-- =====================================================
+ALTER TABLE factory_deduction_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tea_sale_deductions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "factory_deduction_types_select_policy" ON factory_deduction_types
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "factory_deduction_types_insert_policy" ON factory_deduction_types
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "factory_deduction_types_update_policy" ON factory_deduction_types
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "factory_deduction_types_delete_policy" ON factory_deduction_types
+  FOR DELETE USING (organization_id IN (SELECT auth_user_admin_org_ids()));
+
+CREATE POLICY "tea_sale_deductions_select_policy" ON tea_sale_deductions
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "tea_sale_deductions_insert_policy" ON tea_sale_deductions
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "tea_sale_deductions_update_policy" ON tea_sale_deductions
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "tea_sale_deductions_delete_policy" ON tea_sale_deductions
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 5. SEED THE USUAL DEDUCTIONS FOR EVERY FACTORY
+-- =====================================================
+-- Values start at 0 so nothing is deducted until each factory's terms are filled in
+INSERT INTO factory_deduction_types (organization_id, factory_id, name, method, default_value)
+SELECT f.organization_id, f.id, t.name, t.method, 0
+FROM factory_rates f
+CROSS JOIN (VALUES
+  ('Transport', 'per_kg'),
+  ('Bag Weight', 'kg'),
+  ('Moisture/Water', 'percent'),
+  ('Fertiliser Advance', 'fixed')
+) AS t(name, method)
+ON CONFLICT (factory_id, name) DO NOTHING;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
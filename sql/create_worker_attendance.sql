@@ -0,0 +1,120 @@
+-- =====================================================
+-- WORKER ATTENDANCE REGISTER
+-- =====================================================
+-- One row per worker per day: present, absent, half day or leave. Days with a
+-- plucking record and no register entry count as present, so the register only
+-- needs filling in for sundry work, leave and absences.
+-- Leave entitlements and the attendance allowance live in
+-- organizations.settings->'attendance_policy'. The allowance is stored on
+-- payroll_run_lines so a closed month keeps what was paid.
+-- Run after add_statutory_contributions.sql
+-- =====================================================
+
+-- 1. ATTENDANCE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS worker_attendance (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  status VARCHAR(10) NOT NULL CHECK (status IN ('present', 'absent', 'half_day', 'leave')),
+  leave_type VARCHAR(10) CHECK (leave_type IN ('annual', 'casual', 'sick')),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(worker_id, date),
+  -- Leave rows say which entitlement they use; other rows have no leave type
+  CHECK ((status = 'leave') = (leave_type IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_attendance_org_date ON worker_attendance(organization_id, date);
+
+CREATE TRIGGER update_worker_attendance_updated_at
+  BEFORE UPDATE ON worker_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Attendance decides the allowance, so it is locked with the rest of a closed month
+DROP TRIGGER IF EXISTS lock_closed_payroll_worker_attendance ON worker_attendance;
+CREATE TRIGGER lock_closed_payroll_worker_attendance
+  BEFORE INSERT OR UPDATE OR DELETE ON worker_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_open_payroll_month('date');
+
+-- 2. RLS POLICIES
+-- =====================================================
+ALTER TABLE worker_attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "worker_attendance_select_policy" ON worker_attendance
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "worker_attendance_insert_policy" ON worker_attendance
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "worker_attendance_update_policy" ON worker_attendance
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "worker_attendance_delete_policy" ON worker_attendance
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 3. SNAPSHOT COLUMN
+-- =====================================================
+ALTER TABLE payroll_run_lines ADD COLUMN IF NOT EXISTS attendance_allowance DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- 4. CLOSE FUNCTION (now stores the attendance allowance)
+-- =====================================================
+CREATE OR REPLACE FUNCTION close_payroll_month(
+  p_org_id UUID,
+  p_month DATE,
+  p_lines JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_run_id UUID;
+  v_month DATE := date_trunc('month', p_month)::date;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to close payroll';
+  END IF;
+
+  IF is_payroll_month_closed(p_org_id, v_month) THEN
+    RAISE EXCEPTION 'Payroll for % is already closed', to_char(v_month, 'FMMonth YYYY');
+  END IF;
+
+  INSERT INTO payroll_runs (organization_id, month, closed_by)
+  VALUES (p_org_id, v_month, auth.uid())
+  RETURNING id INTO v_run_id;
+
+  INSERT INTO payroll_run_lines (
+    payroll_run_id, organization_id, worker_id, employee_id, worker_name,
+    days_worked, total_kg, total_earned, extra_work, extra_work_by_type,
+    bonus, attendance_allowance, advance_issued, advance_recovered, advance_carried,
+    contributory_wage, epf_employee, epf_employer, etf, net_salary
+  )
+  SELECT
+    v_run_id, p_org_id, l.worker_id, l.employee_id, l.worker_name,
+    COALESCE(l.days_worked, 0), COALESCE(l.total_kg, 0), COALESCE(l.total_earned, 0),
+    COALESCE(l.extra_work, 0), COALESCE(l.extra_work_by_type, '{}'),
+    COALESCE(l.bonus, 0), COALESCE(l.attendance_allowance, 0), COALESCE(l.advance_issued, 0),
+    COALESCE(l.advance_recovered, 0), COALESCE(l.advance_carried, 0), COALESCE(l.contributory_wage, 0),
+    COALESCE(l.epf_employee, 0), COALESCE(l.epf_employer, 0), COALESCE(l.etf, 0), COALESCE(l.net_salary, 0)
+  FROM jsonb_to_recordset(p_lines) AS l(
+    worker_id UUID, employee_id TEXT, worker_name TEXT,
+    days_worked INTEGER, total_kg DECIMAL, total_earned DECIMAL, extra_work DECIMAL,
+    extra_work_by_type JSONB, bonus DECIMAL, attendance_allowance DECIMAL, advance_issued DECIMAL,
+    advance_recovered DECIMAL, advance_carried DECIMAL, contributory_wage DECIMAL,
+    epf_employee DECIMAL, epf_employer DECIMAL, etf DECIMAL, net_salary DECIMAL
+  );
+
+  UPDATE payroll_runs
+  SET worker_count = totals.worker_count, total_kg = totals.total_kg, total_net = totals.total_net
+  FROM (
+    SELECT COUNT(*) AS worker_count, COALESCE(SUM(total_kg), 0) AS total_kg, COALESCE(SUM(net_salary), 0) AS total_net
+    FROM payroll_run_lines WHERE payroll_run_id = v_run_id
+  ) AS totals
+  WHERE id = v_run_id;
+
+  RETURN v_run_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
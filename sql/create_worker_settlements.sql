@@ -0,0 +1,107 @@
+-- =====================================================
+-- WORKER TERMINATION AND FINAL SETTLEMENT
+-- =====================================================
+-- Terminating a worker records the end date and reason on the worker and
+-- keeps the final settlement worked out at the time: wages for the last
+-- (partial) month, advances still owed and gratuity under the Payment of
+-- Gratuity Act. Settled wages are marked paid in salary_payments.
+-- Terminated workers drop out of the entry forms; their records stay.
+-- Run after create_holidays.sql
+-- =====================================================
+
+-- 1. TERMINATION DETAILS
+-- =====================================================
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS termination_date DATE;
+ALTER TABLE workers ADD COLUMN IF NOT EXISTS termination_reason TEXT;
+
+-- 2. SETTLEMENTS
+-- =====================================================
+CREATE TABLE IF NOT EXISTS worker_settlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL UNIQUE REFERENCES workers(id) ON DELETE CASCADE,
+  termination_date DATE NOT NULL,
+  reason TEXT NOT NULL,
+  -- The last month, from its first day to the termination date
+  days_worked INTEGER NOT NULL DEFAULT 0,
+  wages DECIMAL(12,2) NOT NULL DEFAULT 0,
+  epf_employee DECIMAL(12,2) NOT NULL DEFAULT 0,
+  -- TRUE when the month's salary had already been paid, so no wages are due
+  wages_already_paid BOOLEAN NOT NULL DEFAULT FALSE,
+  wages_due DECIMAL(12,2) NOT NULL DEFAULT 0,
+  advance_outstanding DECIMAL(12,2) NOT NULL DEFAULT 0,
+  years_of_service INTEGER NOT NULL DEFAULT 0,
+  -- Gratuity basis: half the monthly salary for monthly staff, else 14 days at the average daily wage
+  monthly_salary DECIMAL(12,2),
+  gratuity_daily_wage DECIMAL(12,2) NOT NULL DEFAULT 0,
+  gratuity DECIMAL(12,2) NOT NULL DEFAULT 0,
+  -- Negative when the worker still owes more in advances than is due to them
+  net_payable DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_settlements_org ON worker_settlements(organization_id);
+
+-- 3. RLS POLICIES
+-- =====================================================
+ALTER TABLE worker_settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "worker_settlements_select_policy" ON worker_settlements
+  FOR SELECT USING (organization_id IN (SELECT auth_user_org_ids()));
+CREATE POLICY "worker_settlements_insert_policy" ON worker_settlements
+  FOR INSERT WITH CHECK (auth_can_edit_org(organization_id));
+CREATE POLICY "worker_settlements_update_policy" ON worker_settlements
+  FOR UPDATE USING (auth_can_edit_org(organization_id));
+CREATE POLICY "worker_settlements_delete_policy" ON worker_settlements
+  FOR DELETE USING (auth_can_edit_org(organization_id));
+
+-- 4. TERMINATION
+-- =====================================================
+-- Keeps the settlement worked out in the app, marks the last month's wages
+-- paid with it and terminates the worker in one transaction, so a failure
+-- part-way leaves none of it behind. A worker terminated again gets a new
+-- settlement in place of the old one.
+CREATE OR REPLACE FUNCTION terminate_worker(p_org_id UUID, p_settlement JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_settlement worker_settlements;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to terminate workers';
+  END IF;
+
+  v_settlement := jsonb_populate_record(NULL::worker_settlements, p_settlement);
+  v_settlement.id := gen_random_uuid();
+  v_settlement.organization_id := p_org_id;
+  v_settlement.created_by := auth.uid();
+  v_settlement.created_at := NOW();
+
+  IF NOT EXISTS (SELECT 1 FROM workers WHERE id = v_settlement.worker_id AND organization_id = p_org_id) THEN
+    RAISE EXCEPTION 'Worker not found';
+  END IF;
+
+  DELETE FROM worker_settlements WHERE worker_id = v_settlement.worker_id;
+  INSERT INTO worker_settlements SELECT (v_settlement).*;
+
+  -- No amount: the payment settles the month in full, including any instalments paid before
+  IF NOT v_settlement.wages_already_paid THEN
+    INSERT INTO salary_payments (organization_id, worker_id, month, paid_at)
+    VALUES (p_org_id, v_settlement.worker_id, date_trunc('month', v_settlement.termination_date)::date, NOW());
+  END IF;
+
+  UPDATE workers
+  SET status = 'terminated',
+      termination_date = v_settlement.termination_date,
+      termination_reason = v_settlement.reason
+  WHERE id = v_settlement.worker_id;
+
+  RETURN v_settlement.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION terminate_worker(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
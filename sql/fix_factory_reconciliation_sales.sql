@@ -0,0 +1,180 @@
+-- =====================================================
+-- ACCEPTED STATEMENTS CORRECT SALES IN THE SAME TRANSACTION
+-- =====================================================
+-- Accepting a factory statement used to correct tea_sales one row at a time
+-- from the app before save_factory_reconciliation ran, so a failure part-way
+-- left sales half-corrected with no reconciliation recorded. The corrections
+-- now come in as p_sales and are written with the reconciliation, all or
+-- nothing. p_sales is a JSON array of sales with their figures and deduction
+-- lines; is_new marks days only the factory recorded, and notes carries the
+-- note for them in the language of whoever accepted the statement.
+-- Run after create_factory_reconciliations.sql
+-- =====================================================
+
+DROP FUNCTION IF EXISTS save_factory_reconciliation(UUID, UUID, DATE, TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION save_factory_reconciliation(
+  p_org_id UUID,
+  p_factory_id UUID,
+  p_month DATE,
+  p_status TEXT,
+  p_file_name TEXT,
+  p_dispute_reason TEXT,
+  p_lines JSONB,
+  p_sales JSONB DEFAULT '[]'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_reconciliation_id UUID;
+  v_factory_name TEXT;
+  v_sale RECORD;
+BEGIN
+  IF NOT auth_can_edit_org(p_org_id) THEN
+    RAISE EXCEPTION 'You do not have permission to reconcile factory statements';
+  END IF;
+
+  SELECT name INTO v_factory_name FROM factories WHERE id = p_factory_id AND organization_id = p_org_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Factory not found';
+  END IF;
+
+  IF p_status = 'disputed' AND NULLIF(trim(p_dispute_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for disputing the statement';
+  END IF;
+
+  CREATE TEMP TABLE reconciliation_lines ON COMMIT DROP AS
+  SELECT *
+  FROM jsonb_to_recordset(COALESCE(p_lines, '[]')) AS l(
+    date DATE,
+    tea_sale_id UUID,
+    statement_kg DECIMAL,
+    statement_deduction_kg DECIMAL,
+    statement_rate DECIMAL,
+    recorded_kg DECIMAL,
+    recorded_deduction_kg DECIMAL,
+    recorded_rate DECIMAL,
+    status TEXT
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM reconciliation_lines
+    WHERE date_trunc('month', date)::DATE <> date_trunc('month', p_month)::DATE
+  ) THEN
+    RAISE EXCEPTION 'Statement lines must all fall in %', to_char(p_month, 'FMMonth YYYY');
+  END IF;
+
+  IF p_status <> 'accepted' AND jsonb_array_length(COALESCE(p_sales, '[]')) > 0 THEN
+    RAISE EXCEPTION 'Only an accepted statement corrects sales';
+  END IF;
+
+  -- Sales corrected to the statement, and new ones (with ids chosen by the app) for days only the factory recorded
+  FOR v_sale IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_sales, '[]')) AS s(
+      id UUID,
+      is_new BOOLEAN,
+      date DATE,
+      kg_delivered DECIMAL,
+      rate_per_kg DECIMAL,
+      total_income DECIMAL,
+      deductions DECIMAL,
+      net_income DECIMAL,
+      notes TEXT,
+      deduction_lines JSONB
+    )
+  LOOP
+    IF date_trunc('month', v_sale.date)::DATE <> date_trunc('month', p_month)::DATE THEN
+      RAISE EXCEPTION 'Corrected sales must all fall in %', to_char(p_month, 'FMMonth YYYY');
+    END IF;
+
+    IF v_sale.is_new THEN
+      INSERT INTO tea_sales (
+        id, organization_id, factory_id, factory_name, date,
+        kg_delivered, rate_per_kg, total_income, deductions, net_income, notes
+      )
+      VALUES (
+        v_sale.id, p_org_id, p_factory_id, v_factory_name, v_sale.date,
+        v_sale.kg_delivered, v_sale.rate_per_kg, v_sale.total_income, v_sale.deductions, v_sale.net_income,
+        v_sale.notes
+      );
+    ELSE
+      UPDATE tea_sales SET
+        kg_delivered = v_sale.kg_delivered,
+        rate_per_kg = v_sale.rate_per_kg,
+        total_income = v_sale.total_income,
+        deductions = v_sale.deductions,
+        net_income = v_sale.net_income
+      WHERE id = v_sale.id AND organization_id = p_org_id AND factory_id = p_factory_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Sale on % not found. Reload the statement and try again.', to_char(v_sale.date, 'FMMonth DD');
+      END IF;
+    END IF;
+
+    DELETE FROM tea_sale_deductions WHERE tea_sale_id = v_sale.id;
+
+    -- Deduction types from another organization are not linked
+    INSERT INTO tea_sale_deductions (organization_id, tea_sale_id, deduction_type_id, name, method, value, amount)
+    SELECT
+      p_org_id, v_sale.id,
+      (SELECT t.id FROM factory_deduction_types t WHERE t.id = d.deduction_type_id AND t.organization_id = p_org_id),
+      d.name, d.method, d.value, d.amount
+    FROM jsonb_to_recordset(COALESCE(v_sale.deduction_lines, '[]')) AS d(
+      deduction_type_id UUID,
+      name TEXT,
+      method TEXT,
+      value DECIMAL,
+      amount DECIMAL
+    );
+  END LOOP;
+
+  INSERT INTO factory_reconciliations (
+    organization_id, factory_id, month, status, file_name,
+    statement_kg, statement_amount, recorded_kg, recorded_amount, mismatch_count,
+    dispute_reason, reconciled_by, reconciled_at
+  )
+  SELECT
+    p_org_id, p_factory_id, date_trunc('month', p_month)::DATE, p_status, NULLIF(trim(p_file_name), ''),
+    COALESCE(SUM(statement_kg), 0),
+    COALESCE(SUM((statement_kg - COALESCE(statement_deduction_kg, 0)) * statement_rate), 0),
+    COALESCE(SUM(recorded_kg), 0),
+    COALESCE(SUM((recorded_kg - COALESCE(recorded_deduction_kg, 0)) * recorded_rate), 0),
+    COUNT(*) FILTER (WHERE status <> 'matched'),
+    CASE WHEN p_status = 'disputed' THEN trim(p_dispute_reason) END,
+    auth.uid(), NOW()
+  FROM reconciliation_lines
+  ON CONFLICT (factory_id, month) DO UPDATE SET
+    status = EXCLUDED.status,
+    file_name = EXCLUDED.file_name,
+    statement_kg = EXCLUDED.statement_kg,
+    statement_amount = EXCLUDED.statement_amount,
+    recorded_kg = EXCLUDED.recorded_kg,
+    recorded_amount = EXCLUDED.recorded_amount,
+    mismatch_count = EXCLUDED.mismatch_count,
+    dispute_reason = EXCLUDED.dispute_reason,
+    reconciled_by = EXCLUDED.reconciled_by,
+    reconciled_at = EXCLUDED.reconciled_at
+  RETURNING id INTO v_reconciliation_id;
+
+  DELETE FROM factory_statement_lines WHERE reconciliation_id = v_reconciliation_id;
+
+  INSERT INTO factory_statement_lines (
+    organization_id, reconciliation_id, date, tea_sale_id,
+    statement_kg, statement_deduction_kg, statement_rate,
+    recorded_kg, recorded_deduction_kg, recorded_rate, status
+  )
+  SELECT
+    p_org_id, v_reconciliation_id, l.date, s.id,
+    l.statement_kg, l.statement_deduction_kg, l.statement_rate,
+    l.recorded_kg, l.recorded_deduction_kg, l.recorded_rate, l.status
+  FROM reconciliation_lines l
+  LEFT JOIN tea_sales s ON s.id = l.tea_sale_id AND s.organization_id = p_org_id AND s.factory_id = p_factory_id;
+
+  RETURN v_reconciliation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION save_factory_reconciliation(UUID, UUID, DATE, TEXT, TEXT, TEXT, JSONB, JSONB) TO authenticated;
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
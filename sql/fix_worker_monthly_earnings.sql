@@ -0,0 +1,32 @@
+-- =====================================================
+-- MONTHLY EARNINGS FROM THE STORED DAY'S PAY
+-- =====================================================
+-- worker_monthly_earnings (create_advance_ledger.sql) summed kg × rate, so
+-- advance recovery missed the norm day wage, over-kilo pay and the minimum
+-- wage top-up, and holiday_pay from the holiday rate multiplier. Records
+-- saved under a norm keep their full day's pay in wage_earned; records
+-- without one are kg × rate plus holiday pay and extra work, the same split
+-- the salary page reads them with (recordNormWage). Rows with a NULL
+-- is_advance count as plucking, as they do on the salary page.
+-- Run after create_holidays.sql
+-- =====================================================
+
+CREATE OR REPLACE VIEW worker_monthly_earnings
+WITH (security_invoker = true) AS
+SELECT
+  organization_id,
+  worker_id,
+  date_trunc('month', date)::date AS month,
+  SUM(
+    CASE
+      WHEN norm_kg IS NULL THEN kg_plucked * rate_per_kg + holiday_pay + COALESCE(extra_work_payment, 0)
+      ELSE wage_earned
+    END
+  ) AS earned
+FROM daily_plucking
+WHERE is_advance IS NOT TRUE
+GROUP BY organization_id, worker_id, date_trunc('month', date);
+
+-- =====================================================
+-- DONE! Run this script in your Supabase SQL Editor
+-- =====================================================
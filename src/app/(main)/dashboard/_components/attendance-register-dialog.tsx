@@ -0,0 +1,191 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import { CheckCheck, Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  AttendanceDay,
+  LEAVE_TYPES,
+  RegisterWorker,
+  fetchAttendance,
+  fetchPluckingDays,
+  fetchRegisterWorkers,
+  resolveAttendance,
+  saveAttendance
+} from "@/lib/attendance"
+import type { AttendanceStatus, LeaveType } from "@/types/payroll"
+
+interface AttendanceRegisterDialogProps {
+  orgId: string
+  date: string
+  onClose: () => void
+  onSaved?: () => void
+}
+
+// Select values: a status, "leave:<type>" for leave, or "none" to fall back to plucking records
+const UNMARKED = 'none'
+
+// Labels are message keys, translated where the options are shown
+export const REGISTER_OPTIONS = [
+  ...(['present', 'half_day', 'absent'] as AttendanceStatus[]).map(status => ({ value: status, label: `attendance.status.${status}` as const })),
+  ...(Object.keys(LEAVE_TYPES) as LeaveType[]).map(type => ({ value: `leave:${type}`, label: `attendance.leaveOption.${type}` as const })),
+]
+
+export function registerValue(day: AttendanceDay | undefined) {
+  if (!day || day.inferred) return UNMARKED
+  return day.status === 'leave' ? `leave:${day.leave_type}` : day.status
+}
+
+export function parseRegisterValue(value: string) {
+  if (value === UNMARKED) return { status: null, leave_type: null }
+  const [status, leaveType] = value.split(':') as [AttendanceStatus, LeaveType | undefined]
+  return { status, leave_type: leaveType ?? null }
+}
+
+// Marks one day's attendance for every active worker
+export function AttendanceRegisterDialog({ orgId, date, onClose, onSaved }: AttendanceRegisterDialogProps) {
+  const { t, date: formatDate } = useTranslation()
+  const [workers, setWorkers] = useState<RegisterWorker[]>([])
+  const [days, setDays] = useState<Map<string, AttendanceDay>>(new Map())
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadRegister()
+  }, [orgId, date])
+
+  async function loadRegister() {
+    setLoading(true)
+    try {
+      const [workerList, records, pluckingDays] = await Promise.all([
+        fetchRegisterWorkers(orgId),
+        fetchAttendance(orgId, date, date),
+        fetchPluckingDays(orgId, date, date),
+      ])
+      const resolved = resolveAttendance(records, pluckingDays)
+      const dayByWorker = new Map<string, AttendanceDay>()
+      resolved.forEach((workerDays, workerId) => {
+        const day = workerDays.get(date)
+        if (day) dayByWorker.set(workerId, day)
+      })
+
+      // Former workers only appear if they already have an entry for the day
+      setWorkers(workerList.filter(worker => worker.status === 'active' || dayByWorker.has(worker.id)))
+      setDays(dayByWorker)
+      setValues(Object.fromEntries(workerList.map(worker => [worker.id, registerValue(dayByWorker.get(worker.id))])))
+    } catch (error: any) {
+      console.error('Error fetching attendance:', error?.message ?? error)
+      toast.error(t("attendance.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changed = useMemo(
+    () => workers.filter(worker => values[worker.id] !== registerValue(days.get(worker.id))),
+    [workers, values, days]
+  )
+
+  const markUnmarkedPresent = () => {
+    const next = { ...values }
+    workers.forEach(worker => {
+      if (next[worker.id] === UNMARKED && !days.get(worker.id)?.inferred) next[worker.id] = 'present'
+    })
+    setValues(next)
+  }
+
+  async function handleSave() {
+    if (changed.length === 0) {
+      onClose()
+      return
+    }
+
+    setSaving(true)
+    try {
+      await saveAttendance(orgId, date, changed.map(worker => ({ worker_id: worker.id, ...parseRegisterValue(values[worker.id]) })))
+      toast.success(changed.length === 1 ? t("attendance.savedOne") : t("attendance.saved", { count: changed.length }))
+      onSaved?.()
+      onClose()
+    } catch (error: any) {
+      console.error('Error saving attendance:', error)
+      toast.error(error.message ?? t("attendance.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">{t("attendance.registerTitle", { date: formatDate(date, 'weekdayDate') })}</CardTitle>
+              <CardDescription className="text-xs">{t("attendance.registerDescription")}</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-y-auto space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : workers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">{t("attendance.noActiveWorkers")}</p>
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <Button type="button" variant="outline" size="sm" className="h-7 text-xs" onClick={markUnmarkedPresent}>
+                  <CheckCheck className="h-3.5 w-3.5 mr-1" />
+                  {t("attendance.markUnmarkedPresent")}
+                </Button>
+              </div>
+              <div className="divide-y rounded-md border">
+                {workers.map(worker => (
+                  <div key={worker.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{worker.first_name} {worker.last_name}</p>
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        {worker.employee_id}
+                        {days.get(worker.id)?.inferred && <Badge variant="outline" className="text-[10px] h-4 px-1">{t("attendance.plucked")}</Badge>}
+                      </p>
+                    </div>
+                    <Select value={values[worker.id]} onValueChange={(value) => setValues({ ...values, [worker.id]: value })}>
+                      <SelectTrigger className="h-8 w-36 shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMARKED}>{days.get(worker.id)?.inferred ? t("attendance.presentPlucked") : t("attendance.notMarked")}</SelectItem>
+                        {REGISTER_OPTIONS.map(option => (
+                          <SelectItem key={option.value} value={option.value}>{t(option.label)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          <div className="flex gap-2 pt-1">
+            <Button type="button" variant="outline" className="flex-1 h-8" onClick={onClose}>{t("common.cancel")}</Button>
+            <Button type="button" className="flex-1 h-8" onClick={handleSave} disabled={loading || saving}>
+              {saving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              {changed.length > 0 ? t("attendance.saveCount", { count: changed.length }) : t("common.save")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
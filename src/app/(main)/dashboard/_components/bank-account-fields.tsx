@@ -0,0 +1,98 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import { BankAccount, SRI_LANKAN_BANKS } from "@/lib/bank-payments"
+
+export type BankAccountForm = { [K in keyof BankAccount]-?: string }
+
+export const EMPTY_BANK_ACCOUNT: BankAccountForm = {
+  bank_code: '',
+  bank_branch_code: '',
+  bank_account_number: '',
+  bank_account_name: '',
+}
+
+export function toBankAccountForm(account: BankAccount): BankAccountForm {
+  return {
+    bank_code: account.bank_code ?? '',
+    bank_branch_code: account.bank_branch_code ?? '',
+    bank_account_number: account.bank_account_number ?? '',
+    bank_account_name: account.bank_account_name ?? '',
+  }
+}
+
+export function fromBankAccountForm(form: BankAccountForm): BankAccount {
+  return {
+    bank_code: form.bank_code || null,
+    bank_branch_code: form.bank_branch_code.trim() || null,
+    bank_account_number: form.bank_account_number.replace(/\s/g, '') || null,
+    bank_account_name: form.bank_account_name.trim() || null,
+  }
+}
+
+interface BankAccountFieldsProps {
+  idPrefix: string
+  value: BankAccountForm
+  onChange: (value: BankAccountForm) => void
+  disabled?: boolean
+}
+
+// Bank, branch code, account number and name as a bulk payment file needs them
+export function BankAccountFields({ idPrefix, value, onChange, disabled }: BankAccountFieldsProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}_bank_code`} className="text-xs">{t("bank.field.bank")}</Label>
+        <Select value={value.bank_code} onValueChange={(bank_code) => onChange({ ...value, bank_code })} disabled={disabled}>
+          <SelectTrigger id={`${idPrefix}_bank_code`} className="h-8">
+            <SelectValue placeholder={t("bank.field.selectBank")} />
+          </SelectTrigger>
+          <SelectContent position="popper" className="max-h-[200px]">
+            {SRI_LANKAN_BANKS.map(([code, name]) => (
+              <SelectItem key={code} value={code}>{name} ({code})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}_bank_branch_code`} className="text-xs">{t("bank.field.branchCode")}</Label>
+        <Input
+          id={`${idPrefix}_bank_branch_code`}
+          value={value.bank_branch_code}
+          onChange={(e) => onChange({ ...value, bank_branch_code: e.target.value })}
+          placeholder={t("bank.field.branchCodePlaceholder")}
+          maxLength={3}
+          inputMode="numeric"
+          disabled={disabled}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}_bank_account_number`} className="text-xs">{t("bank.field.accountNumber")}</Label>
+        <Input
+          id={`${idPrefix}_bank_account_number`}
+          value={value.bank_account_number}
+          onChange={(e) => onChange({ ...value, bank_account_number: e.target.value })}
+          inputMode="numeric"
+          disabled={disabled}
+          className="h-8"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}_bank_account_name`} className="text-xs">{t("bank.field.accountName")}</Label>
+        <Input
+          id={`${idPrefix}_bank_account_name`}
+          value={value.bank_account_name}
+          onChange={(e) => onChange({ ...value, bank_account_name: e.target.value })}
+          disabled={disabled}
+          className="h-8"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { formatInTimeZone } from "date-fns-tz"
+import { Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  PAYMENT_METHODS,
+  ReceivableSale,
+  allocateOldestFirst,
+  recordFactoryPayment,
+  saleOutstanding
+} from "@/lib/factory-payments"
+import { supabase } from "@/lib/supabase"
+import type { FactoryPaymentMethod } from "@/types/factories"
+
+interface FactoryPaymentDialogProps {
+  orgId: string
+  factories: { id: string; name: string }[]
+  factoryId?: string
+  onClose: () => void
+  onSaved: () => void
+}
+
+type OutstandingSale = ReceivableSale & { kg_delivered: number }
+
+const EMPTY_FORM = {
+  payment_date: formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM-dd'),
+  amount: '',
+  method: 'bank_transfer' as FactoryPaymentMethod,
+  reference: '',
+  notes: ''
+}
+
+// Records one payment from a factory and spreads it over that factory's unpaid deliveries
+export function FactoryPaymentDialog({ orgId, factories, factoryId, onClose, onSaved }: FactoryPaymentDialogProps) {
+  const [selectedFactory, setSelectedFactory] = useState(factoryId ?? '')
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [sales, setSales] = useState<OutstandingSale[]>([])
+  const [allocations, setAllocations] = useState<Record<string, number>>({})
+  const [loadingSales, setLoadingSales] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { t, date: formatDate, kg, money } = useTranslation()
+
+  useEffect(() => {
+    if (selectedFactory) loadOutstanding(selectedFactory)
+  }, [selectedFactory])
+
+  async function loadOutstanding(id: string) {
+    setLoadingSales(true)
+    try {
+      const { data, error } = await supabase
+        .from('tea_sales')
+        .select('id, date, kg_delivered, total_income, deductions, net_income, amount_paid')
+        .eq('organization_id', orgId)
+        .eq('factory_id', id)
+        .neq('payment_status', 'paid')
+        .order('date')
+
+      if (error) throw error
+      const outstanding = (data ?? []).filter((sale: OutstandingSale) => saleOutstanding(sale) > 0)
+      setSales(outstanding)
+      setAllocations(allocateOldestFirst(outstanding, parseFloat(form.amount) || 0))
+    } catch (error: any) {
+      console.error('Error fetching outstanding deliveries:', error?.message ?? error)
+      toast.error(t("factoryPayments.loadFailed"))
+    } finally {
+      setLoadingSales(false)
+    }
+  }
+
+  const handleAmountChange = (value: string) => {
+    setForm({ ...form, amount: value })
+    setAllocations(allocateOldestFirst(sales, parseFloat(value) || 0))
+  }
+
+  const amount = parseFloat(form.amount) || 0
+  const allocated = Object.values(allocations).reduce((sum, value) => sum + value, 0)
+  const onAccount = amount - allocated
+  const totalOutstanding = sales.reduce((sum, sale) => sum + saleOutstanding(sale), 0)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!selectedFactory || amount <= 0) {
+      toast.error(t("factoryPayments.required"))
+      return
+    }
+    if (onAccount < -0.005) {
+      toast.error(t("factoryPayments.overAllocated"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await recordFactoryPayment(
+        orgId,
+        { ...form, factory_id: selectedFactory, amount },
+        Object.entries(allocations).map(([tea_sale_id, value]) => ({ tea_sale_id, amount: value }))
+      )
+      toast.success(t("factoryPayments.recorded", { amount: money(amount) }))
+      onSaved()
+    } catch (error: any) {
+      console.error('Error recording factory payment:', error)
+      toast.error(error.message ?? t("factoryPayments.recordFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">{t("factoryPayments.title")}</CardTitle>
+              <CardDescription className="text-xs">{t("factoryPayments.description")}</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t("factoryPayments.form.factory")}</Label>
+                <Select value={selectedFactory} onValueChange={setSelectedFactory} disabled={!!factoryId}>
+                  <SelectTrigger className="h-8 w-full">
+                    <SelectValue placeholder={t("teaSales.form.selectFactory")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {factories.map(factory => (
+                      <SelectItem key={factory.id} value={factory.id}>{factory.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="payment_date" className="text-xs">{t("factoryPayments.form.dateReceived")}</Label>
+                <Input
+                  id="payment_date"
+                  type="date"
+                  value={form.payment_date}
+                  onChange={(e) => setForm({ ...form, payment_date: e.target.value })}
+                  required
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="payment_amount" className="text-xs">{t("factoryPayments.form.amount")}</Label>
+                <Input
+                  id="payment_amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.amount}
+                  onChange={(e) => handleAmountChange(e.target.value)}
+                  placeholder="0.00"
+                  required
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t("common.method")}</Label>
+                <Select value={form.method} onValueChange={(value) => setForm({ ...form, method: value as FactoryPaymentMethod })}>
+                  <SelectTrigger className="h-8 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>{t(`factoryPayments.method.${method}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="payment_reference" className="text-xs">{t("common.reference")}</Label>
+                <Input
+                  id="payment_reference"
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                  placeholder={t("factoryPayments.form.referencePlaceholder")}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="payment_notes" className="text-xs">{t("common.notes")}</Label>
+                <Input
+                  id="payment_notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+
+            {selectedFactory && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">{t("factoryPayments.unpaidDeliveries")}</Label>
+                  <span className="text-xs text-muted-foreground">{t("factoryPayments.outstandingTotal", { amount: money(totalOutstanding) })}</span>
+                </div>
+                {loadingSales ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </div>
+                ) : sales.length === 0 ? (
+                  <p className="text-xs text-muted-foreground py-2">{t("factoryPayments.allPaid")}</p>
+                ) : (
+                  <div className="rounded-md border divide-y max-h-56 overflow-y-auto">
+                    {sales.map(sale => (
+                      <div key={sale.id} className="grid grid-cols-[1fr_auto_6rem] items-center gap-2 px-2 py-1.5 text-xs">
+                        <span>
+                          {formatDate(sale.date)}
+                          <span className="text-muted-foreground"> · {kg(Number(sale.kg_delivered))}</span>
+                        </span>
+                        <span className="text-muted-foreground">{money(saleOutstanding(sale))}</span>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max={saleOutstanding(sale)}
+                          value={allocations[sale.id] ?? ''}
+                          onChange={(e) => setAllocations({ ...allocations, [sale.id]: parseFloat(e.target.value) || 0 })}
+                          placeholder="0"
+                          className="h-7 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="p-2 bg-muted/50 rounded-md space-y-1 text-xs">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t("factoryPayments.allocated")}</span>
+                <span>{money(allocated)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t("factoryPayments.leftOnAccount")}</span>
+                <span className={onAccount < -0.005 ? 'text-red-600' : undefined}>{money(onAccount)}</span>
+              </div>
+            </div>
+
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                {t("teaSales.recordPayment")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,9 +3,12 @@
 import { ReactNode } from "react"
 import { OrganizationProvider } from "@/contexts/organization-context"
 
+import { ServiceWorkerRegistrar } from "./service-worker-registrar"
+
 export function Providers({ children }: { children: ReactNode }) {
   return (
     <OrganizationProvider>
+      <ServiceWorkerRegistrar />
       {children}
     </OrganizationProvider>
   )
@@ -0,0 +1,16 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Registers public/sw.js so the dashboard keeps working through patchy estate connectivity.
+// Skipped in development, where a cached shell would get in the way of hot reloading.
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch(error => console.error("Service worker registration failed:", error?.message ?? error))
+  }, [])
+
+  return null
+}
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/use-auth";
+import { useTranslation } from "@/hooks/use-translation";
 import { createBrowserSupabaseClient } from "@/lib/supabase";
 import { getInitials } from "@/lib/utils";
 
@@ -24,24 +25,25 @@ export function AccountSwitcher() {
   const router = useRouter();
   const supabase = createBrowserSupabaseClient();
   const { user, loading } = useAuth();
+  const { t } = useTranslation();
 
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
     
     if (error) {
-      toast.error("Logout failed", {
+      toast.error(t("account.logoutFailed"), {
         description: error.message,
       });
       return;
     }
     
-    toast.success("Logged out successfully");
+    toast.success(t("account.loggedOut"));
     router.push("/auth/v1/login");
     router.refresh();
   };
 
   // Get display name from user metadata or email
-  const displayName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || "User";
+  const displayName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || t("account.user");
   const displayEmail = user?.email || "";
   const avatarUrl = user?.user_metadata?.avatar_url || "";
 
@@ -78,13 +80,13 @@ export function AccountSwitcher() {
         <DropdownMenuGroup>
           <DropdownMenuItem onClick={() => router.push('/dashboard/account')}>
             <BadgeCheck />
-            Account
+            {t("account.menu")}
           </DropdownMenuItem>
         </DropdownMenuGroup>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={handleLogout}>
           <LogOut />
-          Log out
+          {t("account.logOut")}
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
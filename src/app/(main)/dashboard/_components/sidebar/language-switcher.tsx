@@ -0,0 +1,51 @@
+"use client";
+
+import { Languages } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useTranslation } from "@/hooks/use-translation";
+import { setValueToCookie } from "@/server/server-actions";
+import { usePreferencesStore } from "@/stores/preferences/preferences-provider";
+import { LANGUAGE_OPTIONS, type Language } from "@/types/preferences/language";
+
+export function LanguageSwitcher() {
+  const language = usePreferencesStore((s) => s.language);
+  const setLanguage = usePreferencesStore((s) => s.setLanguage);
+  const { t } = useTranslation();
+
+  const handleValueChange = async (value: string) => {
+    document.documentElement.lang = value;
+    setLanguage(value as Language);
+    await setValueToCookie("language", value, { maxAge: 60 * 60 * 24 * 365 });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label={t("common.language")}>
+          <Languages />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs">{t("common.language")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={language} onValueChange={handleValueChange}>
+          {LANGUAGE_OPTIONS.map((option) => (
+            <DropdownMenuRadioItem key={option.value} value={option.value} className="text-sm">
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
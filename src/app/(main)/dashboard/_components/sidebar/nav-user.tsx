@@ -18,6 +18,7 @@ import {
 import { SidebarMenu, SidebarMenuButton, SidebarMenuItem, useSidebar } from "@/components/ui/sidebar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/use-auth";
+import { useTranslation } from "@/hooks/use-translation";
 import { createBrowserSupabaseClient } from "@/lib/supabase";
 import { getInitials } from "@/lib/utils";
 
@@ -26,24 +27,25 @@ export function NavUser() {
   const router = useRouter();
   const supabase = createBrowserSupabaseClient();
   const { user, loading } = useAuth();
+  const { t } = useTranslation();
 
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
     
     if (error) {
-      toast.error("Logout failed", {
+      toast.error(t("account.logoutFailed"), {
         description: error.message,
       });
       return;
     }
     
-    toast.success("Logged out successfully");
+    toast.success(t("account.loggedOut"));
     router.push("/auth/v1/login");
     router.refresh();
   };
 
   // Get display name from user metadata or email
-  const displayName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || "User";
+  const displayName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || t("account.user");
   const displayEmail = user?.email || "";
   const avatarUrl = user?.user_metadata?.avatar_url || "";
 
@@ -109,13 +111,13 @@ export function NavUser() {
             <DropdownMenuGroup>
               <DropdownMenuItem onClick={() => router.push('/dashboard/account')}>
                 <CircleUser />
-                Account
+                {t("account.menu")}
               </DropdownMenuItem>
             </DropdownMenuGroup>
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleLogout}>
               <LogOut />
-              Log out
+              {t("account.logOut")}
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
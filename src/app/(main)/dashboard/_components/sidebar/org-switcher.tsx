@@ -20,6 +20,7 @@ import {
 } from "@/components/ui/sidebar"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
 import { getInitials } from "@/lib/utils"
 
 export function OrgSwitcher() {
@@ -32,6 +33,7 @@ export function OrgSwitcher() {
     isOwner 
   } = useOrganization()
   const [open, setOpen] = useState(false)
+  const { t } = useTranslation()
 
   if (loading) {
     return (
@@ -61,8 +63,8 @@ export function OrgSwitcher() {
               <Plus className="size-4" />
             </div>
             <div className="flex flex-col gap-0.5 leading-none">
-              <span className="font-semibold">Create Organization</span>
-              <span className="text-muted-foreground text-xs">Get started</span>
+              <span className="font-semibold">{t("organization.create")}</span>
+              <span className="text-muted-foreground text-xs">{t("organization.getStarted")}</span>
             </div>
           </SidebarMenuButton>
         </SidebarMenuItem>
@@ -88,8 +90,8 @@ export function OrgSwitcher() {
                 <span className="font-semibold truncate max-w-[140px]">
                   {currentOrganization.organization_name}
                 </span>
-                <span className="text-muted-foreground text-xs capitalize">
-                  {currentOrganization.user_role}
+                <span className="text-muted-foreground text-xs">
+                  {t(`organization.role.${currentOrganization.user_role}`)}
                 </span>
               </div>
               <ChevronsUpDown className="ml-auto size-4" />
@@ -102,7 +104,7 @@ export function OrgSwitcher() {
             sideOffset={4}
           >
             <DropdownMenuLabel className="text-muted-foreground text-xs">
-              Organizations
+              {t("organization.organizations")}
             </DropdownMenuLabel>
             {organizations.map((org) => (
               <DropdownMenuItem
@@ -133,7 +135,7 @@ export function OrgSwitcher() {
               className="gap-2"
             >
               <Settings className="size-4" />
-              Organization Settings
+              {t("organization.settings")}
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => {
@@ -143,7 +145,7 @@ export function OrgSwitcher() {
               className="gap-2"
             >
               <Plus className="size-4" />
-              Create Organization
+              {t("organization.create")}
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
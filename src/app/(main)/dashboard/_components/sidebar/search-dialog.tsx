@@ -24,6 +24,8 @@ import {
   CommandList,
   CommandSeparator,
 } from "@/components/ui/command";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey, Translate } from "@/lib/i18n";
 import { supabase } from "@/lib/supabase";
 
 interface SearchItem {
@@ -35,61 +37,79 @@ interface SearchItem {
   description?: string;
 }
 
-const staticItems: SearchItem[] = [
+interface StaticSearchItem {
+  group: MessageKey;
+  icon: React.ElementType;
+  label: MessageKey;
+  href: string;
+  description: MessageKey;
+}
+
+const staticItems: StaticSearchItem[] = [
   { 
-    group: "Overview", 
+    group: "nav.overview", 
     icon: LayoutDashboard, 
-    label: "Dashboard", 
+    label: "nav.dashboard", 
     href: "/dashboard/default",
-    description: "Main dashboard with estate metrics" 
+    description: "search.dashboard" 
   },
   { 
-    group: "Plantation Management", 
+    group: "nav.plantationManagement", 
     icon: Leaf, 
-    label: "Plantations", 
+    label: "nav.plantations", 
     href: "/dashboard/plantations",
-    description: "Manage plantation areas" 
+    description: "search.plantations" 
   },
   { 
-    group: "Plantation Management", 
+    group: "nav.plantationManagement", 
     icon: TrendingUp, 
-    label: "Tea Sales", 
+    label: "nav.teaSales", 
     href: "/dashboard/tea-sales",
-    description: "Track factory deliveries and sales" 
+    description: "search.teaSales" 
   },
   { 
-    group: "Plantation Management", 
+    group: "nav.plantationManagement", 
     icon: BarChart3, 
-    label: "Factory Rates", 
+    label: "nav.factoryRates", 
     href: "/dashboard/factory-rates",
-    description: "View current factory rates" 
+    description: "search.factoryRates" 
   },
   { 
-    group: "Employee Management", 
+    group: "nav.employeeManagement", 
     icon: Users, 
-    label: "Workers", 
+    label: "nav.workers", 
     href: "/dashboard/workers",
-    description: "Manage estate workers and staff" 
+    description: "search.workers" 
   },
   { 
-    group: "Employee Management", 
+    group: "nav.employeeManagement", 
     icon: Scissors, 
-    label: "Daily Records", 
+    label: "nav.dailyRecords", 
     href: "/dashboard/daily-plucking",
-    description: "Record daily harvest data" 
+    description: "search.dailyRecords" 
   },
   { 
-    group: "Employee Management", 
+    group: "nav.employeeManagement", 
     icon: DollarSign, 
-    label: "Salary Management", 
+    label: "nav.salaryManagement", 
     href: "/dashboard/salary",
-    description: "Manage worker salaries and bonuses" 
+    description: "search.salaryManagement" 
   },
 ];
 
+function translateStaticItems(t: Translate): SearchItem[] {
+  return staticItems.map((item) => ({
+    ...item,
+    group: t(item.group),
+    label: t(item.label),
+    description: t(item.description),
+  }));
+}
+
 export function SearchDialog() {
   const [open, setOpen] = React.useState(false);
-  const [searchItems, setSearchItems] = React.useState<SearchItem[]>(staticItems);
+  const { t, date, kg, money } = useTranslation();
+  const [searchItems, setSearchItems] = React.useState<SearchItem[]>(() => translateStaticItems(t));
   const [loading, setLoading] = React.useState(false);
   const router = useRouter();
 
@@ -103,7 +123,7 @@ export function SearchDialog() {
   async function fetchDynamicData() {
     setLoading(true);
     try {
-      const dynamicItems: SearchItem[] = [...staticItems];
+      const dynamicItems: SearchItem[] = translateStaticItems(t);
 
       // Fetch workers
       const { data: workers } = await supabase
@@ -114,7 +134,7 @@ export function SearchDialog() {
       if (workers) {
         workers.forEach(worker => {
           dynamicItems.push({
-            group: "Workers",
+            group: t("nav.workers"),
             icon: Users,
             label: worker.name,
             description: worker.position,
@@ -132,10 +152,10 @@ export function SearchDialog() {
       if (plantations) {
         plantations.forEach(plantation => {
           dynamicItems.push({
-            group: "Plantations",
+            group: t("nav.plantations"),
             icon: MapPin,
             label: plantation.name,
-            description: `${plantation.area_hectares} hectares`,
+            description: t("search.hectares", { value: plantation.area_hectares }),
             href: `/dashboard/plantations?id=${plantation.id}`
           });
         });
@@ -155,10 +175,10 @@ export function SearchDialog() {
             : (record.workers as any)?.name;
           
           dynamicItems.push({
-            group: "Recent Plucking",
+            group: t("search.recentPlucking"),
             icon: Leaf,
-            label: `${record.kg_plucked}kg on ${new Date(record.date).toLocaleDateString()}`,
-            description: `Worker: ${workerName || 'Unknown'}`,
+            label: `${kg(record.kg_plucked)} • ${date(record.date)}`,
+            description: t("search.worker", { name: workerName || t("search.unknown") }),
             href: `/dashboard/daily-plucking?date=${record.date}`
           });
         });
@@ -174,10 +194,10 @@ export function SearchDialog() {
       if (teaSales) {
         teaSales.forEach(sale => {
           dynamicItems.push({
-            group: "Recent Sales",
+            group: t("search.recentSales"),
             icon: TrendingUp,
-            label: `${sale.quantity_kg}kg - Rs. ${sale.total_amount?.toLocaleString() || 0}`,
-            description: new Date(sale.sale_date).toLocaleDateString(),
+            label: `${kg(sale.quantity_kg)} - ${money(sale.total_amount || 0)}`,
+            description: date(sale.sale_date),
             href: `/dashboard/tea-sales`
           });
         });
@@ -187,7 +207,7 @@ export function SearchDialog() {
     } catch (error) {
       console.error('Error fetching search data:', error);
       // Keep static items if dynamic fetch fails
-      setSearchItems(staticItems);
+      setSearchItems(translateStaticItems(t));
     } finally {
       setLoading(false);
     }
@@ -219,16 +239,16 @@ export function SearchDialog() {
         onClick={() => setOpen(true)}
       >
         <Search className="size-4" />
-        Search
+        {t("search.button")}
         <kbd className="bg-muted inline-flex h-5 items-center gap-1 rounded border px-1.5 text-[10px] font-medium select-none">
           <span className="text-xs">⌘</span>J
         </kbd>
       </Button>
       <CommandDialog open={open} onOpenChange={setOpen}>
-        <CommandInput placeholder="Search pages, workers, plantations..." />
+        <CommandInput placeholder={t("search.placeholder")} />
         <CommandList>
           <CommandEmpty>
-            {loading ? "Loading..." : "No results found."}
+            {loading ? t("common.loading") : t("search.noResults")}
           </CommandEmpty>
           {[...new Set(searchItems.map((item) => item.group))].map((group, i) => (
             <React.Fragment key={group}>
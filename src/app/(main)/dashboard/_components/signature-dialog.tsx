@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+
+import { Eraser, Loader2, PenLine, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Translate } from "@/lib/i18n"
+import { SignedRecord, saveSignature } from "@/lib/signatures"
+
+interface SignatureDialogProps {
+  orgId: string
+  table: SignedRecord
+  recordId: string
+  title: string
+  description: string
+  onClose: () => void
+  onSaved: (path: string) => void
+}
+
+// Canvas resolution; it is scaled to fit the card, so strokes are mapped back to these units
+const PAD_WIDTH = 600
+const PAD_HEIGHT = 220
+
+function padPoint(canvas: HTMLCanvasElement, event: React.PointerEvent) {
+  const rect = canvas.getBoundingClientRect()
+  return {
+    x: ((event.clientX - rect.left) / rect.width) * PAD_WIDTH,
+    y: ((event.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+  }
+}
+
+// White background so the PNG prints the same as it shows on screen
+function clearPad(canvas: HTMLCanvasElement) {
+  const context = canvas.getContext("2d")
+  if (!context) return
+  context.fillStyle = "#fff"
+  context.fillRect(0, 0, PAD_WIDTH, PAD_HEIGHT)
+  context.lineWidth = 3
+  context.lineCap = "round"
+  context.lineJoin = "round"
+  context.strokeStyle = "#111"
+}
+
+function padImage(canvas: HTMLCanvasElement, t: Translate) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t("signature.unreadable"))), "image/png")
+  })
+}
+
+export function SignatureDialog({ orgId, table, recordId, title, description, onClose, onSaved }: SignatureDialogProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawing = useRef(false)
+  const [signed, setSigned] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { t } = useTranslation()
+
+  useEffect(() => {
+    if (canvasRef.current) clearPad(canvasRef.current)
+  }, [])
+
+  // Touch, pen and mouse all arrive as pointer events; capture keeps the stroke going past the edge
+  function handlePointerDown(event: React.PointerEvent<HTMLCanvasElement>) {
+    const canvas = event.currentTarget
+    const context = canvas.getContext("2d")
+    if (!context) return
+    canvas.setPointerCapture(event.pointerId)
+    drawing.current = true
+    const { x, y } = padPoint(canvas, event)
+    context.beginPath()
+    context.moveTo(x, y)
+    // A tap leaves a dot
+    context.lineTo(x + 0.1, y + 0.1)
+    context.stroke()
+    setSigned(true)
+  }
+
+  function handlePointerMove(event: React.PointerEvent<HTMLCanvasElement>) {
+    if (!drawing.current) return
+    const canvas = event.currentTarget
+    const context = canvas.getContext("2d")
+    if (!context) return
+    const { x, y } = padPoint(canvas, event)
+    context.lineTo(x, y)
+    context.stroke()
+  }
+
+  function handlePointerUp() {
+    drawing.current = false
+  }
+
+  function handleClear() {
+    if (canvasRef.current) clearPad(canvasRef.current)
+    setSigned(false)
+  }
+
+  async function handleSave() {
+    if (!canvasRef.current) return
+    setSaving(true)
+    try {
+      const path = await saveSignature(orgId, table, recordId, await padImage(canvasRef.current, t))
+      toast.success(t("signature.saved"))
+      onSaved(path)
+    } catch (error: any) {
+      console.error('Error saving signature:', error)
+      toast.error(error.message ?? t("signature.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-xl">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{title}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <canvas
+            ref={canvasRef}
+            width={PAD_WIDTH}
+            height={PAD_HEIGHT}
+            className="w-full rounded-md border border-dashed bg-white touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            aria-label={t("signature.pad")}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={saving || !signed}>
+              <Eraser className="h-3.5 w-3.5 mr-1.5" />
+              {t("signature.clear")}
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={onClose} disabled={saving}>
+                {t("signature.later")}
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving || !signed}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <PenLine className="h-3.5 w-3.5 mr-1.5" />}
+                {t("signature.save")}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -10,12 +10,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
 import { useAuth } from "@/hooks/use-auth"
+import { useTranslation } from "@/hooks/use-translation"
 import { createBrowserSupabaseClient } from "@/lib/supabase"
 import { getInitials } from "@/lib/utils"
 import { toast } from "sonner"
 
 export function AccountManager() {
   const { user, loading: authLoading } = useAuth()
+  const { t, date: formatDate } = useTranslation()
   const supabase = createBrowserSupabaseClient()
   
   const [fullName, setFullName] = useState("")
@@ -32,7 +34,7 @@ export function AccountManager() {
     }
   })
 
-  const displayName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || "User"
+  const displayName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || t("account.user")
   const displayEmail = user?.email || ""
   const currentAvatarUrl = avatarUrl || user?.user_metadata?.avatar_url || null
 
@@ -42,13 +44,13 @@ export function AccountManager() {
 
     // Validate file type
     if (!file.type.startsWith('image/')) {
-      toast.error("Please select an image file")
+      toast.error(t("account.notImage"))
       return
     }
 
     // Validate file size (max 2MB)
     if (file.size > 2 * 1024 * 1024) {
-      toast.error("Image must be less than 2MB")
+      toast.error(t("account.imageTooLarge"))
       return
     }
 
@@ -80,10 +82,10 @@ export function AccountManager() {
       if (updateError) throw updateError
 
       setAvatarUrl(publicUrl)
-      toast.success("Profile photo updated")
+      toast.success(t("account.photoUpdated"))
     } catch (error: any) {
       console.error('Error uploading avatar:', error)
-      toast.error(error.message || "Failed to upload photo")
+      toast.error(error.message || t("account.photoFailed"))
     } finally {
       setUploading(false)
     }
@@ -101,10 +103,10 @@ export function AccountManager() {
 
       if (error) throw error
 
-      toast.success("Profile updated successfully")
+      toast.success(t("account.profileUpdated"))
     } catch (error: any) {
       console.error('Error updating profile:', error)
-      toast.error(error.message || "Failed to update profile")
+      toast.error(error.message || t("account.profileFailed"))
     } finally {
       setSaving(false)
     }
@@ -114,7 +116,7 @@ export function AccountManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading account...</span>
+        <span className="text-sm text-muted-foreground">{t("account.loading")}</span>
       </div>
     )
   }
@@ -123,7 +125,7 @@ export function AccountManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <User className="h-12 w-12 text-muted-foreground/30" />
-        <span className="text-muted-foreground">Please sign in to view account settings</span>
+        <span className="text-muted-foreground">{t("account.signInRequired")}</span>
       </div>
     )
   }
@@ -132,17 +134,17 @@ export function AccountManager() {
     <div className="space-y-4 sm:space-y-6">
       {/* Header */}
       <div>
-        <h2 className="text-lg sm:text-xl font-semibold">Account Settings</h2>
-        <p className="text-sm text-muted-foreground mt-1">Manage your profile and account preferences</p>
+        <h2 className="text-lg sm:text-xl font-semibold">{t("account.title")}</h2>
+        <p className="text-sm text-muted-foreground mt-1">{t("account.description")}</p>
       </div>
 
       <div className="grid gap-4 md:gap-6 lg:grid-cols-3">
         {/* Profile Photo Card */}
         <Card className="lg:col-span-1">
           <CardHeader className="pb-4">
-            <CardTitle className="text-base">Profile Photo</CardTitle>
+            <CardTitle className="text-base">{t("account.photo")}</CardTitle>
             <CardDescription className="text-xs">
-              Click on the avatar to upload a new photo
+              {t("account.photoHint")}
             </CardDescription>
           </CardHeader>
           <CardContent className="flex flex-col items-center gap-4">
@@ -184,17 +186,17 @@ export function AccountManager() {
               {uploading ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Uploading...
+                  {t("account.uploading")}
                 </>
               ) : (
                 <>
                   <Camera className="h-4 w-4 mr-2" />
-                  Change Photo
+                  {t("account.changePhoto")}
                 </>
               )}
             </Button>
             <p className="text-xs text-muted-foreground text-center">
-              JPG, PNG or WebP. Max 2MB.
+              {t("account.photoFormats")}
             </p>
           </CardContent>
         </Card>
@@ -202,24 +204,24 @@ export function AccountManager() {
         {/* Profile Details Card */}
         <Card className="lg:col-span-2">
           <CardHeader className="pb-4">
-            <CardTitle className="text-base">Profile Details</CardTitle>
+            <CardTitle className="text-base">{t("account.details")}</CardTitle>
             <CardDescription className="text-xs">
-              Update your personal information
+              {t("account.detailsHint")}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid gap-4 sm:grid-cols-2">
               <div className="space-y-2">
-                <Label htmlFor="fullName">Full Name</Label>
+                <Label htmlFor="fullName">{t("account.fullName")}</Label>
                 <Input
                   id="fullName"
-                  placeholder="Enter your name"
+                  placeholder={t("account.fullNamePlaceholder")}
                   value={fullName}
                   onChange={(e) => setFullName(e.target.value)}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="email">Email Address</Label>
+                <Label htmlFor="email">{t("account.email")}</Label>
                 <Input
                   id="email"
                   type="email"
@@ -227,14 +229,14 @@ export function AccountManager() {
                   disabled
                   className="bg-muted"
                 />
-                <p className="text-xs text-muted-foreground">Email cannot be changed</p>
+                <p className="text-xs text-muted-foreground">{t("account.emailFixed")}</p>
               </div>
             </div>
 
             <Separator />
 
             <div className="space-y-2">
-              <Label>Account ID</Label>
+              <Label>{t("account.id")}</Label>
               <Input
                 value={user.id}
                 disabled
@@ -243,13 +245,9 @@ export function AccountManager() {
             </div>
 
             <div className="space-y-2">
-              <Label>Member Since</Label>
+              <Label>{t("account.memberSince")}</Label>
               <Input
-                value={new Date(user.created_at).toLocaleDateString('en-US', { 
-                  year: 'numeric', 
-                  month: 'long', 
-                  day: 'numeric' 
-                })}
+                value={formatDate(user.created_at, 'date')}
                 disabled
                 className="bg-muted"
               />
@@ -260,12 +258,12 @@ export function AccountManager() {
                 {saving ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Saving...
+                    {t("account.saving")}
                   </>
                 ) : (
                   <>
                     <Save className="h-4 w-4 mr-2" />
-                    Save Changes
+                    {t("account.saveChanges")}
                   </>
                 )}
               </Button>
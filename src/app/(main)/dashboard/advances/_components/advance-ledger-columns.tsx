@@ -0,0 +1,115 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { AlertTriangle, BookOpen, Edit } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { Localizer } from "@/lib/i18n"
+import type { Worker } from "@/types/database"
+
+export interface LedgerRow {
+  worker_id: string
+  employee_id: string
+  worker_name: string
+  role: Worker['role']
+  max_advance: number | null
+  limit: number | null
+  issued: number
+  recovered: number
+  outstanding: number
+  due_this_month: number
+  over_limit: boolean
+}
+
+interface ColumnActions {
+  l: Localizer
+  canEdit: boolean
+  onViewLedger: (row: LedgerRow) => void
+  onEditLimit: (row: LedgerRow) => void
+}
+
+export function getLedgerColumns({ l, canEdit, onViewLedger, onEditLimit }: ColumnActions): ColumnDef<LedgerRow>[] {
+  return [
+    {
+      accessorKey: "employee_id",
+      header: l.t("common.id"),
+      cell: ({ row }) => (
+        <span className="font-mono text-xs text-muted-foreground">{row.getValue("employee_id")}</span>
+      ),
+    },
+    {
+      accessorKey: "worker_name",
+      header: l.t("common.worker"),
+      cell: ({ row }) => (
+        <div>
+          <span className="font-medium">{row.original.worker_name}</span>
+          <p className="text-xs text-muted-foreground">{l.t(`role.${row.original.role}`)}</p>
+        </div>
+      ),
+    },
+    {
+      accessorKey: "limit",
+      header: l.t("advances.limit"),
+      cell: ({ row }) => (
+        <div className="flex items-center gap-1">
+          <span className="text-sm">{row.original.limit === null ? l.t("advances.noLimit") : l.money(row.original.limit)}</span>
+          {row.original.max_advance === null && row.original.limit !== null && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">{l.t("common.role")}</Badge>
+          )}
+          {canEdit && (
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onEditLimit(row.original)}>
+              <Edit className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+    {
+      accessorKey: "issued",
+      header: l.t("advances.given"),
+      cell: ({ row }) => <span className="text-sm">{l.money(row.original.issued)}</span>,
+    },
+    {
+      accessorKey: "recovered",
+      header: l.t("advances.recovered"),
+      cell: ({ row }) => <span className="text-sm">{l.money(row.original.recovered)}</span>,
+    },
+    {
+      accessorKey: "due_this_month",
+      header: l.t("advances.dueThisMonth"),
+      cell: ({ row }) => (
+        <span className="text-sm">{row.original.due_this_month > 0 ? l.money(row.original.due_this_month) : '-'}</span>
+      ),
+    },
+    {
+      accessorKey: "outstanding",
+      header: l.t("advances.outstanding"),
+      cell: ({ row }) => (
+        <div className="flex items-center gap-1">
+          {row.original.over_limit && <AlertTriangle className="h-3.5 w-3.5 text-destructive" />}
+          <span className={`font-semibold ${row.original.over_limit ? 'text-destructive' : ''}`}>
+            {l.money(row.original.outstanding)}
+          </span>
+        </div>
+      ),
+    },
+    {
+      id: "actions",
+      header: () => <div className="text-right">{l.t("advances.ledger")}</div>,
+      cell: ({ row }) => (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => onViewLedger(row.original)}
+            disabled={row.original.issued === 0}
+          >
+            <BookOpen className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ),
+    },
+  ]
+}
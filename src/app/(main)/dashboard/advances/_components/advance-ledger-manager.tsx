@@ -0,0 +1,247 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+
+import { formatInTimeZone } from "date-fns-tz"
+import { AlertTriangle, Banknote, Loader2, MinusCircle, Search, Users } from "lucide-react"
+import { toast } from "sonner"
+
+import { DataTable } from "@/components/data-table/data-table"
+import { DataTablePagination } from "@/components/data-table/data-table-pagination"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useOrganization } from "@/contexts/organization-context"
+import { useDataTableInstance } from "@/hooks/use-data-table-instance"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  AdvancePolicy,
+  WorkerLedger,
+  fetchAdvanceLedgers,
+  ledgerMonth,
+  readAdvancePolicy,
+  resolveAdvanceLimit,
+} from "@/lib/advances"
+import { fetchOrgSettings } from "@/lib/org-settings"
+import { supabase } from "@/lib/supabase"
+import type { Worker } from "@/types/database"
+
+import { LedgerRow, getLedgerColumns } from "./advance-ledger-columns"
+import { AdvanceLimitForm } from "./advance-limit-form"
+import { WorkerLedgerDialog } from "./worker-ledger-dialog"
+
+const SL_TIMEZONE = 'Asia/Colombo'
+
+type LedgerWorker = Pick<Worker, 'id' | 'employee_id' | 'first_name' | 'last_name' | 'role' | 'max_advance' | 'status'>
+
+function getSLMonth() {
+  return formatInTimeZone(new Date(), SL_TIMEZONE, 'yyyy-MM-01')
+}
+
+function workerName(worker: LedgerWorker) {
+  return `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}`
+}
+
+function buildLedgerRow(worker: LedgerWorker, ledger: WorkerLedger | undefined, policy: AdvancePolicy, month: string): LedgerRow {
+  const role = worker.role ?? 'picker'
+  const maxAdvance = worker.max_advance ?? null
+  const limit = resolveAdvanceLimit({ role, max_advance: maxAdvance }, policy)
+  const months = ledger?.months ?? []
+  const outstanding = ledger?.outstanding ?? 0
+
+  return {
+    worker_id: worker.id,
+    employee_id: worker.employee_id,
+    worker_name: workerName(worker),
+    role,
+    max_advance: maxAdvance,
+    limit,
+    issued: months.reduce((sum, m) => sum + m.issued, 0),
+    recovered: months.reduce((sum, m) => sum + m.recovered, 0),
+    outstanding,
+    due_this_month: ledgerMonth(ledger, month)?.due ?? 0,
+    over_limit: limit !== null && outstanding > limit,
+  }
+}
+
+export function AdvanceLedgerManager() {
+  const { currentOrganization, loading: orgLoading, canEdit } = useOrganization()
+  const l = useTranslation()
+  const { t, money } = l
+  const orgId = currentOrganization?.organization_id
+
+  const [rows, setRows] = useState<LedgerRow[]>([])
+  const [ledgers, setLedgers] = useState<Map<string, WorkerLedger>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [viewingRow, setViewingRow] = useState<LedgerRow | null>(null)
+  const [editingLimitRow, setEditingLimitRow] = useState<LedgerRow | null>(null)
+  const currentMonth = getSLMonth()
+
+  useEffect(() => {
+    if (orgId) {
+      fetchLedger()
+    }
+  }, [orgId])
+
+  async function fetchLedger() {
+    if (!orgId) return
+    setLoading(true)
+    try {
+      const [{ data: workers, error }, settings, workerLedgers] = await Promise.all([
+        supabase
+          .from('workers')
+          .select('id, employee_id, first_name, last_name, role, max_advance, status')
+          .eq('organization_id', orgId)
+          .order('employee_id'),
+        fetchOrgSettings(orgId).catch(() => ({})),
+        fetchAdvanceLedgers(orgId, currentMonth),
+      ])
+      if (error) throw error
+
+      const policy = readAdvancePolicy(settings)
+      // Former workers only matter while they still owe something
+      const relevant = (workers ?? []).filter((w: LedgerWorker) => w.status === 'active' || workerLedgers.has(w.id))
+      const ledgerRows = relevant.map((w: LedgerWorker) => buildLedgerRow(w, workerLedgers.get(w.id), policy, currentMonth))
+      ledgerRows.sort((a, b) => b.outstanding - a.outstanding)
+
+      setLedgers(workerLedgers)
+      setRows(ledgerRows)
+    } catch (error: any) {
+      console.error('Error fetching advance ledger:', error?.message ?? error)
+      toast.error(t("advances.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const filteredRows = useMemo(() =>
+    rows.filter(row =>
+      row.worker_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      row.employee_id.toLowerCase().includes(searchTerm.toLowerCase())
+    ), [rows, searchTerm]
+  )
+
+  const stats = useMemo(() => ({
+    outstanding: rows.reduce((sum, r) => sum + r.outstanding, 0),
+    withBalance: rows.filter(r => r.outstanding > 0).length,
+    overLimit: rows.filter(r => r.over_limit).length,
+    dueThisMonth: rows.reduce((sum, r) => sum + r.due_this_month, 0),
+  }), [rows])
+
+  const columns = useMemo(() => getLedgerColumns({
+    l,
+    canEdit,
+    onViewLedger: setViewingRow,
+    onEditLimit: setEditingLimitRow,
+  }), [l, canEdit])
+
+  const table = useDataTableInstance({
+    data: filteredRows,
+    columns,
+    getRowId: (row) => row.worker_id,
+  })
+
+  if (orgLoading || !orgId) {
+    return (
+      <div className="flex flex-col justify-center items-center h-64 gap-2">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
+      </div>
+    )
+  }
+
+  const viewingLedger = viewingRow ? ledgers.get(viewingRow.worker_id) : undefined
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4">
+        <h2 className="text-lg sm:text-xl font-semibold">{t("advances.title")}</h2>
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={t("advances.searchWorkers")}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+        <Card className="p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{t("advances.totalOutstanding")}</span>
+            <Banknote className="h-3.5 w-3.5 text-muted-foreground" />
+          </div>
+          <div className="text-lg font-bold mt-1">{money(stats.outstanding)}</div>
+        </Card>
+        <Card className="p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{t("advances.workersWithBalance")}</span>
+            <Users className="h-3.5 w-3.5 text-muted-foreground" />
+          </div>
+          <div className="text-lg font-bold mt-1">{stats.withBalance}</div>
+        </Card>
+        <Card className="p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{t("advances.overLimit")}</span>
+            <AlertTriangle className="h-3.5 w-3.5 text-muted-foreground" />
+          </div>
+          <div className={`text-lg font-bold mt-1 ${stats.overLimit > 0 ? 'text-destructive' : ''}`}>{stats.overLimit}</div>
+        </Card>
+        <Card className="p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{t("advances.dueThisMonth")}</span>
+            <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />
+          </div>
+          <div className="text-lg font-bold mt-1">{money(stats.dueThisMonth)}</div>
+        </Card>
+      </div>
+
+      {/* Ledger Table */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">{t("advances.outstandingTitle")}</CardTitle>
+          <CardDescription className="text-xs">
+            {t("advances.outstandingDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center items-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="max-h-[500px] overflow-auto rounded-md border">
+                <DataTable table={table} columns={columns} />
+              </div>
+              <DataTablePagination table={table} />
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {viewingRow && viewingLedger && (
+        <WorkerLedgerDialog
+          orgId={orgId}
+          row={viewingRow}
+          ledger={viewingLedger}
+          canEdit={canEdit}
+          onClose={() => setViewingRow(null)}
+          onChanged={fetchLedger}
+        />
+      )}
+
+      {editingLimitRow && (
+        <AdvanceLimitForm
+          row={editingLimitRow}
+          onClose={() => setEditingLimitRow(null)}
+          onSaved={fetchLedger}
+        />
+      )}
+    </div>
+  )
+}
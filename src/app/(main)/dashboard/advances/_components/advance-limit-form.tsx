@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+
+import { Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useTranslation } from "@/hooks/use-translation"
+import { supabase } from "@/lib/supabase"
+
+import { LedgerRow } from "./advance-ledger-columns"
+
+interface AdvanceLimitFormProps {
+  row: LedgerRow
+  onClose: () => void
+  onSaved: () => void
+}
+
+export function AdvanceLimitForm({ row, onClose, onSaved }: AdvanceLimitFormProps) {
+  const { t } = useTranslation()
+  const [value, setValue] = useState(row.max_advance === null ? '' : String(row.max_advance))
+  const [saving, setSaving] = useState(false)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      // Blank clears the worker's own limit so the role limit applies again
+      const max_advance = value.trim() === '' ? null : parseFloat(value)
+      if (max_advance !== null && (Number.isNaN(max_advance) || max_advance < 0)) {
+        toast.error(t("advances.limitInvalid"))
+        return
+      }
+
+      const { error } = await supabase
+        .from('workers')
+        .update({ max_advance })
+        .eq('id', row.worker_id)
+
+      if (error) throw error
+      toast.success(t("advances.limitUpdated"))
+      onSaved()
+      onClose()
+    } catch (error: any) {
+      console.error('Error saving advance limit:', error)
+      toast.error(error.message ?? t("advances.limitFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("advances.limitTitle")}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {row.worker_name} ({row.employee_id})
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="max_advance" className="text-xs">{t("advances.maxOutstanding")}</Label>
+              <Input
+                id="max_advance"
+                type="number"
+                step="100"
+                min="0"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={t("advances.limitPlaceholder")}
+                className="h-8"
+              />
+            </div>
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                {t("common.save")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
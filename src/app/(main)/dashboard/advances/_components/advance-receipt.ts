@@ -0,0 +1,102 @@
+// HTML for the printable receipt a worker signs when taking an advance
+
+import type { AdvanceEntry } from "@/lib/advances"
+import type { Localizer } from "@/lib/i18n"
+import { imagesLoaded, signatureUrls } from "@/lib/signatures"
+import { supabase } from "@/lib/supabase"
+import { escapeHtml } from "@/lib/utils"
+
+export interface AdvanceReceiptWorker {
+  name: string
+  employee_id: string
+}
+
+interface ReceiptOrganization {
+  name: string
+  logo_url: string | null
+}
+
+async function fetchReceiptOrganization(orgId: string): Promise<ReceiptOrganization> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('name, logo_url')
+    .eq('id', orgId)
+    .single()
+
+  if (error) throw error
+  return { name: data?.name ?? '', logo_url: data?.logo_url ?? null }
+}
+
+export function renderAdvanceReceipt(
+  advance: AdvanceEntry,
+  worker: AdvanceReceiptWorker,
+  org: ReceiptOrganization,
+  l: Localizer,
+  signatureUrl: string | undefined
+) {
+  return `
+    <html lang="${l.language}">
+      <head>
+        <meta charset="utf-8" />
+        <title>${escapeHtml(l.t('advances.receipt.documentTitle', { name: worker.name }))}</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; color: #333; font-size: 12px; padding: 32px; max-width: 640px; }
+          .header { display: flex; align-items: center; gap: 12px; border-bottom: 2px solid #333; padding-bottom: 12px; margin-bottom: 16px; }
+          .logo { height: 48px; width: 48px; object-fit: contain; }
+          h1 { font-size: 18px; }
+          .muted { color: #666; font-size: 11px; }
+          .worker { display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; margin-bottom: 16px; }
+          .worker div { display: flex; flex-direction: column; gap: 2px; }
+          .net { padding: 10px; background: #f5f5f5; font-size: 14px; font-weight: bold; display: flex; justify-content: space-between; }
+          .note { margin-top: 8px; }
+          .signature { display: grid; grid-template-columns: 1fr 1fr; gap: 48px; margin-top: 64px; }
+          .signature div { position: relative; border-top: 1px solid #333; padding-top: 4px; text-align: center; color: #666; }
+          .signed { position: absolute; bottom: 100%; left: 50%; transform: translateX(-50%); height: 48px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          ${org.logo_url ? `<img src="${escapeHtml(org.logo_url)}" alt="" class="logo" />` : ''}
+          <div>
+            <h1>${escapeHtml(org.name)}</h1>
+            <p class="muted">${l.t('advances.receipt.heading')}</p>
+          </div>
+        </div>
+        <div class="worker">
+          <div><span class="muted">${l.t('common.worker')}</span><strong>${escapeHtml(worker.name)}</strong></div>
+          <div><span class="muted">${l.t('common.employeeId')}</span><strong>${escapeHtml(worker.employee_id)}</strong></div>
+          <div><span class="muted">${l.t('common.date')}</span><strong>${l.date(advance.date)}</strong></div>
+        </div>
+        <div class="net">${l.t('advances.receipt.received')} <span>${l.money(advance.amount)}</span></div>
+        ${advance.notes ? `<p class="note">${escapeHtml(advance.notes)}</p>` : ''}
+        <p class="note muted">${l.t('advances.receipt.recovery')}</p>
+        <div class="signature">
+          <div>${l.t('payslip.paidBy')}</div>
+          <div>${signatureUrl ? `<img src="${escapeHtml(signatureUrl)}" alt="" class="signed" />` : ''}${l.t('payslip.receivedBy')}</div>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+// The window is opened before fetching so the browser treats it as user initiated
+export async function printAdvanceReceipt(orgId: string, advance: AdvanceEntry, worker: AdvanceReceiptWorker, l: Localizer) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) throw new Error(l.t('advances.receipt.allowPopups'))
+
+  try {
+    const [org, signatures] = await Promise.all([
+      fetchReceiptOrganization(orgId),
+      signatureUrls([advance.signature_path]),
+    ])
+    const signatureUrl = advance.signature_path ? signatures.get(advance.signature_path) : undefined
+    printWindow.document.write(renderAdvanceReceipt(advance, worker, org, l, signatureUrl))
+    printWindow.document.close()
+    await imagesLoaded(printWindow.document)
+    printWindow.print()
+  } catch (error) {
+    printWindow.close()
+    throw error
+  }
+}
@@ -0,0 +1,281 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import Image from "next/image"
+
+import { Loader2, PenLine, Printer, Save, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { SignatureDialog } from "@/app/(main)/dashboard/_components/signature-dialog"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTranslation } from "@/hooks/use-translation"
+import { AdvanceEntry, WorkerLedger, monthKey } from "@/lib/advances"
+import { signatureUrls } from "@/lib/signatures"
+import { supabase } from "@/lib/supabase"
+import type { AdvanceSchedule } from "@/types/payroll"
+
+import { LedgerRow } from "./advance-ledger-columns"
+import { printAdvanceReceipt } from "./advance-receipt"
+
+interface WorkerLedgerDialogProps {
+  orgId: string
+  row: LedgerRow
+  ledger: WorkerLedger
+  canEdit: boolean
+  onClose: () => void
+  onChanged: () => void
+}
+
+interface ScheduleDraft {
+  instalments: string
+  start_month: string // yyyy-MM, as used by <input type="month">
+}
+
+function draftFor(advance: AdvanceEntry, schedule: AdvanceSchedule | undefined): ScheduleDraft {
+  return {
+    instalments: String(schedule?.instalments ?? 1),
+    start_month: (schedule?.start_month ?? advance.date).slice(0, 7),
+  }
+}
+
+function LedgerMonthsTable({ ledger }: { ledger: WorkerLedger }) {
+  const { t, money, date } = useTranslation()
+  return (
+    <div className="overflow-auto rounded-md border max-h-64">
+      <table className="w-full text-xs">
+        <thead className="bg-muted sticky top-0">
+          <tr className="text-left">
+            <th className="p-2 font-medium">{t("common.month")}</th>
+            <th className="p-2 font-medium text-right">{t("advances.given")}</th>
+            <th className="p-2 font-medium text-right">{t("advances.due")}</th>
+            <th className="p-2 font-medium text-right">{t("advances.recovered")}</th>
+            <th className="p-2 font-medium text-right">{t("advances.carriedForward")}</th>
+            <th className="p-2 font-medium text-right">{t("salary.balance")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ledger.months.map(month => (
+            <tr key={month.month} className="border-t">
+              <td className="p-2">{date(month.month, 'month')}</td>
+              <td className="p-2 text-right">{month.issued > 0 ? money(month.issued) : '-'}</td>
+              <td className="p-2 text-right">{month.due > 0 ? money(month.due) : '-'}</td>
+              <td className="p-2 text-right">{month.recovered > 0 ? money(month.recovered) : '-'}</td>
+              <td className="p-2 text-right">{month.carried_forward > 0 ? money(month.carried_forward) : '-'}</td>
+              <td className="p-2 text-right font-semibold">{money(month.balance)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+interface AdvanceReceiptActionsProps {
+  signatureUrl: string | undefined
+  canSign: boolean
+  onSign: () => void
+  onPrint: () => void
+}
+
+// The worker's signature for the cash, or a button to collect it, and the printable receipt
+function AdvanceReceiptActions({ signatureUrl, canSign, onSign, onPrint }: AdvanceReceiptActionsProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex items-center gap-1">
+      {signatureUrl ? (
+        // Signed URLs expire, so they bypass the image optimizer
+        <Image src={signatureUrl} alt={t("payments.signatureAlt")} width={80} height={32} unoptimized className="h-8 w-20 rounded border bg-white object-contain" />
+      ) : canSign ? (
+        <Button variant="outline" size="sm" className="h-8" onClick={onSign}>
+          <PenLine className="h-3.5 w-3.5 mr-1.5" />
+          {t("payments.sign")}
+        </Button>
+      ) : (
+        <span className="text-xs text-muted-foreground">{t("advances.notSigned")}</span>
+      )}
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title={t("advances.printReceipt")} onClick={onPrint}>
+        <Printer className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
+
+export function WorkerLedgerDialog({ orgId, row, ledger, canEdit, onClose, onChanged }: WorkerLedgerDialogProps) {
+  const l = useTranslation()
+  const { t, money, date } = l
+  const [drafts, setDrafts] = useState<Record<string, ScheduleDraft>>({})
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [signatures, setSignatures] = useState<Map<string, string>>(new Map())
+  const [signingAdvance, setSigningAdvance] = useState<AdvanceEntry | null>(null)
+
+  useEffect(() => {
+    loadSchedules()
+  }, [row.worker_id])
+
+  // Signing refreshes the ledger, so the URLs follow its advances
+  useEffect(() => {
+    signatureUrls(ledger.advances.map(a => a.signature_path))
+      .then(setSignatures)
+      .catch(error => console.error('Error fetching signatures:', error?.message ?? error))
+  }, [ledger.advances])
+
+  async function loadSchedules() {
+    const { data, error } = await supabase
+      .from('advance_schedules')
+      .select('*')
+      .eq('organization_id', orgId)
+      .eq('worker_id', row.worker_id)
+
+    if (error) console.error('Error fetching advance schedules:', error.message)
+    const schedules = new Map((data ?? []).map((s: AdvanceSchedule) => [s.daily_plucking_id, s]))
+    setDrafts(Object.fromEntries(ledger.advances.map(a => [a.id, draftFor(a, schedules.get(a.id))])))
+    setLoading(false)
+  }
+
+  function updateDraft(id: string, changes: Partial<ScheduleDraft>) {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+  }
+
+  async function handleSaveSchedule(advance: AdvanceEntry) {
+    const draft = drafts[advance.id]
+    const instalments = parseInt(draft.instalments)
+    const startMonth = `${draft.start_month}-01`
+
+    if (Number.isNaN(instalments) || instalments < 1 || instalments > 24) {
+      toast.error(t("advances.instalmentsInvalid"))
+      return
+    }
+    if (startMonth < monthKey(advance.date)) {
+      toast.error(t("advances.startTooEarly"))
+      return
+    }
+
+    setSavingId(advance.id)
+    try {
+      const { error } = await supabase
+        .from('advance_schedules')
+        .upsert({
+          organization_id: orgId,
+          daily_plucking_id: advance.id,
+          worker_id: advance.worker_id,
+          instalments,
+          start_month: startMonth,
+        }, { onConflict: 'daily_plucking_id' })
+
+      if (error) throw error
+      toast.success(t("advances.scheduleSaved"))
+      onChanged()
+    } catch (error: any) {
+      console.error('Error saving schedule:', error)
+      toast.error(error.message ?? t("advances.scheduleFailed"))
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  async function handlePrintReceipt(advance: AdvanceEntry) {
+    try {
+      await printAdvanceReceipt(orgId, advance, { name: row.worker_name, employee_id: row.employee_id }, l)
+    } catch (error: any) {
+      console.error('Error printing advance receipt:', error)
+      toast.error(error.message ?? t("advances.printFailed"))
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("advances.workerTitle", { name: row.worker_name })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("advances.workerOutstanding", { id: row.employee_id, amount: money(ledger.outstanding) })}
+            {row.limit !== null && t("advances.ofLimit", { limit: money(row.limit) })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-auto space-y-4">
+          <LedgerMonthsTable ledger={ledger} />
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{t("advances.schedules")}</p>
+            {loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="rounded-md border divide-y">
+                {ledger.advances.map(advance => (
+                  <div key={advance.id} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+                    <span className="w-28">{date(advance.date)}</span>
+                    <span className="w-28 font-medium">{money(advance.amount)}</span>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="24"
+                      value={drafts[advance.id]?.instalments ?? '1'}
+                      onChange={(e) => updateDraft(advance.id, { instalments: e.target.value })}
+                      disabled={!canEdit}
+                      className="h-8 w-20"
+                      aria-label={t("advances.instalments")}
+                    />
+                    <span className="text-xs text-muted-foreground">{t("advances.instalmentsFrom")}</span>
+                    <Input
+                      type="month"
+                      value={drafts[advance.id]?.start_month ?? ''}
+                      onChange={(e) => updateDraft(advance.id, { start_month: e.target.value })}
+                      disabled={!canEdit}
+                      className="h-8 w-36"
+                      aria-label={t("advances.startMonth")}
+                    />
+                    {canEdit && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8"
+                        onClick={() => handleSaveSchedule(advance)}
+                        disabled={savingId === advance.id}
+                      >
+                        {savingId === advance.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+                      </Button>
+                    )}
+                    <div className="ml-auto">
+                      <AdvanceReceiptActions
+                        signatureUrl={advance.signature_path ? signatures.get(advance.signature_path) : undefined}
+                        canSign={canEdit}
+                        onSign={() => setSigningAdvance(advance)}
+                        onPrint={() => handlePrintReceipt(advance)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {signingAdvance && (
+        <SignatureDialog
+          orgId={orgId}
+          table="daily_plucking"
+          recordId={signingAdvance.id}
+          title={t("advances.signTitle", { name: row.worker_name })}
+          description={t("advances.signDescription", { amount: money(signingAdvance.amount), date: date(signingAdvance.date) })}
+          onClose={() => setSigningAdvance(null)}
+          onSaved={() => {
+            setSigningAdvance(null)
+            onChanged()
+          }}
+        />
+      )}
+    </div>
+  )
+}
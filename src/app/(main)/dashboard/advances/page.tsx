@@ -0,0 +1,5 @@
+import { AdvanceLedgerManager } from "./_components/advance-ledger-manager"
+
+export default function AdvancesPage() {
+  return <AdvanceLedgerManager />
+}
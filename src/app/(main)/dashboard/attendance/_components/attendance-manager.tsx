@@ -0,0 +1,174 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import Link from "next/link"
+
+import { formatInTimeZone } from "date-fns-tz"
+import { CalendarCheck, Loader2, Plus } from "lucide-react"
+import { toast } from "sonner"
+
+import { AttendanceRegisterDialog } from "@/app/(main)/dashboard/_components/attendance-register-dialog"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  AttendancePolicy,
+  AttendanceRecord,
+  DEFAULT_ATTENDANCE_POLICY,
+  RegisterWorker,
+  fetchAttendance,
+  fetchPluckingDays,
+  fetchRegisterWorkers,
+  leaveBalances,
+  monthDates,
+  readAttendancePolicy,
+  resolveAttendance
+} from "@/lib/attendance"
+import { fetchOrgSettings } from "@/lib/org-settings"
+
+import { LeaveBalances } from "./leave-balances"
+import { MusterRoll } from "./muster-roll"
+
+function getSLDate() {
+  return formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM-dd')
+}
+
+export function AttendanceManager() {
+  const { currentOrganization, loading: orgLoading, canEdit } = useOrganization()
+  const { t } = useTranslation()
+  const orgId = currentOrganization?.organization_id
+
+  const [month, setMonth] = useState(getSLDate().slice(0, 7))
+  const [view, setView] = useState('muster')
+  const [policy, setPolicy] = useState<AttendancePolicy>(DEFAULT_ATTENDANCE_POLICY)
+  const [workers, setWorkers] = useState<RegisterWorker[]>([])
+  const [records, setRecords] = useState<AttendanceRecord[]>([])
+  const [pluckingDays, setPluckingDays] = useState<{ worker_id: string; date: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [registerDate, setRegisterDate] = useState<string | null>(null)
+
+  const dates = useMemo(() => (month ? monthDates(month) : []), [month])
+
+  useEffect(() => {
+    if (orgId && month) loadAttendance()
+  }, [orgId, month])
+
+  // The whole year to the end of the month, so leave balances are year to date
+  async function loadAttendance() {
+    if (!orgId) return
+    setLoading(true)
+    try {
+      const monthStart = dates[0]
+      const monthEnd = dates[dates.length - 1]
+      const [settings, workerList, yearRecords, monthPlucking] = await Promise.all([
+        fetchOrgSettings(orgId).catch(() => ({})),
+        fetchRegisterWorkers(orgId),
+        fetchAttendance(orgId, `${month.slice(0, 4)}-01-01`, monthEnd),
+        fetchPluckingDays(orgId, monthStart, monthEnd),
+      ])
+      setPolicy(readAttendancePolicy(settings))
+      setWorkers(workerList)
+      setRecords(yearRecords)
+      setPluckingDays(monthPlucking)
+    } catch (error: any) {
+      console.error('Error fetching attendance:', error?.message ?? error)
+      toast.error(t("attendance.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const days = useMemo(
+    () => resolveAttendance(records.filter(record => record.date.startsWith(month)), pluckingDays),
+    [records, pluckingDays, month]
+  )
+  // Active workers, plus anyone who has since left but has days this month
+  const rollWorkers = useMemo(() => workers.filter(worker => worker.status === 'active' || days.has(worker.id)), [workers, days])
+  const balances = useMemo(() => leaveBalances(records, policy), [records, policy])
+
+  if (orgLoading) {
+    return (
+      <div className="flex flex-col justify-center items-center h-64 gap-2">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">{t("common.loading")}</span>
+      </div>
+    )
+  }
+
+  const today = getSLDate()
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            {t("attendance.title")}
+          </h2>
+          <p className="text-xs text-muted-foreground">
+            {t("attendance.intro")}{' '}
+            <Link href="/dashboard/organization/settings" className="underline">{t("attendance.orgSettings")}</Link>.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="h-9 w-full sm:w-44" />
+          {canEdit && (
+            <Button size="sm" className="h-9" onClick={() => setRegisterDate(today.startsWith(month) ? today : dates[0])}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t("attendance.markDay")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <Tabs value={view} onValueChange={setView}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base">{view === 'muster' ? t("attendance.musterRoll") : t("attendance.leaveBalances")}</CardTitle>
+                <CardDescription className="text-xs">
+                  {t("attendance.legend")}{canEdit ? t("attendance.legendEdit") : ''}
+                </CardDescription>
+              </div>
+              <TabsList>
+                <TabsTrigger value="muster">{t("attendance.musterRoll")}</TabsTrigger>
+                <TabsTrigger value="leave">{t("attendance.leaveTab")}</TabsTrigger>
+              </TabsList>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <TabsContent value="muster">
+                  <MusterRoll
+                    workers={rollWorkers}
+                    dates={dates}
+                    days={days}
+                    policy={policy}
+                    onSelectDate={canEdit ? setRegisterDate : undefined}
+                  />
+                </TabsContent>
+                <TabsContent value="leave">
+                  <LeaveBalances workers={rollWorkers} balances={balances} year={month.slice(0, 4)} />
+                </TabsContent>
+              </>
+            )}
+          </CardContent>
+        </Tabs>
+      </Card>
+
+      {registerDate && orgId && (
+        <AttendanceRegisterDialog orgId={orgId} date={registerDate} onClose={() => setRegisterDate(null)} onSaved={loadAttendance} />
+      )}
+    </div>
+  )
+}
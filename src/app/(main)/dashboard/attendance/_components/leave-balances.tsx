@@ -0,0 +1,58 @@
+"use client"
+
+import { useTranslation } from "@/hooks/use-translation"
+import { LEAVE_TYPES, LeaveBalance, RegisterWorker } from "@/lib/attendance"
+import type { LeaveType } from "@/types/payroll"
+
+interface LeaveBalancesProps {
+  workers: RegisterWorker[]
+  balances: (workerId: string) => Record<LeaveType, LeaveBalance>
+  year: string
+}
+
+// Leave taken this year against each entitlement
+export function LeaveBalances({ workers, balances, year }: LeaveBalancesProps) {
+  const { t } = useTranslation()
+  if (workers.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t("attendance.noWorkers")}</p>
+  }
+
+  const types = Object.keys(LEAVE_TYPES) as LeaveType[]
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{t("common.worker")}</th>
+            {types.map(type => (
+              <th key={type} className="text-right font-medium px-3 py-2">{t("attendance.takenOfDays", { type: t(`attendance.leave.${type}`) })}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {workers.map(worker => {
+            const balance = balances(worker.id)
+            return (
+              <tr key={worker.id}>
+                <td className="px-3 py-2">
+                  <div className="font-medium">{worker.first_name} {worker.last_name}</div>
+                  <div className="text-xs text-muted-foreground">{worker.employee_id}</div>
+                </td>
+                {types.map(type => (
+                  <td key={type} className="px-3 py-2 text-right">
+                    {balance[type].taken} / {balance[type].entitled}
+                    <div className={`text-xs ${balance[type].remaining < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                      {balance[type].remaining < 0 ? t("attendance.over", { days: -balance[type].remaining }) : t("attendance.left", { days: balance[type].remaining })}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground px-3 py-2 border-t">{t("attendance.yearToDate", { year })}</p>
+    </div>
+  )
+}
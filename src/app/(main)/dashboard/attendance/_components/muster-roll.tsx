@@ -0,0 +1,97 @@
+"use client"
+
+import { format, parseISO } from "date-fns"
+
+import { useTranslation } from "@/hooks/use-translation"
+import { ATTENDANCE_STATUSES, AttendanceDay, AttendancePolicy, RegisterWorker, summarizeAttendance } from "@/lib/attendance"
+
+const CODE_COLORS: Record<string, string> = {
+  P: 'text-green-600',
+  H: 'text-amber-600',
+  A: 'text-red-600',
+  L: 'text-blue-600',
+}
+
+function DayCell({ day }: { day: AttendanceDay | undefined }) {
+  const { t } = useTranslation()
+  if (!day) return <td className="px-1 py-1.5 text-center text-muted-foreground/40">·</td>
+
+  const code = ATTENDANCE_STATUSES[day.status].code
+  const label = t(`attendance.status.${day.status}`) + (day.leave_type ? ` – ${t(`attendance.leave.${day.leave_type}`)}` : '')
+  const title = day.inferred ? t("attendance.presentFromPlucking") : label
+  return (
+    <td className={`px-1 py-1.5 text-center font-medium ${CODE_COLORS[code]} ${day.inferred ? 'opacity-50' : ''}`} title={title}>
+      {code}
+    </td>
+  )
+}
+
+interface MusterRollProps {
+  workers: RegisterWorker[]
+  dates: string[]
+  days: Map<string, Map<string, AttendanceDay>>
+  policy: AttendancePolicy
+  onSelectDate?: (date: string) => void
+}
+
+// Worker by day grid for the month, with the days that count towards the allowance
+export function MusterRoll({ workers, dates, days, policy, onSelectDate }: MusterRollProps) {
+  const { t, money, date: formatDate } = useTranslation()
+  if (workers.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t("attendance.noWorkers")}</p>
+  }
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-xs">
+        <thead className="bg-muted/50 text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2 sticky left-0 bg-muted min-w-36">{t("common.worker")}</th>
+            {dates.map(date => (
+              <th key={date} className="font-medium px-1 py-2 min-w-6">
+                <button
+                  type="button"
+                  className="w-full hover:text-foreground disabled:cursor-default"
+                  disabled={!onSelectDate}
+                  onClick={() => onSelectDate?.(date)}
+                  title={formatDate(date, 'weekday')}
+                >
+                  {format(parseISO(date), 'd')}
+                </button>
+              </th>
+            ))}
+            <th className="text-right font-medium px-2 py-2">P</th>
+            <th className="text-right font-medium px-2 py-2">H</th>
+            <th className="text-right font-medium px-2 py-2">A</th>
+            <th className="text-right font-medium px-2 py-2">L</th>
+            <th className="text-right font-medium px-2 py-2">{t("common.days")}</th>
+            {policy.allowance_amount > 0 && <th className="text-right font-medium px-3 py-2">{t("attendance.allowance")}</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {workers.map(worker => {
+            const workerDays = days.get(worker.id) ?? new Map<string, AttendanceDay>()
+            const summary = summarizeAttendance(workerDays.values(), policy)
+            return (
+              <tr key={worker.id}>
+                <td className="px-3 py-1.5 sticky left-0 bg-background">
+                  <div className="font-medium truncate">{worker.first_name} {worker.last_name}</div>
+                  <div className="text-muted-foreground">{worker.employee_id}</div>
+                </td>
+                {dates.map(date => <DayCell key={date} day={workerDays.get(date)} />)}
+                <td className="px-2 py-1.5 text-right">{summary.present}</td>
+                <td className="px-2 py-1.5 text-right">{summary.half_days}</td>
+                <td className="px-2 py-1.5 text-right">{summary.absent}</td>
+                <td className="px-2 py-1.5 text-right">{summary.leave}</td>
+                <td className="px-2 py-1.5 text-right font-semibold">{summary.attended}</td>
+                {policy.allowance_amount > 0 && (
+                  <td className="px-3 py-1.5 text-right">{summary.allowance > 0 ? money(summary.allowance) : '-'}</td>
+                )}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,5 @@
+import { AttendanceManager } from "./_components/attendance-manager"
+
+export default function AttendancePage() {
+  return <AttendanceManager />
+}
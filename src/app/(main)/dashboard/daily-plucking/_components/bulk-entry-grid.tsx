@@ -0,0 +1,329 @@
+"use client"
+
+import { useState, useEffect, useMemo, useRef } from "react"
+
+import { X, Loader2, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { useTranslation } from "@/hooks/use-translation"
+import { buildExtraWorkInserts, fetchExtraWorkTypes } from "@/lib/extra-work"
+import { CalendarHoliday, fetchHolidays, holidayRate, readHolidayRates } from "@/lib/holidays"
+import { fetchOrgSettings } from "@/lib/org-settings"
+import { supabase } from "@/lib/supabase"
+import { DEFAULT_WAGE_NORMS, WageNormSettings, readWageNorms } from "@/lib/wage-norms"
+import type { ExtraWorkType } from "@/types/payroll"
+
+import {
+  BulkColumn,
+  BulkRow,
+  BulkRowFailure,
+  BulkWorker,
+  BULK_COLUMNS,
+  CELL_PLACEHOLDERS,
+  buildBulkExtraWork,
+  buildPluckingInsert,
+  calculateRowWage,
+  createBulkRows,
+  isRowFilled,
+  splitBulkRows,
+} from "./bulk-entry-utils"
+import { BulkSaveResult } from "./bulk-save-result"
+
+interface BulkEntryGridProps {
+  orgId: string
+  selectedDate: string
+  defaultRate: string
+  onClose: () => void
+  onSaved: () => void
+}
+
+export function BulkEntryGrid({ orgId, selectedDate, defaultRate, onClose, onSaved }: BulkEntryGridProps) {
+  const { t, date: formatDate, kg, money } = useTranslation()
+  const [rows, setRows] = useState<BulkRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [failures, setFailures] = useState<BulkRowFailure[]>([])
+  const [savedCount, setSavedCount] = useState<number | null>(null)
+  // Off by default so a second pass over the muster doesn't double up records
+  const [includeRecorded, setIncludeRecorded] = useState(false)
+  const [extraWorkTypes, setExtraWorkTypes] = useState<ExtraWorkType[]>([])
+  const [wageNorms, setWageNorms] = useState<WageNormSettings>(DEFAULT_WAGE_NORMS)
+  // Holidays on the date and the rate multiplier they give
+  const [dayHolidays, setDayHolidays] = useState<CalendarHoliday[]>([])
+  const [dayRate, setDayRate] = useState(1)
+  const cellRefs = useRef(new Map<string, HTMLInputElement>())
+
+  useEffect(() => {
+    loadMuster()
+  }, [orgId, selectedDate])
+
+  async function loadMuster() {
+    setLoading(true)
+    try {
+      const [{ data: workers, error: workersError }, { data: existing }, types, settings, holidays] = await Promise.all([
+        supabase
+          .from('workers')
+          .select('id, employee_id, first_name, last_name, plantation_id')
+          .eq('organization_id', orgId)
+          .eq('status', 'active')
+          .order('employee_id'),
+        supabase
+          .from('daily_plucking')
+          .select('worker_id')
+          .eq('organization_id', orgId)
+          .eq('date', selectedDate)
+          .eq('is_advance', false),
+        fetchExtraWorkTypes(orgId, true).catch(() => [] as ExtraWorkType[]),
+        fetchOrgSettings(orgId).catch(() => ({})),
+        fetchHolidays(orgId, selectedDate, selectedDate).catch(() => [] as CalendarHoliday[])
+      ])
+
+      if (workersError) throw workersError
+
+      const recorded = new Set<string>((existing ?? []).map((r: { worker_id: string }) => r.worker_id))
+      setExtraWorkTypes(types)
+      setWageNorms(readWageNorms(settings))
+      setDayHolidays(holidays)
+      setDayRate(holidayRate(holidays, selectedDate, readHolidayRates(settings)))
+      setRows(createBulkRows((workers ?? []) as BulkWorker[], recorded, defaultRate))
+    } catch (error: any) {
+      console.error('Error loading workers for bulk entry:', error?.message ?? error)
+      toast.error(t("plucking.bulk.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function updateCell(index: number, column: BulkColumn, value: string) {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, [column]: value } : row))
+  }
+
+  function focusCell(rowIndex: number, column: BulkColumn) {
+    const cell = cellRefs.current.get(`${rowIndex}:${column}`)
+    if (cell) {
+      cell.focus()
+      cell.select()
+    }
+  }
+
+  // Spreadsheet-style movement: Enter/arrows move between rows, Tab moves across columns
+  function handleCellKeyDown(e: React.KeyboardEvent<HTMLInputElement>, rowIndex: number, column: BulkColumn) {
+    if (e.key === 'Enter' || e.key === 'ArrowDown') {
+      e.preventDefault()
+      focusCell(Math.min(rowIndex + 1, rows.length - 1), column)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      focusCell(Math.max(rowIndex - 1, 0), column)
+    }
+  }
+
+  const filledRows = useMemo(() => rows.filter(isRowFilled), [rows])
+  const filledRecorded = filledRows.filter(row => row.already_recorded).length
+
+  const totals = useMemo(() => ({
+    kg: filledRows.reduce((sum, row) => sum + (parseFloat(row.kg_plucked) || 0), 0),
+    wages: filledRows.reduce((sum, row) => sum + calculateRowWage(row, selectedDate, wageNorms, dayRate), 0),
+  }), [filledRows, selectedDate, wageNorms, dayRate])
+
+  // Adds the itemised extra work lines for freshly inserted records
+  async function insertExtraWork(inserted: { id: string; worker_id: string }[], savedRows: BulkRow[]) {
+    const rowsByWorker = new Map(savedRows.map(row => [row.worker_id, row]))
+    const lines = inserted.flatMap(record => {
+      const row = rowsByWorker.get(record.worker_id)
+      return row ? buildExtraWorkInserts(orgId, record.id, buildBulkExtraWork(row, extraWorkTypes)) : []
+    })
+    if (lines.length === 0) return
+
+    const { error } = await supabase.from('daily_plucking_extra_work').insert(lines)
+    if (error) throw error
+  }
+
+  async function insertIndividually(validRows: BulkRow[]) {
+    const failed: BulkRowFailure[] = []
+    const inserted: { id: string; worker_id: string }[] = []
+
+    for (const row of validRows) {
+      const { data, error } = await supabase
+        .from('daily_plucking')
+        .insert(buildPluckingInsert(row, selectedDate, orgId, wageNorms, dayRate))
+        .select('id, worker_id')
+        .single()
+
+      if (error) {
+        failed.push({ employee_id: row.employee_id, worker_name: row.worker_name, reason: error.message })
+      } else {
+        inserted.push(data)
+      }
+    }
+
+    return { failed, inserted }
+  }
+
+  // The batch insert is all-or-nothing, so on error retry row by row to find the offending rows
+  async function insertPlucking(validRows: BulkRow[]) {
+    if (validRows.length === 0) return { inserted: [], failed: [] }
+
+    const { data, error } = await supabase
+      .from('daily_plucking')
+      .insert(validRows.map(row => buildPluckingInsert(row, selectedDate, orgId, wageNorms, dayRate)))
+      .select('id, worker_id')
+
+    if (!error) return { inserted: data ?? [], failed: [] }
+    console.warn('Batch insert failed, retrying individually:', error.message)
+    return insertIndividually(validRows)
+  }
+
+  async function handleSave() {
+    if (filledRows.length === 0) {
+      toast.error(t("plucking.bulk.nothingEntered"))
+      return
+    }
+
+    setSaving(true)
+    setSavedCount(null)
+
+    try {
+      const { invalid, validRows } = splitBulkRows(filledRows, includeRecorded, t)
+      const { inserted, failed } = await insertPlucking(validRows)
+
+      // Saved rows are marked before the extra work goes in, so a failure there can't lead to saving them twice
+      const saved = new Set(inserted.map(record => record.worker_id))
+      setRows(prev => prev.map(row => saved.has(row.worker_id)
+        ? { ...row, kg_plucked: '', extra_work_amount: '', extra_work_description: '', already_recorded: true }
+        : row
+      ))
+      setFailures([...invalid, ...failed])
+      setSavedCount(saved.size)
+
+      const extraWorkSaved = await insertExtraWork(inserted, validRows).then(() => true, (error) => {
+        console.error('Error saving bulk extra work:', error)
+        return false
+      })
+      if (saved.size > 0) onSaved()
+
+      if (!extraWorkSaved) {
+        toast.error(t("plucking.bulk.extraWorkFailed", { count: saved.size }))
+      } else if (invalid.length === 0 && failed.length === 0) {
+        toast.success(t("plucking.bulk.saved", { count: saved.size }))
+      } else {
+        toast.error(t("plucking.bulk.rowsFailed", { count: invalid.length + failed.length }))
+      }
+    } catch (error: any) {
+      console.error('Error saving bulk records:', error)
+      toast.error(error.message ?? t("plucking.bulk.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("plucking.bulk.title")}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("plucking.bulk.summary", { date: formatDate(selectedDate), count: rows.length })}
+            {dayHolidays.length > 0 && ` • ${dayHolidays.map(holiday => holiday.name).join(', ')} ${t("plucking.bulk.holidayRate", { rate: dayRate })}`}
+            {' • '}{t("plucking.bulk.keysHint")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden flex flex-col gap-3">
+          {loading ? (
+            <div className="flex justify-center items-center h-40">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="flex-1 overflow-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0 z-10">
+                  <tr className="text-left text-xs">
+                    <th className="p-2 font-medium">{t("common.id")}</th>
+                    <th className="p-2 font-medium">{t("common.worker")}</th>
+                    <th className="p-2 font-medium w-24">{t("plucking.bulk.kg")}</th>
+                    <th className="p-2 font-medium w-24">{t("plucking.bulk.rate")}</th>
+                    <th className="p-2 font-medium w-24">{t("plucking.bulk.extraAmount")}</th>
+                    <th className="p-2 font-medium">{t("plucking.bulk.extraWork")}</th>
+                    <th className="p-2 font-medium text-right">{t("plucking.bulk.wage")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, rowIndex) => (
+                    <tr key={row.worker_id} className="border-t">
+                      <td className="p-2 font-mono text-xs text-muted-foreground">{row.employee_id}</td>
+                      <td className="p-2">
+                        <span className="font-medium">{row.worker_name}</span>
+                        {row.already_recorded && (
+                          <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">{t("plucking.bulk.recorded")}</Badge>
+                        )}
+                      </td>
+                      {BULK_COLUMNS.map(column => (
+                        <td key={column} className="p-1">
+                          <Input
+                            ref={(el) => {
+                              if (el) cellRefs.current.set(`${rowIndex}:${column}`, el)
+                              else cellRefs.current.delete(`${rowIndex}:${column}`)
+                            }}
+                            type={column === 'extra_work_description' ? 'text' : 'number'}
+                            list={column === 'extra_work_description' ? 'bulk-extra-work-types' : undefined}
+                            step={column === 'kg_plucked' ? '0.1' : '1'}
+                            min="0"
+                            value={row[column]}
+                            placeholder={t(CELL_PLACEHOLDERS[column])}
+                            onChange={(e) => updateCell(rowIndex, column, e.target.value)}
+                            onKeyDown={(e) => handleCellKeyDown(e, rowIndex, column)}
+                            className="h-8"
+                          />
+                        </td>
+                      ))}
+                      <td className="p-2 text-right font-medium">
+                        {isRowFilled(row) ? money(calculateRowWage(row, selectedDate, wageNorms, dayRate)) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <datalist id="bulk-extra-work-types">
+                {extraWorkTypes.map(type => <option key={type.id} value={type.name} />)}
+              </datalist>
+            </div>
+          )}
+
+          {savedCount !== null && <BulkSaveResult savedCount={savedCount} failures={failures} />}
+
+          <div className="flex items-center justify-between gap-2">
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {t("plucking.bulk.totals", { rows: filledRows.length, kg: kg(totals.kg), amount: money(totals.wages) })}
+              </p>
+              {filledRecorded > 0 && (
+                <label className="flex items-center gap-2 text-xs">
+                  <Checkbox checked={includeRecorded} onCheckedChange={(checked) => setIncludeRecorded(checked === true)} />
+                  {t("plucking.bulk.includeRecorded", { count: filledRecorded })}
+                </label>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.close")}
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving || loading}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                {t("plucking.bulk.saveAll")}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+// Helpers for the bulk daily plucking entry grid
+
+import { ExtraWorkItem, matchExtraWorkType } from "@/lib/extra-work"
+import type { MessageKey, Translate } from "@/lib/i18n"
+import { WageNormSettings, calculateNormWage, normColumns, normFor } from "@/lib/wage-norms"
+import type { ExtraWorkType } from "@/types/payroll"
+
+export interface BulkWorker {
+  id: string
+  employee_id: string
+  first_name: string
+  last_name: string | null
+  plantation_id: string | null
+}
+
+export interface BulkRow {
+  worker_id: string
+  employee_id: string
+  worker_name: string
+  plantation_id: string | null
+  kg_plucked: string
+  rate_per_kg: string
+  extra_work_amount: string
+  extra_work_description: string
+  already_recorded: boolean
+}
+
+export interface BulkRowFailure {
+  employee_id: string
+  worker_name: string
+  reason: string
+}
+
+export const BULK_COLUMNS = ['kg_plucked', 'rate_per_kg', 'extra_work_amount', 'extra_work_description'] as const
+export type BulkColumn = typeof BULK_COLUMNS[number]
+
+export const CELL_PLACEHOLDERS: Record<BulkColumn, MessageKey> = {
+  kg_plucked: 'plucking.bulk.placeholder.kg',
+  rate_per_kg: 'plucking.bulk.placeholder.amount',
+  extra_work_amount: 'plucking.bulk.placeholder.amount',
+  extra_work_description: 'plucking.bulk.placeholder.description',
+}
+
+// Anything above this is almost certainly a typo (e.g. 155 instead of 15.5)
+const MAX_KG_PER_DAY = 100
+
+export function createBulkRows(workers: BulkWorker[], recordedWorkerIds: Set<string>, defaultRate: string): BulkRow[] {
+  return workers.map(worker => ({
+    worker_id: worker.id,
+    employee_id: worker.employee_id,
+    worker_name: `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}`,
+    plantation_id: worker.plantation_id,
+    kg_plucked: '',
+    rate_per_kg: defaultRate,
+    extra_work_amount: '',
+    extra_work_description: '',
+    already_recorded: recordedWorkerIds.has(worker.id)
+  }))
+}
+
+// A row is only saved when something was actually entered against it
+export function isRowFilled(row: BulkRow) {
+  return row.kg_plucked.trim() !== '' || row.extra_work_amount.trim() !== ''
+}
+
+// Plucking pay under the norm for the worker's plantation on the date, at the date's holiday rate
+function rowNormWage(row: BulkRow, date: string, norms: WageNormSettings, holidayRate: number) {
+  const kg = parseFloat(row.kg_plucked) || 0
+  const rate = kg > 0 ? parseFloat(row.rate_per_kg) || 0 : 0
+  return calculateNormWage(kg, rate, normFor(norms, date, row.plantation_id), holidayRate)
+}
+
+export function calculateRowWage(row: BulkRow, date: string, norms: WageNormSettings, holidayRate: number) {
+  const extra = parseFloat(row.extra_work_amount) || 0
+  return rowNormWage(row, date, norms, holidayRate).plucking_wage + extra
+}
+
+function parseOptional(value: string) {
+  return value.trim() === '' ? 0 : Number(value)
+}
+
+function validateKg(kg: number, rate: number, t: Translate): string | null {
+  if (Number.isNaN(kg) || kg < 0) return t('plucking.error.kgPositive')
+  if (kg > MAX_KG_PER_DAY) return t('plucking.error.kgTooHigh', { max: MAX_KG_PER_DAY })
+  if (kg > 0 && (Number.isNaN(rate) || rate <= 0)) return t('plucking.error.rateRequired')
+  return null
+}
+
+function validateExtraWork(extra: number, description: string, t: Translate): string | null {
+  if (Number.isNaN(extra) || extra < 0) return t('plucking.error.extraPositive')
+  if (extra > 0 && !description.trim()) return t('plucking.error.describeExtra')
+  return null
+}
+
+// Returns an error message for the row, or null when it can be saved
+export function validateBulkRow(row: BulkRow, t: Translate): string | null {
+  const kg = parseOptional(row.kg_plucked)
+  const extra = parseOptional(row.extra_work_amount)
+
+  const error = validateKg(kg, Number(row.rate_per_kg), t) ?? validateExtraWork(extra, row.extra_work_description, t)
+  if (error) return error
+  if (kg === 0 && extra === 0) return t('plucking.error.nothingEntered')
+  return null
+}
+
+// Rows that can be saved, and why the others can't. Workers who already have a
+// record on the date are skipped unless `includeRecorded` is set.
+export function splitBulkRows(rows: BulkRow[], includeRecorded: boolean, t: Translate) {
+  const invalid: BulkRowFailure[] = []
+  const validRows: BulkRow[] = []
+  rows.forEach(row => {
+    const reason = row.already_recorded && !includeRecorded ? t('plucking.bulk.alreadyRecorded') : validateBulkRow(row, t)
+    if (reason) {
+      invalid.push({ employee_id: row.employee_id, worker_name: row.worker_name, reason })
+    } else {
+      validRows.push(row)
+    }
+  })
+  return { invalid, validRows }
+}
+
+export function buildPluckingInsert(row: BulkRow, date: string, orgId: string, norms: WageNormSettings, holidayRate: number) {
+  const kg_plucked = parseFloat(row.kg_plucked) || 0
+  const rate_per_kg = kg_plucked > 0 ? parseFloat(row.rate_per_kg) || 0 : 0
+  const extra_work_payment = parseFloat(row.extra_work_amount) || 0
+  const normWage = rowNormWage(row, date, norms, holidayRate)
+  const wage = normWage.plucking_wage + extra_work_payment
+
+  return {
+    worker_id: row.worker_id,
+    date,
+    kg_plucked,
+    rate_per_kg,
+    wage_earned: wage,
+    total_income: wage,
+    extra_work_payment,
+    ...normColumns(normWage),
+    is_advance: false,
+    notes: null,
+    organization_id: orgId
+  }
+}
+
+// The grid takes a free text description, linked to the catalogue when the name matches
+export function buildBulkExtraWork(row: BulkRow, types: ExtraWorkType[]): ExtraWorkItem[] {
+  const amount = parseFloat(row.extra_work_amount) || 0
+  if (amount <= 0) return []
+  const description = row.extra_work_description.trim()
+  return [{ extra_work_type_id: matchExtraWorkType(description, types), description, amount }]
+}
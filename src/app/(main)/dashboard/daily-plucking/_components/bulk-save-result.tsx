@@ -0,0 +1,38 @@
+import { AlertTriangle, CheckCircle } from "lucide-react"
+
+import { useTranslation } from "@/hooks/use-translation"
+
+import type { BulkRowFailure } from "./bulk-entry-utils"
+
+interface BulkSaveResultProps {
+  savedCount: number
+  failures: BulkRowFailure[]
+}
+
+// Outcome of the last bulk save, listing each row that was not saved and why
+export function BulkSaveResult({ savedCount, failures }: BulkSaveResultProps) {
+  const { t } = useTranslation()
+
+  if (failures.length === 0) {
+    return (
+      <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+        <CheckCircle className="h-4 w-4" />
+        {t("plucking.bulk.saved", { count: savedCount })}
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-1 max-h-32 overflow-auto">
+      <div className="flex items-center gap-1.5 text-sm font-medium text-destructive">
+        <AlertTriangle className="h-4 w-4" />
+        {t("plucking.bulk.savedWithFailures", { saved: savedCount, failed: failures.length })}
+      </div>
+      {failures.map(failure => (
+        <p key={failure.employee_id} className="text-xs">
+          <span className="font-mono">{failure.employee_id}</span> {failure.worker_name}: {failure.reason}
+        </p>
+      ))}
+    </div>
+  )
+}
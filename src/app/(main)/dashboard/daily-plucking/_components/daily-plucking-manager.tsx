@@ -1,7 +1,9 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { Plus, Search, Leaf, DollarSign, Edit, Trash2, X, Loader2, CalendarDays, Banknote, MinusCircle, Download, Printer } from "lucide-react"
+import { Plus, Search, Leaf, DollarSign, Edit, Trash2, X, Loader2, CalendarDays, Banknote, MinusCircle, Download, Printer, Table2, Upload, Lock, WifiOff, RefreshCw, AlertTriangle, CloudOff, CalendarCheck, FileSignature, PenLine } from "lucide-react"
+import { AttendanceRegisterDialog } from "@/app/(main)/dashboard/_components/attendance-register-dialog"
+import { SignatureDialog } from "@/app/(main)/dashboard/_components/signature-dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -19,12 +21,26 @@ import { DataTablePagination } from "@/components/data-table/data-table-paginati
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { ColumnDef } from "@tanstack/react-table"
 import { useDataTableInstance } from "@/hooks/use-data-table-instance"
+import { useTranslation } from "@/hooks/use-translation"
 import { useOrganization } from "@/contexts/organization-context"
+import { checkAdvanceLimit, describeAdvanceLimit } from "@/lib/advances"
+import { EXTRA_WORK_SELECT, ExtraWorkItem, fetchExtraWorkTypes, toExtraWorkItems } from "@/lib/extra-work"
+import { CalendarHoliday, DEFAULT_HOLIDAY_RATES, HolidayRates, fetchHolidays, holidayRate, readHolidayRates } from "@/lib/holidays"
+import type { Translate } from "@/lib/i18n"
+import { isNetworkError, type PluckingRow, type PluckingSave, type QueuedPluckingSave } from "@/lib/offline-queue"
+import { fetchOrgSettings } from "@/lib/org-settings"
+import { closedMonthMessage, fetchClosedMonths, isMonthClosed } from "@/lib/payroll-runs"
 import { supabase } from "@/lib/supabase"
-import { format } from "date-fns"
+import { cn } from "@/lib/utils"
+import { DEFAULT_WAGE_NORMS, WageNormSettings, calculateNormWage, describeNormWage, normColumns, normFor, readWageNorms, recordNormWage } from "@/lib/wage-norms"
+import type { ExtraWorkType } from "@/types/payroll"
 import { formatInTimeZone } from "date-fns-tz"
 import { toast } from "sonner"
-import { formatCurrency } from "@/lib/utils"
+
+import { BulkEntryGrid } from "./bulk-entry-grid"
+import { ImportWizard } from "./import-wizard"
+import { SyncConflictDialog } from "./sync-conflict-dialog"
+import { useOfflineSync } from "./use-offline-sync"
 
 const SL_TIMEZONE = 'Asia/Colombo'
 
@@ -37,11 +53,8 @@ interface Worker {
   employee_id: string
   first_name: string
   last_name: string | null
-}
-
-interface ExtraWork {
-  description: string
-  amount: number
+  plantation_id: string | null
+  status: string
 }
 
 interface PluckingRecord {
@@ -51,18 +64,141 @@ interface PluckingRecord {
   kg_plucked: number
   rate_per_kg: number
   daily_salary: number
+  norm_kg: number | null
+  over_kilo_pay: number
+  wage_top_up: number
+  holiday_pay: number
   extra_work_payment: number
-  extra_work_items: ExtraWork[]
+  extra_work_items: ExtraWorkItem[]
   is_advance: boolean
   notes: string | null
+  // Worker's signature for an advance; not loaded for records still in the offline queue
+  signature_path?: string | null
   created_at: string
   worker_name: string
   employee_id: string
+  // Set while the record only exists in this device's offline queue
+  sync_status?: QueuedPluckingSave['status']
+}
+
+function workerLabel(worker: Worker | undefined, t: Translate) {
+  return worker ? `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}` : t('plucking.unknownWorker')
+}
+
+function toPluckingRow(record: PluckingRecord): PluckingRow {
+  return {
+    worker_id: record.worker_id,
+    date: record.date,
+    kg_plucked: record.kg_plucked,
+    rate_per_kg: record.rate_per_kg,
+    wage_earned: record.daily_salary,
+    total_income: record.daily_salary,
+    extra_work_payment: record.extra_work_payment,
+    norm_kg: record.norm_kg,
+    over_kilo_pay: record.over_kilo_pay,
+    wage_top_up: record.wage_top_up,
+    holiday_pay: record.holiday_pay,
+    is_advance: record.is_advance,
+    notes: record.notes
+  }
+}
+
+function storedNormColumns(record: any) {
+  return {
+    norm_kg: record.norm_kg ?? null,
+    over_kilo_pay: Number(record.over_kilo_pay) || 0,
+    wage_top_up: Number(record.wage_top_up) || 0,
+    holiday_pay: Number(record.holiday_pay) || 0,
+  }
+}
+
+// The plucking part of a record's wage, under the norm it was saved with
+function recordWage(record: PluckingRecord) {
+  return recordNormWage({ ...record, wage_earned: record.daily_salary })
+}
+
+function fromQueuedRow(
+  row: PluckingRow,
+  base: Pick<PluckingRecord, 'id' | 'created_at' | 'worker_name' | 'employee_id'>,
+  entry: QueuedPluckingSave
+): PluckingRecord {
+  return {
+    ...base,
+    worker_id: row.worker_id,
+    date: row.date,
+    kg_plucked: row.kg_plucked,
+    rate_per_kg: row.rate_per_kg,
+    daily_salary: row.wage_earned,
+    extra_work_payment: row.extra_work_payment,
+    norm_kg: row.norm_kg ?? null,
+    over_kilo_pay: row.over_kilo_pay ?? 0,
+    wage_top_up: row.wage_top_up ?? 0,
+    holiday_pay: row.holiday_pay ?? 0,
+    extra_work_items: row.is_advance ? [] : entry.save.extra_work,
+    is_advance: row.is_advance,
+    notes: row.notes,
+    sync_status: entry.status
+  }
+}
+
+// Overlays saves still waiting in the offline queue on the server's records for the day
+function withQueuedSaves(records: PluckingRecord[], queued: QueuedPluckingSave[], date: string, workers: Worker[], t: Translate) {
+  const merged = [...records]
+  queued.forEach(entry => {
+    const { save } = entry
+    if (save.kind === 'update') {
+      const index = merged.findIndex(r => r.id === save.record_id)
+      if (index >= 0) merged[index] = fromQueuedRow(save.row, merged[index], entry)
+      return
+    }
+    save.rows.forEach((row, i) => {
+      if (row.date !== date) return
+      const worker = workers.find(w => w.id === row.worker_id)
+      merged.unshift(fromQueuedRow(row, {
+        id: `queued-${entry.id}-${i}`,
+        created_at: entry.queued_at,
+        worker_name: workerLabel(worker, t),
+        employee_id: worker?.employee_id ?? '-'
+      }, entry))
+    })
+  })
+  return merged
+}
+
+// Advances record the worker's signature for the cash; saved records only, as queued ones have no id yet
+function AdvanceSignatureAction({ record, onSign }: { record: PluckingRecord; onSign: () => void }) {
+  const { t } = useTranslation()
+
+  if (!record.is_advance) return null
+  if (record.signature_path) {
+    return (
+      <span className="flex h-7 w-7 items-center justify-center text-primary" title={t("plucking.signedByWorker")}>
+        <FileSignature className="h-3.5 w-3.5" />
+      </span>
+    )
+  }
+  return (
+    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title={t("plucking.collectSignature")} onClick={onSign}>
+      <PenLine className="h-3.5 w-3.5" />
+    </Button>
+  )
+}
+
+function typeBadge(record: PluckingRecord, t: Translate) {
+  if (record.is_advance) {
+    return <Badge variant="destructive" className="text-[10px] px-1.5 py-0">{t("common.advance")}</Badge>
+  }
+  if ((record.extra_work_items?.length || 0) > 0) {
+    return <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{t("plucking.type.pluckingWork")}</Badge>
+  }
+  return <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t("plucking.type.plucking")}</Badge>
 }
 
 export function DailyPluckingManager() {
   const { currentOrganization, loading: orgLoading } = useOrganization()
   const orgId = currentOrganization?.organization_id
+  const l = useTranslation()
+  const { t, date: formatDate, money } = l
   
   const [records, setRecords] = useState<PluckingRecord[]>([])
   const [workers, setWorkers] = useState<Worker[]>([])
@@ -70,10 +206,26 @@ export function DailyPluckingManager() {
   const [searchTerm, setSearchTerm] = useState("")
   const [selectedDate, setSelectedDate] = useState(getSLDate())
   const [showForm, setShowForm] = useState(false)
+  const [showBulkEntry, setShowBulkEntry] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showAttendance, setShowAttendance] = useState(false)
   const [formLoading, setFormLoading] = useState(false)
   const [editingRecord, setEditingRecord] = useState<PluckingRecord | null>(null)
-  const [extraWorkItems, setExtraWorkItems] = useState<ExtraWork[]>([])
+  const [extraWorkItems, setExtraWorkItems] = useState<ExtraWorkItem[]>([])
+  const [extraWorkTypes, setExtraWorkTypes] = useState<ExtraWorkType[]>([])
   const [detailsRecord, setDetailsRecord] = useState<PluckingRecord | null>(null)
+  const [closedMonths, setClosedMonths] = useState<Set<string>>(new Set())
+  const [showConflicts, setShowConflicts] = useState(false)
+  const [wageNorms, setWageNorms] = useState<WageNormSettings>(DEFAULT_WAGE_NORMS)
+  const [holidayRates, setHolidayRates] = useState<HolidayRates>(DEFAULT_HOLIDAY_RATES)
+  // Holidays on the selected date; plucking on them is paid at the holiday rate
+  const [dayHolidays, setDayHolidays] = useState<CalendarHoliday[]>([])
+  const [signingAdvance, setSigningAdvance] = useState<Pick<PluckingRecord, 'id' | 'worker_name' | 'daily_salary'> | null>(null)
+  const offline = useOfflineSync(orgId, fetchRecords)
+  const conflicts = offline.queued.filter(entry => entry.status === 'conflict')
+  const pendingCount = offline.queued.length - conflicts.length
+  // Records in a closed payroll month are read-only (the database rejects changes too)
+  const dateLocked = isMonthClosed(closedMonths, selectedDate)
   const [formData, setFormData] = useState({
     worker_id: '',
     kg_plucked: '',
@@ -86,12 +238,27 @@ export function DailyPluckingManager() {
   useEffect(() => {
     if (orgId) {
       fetchWorkers()
+      fetchExtraWorkTypes(orgId, true)
+        .then(setExtraWorkTypes)
+        .catch(error => console.error('Error fetching extra work types:', error?.message ?? error))
+      fetchClosedMonths(orgId)
+        .then(setClosedMonths)
+        .catch(error => console.error('Error fetching closed months:', error?.message ?? error))
+      fetchOrgSettings(orgId)
+        .then(settings => {
+          setWageNorms(readWageNorms(settings))
+          setHolidayRates(readHolidayRates(settings))
+        })
+        .catch(error => console.error('Error fetching wage settings:', error?.message ?? error))
     }
   }, [orgId])
 
   useEffect(() => {
     if (orgId) {
       fetchRecords()
+      fetchHolidays(orgId, selectedDate, selectedDate)
+        .then(setDayHolidays)
+        .catch(error => console.error('Error fetching holidays:', error?.message ?? error))
     }
   }, [selectedDate, orgId])
 
@@ -100,7 +267,7 @@ export function DailyPluckingManager() {
     try {
       const { data, error } = await supabase
         .from('workers')
-        .select('id, employee_id, first_name, last_name')
+        .select('id, employee_id, first_name, last_name, plantation_id, status')
         .eq('organization_id', orgId)
         .order('first_name')
 
@@ -109,7 +276,7 @@ export function DailyPluckingManager() {
         if (error.message?.includes('organization_id') || error.code === '42703') {
           const { data: fallbackData } = await supabase
             .from('workers')
-            .select('id, employee_id, first_name, last_name')
+            .select('id, employee_id, first_name, last_name, plantation_id, status')
             .order('first_name')
           setWorkers(fallbackData || [])
           return
@@ -119,7 +286,7 @@ export function DailyPluckingManager() {
       setWorkers(data || [])
     } catch (error: any) {
       console.error('Error fetching workers:', error?.message || error)
-      toast.error("Failed to load workers")
+      toast.error(t("plucking.loadWorkersFailed"))
     }
   }
 
@@ -130,8 +297,9 @@ export function DailyPluckingManager() {
       let query = supabase
         .from('daily_plucking')
         .select(`
-          id, worker_id, date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, notes, is_advance, created_at,
-          workers (employee_id, first_name, last_name)
+          id, worker_id, date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay, notes, is_advance, signature_path, created_at,
+          workers (employee_id, first_name, last_name),
+          ${EXTRA_WORK_SELECT}
         `)
         .eq('date', selectedDate)
         .order('created_at', { ascending: false })
@@ -144,8 +312,9 @@ export function DailyPluckingManager() {
           const { data: fallbackData, error: fallbackError } = await supabase
             .from('daily_plucking')
             .select(`
-              id, worker_id, date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, notes, is_advance, created_at,
-              workers (employee_id, first_name, last_name)
+              id, worker_id, date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay, notes, is_advance, created_at,
+              workers (employee_id, first_name, last_name),
+              ${EXTRA_WORK_SELECT}
             `)
             .eq('date', selectedDate)
             .order('created_at', { ascending: false })
@@ -172,7 +341,8 @@ export function DailyPluckingManager() {
       setRecords(processRecordsData(data || []))
     } catch (error: any) {
       console.error('Error fetching records:', error?.message || error)
-      toast.error("Failed to load records")
+      // Offline is shown in the header; entries made meanwhile are queued
+      if (!isNetworkError(error)) toast.error(t("plucking.loadFailed"))
     } finally {
       setLoading(false)
     }
@@ -182,20 +352,11 @@ export function DailyPluckingManager() {
     return data.map(record => {
       const worker = record.workers as any
       const extraWorkPayment = (record as any).extra_work_payment || 0
-      let extraWorkItems: ExtraWork[] = []
-      
-      // Try to parse extra work items from notes or create from payment
-      try {
-        const notesData = record.notes ? JSON.parse(record.notes) : null
-        if (notesData && notesData.extra_work) {
-          extraWorkItems = notesData.extra_work
-        } else if (extraWorkPayment > 0) {
-          extraWorkItems = [{ description: 'Extra work', amount: extraWorkPayment }]
-        }
-      } catch {
-        if (extraWorkPayment > 0) {
-          extraWorkItems = [{ description: 'Extra work', amount: extraWorkPayment }]
-        }
+      let extraWorkItems = toExtraWorkItems(record.daily_plucking_extra_work)
+
+      // Records saved without itemised lines only carry the total
+      if (extraWorkItems.length === 0 && extraWorkPayment > 0) {
+        extraWorkItems = [{ extra_work_type_id: null, description: t('plucking.extraWork'), amount: extraWorkPayment }]
       }
       
       return {
@@ -206,11 +367,13 @@ export function DailyPluckingManager() {
         rate_per_kg: record.rate_per_kg,
         daily_salary: record.wage_earned,
         extra_work_payment: extraWorkPayment,
+        ...storedNormColumns(record),
         extra_work_items: extraWorkItems,
         is_advance: (record as any).is_advance || false,
         notes: record.notes,
+        signature_path: record.signature_path ?? null,
         created_at: record.created_at,
-        worker_name: worker ? `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}` : 'Unknown',
+        worker_name: worker ? `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}` : t('plucking.unknownWorker'),
         employee_id: worker?.employee_id || '-'
       }
     })
@@ -231,7 +394,11 @@ export function DailyPluckingManager() {
   }, [])
 
   const handleDelete = useCallback(async (record: PluckingRecord) => {
-    if (!confirm(`Delete record for ${record.worker_name}?`)) return
+    if (!navigator.onLine) {
+      toast.error(t("plucking.deleteNeedsConnection"))
+      return
+    }
+    if (!confirm(t("plucking.confirmDelete", { name: record.worker_name }))) return
 
     try {
       const { error } = await supabase
@@ -242,244 +409,177 @@ export function DailyPluckingManager() {
       if (error) throw error
 
       setRecords(prev => prev.filter(r => r.id !== record.id))
-      toast.success("Record deleted successfully")
+      toast.success(t("plucking.deleted"))
     } catch (error: any) {
       console.error('Error deleting record:', error)
-      toast.error(error.message || "Failed to delete record")
+      toast.error(error.message || t("plucking.deleteFailed"))
     }
-  }, [])
+  }, [t])
+
+  // Advance amount this save would record, and the amount it replaces when editing an advance
+  function advanceBeingSaved() {
+    const amount = Math.abs(parseFloat(formData.advance_amount) || 0)
+    const savesAdvance = formData.is_advance || (!editingRecord && parseFloat(formData.kg_plucked) > 0)
+    const replacing = editingRecord?.is_advance ? Math.abs(editingRecord.daily_salary) : 0
+    return { amount: savesAdvance ? amount : 0, replacing }
+  }
 
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault()
-    setFormLoading(true)
+  // Applies the advance policy: 'block' stops the save, 'warn' asks for confirmation
+  async function confirmAdvanceLimit() {
+    const { amount, replacing } = advanceBeingSaved()
+    if (!orgId || amount <= 0) return true
 
     try {
-      // Check if we need to create both plucking and advance records
-      const hasPluckingData = !editingRecord && parseFloat(formData.kg_plucked) > 0
-      const hasAdvanceData = !editingRecord && parseFloat(formData.advance_amount) > 0
-      const createBothRecords = hasPluckingData && hasAdvanceData
-
-      if (editingRecord) {
-        // Edit mode - check if we're changing record type (plucking <-> advance)
-        const wasAdvance = editingRecord.is_advance
-        const isNowAdvance = formData.is_advance
-        const hasPluckingData = parseFloat(formData.kg_plucked) > 0
-        const hasAdvanceData = parseFloat(formData.advance_amount) > 0
-        const typeChanged = wasAdvance !== isNowAdvance
-        const addingOppositeType = (wasAdvance && hasPluckingData) || (!wasAdvance && hasAdvanceData)
-
-        if (typeChanged && addingOppositeType) {
-          // User changed from plucking to advance or vice versa, but has data for both
-          // Create a new record for the opposite type while keeping the existing one
-          let new_kg_plucked: number
-          let new_rate_per_kg: number
-          let new_daily_salary: number
-          let new_extra_work_payment = 0
-          let new_is_advance = false
-          let newNotesString: string | null = null
-
-          if (isNowAdvance) {
-            // Currently set to advance mode, create advance record
-            new_kg_plucked = 0
-            new_rate_per_kg = 0
-            new_daily_salary = -Math.abs(parseFloat(formData.advance_amount) || 0)
-            new_is_advance = true
-            newNotesString = formData.notes ? JSON.stringify({ text: formData.notes }) : null
-          } else {
-            // Currently set to plucking mode, create plucking record
-            new_kg_plucked = parseFloat(formData.kg_plucked) || 0
-            new_rate_per_kg = parseFloat(formData.rate_per_kg) || 0
-            new_extra_work_payment = extraWorkItems.reduce((sum, item) => sum + item.amount, 0)
-            new_daily_salary = (new_kg_plucked * new_rate_per_kg) + new_extra_work_payment
-            new_is_advance = false
-
-            const notesData: any = {}
-            if (extraWorkItems.length > 0) {
-              notesData.extra_work = extraWorkItems
-            }
-            if (formData.notes) {
-              notesData.text = formData.notes
-            }
-            newNotesString = Object.keys(notesData).length > 0 ? JSON.stringify(notesData) : null
-          }
+      const check = await checkAdvanceLimit(orgId, formData.worker_id, selectedDate, amount, replacing)
+      if (!check.exceeded) return true
 
-          const newRecordData = {
-            worker_id: formData.worker_id,
-            date: selectedDate,
-            kg_plucked: new_kg_plucked,
-            rate_per_kg: new_rate_per_kg,
-            wage_earned: new_daily_salary,
-            total_income: new_daily_salary,
-            extra_work_payment: new_extra_work_payment,
-            is_advance: new_is_advance,
-            notes: newNotesString,
-            organization_id: orgId
-          }
+      const message = describeAdvanceLimit(check, amount, l)
+      if (check.enforcement === 'block') {
+        toast.error(message)
+        return false
+      }
+      return confirm(`${message}\n\n${t("plucking.saveAnyway")}`)
+    } catch (error: any) {
+      // An unchecked advance could slip past a 'block' limit, so don't save it
+      console.error('Error checking advance limit:', error)
+      toast.error(error.message ?? t("plucking.limitCheckFailed"))
+      return false
+    }
+  }
 
-          const { error } = await supabase
-            .from('daily_plucking')
-            .insert(newRecordData)
-
-          if (error) throw error
-          toast.success(`${new_is_advance ? 'Advance' : 'Plucking'} record added while keeping existing ${wasAdvance ? 'advance' : 'plucking'} record`)
-        } else {
-          // Normal edit - just update the existing record
-          let kg_plucked: number
-          let rate_per_kg: number
-          let daily_salary: number
-          const extra_work_payment = extraWorkItems.reduce((sum, item) => sum + item.amount, 0)
-
-          if (formData.is_advance) {
-            kg_plucked = 0
-            rate_per_kg = 0
-            daily_salary = -Math.abs(parseFloat(formData.advance_amount) || 0)
-          } else {
-            kg_plucked = parseFloat(formData.kg_plucked) || 0
-            rate_per_kg = parseFloat(formData.rate_per_kg) || 0
-            daily_salary = (kg_plucked * rate_per_kg) + extra_work_payment
-          }
+  function advanceRow(): PluckingRow {
+    const amount = -Math.abs(parseFloat(formData.advance_amount) || 0)
+    return {
+      worker_id: formData.worker_id,
+      date: selectedDate,
+      kg_plucked: 0,
+      rate_per_kg: 0,
+      wage_earned: amount,
+      total_income: amount,
+      extra_work_payment: 0,
+      norm_kg: null,
+      over_kilo_pay: 0,
+      wage_top_up: 0,
+      holiday_pay: 0,
+      is_advance: true,
+      notes: formData.notes || null
+    }
+  }
 
-          const notesData: any = {}
-          if (extraWorkItems.length > 0) {
-            notesData.extra_work = extraWorkItems
-          }
-          if (formData.notes) {
-            notesData.text = formData.notes
-          }
-          const notesString = Object.keys(notesData).length > 0 ? JSON.stringify(notesData) : null
-
-          const recordData = {
-            worker_id: formData.worker_id,
-            date: selectedDate,
-            kg_plucked,
-            rate_per_kg,
-            wage_earned: daily_salary,
-            total_income: daily_salary,
-            extra_work_payment,
-            is_advance: formData.is_advance,
-            notes: notesString
-          }
+  // Plucking pay for the form's kg, under the norm for the worker's plantation and at the day's holiday rate
+  function formNormWage() {
+    const kg = parseFloat(formData.kg_plucked) || 0
+    const rate = parseFloat(formData.rate_per_kg) || 0
+    const worker = workers.find(w => w.id === formData.worker_id)
+    const norm = normFor(wageNorms, selectedDate, worker?.plantation_id)
+    return calculateNormWage(kg, rate, norm, holidayRate(dayHolidays, selectedDate, holidayRates))
+  }
 
-          const { error } = await supabase
-            .from('daily_plucking')
-            .update(recordData)
-            .eq('id', editingRecord.id)
+  function pluckingRow(): PluckingRow {
+    const kg_plucked = parseFloat(formData.kg_plucked) || 0
+    const rate_per_kg = parseFloat(formData.rate_per_kg) || 0
+    const extra_work_payment = extraWorkItems.reduce((sum, item) => sum + item.amount, 0)
+    const normWage = formNormWage()
+    const wage = normWage.plucking_wage + extra_work_payment
+    return {
+      worker_id: formData.worker_id,
+      date: selectedDate,
+      kg_plucked,
+      rate_per_kg,
+      wage_earned: wage,
+      total_income: wage,
+      extra_work_payment,
+      ...normColumns(normWage),
+      is_advance: false,
+      notes: formData.notes || null
+    }
+  }
 
-          if (error) throw error
-          toast.success("Record updated successfully")
+  // What the form saves, and the message shown once it reaches the server
+  function buildSave(): { save: PluckingSave; message: string } {
+    const formRow = formData.is_advance ? advanceRow() : pluckingRow()
+    const hasPluckingData = parseFloat(formData.kg_plucked) > 0
+    const hasAdvanceData = parseFloat(formData.advance_amount) > 0
+
+    if (editingRecord) {
+      const wasAdvance = editingRecord.is_advance
+      const typeChanged = wasAdvance !== formData.is_advance
+      const addingOppositeType = (wasAdvance && hasPluckingData) || (!wasAdvance && hasAdvanceData)
+
+      if (typeChanged && addingOppositeType) {
+        // User changed from plucking to advance or vice versa, but has data for both:
+        // create a record of the new type while keeping the existing one
+        return {
+          save: { kind: 'insert', rows: [formRow], extra_work: extraWorkItems },
+          message: t(formData.is_advance ? "plucking.advanceAddedKeeping" : "plucking.pluckingAddedKeeping")
         }
-      } else if (createBothRecords) {
-        // Create both plucking and advance records
-        const recordsToInsert = []
-
-        // 1. Plucking record
-        const kg_plucked = parseFloat(formData.kg_plucked)
-        const rate_per_kg = parseFloat(formData.rate_per_kg)
-        const extra_work_payment = extraWorkItems.reduce((sum, item) => sum + item.amount, 0)
-        const plucking_salary = (kg_plucked * rate_per_kg) + extra_work_payment
-
-        const pluckingNotesData: any = {}
-        if (extraWorkItems.length > 0) {
-          pluckingNotesData.extra_work = extraWorkItems
-        }
-        if (formData.notes) {
-          pluckingNotesData.text = formData.notes
-        }
-        const pluckingNotesString = Object.keys(pluckingNotesData).length > 0 ? JSON.stringify(pluckingNotesData) : null
-
-        recordsToInsert.push({
-          worker_id: formData.worker_id,
-          date: selectedDate,
-          kg_plucked,
-          rate_per_kg,
-          wage_earned: plucking_salary,
-          total_income: plucking_salary,
-          extra_work_payment,
-          is_advance: false,
-          notes: pluckingNotesString,
-          organization_id: orgId
-        })
-
-        // 2. Advance record
-        const advance_amount = -Math.abs(parseFloat(formData.advance_amount))
-        recordsToInsert.push({
-          worker_id: formData.worker_id,
-          date: selectedDate,
-          kg_plucked: 0,
-          rate_per_kg: 0,
-          wage_earned: advance_amount,
-          total_income: advance_amount,
-          extra_work_payment: 0,
-          is_advance: true,
-          notes: formData.notes ? JSON.stringify({ text: formData.notes }) : null,
-          organization_id: orgId
-        })
+      }
+      return {
+        save: { kind: 'update', record_id: editingRecord.id, row: formRow, original: toPluckingRow(editingRecord), extra_work: extraWorkItems },
+        message: t("plucking.updated")
+      }
+    }
 
-        const { error } = await supabase
-          .from('daily_plucking')
-          .insert(recordsToInsert)
-
-        if (error) throw error
-        toast.success("Plucking and advance records added successfully")
-      } else {
-        // Create single record (either plucking or advance)
-        let kg_plucked: number
-        let rate_per_kg: number
-        let daily_salary: number
-        const extra_work_payment = extraWorkItems.reduce((sum, item) => sum + item.amount, 0)
-
-        if (formData.is_advance) {
-          kg_plucked = 0
-          rate_per_kg = 0
-          daily_salary = -Math.abs(parseFloat(formData.advance_amount) || 0)
-        } else {
-          kg_plucked = parseFloat(formData.kg_plucked) || 0
-          rate_per_kg = parseFloat(formData.rate_per_kg) || 0
-          daily_salary = (kg_plucked * rate_per_kg) + extra_work_payment
-        }
+    if (hasPluckingData && hasAdvanceData) {
+      return {
+        save: { kind: 'insert', rows: [pluckingRow(), advanceRow()], extra_work: extraWorkItems },
+        message: t("plucking.bothAdded")
+      }
+    }
+    return {
+      save: { kind: 'insert', rows: [formRow], extra_work: extraWorkItems },
+      message: t(formData.is_advance ? "plucking.advanceAdded" : "plucking.pluckingAdded")
+    }
+  }
 
-        const notesData: any = {}
-        if (extraWorkItems.length > 0) {
-          notesData.extra_work = extraWorkItems
-        }
-        if (formData.notes) {
-          notesData.text = formData.notes
-        }
-        const notesString = Object.keys(notesData).length > 0 ? JSON.stringify(notesData) : null
-
-        const recordData = {
-          worker_id: formData.worker_id,
-          date: selectedDate,
-          kg_plucked,
-          rate_per_kg,
-          wage_earned: daily_salary,
-          total_income: daily_salary,
-          extra_work_payment,
-          is_advance: formData.is_advance,
-          notes: notesString,
-          organization_id: orgId
-        }
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!orgId) return
+    if (dateLocked) {
+      toast.error(closedMonthMessage(selectedDate, l))
+      return
+    }
+    setFormLoading(true)
 
-        const { error } = await supabase
-          .from('daily_plucking')
-          .insert(recordData)
+    if (!(await confirmAdvanceLimit())) {
+      setFormLoading(false)
+      return
+    }
 
-        if (error) throw error
-        toast.success(`${formData.is_advance ? 'Advance' : 'Plucking'} record added successfully`)
+    try {
+      const { save, message } = buildSave()
+      const saved = await offline.save(save)
+      if (saved) {
+        toast.success(message)
+        fetchRecords()
+        // The worker signs for the advance as the cash is handed over
+        if (saved.advance_id) {
+          const worker = workers.find(w => w.id === formData.worker_id)
+          setSigningAdvance({ id: saved.advance_id, worker_name: workerLabel(worker, t), daily_salary: advanceRow().wage_earned })
+        }
       }
 
       setShowForm(false)
       setEditingRecord(null)
       resetForm()
-      fetchRecords()
     } catch (error: any) {
       console.error('Error saving record:', error)
-      toast.error(error.message || "Failed to save record")
+      toast.error(error.message || t("plucking.saveFailed"))
     } finally {
       setFormLoading(false)
     }
   }
 
+  // Picking a catalogue type fills in its name and default rate
+  const applyExtraWorkType = (index: number, typeId: string) => {
+    const type = extraWorkTypes.find(t => t.id === typeId)
+    setExtraWorkItems(extraWorkItems.map((item, i) => {
+      if (i !== index) return item
+      if (!type) return { ...item, extra_work_type_id: null }
+      return { extra_work_type_id: type.id, description: type.name, amount: item.amount || Number(type.default_rate) }
+    }))
+  }
+
   const resetForm = () => {
     setFormData({
       worker_id: '',
@@ -498,24 +598,29 @@ export function DailyPluckingManager() {
     resetForm()
   }
 
+  const visibleRecords = useMemo(() =>
+    withQueuedSaves(records, offline.queued, selectedDate, workers, t),
+    [records, offline.queued, selectedDate, workers, t]
+  )
+
   const filteredRecords = useMemo(() =>
-    records.filter(record =>
+    visibleRecords.filter(record =>
       record.worker_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       record.employee_id.toLowerCase().includes(searchTerm.toLowerCase())
-    ), [records, searchTerm]
+    ), [visibleRecords, searchTerm]
   )
 
   const stats = useMemo(() => {
-    const totalKg = records.filter(r => !r.is_advance).reduce((sum, r) => sum + r.kg_plucked, 0)
+    const totalKg = visibleRecords.filter(r => !r.is_advance).reduce((sum, r) => sum + r.kg_plucked, 0)
     // Paid = advances given (absolute value)
-    const totalPaid = records.filter(r => r.is_advance).reduce((sum, r) => sum + Math.abs(r.daily_salary), 0)
+    const totalPaid = visibleRecords.filter(r => r.is_advance).reduce((sum, r) => sum + Math.abs(r.daily_salary), 0)
     // Work earnings = plucking + extra work (no advances)
-    const workEarnings = records.filter(r => !r.is_advance).reduce((sum, r) => sum + Math.abs(r.daily_salary), 0)
+    const workEarnings = visibleRecords.filter(r => !r.is_advance).reduce((sum, r) => sum + Math.abs(r.daily_salary), 0)
     // To be paid = work earnings - advances already paid
     const totalToBePaid = workEarnings - totalPaid
 
     return { totalKg, totalPaid, totalToBePaid }
-  }, [records])
+  }, [visibleRecords])
 
   // Export functions
   const exportToCSV = () => {
@@ -551,7 +656,7 @@ export function DailyPluckingManager() {
     link.download = `daily-records-${selectedDate}.csv`
     link.click()
     URL.revokeObjectURL(url)
-    toast.success("Exported to CSV")
+    toast.success(t("common.exportedCsv"))
   }
 
   const exportToJSON = () => {
@@ -581,17 +686,17 @@ export function DailyPluckingManager() {
     link.download = `daily-records-${selectedDate}.json`
     link.click()
     URL.revokeObjectURL(url)
-    toast.success("Exported to JSON")
+    toast.success(t("common.exportedJson"))
   }
 
   const handlePrint = () => {
     const printContent = `
-      <html>
+      <html lang="${l.language}">
         <head>
-          <title>Daily Records - ${selectedDate}</title>
+          <title>${t('plucking.report.title', { date: formatDate(selectedDate) })}</title>
           <style>
             * { margin: 0; padding: 0; box-sizing: border-box; }
-            body { font-family: Arial, sans-serif; padding: 40px; color: #333; }
+            body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; padding: 40px; color: #333; }
             .header { margin-bottom: 30px; border-bottom: 2px solid #333; padding-bottom: 20px; }
             .header h1 { font-size: 24px; margin-bottom: 5px; }
             .header p { color: #666; font-size: 14px; }
@@ -612,25 +717,25 @@ export function DailyPluckingManager() {
         </head>
         <body>
           <div class="header">
-            <h1>Daily Records Report</h1>
-            <p>${format(new Date(selectedDate), 'MMMM d, yyyy')} • Generated on ${format(new Date(), 'MMM d, yyyy h:mm a')}</p>
+            <h1>${t('plucking.report.heading')}</h1>
+            <p>${formatDate(selectedDate, 'date')} • ${t('common.generatedOn', { date: formatDate(new Date(), 'dateTime') })}</p>
           </div>
           <table>
             <thead>
               <tr>
-                <th>Employee ID</th>
-                <th>Worker</th>
-                <th>Type</th>
-                <th class="number">Kg Plucked</th>
-                <th class="number">Rate/Kg</th>
-                <th class="number">Extra Work</th>
-                <th class="number">Total Wage</th>
+                <th>${t('common.employeeId')}</th>
+                <th>${t('common.worker')}</th>
+                <th>${t('plucking.import.type')}</th>
+                <th class="number">${t('common.kgPlucked')}</th>
+                <th class="number">${t('common.ratePerKg')}</th>
+                <th class="number">${t('plucking.bulk.extraWork')}</th>
+                <th class="number">${t('plucking.report.totalWage')}</th>
               </tr>
             </thead>
             <tbody>
               ${filteredRecords.map(record => {
                 const isAdvance = record.is_advance || false
-                const pluckingAmount = isAdvance ? 0 : record.kg_plucked * record.rate_per_kg
+                const pluckingAmount = isAdvance ? 0 : recordWage(record).plucking_wage
                 const extraWork = record.extra_work_payment || 0
                 const totalWage = isAdvance ? Math.abs(record.daily_salary) : pluckingAmount + extraWork
                 
@@ -638,7 +743,7 @@ export function DailyPluckingManager() {
                 let extraWorkDetails = ''
                 if (record.extra_work_items && record.extra_work_items.length > 0) {
                   extraWorkDetails = '<div class="extra-work-detail">' + 
-                    record.extra_work_items.map((w: any) => `${w.description}: ${formatCurrency(w.amount)}`).join(', ') +
+                    record.extra_work_items.map((w: any) => `${w.description}: ${money(w.amount)}`).join(', ') +
                     '</div>'
                 }
                 
@@ -646,22 +751,22 @@ export function DailyPluckingManager() {
                 <tr>
                   <td>${record.employee_id}</td>
                   <td>${record.worker_name}</td>
-                  <td>${isAdvance ? '<span class="advance">Advance</span>' : (extraWork > 0 ? 'Plucking + Work' : 'Plucking')}</td>
-                  <td class="number">${isAdvance ? '-' : record.kg_plucked.toFixed(1) + ' kg'}</td>
-                  <td class="number">${isAdvance ? '-' : formatCurrency(record.rate_per_kg)}</td>
-                  <td class="number">${extraWork > 0 ? formatCurrency(extraWork) + extraWorkDetails : '-'}</td>
-                  <td class="number" style="font-weight: 600;${isAdvance ? ' color: #dc2626;' : ''}">${formatCurrency(totalWage)}</td>
+                  <td>${isAdvance ? `<span class="advance">${t('common.advance')}</span>` : t(extraWork > 0 ? 'plucking.type.pluckingWork' : 'plucking.type.plucking')}</td>
+                  <td class="number">${isAdvance ? '-' : l.kg(record.kg_plucked)}</td>
+                  <td class="number">${isAdvance ? '-' : money(record.rate_per_kg)}</td>
+                  <td class="number">${extraWork > 0 ? money(extraWork) + extraWorkDetails : '-'}</td>
+                  <td class="number" style="font-weight: 600;${isAdvance ? ' color: #dc2626;' : ''}">${money(totalWage)}</td>
                 </tr>
               `}).join('')}
             </tbody>
           </table>
           <div class="summary">
-            <p><strong>Total Kg Plucked:</strong> ${stats.totalKg.toFixed(1)} kg</p>
-            <p><strong>Paid (Advances):</strong> ${formatCurrency(stats.totalPaid)}</p>
-            <p><strong>To Be Paid (Work):</strong> ${formatCurrency(stats.totalToBePaid)}</p>
+            <p><strong>${t('plucking.report.totalKg')}</strong> ${l.kg(stats.totalKg)}</p>
+            <p><strong>${t('plucking.report.paid')}</strong> ${money(stats.totalPaid)}</p>
+            <p><strong>${t('plucking.report.toBePaid')}</strong> ${money(stats.totalToBePaid)}</p>
           </div>
           <div class="footer">
-            <p>TeaOS - Tea Plantation Management System</p>
+            <p>TeaOS - ${t('common.appName')}</p>
           </div>
         </body>
       </html>
@@ -679,44 +784,43 @@ export function DailyPluckingManager() {
     if (formData.is_advance) {
       return -(parseFloat(formData.advance_amount) || 0)
     }
-    const kg = parseFloat(formData.kg_plucked) || 0
-    const rate = parseFloat(formData.rate_per_kg) || 0
     const extraWork = extraWorkItems.reduce((sum, item) => sum + item.amount, 0)
-    return (kg * rate) + extraWork
-  }, [formData.kg_plucked, formData.rate_per_kg, extraWorkItems, formData.is_advance, formData.advance_amount])
+    return formNormWage().plucking_wage + extraWork
+  }, [formData.kg_plucked, formData.rate_per_kg, formData.worker_id, extraWorkItems, formData.is_advance, formData.advance_amount, wageNorms, workers, selectedDate, dayHolidays, holidayRates])
 
   const columns: ColumnDef<PluckingRecord>[] = useMemo(() => [
     {
       accessorKey: "employee_id",
-      header: "ID",
+      header: t("common.id"),
       cell: ({ row }) => (
         <span className="font-mono text-xs text-muted-foreground">{row.getValue("employee_id")}</span>
       ),
     },
     {
       id: "worker",
-      header: "Worker",
+      header: t("common.worker"),
       cell: ({ row }) => (
         <span className="font-medium">{row.original.worker_name}</span>
       ),
     },
     {
       id: "type",
-      header: "Type",
-      cell: ({ row }) => {
-        const hasExtraWork = (row.original.extra_work_items?.length || 0) > 0
-        if (row.original.is_advance) {
-          return <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Advance</Badge>
-        }
-        if (hasExtraWork) {
-          return <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Plucking + Work</Badge>
-        }
-        return <Badge variant="outline" className="text-[10px] px-1.5 py-0">Plucking</Badge>
-      },
+      header: t("plucking.import.type"),
+      cell: ({ row }) => (
+        <div className="flex items-center gap-1">
+          {typeBadge(row.original, t)}
+          {row.original.sync_status === 'pending' && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-amber-600 border-amber-300">{t("plucking.pendingBadge")}</Badge>
+          )}
+          {row.original.sync_status === 'conflict' && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-destructive border-destructive/40">{t("plucking.conflictBadge")}</Badge>
+          )}
+        </div>
+      ),
     },
     {
       accessorKey: "kg_plucked",
-      header: "Kg Plucked",
+      header: t("common.kgPlucked"),
       cell: ({ row }) => {
         if (row.original.is_advance) {
           return <span className="text-muted-foreground">-</span>
@@ -724,28 +828,28 @@ export function DailyPluckingManager() {
         return (
           <div className="flex items-center gap-1.5">
             <Leaf className="h-3 w-3 text-muted-foreground" />
-            <span className="font-medium">{row.getValue<number>("kg_plucked").toFixed(1)} kg</span>
+            <span className="font-medium">{l.kg(row.getValue<number>("kg_plucked"))}</span>
           </div>
         )
       },
     },
     {
       accessorKey: "rate_per_kg",
-      header: "Rate",
+      header: t("plucking.import.rate"),
       cell: ({ row }) => {
         if (row.original.is_advance) {
           return <span className="text-muted-foreground">-</span>
         }
         return (
           <span className="text-sm text-muted-foreground">
-            {formatCurrency(row.getValue<number>("rate_per_kg"))}/kg
+            {t("teaSales.perKg", { amount: money(row.getValue<number>("rate_per_kg")) })}
           </span>
         )
       },
     },
     {
       accessorKey: "daily_salary",
-      header: "Amount",
+      header: t("common.amount"),
       cell: ({ row }) => {
         const isAdvance = row.original.is_advance
         const amount = row.getValue<number>("daily_salary")
@@ -760,11 +864,11 @@ export function DailyPluckingManager() {
                     onClick={() => setDetailsRecord(row.original)}
                   >
                     <MinusCircle className="h-3 w-3" />
-                    {formatCurrency(Math.abs(amount))}
+                    {money(Math.abs(amount))}
                   </span>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Advance payment (will be deducted from monthly salary)</p>
+                  <p>{t("plucking.advanceTooltip")}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -772,7 +876,7 @@ export function DailyPluckingManager() {
         }
         
         const extraWorkTotal = row.original.extra_work_items?.reduce((sum, item) => sum + item.amount, 0) || 0
-        const pluckingTotal = row.original.kg_plucked * row.original.rate_per_kg
+        const wageLines = describeNormWage(recordWage(row.original), row.original.kg_plucked, row.original.rate_per_kg, l)
         const hasExtraWork = extraWorkTotal > 0
 
         return (
@@ -783,20 +887,20 @@ export function DailyPluckingManager() {
                   className="font-semibold cursor-pointer hover:underline"
                   onClick={() => setDetailsRecord(row.original)}
                 >
-                  {formatCurrency(amount)}
+                  {money(amount)}
                   {hasExtraWork && <span className="text-xs text-muted-foreground ml-1">*</span>}
                 </span>
               </TooltipTrigger>
               <TooltipContent className="max-w-xs">
                 <div className="space-y-1">
-                  <p>{row.original.kg_plucked} kg × {formatCurrency(row.original.rate_per_kg)} = {formatCurrency(pluckingTotal)}</p>
+                  {wageLines.map(line => <p key={line}>{line}</p>)}
                   {hasExtraWork && (
                     <>
-                      <p className="text-xs font-semibold mt-2">Extra Work:</p>
+                      <p className="text-xs font-semibold mt-2">{t("plucking.extraWorkLabel")}</p>
                       {row.original.extra_work_items?.map((item, idx) => (
-                        <p key={idx} className="text-xs">• {item.description}: {formatCurrency(item.amount)}</p>
+                        <p key={idx} className="text-xs">• {item.description}: {money(item.amount)}</p>
                       ))}
-                      <p className="text-xs font-semibold mt-1">Total: {formatCurrency(amount)}</p>
+                      <p className="text-xs font-semibold mt-1">{t("plucking.totalLabel", { amount: money(amount) })}</p>
                     </>
                   )}
                 </div>
@@ -811,8 +915,41 @@ export function DailyPluckingManager() {
       header: "",
       cell: ({ row }) => {
         const record = row.original
+        // Queued records are settled by the sync, not edited in place
+        if (record.sync_status) {
+          return (
+            <div className="flex justify-end pr-2">
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    {record.sync_status === 'conflict' ? (
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive" onClick={() => setShowConflicts(true)}>
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                      </Button>
+                    ) : (
+                      <CloudOff className="h-3.5 w-3.5 text-muted-foreground" />
+                    )}
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {record.sync_status === 'conflict' ? t("plucking.reviewConflict") : t("plucking.waitingToSync")}
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            </div>
+          )
+        }
+        const signAction = <AdvanceSignatureAction record={record} onSign={() => setSigningAdvance(record)} />
+        if (dateLocked) {
+          return (
+            <div className="flex items-center gap-1 justify-end pr-2">
+              {signAction}
+              <Lock className="h-3.5 w-3.5 text-muted-foreground" />
+            </div>
+          )
+        }
         return (
           <div className="flex gap-1 justify-end">
+            {signAction}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -825,7 +962,7 @@ export function DailyPluckingManager() {
                     <Edit className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Edit record</TooltipContent>
+                <TooltipContent>{t("plucking.editTooltip")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
             <TooltipProvider>
@@ -840,14 +977,14 @@ export function DailyPluckingManager() {
                     <Trash2 className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Delete record</TooltipContent>
+                <TooltipContent>{t("plucking.deleteTooltip")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
         )
       },
     },
-  ], [handleEdit, handleDelete])
+  ], [dateLocked, handleEdit, handleDelete, l, t, money])
 
   const table = useDataTableInstance({
     data: filteredRecords,
@@ -859,7 +996,7 @@ export function DailyPluckingManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
@@ -868,7 +1005,7 @@ export function DailyPluckingManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading records...</span>
+        <span className="text-sm text-muted-foreground">{t("plucking.loading")}</span>
       </div>
     )
   }
@@ -878,33 +1015,65 @@ export function DailyPluckingManager() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Daily Records</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <h2 className="text-lg sm:text-xl font-semibold">{t("plucking.title")}</h2>
+            {!offline.online && (
+              <Badge variant="outline" className="gap-1">
+                <WifiOff className="h-3 w-3" />
+                {t("plucking.offline")}
+              </Badge>
+            )}
+            {pendingCount > 0 && (
+              <Button variant="outline" size="sm" className="h-7" onClick={offline.sync} disabled={!offline.online || offline.syncing}>
+                <RefreshCw className={cn("h-3.5 w-3.5 mr-1.5", offline.syncing && "animate-spin")} />
+                {t("plucking.pendingSync", { count: pendingCount })}
+              </Button>
+            )}
+            {conflicts.length > 0 && (
+              <Button variant="outline" size="sm" className="h-7 text-destructive" onClick={() => setShowConflicts(true)}>
+                <AlertTriangle className="h-3.5 w-3.5 mr-1.5" />
+                {t("plucking.toReview", { count: conflicts.length })}
+              </Button>
+            )}
+          </div>
           <div className="flex items-center gap-2">
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm">
                   <Download className="h-4 w-4 sm:mr-2" />
-                  <span className="hidden sm:inline">Export</span>
+                  <span className="hidden sm:inline">{t("common.export")}</span>
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={exportToCSV}>
                   <Download className="h-4 w-4 mr-2" />
-                  Export CSV
+                  {t("common.exportCsv")}
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={exportToJSON}>
                   <Download className="h-4 w-4 mr-2" />
-                  Export JSON
+                  {t("common.exportJson")}
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={handlePrint}>
                   <Printer className="h-4 w-4 mr-2" />
-                  Print
+                  {t("common.print")}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowImport(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {t("plucking.importFile")}
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
-            <Button onClick={() => setShowForm(true)} size="sm">
+            <Button variant="outline" onClick={() => setShowAttendance(true)} size="sm" disabled={dateLocked}>
+              <CalendarCheck className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("plucking.attendance")}</span>
+            </Button>
+            <Button variant="outline" onClick={() => setShowBulkEntry(true)} size="sm" disabled={dateLocked}>
+              <Table2 className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("plucking.bulk.title")}</span>
+            </Button>
+            <Button onClick={() => setShowForm(true)} size="sm" disabled={dateLocked}>
               <Plus className="h-4 w-4 sm:mr-2" />
-              <span className="hidden sm:inline">Add Record</span>
+              <span className="hidden sm:inline">{t("plucking.addRecord")}</span>
             </Button>
           </div>
         </div>
@@ -913,7 +1082,7 @@ export function DailyPluckingManager() {
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search workers..."
+              placeholder={t("plucking.search")}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10"
@@ -928,6 +1097,11 @@ export function DailyPluckingManager() {
               onChange={(e) => setSelectedDate(e.target.value)}
               className="w-auto h-9"
             />
+            {dayHolidays.map(holiday => (
+              <Badge key={holiday.id} variant="secondary" className="text-xs">
+                {holiday.name} · ×{holidayRates[holiday.holiday_type]}
+              </Badge>
+            ))}
           </div>
         </div>
       </div>
@@ -936,26 +1110,26 @@ export function DailyPluckingManager() {
       <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid gap-3 grid-cols-1 sm:grid-cols-3 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs">
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total Kg</span>
+            <span className="text-xs text-muted-foreground">{t("plucking.totalKg")}</span>
             <Leaf className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{stats.totalKg.toFixed(1)} kg</div>
+          <div className="text-lg font-bold mt-1">{l.kg(stats.totalKg)}</div>
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Paid (Advances)</span>
+            <span className="text-xs text-muted-foreground">{t("plucking.paidAdvances")}</span>
             <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{formatCurrency(stats.totalPaid)}</div>
+          <div className="text-lg font-bold mt-1">{money(stats.totalPaid)}</div>
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">To Be Paid</span>
+            <span className="text-xs text-muted-foreground">{t("plucking.toBePaid")}</span>
             <Banknote className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{formatCurrency(stats.totalToBePaid)}</div>
+          <div className="text-lg font-bold mt-1">{money(stats.totalToBePaid)}</div>
         </Card>
       </div>
 
@@ -963,11 +1137,12 @@ export function DailyPluckingManager() {
       <Card>
         <CardHeader className="pb-3">
           <CardTitle className="text-base">
-            Records for {format(new Date(selectedDate + 'T00:00:00'), 'MMMM dd, yyyy')}
+            {t("plucking.recordsFor", { date: formatDate(selectedDate) })}
           </CardTitle>
           <CardDescription className="text-xs">
-            {filteredRecords.length} {filteredRecords.length === 1 ? 'record' : 'records'}
-            {searchTerm && ` matching "${searchTerm}"`}
+            {t(filteredRecords.length === 1 ? "plucking.recordCountOne" : "plucking.recordCount", { count: filteredRecords.length })}
+            {searchTerm && t("plucking.matching", { search: searchTerm })}
+            {dateLocked && t("plucking.readOnly")}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -982,10 +1157,10 @@ export function DailyPluckingManager() {
         <div className="text-center py-12">
           <Leaf className="h-12 w-12 mx-auto text-muted-foreground/30 mb-4" />
           <p className="text-muted-foreground">
-            {searchTerm ? `No records matching "${searchTerm}"` : 'No records for this date'}
+            {searchTerm ? t("plucking.noneMatching", { search: searchTerm }) : t("plucking.noneForDate")}
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            {searchTerm ? 'Try a different search term' : 'Add plucking records for workers'}
+            {searchTerm ? t("plucking.tryDifferentSearch") : t("plucking.addHint")}
           </p>
         </div>
       )}
@@ -993,16 +1168,16 @@ export function DailyPluckingManager() {
       {/* Add/Edit Record Form Modal */}
       {showForm && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
-          <Card className="w-full max-w-sm">
+          <Card className="w-full max-w-md">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">{editingRecord ? 'Edit Record' : 'Add Record'}</CardTitle>
+                <CardTitle className="text-base">{editingRecord ? t("plucking.editRecord") : t("plucking.addRecord")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleCloseForm}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
               <CardDescription className="text-xs">
-                Date: {format(new Date(selectedDate + 'T00:00:00'), 'MMM dd, yyyy')}
+                {t("plucking.form.date", { date: formatDate(selectedDate) })}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -1017,7 +1192,7 @@ export function DailyPluckingManager() {
                     onClick={() => setFormData({ ...formData, is_advance: false })}
                   >
                     <Leaf className="h-3.5 w-3.5 mr-1.5" />
-                    Plucking
+                    {t("plucking.type.plucking")}
                   </Button>
                   <Button
                     type="button"
@@ -1027,22 +1202,22 @@ export function DailyPluckingManager() {
                     onClick={() => setFormData({ ...formData, is_advance: true })}
                   >
                     <Banknote className="h-3.5 w-3.5 mr-1.5" />
-                    Advance
+                    {t("common.advance")}
                   </Button>
                 </div>
 
                 <div className="space-y-1.5">
-                  <Label htmlFor="worker_id" className="text-xs">Worker *</Label>
+                  <Label htmlFor="worker_id" className="text-xs">{t("plucking.form.worker")}</Label>
                   <Select
                     value={formData.worker_id}
                     onValueChange={(value) => setFormData({ ...formData, worker_id: value })}
                     required
                   >
                     <SelectTrigger className="h-8">
-                      <SelectValue placeholder="Select worker" />
+                      <SelectValue placeholder={t("plucking.form.selectWorker")} />
                     </SelectTrigger>
                     <SelectContent position="popper" className="max-h-[200px]">
-                      {workers.map((worker) => (
+                      {workers.filter(worker => worker.status !== 'terminated' || worker.id === formData.worker_id).map((worker) => (
                         <SelectItem key={worker.id} value={worker.id}>
                           {worker.first_name}{worker.last_name ? ` ${worker.last_name}` : ''} ({worker.employee_id})
                         </SelectItem>
@@ -1055,7 +1230,7 @@ export function DailyPluckingManager() {
                   /* Advance Payment Fields */
                   <>
                     <div className="space-y-1.5">
-                      <Label htmlFor="advance_amount" className="text-xs">Advance Amount (රු) *</Label>
+                      <Label htmlFor="advance_amount" className="text-xs">{t("plucking.form.advanceAmount")}</Label>
                       <Input
                         id="advance_amount"
                         type="number"
@@ -1063,7 +1238,7 @@ export function DailyPluckingManager() {
                         min="0"
                         value={formData.advance_amount}
                         onChange={(e) => setFormData({ ...formData, advance_amount: e.target.value })}
-                        placeholder="e.g., 5000"
+                        placeholder={t("plucking.form.advancePlaceholder")}
                         required
                         className="h-8"
                       />
@@ -1072,11 +1247,11 @@ export function DailyPluckingManager() {
                     {/* Advance Preview */}
                     <div className="rounded-md bg-muted/50 border p-3">
                       <div className="flex justify-between font-medium">
-                        <span className="text-sm text-muted-foreground">Advance Payment</span>
-                        <span>{formatCurrency(Math.abs(salaryPreview))}</span>
+                        <span className="text-sm text-muted-foreground">{t("plucking.form.advancePayment")}</span>
+                        <span>{money(Math.abs(salaryPreview))}</span>
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
-                        Will be deducted from monthly salary
+                        {t("plucking.form.deductedMonthly")}
                       </p>
                     </div>
                   </>
@@ -1085,7 +1260,7 @@ export function DailyPluckingManager() {
                   <>
                     <div className="grid grid-cols-2 gap-3">
                       <div className="space-y-1.5">
-                        <Label htmlFor="kg_plucked" className="text-xs">Kg Plucked *</Label>
+                        <Label htmlFor="kg_plucked" className="text-xs">{t("plucking.form.kgPlucked")}</Label>
                         <Input
                           id="kg_plucked"
                           type="number"
@@ -1093,14 +1268,14 @@ export function DailyPluckingManager() {
                           min="0"
                           value={formData.kg_plucked}
                           onChange={(e) => setFormData({ ...formData, kg_plucked: e.target.value })}
-                          placeholder="e.g., 15.5"
+                          placeholder={t("plucking.form.kgPlaceholder")}
                           required
                           className="h-8"
                         />
                       </div>
 
                       <div className="space-y-1.5">
-                        <Label htmlFor="rate_per_kg" className="text-xs">Rate/kg (රු) *</Label>
+                        <Label htmlFor="rate_per_kg" className="text-xs">{t("plucking.form.rate")}</Label>
                         <Input
                           id="rate_per_kg"
                           type="number"
@@ -1108,7 +1283,7 @@ export function DailyPluckingManager() {
                           min="0"
                           value={formData.rate_per_kg}
                           onChange={(e) => setFormData({ ...formData, rate_per_kg: e.target.value })}
-                          placeholder="e.g., 150"
+                          placeholder={t("plucking.form.ratePlaceholder")}
                           required
                           className="h-8"
                         />
@@ -1118,25 +1293,41 @@ export function DailyPluckingManager() {
                     {/* Extra Work Items */}
                     <div className="space-y-2">
                       <div className="flex items-center justify-between">
-                        <Label className="text-xs">Extra Work</Label>
+                        <Label className="text-xs">{t("plucking.bulk.extraWork")}</Label>
                         <Button
                           type="button"
                           variant="outline"
                           size="sm"
                           className="h-6 text-xs"
-                          onClick={() => setExtraWorkItems([...extraWorkItems, { description: '', amount: 0 }])}
+                          onClick={() => setExtraWorkItems([...extraWorkItems, { extra_work_type_id: null, description: '', amount: 0 }])}
                         >
                           <Plus className="h-3 w-3 mr-1" />
-                          Add Work
+                          {t("plucking.form.addWork")}
                         </Button>
                       </div>
                       
                       {extraWorkItems.map((item, index) => (
                         <div key={index} className="flex gap-2 items-start">
+                          <div className="w-32">
+                            <Select
+                              value={item.extra_work_type_id ?? 'custom'}
+                              onValueChange={(value) => applyExtraWorkType(index, value)}
+                            >
+                              <SelectTrigger className="h-8 text-xs">
+                                <SelectValue placeholder={t("plucking.form.workType")} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="custom">{t("plucking.form.otherWork")}</SelectItem>
+                                {extraWorkTypes.map(type => (
+                                  <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
                           <div className="flex-1 space-y-1">
                             <Input
                               type="text"
-                              placeholder="e.g., Weeding"
+                              placeholder={t("plucking.bulk.placeholder.description")}
                               value={item.description}
                               onChange={(e) => {
                                 const newItems = [...extraWorkItems]
@@ -1151,7 +1342,7 @@ export function DailyPluckingManager() {
                               type="number"
                               step="1"
                               min="0"
-                              placeholder="රු"
+                              placeholder={t("plucking.bulk.placeholder.amount")}
                               value={item.amount || ''}
                               onChange={(e) => {
                                 const newItems = [...extraWorkItems]
@@ -1179,21 +1370,21 @@ export function DailyPluckingManager() {
                     {/* Salary Preview */}
                     <div className="rounded-md bg-muted/50 border p-3">
                       <div className="flex justify-between font-medium">
-                        <span className="text-sm text-muted-foreground">Daily Salary</span>
-                        <span>{formatCurrency(salaryPreview)}</span>
+                        <span className="text-sm text-muted-foreground">{t("plucking.form.dailySalary")}</span>
+                        <span>{money(salaryPreview)}</span>
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
-                        {formData.kg_plucked || '0'} kg × {formatCurrency(parseFloat(formData.rate_per_kg) || 0)}/kg
+                        {describeNormWage(formNormWage(), parseFloat(formData.kg_plucked) || 0, parseFloat(formData.rate_per_kg) || 0, l).join(' · ')}
                         {extraWorkItems.length > 0 && (
-                          <> + {formatCurrency(extraWorkItems.reduce((sum, item) => sum + item.amount, 0))} extra</>
+                          <>{t("plucking.form.extra", { amount: money(extraWorkItems.reduce((sum, item) => sum + item.amount, 0)) })}</>
                         )}
                       </p>
                       {extraWorkItems.length > 0 && (
                         <div className="mt-2 pt-2 border-t space-y-0.5">
                           {extraWorkItems.map((item, index) => (
                             <div key={index} className="flex justify-between text-xs">
-                              <span className="text-muted-foreground truncate mr-2">{item.description || 'Work'}</span>
-                              <span>{formatCurrency(item.amount)}</span>
+                              <span className="text-muted-foreground truncate mr-2">{item.description || t("plucking.form.work")}</span>
+                              <span>{money(item.amount)}</span>
                             </div>
                           ))}
                         </div>
@@ -1203,23 +1394,23 @@ export function DailyPluckingManager() {
                 )}
 
                 <div className="space-y-1.5">
-                  <Label htmlFor="notes" className="text-xs">Notes</Label>
+                  <Label htmlFor="notes" className="text-xs">{t("common.notes")}</Label>
                   <Input
                     id="notes"
                     value={formData.notes}
                     onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                    placeholder="Optional notes..."
+                    placeholder={t("plucking.form.notesPlaceholder")}
                     className="h-8"
                   />
                 </div>
 
                 <div className="flex gap-2 justify-end pt-2">
                   <Button type="button" variant="outline" size="sm" onClick={handleCloseForm}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={formLoading}>
                     {formLoading && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
-                    {editingRecord ? 'Update' : 'Add'}
+                    {editingRecord ? t("plucking.form.update") : t("plucking.form.add")}
                   </Button>
                 </div>
               </form>
@@ -1228,59 +1419,120 @@ export function DailyPluckingManager() {
         </div>
       )}
 
+      {/* Bulk Entry Grid */}
+      {showBulkEntry && (
+        <BulkEntryGrid
+          orgId={orgId}
+          selectedDate={selectedDate}
+          defaultRate={formData.rate_per_kg}
+          onClose={() => setShowBulkEntry(false)}
+          onSaved={fetchRecords}
+        />
+      )}
+
+      {/* Import Wizard */}
+      {showImport && (
+        <ImportWizard
+          orgId={orgId}
+          onClose={() => setShowImport(false)}
+          onImported={fetchRecords}
+        />
+      )}
+
+      {/* Advance Signature */}
+      {signingAdvance && (
+        <SignatureDialog
+          orgId={orgId}
+          table="daily_plucking"
+          recordId={signingAdvance.id}
+          title={t("plucking.receiptTitle", { name: signingAdvance.worker_name })}
+          description={t("plucking.receiptDescription", { amount: money(Math.abs(signingAdvance.daily_salary)) })}
+          onClose={() => setSigningAdvance(null)}
+          onSaved={() => {
+            setSigningAdvance(null)
+            fetchRecords()
+          }}
+        />
+      )}
+
+      {/* Attendance Register */}
+      {showAttendance && orgId && (
+        <AttendanceRegisterDialog orgId={orgId} date={selectedDate} onClose={() => setShowAttendance(false)} />
+      )}
+
       {/* Amount Details Dialog */}
+      {showConflicts && (
+        <SyncConflictDialog
+          orgId={orgId}
+          conflicts={conflicts}
+          workerName={workerId => workerLabel(workers.find(w => w.id === workerId), t)}
+          onClose={() => setShowConflicts(false)}
+          onResolved={() => {
+            offline.reload()
+            fetchRecords()
+          }}
+        />
+      )}
+
       {detailsRecord && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
           <Card className="w-full max-w-md">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">Payment Details</CardTitle>
+                <CardTitle className="text-base">{t("plucking.details.title")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setDetailsRecord(null)}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
               <CardDescription className="text-xs">
-                {detailsRecord.worker_name} • {format(new Date(detailsRecord.date + 'T00:00:00'), 'MMM dd, yyyy')}
+                {detailsRecord.worker_name} • {formatDate(detailsRecord.date)}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
               {detailsRecord.is_advance ? (
                 <div className="rounded-md bg-muted/50 border p-3">
                   <div className="mb-2">
-                    <span className="font-semibold text-sm">Advance Payment</span>
+                    <span className="font-semibold text-sm">{t("plucking.form.advancePayment")}</span>
                   </div>
                   <div className="flex justify-between items-center">
-                    <span className="text-sm text-muted-foreground">Amount:</span>
-                    <span className="text-lg font-bold">{formatCurrency(Math.abs(detailsRecord.daily_salary))}</span>
+                    <span className="text-sm text-muted-foreground">{t("plucking.details.amount")}</span>
+                    <span className="text-lg font-bold">{money(Math.abs(detailsRecord.daily_salary))}</span>
                   </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    This advance will be deducted from the worker's monthly salary
+                    {t("plucking.details.advanceNote")}
                   </p>
                 </div>
               ) : (
                 <>
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Kg Plucked:</span>
-                      <span className="font-medium">{detailsRecord.kg_plucked.toFixed(1)} kg</span>
+                      <span className="text-muted-foreground">{t("plucking.details.kgPlucked")}</span>
+                      <span className="font-medium">{l.kg(detailsRecord.kg_plucked)}</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Rate per kg:</span>
-                      <span className="font-medium">{formatCurrency(detailsRecord.rate_per_kg)}</span>
+                      <span className="text-muted-foreground">{t("plucking.details.rate")}</span>
+                      <span className="font-medium">{money(detailsRecord.rate_per_kg)}</span>
                     </div>
+                    {(recordWage(detailsRecord).norm_kg !== null || recordWage(detailsRecord).holiday_pay > 0) && (
+                      <div className="space-y-0.5 text-xs text-muted-foreground">
+                        {describeNormWage(recordWage(detailsRecord), detailsRecord.kg_plucked, detailsRecord.rate_per_kg, l).map(line => (
+                          <p key={line}>{line}</p>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm font-medium border-t pt-2">
-                      <span>Plucking Amount:</span>
-                      <span>{formatCurrency(detailsRecord.kg_plucked * detailsRecord.rate_per_kg)}</span>
+                      <span>{t("plucking.details.pluckingAmount")}</span>
+                      <span>{money(recordWage(detailsRecord).plucking_wage)}</span>
                     </div>
                   </div>
                   
                   {detailsRecord.extra_work_items && detailsRecord.extra_work_items.length > 0 && (
                     <div className="border-t pt-3 space-y-2">
-                      <p className="text-sm font-semibold">Extra Work:</p>
+                      <p className="text-sm font-semibold">{t("plucking.extraWorkLabel")}</p>
                       {detailsRecord.extra_work_items.map((item, idx) => (
                         <div key={idx} className="flex justify-between text-sm">
                           <span className="text-muted-foreground">• {item.description}</span>
-                          <span className="font-medium">{formatCurrency(item.amount)}</span>
+                          <span className="font-medium">{money(item.amount)}</span>
                         </div>
                       ))}
                     </div>
@@ -1288,8 +1540,8 @@ export function DailyPluckingManager() {
                   
                   <div className="rounded-md bg-muted/50 border p-3">
                     <div className="flex justify-between items-center">
-                      <span className="font-semibold">Total Amount:</span>
-                      <span className="text-lg font-bold">{formatCurrency(Math.abs(detailsRecord.daily_salary))}</span>
+                      <span className="font-semibold">{t("plucking.details.totalAmount")}</span>
+                      <span className="text-lg font-bold">{money(Math.abs(detailsRecord.daily_salary))}</span>
                     </div>
                   </div>
                 </>
@@ -1297,7 +1549,7 @@ export function DailyPluckingManager() {
               
               <div className="flex justify-end pt-2">
                 <Button size="sm" onClick={() => setDetailsRecord(null)}>
-                  Close
+                  {t("common.close")}
                 </Button>
               </div>
             </CardContent>
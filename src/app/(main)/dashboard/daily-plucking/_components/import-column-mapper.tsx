@@ -0,0 +1,58 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+
+import { ColumnMapping, DATE_FORMATS, DateFormat, IMPORT_FIELDS } from "./import-utils"
+
+interface ImportColumnMapperProps {
+  headers: string[]
+  mapping: ColumnMapping
+  dateFormat: DateFormat
+  onMappingChange: (mapping: ColumnMapping) => void
+  onDateFormatChange: (dateFormat: DateFormat) => void
+}
+
+export function ImportColumnMapper({ headers, mapping, dateFormat, onMappingChange, onDateFormatChange }: ImportColumnMapperProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 overflow-auto">
+      {IMPORT_FIELDS.map(field => (
+        <div key={field.key} className="space-y-1.5">
+          <Label className="text-xs">{t(field.label)}{field.required && ' *'}</Label>
+          <Select
+            value={String(mapping[field.key])}
+            onValueChange={(value) => onMappingChange({ ...mapping, [field.key]: Number(value) })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent position="popper" className="max-h-[200px]">
+              <SelectItem value="-1">{t("plucking.import.notInFile")}</SelectItem>
+              {headers.map((header, index) => (
+                <SelectItem key={`${index}-${header}`} value={String(index)}>
+                  {header || t("plucking.import.column", { number: index + 1 })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      <div className="space-y-1.5">
+        <Label className="text-xs">{t("plucking.import.dateFormat")}</Label>
+        <Select value={dateFormat} onValueChange={(value) => onDateFormatChange(value as DateFormat)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent position="popper">
+            {DATE_FORMATS.map(f => (
+              <SelectItem key={f} value={f}>{f}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+"use client"
+
+import { useMemo, useState } from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useTranslation } from "@/hooks/use-translation"
+
+import { ImportPreviewRow, ImportRowStatus } from "./import-utils"
+
+interface ImportPreviewTableProps {
+  rows: ImportPreviewRow[]
+}
+
+const STATUS_ORDER: ImportRowStatus[] = ['ready', 'unknown_worker', 'duplicate_in_file', 'already_exists', 'invalid']
+
+const ONE_DECIMAL = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
+
+export function ImportPreviewTable({ rows }: ImportPreviewTableProps) {
+  const { t, number, money } = useTranslation()
+  const [problemsOnly, setProblemsOnly] = useState(false)
+
+  const counts = useMemo(() => {
+    const result = new Map<ImportRowStatus, number>()
+    rows.forEach(row => result.set(row.status, (result.get(row.status) ?? 0) + 1))
+    return result
+  }, [rows])
+
+  const visibleRows = problemsOnly ? rows.filter(row => row.status !== 'ready') : rows
+
+  return (
+    <div className="flex-1 overflow-hidden flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {STATUS_ORDER.filter(status => counts.get(status)).map(status => (
+          <Badge key={status} variant={status === 'ready' ? 'secondary' : 'destructive'} className="text-xs">
+            {t(`plucking.import.status.${status}`)}: {counts.get(status)}
+          </Badge>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs ml-auto"
+          onClick={() => setProblemsOnly(!problemsOnly)}
+        >
+          {problemsOnly ? t("plucking.import.showAll") : t("plucking.import.showProblems")}
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted sticky top-0">
+            <tr className="text-left">
+              <th className="p-2 font-medium">{t("plucking.import.line")}</th>
+              <th className="p-2 font-medium">{t("plucking.import.employee")}</th>
+              <th className="p-2 font-medium">{t("common.date")}</th>
+              <th className="p-2 font-medium">{t("plucking.import.type")}</th>
+              <th className="p-2 font-medium text-right">{t("plucking.import.kg")}</th>
+              <th className="p-2 font-medium text-right">{t("plucking.import.rate")}</th>
+              <th className="p-2 font-medium text-right">{t("common.amount")}</th>
+              <th className="p-2 font-medium">{t("common.status")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr key={row.line} className={`border-t ${row.status === 'ready' ? '' : 'bg-destructive/5'}`}>
+                <td className="p-2 text-muted-foreground">{row.line}</td>
+                <td className="p-2">
+                  <span className="font-mono">{row.employee_id || '-'}</span>
+                  {row.worker_name && <span className="ml-1.5 text-muted-foreground">{row.worker_name}</span>}
+                </td>
+                <td className="p-2">{row.date || '-'}</td>
+                <td className="p-2">{row.is_advance ? t("common.advance") : t("plucking.import.plucking")}</td>
+                <td className="p-2 text-right">{row.is_advance ? '-' : number(row.kg_plucked, ONE_DECIMAL)}</td>
+                <td className="p-2 text-right">{row.is_advance ? '-' : money(row.rate_per_kg)}</td>
+                <td className="p-2 text-right font-medium">
+                  {money(row.is_advance ? row.advance_amount : row.norm_wage.plucking_wage)}
+                </td>
+                <td className="p-2">
+                  {row.status === 'ready' ? (
+                    <span className="text-muted-foreground">{t("plucking.import.status.ready")}</span>
+                  ) : (
+                    <span className="text-destructive" title={row.message}>{row.message}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
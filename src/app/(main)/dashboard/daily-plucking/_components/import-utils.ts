@@ -0,0 +1,206 @@
+// Column mapping, validation and preview logic for the daily plucking import wizard
+
+import { isValid, parse } from "date-fns"
+
+import type { MessageKey, Translate } from "@/lib/i18n"
+import { isMonthClosed } from "@/lib/payroll-runs"
+import { DEFAULT_WAGE_NORMS, NormWage, WageNormSettings, calculateNormWage, normColumns, normFor } from "@/lib/wage-norms"
+
+export type ImportField = 'employee_id' | 'date' | 'kg_plucked' | 'rate_per_kg' | 'is_advance' | 'advance_amount' | 'notes'
+
+export const IMPORT_FIELDS: { key: ImportField; label: MessageKey; required: boolean; aliases: string[] }[] = [
+  { key: 'employee_id', label: 'common.employeeId', required: true, aliases: ['employee id', 'employee_id', 'emp id', 'emp no', 'id'] },
+  { key: 'date', label: 'common.date', required: true, aliases: ['date', 'day'] },
+  { key: 'kg_plucked', label: 'common.kgPlucked', required: false, aliases: ['kg', 'kg plucked', 'kg_plucked', 'weight'] },
+  { key: 'rate_per_kg', label: 'common.ratePerKg', required: false, aliases: ['rate', 'rate/kg', 'rate_per_kg', 'rate per kg'] },
+  { key: 'is_advance', label: 'plucking.import.field.advanceFlag', required: false, aliases: ['advance', 'is_advance', 'type'] },
+  { key: 'advance_amount', label: 'plucking.import.field.advanceAmount', required: false, aliases: ['advance amount', 'advance_amount', 'amount'] },
+  { key: 'notes', label: 'common.notes', required: false, aliases: ['notes', 'note', 'remarks'] },
+]
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy'] as const
+export type DateFormat = typeof DATE_FORMATS[number]
+
+// Column index per field, -1 when not mapped
+export type ColumnMapping = Record<ImportField, number>
+
+export type ImportCell = string | number | boolean | Date | null
+
+export type ImportRowStatus = 'ready' | 'unknown_worker' | 'duplicate_in_file' | 'already_exists' | 'invalid'
+
+export interface ImportWorker {
+  id: string
+  employee_id: string
+  first_name: string
+  last_name: string | null
+  plantation_id: string | null
+  termination_date: string | null
+}
+
+export interface ImportPreviewRow {
+  line: number
+  employee_id: string
+  worker_id: string | null
+  worker_name: string
+  date: string
+  kg_plucked: number
+  rate_per_kg: number
+  is_advance: boolean
+  advance_amount: number
+  notes: string
+  // Plucking pay under the norm for the worker's plantation, once the worker is known
+  norm_wage: NormWage
+  status: ImportRowStatus
+  message: string
+}
+
+function normaliseHeader(header: string) {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalised = headers.map(normaliseHeader)
+  const mapping = {} as ColumnMapping
+  IMPORT_FIELDS.forEach(field => {
+    mapping[field.key] = normalised.findIndex(h => field.aliases.includes(h))
+  })
+  return mapping
+}
+
+function cellText(cell: ImportCell | undefined): string {
+  if (cell === null || cell === undefined) return ''
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10)
+  return String(cell).trim()
+}
+
+export function parseImportDate(cell: ImportCell | undefined, dateFormat: DateFormat): string | null {
+  // XLSX date cells arrive as Date objects (UTC midnight)
+  if (cell instanceof Date) return Number.isNaN(cell.getTime()) ? null : cell.toISOString().slice(0, 10)
+
+  const text = cellText(cell)
+  if (!text) return null
+
+  const parsed = parse(text, dateFormat, new Date())
+  if (!isValid(parsed)) return null
+
+  const y = parsed.getFullYear()
+  const m = String(parsed.getMonth() + 1).padStart(2, '0')
+  const d = String(parsed.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+function parseFlag(cell: ImportCell | undefined): boolean {
+  if (typeof cell === 'boolean') return cell
+  return ['yes', 'y', 'true', '1', 'advance'].includes(cellText(cell).toLowerCase())
+}
+
+function parseAmount(cell: ImportCell | undefined): number {
+  if (typeof cell === 'number') return cell
+  const text = cellText(cell).replace(/,/g, '')
+  return text ? Number(text) : 0
+}
+
+export function recordKey(workerId: string, date: string, isAdvance: boolean) {
+  return `${workerId}|${date}|${isAdvance ? 'advance' : 'plucking'}`
+}
+
+function validateValues(row: ImportPreviewRow, rawDate: string, t: Translate): string | null {
+  if (!row.date) return rawDate ? t('plucking.import.error.badDate', { value: rawDate }) : t('plucking.import.error.noDate')
+  if ([row.kg_plucked, row.rate_per_kg, row.advance_amount].some(n => Number.isNaN(n) || n < 0)) {
+    return t('plucking.import.error.negative')
+  }
+  if (row.is_advance) return row.advance_amount > 0 ? null : t('plucking.import.error.noAdvance')
+  if (row.kg_plucked <= 0) return t('plucking.import.error.noKg')
+  if (row.rate_per_kg <= 0) return t('plucking.import.error.noRate')
+  return null
+}
+
+function readRow(cells: ImportCell[], mapping: ColumnMapping, dateFormat: DateFormat, line: number): ImportPreviewRow {
+  const get = (field: ImportField) => mapping[field] >= 0 ? cells[mapping[field]] : undefined
+  const isAdvance = parseFlag(get('is_advance'))
+  const kg = isAdvance ? 0 : parseAmount(get('kg_plucked'))
+  const rate = isAdvance ? 0 : parseAmount(get('rate_per_kg'))
+
+  return {
+    line,
+    employee_id: cellText(get('employee_id')),
+    worker_id: null,
+    worker_name: '',
+    date: parseImportDate(get('date'), dateFormat) ?? '',
+    kg_plucked: kg,
+    rate_per_kg: rate,
+    is_advance: isAdvance,
+    advance_amount: isAdvance ? parseAmount(get('advance_amount')) : 0,
+    notes: cellText(get('notes')),
+    norm_wage: calculateNormWage(kg, rate, null),
+    status: 'ready',
+    message: '',
+  }
+}
+
+// Plucking pay under the worker's norm on the row's date, at that date's holiday rate
+function previewNormWage(row: ImportPreviewRow, worker: ImportWorker, norms: WageNormSettings, holidayRateOn: (date: string) => number) {
+  if (!row.date) return row.norm_wage
+  return calculateNormWage(row.kg_plucked, row.rate_per_kg, normFor(norms, row.date, worker.plantation_id), holidayRateOn(row.date))
+}
+
+export function buildPreview(
+  dataRows: ImportCell[][],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat,
+  workers: ImportWorker[],
+  existingKeys: Set<string>,
+  t: Translate,
+  closedMonths: Set<string> = new Set(),
+  norms: WageNormSettings = DEFAULT_WAGE_NORMS,
+  holidayRateOn: (date: string) => number = () => 1
+): ImportPreviewRow[] {
+  const workersByEmployeeId = new Map(workers.map(w => [w.employee_id.trim().toLowerCase(), w]))
+  const seen = new Set<string>()
+
+  // Header is line 1 in the source file
+  return dataRows.map((cells, index) => {
+    const row = readRow(cells, mapping, dateFormat, index + 2)
+    const worker = workersByEmployeeId.get(row.employee_id.toLowerCase())
+    const invalid = validateValues(row, cellText(cells[mapping.date]), t)
+
+    if (!worker) return { ...row, status: 'unknown_worker', message: t('plucking.import.error.unknownWorker', { id: row.employee_id }) }
+
+    const named = {
+      ...row,
+      worker_id: worker.id,
+      worker_name: `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}`,
+      norm_wage: previewNormWage(row, worker, norms, holidayRateOn),
+    }
+    if (invalid) return { ...named, status: 'invalid', message: invalid }
+    if (isMonthClosed(closedMonths, row.date)) return { ...named, status: 'invalid', message: t('plucking.import.error.monthClosed') }
+    if (worker.termination_date && row.date > worker.termination_date) {
+      return { ...named, status: 'invalid', message: t('plucking.import.error.workerLeft', { date: worker.termination_date }) }
+    }
+
+    const key = recordKey(worker.id, row.date, row.is_advance)
+    if (existingKeys.has(key)) return { ...named, status: 'already_exists', message: t('plucking.import.error.exists') }
+    if (seen.has(key)) return { ...named, status: 'duplicate_in_file', message: t('plucking.import.error.duplicate') }
+
+    seen.add(key)
+    return named
+  })
+}
+
+export function buildImportInsert(row: ImportPreviewRow, orgId: string) {
+  const wage = row.is_advance ? -Math.abs(row.advance_amount) : row.norm_wage.plucking_wage
+
+  return {
+    worker_id: row.worker_id,
+    date: row.date,
+    kg_plucked: row.kg_plucked,
+    rate_per_kg: row.rate_per_kg,
+    wage_earned: wage,
+    total_income: wage,
+    extra_work_payment: 0,
+    ...normColumns(row.norm_wage),
+    is_advance: row.is_advance,
+    notes: row.notes || null,
+    organization_id: orgId
+  }
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useState } from "react"
+
+import { X, Loader2, Upload, ArrowLeft, ArrowRight, FileSpreadsheet } from "lucide-react"
+import readXlsxFile from "read-excel-file"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { useTranslation } from "@/hooks/use-translation"
+import { parseCSV } from "@/lib/csv"
+import { fetchHolidays, holidayRate, readHolidayRates } from "@/lib/holidays"
+import type { Translate } from "@/lib/i18n"
+import { fetchOrgSettings } from "@/lib/org-settings"
+import { fetchClosedMonths } from "@/lib/payroll-runs"
+import { fetchAllRows, supabase } from "@/lib/supabase"
+import { readWageNorms } from "@/lib/wage-norms"
+
+import { ImportColumnMapper } from "./import-column-mapper"
+import { ImportPreviewTable } from "./import-preview-table"
+import {
+  ColumnMapping,
+  DateFormat,
+  IMPORT_FIELDS,
+  ImportCell,
+  ImportPreviewRow,
+  ImportWorker,
+  buildImportInsert,
+  buildPreview,
+  guessMapping,
+  parseImportDate,
+  recordKey,
+} from "./import-utils"
+
+interface ImportWizardProps {
+  orgId: string
+  onClose: () => void
+  onImported: () => void
+}
+
+type WizardStep = 'upload' | 'map' | 'preview'
+
+const INSERT_CHUNK_SIZE = 500
+
+async function readSpreadsheet(file: File): Promise<ImportCell[][]> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    const rows = await readXlsxFile(file)
+    return rows as ImportCell[][]
+  }
+  return parseCSV(await file.text())
+}
+
+function describeStep(step: WizardStep, fileName: string, readyCount: number, totalCount: number, t: Translate) {
+  if (step === 'upload') return t('plucking.import.stepUpload')
+  if (step === 'map') return t('plucking.import.stepMap', { file: fileName })
+  return t('plucking.import.stepPreview', { ready: readyCount, total: totalCount })
+}
+
+function ImportFilePicker({ working, onChange }: { working: boolean; onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }) {
+  const { t } = useTranslation()
+
+  return (
+    <label className="flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-10 cursor-pointer hover:bg-muted/50">
+      {working ? (
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      ) : (
+        <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+      )}
+      <span className="text-sm font-medium">{t("plucking.import.chooseFile")}</span>
+      <span className="text-xs text-muted-foreground">{t("plucking.import.columnsHint")}</span>
+      <Input type="file" accept=".csv,.xlsx" className="hidden" onChange={onChange} disabled={working} />
+    </label>
+  )
+}
+
+interface WizardFooterProps {
+  step: WizardStep
+  working: boolean
+  readyCount: number
+  onBack: () => void
+  onPreview: () => void
+  onImport: () => void
+}
+
+function WizardFooter({ step, working, readyCount, onBack, onPreview, onImport }: WizardFooterProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="flex justify-between gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={onBack}
+        disabled={step === 'upload' || working}
+      >
+        <ArrowLeft className="h-3.5 w-3.5 mr-1.5" />
+        {t("plucking.import.back")}
+      </Button>
+      {step === 'map' && (
+        <Button size="sm" onClick={onPreview} disabled={working}>
+          {working ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <ArrowRight className="h-3.5 w-3.5 mr-1.5" />}
+          {t("plucking.import.preview")}
+        </Button>
+      )}
+      {step === 'preview' && (
+        <Button size="sm" onClick={onImport} disabled={working || readyCount === 0}>
+          {working ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Upload className="h-3.5 w-3.5 mr-1.5" />}
+          {t("plucking.import.importRecords", { count: readyCount })}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function ImportWizard({ orgId, onClose, onImported }: ImportWizardProps) {
+  const { t } = useTranslation()
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<ImportCell[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [dateFormat, setDateFormat] = useState<DateFormat>('yyyy-MM-dd')
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([])
+  const [working, setWorking] = useState(false)
+
+  const readyRows = preview.filter(row => row.status === 'ready')
+
+  function handleBack() {
+    setStep(step === 'preview' ? 'map' : 'upload')
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setWorking(true)
+    try {
+      const rows = await readSpreadsheet(file)
+      if (rows.length < 2) {
+        toast.error(t("plucking.import.noRows"))
+        return
+      }
+      const headerRow = rows[0].map(cell => (cell === null ? '' : String(cell)))
+      setFileName(file.name)
+      setHeaders(headerRow)
+      setDataRows(rows.slice(1))
+      setMapping(guessMapping(headerRow))
+      setStep('map')
+    } catch (error: any) {
+      console.error('Error reading import file:', error)
+      toast.error(t("plucking.import.readFailed"))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function fetchExistingKeys(dates: string[]) {
+    const sorted = [...dates].sort()
+    const rows = await fetchAllRows<{ worker_id: string; date: string; is_advance: boolean }>((from, to) => supabase
+      .from('daily_plucking')
+      .select('worker_id, date, is_advance')
+      .eq('organization_id', orgId)
+      .gte('date', sorted[0])
+      .lte('date', sorted[sorted.length - 1])
+      .order('id')
+      .range(from, to))
+
+    return new Set(rows.map(r => recordKey(r.worker_id, r.date, r.is_advance)))
+  }
+
+  async function handleBuildPreview() {
+    if (!mapping) return
+    const missing = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] < 0)
+    if (missing.length > 0) {
+      toast.error(t("plucking.import.mapColumns", { fields: missing.map(f => t(f.label)).join(", ") }))
+      return
+    }
+
+    setWorking(true)
+    try {
+      // Historical books can reference workers who have since left, so include every status
+      const { data: workers, error } = await supabase
+        .from('workers')
+        .select('id, employee_id, first_name, last_name, plantation_id, termination_date')
+        .eq('organization_id', orgId)
+      if (error) throw error
+
+      const dates = dataRows
+        .map(cells => parseImportDate(cells[mapping.date], dateFormat))
+        .filter((date): date is string => !!date)
+      const existingKeys = dates.length > 0 ? await fetchExistingKeys(dates) : new Set<string>()
+      const closedMonths = await fetchClosedMonths(orgId).catch(() => new Set<string>())
+      const settings = await fetchOrgSettings(orgId).catch(() => ({}))
+      const holidays = await fetchHolidays(orgId).catch(() => [])
+      const holidayRates = readHolidayRates(settings)
+
+      setPreview(buildPreview(
+        dataRows, mapping, dateFormat, (workers ?? []) as ImportWorker[], existingKeys, t, closedMonths,
+        readWageNorms(settings), date => holidayRate(holidays, date, holidayRates)
+      ))
+      setStep('preview')
+    } catch (error: any) {
+      console.error('Error building import preview:', error)
+      toast.error(error.message ?? t("plucking.import.checkFailed"))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function handleImport() {
+    setWorking(true)
+    let imported = 0
+    try {
+      for (let i = 0; i < readyRows.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = readyRows.slice(i, i + INSERT_CHUNK_SIZE)
+        const { error } = await supabase
+          .from('daily_plucking')
+          .insert(chunk.map(row => buildImportInsert(row, orgId)))
+        if (error) throw error
+        imported += chunk.length
+      }
+      toast.success(t("plucking.import.imported", { count: imported }))
+      onImported()
+      onClose()
+    } catch (error: any) {
+      console.error('Error importing records:', error)
+      toast.error(t("plucking.import.partial", { imported, total: readyRows.length, error: error.message ?? t("plucking.import.failed") }))
+      if (imported > 0) onImported()
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("plucking.import.title")}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {describeStep(step, fileName, readyRows.length, preview.length, t)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden flex flex-col gap-4">
+          {step === 'upload' && <ImportFilePicker working={working} onChange={handleFile} />}
+
+          {step === 'map' && mapping && (
+            <ImportColumnMapper
+              headers={headers}
+              mapping={mapping}
+              dateFormat={dateFormat}
+              onMappingChange={setMapping}
+              onDateFormatChange={setDateFormat}
+            />
+          )}
+
+          {step === 'preview' && <ImportPreviewTable rows={preview} />}
+
+          <WizardFooter
+            step={step}
+            working={working}
+            readyCount={readyRows.length}
+            onBack={handleBack}
+            onPreview={handleBuildPreview}
+            onImport={handleImport}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+"use client"
+
+import { useState } from "react"
+
+import { AlertTriangle, Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Localizer, MessageKey, Translate } from "@/lib/i18n"
+import { resolveConflict, type PluckingRow, type QueuedPluckingSave, type SyncConflictReason } from "@/lib/offline-queue"
+
+interface SyncConflictDialogProps {
+  orgId: string
+  conflicts: QueuedPluckingSave[]
+  workerName: (workerId: string) => string
+  onClose: () => void
+  onResolved: () => void
+}
+
+// Button labels for each way a replayed save can clash with the server
+const CHOICES: Record<SyncConflictReason, { mine: MessageKey; server: MessageKey }> = {
+  edited: { mine: 'plucking.sync.mine.edited', server: 'plucking.sync.server.edited' },
+  deleted: { mine: 'plucking.sync.mine.deleted', server: 'plucking.sync.server.deleted' },
+  duplicate: { mine: 'plucking.sync.mine.duplicate', server: 'plucking.sync.discardMine' },
+  rejected: { mine: 'plucking.sync.mine.rejected', server: 'plucking.sync.discardMine' },
+}
+
+function queuedRows(entry: QueuedPluckingSave): PluckingRow[] {
+  return entry.save.kind === 'update' ? [entry.save.row] : entry.save.rows
+}
+
+function describe(row: PluckingRow, { t, kg, money }: Localizer) {
+  if (row.is_advance) return t('plucking.sync.advance', { amount: money(Math.abs(row.wage_earned)) })
+  const pay = row.norm_kg ? ` ${t('plucking.sync.norm', { kg: kg(row.norm_kg) })}` : ` × ${money(row.rate_per_kg)}`
+  return `${kg(Number(row.kg_plucked))}${pay} = ${money(row.wage_earned)}`
+}
+
+// Stored conflict messages are English; the server's own rejection text is shown as is
+function conflictMessage(entry: QueuedPluckingSave, t: Translate) {
+  const reason = entry.conflict?.reason
+  if (!reason || reason === 'rejected') return entry.conflict?.message
+  return t(`plucking.sync.reason.${reason}`)
+}
+
+function RowSummary({ label, row }: { label: string; row: PluckingRow | null }) {
+  const l = useTranslation()
+
+  return (
+    <div className="rounded-md border p-2 text-xs space-y-0.5">
+      <p className="font-medium text-muted-foreground">{label}</p>
+      {row ? (
+        <>
+          <p>{describe(row, l)}</p>
+          {row.notes && <p className="text-muted-foreground">{row.notes}</p>}
+        </>
+      ) : (
+        <p className="text-muted-foreground">{l.t("plucking.sync.noRecord")}</p>
+      )}
+    </div>
+  )
+}
+
+export function SyncConflictDialog({ orgId, conflicts, workerName, onClose, onResolved }: SyncConflictDialogProps) {
+  const { t, date: formatDate } = useTranslation()
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  async function handleResolve(entry: QueuedPluckingSave, keep: 'mine' | 'server') {
+    setResolving(entry.id)
+    try {
+      await resolveConflict(orgId, entry, keep)
+      toast.success(keep === 'mine' ? t("plucking.sync.kept") : t("plucking.sync.discarded"))
+      onResolved()
+    } catch (error: any) {
+      console.error('Error resolving sync conflict:', error)
+      toast.error(error.message ?? t("plucking.sync.resolveFailed"))
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              {t("plucking.sync.title")}
+            </CardTitle>
+            <CardDescription>
+              {t("plucking.sync.description")}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {conflicts.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">{t("plucking.sync.allResolved")}</p>
+          )}
+          {conflicts.map(entry => {
+            const rows = queuedRows(entry)
+            const reason = entry.conflict?.reason ?? 'rejected'
+            const busy = resolving === entry.id
+            return (
+              <div key={entry.id} className="rounded-lg border p-3 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{workerName(rows[0].worker_id)}</p>
+                    <p className="text-xs text-muted-foreground">{formatDate(rows[0].date)}</p>
+                  </div>
+                  <Badge variant="outline" className="text-amber-600 border-amber-300">
+                    {conflictMessage(entry, t)}
+                  </Badge>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    {rows.map((row, index) => (
+                      <RowSummary key={index} label={t("plucking.sync.savedOffline")} row={row} />
+                    ))}
+                  </div>
+                  <RowSummary label={t("plucking.sync.onServer")} row={entry.conflict?.server ?? null} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" disabled={busy} onClick={() => handleResolve(entry, 'server')}>
+                    {t(CHOICES[reason].server)}
+                  </Button>
+                  <Button size="sm" disabled={busy} onClick={() => handleResolve(entry, 'mine')}>
+                    {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {t(CHOICES[reason].mine)}
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { toast } from "sonner"
+
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  applyPluckingSave,
+  fetchQueuedSaves,
+  isNetworkError,
+  queuePluckingSave,
+  replayQueuedSaves,
+  type PluckingSave,
+  type QueuedPluckingSave,
+} from "@/lib/offline-queue"
+
+// A save written to the server; advance_id is set when it gave the worker an advance
+export interface SavedPlucking {
+  advance_id: string | null
+}
+
+// Connectivity, the offline queue for this organization, and replaying it when the connection returns
+export function useOfflineSync(orgId: string | undefined, onSynced: () => void) {
+  const { t } = useTranslation()
+  const [online, setOnline] = useState(true)
+  const [queued, setQueued] = useState<QueuedPluckingSave[]>([])
+  const [syncing, setSyncing] = useState(false)
+  // Kept in a ref so a new callback each render doesn't re-run the listeners effect
+  const onSyncedRef = useRef(onSynced)
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced
+  })
+
+  const reload = useCallback(async () => {
+    if (!orgId) return
+    try {
+      setQueued(await fetchQueuedSaves(orgId))
+    } catch (error: any) {
+      console.error('Error reading offline queue:', error?.message ?? error)
+    }
+  }, [orgId])
+
+  const sync = useCallback(async () => {
+    if (!orgId || !navigator.onLine) return
+    setSyncing(true)
+    try {
+      const result = await replayQueuedSaves(orgId)
+      if (result.synced > 0) {
+        toast.success(t(result.synced === 1 ? "plucking.sync.syncedOne" : "plucking.sync.synced", { count: result.synced }))
+        onSyncedRef.current()
+      }
+      if (result.conflicts > 0) {
+        toast.warning(t(result.conflicts === 1 ? "plucking.sync.needsReviewOne" : "plucking.sync.needsReview", { count: result.conflicts }))
+      }
+    } catch (error: any) {
+      console.error('Error syncing offline entries:', error?.message ?? error)
+    } finally {
+      setSyncing(false)
+      reload()
+    }
+  }, [orgId, reload, t])
+
+  useEffect(() => {
+    if (!orgId) return
+    setOnline(navigator.onLine)
+    reload().then(sync)
+
+    const handleOnline = () => {
+      setOnline(true)
+      sync()
+    }
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [orgId, reload, sync])
+
+  // Saves straight to the server when possible, otherwise keeps the save on this device.
+  // Returns false when the save was queued rather than written.
+  const save = useCallback(async (pluckingSave: PluckingSave): Promise<false | SavedPlucking> => {
+    if (!orgId) return false
+    if (navigator.onLine) {
+      try {
+        return { advance_id: await applyPluckingSave(orgId, pluckingSave) }
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+      }
+    }
+    await queuePluckingSave(orgId, pluckingSave)
+    await reload()
+    toast.info(t("plucking.sync.queued"))
+    return false
+  }, [orgId, reload, t])
+
+  return { online, queued, syncing, sync, save, reload }
+}
@@ -10,8 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useOrganization } from "@/contexts/organization-context";
+import { useTranslation } from "@/hooks/use-translation";
 import { supabase } from "@/lib/supabase";
-import { formatCurrency } from "@/lib/utils";
+import { saleNetIncome, type SaleIncome } from "@/lib/tea-sale-deductions";
 import { format, subDays, startOfMonth, endOfMonth, subMonths } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
 
@@ -19,21 +20,6 @@ const SL_TIMEZONE = 'Asia/Colombo'
 
 export const description = "Revenue vs Expenses financial overview";
 
-const chartConfig = {
-  revenue: {
-    label: "Revenue",
-    color: "#22c55e",
-  },
-  expenses: {
-    label: "Expenses", 
-    color: "#ef4444",
-  },
-  profit: {
-    label: "Profit",
-    color: "#3b82f6",
-  },
-} satisfies ChartConfig;
-
 interface ChartData {
   date: string;
   revenue: number;
@@ -45,6 +31,22 @@ export function ChartAreaInteractive() {
   const isMobile = useIsMobile();
   const { currentOrganization, loading: orgLoading } = useOrganization()
   const orgId = currentOrganization?.organization_id
+  const { t, date: formatDate, money } = useTranslation()
+
+  const chartConfig = {
+    revenue: {
+      label: t("overview.revenue"),
+      color: "#22c55e",
+    },
+    expenses: {
+      label: t("overview.expenses"),
+      color: "#ef4444",
+    },
+    profit: {
+      label: t("overview.profit"),
+      color: "#3b82f6",
+    },
+  } satisfies ChartConfig;
   
   const [timeRange, setTimeRange] = React.useState("30d");
   const [chartData, setChartData] = useState<ChartData[]>([]);
@@ -120,9 +122,9 @@ export function ChartAreaInteractive() {
         }
 
         // Get tea sales data (revenue)
-        const salesData = await queryWithFallback<{ date: string; total_income: number }>(
+        const salesData = await queryWithFallback<SaleIncome & { date: string }>(
           'tea_sales',
-          'date, total_income',
+          'date, total_income, deductions, net_income',
           'date',
           startDateStr,
           todayStr
@@ -153,7 +155,7 @@ export function ChartAreaInteractive() {
           if (!dailyData[item.date]) {
             dailyData[item.date] = { revenue: 0, expenses: 0 };
           }
-          dailyData[item.date].revenue += item.total_income || 0;
+          dailyData[item.date].revenue += saleNetIncome(item);
         });
 
         // Process plucking (expenses - only count actual work, NOT advances)
@@ -259,14 +261,14 @@ export function ChartAreaInteractive() {
         }
 
         // Revenue from tea sales
-        const salesData = await queryWithFallback<{ total_income: number }>(
+        const salesData = await queryWithFallback<SaleIncome>(
           'tea_sales',
-          'total_income',
+          'total_income, deductions, net_income',
           [],
           { field: 'date', from: startDateStr, to: todayStr }
         )
 
-        const revenue = salesData.reduce((sum, s) => sum + (s.total_income || 0), 0)
+        const revenue = salesData.reduce((sum, s) => sum + saleNetIncome(s), 0)
 
         // Expenses: (Earnings + Bonuses - Advances) matching stat cards
         const pluckingData = await queryWithFallback<{
@@ -341,7 +343,7 @@ export function ChartAreaInteractive() {
   return (
     <Card className="@container/card">
       <CardHeader>
-        <CardTitle>Financial Overview</CardTitle>
+        <CardTitle>{t("overview.financialOverview")}</CardTitle>
         <CardAction>
           <ToggleGroup
             type="single"
@@ -350,27 +352,27 @@ export function ChartAreaInteractive() {
             variant="outline"
             className="hidden *:data-[slot=toggle-group-item]:!px-4 @[767px]/card:flex"
           >
-            <ToggleGroupItem value="90d">Last 3 months</ToggleGroupItem>
-            <ToggleGroupItem value="30d">Last 30 days</ToggleGroupItem>
-            <ToggleGroupItem value="7d">Last 7 days</ToggleGroupItem>
+            <ToggleGroupItem value="90d">{t("overview.last3Months")}</ToggleGroupItem>
+            <ToggleGroupItem value="30d">{t("overview.last30Days")}</ToggleGroupItem>
+            <ToggleGroupItem value="7d">{t("overview.last7Days")}</ToggleGroupItem>
           </ToggleGroup>
           <Select value={timeRange} onValueChange={setTimeRange}>
             <SelectTrigger
               className="flex w-40 **:data-[slot=select-value]:block **:data-[slot=select-value]:truncate @[767px]/card:hidden"
               size="sm"
-              aria-label="Select a value"
+              aria-label={t("overview.selectRange")}
             >
-              <SelectValue placeholder="Last 30 days" />
+              <SelectValue placeholder={t("overview.last30Days")} />
             </SelectTrigger>
             <SelectContent className="rounded-xl">
               <SelectItem value="90d" className="rounded-lg">
-                Last 3 months
+                {t("overview.last3Months")}
               </SelectItem>
               <SelectItem value="30d" className="rounded-lg">
-                Last 30 days
+                {t("overview.last30Days")}
               </SelectItem>
               <SelectItem value="7d" className="rounded-lg">
-                Last 7 days
+                {t("overview.last7Days")}
               </SelectItem>
             </SelectContent>
           </Select>
@@ -379,7 +381,7 @@ export function ChartAreaInteractive() {
       <CardContent className="px-2 pt-4 sm:px-6 sm:pt-6">
         {loading ? (
           <div className="aspect-auto h-[250px] w-full flex items-center justify-center">
-            <div className="animate-pulse text-muted-foreground">Loading chart data...</div>
+            <div className="animate-pulse text-muted-foreground">{t("overview.loadingChart")}</div>
           </div>
         ) : (
           <ChartContainer config={chartConfig} className="aspect-auto h-[250px] w-full">
@@ -401,36 +403,16 @@ export function ChartAreaInteractive() {
                 axisLine={false}
                 tickMargin={8}
                 minTickGap={32}
-                tickFormatter={(value) => {
-                  const date = new Date(value);
-                  return date.toLocaleDateString("en-US", {
-                    month: "short",
-                    day: "numeric",
-                  });
-                }}
+                tickFormatter={(value) => formatDate(value, 'day')}
               />
               <ChartTooltip
                 cursor={false}
                 content={
                   <ChartTooltipContent
-                    labelFormatter={(value) => {
-                      return new Date(value).toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      });
-                    }}
+                    labelFormatter={(value) => formatDate(value)}
                     formatter={(value, name) => {
-                      if (name === "revenue") {
-                        return [formatCurrency(Number(value)), "Revenue"];
-                      }
-                      if (name === "expenses") {
-                        return [formatCurrency(Number(value)), "Expenses"];
-                      }
-                      if (name === "profit") {
-                        return [formatCurrency(Number(value)), "Profit"];
-                      }
-                      return [value, name];
+                      const series = chartConfig[name as keyof typeof chartConfig];
+                      return series ? [money(Number(value)), series.label] : [value, name];
                     }}
                     indicator="dot"
                   />
@@ -5,8 +5,9 @@ import { useEffect, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardAction, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useOrganization } from "@/contexts/organization-context";
+import { useTranslation } from "@/hooks/use-translation";
 import { supabase } from "@/lib/supabase";
-import { formatCurrency } from "@/lib/utils";
+import { saleNetIncome, type SaleIncome } from "@/lib/tea-sale-deductions";
 import { startOfMonth, endOfMonth, subMonths, subDays, format } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
 
@@ -34,6 +35,7 @@ interface DashboardStats {
 export function SectionCards() {
   const { currentOrganization, loading: orgLoading } = useOrganization()
   const orgId = currentOrganization?.organization_id
+  const { t, kg, money } = useTranslation()
   
   const [stats, setStats] = useState<DashboardStats>({
     monthlyRevenue: 0,
@@ -105,22 +107,23 @@ export function SectionCards() {
         }
 
         // === REVENUE: From tea_sales ===
-        const currentSales = await queryWithFallback<{ total_income: number }>(
+        const currentSales = await queryWithFallback<SaleIncome>(
           'tea_sales',
-          'total_income',
+          'total_income, deductions, net_income',
           {},
           { from: format(currentMonth, 'yyyy-MM-dd'), to: format(currentMonthEnd, 'yyyy-MM-dd'), field: 'date' }
         )
 
-        const lastSales = await queryWithFallback<{ total_income: number }>(
+        const lastSales = await queryWithFallback<SaleIncome>(
           'tea_sales',
-          'total_income',
+          'total_income, deductions, net_income',
           {},
           { from: format(lastMonth, 'yyyy-MM-dd'), to: format(lastMonthEnd, 'yyyy-MM-dd'), field: 'date' }
         )
 
-        const monthlyRevenue = currentSales.reduce((sum, s) => sum + (s.total_income || 0), 0)
-        const lastMonthRevenue = lastSales.reduce((sum, s) => sum + (s.total_income || 0), 0)
+        // Revenue is what the factories pay after their deductions
+        const monthlyRevenue = currentSales.reduce((sum, s) => sum + saleNetIncome(s), 0)
+        const lastMonthRevenue = lastSales.reduce((sum, s) => sum + saleNetIncome(s), 0)
         const revenueChange = lastMonthRevenue > 0 
           ? ((monthlyRevenue - lastMonthRevenue) / lastMonthRevenue) * 100 
           : 0
@@ -284,9 +287,9 @@ export function SectionCards() {
       {/* Revenue Card */}
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Monthly Revenue</CardDescription>
+          <CardDescription>{t("overview.monthlyRevenue")}</CardDescription>
           <CardTitle className="text-xl font-semibold tabular-nums @[250px]/card:text-2xl">
-            {formatCurrency(stats.monthlyRevenue)}
+            {money(stats.monthlyRevenue)}
           </CardTitle>
           <CardAction>
             <Badge variant="outline" className="text-xs px-1.5 whitespace-nowrap">
@@ -297,18 +300,18 @@ export function SectionCards() {
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 font-medium">
-            From tea sales
+            {t("overview.fromTeaSales")}
           </div>
-          <div className="text-muted-foreground">Compared to last month</div>
+          <div className="text-muted-foreground">{t("overview.comparedToLastMonth")}</div>
         </CardFooter>
       </Card>
 
       {/* Expenses Card */}
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Monthly Expenses</CardDescription>
+          <CardDescription>{t("overview.monthlyExpenses")}</CardDescription>
           <CardTitle className="text-xl font-semibold tabular-nums @[250px]/card:text-2xl">
-            {formatCurrency(stats.monthlyExpenses)}
+            {money(stats.monthlyExpenses)}
           </CardTitle>
           <CardAction>
             <Badge variant="outline" className="text-xs px-1.5 whitespace-nowrap">
@@ -319,18 +322,18 @@ export function SectionCards() {
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 font-medium">
-            Worker payments
+            {t("overview.workerPayments")}
           </div>
-          <div className="text-muted-foreground">Salaries & advances</div>
+          <div className="text-muted-foreground">{t("overview.salariesAndAdvances")}</div>
         </CardFooter>
       </Card>
 
       {/* Profit Card */}
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Monthly Profit</CardDescription>
+          <CardDescription>{t("overview.monthlyProfit")}</CardDescription>
           <CardTitle className="text-xl font-semibold tabular-nums @[250px]/card:text-2xl">
-            {formatCurrency(stats.monthlyProfit)}
+            {money(stats.monthlyProfit)}
           </CardTitle>
           <CardAction>
             <Badge variant="outline" className="text-xs px-1.5 whitespace-nowrap">
@@ -341,18 +344,18 @@ export function SectionCards() {
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 font-medium">
-            Revenue - Expenses
+            {t("overview.revenueLessExpenses")}
           </div>
-          <div className="text-muted-foreground">Net profit this month</div>
+          <div className="text-muted-foreground">{t("overview.netProfitThisMonth")}</div>
         </CardFooter>
       </Card>
 
       {/* Today's Harvest Card */}
       <Card className="@container/card">
         <CardHeader>
-          <CardDescription>Today's Harvest</CardDescription>
+          <CardDescription>{t("overview.todaysHarvest")}</CardDescription>
           <CardTitle className="text-xl font-semibold tabular-nums @[250px]/card:text-2xl">
-            {stats.todaysHarvest.toFixed(1)} kg
+            {kg(stats.todaysHarvest)}
           </CardTitle>
           <CardAction>
             <Badge variant="outline" className="text-xs px-1.5 whitespace-nowrap">
@@ -363,9 +366,9 @@ export function SectionCards() {
         </CardHeader>
         <CardFooter className="flex-col items-start gap-1.5 text-sm">
           <div className="line-clamp-1 font-medium">
-            Tea leaves plucked
+            {t("overview.leavesPlucked")}
           </div>
-          <div className="text-muted-foreground">Compared to yesterday</div>
+          <div className="text-muted-foreground">{t("overview.comparedToYesterday")}</div>
         </CardFooter>
       </Card>
     </div>
@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import { addMonths, format, parseISO, startOfMonth, subMonths } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+import { ArrowLeftRight, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { FactoryWithRate, fetchFactories } from "@/lib/factories"
+import { ComparisonSale, compareFactories, fetchComparisonSales, rateSeries } from "@/lib/factory-comparison"
+import { RateHistoryEntry, fetchRateHistories } from "@/lib/factory-rates"
+import { LeafTripWithDeliveries, fetchLeafTrips } from "@/lib/leaf-trips"
+
+import { FactoryComparisonTable, FactoryRanking } from "./factory-comparison-tables"
+import { FactoryRateChart } from "./factory-rate-chart"
+
+const PERIODS = [3, 6, 12]
+
+function getSLDate() {
+  return formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM-dd')
+}
+
+export function FactoryComparisonManager() {
+  const { currentOrganization, loading: orgLoading } = useOrganization()
+  const { t, date: formatDate } = useTranslation()
+  const orgId = currentOrganization?.organization_id
+
+  const [months, setMonths] = useState('6')
+  const [factories, setFactories] = useState<FactoryWithRate[]>([])
+  const [history, setHistory] = useState<RateHistoryEntry[]>([])
+  const [sales, setSales] = useState<ComparisonSale[]>([])
+  const [trips, setTrips] = useState<LeafTripWithDeliveries[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const today = getSLDate()
+  const from = format(subMonths(parseISO(today), Number(months)), 'yyyy-MM-dd')
+  const nextMonth = format(startOfMonth(addMonths(parseISO(today), 1)), 'yyyy-MM-dd')
+
+  useEffect(() => {
+    if (orgId) loadComparison()
+  }, [orgId, months])
+
+  async function loadComparison() {
+    if (!orgId) return
+    setLoading(true)
+    try {
+      const [factoryList, rateHistory, periodSales, periodTrips] = await Promise.all([
+        fetchFactories(orgId),
+        fetchRateHistories(orgId),
+        fetchComparisonSales(orgId, from, today),
+        fetchLeafTrips(orgId, from, today),
+      ])
+      setFactories(factoryList)
+      setHistory(rateHistory)
+      setSales(periodSales)
+      setTrips(periodTrips)
+    } catch (error: any) {
+      console.error('Error fetching factory comparison:', error?.message ?? error)
+      toast.error(t("comparison.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rows = useMemo(
+    () => compareFactories(factories, sales, trips, history, nextMonth),
+    [factories, sales, trips, history, nextMonth]
+  )
+  // Chart series follow name order so each factory keeps its colour between periods
+  const charted = useMemo(() => factories.filter(factory => rows.some(row => row.factoryId === factory.id)), [factories, rows])
+  const points = useMemo(() => rateSeries(charted, history, from, today), [charted, history, from, today])
+
+  if (orgLoading || loading) {
+    return (
+      <div className="flex flex-col justify-center items-center h-64 gap-2">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">{t("common.loading")}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+            <ArrowLeftRight className="h-5 w-5" />
+            {t("comparison.title")}
+          </h2>
+          <p className="text-xs text-muted-foreground">{t("comparison.description")}</p>
+        </div>
+        <Select value={months} onValueChange={setMonths}>
+          <SelectTrigger className="h-9 w-full sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(period => (
+              <SelectItem key={period} value={String(period)}>{t("comparison.lastMonths", { count: period })}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <FactoryRanking rows={rows} monthLabel={formatDate(nextMonth, 'month')} />
+
+      <FactoryRateChart factories={charted} points={points} />
+
+      <FactoryComparisonTable rows={rows} months={Number(months)} />
+    </div>
+  )
+}
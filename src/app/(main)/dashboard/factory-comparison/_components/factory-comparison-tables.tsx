@@ -0,0 +1,141 @@
+"use client"
+
+import Link from "next/link"
+
+import { Trophy } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import { FactoryComparison, RANK_STEP_PER_KG } from "@/lib/factory-comparison"
+import type { Localizer, Translate } from "@/lib/i18n"
+
+function perKg(value: number | null, l: Localizer, kg = 1) {
+  return value === null || kg <= 0 ? '-' : l.money(value)
+}
+
+function days(value: number | null, t: Translate) {
+  return value === null ? '-' : t("comparison.days", { count: value.toFixed(0) })
+}
+
+function FactoryLink({ row }: { row: FactoryComparison }) {
+  return (
+    <Link href={`/dashboard/factory-rates/${row.factoryId}`} className="hover:underline">
+      {row.name}
+    </Link>
+  )
+}
+
+interface RankingProps {
+  rows: FactoryComparison[]
+  monthLabel: string
+}
+
+// Where to send leaf next month, best projected return first
+export function FactoryRanking({ rows, monthLabel }: RankingProps) {
+  const l = useTranslation()
+  const { t } = l
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Trophy className="h-4 w-4" />
+          {t("comparison.rankingFor", { month: monthLabel })}
+        </CardTitle>
+        <CardDescription className="text-xs">
+          {t("comparison.rankingHint", { amount: l.money(RANK_STEP_PER_KG) })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-xs text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium px-3 py-2">#</th>
+                <th className="text-left font-medium px-3 py-2">{t("teaSales.factory")}</th>
+                <th className="text-right font-medium px-3 py-2">{t("factories.rate")}</th>
+                <th className="text-right font-medium px-3 py-2">{t("teaSales.deductions")}</th>
+                <th className="text-right font-medium px-3 py-2">{t("comparison.transportPerKg")}</th>
+                <th className="text-right font-medium px-3 py-2">{t("comparison.projectedNetPerKg")}</th>
+                <th className="text-right font-medium px-3 py-2">{t("comparison.paysIn")}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map(row => (
+                <tr key={row.factoryId} className={row.rank === 1 ? 'bg-green-50 dark:bg-green-950/30' : ''}>
+                  <td className="px-3 py-2 font-medium">{row.rank ?? '-'}</td>
+                  <td className="px-3 py-2">
+                    <FactoryLink row={row} />
+                    {row.kg === 0 && <Badge variant="outline" className="ml-2 text-[10px]">{t("comparison.noRecentDeliveries")}</Badge>}
+                  </td>
+                  <td className="px-3 py-2 text-right">{perKg(row.nextRate, l)}</td>
+                  <td className="px-3 py-2 text-right">{(row.deductionShare * 100).toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-right">{perKg(row.transportPerKg, l, row.kg)}</td>
+                  <td className="px-3 py-2 text-right font-semibold">{perKg(row.projectedNetPerKg, l)}</td>
+                  <td className="px-3 py-2 text-right">{days(row.avgPaymentDays, t)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface ComparisonProps {
+  rows: FactoryComparison[]
+  months: number
+}
+
+// What each factory actually returned per kg over the period, and how quickly it paid
+export function FactoryComparisonTable({ rows, months }: ComparisonProps) {
+  const { t, money } = useTranslation()
+  const delivered = rows.filter(row => row.kg > 0).sort((a, b) => b.netPerKg - a.netPerKg)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("comparison.netIncomePerKg")}</CardTitle>
+        <CardDescription className="text-xs">{t("comparison.netIncomeHint", { count: months })}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {delivered.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t("comparison.noDeliveries")}</p>
+        ) : (
+          <div className="overflow-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">{t("teaSales.factory")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("factories.kg")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("comparison.grossPerKg")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("comparison.deductionsPerKg")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("comparison.transportPerKg")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("comparison.netPerKg")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("comparison.avgPaymentDelay")}</th>
+                  <th className="text-right font-medium px-3 py-2">{t("factories.outstanding")}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {delivered.map(row => (
+                  <tr key={row.factoryId}>
+                    <td className="px-3 py-2"><FactoryLink row={row} /></td>
+                    <td className="px-3 py-2 text-right">{row.kg.toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right">{money(row.grossPerKg)}</td>
+                    <td className="px-3 py-2 text-right text-red-600">{money(row.deductionsPerKg)}</td>
+                    <td className="px-3 py-2 text-right text-red-600">{money(row.transportPerKg)}</td>
+                    <td className="px-3 py-2 text-right font-semibold">{money(row.netPerKg)}</td>
+                    <td className="px-3 py-2 text-right">{days(row.avgPaymentDays, t)}</td>
+                    <td className="px-3 py-2 text-right">{row.outstanding > 0 ? money(row.outstanding) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
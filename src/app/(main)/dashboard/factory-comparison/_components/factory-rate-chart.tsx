@@ -0,0 +1,77 @@
+"use client"
+
+import { useMemo } from "react"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { useTranslation } from "@/hooks/use-translation"
+import { RatePoint, factoryKey } from "@/lib/factory-comparison"
+
+const SERIES_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#a855f7', '#ef4444', '#14b8a6', '#eab308', '#ec4899']
+
+interface FactoryRateChartProps {
+  factories: { name: string }[]
+  points: RatePoint[]
+}
+
+// Every factory's rate on one time axis, stepping on the day each change took effect
+export function FactoryRateChart({ factories, points }: FactoryRateChartProps) {
+  const { t, date: formatDate, money } = useTranslation()
+  const config = useMemo(() => Object.fromEntries(factories.map((factory, index) => [
+    factoryKey(index),
+    { label: factory.name, color: SERIES_COLORS[index % SERIES_COLORS.length] },
+  ])) satisfies ChartConfig, [factories])
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("comparison.rateOverTime")}</CardTitle>
+        <CardDescription className="text-xs">{t("comparison.rateOverTimeHint")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {points.length === 0 || factories.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t("comparison.noRateHistory")}</p>
+        ) : (
+          <ChartContainer config={config} className="h-[300px] w-full">
+            <LineChart accessibilityLayer data={points} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={(value) => formatDate(new Date(value), 'shortMonth')}
+              />
+              <YAxis tickLine={false} axisLine={false} width={48} domain={['auto', 'auto']} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => formatDate(new Date(payload[0]?.payload.time))}
+                    formatter={(value, name) => `${config[String(name)]?.label ?? name}: ${money(Number(value))}`}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {factories.map((_, index) => (
+                <Line
+                  key={factoryKey(index)}
+                  dataKey={factoryKey(index)}
+                  type="stepAfter"
+                  stroke={`var(--color-${factoryKey(index)})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,5 @@
+import { FactoryComparisonManager } from "./_components/factory-comparison-manager"
+
+export default function FactoryComparisonPage() {
+  return <FactoryComparisonManager />
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { FileText, Landmark, MapPin, Phone, User } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import type { FactoryWithRate } from "@/lib/factories"
+
+function DetailRow({ icon: Icon, label, value }: { icon: typeof User; label: string; value: string | null }) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+      <div className="min-w-0">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className={value ? 'break-words' : 'text-muted-foreground'}>{value ?? t("factories.notSet")}</p>
+      </div>
+    </div>
+  )
+}
+
+export function FactoryContactCard({ factory }: { factory: FactoryWithRate }) {
+  const { t } = useTranslation()
+  const distance = factory.distance_km === null ? '' : ` (${t("factories.distanceKm", { km: factory.distance_km })})`
+  const bankAccount = [factory.bank_account_name, factory.bank_account_number].filter(Boolean).join(' - ')
+  const bank = [factory.bank_name, factory.bank_branch].filter(Boolean).join(', ')
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">{t("factories.contact")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <DetailRow icon={User} label={t("factories.field.contactPerson")} value={factory.contact_person} />
+          <DetailRow icon={Phone} label={t("common.phone")} value={factory.phone} />
+          <DetailRow icon={MapPin} label={t("factories.field.address")} value={factory.address ? `${factory.address}${distance}` : null} />
+          <DetailRow icon={FileText} label={t("factories.field.registration")} value={factory.registration_number} />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">{t("factories.field.bank")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <DetailRow icon={Landmark} label={t("factories.bankAndBranch")} value={bank || null} />
+          <DetailRow icon={FileText} label={t("factories.account")} value={bankAccount || null} />
+          {factory.notes && <DetailRow icon={FileText} label={t("common.notes")} value={factory.notes} />}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
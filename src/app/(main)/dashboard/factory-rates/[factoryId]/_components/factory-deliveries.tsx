@@ -0,0 +1,79 @@
+"use client"
+
+import { useMemo } from "react"
+
+import { ColumnDef } from "@tanstack/react-table"
+
+import { DataTable } from "@/components/data-table/data-table"
+import { DataTablePagination } from "@/components/data-table/data-table-pagination"
+import { useDataTableInstance } from "@/hooks/use-data-table-instance"
+import { useTranslation } from "@/hooks/use-translation"
+import { saleNetIncome } from "@/lib/tea-sale-deductions"
+
+import { FactorySale } from "./factory-sales"
+
+export function FactoryDeliveries({ sales }: { sales: FactorySale[] }) {
+  const { t, date: formatDate, kg, money } = useTranslation()
+
+  const columns: ColumnDef<FactorySale>[] = useMemo(() => [
+    {
+      accessorKey: "date",
+      header: t("common.date"),
+      cell: ({ row }) => formatDate(row.original.date),
+    },
+    {
+      accessorKey: "kg_delivered",
+      header: t("factories.kg"),
+      cell: ({ row }) => kg(Number(row.original.kg_delivered)),
+    },
+    {
+      accessorKey: "rate_per_kg",
+      header: t("factories.rate"),
+      cell: ({ row }) => t("teaSales.perKg", { amount: money(row.original.rate_per_kg) }),
+    },
+    {
+      accessorKey: "total_income",
+      header: t("teaSales.gross"),
+      cell: ({ row }) => money(row.original.total_income),
+    },
+    {
+      id: "deductions",
+      header: t("teaSales.deductions"),
+      cell: ({ row }) => {
+        const deducted = Number(row.original.total_income) - saleNetIncome(row.original)
+        return deducted > 0 ? <span className="text-red-600">- {money(deducted)}</span> : '-'
+      },
+    },
+    {
+      id: "net",
+      header: t("factories.net"),
+      cell: ({ row }) => <span className="font-medium">{money(saleNetIncome(row.original))}</span>,
+    },
+    {
+      accessorKey: "notes",
+      header: t("common.notes"),
+      cell: ({ row }) => (
+        <span className="text-xs text-muted-foreground truncate max-w-[180px] block">{row.original.notes ?? ''}</span>
+      ),
+    },
+  ], [t, formatDate, kg, money])
+
+  const table = useDataTableInstance({
+    data: sales,
+    columns,
+    getRowId: (row) => row.id,
+  })
+
+  if (sales.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t("factories.noDeliveries")}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="max-h-[400px] overflow-auto rounded-md border">
+        <DataTable table={table} columns={columns} />
+      </div>
+      <DataTablePagination table={table} />
+    </div>
+  )
+}
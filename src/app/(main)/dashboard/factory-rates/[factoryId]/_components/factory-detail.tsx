@@ -0,0 +1,280 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import Link from "next/link"
+
+import { formatInTimeZone } from "date-fns-tz"
+import { ArrowLeft, Banknote, Edit, Factory, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { FactoryPaymentDialog } from "@/app/(main)/dashboard/_components/factory-payment-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { FactoryWithRate, fetchFactory } from "@/lib/factories"
+import { FactoryPaymentWithAllocations, fetchFactoryPayments } from "@/lib/factory-payments"
+import { RateHistoryEntry, fetchRateHistories } from "@/lib/factory-rates"
+import { supabase } from "@/lib/supabase"
+
+import { FactoryContactCard } from "./factory-contact-card"
+import { FactoryDeliveries } from "./factory-deliveries"
+import { FactoryDetailsForm } from "./factory-details-form"
+import { FactoryPaymentsList } from "./factory-payments-list"
+import { FactoryRateTimeline } from "./factory-rate-timeline"
+import { FACTORY_SALE_SELECT, FactorySale, monthlySettlements } from "./factory-sales"
+import { FactorySettlements } from "./factory-settlements"
+import { FactoryStatements } from "./factory-statements"
+
+function FactoryNotFound() {
+  const { t } = useTranslation()
+  return (
+    <div className="text-center py-12">
+      <Factory className="h-12 w-12 mx-auto text-muted-foreground/30 mb-4" />
+      <p className="text-muted-foreground">{t("factories.notFound")}</p>
+      <Button asChild variant="link" size="sm">
+        <Link href="/dashboard/factory-rates">{t("factories.backToList")}</Link>
+      </Button>
+    </div>
+  )
+}
+
+interface FactoryHeaderProps {
+  factory: FactoryWithRate
+  canEdit: boolean
+  onEdit: () => void
+}
+
+function FactoryHeader({ factory, canEdit, onEdit }: FactoryHeaderProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex items-start justify-between gap-2">
+      <div className="space-y-1">
+        <Link href="/dashboard/factory-rates" className="text-xs text-muted-foreground hover:underline flex items-center gap-1">
+          <ArrowLeft className="h-3 w-3" />
+          {t("teaSales.factories")}
+        </Link>
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg sm:text-xl font-semibold">{factory.name}</h2>
+          {!factory.is_active && <Badge variant="outline">{t("factories.inactive")}</Badge>}
+        </div>
+      </div>
+      {canEdit && (
+        <Button size="sm" variant="outline" onClick={onEdit}>
+          <Edit className="h-4 w-4 sm:mr-2" />
+          <span className="hidden sm:inline">{t("factories.editDetails")}</span>
+        </Button>
+      )}
+    </div>
+  )
+}
+
+interface FactoryStatsProps {
+  factory: FactoryWithRate
+  deliveries: number
+  totals: { kg: number; net: number; outstanding: number }
+}
+
+function FactoryStats({ factory, deliveries, totals }: FactoryStatsProps) {
+  const { t, kg, money } = useTranslation()
+  return (
+    <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+      <Card>
+        <CardContent className="p-4">
+          <div className="text-xl font-bold">
+            {factory.current_rate === null ? '-' : t("teaSales.perKg", { amount: money(factory.current_rate) })}
+          </div>
+          <p className="text-xs text-muted-foreground">{t("factories.currentRate")}</p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <div className="text-xl font-bold">{deliveries}</div>
+          <p className="text-xs text-muted-foreground">{t("factories.deliveries")}</p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <div className="text-xl font-bold">{kg(totals.kg)}</div>
+          <p className="text-xs text-muted-foreground">{t("factories.totalDelivered")}</p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <div className="text-xl font-bold">{money(totals.outstanding)}</div>
+          <p className="text-xs text-muted-foreground">{t("factories.outstandingOf", { amount: money(totals.net) })}</p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export function FactoryDetail({ factoryId }: { factoryId: string }) {
+  const { currentOrganization, loading: orgLoading, canEdit } = useOrganization()
+  const { t } = useTranslation()
+  const orgId = currentOrganization?.organization_id
+
+  const [factory, setFactory] = useState<FactoryWithRate | null>(null)
+  const [sales, setSales] = useState<FactorySale[]>([])
+  const [history, setHistory] = useState<RateHistoryEntry[]>([])
+  const [payments, setPayments] = useState<FactoryPaymentWithAllocations[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState(false)
+  const [recordingPayment, setRecordingPayment] = useState(false)
+
+  const today = formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM-dd')
+
+  useEffect(() => {
+    if (orgId) loadFactory()
+  }, [orgId, factoryId])
+
+  async function loadFactory() {
+    if (!orgId) return
+    try {
+      const [factoryData, salesResult, historyData, paymentData] = await Promise.all([
+        fetchFactory(orgId, factoryId),
+        supabase
+          .from('tea_sales')
+          .select(FACTORY_SALE_SELECT)
+          .eq('organization_id', orgId)
+          .eq('factory_id', factoryId)
+          .order('date', { ascending: false }),
+        fetchRateHistories(orgId, factoryId),
+        fetchFactoryPayments(orgId, factoryId),
+      ])
+
+      if (salesResult.error) throw salesResult.error
+      setFactory(factoryData)
+      setSales(salesResult.data ?? [])
+      setHistory(historyData)
+      setPayments(paymentData)
+    } catch (error: any) {
+      console.error('Error fetching factory:', error?.message ?? error)
+      toast.error(t("factories.loadOneFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const settlements = useMemo(() => monthlySettlements(sales), [sales])
+  const totals = useMemo(() => ({
+    kg: settlements.reduce((sum, month) => sum + month.kg, 0),
+    net: settlements.reduce((sum, month) => sum + month.net, 0),
+    outstanding: settlements.reduce((sum, month) => sum + month.outstanding, 0),
+  }), [settlements])
+
+  if (orgLoading || loading) {
+    return (
+      <div className="flex flex-col justify-center items-center h-64 gap-2">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">{t("factories.loadingOne")}</span>
+      </div>
+    )
+  }
+
+  if (!factory) return <FactoryNotFound />
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <FactoryHeader factory={factory} canEdit={canEdit} onEdit={() => setEditing(true)} />
+
+      <FactoryStats factory={factory} deliveries={sales.length} totals={totals} />
+
+      <Tabs defaultValue="deliveries" className="w-full">
+        <TabsList>
+          <TabsTrigger value="deliveries">{t("factories.deliveries")}</TabsTrigger>
+          <TabsTrigger value="rates">{t("factories.tab.rates")}</TabsTrigger>
+          <TabsTrigger value="payments">{t("factories.tab.payments")}</TabsTrigger>
+          <TabsTrigger value="statements">{t("factories.tab.statements")}</TabsTrigger>
+          <TabsTrigger value="details">{t("factories.tab.details")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="deliveries">
+          <Card>
+            <CardContent className="pt-6">
+              <FactoryDeliveries sales={sales} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="rates">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">{t("factories.tab.rates")}</CardTitle>
+              <CardDescription className="text-xs">{t("factories.ratesHint")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FactoryRateTimeline factoryId={factory.id} history={history} today={today} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="payments" className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base">{t("factories.paymentsReceived")}</CardTitle>
+                  <CardDescription className="text-xs">{t("factories.paymentsHint")}</CardDescription>
+                </div>
+                {canEdit && (
+                  <Button size="sm" variant="outline" onClick={() => setRecordingPayment(true)}>
+                    <Banknote className="h-4 w-4 sm:mr-2" />
+                    <span className="hidden sm:inline">{t("teaSales.recordPayment")}</span>
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <FactoryPaymentsList payments={payments} onDeleted={loadFactory} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">{t("factories.monthlySettlements")}</CardTitle>
+              <CardDescription className="text-xs">{t("factories.settlementsHint")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FactorySettlements settlements={settlements} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="statements">
+          {orgId && <FactoryStatements orgId={orgId} factory={factory} onSalesChanged={loadFactory} />}
+        </TabsContent>
+
+        <TabsContent value="details">
+          <FactoryContactCard factory={factory} />
+        </TabsContent>
+      </Tabs>
+
+      {recordingPayment && orgId && (
+        <FactoryPaymentDialog
+          orgId={orgId}
+          factories={[factory]}
+          factoryId={factory.id}
+          onClose={() => setRecordingPayment(false)}
+          onSaved={() => {
+            setRecordingPayment(false)
+            loadFactory()
+          }}
+        />
+      )}
+
+      {editing && (
+        <FactoryDetailsForm
+          factory={factory}
+          onClose={() => setEditing(false)}
+          onSaved={() => {
+            setEditing(false)
+            loadFactory()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+"use client"
+
+import { useState } from "react"
+
+import { Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { useTranslation } from "@/hooks/use-translation"
+import { FactoryDetails, FactoryWithRate, duplicateFactoryMessage, updateFactory } from "@/lib/factories"
+import type { MessageKey } from "@/lib/i18n"
+
+interface FactoryDetailsFormProps {
+  factory: FactoryWithRate
+  onClose: () => void
+  onSaved: () => void
+}
+
+type TextField = Exclude<keyof FactoryDetails, 'distance_km' | 'is_active'>
+
+const FIELDS: { key: TextField; label: MessageKey; placeholder?: MessageKey }[] = [
+  { key: 'contact_person', label: 'factories.field.contactPerson' },
+  { key: 'phone', label: 'common.phone', placeholder: 'factories.field.phonePlaceholder' },
+  { key: 'registration_number', label: 'factories.field.registration', placeholder: 'factories.field.registrationPlaceholder' },
+]
+
+const BANK_FIELDS: { key: TextField; label: MessageKey }[] = [
+  { key: 'bank_name', label: 'factories.field.bank' },
+  { key: 'bank_branch', label: 'factories.field.branch' },
+  { key: 'bank_account_name', label: 'factories.field.accountName' },
+  { key: 'bank_account_number', label: 'factories.field.accountNumber' },
+]
+
+const TEXT_KEYS: TextField[] = [
+  'name',
+  'contact_person',
+  'phone',
+  'address',
+  'registration_number',
+  'bank_name',
+  'bank_branch',
+  'bank_account_name',
+  'bank_account_number',
+  'notes',
+]
+
+function toForm(factory: FactoryWithRate) {
+  const text = Object.fromEntries(TEXT_KEYS.map(key => [key, factory[key] ?? ''])) as Record<TextField, string>
+  return {
+    ...text,
+    distance_km: factory.distance_km?.toString() ?? '',
+    is_active: factory.is_active,
+  }
+}
+
+export function FactoryDetailsForm({ factory, onClose, onSaved }: FactoryDetailsFormProps) {
+  const [form, setForm] = useState(() => toForm(factory))
+  const [saving, setSaving] = useState(false)
+  const { t } = useTranslation()
+
+  const textInput = (key: TextField, label: MessageKey, placeholder?: MessageKey) => (
+    <div key={key} className="space-y-1.5">
+      <Label htmlFor={key} className="text-xs">{t(label)}</Label>
+      <Input
+        id={key}
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        placeholder={placeholder && t(placeholder)}
+        className="h-8"
+      />
+    </div>
+  )
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setSaving(true)
+
+    const distance = parseFloat(form.distance_km)
+    // Blank fields are stored as null; the name is required so it is never blank
+    const text = Object.fromEntries(TEXT_KEYS.map(key => [key, form[key].trim() || null]))
+
+    try {
+      await updateFactory(factory.id, {
+        ...text,
+        name: form.name,
+        distance_km: isNaN(distance) ? null : distance,
+        is_active: form.is_active,
+      })
+      toast.success(t("factories.detailsSaved"))
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving factory details:', error)
+      const duplicate = duplicateFactoryMessage(error)
+      toast.error(duplicate ? t(duplicate) : error.message ?? t("factories.detailsSaveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("factories.details")}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="name" className="text-xs">{t("factories.form.name")}</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className="h-8"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {FIELDS.map(field => textInput(field.key, field.label, field.placeholder))}
+              <div className="space-y-1.5">
+                <Label htmlFor="distance_km" className="text-xs">{t("factories.field.distance")}</Label>
+                <Input
+                  id="distance_km"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={form.distance_km}
+                  onChange={(e) => setForm({ ...form, distance_km: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="address" className="text-xs">{t("factories.field.address")}</Label>
+              <Textarea
+                id="address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2 pt-1">
+              <p className="text-xs font-medium text-muted-foreground">{t("factories.field.bankDetails")}</p>
+              <div className="grid grid-cols-2 gap-3">
+                {BANK_FIELDS.map(field => textInput(field.key, field.label))}
+              </div>
+            </div>
+
+            {textInput('notes', 'common.notes')}
+
+            <div className="flex items-center justify-between rounded-md border px-3 py-2">
+              <div>
+                <Label htmlFor="is_active" className="text-xs">{t("factories.field.active")}</Label>
+                <p className="text-[10px] text-muted-foreground">{t("factories.field.activeHint")}</p>
+              </div>
+              <Switch
+                id="is_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+            </div>
+
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                {t("common.save")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { FactoryPaymentWithAllocations, deleteFactoryPayment, paymentAllocated } from "@/lib/factory-payments"
+
+interface FactoryPaymentsListProps {
+  payments: FactoryPaymentWithAllocations[]
+  onDeleted: () => void
+}
+
+export function FactoryPaymentsList({ payments, onDeleted }: FactoryPaymentsListProps) {
+  const { canEdit } = useOrganization()
+  const { t, date: formatDate, money } = useTranslation()
+
+  async function handleDelete(payment: FactoryPaymentWithAllocations) {
+    if (!confirm(t("factoryPayments.confirmDelete", { amount: money(payment.amount), date: formatDate(payment.payment_date) }))) return
+
+    try {
+      await deleteFactoryPayment(payment.id)
+      toast.success(t("factoryPayments.deleted"))
+      onDeleted()
+    } catch (error: any) {
+      console.error('Error deleting factory payment:', error)
+      toast.error(error.message ?? t("factoryPayments.deleteFailed"))
+    }
+  }
+
+  if (payments.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">{t("factoryPayments.none")}</p>
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {payments.map(payment => {
+        const onAccount = Number(payment.amount) - paymentAllocated(payment)
+        return (
+          <div key={payment.id} className="flex items-center justify-between gap-2 p-2 bg-muted/50 rounded-md text-sm">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{money(payment.amount)}</span>
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t(`factoryPayments.method.${payment.method}`)}</Badge>
+                {onAccount > 0.005 && (
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{t("factoryPayments.onAccount", { amount: money(onAccount) })}</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {formatDate(payment.payment_date)}
+                {payment.reference && ` · ${t("factoryPayments.ref", { reference: payment.reference })}`}
+                {` · ${payment.factory_payment_allocations.length === 1
+                  ? t("factoryPayments.deliveriesOne")
+                  : t("factoryPayments.deliveries", { count: payment.factory_payment_allocations.length })}`}
+              </p>
+            </div>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(payment)}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { History, TrendingDown, TrendingUp } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { useTranslation } from "@/hooks/use-translation"
+import { RateHistoryEntry, rateOn } from "@/lib/factory-rates"
+
+interface FactoryRateTimelineProps {
+  factoryId: string
+  history: RateHistoryEntry[]
+  today: string
+}
+
+// The factory's rates newest first, with the change from the rate before each one
+export function FactoryRateTimeline({ factoryId, history, today }: FactoryRateTimelineProps) {
+  const { t, date: formatDate, money } = useTranslation()
+
+  if (history.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-8 w-8 mx-auto text-muted-foreground/30 mb-2" />
+        <p className="text-muted-foreground text-sm">{t("factories.noHistory")}</p>
+      </div>
+    )
+  }
+
+  const current = rateOn(history, factoryId, today)
+
+  return (
+    <div className="space-y-1.5">
+      {history.map((entry, index) => {
+        const previous = history.at(index + 1)
+        const change = previous ? ((entry.rate - previous.rate) / previous.rate) * 100 : null
+
+        return (
+          <div key={entry.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-md text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{t("teaSales.perKg", { amount: money(entry.rate) })}</span>
+              {entry.id === current?.id && (
+                <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{t("factories.current")}</Badge>
+              )}
+              {entry.effective_date > today && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t("factories.scheduled")}</Badge>
+              )}
+              {change !== null && change !== 0 && (
+                <Badge variant={change > 0 ? "default" : "destructive"} className="text-[10px] px-1.5 py-0">
+                  {change > 0 ? <TrendingUp className="h-2 w-2 mr-0.5" /> : <TrendingDown className="h-2 w-2 mr-0.5" />}
+                  {Math.abs(change).toFixed(1)}%
+                </Badge>
+              )}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {formatDate(entry.effective_date)}
+            </span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
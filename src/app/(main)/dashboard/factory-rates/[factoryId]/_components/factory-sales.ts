@@ -0,0 +1,55 @@
+import { saleOutstanding } from "@/lib/factory-payments"
+import { saleNetIncome } from "@/lib/tea-sale-deductions"
+
+export interface FactorySale {
+  id: string
+  date: string
+  kg_delivered: number
+  rate_per_kg: number
+  total_income: number
+  deductions: number | null
+  net_income: number | null
+  amount_paid: number | null
+  notes: string | null
+}
+
+export const FACTORY_SALE_SELECT = 'id, date, kg_delivered, rate_per_kg, total_income, deductions, net_income, amount_paid, notes'
+
+export interface MonthlySettlement {
+  month: string
+  deliveries: number
+  kg: number
+  gross: number
+  deductions: number
+  net: number
+  outstanding: number
+}
+
+// Factories settle green leaf monthly, so deliveries are totalled per calendar month, newest first
+export function monthlySettlements(sales: FactorySale[]): MonthlySettlement[] {
+  const months = new Map<string, MonthlySettlement>()
+
+  for (const sale of sales) {
+    const month = sale.date.slice(0, 7)
+    const entry = months.get(month) ?? {
+      month,
+      deliveries: 0,
+      kg: 0,
+      gross: 0,
+      deductions: 0,
+      net: 0,
+      outstanding: 0,
+    }
+    const net = saleNetIncome(sale)
+
+    entry.deliveries += 1
+    entry.kg += Number(sale.kg_delivered)
+    entry.gross += Number(sale.total_income)
+    entry.deductions += Number(sale.total_income) - net
+    entry.net += net
+    entry.outstanding += saleOutstanding(sale)
+    months.set(month, entry)
+  }
+
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month))
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { useTranslation } from "@/hooks/use-translation"
+
+import { MonthlySettlement } from "./factory-sales"
+
+// What the factory owes for each month's deliveries after its deductions, and how much is still unpaid
+export function FactorySettlements({ settlements }: { settlements: MonthlySettlement[] }) {
+  const { t, date: formatDate, money } = useTranslation()
+
+  if (settlements.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t("factories.nothingDelivered")}</p>
+  }
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{t("common.month")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.deliveries")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.kg")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("teaSales.gross")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("teaSales.deductions")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.netPayable")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.outstanding")}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {settlements.map(month => (
+            <tr key={month.month}>
+              <td className="px-3 py-2">{formatDate(`${month.month}-01`, 'month')}</td>
+              <td className="px-3 py-2 text-right">{month.deliveries}</td>
+              <td className="px-3 py-2 text-right">{month.kg.toFixed(1)}</td>
+              <td className="px-3 py-2 text-right">{money(month.gross)}</td>
+              <td className="px-3 py-2 text-right text-red-600">
+                {month.deductions > 0 ? `- ${money(month.deductions)}` : '-'}
+              </td>
+              <td className="px-3 py-2 text-right font-medium">{money(month.net)}</td>
+              <td className={`px-3 py-2 text-right ${month.outstanding > 0 ? 'text-amber-600 font-medium' : 'text-green-600'}`}>
+                {month.outstanding > 0 ? money(month.outstanding) : t("factoryPayments.status.paid")}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { ChevronDown, ChevronRight, FileUp, Loader2, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { ReconciliationWithLines, deleteReconciliation, fetchReconciliations } from "@/lib/factory-statements"
+
+import { StatementComparisonTable } from "./statement-comparison-table"
+import { StatementImportDialog } from "./statement-import-dialog"
+
+interface FactoryStatementsProps {
+  orgId: string
+  factory: { id: string; name: string }
+  onSalesChanged: () => void
+}
+
+interface ReconciliationRowProps {
+  reconciliation: ReconciliationWithLines
+  expanded: boolean
+  onToggle: () => void
+  onDelete?: () => void
+}
+
+function ReconciliationRow({ reconciliation, expanded, onToggle, onDelete }: ReconciliationRowProps) {
+  const { t, date: formatDate, kg, money } = useTranslation()
+  const disputed = reconciliation.status === 'disputed'
+  const lines = [...reconciliation.factory_statement_lines].sort((a, b) => a.date.localeCompare(b.date))
+
+  return (
+    <div className="rounded-md bg-muted/50 text-sm">
+      <div className="flex items-center justify-between gap-2 p-2">
+        <button type="button" className="flex items-start gap-2 min-w-0 text-left" onClick={onToggle}>
+          {expanded ? <ChevronDown className="h-4 w-4 mt-0.5 shrink-0" /> : <ChevronRight className="h-4 w-4 mt-0.5 shrink-0" />}
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{formatDate(reconciliation.month, 'month')}</span>
+              <Badge variant={disputed ? 'destructive' : 'secondary'} className="text-[10px] px-1.5 py-0">
+                {t(`statements.status.${reconciliation.status}`)}
+              </Badge>
+              {reconciliation.mismatch_count > 0 && (
+                <span className="text-xs text-amber-600">
+                  {reconciliation.mismatch_count === 1
+                    ? t("statements.differencesOne")
+                    : t("statements.differences", { count: reconciliation.mismatch_count })}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {t("statements.statementFigures", { kg: kg(Number(reconciliation.statement_kg)), amount: money(reconciliation.statement_amount) })}
+              {` · ${t("statements.ourFigures", { kg: kg(Number(reconciliation.recorded_kg)), amount: money(reconciliation.recorded_amount) })}`}
+            </p>
+            {disputed && reconciliation.dispute_reason && (
+              <p className="text-xs text-red-600">{reconciliation.dispute_reason}</p>
+            )}
+          </div>
+        </button>
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+            onClick={onDelete}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      {expanded && (
+        <div className="px-2 pb-2">
+          <StatementComparisonTable lines={lines} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Monthly statements from the factory and whether we accepted or disputed them
+export function FactoryStatements({ orgId, factory, onSalesChanged }: FactoryStatementsProps) {
+  const { canEdit } = useOrganization()
+  const { t, date: formatDate } = useTranslation()
+  const [reconciliations, setReconciliations] = useState<ReconciliationWithLines[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  useEffect(() => {
+    loadReconciliations()
+  }, [orgId, factory.id])
+
+  async function loadReconciliations() {
+    try {
+      setReconciliations(await fetchReconciliations(orgId, factory.id))
+    } catch (error: any) {
+      console.error('Error fetching reconciliations:', error?.message ?? error)
+      toast.error(t("statements.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleDelete(reconciliation: ReconciliationWithLines) {
+    if (!confirm(t("statements.confirmDelete", { month: formatDate(reconciliation.month, 'month') }))) return
+
+    try {
+      await deleteReconciliation(reconciliation.id)
+      setReconciliations(prev => prev.filter(r => r.id !== reconciliation.id))
+      toast.success(t("statements.removed"))
+    } catch (error: any) {
+      console.error('Error deleting reconciliation:', error)
+      toast.error(error.message ?? t("statements.removeFailed"))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">{t("statements.title")}</CardTitle>
+            <CardDescription className="text-xs">{t("statements.description")}</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setImporting(true)}>
+              <FileUp className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("statements.import")}</span>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : reconciliations.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t("statements.none")}</p>
+        ) : (
+          <div className="space-y-1.5">
+            {reconciliations.map(reconciliation => (
+              <ReconciliationRow
+                key={reconciliation.id}
+                reconciliation={reconciliation}
+                expanded={expandedId === reconciliation.id}
+                onToggle={() => setExpandedId(expandedId === reconciliation.id ? null : reconciliation.id)}
+                onDelete={canEdit ? () => handleDelete(reconciliation) : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {importing && (
+        <StatementImportDialog
+          orgId={orgId}
+          factory={factory}
+          onClose={() => setImporting(false)}
+          onSaved={() => {
+            setImporting(false)
+            loadReconciliations()
+            onSalesChanged()
+          }}
+        />
+      )}
+    </Card>
+  )
+}
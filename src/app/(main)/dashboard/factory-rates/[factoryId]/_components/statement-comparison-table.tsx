@@ -0,0 +1,78 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { useTranslation } from "@/hooks/use-translation"
+import { RATE_TOLERANCE, ReconciledLine, figuresDiffer, lineAmount } from "@/lib/factory-statements"
+import type { StatementLineStatus } from "@/types/factories"
+
+const STATUS_STYLES: Record<StatementLineStatus, string> = {
+  matched: 'bg-green-100 text-green-800',
+  mismatch: 'bg-amber-100 text-amber-800',
+  missing_recorded: 'bg-red-100 text-red-800',
+  missing_statement: 'bg-red-100 text-red-800',
+}
+
+interface FigurePairProps {
+  statement: number | null
+  recorded: number | null
+  tolerance?: number
+  render: (value: number) => string
+}
+
+// The factory's figure over ours, highlighted when they disagree
+function FigurePair({ statement, recorded, tolerance, render }: FigurePairProps) {
+  const differs = figuresDiffer(statement, recorded, tolerance)
+  return (
+    <td className={`px-3 py-1.5 text-right whitespace-nowrap ${differs ? 'bg-amber-50 text-amber-800 font-medium' : ''}`}>
+      <div>{statement === null ? '-' : render(Number(statement))}</div>
+      <div className="text-[11px] text-muted-foreground">{recorded === null ? '-' : render(Number(recorded))}</div>
+    </td>
+  )
+}
+
+// Statement lines side by side with our sales; each cell shows the factory's figure above ours
+export function StatementComparisonTable({ lines }: { lines: ReconciledLine[] }) {
+  const { t, date: formatDate, money } = useTranslation()
+
+  if (lines.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">{t("statements.noLines")}</p>
+  }
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{t("common.date")}</th>
+            <th className="text-left font-medium px-3 py-2">{t("common.status")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.kg")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("statements.leafDeduction")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.rate")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("common.amount")}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {lines.map((line, index) => (
+            <tr key={`${line.date}-${index}`} className={line.status.startsWith('missing') ? 'bg-red-50/50' : undefined}>
+              <td className="px-3 py-1.5 whitespace-nowrap">{formatDate(line.date, 'day')}</td>
+              <td className="px-3 py-1.5">
+                <Badge variant="secondary" className={`text-[10px] px-1.5 py-0 ${STATUS_STYLES[line.status]}`}>
+                  {t(`statements.line.${line.status}`)}
+                </Badge>
+              </td>
+              <FigurePair statement={line.statement_kg} recorded={line.recorded_kg} render={value => value.toFixed(1)} />
+              <FigurePair statement={line.statement_deduction_kg} recorded={line.recorded_deduction_kg} render={value => value.toFixed(1)} />
+              <FigurePair statement={line.statement_rate} recorded={line.recorded_rate} tolerance={RATE_TOLERANCE} render={money} />
+              <FigurePair
+                statement={line.statement_kg === null ? null : lineAmount(line.statement_kg, line.statement_deduction_kg, line.statement_rate)}
+                recorded={line.recorded_kg === null ? null : lineAmount(line.recorded_kg, line.recorded_deduction_kg, line.recorded_rate)}
+                tolerance={0.5}
+                render={money}
+              />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
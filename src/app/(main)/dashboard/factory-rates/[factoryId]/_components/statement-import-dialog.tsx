@@ -0,0 +1,226 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { subMonths } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+import { Check, FileSpreadsheet, Loader2, ShieldAlert, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useTranslation } from "@/hooks/use-translation"
+import { parseStatement } from "@/lib/factory-statement-parser"
+import {
+  ReconciledLine,
+  StatementSale,
+  fetchStatementSales,
+  matchStatement,
+  reconciliationTotals,
+  saveReconciliation,
+  statementCorrections
+} from "@/lib/factory-statements"
+import type { FactoryReconciliationStatus } from "@/types/factories"
+
+import { StatementComparisonTable } from "./statement-comparison-table"
+
+interface StatementImportDialogProps {
+  orgId: string
+  factory: { id: string; name: string }
+  onClose: () => void
+  onSaved: () => void
+}
+
+function ReconciliationSummary({ lines }: { lines: ReconciledLine[] }) {
+  const { t, kg, money } = useTranslation()
+  const totals = reconciliationTotals(lines)
+  return (
+    <div className="grid grid-cols-3 gap-2 text-xs">
+      <div className="p-2 bg-muted/50 rounded-md">
+        <div className="font-medium">{totals.statementKg.toFixed(1)} / {kg(totals.recordedKg)}</div>
+        <div className="text-muted-foreground">{t("statements.statementVsOurs")}</div>
+      </div>
+      <div className="p-2 bg-muted/50 rounded-md">
+        <div className="font-medium">{money(totals.statementAmount)} / {money(totals.recordedAmount)}</div>
+        <div className="text-muted-foreground">{t("statements.leafValue")}</div>
+      </div>
+      <div className={`p-2 rounded-md ${totals.mismatches > 0 ? 'bg-amber-50 text-amber-800' : 'bg-green-50 text-green-800'}`}>
+        <div className="font-medium">{totals.mismatches === 0 ? t("statements.allMatch") : t("statements.toReview", { count: totals.mismatches })}</div>
+        <div className="opacity-80">{t("statements.ofLines", { count: lines.length })}</div>
+      </div>
+    </div>
+  )
+}
+
+interface StatementActionsProps {
+  ready: boolean
+  working: boolean
+  disputing: boolean
+  onCancel: () => void
+  onDispute: () => void
+  onAccept: () => void
+}
+
+function StatementActions({ ready, working, disputing, onCancel, onDispute, onAccept }: StatementActionsProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="flex gap-2 justify-end pt-2">
+      <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+        {t("common.cancel")}
+      </Button>
+      <Button size="sm" variant="outline" disabled={!ready || working} onClick={onDispute}>
+        <ShieldAlert className="h-3.5 w-3.5 mr-1.5" />
+        {disputing ? t("statements.saveDispute") : t("statements.dispute")}
+      </Button>
+      <Button size="sm" disabled={!ready || working || disputing} onClick={onAccept}>
+        {working ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Check className="h-3.5 w-3.5 mr-1.5" />}
+        {t("statements.accept")}
+      </Button>
+    </div>
+  )
+}
+
+// Imports a factory's monthly statement, matches it against our sales and records the outcome
+export function StatementImportDialog({ orgId, factory, onClose, onSaved }: StatementImportDialogProps) {
+  const l = useTranslation()
+  const { t } = l
+  const [month, setMonth] = useState(formatInTimeZone(subMonths(new Date(), 1), 'Asia/Colombo', 'yyyy-MM'))
+  const [fileName, setFileName] = useState('')
+  const [fileText, setFileText] = useState('')
+  const [sales, setSales] = useState<StatementSale[]>([])
+  const [lines, setLines] = useState<ReconciledLine[] | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [disputing, setDisputing] = useState(false)
+  const [reason, setReason] = useState('')
+  const [working, setWorking] = useState(false)
+
+  useEffect(() => {
+    if (fileText && month) compareStatement()
+  }, [fileText, month])
+
+  async function compareStatement() {
+    setWorking(true)
+    try {
+      const parsed = parseStatement(fileText, month, l)
+      const monthSales = await fetchStatementSales(orgId, factory.id, month)
+      setErrors(parsed.errors)
+      setSales(monthSales)
+      setLines(parsed.lines.length > 0 ? matchStatement(parsed.lines, monthSales) : null)
+    } catch (error: any) {
+      console.error('Error matching statement:', error)
+      toast.error(error.message ?? t("statements.matchFailed"))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setFileName(file.name)
+    setFileText(await file.text())
+  }
+
+  async function handleSave(status: FactoryReconciliationStatus) {
+    if (!lines) return
+    if (status === 'disputed' && !reason.trim()) {
+      toast.error(t("statements.reasonRequired"))
+      return
+    }
+
+    setWorking(true)
+    try {
+      const saved = status === 'accepted' ? statementCorrections(lines, sales, t) : { lines, corrections: [] }
+      await saveReconciliation(orgId, factory.id, month, status, fileName, reason, saved.lines, saved.corrections)
+      toast.success(status === 'accepted' ? t("statements.accepted") : t("statements.disputed"))
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving reconciliation:', error)
+      toast.error(error.message ?? t("statements.saveFailed"))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">{t("statements.reconcileTitle", { factory: factory.name })}</CardTitle>
+              <CardDescription className="text-xs">{t("statements.fileHint")}</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-y-auto space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="statement_month" className="text-xs">{t("statements.month")}</Label>
+              <Input
+                id="statement_month"
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="h-8"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t("statements.file")}</Label>
+              <label className="flex items-center gap-2 h-8 rounded-md border border-dashed px-3 cursor-pointer hover:bg-muted/50 text-sm">
+                {working ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />}
+                <span className="truncate">{fileName || t("statements.chooseFile")}</span>
+                <Input type="file" accept=".csv" className="hidden" onChange={handleFile} disabled={working} />
+              </label>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-2 rounded-md bg-red-50 text-red-800 text-xs space-y-0.5">
+              {errors.map(error => <p key={error}>{error}</p>)}
+            </div>
+          )}
+
+          {lines && (
+            <>
+              <ReconciliationSummary lines={lines} />
+              <StatementComparisonTable lines={lines} />
+              <p className="text-xs text-muted-foreground">
+                {t("statements.acceptHint")}
+              </p>
+            </>
+          )}
+
+          {lines && disputing && (
+            <div className="space-y-1.5">
+              <Label htmlFor="dispute_reason" className="text-xs">{t("statements.reason")}</Label>
+              <Textarea
+                id="dispute_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t("statements.reasonPlaceholder")}
+                rows={2}
+              />
+            </div>
+          )}
+
+          <StatementActions
+            ready={!!lines}
+            working={working}
+            disputing={disputing}
+            onCancel={onClose}
+            onDispute={() => (disputing ? handleSave('disputed') : setDisputing(true))}
+            onAccept={() => handleSave('accepted')}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { FactoryDetail } from "./_components/factory-detail"
+
+interface FactoryPageProps {
+  params: Promise<{ factoryId: string }>
+}
+
+export default async function FactoryPage({ params }: FactoryPageProps) {
+  const { factoryId } = await params
+  return <FactoryDetail factoryId={factoryId} />
+}
@@ -0,0 +1,231 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { Loader2, Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { supabase } from "@/lib/supabase"
+import { DEDUCTION_METHODS, DEDUCTION_UNITS, fetchDeductionTypes } from "@/lib/tea-sale-deductions"
+import type { DeductionMethod, FactoryDeductionType } from "@/types/factories"
+
+interface DeductionTypesDialogProps {
+  orgId: string
+  factory: { id: string; name: string }
+  onClose: () => void
+}
+
+const EMPTY_FORM = { name: '', method: 'fixed' as DeductionMethod, default_value: '' }
+
+// The deductions a factory takes, pre-filled on every new sale to that factory
+export function DeductionTypesDialog({ orgId, factory, onClose }: DeductionTypesDialogProps) {
+  const { canEdit, canDelete } = useOrganization()
+  const { t } = useTranslation()
+  const [types, setTypes] = useState<FactoryDeductionType[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  useEffect(() => {
+    loadTypes()
+  }, [factory.id])
+
+  async function loadTypes() {
+    try {
+      setTypes(await fetchDeductionTypes(orgId, factory.id))
+    } catch (error: any) {
+      console.error('Error fetching deduction types:', error?.message ?? error)
+      toast.error(t("deductions.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault()
+    if (!form.name.trim()) {
+      toast.error(t("deductions.nameRequired"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await supabase.from('factory_deduction_types').insert({
+        organization_id: orgId,
+        factory_id: factory.id,
+        name: form.name.trim(),
+        method: form.method,
+        default_value: parseFloat(form.default_value) || 0
+      })
+
+      if (error) throw error
+      setForm(EMPTY_FORM)
+      loadTypes()
+    } catch (error: any) {
+      console.error('Error saving deduction type:', error)
+      toast.error(error.code === '23505' ? t("deductions.duplicate") : error.message ?? t("deductions.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleUpdate(type: FactoryDeductionType, changes: Partial<Pick<FactoryDeductionType, 'default_value' | 'is_active'>>) {
+    const { error } = await supabase
+      .from('factory_deduction_types')
+      .update(changes)
+      .eq('id', type.id)
+
+    if (error) {
+      toast.error(error.message)
+      return
+    }
+    setTypes(prev => prev.map(existing => existing.id === type.id ? { ...existing, ...changes } : existing))
+  }
+
+  // Past sales keep their copied lines; only the link to the type is cleared
+  async function handleDelete(type: FactoryDeductionType) {
+    if (!confirm(t("deductions.confirmDelete", { name: type.name }))) return
+
+    const { error } = await supabase.from('factory_deduction_types').delete().eq('id', type.id)
+    if (error) {
+      toast.error(error.message)
+      return
+    }
+    setTypes(prev => prev.filter(existing => existing.id !== type.id))
+    toast.success(t("deductions.deleted"))
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">{t("deductions.title", { factory: factory.name })}</CardTitle>
+              <CardDescription className="text-xs">
+                {t("deductions.description")}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : types.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">{t("deductions.noneSetUp")}</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {types.map(type => (
+                <div key={type.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{type.name}</span>
+                      {!type.is_active && <Badge variant="outline" className="text-xs">{t("factories.inactive")}</Badge>}
+                    </div>
+                    <span className="text-xs text-muted-foreground">{t(`deductions.method.${type.method}`)}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <div className="relative w-24">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        defaultValue={type.default_value}
+                        onBlur={(e) => {
+                          const value = parseFloat(e.target.value) || 0
+                          if (value !== Number(type.default_value)) handleUpdate(type, { default_value: value })
+                        }}
+                        disabled={!canEdit}
+                        className="h-7 text-xs pr-9"
+                      />
+                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
+                        {DEDUCTION_UNITS[type.method]}
+                      </span>
+                    </div>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => handleUpdate(type, { is_active: !type.is_active })}
+                      >
+                        {type.is_active ? t("deductions.deactivate") : t("deductions.activate")}
+                      </Button>
+                    )}
+                    {canDelete && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                        onClick={() => handleDelete(type)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canEdit && (
+            <form onSubmit={handleAdd} className="grid grid-cols-[1fr_8rem_5rem_auto] items-end gap-1.5">
+              <div className="space-y-1.5">
+                <Label htmlFor="deduction_name" className="text-xs">{t("common.name")}</Label>
+                <Input
+                  id="deduction_name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder={t("deductions.namePlaceholder")}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">{t("deductions.workedOutAs")}</Label>
+                <Select value={form.method} onValueChange={(value) => setForm({ ...form, method: value as DeductionMethod })}>
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEDUCTION_METHODS.map(method => (
+                      <SelectItem key={method} value={method} className="text-xs">{t(`deductions.method.${method}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="deduction_value" className="text-xs">{DEDUCTION_UNITS[form.method]}</Label>
+                <Input
+                  id="deduction_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.default_value}
+                  onChange={(e) => setForm({ ...form, default_value: e.target.value })}
+                  placeholder="0"
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Button type="submit" size="sm" className="h-8" disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Plus className="h-3.5 w-3.5" />}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
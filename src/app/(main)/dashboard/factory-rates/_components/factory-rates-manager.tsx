@@ -1,7 +1,9 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { Plus, Search, TrendingUp, TrendingDown, Factory, Edit, Trash2, X, Loader2, History, CalendarDays, SortAsc, ArrowDownAZ } from "lucide-react"
+
+import Link from "next/link"
+import { Plus, Search, TrendingUp, TrendingDown, Factory, Edit, Trash2, X, Loader2, History, CalendarDays, SortAsc, ArrowDownAZ, Receipt } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -13,44 +15,33 @@ import { DataTablePagination } from "@/components/data-table/data-table-paginati
 
 import { ColumnDef } from "@tanstack/react-table"
 import { useDataTableInstance } from "@/hooks/use-data-table-instance"
+import { useTranslation } from "@/hooks/use-translation"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { FactoryWithRate, createFactory, duplicateFactoryMessage, fetchFactories as fetchFactoryList, updateFactory } from "@/lib/factories"
+import { RateHistoryEntry, addRateHistory, applyDueFactoryRates, fetchRateHistories, rateOn, scheduledRates } from "@/lib/factory-rates"
+import type { Translate } from "@/lib/i18n"
 import { supabase } from "@/lib/supabase"
-import { formatCurrency } from "@/lib/utils"
-import { format, differenceInDays } from "date-fns"
+import { differenceInDays } from "date-fns"
 import { formatInTimeZone } from "date-fns-tz"
 import { toast } from "sonner"
 import { useOrganization } from "@/contexts/organization-context"
 
+import { DeductionTypesDialog } from "./deduction-types-dialog"
+
 const SL_TIMEZONE = 'Asia/Colombo'
 
 function getSLDate() {
   return formatInTimeZone(new Date(), SL_TIMEZONE, 'yyyy-MM-dd')
 }
 
-function formatSLDate(dateStr: string, formatStr: string = 'MMM dd, yyyy') {
-  const date = new Date(dateStr + 'T00:00:00')
-  return format(date, formatStr)
-}
-
-function getRelativeTime(dateStr: string) {
+function getRelativeTime(dateStr: string, t: Translate) {
   const days = differenceInDays(new Date(), new Date(dateStr + 'T00:00:00'))
-  if (days === 0) return 'Today'
-  if (days === 1) return 'Yesterday'
-  if (days < 7) return `${days}d ago`
-  if (days < 30) return `${Math.floor(days / 7)}w ago`
-  if (days < 365) return `${Math.floor(days / 30)}mo ago`
-  return `${Math.floor(days / 365)}y ago`
-}
-
-interface FactoryRate {
-  id: string
-  factory_name: string
-  current_rate: number
-  previous_rate: number | null
-  effective_date: string
-  notes?: string
-  created_at: string
-  updated_at: string
+  if (days === 0) return t("factories.relative.today")
+  if (days === 1) return t("factories.relative.yesterday")
+  if (days < 7) return t("factories.relative.days", { count: days })
+  if (days < 30) return t("factories.relative.weeks", { count: Math.floor(days / 7) })
+  if (days < 365) return t("factories.relative.months", { count: Math.floor(days / 30) })
+  return t("factories.relative.years", { count: Math.floor(days / 365) })
 }
 
 interface RateHistory {
@@ -66,18 +57,21 @@ type SortOption = 'a-z' | 'z-a' | 'highest' | 'lowest' | 'newest' | 'oldest'
 export function FactoryRatesManager() {
   const { currentOrganization, loading: orgLoading } = useOrganization()
   const orgId = currentOrganization?.organization_id
+  const { t, date: formatDate, money } = useTranslation()
   
-  const [factories, setFactories] = useState<FactoryRate[]>([])
+  const [factories, setFactories] = useState<FactoryWithRate[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [sortBy, setSortBy] = useState<SortOption>('a-z')
   const [showForm, setShowForm] = useState(false)
   const [showHistory, setShowHistory] = useState(false)
-  const [selectedFactory, setSelectedFactory] = useState<FactoryRate | null>(null)
+  const [deductionsFactory, setDeductionsFactory] = useState<FactoryWithRate | null>(null)
+  const [selectedFactory, setSelectedFactory] = useState<FactoryWithRate | null>(null)
   const [rateHistory, setRateHistory] = useState<RateHistory[]>([])
+  const [allHistory, setAllHistory] = useState<RateHistoryEntry[]>([])
   const [historyLoading, setHistoryLoading] = useState(false)
   const [formLoading, setFormLoading] = useState(false)
-  const [editingFactory, setEditingFactory] = useState<FactoryRate | null>(null)
+  const [editingFactory, setEditingFactory] = useState<FactoryWithRate | null>(null)
   const [formData, setFormData] = useState({
     factory_name: '',
     current_rate: '',
@@ -87,35 +81,31 @@ export function FactoryRatesManager() {
 
   useEffect(() => {
     if (orgId) {
-      fetchFactories()
+      refreshRates()
     }
   }, [orgId])
 
+  // Switches on scheduled rates that have fallen due, then reloads factories and their history
+  async function refreshRates() {
+    if (!orgId) return
+    try {
+      await applyDueFactoryRates(orgId)
+    } catch (error: any) {
+      console.error('Error applying scheduled rates:', error?.message ?? error)
+    }
+    fetchFactories()
+    fetchRateHistories(orgId)
+      .then(setAllHistory)
+      .catch(error => console.error('Error fetching rate history:', error?.message ?? error))
+  }
+
   async function fetchFactories() {
     if (!orgId) return
     try {
-      const { data, error } = await supabase
-        .from('factory_rates')
-        .select('*')
-        .eq('organization_id', orgId)
-        .order('factory_name')
-
-      if (error) {
-        // Fallback if organization_id column doesn't exist
-        if (error.message?.includes('organization_id') || error.code === '42703') {
-          const { data: fallbackData } = await supabase
-            .from('factory_rates')
-            .select('*')
-            .order('factory_name')
-          setFactories(fallbackData || [])
-          return
-        }
-        throw error
-      }
-      setFactories(data || [])
+      setFactories(await fetchFactoryList(orgId))
     } catch (error: any) {
       console.error('Error fetching factories:', error?.message || error)
-      toast.error("Failed to load factory rates")
+      toast.error(t("factories.loadFailed"))
     } finally {
       setLoading(false)
     }
@@ -135,49 +125,49 @@ export function FactoryRatesManager() {
       setRateHistory(data || [])
     } catch (error) {
       console.error('Error fetching rate history:', error)
-      toast.error("Failed to load rate history")
+      toast.error(t("factories.historyLoadFailed"))
     } finally {
       setHistoryLoading(false)
     }
   }
 
-  const handleEdit = useCallback((factory: FactoryRate) => {
+  const handleEdit = useCallback((factory: FactoryWithRate) => {
     setEditingFactory(factory)
     setFormData({
-      factory_name: factory.factory_name,
-      current_rate: factory.current_rate.toString(),
-      effective_date: factory.effective_date,
+      factory_name: factory.name,
+      current_rate: factory.current_rate?.toString() ?? '',
+      effective_date: factory.effective_date ?? getSLDate(),
       notes: factory.notes || ''
     })
     setShowForm(true)
   }, [])
 
-  const handleViewHistory = useCallback(async (factory: FactoryRate) => {
+  const handleViewHistory = useCallback(async (factory: FactoryWithRate) => {
     setSelectedFactory(factory)
     setShowHistory(true)
     await fetchRateHistory(factory.id)
   }, [])
 
-  const handleDelete = useCallback(async (factory: FactoryRate) => {
-    if (!confirm(`Delete ${factory.factory_name}? This will also delete all rate history.`)) {
+  const handleDelete = useCallback(async (factory: FactoryWithRate) => {
+    if (!confirm(t("factories.confirmDelete", { name: factory.name }))) {
       return
     }
 
     try {
       const { error } = await supabase
-        .from('factory_rates')
+        .from('factories')
         .delete()
         .eq('id', factory.id)
       
       if (error) throw error
       
       setFactories(prev => prev.filter(f => f.id !== factory.id))
-      toast.success("Factory deleted successfully")
+      toast.success(t("factories.deleted"))
     } catch (error: any) {
       console.error('Error deleting factory:', error)
-      toast.error(error.message || "Failed to delete factory")
+      toast.error(error.message || t("factories.deleteFailed"))
     }
-  }, [])
+  }, [t])
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
@@ -186,69 +176,32 @@ export function FactoryRatesManager() {
     const rate = parseFloat(formData.current_rate)
 
     try {
+      if (!orgId) return
+      // Rates only change through rate_history; the current rate follows once the effective date arrives
       if (editingFactory) {
-        const rateChanged = editingFactory.current_rate !== rate
-
-        const updateData: any = {
-          factory_name: formData.factory_name,
-          current_rate: rate,
-          effective_date: formData.effective_date,
-          notes: formData.notes || null
-        }
+        await updateFactory(editingFactory.id, { notes: formData.notes || null })
 
-        if (rateChanged) {
-          updateData.previous_rate = editingFactory.current_rate
-
-          await supabase
-            .from('rate_history')
-            .insert({
-              factory_id: editingFactory.id,
-              rate: rate,
-              effective_date: formData.effective_date
-            })
+        if (editingFactory.current_rate !== rate || editingFactory.effective_date !== formData.effective_date) {
+          await addRateHistory(orgId, editingFactory.id, rate, formData.effective_date)
         }
+      } else {
+        await createFactory(orgId, { name: formData.factory_name, notes: formData.notes || null }, rate, formData.effective_date)
+      }
 
-        const { error } = await supabase
-          .from('factory_rates')
-          .update(updateData)
-          .eq('id', editingFactory.id)
-        
-        if (error) throw error
-        
-        toast.success("Factory rate updated successfully")
+      if (formData.effective_date > getSLDate()) {
+        toast.success(t("factories.rateScheduled", { rate: money(rate), date: formatDate(formData.effective_date) }))
       } else {
-        const { data, error } = await supabase
-          .from('factory_rates')
-          .insert({
-            factory_name: formData.factory_name,
-            current_rate: rate,
-            effective_date: formData.effective_date,
-            notes: formData.notes || null,
-            organization_id: orgId
-          })
-          .select()
-          .single()
-        
-        if (error) throw error
-
-        await supabase
-          .from('rate_history')
-          .insert({
-            factory_id: data.id,
-            rate: rate,
-            effective_date: formData.effective_date
-          })
-        
-        toast.success("Factory added successfully")
+        toast.success(editingFactory ? t("factories.rateUpdated") : t("factories.added"))
       }
 
       setShowForm(false)
       setEditingFactory(null)
       resetForm()
-      fetchFactories()
+      refreshRates()
     } catch (error: any) {
       console.error('Error saving factory:', error)
-      toast.error(error.message || "Failed to save factory")
+      const duplicate = duplicateFactoryMessage(error)
+      toast.error(duplicate ? t(duplicate) : error.message ?? t("factories.saveFailed"))
     } finally {
       setFormLoading(false)
     }
@@ -271,28 +224,28 @@ export function FactoryRatesManager() {
 
   const filteredFactories = useMemo(() => {
     let result = factories.filter(factory =>
-      factory.factory_name.toLowerCase().includes(searchTerm.toLowerCase())
+      factory.name.toLowerCase().includes(searchTerm.toLowerCase())
     )
     
     // Apply sorting
     switch (sortBy) {
       case 'a-z':
-        result = [...result].sort((a, b) => a.factory_name.localeCompare(b.factory_name))
+        result = [...result].sort((a, b) => a.name.localeCompare(b.name))
         break
       case 'z-a':
-        result = [...result].sort((a, b) => b.factory_name.localeCompare(a.factory_name))
+        result = [...result].sort((a, b) => b.name.localeCompare(a.name))
         break
       case 'highest':
-        result = [...result].sort((a, b) => b.current_rate - a.current_rate)
+        result = [...result].sort((a, b) => (b.current_rate ?? 0) - (a.current_rate ?? 0))
         break
       case 'lowest':
-        result = [...result].sort((a, b) => a.current_rate - b.current_rate)
+        result = [...result].sort((a, b) => (a.current_rate ?? 0) - (b.current_rate ?? 0))
         break
       case 'newest':
-        result = [...result].sort((a, b) => new Date(b.effective_date).getTime() - new Date(a.effective_date).getTime())
+        result = [...result].sort((a, b) => (b.effective_date ?? '').localeCompare(a.effective_date ?? ''))
         break
       case 'oldest':
-        result = [...result].sort((a, b) => new Date(a.effective_date).getTime() - new Date(b.effective_date).getTime())
+        result = [...result].sort((a, b) => (a.effective_date ?? '').localeCompare(b.effective_date ?? ''))
         break
     }
     
@@ -315,13 +268,18 @@ export function FactoryRatesManager() {
     })
   }, [rateHistory])
 
-  const columns: ColumnDef<FactoryRate>[] = useMemo(() => [
+  const today = getSLDate()
+  const currentEntry = selectedFactory ? rateOn(rateHistory, selectedFactory.id, today) : null
+
+  const columns: ColumnDef<FactoryWithRate>[] = useMemo(() => [
     {
-      accessorKey: "factory_name",
-      header: "Factory Name",
+      accessorKey: "name",
+      header: t("factories.name"),
       cell: ({ row }) => (
         <div className="flex flex-col">
-          <span className="font-medium">{row.getValue("factory_name")}</span>
+          <Link href={`/dashboard/factory-rates/${row.original.id}`} className="font-medium hover:underline">
+            {row.getValue("name")}
+          </Link>
           {row.original.notes && (
             <span className="text-[10px] text-muted-foreground truncate max-w-[150px]">{row.original.notes}</span>
           )}
@@ -330,20 +288,30 @@ export function FactoryRatesManager() {
     },
     {
       accessorKey: "current_rate",
-      header: "Current Rate",
+      header: t("factories.currentRate"),
       cell: ({ row }) => {
-        const rate = row.getValue("current_rate") as number
+        const rate = row.getValue("current_rate") as number | null
+        if (rate === null) return <span className="text-muted-foreground text-xs">{t("factories.noRate")}</span>
+
         const previousRate = row.original.previous_rate
         const change = previousRate ? ((rate - previousRate) / previousRate) * 100 : null
+        const [upcoming] = scheduledRates(allHistory, row.original.id, getSLDate())
         
         return (
-          <div className="flex items-center gap-2">
-            <span className="font-bold">{formatCurrency(rate)}/kg</span>
-            {change !== null && (
-              <Badge variant={change >= 0 ? "default" : "destructive"} className="text-[10px] px-1.5 py-0">
-                {change >= 0 ? <TrendingUp className="h-2.5 w-2.5 mr-0.5" /> : <TrendingDown className="h-2.5 w-2.5 mr-0.5" />}
-                {Math.abs(change).toFixed(1)}%
-              </Badge>
+          <div className="space-y-0.5">
+            <div className="flex items-center gap-2">
+              <span className="font-bold">{t("teaSales.perKg", { amount: money(rate) })}</span>
+              {change !== null && (
+                <Badge variant={change >= 0 ? "default" : "destructive"} className="text-[10px] px-1.5 py-0">
+                  {change >= 0 ? <TrendingUp className="h-2.5 w-2.5 mr-0.5" /> : <TrendingDown className="h-2.5 w-2.5 mr-0.5" />}
+                  {Math.abs(change).toFixed(1)}%
+                </Badge>
+              )}
+            </div>
+            {upcoming && (
+              <div className="text-xs text-muted-foreground">
+                {t("factories.rateFrom", { rate: money(upcoming.rate), date: formatDate(upcoming.effective_date, 'day') })}
+              </div>
             )}
           </div>
         )
@@ -351,32 +319,34 @@ export function FactoryRatesManager() {
     },
     {
       accessorKey: "previous_rate",
-      header: "Previous",
+      header: t("factories.previous"),
       cell: ({ row }) => {
         const previousRate = row.getValue("previous_rate") as number | null
         return previousRate ? (
-          <span className="text-muted-foreground">{formatCurrency(previousRate)}/kg</span>
+          <span className="text-muted-foreground">{t("teaSales.perKg", { amount: money(previousRate) })}</span>
         ) : (
-          <span className="text-muted-foreground text-xs">First rate</span>
+          <span className="text-muted-foreground text-xs">{t("factories.firstRate")}</span>
         )
       },
     },
     {
       accessorKey: "effective_date",
-      header: "Updated",
+      header: t("factories.updated"),
       cell: ({ row }) => {
-        const date = row.getValue("effective_date") as string
+        const date = row.getValue("effective_date") as string | null
+        if (!date) return <span className="text-muted-foreground text-xs">-</span>
+
         return (
           <TooltipProvider>
             <Tooltip>
               <TooltipTrigger asChild>
                 <span className="text-sm text-muted-foreground cursor-help flex items-center gap-1">
                   <CalendarDays className="h-3 w-3" />
-                  {getRelativeTime(date)}
+                  {getRelativeTime(date, t)}
                 </span>
               </TooltipTrigger>
               <TooltipContent>
-                <p>{formatSLDate(date, 'EEEE, MMMM dd, yyyy')}</p>
+                <p>{formatDate(date, 'weekdayDate')}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -402,7 +372,22 @@ export function FactoryRatesManager() {
                     <History className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>View rate history</TooltipContent>
+                <TooltipContent>{t("factories.viewHistory")}</TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => setDeductionsFactory(factory)}
+                  >
+                    <Receipt className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>{t("factories.saleDeductions")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
             <TooltipProvider>
@@ -417,7 +402,7 @@ export function FactoryRatesManager() {
                     <Edit className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Edit rate</TooltipContent>
+                <TooltipContent>{t("factories.editRate")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
             <TooltipProvider>
@@ -432,14 +417,14 @@ export function FactoryRatesManager() {
                     <Trash2 className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Delete factory</TooltipContent>
+                <TooltipContent>{t("factories.delete")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
         )
       },
     },
-  ], [handleEdit, handleViewHistory, handleDelete])
+  ], [handleEdit, handleViewHistory, handleDelete, allHistory, t, formatDate, money])
 
   const table = useDataTableInstance({
     data: filteredFactories,
@@ -451,7 +436,7 @@ export function FactoryRatesManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
@@ -460,7 +445,7 @@ export function FactoryRatesManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading factory rates...</span>
+        <span className="text-sm text-muted-foreground">{t("factories.loading")}</span>
       </div>
     )
   }
@@ -470,10 +455,10 @@ export function FactoryRatesManager() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Factory Rates</h2>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("factories.title")}</h2>
           <Button onClick={() => setShowForm(true)} size="sm">
             <Plus className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">Add Factory</span>
+            <span className="hidden sm:inline">{t("factories.add")}</span>
           </Button>
         </div>
 
@@ -481,7 +466,7 @@ export function FactoryRatesManager() {
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search factories..."
+              placeholder={t("factories.search")}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10"
@@ -505,22 +490,22 @@ export function FactoryRatesManager() {
               </SelectItem>
               <SelectItem value="highest">
                 <span className="flex items-center gap-1.5">
-                  <TrendingUp className="h-3.5 w-3.5" /> Highest
+                  <TrendingUp className="h-3.5 w-3.5" /> {t("factories.sort.highest")}
                 </span>
               </SelectItem>
               <SelectItem value="lowest">
                 <span className="flex items-center gap-1.5">
-                  <TrendingDown className="h-3.5 w-3.5" /> Lowest
+                  <TrendingDown className="h-3.5 w-3.5" /> {t("factories.sort.lowest")}
                 </span>
               </SelectItem>
               <SelectItem value="newest">
                 <span className="flex items-center gap-1.5">
-                  <CalendarDays className="h-3.5 w-3.5" /> Newest
+                  <CalendarDays className="h-3.5 w-3.5" /> {t("factories.sort.newest")}
                 </span>
               </SelectItem>
               <SelectItem value="oldest">
                 <span className="flex items-center gap-1.5">
-                  <CalendarDays className="h-3.5 w-3.5" /> Oldest
+                  <CalendarDays className="h-3.5 w-3.5" /> {t("factories.sort.oldest")}
                 </span>
               </SelectItem>
             </SelectContent>
@@ -531,10 +516,10 @@ export function FactoryRatesManager() {
       {/* Factory Table */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-base">Factory Rates</CardTitle>
+          <CardTitle className="text-base">{t("factories.title")}</CardTitle>
           <CardDescription className="text-xs">
-            {filteredFactories.length} {filteredFactories.length === 1 ? 'factory' : 'factories'}
-            {searchTerm && ` matching "${searchTerm}"`}
+            {filteredFactories.length === 1 ? t("factories.countOne") : t("factories.count", { count: filteredFactories.length })}
+            {searchTerm && t("factories.matching", { search: searchTerm })}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -549,10 +534,10 @@ export function FactoryRatesManager() {
         <div className="text-center py-12">
           <Factory className="h-12 w-12 mx-auto text-muted-foreground/30 mb-4" />
           <p className="text-muted-foreground">
-            {searchTerm ? `No factories matching "${searchTerm}"` : 'No factories found'}
+            {searchTerm ? t("factories.noneMatching", { search: searchTerm }) : t("factories.none")}
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            {searchTerm ? 'Try a different search term' : 'Add factories you sell tea to'}
+            {searchTerm ? t("factories.tryDifferentSearch") : t("factories.addHint")}
           </p>
         </div>
       )}
@@ -564,10 +549,10 @@ export function FactoryRatesManager() {
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle className="text-base">{editingFactory ? 'Update Rate' : 'Add Factory'}</CardTitle>
+                  <CardTitle className="text-base">{editingFactory ? t("factories.updateRate") : t("factories.add")}</CardTitle>
                   {editingFactory && (
                     <CardDescription className="text-xs">
-                      Current: {formatCurrency(editingFactory.current_rate)}/kg
+                      {t("factories.currentPerKg", { rate: money(editingFactory.current_rate ?? 0) })}
                     </CardDescription>
                   )}
                 </div>
@@ -579,12 +564,12 @@ export function FactoryRatesManager() {
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-3">
                 <div className="space-y-1.5">
-                  <Label htmlFor="factory_name" className="text-xs">Factory Name *</Label>
+                  <Label htmlFor="factory_name" className="text-xs">{t("factories.form.name")}</Label>
                   <Input
                     id="factory_name"
                     value={formData.factory_name}
                     onChange={(e) => setFormData({...formData, factory_name: e.target.value})}
-                    placeholder="e.g., Ceylon Tea Factory"
+                    placeholder={t("factories.form.namePlaceholder")}
                     required
                     disabled={!!editingFactory}
                     className="h-8"
@@ -593,7 +578,7 @@ export function FactoryRatesManager() {
 
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
-                    <Label htmlFor="current_rate" className="text-xs">Rate/KG (රු.) *</Label>
+                    <Label htmlFor="current_rate" className="text-xs">{t("teaSales.form.rate")}</Label>
                     <Input
                       id="current_rate"
                       type="number"
@@ -607,7 +592,7 @@ export function FactoryRatesManager() {
                   </div>
 
                   <div className="space-y-1.5">
-                    <Label htmlFor="effective_date" className="text-xs">Effective Date *</Label>
+                    <Label htmlFor="effective_date" className="text-xs">{t("factories.form.effectiveDate")}</Label>
                     <Input
                       id="effective_date"
                       type="date"
@@ -620,10 +605,10 @@ export function FactoryRatesManager() {
                 </div>
 
                 {/* Show rate change preview when editing */}
-                {editingFactory && formData.current_rate && parseFloat(formData.current_rate) !== editingFactory.current_rate && (
+                {editingFactory?.current_rate && formData.current_rate && parseFloat(formData.current_rate) !== editingFactory.current_rate && (
                   <div className="p-2 bg-muted/50 rounded-md">
                     <div className="flex justify-between items-center text-sm">
-                      <span className="text-muted-foreground">Change:</span>
+                      <span className="text-muted-foreground">{t("factories.change")}</span>
                       <div className="flex items-center gap-1">
                         {parseFloat(formData.current_rate) > editingFactory.current_rate ? (
                           <TrendingUp className="h-3 w-3 text-green-500" />
@@ -634,7 +619,7 @@ export function FactoryRatesManager() {
                           {((parseFloat(formData.current_rate) - editingFactory.current_rate) / editingFactory.current_rate * 100).toFixed(1)}%
                         </span>
                         <span className="text-muted-foreground">
-                          ({formatCurrency(parseFloat(formData.current_rate) - editingFactory.current_rate)})
+                          ({money(parseFloat(formData.current_rate) - editingFactory.current_rate)})
                         </span>
                       </div>
                     </div>
@@ -642,23 +627,23 @@ export function FactoryRatesManager() {
                 )}
 
                 <div className="space-y-1.5">
-                  <Label htmlFor="notes" className="text-xs">Notes</Label>
+                  <Label htmlFor="notes" className="text-xs">{t("common.notes")}</Label>
                   <Input
                     id="notes"
                     value={formData.notes}
                     onChange={(e) => setFormData({...formData, notes: e.target.value})}
-                    placeholder="Optional notes"
+                    placeholder={t("teaSales.form.notesPlaceholder")}
                     className="h-8"
                   />
                 </div>
                 
                 <div className="flex gap-2 justify-end pt-2">
                   <Button type="button" variant="outline" size="sm" onClick={handleCloseForm}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={formLoading}>
                     {formLoading && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
-                    {editingFactory ? 'Update' : 'Add'}
+                    {editingFactory ? t("factories.update") : t("factories.addSubmit")}
                   </Button>
                 </div>
               </form>
@@ -667,6 +652,14 @@ export function FactoryRatesManager() {
         </div>
       )}
 
+      {deductionsFactory && orgId && (
+        <DeductionTypesDialog
+          orgId={orgId}
+          factory={deductionsFactory}
+          onClose={() => setDeductionsFactory(null)}
+        />
+      )}
+
       {/* Rate History Modal */}
       {showHistory && selectedFactory && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
@@ -674,9 +667,9 @@ export function FactoryRatesManager() {
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
                 <div>
-                  <CardTitle className="text-base">{selectedFactory.factory_name}</CardTitle>
+                  <CardTitle className="text-base">{selectedFactory.name}</CardTitle>
                   <CardDescription className="text-xs">
-                    {historyLoading ? 'Loading...' : `${rateHistory.length} rate ${rateHistory.length === 1 ? 'change' : 'changes'}`}
+                    {historyLoading ? t("common.loading") : rateHistory.length === 1 ? t("factories.rateChangesOne") : t("factories.rateChanges", { count: rateHistory.length })}
                   </CardDescription>
                 </div>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setShowHistory(false)}>
@@ -692,14 +685,17 @@ export function FactoryRatesManager() {
               ) : historyWithChanges.length > 0 ? (
                 <div className="space-y-1.5">
                   {historyWithChanges.map((entry, index) => {
-                    const isCurrent = entry.rate === selectedFactory.current_rate && 
-                      historyWithChanges.filter(e => e.rate === selectedFactory.current_rate).indexOf(entry) === 0
+                    const isCurrent = entry.id === currentEntry?.id
+                    const isScheduled = entry.effective_date > today
                     return (
                     <div key={entry.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-md text-sm">
                       <div className="flex items-center gap-2">
-                        <span className="font-medium">{formatCurrency(entry.rate)}/kg</span>
+                        <span className="font-medium">{t("teaSales.perKg", { amount: money(entry.rate) })}</span>
                         {isCurrent && (
-                          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Current</Badge>
+                          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{t("factories.current")}</Badge>
+                        )}
+                        {isScheduled && (
+                          <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t("factories.scheduled")}</Badge>
                         )}
                         {entry.changePercent !== null && (
                           <Badge 
@@ -716,7 +712,7 @@ export function FactoryRatesManager() {
                         )}
                       </div>
                       <span className="text-xs text-muted-foreground">
-                        {formatSLDate(entry.effective_date)}
+                        {formatDate(entry.effective_date)}
                       </span>
                     </div>
                     )
@@ -725,7 +721,7 @@ export function FactoryRatesManager() {
               ) : (
                 <div className="text-center py-8">
                   <History className="h-8 w-8 mx-auto text-muted-foreground/30 mb-2" />
-                  <p className="text-muted-foreground text-sm">No rate history</p>
+                  <p className="text-muted-foreground text-sm">{t("factories.noHistory")}</p>
                 </div>
               )}
             </CardContent>
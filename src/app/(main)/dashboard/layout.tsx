@@ -20,6 +20,7 @@ import {
 } from "@/types/preferences/layout";
 
 import { AccountSwitcher } from "./_components/sidebar/account-switcher";
+import { LanguageSwitcher } from "./_components/sidebar/language-switcher";
 import { LayoutControls } from "./_components/sidebar/layout-controls";
 import { SearchDialog } from "./_components/sidebar/search-dialog";
 import { ThemeSwitcher } from "./_components/sidebar/theme-switcher";
@@ -71,6 +72,7 @@ export default async function Layout({ children }: Readonly<{ children: ReactNod
             </div>
             <div className="flex items-center gap-2">
               <LayoutControls {...layoutPreferences} />
+              <LanguageSwitcher />
               <ThemeSwitcher />
               <AccountSwitcher />
             </div>
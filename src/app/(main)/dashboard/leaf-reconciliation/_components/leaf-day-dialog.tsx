@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import Link from "next/link"
+
+import { Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import { LeafDay, LeafDayRecords, fetchLeafDayRecords } from "@/lib/leaf-reconciliation"
+
+interface LeafDayDialogProps {
+  orgId: string
+  day: LeafDay
+  onClose: () => void
+}
+
+function RecordList({ title, href, rows }: { title: string; href: string; rows: { id: string; label: string; kg: number }[] }) {
+  const { t, kg } = useTranslation()
+  const total = rows.reduce((sum, row) => sum + Number(row.kg), 0)
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-xs">
+        <Link href={href} className="font-medium hover:underline">{title}</Link>
+        <span className="text-muted-foreground">{kg(total)}</span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-2">{t("leaf.noneRecorded")}</p>
+      ) : (
+        <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+          {rows.map(row => (
+            <div key={row.id} className="flex justify-between gap-2 px-2 py-1.5 text-xs">
+              <span className="truncate">{row.label}</span>
+              <span>{kg(Number(row.kg))}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// The worker weighings and factory deliveries behind one day's totals
+export function LeafDayDialog({ orgId, day, onClose }: LeafDayDialogProps) {
+  const { t, date: formatDate, kg } = useTranslation()
+  const [records, setRecords] = useState<LeafDayRecords>({ plucking: [], sales: [] })
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadRecords()
+  }, [orgId, day.date])
+
+  async function loadRecords() {
+    try {
+      setRecords(await fetchLeafDayRecords(orgId, day.date))
+    } catch (error: any) {
+      console.error('Error fetching leaf records:', error?.message ?? error)
+      toast.error(t("leaf.dayLoadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const plucking = records.plucking.map(record => ({
+    id: record.id,
+    label: record.workers
+      ? `${record.workers.first_name}${record.workers.last_name ? ' ' + record.workers.last_name : ''} (${record.workers.employee_id})`
+      : t("leaf.unknownWorker"),
+    kg: record.kg_plucked,
+  }))
+  const sales = records.sales.map(sale => ({
+    id: sale.id,
+    label: sale.factory_name,
+    kg: sale.kg_delivered,
+  }))
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">{formatDate(day.date, 'weekdayDate')}</CardTitle>
+              <CardDescription className={`text-xs ${day.flagged ? 'text-red-600' : ''}`}>
+                {t("leaf.daySummary", { plucked: kg(day.plucked), delivered: kg(day.delivered) })}
+                {day.shrinkage !== null && ` · ${t("leaf.dayShrinkage", { percent: day.shrinkage.toFixed(1) })}`}
+              </CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <RecordList title={t("leaf.pluckedRecords")} href="/dashboard/daily-plucking" rows={plucking} />
+              <RecordList title={t("leaf.deliveredSales")} href="/dashboard/tea-sales" rows={sales} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import Link from "next/link"
+
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+import { Loader2, Scale } from "lucide-react"
+import { toast } from "sonner"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { DEFAULT_LEAF_TOLERANCE, LeafDay, LeafTolerance, fetchLeafDays, leafMonths, leafTotals, readLeafTolerance } from "@/lib/leaf-reconciliation"
+import { fetchOrgSettings } from "@/lib/org-settings"
+
+import { LeafDayDialog } from "./leaf-day-dialog"
+import { LeafDaysTable, LeafMonthsTable } from "./leaf-tables"
+
+function getSLMonth() {
+  return formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM')
+}
+
+interface MonthSummaryProps {
+  days: LeafDay[]
+  tolerance: LeafTolerance
+}
+
+function MonthSummary({ days, tolerance }: MonthSummaryProps) {
+  const { t, kg } = useTranslation()
+  const totals = leafTotals(
+    days.reduce((sum, day) => sum + day.plucked, 0),
+    days.reduce((sum, day) => sum + day.delivered, 0),
+    tolerance
+  )
+  const flaggedDays = days.filter(day => day.flagged).length
+
+  return (
+    <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+      <Card>
+        <CardContent className="p-4">
+          <div className="text-xl font-bold">{kg(totals.plucked)}</div>
+          <p className="text-xs text-muted-foreground">{t("leaf.plucked")}</p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <div className="text-xl font-bold">{kg(totals.delivered)}</div>
+          <p className="text-xs text-muted-foreground">{t("leaf.delivered")}</p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <div className={`text-xl font-bold ${totals.flagged ? 'text-red-600' : ''}`}>
+            {totals.shrinkage === null ? '-' : `${totals.shrinkage.toFixed(1)}%`}
+          </div>
+          <p className="text-xs text-muted-foreground">{t("leaf.shrinkageOf", { kg: kg(totals.difference) })}</p>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardContent className="p-4">
+          <div className={`text-xl font-bold ${flaggedDays > 0 ? 'text-red-600' : ''}`}>{flaggedDays}</div>
+          <p className="text-xs text-muted-foreground">{t("leaf.daysOutside", { percent: tolerance.shrinkage_percent })}</p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export function LeafReconciliationManager() {
+  const { currentOrganization, loading: orgLoading } = useOrganization()
+  const { t } = useTranslation()
+  const orgId = currentOrganization?.organization_id
+
+  const [month, setMonth] = useState(getSLMonth())
+  const [view, setView] = useState('daily')
+  const [tolerance, setTolerance] = useState<LeafTolerance>(DEFAULT_LEAF_TOLERANCE)
+  const [days, setDays] = useState<LeafDay[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedDate, setSelectedDate] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (orgId && month) loadDays()
+  }, [orgId, month])
+
+  // The selected month and the eleven before it, for the monthly view
+  async function loadDays() {
+    if (!orgId) return
+    setLoading(true)
+    try {
+      const start = parseISO(`${month}-01`)
+      const settings = readLeafTolerance(await fetchOrgSettings(orgId).catch(() => ({})))
+      const from = format(startOfMonth(subMonths(start, 11)), 'yyyy-MM-dd')
+      const to = format(endOfMonth(start), 'yyyy-MM-dd')
+      setTolerance(settings)
+      setDays(await fetchLeafDays(orgId, from, to, settings))
+    } catch (error: any) {
+      console.error('Error fetching leaf reconciliation:', error?.message ?? error)
+      toast.error(t("leaf.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const monthDays = useMemo(() => days.filter(day => day.date.startsWith(month)), [days, month])
+  const months = useMemo(() => leafMonths(days, tolerance), [days, tolerance])
+  const selectedDay = days.find(day => day.date === selectedDate)
+
+  if (orgLoading) {
+    return (
+      <div className="flex flex-col justify-center items-center h-64 gap-2">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">{t("common.loading")}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            {t("leaf.title")}
+          </h2>
+          <p className="text-xs text-muted-foreground">
+            {t("leaf.description")}{' '}
+            <Link href="/dashboard/organization/settings" className="underline">{t("leaf.toleranceLink")}</Link>.
+          </p>
+        </div>
+        <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="h-9 w-full sm:w-44" />
+      </div>
+
+      <MonthSummary days={monthDays} tolerance={tolerance} />
+
+      <Card>
+        <Tabs value={view} onValueChange={setView}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base">{t("leaf.reconciliation")}</CardTitle>
+                <CardDescription className="text-xs">{t("leaf.reconciliationHint", { percent: tolerance.shrinkage_percent })}</CardDescription>
+              </div>
+              <TabsList>
+                <TabsTrigger value="daily">{t("teaSales.daily")}</TabsTrigger>
+                <TabsTrigger value="monthly">{t("teaSales.monthly")}</TabsTrigger>
+              </TabsList>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <TabsContent value="daily">
+                  <LeafDaysTable days={monthDays} onSelect={setSelectedDate} />
+                </TabsContent>
+                <TabsContent value="monthly">
+                  <LeafMonthsTable
+                    months={months}
+                    onSelect={(selected) => {
+                      setMonth(selected)
+                      setView('daily')
+                    }}
+                  />
+                </TabsContent>
+              </>
+            )}
+          </CardContent>
+        </Tabs>
+      </Card>
+
+      {selectedDay && orgId && (
+        <LeafDayDialog orgId={orgId} day={selectedDay} onClose={() => setSelectedDate(null)} />
+      )}
+    </div>
+  )
+}
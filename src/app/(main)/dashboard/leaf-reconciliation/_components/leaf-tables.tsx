@@ -0,0 +1,119 @@
+"use client"
+
+import { AlertTriangle } from "lucide-react"
+
+import { useTranslation } from "@/hooks/use-translation"
+import { LeafDay, LeafMonth, LeafTotals } from "@/lib/leaf-reconciliation"
+
+function TotalsCells({ row }: { row: LeafTotals }) {
+  const { t } = useTranslation()
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{row.plucked.toFixed(1)}</td>
+      <td className="px-3 py-2 text-right">{row.delivered.toFixed(1)}</td>
+      <td className={`px-3 py-2 text-right ${row.difference < 0 ? 'text-blue-600' : ''}`}>{row.difference.toFixed(1)}</td>
+      <td className={`px-3 py-2 text-right ${row.flagged ? 'text-red-600 font-medium' : ''}`}>
+        <span className="inline-flex items-center gap-1">
+          {row.flagged && <AlertTriangle className="h-3.5 w-3.5" />}
+          {row.shrinkage === null ? t("leaf.noPlucking") : `${row.shrinkage.toFixed(1)}%`}
+        </span>
+      </td>
+    </>
+  )
+}
+
+function TotalsHeaders() {
+  const { t } = useTranslation()
+  return (
+    <>
+      <th className="text-right font-medium px-3 py-2">{t("leaf.pluckedKg")}</th>
+      <th className="text-right font-medium px-3 py-2">{t("leaf.deliveredKg")}</th>
+      <th className="text-right font-medium px-3 py-2">{t("leaf.difference")}</th>
+      <th className="text-right font-medium px-3 py-2">{t("leaf.shrinkage")}</th>
+    </>
+  )
+}
+
+interface LeafDaysTableProps {
+  days: LeafDay[]
+  onSelect: (date: string) => void
+}
+
+export function LeafDaysTable({ days, onSelect }: LeafDaysTableProps) {
+  const { t, date: formatDate } = useTranslation()
+
+  if (days.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t("leaf.noneThisMonth")}</p>
+  }
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{t("common.date")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("leaf.pluckers")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("factories.deliveries")}</th>
+            <TotalsHeaders />
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {days.map(day => (
+            <tr
+              key={day.date}
+              className={`cursor-pointer hover:bg-muted/50 ${day.flagged ? 'bg-red-50/50' : ''}`}
+              onClick={() => onSelect(day.date)}
+            >
+              <td className="px-3 py-2 whitespace-nowrap">{formatDate(day.date, 'weekday')}</td>
+              <td className="px-3 py-2 text-right">{day.pluckers}</td>
+              <td className="px-3 py-2 text-right">{day.deliveries}</td>
+              <TotalsCells row={day} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+interface LeafMonthsTableProps {
+  months: LeafMonth[]
+  onSelect: (month: string) => void
+}
+
+export function LeafMonthsTable({ months, onSelect }: LeafMonthsTableProps) {
+  const { t, date: formatDate } = useTranslation()
+
+  if (months.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">{t("leaf.noneLastYear")}</p>
+  }
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{t("common.month")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("leaf.flaggedDays")}</th>
+            <TotalsHeaders />
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {months.map(month => (
+            <tr
+              key={month.month}
+              className={`cursor-pointer hover:bg-muted/50 ${month.flagged ? 'bg-red-50/50' : ''}`}
+              onClick={() => onSelect(month.month)}
+            >
+              <td className="px-3 py-2">{formatDate(`${month.month}-01`, 'month')}</td>
+              <td className={`px-3 py-2 text-right ${month.flaggedDays > 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {t("leaf.flaggedOf", { flagged: month.flaggedDays, days: month.days })}
+              </td>
+              <TotalsCells row={month} />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
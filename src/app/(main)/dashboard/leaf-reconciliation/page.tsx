@@ -0,0 +1,5 @@
+import { LeafReconciliationManager } from "./_components/leaf-reconciliation-manager"
+
+export default function LeafReconciliationPage() {
+  return <LeafReconciliationManager />
+}
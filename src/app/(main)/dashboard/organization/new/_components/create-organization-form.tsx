@@ -8,11 +8,13 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
 import { toast } from "sonner"
 
 export function CreateOrganizationForm() {
   const router = useRouter()
   const { createOrganization } = useOrganization()
+  const { t } = useTranslation()
   const [orgName, setOrgName] = useState("")
   const [creating, setCreating] = useState(false)
 
@@ -20,7 +22,7 @@ export function CreateOrganizationForm() {
     e.preventDefault()
     
     if (!orgName.trim()) {
-      toast.error("Please enter an organization name")
+      toast.error(t("organization.nameRequired"))
       return
     }
 
@@ -29,14 +31,14 @@ export function CreateOrganizationForm() {
       const orgId = await createOrganization(orgName.trim())
       
       if (orgId) {
-        toast.success("Organization created successfully!")
+        toast.success(t("organization.created"))
         router.push('/dashboard')
       } else {
-        toast.error("Failed to create organization. Please try again.")
+        toast.error(t("organization.createRetry"))
       }
     } catch (error: any) {
       console.error('Error creating organization:', error)
-      toast.error(error?.message || "Failed to create organization")
+      toast.error(error?.message || t("organization.createFailed"))
     } finally {
       setCreating(false)
     }
@@ -47,7 +49,7 @@ export function CreateOrganizationForm() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Create Organization</h2>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("organization.create")}</h2>
         </div>
       </div>
 
@@ -59,9 +61,9 @@ export function CreateOrganizationForm() {
               <Building2 className="h-5 w-5 text-primary" />
             </div>
             <div>
-              <CardTitle className="text-base">New Organization</CardTitle>
+              <CardTitle className="text-base">{t("organization.new")}</CardTitle>
               <CardDescription className="text-xs">
-                Create your own workspace to manage your team
+                {t("organization.newDescription")}
               </CardDescription>
             </div>
           </div>
@@ -69,17 +71,17 @@ export function CreateOrganizationForm() {
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="orgName">Organization Name</Label>
+              <Label htmlFor="orgName">{t("organization.nameLabel")}</Label>
               <Input
                 id="orgName"
-                placeholder="Acme Tea Estates"
+                placeholder={t("organization.newNamePlaceholder")}
                 value={orgName}
                 onChange={(e) => setOrgName(e.target.value)}
                 disabled={creating}
                 autoFocus
               />
               <p className="text-xs text-muted-foreground">
-                Choose a name for your workspace. You can change it later in settings.
+                {t("organization.nameHint")}
               </p>
             </div>
 
@@ -90,7 +92,7 @@ export function CreateOrganizationForm() {
                 onClick={() => router.back()}
                 disabled={creating}
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 type="submit"
@@ -99,10 +101,10 @@ export function CreateOrganizationForm() {
                 {creating ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Creating...
+                    {t("organization.creating")}
                   </>
                 ) : (
-                  "Create Organization"
+                  t("organization.create")
                 )}
               </Button>
             </div>
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import { Loader2, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { AdvanceEnforcement, AdvancePolicy, readAdvancePolicy } from "@/lib/advances"
+import type { MessageKey } from "@/lib/i18n"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+import type { Worker } from "@/types/database"
+
+interface AdvancePolicyCardProps {
+  orgId: string
+}
+
+const WORKER_ROLES: { value: Worker['role']; label: MessageKey }[] = [
+  { value: 'picker', label: 'role.picker' },
+  { value: 'supervisor', label: 'role.supervisor' },
+  { value: 'manager', label: 'role.manager' },
+  { value: 'quality_controller', label: 'role.quality_controller' },
+]
+
+type LimitDrafts = Partial<Record<Worker['role'], string>>
+
+function toDrafts(policy: AdvancePolicy): LimitDrafts {
+  return Object.fromEntries(
+    WORKER_ROLES.map(({ value }) => [value, policy.role_limits[value]?.toString() ?? ''])
+  )
+}
+
+function toRoleLimits(drafts: LimitDrafts): AdvancePolicy['role_limits'] {
+  const limits: AdvancePolicy['role_limits'] = {}
+  WORKER_ROLES.forEach(({ value }) => {
+    const amount = parseFloat(drafts[value] ?? '')
+    if (!Number.isNaN(amount) && amount >= 0) limits[value] = amount
+  })
+  return limits
+}
+
+export function AdvancePolicyCard({ orgId }: AdvancePolicyCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [enforcement, setEnforcement] = useState<AdvanceEnforcement>('warn')
+  const [limits, setLimits] = useState<LimitDrafts>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadPolicy()
+  }, [orgId])
+
+  async function loadPolicy() {
+    try {
+      const policy = readAdvancePolicy(await fetchOrgSettings(orgId))
+      setEnforcement(policy.enforcement)
+      setLimits(toDrafts(policy))
+    } catch (error: any) {
+      console.error('Error fetching advance policy:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    try {
+      const policy: AdvancePolicy = { enforcement, role_limits: toRoleLimits(limits) }
+      await updateOrgSetting(orgId, 'advance_policy', policy)
+      toast.success(t("settings.advances.saved"))
+    } catch (error: any) {
+      console.error('Error saving advance policy:', error)
+      toast.error(error.message ?? t("settings.advances.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.advances.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.advances.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5 max-w-xs">
+              <Label className="text-xs">{t("settings.advances.whenExceeded")}</Label>
+              <Select
+                value={enforcement}
+                onValueChange={(value) => setEnforcement(value as AdvanceEnforcement)}
+                disabled={!canManageMembers}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="warn">{t("settings.advances.warn")}</SelectItem>
+                  <SelectItem value="block">{t("settings.advances.block")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+              {WORKER_ROLES.map(({ value, label }) => (
+                <div key={value} className="space-y-1.5">
+                  <Label htmlFor={`advance_limit_${value}`} className="text-xs">{t("settings.advances.roleLimit", { role: t(label) })}</Label>
+                  <Input
+                    id={`advance_limit_${value}`}
+                    type="number"
+                    step="100"
+                    min="0"
+                    value={limits[value] ?? ''}
+                    onChange={(e) => setLimits(prev => ({ ...prev, [value]: e.target.value }))}
+                    placeholder={t("settings.advances.noLimit")}
+                    disabled={!canManageMembers}
+                    className="h-8"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {canManageMembers && (
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                  {t("settings.savePolicy")}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
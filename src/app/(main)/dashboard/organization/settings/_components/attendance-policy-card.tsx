@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import Link from "next/link"
+
+import { Loader2, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { AttendancePolicy, LEAVE_TYPES, readAttendancePolicy } from "@/lib/attendance"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+import type { LeaveType } from "@/types/payroll"
+
+interface AttendancePolicyCardProps {
+  orgId: string
+}
+
+type PolicyForm = Record<LeaveType | 'allowance_amount' | 'allowance_min_days', string>
+
+function toForm(policy: AttendancePolicy): PolicyForm {
+  return {
+    annual: policy.leave_entitlements.annual.toString(),
+    casual: policy.leave_entitlements.casual.toString(),
+    sick: policy.leave_entitlements.sick.toString(),
+    allowance_amount: policy.allowance_amount.toString(),
+    allowance_min_days: policy.allowance_min_days.toString(),
+  }
+}
+
+function fromForm(form: PolicyForm): AttendancePolicy | null {
+  const values = Object.values(form).map(Number)
+  if (values.some(value => Number.isNaN(value) || value < 0)) return null
+  return {
+    leave_entitlements: { annual: Number(form.annual), casual: Number(form.casual), sick: Number(form.sick) },
+    allowance_amount: Number(form.allowance_amount),
+    allowance_min_days: Number(form.allowance_min_days),
+  }
+}
+
+export function AttendancePolicyCard({ orgId }: AttendancePolicyCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [form, setForm] = useState<PolicyForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadPolicy()
+  }, [orgId])
+
+  async function loadPolicy() {
+    try {
+      setForm(toForm(readAttendancePolicy(await fetchOrgSettings(orgId))))
+    } catch (error: any) {
+      console.error('Error fetching attendance policy:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    const policy = form && fromForm(form)
+    if (!policy) {
+      toast.error(t("settings.attendance.invalid"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updateOrgSetting(orgId, 'attendance_policy', policy)
+      toast.success(t("settings.attendance.saved"))
+    } catch (error: any) {
+      console.error('Error saving attendance policy:', error)
+      toast.error(error.message ?? t("settings.attendance.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const field = (key: keyof PolicyForm, label: string, step = '1') => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`attendance_${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`attendance_${key}`}
+        type="number"
+        step={step}
+        min="0"
+        value={form?.[key] ?? ''}
+        onChange={(e) => form && setForm({ ...form, [key]: e.target.value })}
+        disabled={!canManageMembers}
+        className="h-8"
+      />
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.attendance.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.attendance.description")}{' '}
+          <Link href="/dashboard/attendance" className="underline">{t("settings.attendance.musterRollLink")}</Link>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              {(Object.keys(LEAVE_TYPES) as LeaveType[]).map(type => field(type, t("settings.attendance.leaveDays", { type: t(`attendance.leave.${type}`) })))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {field('allowance_amount', t("settings.attendance.allowance"), '0.01')}
+              {field('allowance_min_days', t("settings.attendance.minDays"), '0.5')}
+            </div>
+            {canManageMembers && (
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                {t("common.save")}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
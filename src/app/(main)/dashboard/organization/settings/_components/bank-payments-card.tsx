@@ -0,0 +1,159 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import { Loader2, Plus, Save, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  BANK_FILE_COLUMNS,
+  BankFileColumn,
+  BankPaymentSettings,
+  DEFAULT_BANK_PAYMENT_SETTINGS,
+  readBankPaymentSettings,
+} from "@/lib/bank-payments"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+
+interface BankPaymentsCardProps {
+  orgId: string
+}
+
+interface ColumnListProps {
+  columns: BankFileColumn[]
+  disabled: boolean
+  onChange: (columns: BankFileColumn[]) => void
+}
+
+// The file's columns in order; each field goes in at most once
+function ColumnList({ columns, disabled, onChange }: ColumnListProps) {
+  const { t } = useTranslation()
+  const unused = BANK_FILE_COLUMNS.filter(column => !columns.includes(column))
+
+  return (
+    <div className="space-y-1.5">
+      {columns.map((column, index) => (
+        <div key={column} className="flex items-center gap-2">
+          <span className="w-5 text-right text-xs text-muted-foreground">{index + 1}</span>
+          <Select
+            value={column}
+            onValueChange={(value) => onChange(columns.map((c, i) => i === index ? value as BankFileColumn : c))}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[column, ...unused].map(option => (
+                <SelectItem key={option} value={option}>{t(`bank.column.${option}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!disabled && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title={t("settings.bank.removeColumn")}
+              onClick={() => onChange(columns.filter((_, i) => i !== index))}
+              disabled={columns.length === 1}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      ))}
+      {!disabled && unused.length > 0 && (
+        <Button variant="outline" size="sm" className="h-7" onClick={() => onChange([...columns, unused[0]])}>
+          <Plus className="h-3.5 w-3.5 mr-1.5" />
+          {t("settings.bank.addColumn")}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function BankPaymentsCard({ orgId }: BankPaymentsCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [fileSettings, setFileSettings] = useState<BankPaymentSettings>(DEFAULT_BANK_PAYMENT_SETTINGS)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadSettings()
+  }, [orgId])
+
+  async function loadSettings() {
+    try {
+      setFileSettings(readBankPaymentSettings(await fetchOrgSettings(orgId)))
+    } catch (error: any) {
+      console.error('Error fetching bank payment settings:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    try {
+      await updateOrgSetting(orgId, 'bank_payments', fileSettings)
+      toast.success(t("settings.bank.saved"))
+    } catch (error: any) {
+      console.error('Error saving bank payment settings:', error)
+      toast.error(error.message ?? t("settings.bank.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.bank.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.bank.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-w-xl">
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t("bank.fileColumns")}</Label>
+              <ColumnList
+                columns={fileSettings.columns}
+                disabled={!canManageMembers}
+                onChange={(columns) => setFileSettings({ ...fileSettings, columns })}
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-md border px-3 py-2">
+              <Label htmlFor="bank_file_header" className="text-xs">{t("settings.bank.header")}</Label>
+              <Switch
+                id="bank_file_header"
+                checked={fileSettings.header}
+                onCheckedChange={(header) => setFileSettings({ ...fileSettings, header })}
+                disabled={!canManageMembers}
+              />
+            </div>
+            {canManageMembers && (
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                {t("common.save")}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
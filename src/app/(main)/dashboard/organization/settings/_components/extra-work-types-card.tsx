@@ -0,0 +1,241 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import { Plus, Edit, Trash2, X, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { fetchExtraWorkTypes } from "@/lib/extra-work"
+import { supabase } from "@/lib/supabase"
+import type { ExtraWorkType } from "@/types/payroll"
+
+interface ExtraWorkTypesCardProps {
+  orgId: string
+}
+
+interface ExtraWorkTypeFormProps {
+  orgId: string
+  editing: ExtraWorkType | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+function ExtraWorkTypeForm({ orgId, editing, onClose, onSaved }: ExtraWorkTypeFormProps) {
+  const [name, setName] = useState(editing?.name ?? '')
+  const [defaultRate, setDefaultRate] = useState(editing ? String(editing.default_rate) : '')
+  const [saving, setSaving] = useState(false)
+  const { t } = useTranslation()
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!name.trim()) {
+      toast.error(t("settings.extraWork.nameRequired"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      const data = { name: name.trim(), default_rate: parseFloat(defaultRate) || 0 }
+      const { error } = editing
+        ? await supabase.from('extra_work_types').update(data).eq('id', editing.id)
+        : await supabase.from('extra_work_types').insert({ ...data, organization_id: orgId })
+
+      if (error) throw error
+      toast.success(t(editing ? "settings.extraWork.updated" : "settings.extraWork.added"))
+      onSaved()
+      onClose()
+    } catch (error: any) {
+      console.error('Error saving extra work type:', error)
+      toast.error(error.code === '23505' ? t("settings.extraWork.duplicate") : error.message ?? t("settings.extraWork.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t(editing ? "settings.extraWork.editTitle" : "settings.extraWork.addTitle")}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="work_type_name" className="text-xs">{t("settings.extraWork.name")}</Label>
+              <Input
+                id="work_type_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t("settings.extraWork.namePlaceholder")}
+                className="h-8"
+                required
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="work_type_rate" className="text-xs">{t("settings.extraWork.defaultRate")}</Label>
+              <Input
+                id="work_type_rate"
+                type="number"
+                step="1"
+                min="0"
+                value={defaultRate}
+                onChange={(e) => setDefaultRate(e.target.value)}
+                placeholder="0"
+                className="h-8"
+              />
+            </div>
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                {t(editing ? "settings.extraWork.update" : "settings.extraWork.add")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export function ExtraWorkTypesCard({ orgId }: ExtraWorkTypesCardProps) {
+  const { canEdit, canDelete } = useOrganization()
+  const { t, money } = useTranslation()
+  const [types, setTypes] = useState<ExtraWorkType[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<ExtraWorkType | null>(null)
+
+  useEffect(() => {
+    loadTypes()
+  }, [orgId])
+
+  async function loadTypes() {
+    try {
+      setTypes(await fetchExtraWorkTypes(orgId))
+    } catch (error: any) {
+      console.error('Error fetching extra work types:', error?.message ?? error)
+      toast.error(t("settings.extraWork.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleToggleActive(type: ExtraWorkType) {
+    const { error } = await supabase
+      .from('extra_work_types')
+      .update({ is_active: !type.is_active })
+      .eq('id', type.id)
+
+    if (error) {
+      toast.error(error.message)
+      return
+    }
+    setTypes(prev => prev.map(existing => existing.id === type.id ? { ...existing, is_active: !existing.is_active } : existing))
+  }
+
+  // Past records keep their description; only the link to the type is cleared
+  async function handleDelete(type: ExtraWorkType) {
+    if (!confirm(t("settings.extraWork.confirmDelete", { name: type.name }))) return
+
+    const { error } = await supabase.from('extra_work_types').delete().eq('id', type.id)
+    if (error) {
+      toast.error(error.message)
+      return
+    }
+    setTypes(prev => prev.filter(existing => existing.id !== type.id))
+    toast.success(t("settings.extraWork.deleted"))
+  }
+
+  function openForm(type: ExtraWorkType | null) {
+    setEditing(type)
+    setShowForm(true)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base">{t("settings.extraWork.title")}</CardTitle>
+            <CardDescription className="text-xs">
+              {t("settings.extraWork.description")}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button onClick={() => openForm(null)} size="sm">
+              <Plus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("settings.extraWork.addType")}</span>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : types.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t("settings.extraWork.none")}</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {types.map(type => (
+              <div key={type.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium truncate">{type.name}</span>
+                  {!type.is_active && <Badge variant="outline" className="text-xs">{t("factories.inactive")}</Badge>}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-sm mr-2">{money(Number(type.default_rate))}</span>
+                  {canEdit && (
+                    <>
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleToggleActive(type)}>
+                        {t(type.is_active ? "deductions.deactivate" : "deductions.activate")}
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openForm(type)}>
+                        <Edit className="h-3.5 w-3.5" />
+                      </Button>
+                    </>
+                  )}
+                  {canDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(type)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {showForm && (
+        <ExtraWorkTypeForm
+          orgId={orgId}
+          editing={editing}
+          onClose={() => setShowForm(false)}
+          onSaved={loadTypes}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import Link from "next/link"
+
+import { Loader2, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { DEFAULT_HOLIDAY_RATES, HOLIDAY_TYPES, HolidayRates, readHolidayRates } from "@/lib/holidays"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+import type { HolidayType } from "@/types/payroll"
+
+interface HolidayRatesCardProps {
+  orgId: string
+}
+
+type RatesForm = Record<HolidayType, string>
+
+function toForm(rates: HolidayRates): RatesForm {
+  return Object.fromEntries(Object.entries(rates).map(([type, rate]) => [type, rate.toString()])) as RatesForm
+}
+
+// Null unless every multiplier is at least 1
+function fromForm(form: RatesForm): HolidayRates | null {
+  const rates = Object.fromEntries(Object.entries(form).map(([type, value]) => [type, Number(value)])) as HolidayRates
+  if (Object.values(rates).some(rate => Number.isNaN(rate) || rate < 1)) return null
+  return rates
+}
+
+export function HolidayRatesCard({ orgId }: HolidayRatesCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [form, setForm] = useState<RatesForm>(toForm(DEFAULT_HOLIDAY_RATES))
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadRates()
+  }, [orgId])
+
+  async function loadRates() {
+    try {
+      setForm(toForm(readHolidayRates(await fetchOrgSettings(orgId))))
+    } catch (error: any) {
+      console.error('Error fetching holiday rates:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    const rates = fromForm(form)
+    if (!rates) {
+      toast.error(t("settings.holidays.invalid"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updateOrgSetting(orgId, 'holiday_rates', rates)
+      toast.success(t("settings.holidays.saved"))
+    } catch (error: any) {
+      console.error('Error saving holiday rates:', error)
+      toast.error(error.message ?? t("settings.holidays.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.holidays.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.holidays.description")}{' '}
+          <Link href="/dashboard/scheduler" className="underline">{t("settings.holidays.schedulerLink")}</Link>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              {HOLIDAY_TYPES.map(type => (
+                <div key={type} className="space-y-1.5">
+                  <Label htmlFor={`holiday_rate_${type}`} className="text-xs">{t("settings.holidays.rate", { type: t(`holidays.type.${type}`) })}</Label>
+                  <Input
+                    id={`holiday_rate_${type}`}
+                    type="number"
+                    step="0.25"
+                    min="1"
+                    value={form[type]}
+                    onChange={(e) => setForm({ ...form, [type]: e.target.value })}
+                    disabled={!canManageMembers}
+                    className="h-8"
+                  />
+                </div>
+              ))}
+            </div>
+            {canManageMembers && (
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                {t("common.save")}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
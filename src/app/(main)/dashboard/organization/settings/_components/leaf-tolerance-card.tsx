@@ -0,0 +1,104 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import Link from "next/link"
+
+import { Loader2, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { readLeafTolerance } from "@/lib/leaf-reconciliation"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+
+interface LeafToleranceCardProps {
+  orgId: string
+}
+
+export function LeafToleranceCard({ orgId }: LeafToleranceCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [percent, setPercent] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadTolerance()
+  }, [orgId])
+
+  async function loadTolerance() {
+    try {
+      setPercent(readLeafTolerance(await fetchOrgSettings(orgId)).shrinkage_percent.toString())
+    } catch (error: any) {
+      console.error('Error fetching leaf tolerance:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    const value = parseFloat(percent)
+    if (Number.isNaN(value) || value < 0 || value > 100) {
+      toast.error(t("settings.leaf.invalid"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updateOrgSetting(orgId, 'leaf_tolerance', { shrinkage_percent: value })
+      toast.success(t("settings.leaf.saved"))
+    } catch (error: any) {
+      console.error('Error saving leaf tolerance:', error)
+      toast.error(error.message ?? t("settings.leaf.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.leaf.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.leaf.description")}{' '}
+          <Link href="/dashboard/leaf-reconciliation" className="underline">{t("settings.leaf.reportLink")}</Link>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex items-end gap-3">
+            <div className="space-y-1.5 max-w-xs">
+              <Label htmlFor="leaf_tolerance" className="text-xs">{t("settings.leaf.tolerance")}</Label>
+              <Input
+                id="leaf_tolerance"
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                disabled={!canManageMembers}
+                className="h-8"
+              />
+            </div>
+            {canManageMembers && (
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                {t("common.save")}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo } from "react"
 import { Plus, Edit, Trash2, X, Loader2, Mail, Copy, Check, Crown, Shield, UserCircle, Eye, Building2, CalendarDays, Clock } from "lucide-react"
 import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -34,10 +35,18 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { supabase } from "@/lib/supabase"
 import { OrganizationRole } from "@/types/database"
 import { toast } from "sonner"
-import { format, formatDistanceToNow } from "date-fns"
 import { sendInviteEmail } from "@/server/email-actions"
 import { useRouter } from "next/navigation"
 
+import { AdvancePolicyCard } from "./advance-policy-card"
+import { AttendancePolicyCard } from "./attendance-policy-card"
+import { BankPaymentsCard } from "./bank-payments-card"
+import { ExtraWorkTypesCard } from "./extra-work-types-card"
+import { HolidayRatesCard } from "./holiday-rates-card"
+import { LeafToleranceCard } from "./leaf-tolerance-card"
+import { StatutoryRulesCard } from "./statutory-rules-card"
+import { WageNormsCard } from "./wage-norms-card"
+
 interface Member {
   id: string
   user_id: string
@@ -76,6 +85,7 @@ export function OrganizationSettings() {
   const { currentOrganization, loading: orgLoading, isOwner, canManageMembers, user, refreshOrganizations, deleteOrganization } = useOrganization()
   const orgId = currentOrganization?.organization_id
   const router = useRouter()
+  const { t, date: formatDate, relative } = useTranslation()
 
   const [orgName, setOrgName] = useState("")
   const [members, setMembers] = useState<Member[]>([])
@@ -168,7 +178,7 @@ export function OrganizationSettings() {
     if (!orgId || !orgName.trim()) return
     
     if (!isOwner) {
-      toast.error("Only organization owners can update the name")
+      toast.error(t("organization.ownerOnlyRename"))
       return
     }
     
@@ -190,11 +200,11 @@ export function OrganizationSettings() {
       }
       
       await refreshOrganizations()
-      toast.success("Organization name updated")
+      toast.success(t("organization.renamed"))
       setShowOrgForm(false)
     } catch (error: any) {
       console.error('Error updating org name:', error?.message || error)
-      toast.error(error?.message || "Failed to update organization name")
+      toast.error(error?.message || t("organization.renameFailed"))
     } finally {
       setSaving(false)
     }
@@ -202,7 +212,7 @@ export function OrganizationSettings() {
 
   async function handleDeleteOrganization() {
     if (!orgId || !isOwner) {
-      toast.error("Only organization owners can delete the organization")
+      toast.error(t("organization.ownerOnlyDelete"))
       return
     }
 
@@ -210,15 +220,15 @@ export function OrganizationSettings() {
       const success = await deleteOrganization(orgId)
       
       if (success) {
-        toast.success("Organization deleted successfully")
+        toast.success(t("organization.deleted"))
         // Redirect to dashboard after deletion
         router.push('/dashboard')
       } else {
-        toast.error("Failed to delete organization")
+        toast.error(t("organization.deleteFailed"))
       }
     } catch (error: any) {
       console.error('Error deleting organization:', error?.message || error)
-      toast.error(error?.message || "Failed to delete organization")
+      toast.error(error?.message || t("organization.deleteFailed"))
     }
   }
 
@@ -227,7 +237,7 @@ export function OrganizationSettings() {
     if (!orgId || !inviteEmail.trim()) return
     
     if (!isOwner) {
-      toast.error("Only organization owners can send invitations")
+      toast.error(t("organization.ownerOnlyInvite"))
       return
     }
 
@@ -236,14 +246,14 @@ export function OrganizationSettings() {
     // Check if email is already a member
     const existingMember = members.find(m => m.email.toLowerCase() === emailToInvite)
     if (existingMember) {
-      toast.error("This person is already a member of your organization")
+      toast.error(t("organization.alreadyMember"))
       return
     }
 
     // Check if there's already a pending invitation for this email
     const existingInvite = invitations.find(i => i.email.toLowerCase() === emailToInvite)
     if (existingInvite) {
-      toast.error("An invitation has already been sent to this email")
+      toast.error(t("organization.alreadyInvited"))
       return
     }
     
@@ -280,10 +290,10 @@ export function OrganizationSettings() {
       )
       
       if (emailResult.success) {
-        toast.success("Invitation sent!")
+        toast.success(t("organization.inviteSent"))
       } else {
         // Invitation created but email failed - still show success but note email issue
-        toast.success("Invitation created (email notification may not have been sent)")
+        toast.success(t("organization.inviteCreated"))
         console.warn('Email send failed:', emailResult.error)
       }
       
@@ -293,7 +303,7 @@ export function OrganizationSettings() {
       fetchInvitations()
     } catch (error: any) {
       console.error('Error creating invitation:', error?.message || error)
-      toast.error(error?.message || "Failed to create invitation")
+      toast.error(error?.message || t("organization.inviteFailed"))
     } finally {
       setInviting(false)
     }
@@ -307,20 +317,20 @@ export function OrganizationSettings() {
         .eq('id', invitationId)
 
       if (error) throw error
-      toast.success("Invitation cancelled")
+      toast.success(t("organization.inviteCancelled"))
       fetchInvitations()
     } catch (error: any) {
-      toast.error(error?.message || "Failed to cancel invitation")
+      toast.error(error?.message || t("organization.cancelInviteFailed"))
     }
-  }, [])
+  }, [t])
 
   const handleRemoveMember = useCallback(async (memberId: string, memberUserId: string) => {
     if (memberUserId === user?.id) {
-      toast.error("You cannot remove yourself")
+      toast.error(t("organization.cannotRemoveSelf"))
       return
     }
     
-    if (!confirm("Remove this member from the organization?")) return
+    if (!confirm(t("organization.confirmRemove"))) return
     
     try {
       const { error } = await supabase
@@ -329,12 +339,12 @@ export function OrganizationSettings() {
         .eq('id', memberId)
 
       if (error) throw error
-      toast.success("Member removed")
+      toast.success(t("organization.memberRemoved"))
       setMembers(prev => prev.filter(m => m.id !== memberId))
     } catch (error: any) {
-      toast.error(error?.message || "Failed to remove member")
+      toast.error(error?.message || t("organization.removeFailed"))
     }
-  }, [user?.id])
+  }, [user?.id, t])
 
   const handleUpdateRole = useCallback(async (memberId: string, newRole: OrganizationRole) => {
     try {
@@ -344,18 +354,18 @@ export function OrganizationSettings() {
         .eq('id', memberId)
 
       if (error) throw error
-      toast.success("Role updated")
+      toast.success(t("organization.roleUpdated"))
       setMembers(prev => prev.map(m => m.id === memberId ? { ...m, role: newRole } : m))
     } catch (error: any) {
-      toast.error(error?.message || "Failed to update role")
+      toast.error(error?.message || t("organization.roleUpdateFailed"))
     }
-  }, [])
+  }, [t])
 
   function copyInviteLink(token: string) {
     const link = `${window.location.origin}/invite/${token}`
     navigator.clipboard.writeText(link)
     setCopiedToken(token)
-    toast.success("Invite link copied")
+    toast.success(t("organization.linkCopied"))
     setTimeout(() => setCopiedToken(null), 2000)
   }
 
@@ -363,7 +373,7 @@ export function OrganizationSettings() {
   const memberColumns: ColumnDef<Member>[] = useMemo(() => [
     {
       accessorKey: "user_id",
-      header: "ID",
+      header: t("common.id"),
       cell: ({ row }) => (
         <span className="font-mono text-xs text-muted-foreground">
           {row.getValue<string>("user_id").slice(0, 8)}...
@@ -372,7 +382,7 @@ export function OrganizationSettings() {
     },
     {
       id: "member",
-      header: "Name",
+      header: t("common.name"),
       cell: ({ row }) => {
         const member = row.original
         const isCurrentUser = member.user_id === user?.id
@@ -383,7 +393,7 @@ export function OrganizationSettings() {
             <div className="flex flex-col">
               <span className="font-medium">
                 {member.full_name || '-'}
-                {isCurrentUser && <span className="text-muted-foreground text-xs ml-1">(you)</span>}
+                {isCurrentUser && <span className="text-muted-foreground text-xs ml-1">{t("organization.you")}</span>}
               </span>
               <span className="text-xs text-muted-foreground">{member.email}</span>
             </div>
@@ -393,7 +403,7 @@ export function OrganizationSettings() {
     },
     {
       accessorKey: "role",
-      header: "Role",
+      header: t("common.role"),
       cell: ({ row }) => {
         const member = row.original
         const isCurrentUser = member.user_id === user?.id
@@ -408,24 +418,24 @@ export function OrganizationSettings() {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="viewer">Viewer</SelectItem>
-                <SelectItem value="manager">Manager</SelectItem>
-                <SelectItem value="admin">Admin</SelectItem>
+                <SelectItem value="viewer">{t("organization.role.viewer")}</SelectItem>
+                <SelectItem value="manager">{t("organization.role.manager")}</SelectItem>
+                <SelectItem value="admin">{t("organization.role.admin")}</SelectItem>
               </SelectContent>
             </Select>
           )
         }
         
         return (
-          <Badge variant={getRoleBadgeVariant(member.role)} className="text-xs capitalize">
-            {member.role}
+          <Badge variant={getRoleBadgeVariant(member.role)} className="text-xs">
+            {t(`organization.role.${member.role}`)}
           </Badge>
         )
       },
     },
     {
       accessorKey: "accepted_at",
-      header: "Joined",
+      header: t("organization.joined"),
       cell: ({ row }) => {
         const acceptedAt = row.original.accepted_at
         if (!acceptedAt) return <span className="text-muted-foreground text-xs">-</span>
@@ -436,11 +446,11 @@ export function OrganizationSettings() {
               <TooltipTrigger asChild>
                 <span className="text-xs text-muted-foreground cursor-help flex items-center gap-1">
                   <CalendarDays className="h-3 w-3" />
-                  {formatDistanceToNow(new Date(acceptedAt), { addSuffix: true })}
+                  {relative(acceptedAt)}
                 </span>
               </TooltipTrigger>
               <TooltipContent>
-                <p>{format(new Date(acceptedAt), 'MMMM dd, yyyy')}</p>
+                <p>{formatDate(acceptedAt)}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -470,20 +480,20 @@ export function OrganizationSettings() {
                     <Trash2 className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Remove member</TooltipContent>
+                <TooltipContent>{t("organization.removeMember")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
         )
       },
     },
-  ], [user?.id, canManageMembers, handleRemoveMember, handleUpdateRole])
+  ], [user?.id, canManageMembers, handleRemoveMember, handleUpdateRole, t, formatDate, relative])
 
   // Invitation columns
   const invitationColumns: ColumnDef<Invitation>[] = useMemo(() => [
     {
       accessorKey: "email",
-      header: "Email",
+      header: t("organization.email"),
       cell: ({ row }) => (
         <div className="flex items-center gap-2">
           <Mail className="h-4 w-4 text-muted-foreground" />
@@ -493,16 +503,16 @@ export function OrganizationSettings() {
     },
     {
       accessorKey: "role",
-      header: "Role",
+      header: t("common.role"),
       cell: ({ row }) => (
-        <Badge variant="outline" className="text-xs capitalize">
-          {row.getValue("role")}
+        <Badge variant="outline" className="text-xs">
+          {t(`organization.role.${row.original.role}`)}
         </Badge>
       ),
     },
     {
       accessorKey: "created_at",
-      header: "Sent",
+      header: t("organization.sent"),
       cell: ({ row }) => {
         const createdAt = row.getValue("created_at") as string
         return (
@@ -511,11 +521,11 @@ export function OrganizationSettings() {
               <TooltipTrigger asChild>
                 <span className="text-sm text-muted-foreground cursor-help flex items-center gap-1">
                   <Clock className="h-3 w-3" />
-                  {formatDistanceToNow(new Date(createdAt), { addSuffix: true })}
+                  {relative(createdAt)}
                 </span>
               </TooltipTrigger>
               <TooltipContent>
-                <p>{format(new Date(createdAt), 'MMMM dd, yyyy')}</p>
+                <p>{formatDate(createdAt)}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -524,12 +534,12 @@ export function OrganizationSettings() {
     },
     {
       accessorKey: "expires_at",
-      header: "Expires",
+      header: t("organization.expires"),
       cell: ({ row }) => {
         const expiresAt = row.getValue("expires_at") as string
         return (
           <span className="text-sm text-muted-foreground">
-            {format(new Date(expiresAt), 'MMM d')}
+            {formatDate(expiresAt, 'day')}
           </span>
         )
       },
@@ -557,7 +567,7 @@ export function OrganizationSettings() {
                     )}
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Copy invite link</TooltipContent>
+                <TooltipContent>{t("organization.copyLink")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
             <TooltipProvider>
@@ -572,14 +582,14 @@ export function OrganizationSettings() {
                     <Trash2 className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Cancel invitation</TooltipContent>
+                <TooltipContent>{t("organization.cancelInvite")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
         )
       },
     },
-  ], [copiedToken, handleCancelInvitation])
+  ], [copiedToken, handleCancelInvitation, t, formatDate, relative])
 
   const membersTable = useDataTableInstance({
     data: members,
@@ -597,7 +607,7 @@ export function OrganizationSettings() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
@@ -606,7 +616,7 @@ export function OrganizationSettings() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading settings...</span>
+        <span className="text-sm text-muted-foreground">{t("organization.loadingSettings")}</span>
       </div>
     )
   }
@@ -616,11 +626,11 @@ export function OrganizationSettings() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Organization Settings</h2>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("organization.settings")}</h2>
           {isOwner && (
             <Button onClick={() => setShowOrgForm(true)} variant="outline" size="sm">
               <Edit className="h-4 w-4 sm:mr-2" />
-              <span className="hidden sm:inline">Edit Organization</span>
+              <span className="hidden sm:inline">{t("organization.edit")}</span>
             </Button>
           )}
         </div>
@@ -644,15 +654,15 @@ export function OrganizationSettings() {
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle className="text-base">Team Members</CardTitle>
+              <CardTitle className="text-base">{t("organization.members")}</CardTitle>
               <CardDescription className="text-xs">
-                {members.length} {members.length === 1 ? 'member' : 'members'}
+                {members.length === 1 ? t("organization.memberCountOne") : t("organization.memberCount", { count: members.length })}
               </CardDescription>
             </div>
             {canManageMembers && (
               <Button onClick={() => setShowInviteForm(true)} size="sm">
                 <Plus className="h-4 w-4 sm:mr-2" />
-                <span className="hidden sm:inline">Invite</span>
+                <span className="hidden sm:inline">{t("organization.invite")}</span>
               </Button>
             )}
           </div>
@@ -669,9 +679,9 @@ export function OrganizationSettings() {
       {invitations.length > 0 && (
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">Pending Invitations</CardTitle>
+            <CardTitle className="text-base">{t("organization.pendingInvitations")}</CardTitle>
             <CardDescription className="text-xs">
-              {invitations.length} pending {invitations.length === 1 ? 'invitation' : 'invitations'}
+              {invitations.length === 1 ? t("organization.pendingCountOne") : t("organization.pendingCount", { count: invitations.length })}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -683,13 +693,37 @@ export function OrganizationSettings() {
         </Card>
       )}
 
+      {/* Plucking Wage Norms */}
+      <WageNormsCard orgId={orgId} />
+
+      {/* Holiday Pay Rates */}
+      <HolidayRatesCard orgId={orgId} />
+
+      {/* Extra Work Catalogue */}
+      <ExtraWorkTypesCard orgId={orgId} />
+
+      {/* Advance Limits */}
+      <AdvancePolicyCard orgId={orgId} />
+
+      {/* Attendance & Leave */}
+      <AttendancePolicyCard orgId={orgId} />
+
+      {/* Statutory Contributions */}
+      <StatutoryRulesCard orgId={orgId} />
+
+      {/* Bank Payments */}
+      <BankPaymentsCard orgId={orgId} />
+
+      {/* Plucked vs Delivered Tolerance */}
+      <LeafToleranceCard orgId={orgId} />
+
       {/* Danger Zone - Delete Organization (Owner Only) */}
       {isOwner && (
         <Card className="border-destructive">
           <CardHeader className="pb-3">
-            <CardTitle className="text-base text-destructive">Danger Zone</CardTitle>
+            <CardTitle className="text-base text-destructive">{t("organization.dangerZone")}</CardTitle>
             <CardDescription className="text-xs">
-              Permanently delete this organization and all associated data
+              {t("organization.dangerDescription")}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -697,24 +731,23 @@ export function OrganizationSettings() {
               <AlertDialogTrigger asChild>
                 <Button variant="destructive" size="sm">
                   <Trash2 className="h-4 w-4 mr-2" />
-                  Delete Organization
+                  {t("organization.delete")}
                 </Button>
               </AlertDialogTrigger>
               <AlertDialogContent>
                 <AlertDialogHeader>
-                  <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                  <AlertDialogTitle>{t("organization.confirmDeleteTitle")}</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This action cannot be undone. This will permanently delete the organization
-                    <strong> {currentOrganization?.organization_name}</strong> and remove all members' access.
+                    {t("organization.confirmDelete", { name: currentOrganization?.organization_name ?? '' })}
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
                   <AlertDialogAction
                     onClick={handleDeleteOrganization}
                     className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                   >
-                    Delete Organization
+                    {t("organization.delete")}
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
@@ -729,35 +762,35 @@ export function OrganizationSettings() {
           <Card className="w-full max-w-sm">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">Edit Organization</CardTitle>
+                <CardTitle className="text-base">{t("organization.edit")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setShowOrgForm(false)}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
               <CardDescription className="text-xs">
-                Update your organization name
+                {t("organization.editDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSaveOrgName} className="space-y-3">
                 <div className="space-y-1.5">
-                  <Label htmlFor="orgName" className="text-xs">Organization Name *</Label>
+                  <Label htmlFor="orgName" className="text-xs">{t("organization.name")}</Label>
                   <Input
                     id="orgName"
                     value={orgName}
                     onChange={(e) => setOrgName(e.target.value)}
-                    placeholder="My Organization"
+                    placeholder={t("organization.namePlaceholder")}
                     className="h-8"
                     autoFocus
                   />
                 </div>
                 <div className="flex gap-2 pt-1">
                   <Button type="button" variant="outline" size="sm" onClick={() => setShowOrgForm(false)}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={saving || !orgName.trim()}>
                     {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                    Save
+                    {t("common.save")}
                   </Button>
                 </div>
               </form>
@@ -772,19 +805,19 @@ export function OrganizationSettings() {
           <Card className="w-full max-w-sm">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">Invite Member</CardTitle>
+                <CardTitle className="text-base">{t("organization.inviteTitle")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setShowInviteForm(false)}>
                   <X className="h-4 w-4" />
                 </Button>
               </div>
               <CardDescription className="text-xs">
-                Send an invitation to join your organization
+                {t("organization.inviteDescription")}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleInvite} className="space-y-3">
                 <div className="space-y-1.5">
-                  <Label htmlFor="email" className="text-xs">Email Address *</Label>
+                  <Label htmlFor="email" className="text-xs">{t("organization.emailAddress")}</Label>
                   <Input
                     id="email"
                     type="email"
@@ -796,30 +829,28 @@ export function OrganizationSettings() {
                   />
                 </div>
                 <div className="space-y-1.5">
-                  <Label htmlFor="role" className="text-xs">Role *</Label>
+                  <Label htmlFor="role" className="text-xs">{t("organization.roleRequired")}</Label>
                   <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as OrganizationRole)}>
                     <SelectTrigger className="h-8">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="viewer">Viewer</SelectItem>
-                      <SelectItem value="manager">Manager</SelectItem>
-                      <SelectItem value="admin">Admin</SelectItem>
+                      <SelectItem value="viewer">{t("organization.role.viewer")}</SelectItem>
+                      <SelectItem value="manager">{t("organization.role.manager")}</SelectItem>
+                      <SelectItem value="admin">{t("organization.role.admin")}</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground">
-                    {inviteRole === 'viewer' && 'Can view data only'}
-                    {inviteRole === 'manager' && 'Can view and edit data'}
-                    {inviteRole === 'admin' && 'Can manage members and data'}
+                    {inviteRole !== 'owner' && t(`organization.roleHint.${inviteRole}`)}
                   </p>
                 </div>
                 <div className="flex gap-2 pt-1">
                   <Button type="button" variant="outline" size="sm" onClick={() => setShowInviteForm(false)}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={inviting || !inviteEmail.trim()}>
                     {inviting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                    Send Invite
+                    {t("organization.sendInvite")}
                   </Button>
                 </div>
               </form>
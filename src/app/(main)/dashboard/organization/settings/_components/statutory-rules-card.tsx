@@ -0,0 +1,147 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import { Loader2, Save } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import type { MessageKey } from "@/lib/i18n"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+import { DEFAULT_STATUTORY_RULES, StatutoryRules, readStatutoryRules } from "@/lib/statutory"
+
+interface StatutoryRulesCardProps {
+  orgId: string
+}
+
+type RateField = 'epf_employee_rate' | 'epf_employer_rate' | 'etf_rate'
+type FlagField = 'enabled' | 'include_extra_work' | 'include_bonus'
+
+const RATE_FIELDS: { key: RateField; label: MessageKey }[] = [
+  { key: 'epf_employee_rate', label: 'settings.statutory.epfEmployee' },
+  { key: 'epf_employer_rate', label: 'settings.statutory.epfEmployer' },
+  { key: 'etf_rate', label: 'settings.statutory.etf' },
+]
+
+const FLAG_FIELDS: { key: FlagField; label: MessageKey }[] = [
+  { key: 'enabled', label: 'settings.statutory.enabled' },
+  { key: 'include_extra_work', label: 'settings.statutory.includeExtraWork' },
+  { key: 'include_bonus', label: 'settings.statutory.includeBonus' },
+]
+
+export function StatutoryRulesCard({ orgId }: StatutoryRulesCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [rules, setRules] = useState<StatutoryRules>(DEFAULT_STATUTORY_RULES)
+  const [rates, setRates] = useState<Record<RateField, string>>({ epf_employee_rate: '', epf_employer_rate: '', etf_rate: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadRules()
+  }, [orgId])
+
+  async function loadRules() {
+    try {
+      const loaded = readStatutoryRules(await fetchOrgSettings(orgId))
+      setRules(loaded)
+      setRates({
+        epf_employee_rate: String(loaded.epf_employee_rate),
+        epf_employer_rate: String(loaded.epf_employer_rate),
+        etf_rate: String(loaded.etf_rate),
+      })
+    } catch (error: any) {
+      console.error('Error fetching statutory rules:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    const parsed = RATE_FIELDS.map(({ key }) => [key, parseFloat(rates[key])] as const)
+    if (parsed.some(([, rate]) => Number.isNaN(rate) || rate < 0 || rate > 100)) {
+      toast.error(t("settings.statutory.invalid"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updateOrgSetting(orgId, 'statutory_rules', { ...rules, ...Object.fromEntries(parsed) })
+      toast.success(t("settings.statutory.saved"))
+    } catch (error: any) {
+      console.error('Error saving statutory rules:', error)
+      toast.error(error.message ?? t("settings.statutory.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.statutory.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.statutory.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-3 grid-cols-3">
+              {RATE_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1.5">
+                  <Label htmlFor={`statutory_${key}`} className="text-xs">{t(label)}</Label>
+                  <Input
+                    id={`statutory_${key}`}
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    max="100"
+                    value={rates[key]}
+                    onChange={(e) => setRates(prev => ({ ...prev, [key]: e.target.value }))}
+                    disabled={!canManageMembers}
+                    className="h-8"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {FLAG_FIELDS.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`statutory_${key}`}
+                    checked={rules[key]}
+                    onCheckedChange={(checked) => setRules(prev => ({ ...prev, [key]: checked === true }))}
+                    disabled={!canManageMembers}
+                    className="size-4"
+                  />
+                  <Label htmlFor={`statutory_${key}`} className="text-sm font-normal">{t(label)}</Label>
+                </div>
+              ))}
+            </div>
+
+            {canManageMembers && (
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                  {t("settings.statutory.save")}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
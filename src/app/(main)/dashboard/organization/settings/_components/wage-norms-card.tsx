@@ -0,0 +1,331 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import { Loader2, Plus, Save, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import type { MessageKey } from "@/lib/i18n"
+import { fetchOrgSettings, updateOrgSetting } from "@/lib/org-settings"
+import { supabase } from "@/lib/supabase"
+import { DEFAULT_WAGE_NORM, WageNorm, WageNormOverride, readWageNorms } from "@/lib/wage-norms"
+
+interface WageNormsCardProps {
+  orgId: string
+}
+
+type NormField = keyof WageNorm
+type NormDraft = Record<NormField, string>
+
+interface OverrideDraft extends NormDraft {
+  label: string
+  // 'all' for every plantation / the whole year
+  plantation_id: string
+  from_month: string
+  to_month: string
+}
+
+const NORM_FIELDS: { key: NormField; label: MessageKey }[] = [
+  { key: 'norm_kg', label: 'settings.norms.normKg' },
+  { key: 'daily_wage', label: 'settings.norms.dailyWage' },
+  { key: 'over_kilo_rate', label: 'settings.norms.overKiloRate' },
+  { key: 'minimum_wage', label: 'settings.norms.minimumWage' },
+]
+
+const ALL = 'all'
+
+function toNormDraft(norm: WageNorm): NormDraft {
+  return {
+    norm_kg: String(norm.norm_kg),
+    daily_wage: String(norm.daily_wage),
+    over_kilo_rate: String(norm.over_kilo_rate),
+    minimum_wage: String(norm.minimum_wage),
+  }
+}
+
+function toOverrideDraft(override: WageNormOverride): OverrideDraft {
+  return {
+    ...toNormDraft(override),
+    label: override.label,
+    plantation_id: override.plantation_id ?? ALL,
+    from_month: override.from_month?.toString() ?? ALL,
+    to_month: override.to_month?.toString() ?? ALL,
+  }
+}
+
+// Null when a figure is missing or negative, or the norm is not above zero
+function parseNorm(draft: NormDraft): WageNorm | null {
+  const norm = Object.fromEntries(NORM_FIELDS.map(({ key }) => [key, parseFloat(draft[key])])) as unknown as WageNorm
+  if (Object.values(norm).some(value => Number.isNaN(value) || value < 0) || norm.norm_kg <= 0) return null
+  return norm
+}
+
+function parseOverride(draft: OverrideDraft): WageNormOverride | null {
+  const norm = parseNorm(draft)
+  if (!norm || !draft.label.trim()) return null
+  // A season needs both ends; otherwise it applies all year
+  const seasonal = draft.from_month !== ALL && draft.to_month !== ALL
+  return {
+    ...norm,
+    label: draft.label.trim(),
+    plantation_id: draft.plantation_id === ALL ? null : draft.plantation_id,
+    from_month: seasonal ? Number(draft.from_month) : null,
+    to_month: seasonal ? Number(draft.to_month) : null,
+  }
+}
+
+interface NormInputsProps {
+  id: string
+  draft: NormDraft
+  disabled: boolean
+  onChange: (key: NormField, value: string) => void
+}
+
+function NormInputs({ id, draft, disabled, onChange }: NormInputsProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+      {NORM_FIELDS.map(({ key, label }) => (
+        <div key={key} className="space-y-1.5">
+          <Label htmlFor={`${id}_${key}`} className="text-xs">{t(label)}</Label>
+          <Input
+            id={`${id}_${key}`}
+            type="number"
+            step="0.5"
+            min="0"
+            value={draft[key]}
+            onChange={(e) => onChange(key, e.target.value)}
+            disabled={disabled}
+            className="h-8"
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface MonthSelectProps {
+  value: string
+  disabled: boolean
+  onChange: (value: string) => void
+}
+
+function MonthSelect({ value, disabled, onChange }: MonthSelectProps) {
+  const { t, date: formatDate } = useTranslation()
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="h-8 w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{t("settings.norms.allYear")}</SelectItem>
+        {Array.from({ length: 12 }, (_, month) => (
+          <SelectItem key={month} value={String(month + 1)}>{formatDate(new Date(2000, month, 1), 'monthName')}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface OverrideEditorProps {
+  index: number
+  draft: OverrideDraft
+  plantations: { id: string; name: string }[]
+  disabled: boolean
+  onChange: (draft: OverrideDraft) => void
+  onRemove: () => void
+}
+
+function OverrideEditor({ index, draft, plantations, disabled, onChange, onRemove }: OverrideEditorProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="grid gap-3 grid-cols-2 lg:grid-cols-4 items-end">
+        <div className="space-y-1.5">
+          <Label htmlFor={`norm_override_${index}_label`} className="text-xs">{t("common.name")}</Label>
+          <Input
+            id={`norm_override_${index}_label`}
+            value={draft.label}
+            onChange={(e) => onChange({ ...draft, label: e.target.value })}
+            placeholder={t("settings.norms.namePlaceholder")}
+            disabled={disabled}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">{t("settings.norms.plantation")}</Label>
+          <Select value={draft.plantation_id} onValueChange={(value) => onChange({ ...draft, plantation_id: value })} disabled={disabled}>
+            <SelectTrigger className="h-8 w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("settings.norms.allPlantations")}</SelectItem>
+              {plantations.map(plantation => (
+                <SelectItem key={plantation.id} value={plantation.id}>{plantation.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">{t("settings.norms.seasonFrom")}</Label>
+          <MonthSelect value={draft.from_month} disabled={disabled} onChange={(value) => onChange({ ...draft, from_month: value })} />
+        </div>
+        <div className="flex gap-2 items-end">
+          <div className="space-y-1.5 flex-1">
+            <Label className="text-xs">{t("settings.norms.seasonTo")}</Label>
+            <MonthSelect value={draft.to_month} disabled={disabled} onChange={(value) => onChange({ ...draft, to_month: value })} />
+          </div>
+          {!disabled && (
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive" onClick={onRemove}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <NormInputs
+        id={`norm_override_${index}`}
+        draft={draft}
+        disabled={disabled}
+        onChange={(key, value) => onChange({ ...draft, [key]: value })}
+      />
+    </div>
+  )
+}
+
+export function WageNormsCard({ orgId }: WageNormsCardProps) {
+  const { canManageMembers } = useOrganization()
+  const { t } = useTranslation()
+  const [enabled, setEnabled] = useState(false)
+  const [defaultNorm, setDefaultNorm] = useState<NormDraft>(toNormDraft(DEFAULT_WAGE_NORM))
+  const [overrides, setOverrides] = useState<OverrideDraft[]>([])
+  const [plantations, setPlantations] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadNorms()
+  }, [orgId])
+
+  async function loadNorms() {
+    try {
+      const [settings, { data }] = await Promise.all([
+        fetchOrgSettings(orgId),
+        supabase.from('plantations').select('id, name').eq('organization_id', orgId).order('name'),
+      ])
+      const norms = readWageNorms(settings)
+      setEnabled(norms.enabled)
+      setDefaultNorm(toNormDraft(norms.default))
+      setOverrides(norms.overrides.map(toOverrideDraft))
+      setPlantations(data ?? [])
+    } catch (error: any) {
+      console.error('Error fetching wage norms:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleSave() {
+    const norm = parseNorm(defaultNorm)
+    const parsed = overrides.map(parseOverride)
+    if (!norm || parsed.some(override => override === null)) {
+      toast.error(t("settings.norms.invalid"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await updateOrgSetting(orgId, 'wage_norms', { enabled, default: norm, overrides: parsed })
+      toast.success(t("settings.norms.saved"))
+    } catch (error: any) {
+      console.error('Error saving wage norms:', error)
+      toast.error(error.message ?? t("settings.norms.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addOverride = () => {
+    setOverrides(prev => [...prev, { ...defaultNorm, label: '', plantation_id: ALL, from_month: ALL, to_month: ALL }])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("settings.norms.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t("settings.norms.description")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="wage_norms_enabled"
+                checked={enabled}
+                onCheckedChange={(checked) => setEnabled(checked === true)}
+                disabled={!canManageMembers}
+                className="size-4"
+              />
+              <Label htmlFor="wage_norms_enabled" className="text-sm font-normal">{t("settings.norms.enabled")}</Label>
+            </div>
+
+            <NormInputs
+              id="wage_norm_default"
+              draft={defaultNorm}
+              disabled={!canManageMembers}
+              onChange={(key, value) => setDefaultNorm(prev => ({ ...prev, [key]: value }))}
+            />
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">{t("settings.norms.overrides")}</p>
+                  <p className="text-xs text-muted-foreground">{t("settings.norms.overridesHint")}</p>
+                </div>
+                {canManageMembers && (
+                  <Button variant="outline" size="sm" onClick={addOverride}>
+                    <Plus className="h-3.5 w-3.5 mr-1.5" />
+                    {t("settings.norms.add")}
+                  </Button>
+                )}
+              </div>
+              {overrides.map((draft, index) => (
+                <OverrideEditor
+                  key={index}
+                  index={index}
+                  draft={draft}
+                  plantations={plantations}
+                  disabled={!canManageMembers}
+                  onChange={(next) => setOverrides(prev => prev.map((item, i) => i === index ? next : item))}
+                  onRemove={() => setOverrides(prev => prev.filter((_, i) => i !== index))}
+                />
+              ))}
+            </div>
+
+            {canManageMembers && (
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleSave} disabled={saving}>
+                  {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Save className="h-3.5 w-3.5 mr-1.5" />}
+                  {t("settings.norms.save")}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,6 +5,7 @@ import { X, Edit, MapPin, Calendar, Leaf } from "lucide-react"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
 import { supabase } from "@/lib/supabase"
 import { Plantation } from "@/types/database"
 
@@ -15,6 +16,7 @@ interface PlantationDetailsProps {
 }
 
 export function PlantationDetails({ plantation, onClose, onEdit }: PlantationDetailsProps) {
+  const { t, kg, date } = useTranslation()
   const [stats, setStats] = useState({
     totalWorkers: 0,
     monthlyHarvest: 0,
@@ -72,7 +74,7 @@ export function PlantationDetails({ plantation, onClose, onEdit }: PlantationDet
             <div className="flex gap-1">
               <Button variant="default" size="sm" onClick={onEdit} className="h-7 text-xs">
                 <Edit className="h-3 w-3 mr-1" />
-                Edit
+                {t("common.edit")}
               </Button>
               <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0">
                 <X className="h-4 w-4" />
@@ -100,19 +102,19 @@ export function PlantationDetails({ plantation, onClose, onEdit }: PlantationDet
           <div className="grid gap-2 grid-cols-2">
             <div className="bg-muted/50 rounded-md p-2">
               <div className="text-lg font-bold">{stats.totalWorkers}</div>
-              <p className="text-xs text-muted-foreground">Workers</p>
+              <p className="text-xs text-muted-foreground">{t("plantations.workers")}</p>
             </div>
             <div className="bg-muted/50 rounded-md p-2">
-              <div className="text-lg font-bold">{stats.monthlyHarvest.toFixed(0)}<span className="text-xs font-normal"> kg</span></div>
-              <p className="text-xs text-muted-foreground">Monthly</p>
+              <div className="text-lg font-bold">{kg(stats.monthlyHarvest)}</div>
+              <p className="text-xs text-muted-foreground">{t("plantations.monthly")}</p>
             </div>
             <div className="bg-muted/50 rounded-md p-2">
-              <div className="text-lg font-bold">{stats.avgDailyOutput.toFixed(1)}<span className="text-xs font-normal"> kg</span></div>
-              <p className="text-xs text-muted-foreground">Daily Avg</p>
+              <div className="text-lg font-bold">{kg(stats.avgDailyOutput)}</div>
+              <p className="text-xs text-muted-foreground">{t("plantations.dailyAvg")}</p>
             </div>
             <div className="bg-muted/50 rounded-md p-2">
-              <div className="text-lg font-bold">{plantation.area_hectares}<span className="text-xs font-normal"> ha</span></div>
-              <p className="text-xs text-muted-foreground">Area</p>
+              <div className="text-lg font-bold">{t("plantations.hectaresValue", { value: plantation.area_hectares })}</div>
+              <p className="text-xs text-muted-foreground">{t("plantations.area")}</p>
             </div>
           </div>
 
@@ -120,15 +122,15 @@ export function PlantationDetails({ plantation, onClose, onEdit }: PlantationDet
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
               <span className="text-muted-foreground flex items-center gap-1">
-                <Leaf className="h-3 w-3 text-green-600" /> Variety
+                <Leaf className="h-3 w-3 text-green-600" /> {t("plantations.variety")}
               </span>
               <span>{plantation.tea_variety}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-muted-foreground flex items-center gap-1">
-                <Calendar className="h-3 w-3 text-orange-600" /> Established
+                <Calendar className="h-3 w-3 text-orange-600" /> {t("plantations.established")}
               </span>
-              <span>{plantation.established_date ? new Date(plantation.established_date).toLocaleDateString() : 'Not specified'}</span>
+              <span>{plantation.established_date ? date(plantation.established_date) : t("plantations.notSpecified")}</span>
             </div>
           </div>
         </CardContent>
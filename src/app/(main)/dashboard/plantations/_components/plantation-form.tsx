@@ -11,21 +11,24 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Translate } from "@/lib/i18n"
 import { supabase } from "@/lib/supabase"
 import { Plantation } from "@/types/database"
 import { toast } from "sonner"
 
-const plantationSchema = z.object({
-  name: z.string().min(2, "Name must be at least 2 characters"),
-  location: z.string().min(2, "Location must be at least 2 characters"),
-  area_hectares: z.number().positive("Area must be positive"),
-  tea_variety: z.string().min(1, "Tea variety is required"),
-  number_of_plants: z.number().positive("Number of plants must be positive").optional(),
+// Built per language so validation messages follow the user's choice
+const plantationSchema = (t: Translate) => z.object({
+  name: z.string().min(2, t("plantations.error.name")),
+  location: z.string().min(2, t("plantations.error.location")),
+  area_hectares: z.number().positive(t("plantations.error.area")),
+  tea_variety: z.string().min(1, t("plantations.error.teaVariety")),
+  number_of_plants: z.number().positive(t("plantations.error.plants")).optional(),
   established_date: z.string().optional(),
   image_url: z.string().optional(),
 })
 
-type PlantationFormData = z.infer<typeof plantationSchema>
+type PlantationFormData = z.infer<ReturnType<typeof plantationSchema>>
 
 interface PlantationFormProps {
   plantation?: Plantation | null
@@ -34,6 +37,7 @@ interface PlantationFormProps {
 
 export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
   const { currentOrganization } = useOrganization()
+  const { t } = useTranslation()
   const orgId = currentOrganization?.organization_id
   
   const [loading, setLoading] = useState(false)
@@ -48,7 +52,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
     setValue,
     watch,
   } = useForm<PlantationFormData>({
-    resolver: zodResolver(plantationSchema),
+    resolver: zodResolver(plantationSchema(t)),
     defaultValues: {
       name: plantation?.name || "",
       location: plantation?.location || "",
@@ -66,13 +70,13 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
 
     // Validate file type
     if (!file.type.startsWith('image/')) {
-      toast.error("Please select an image file")
+      toast.error(t("plantations.selectImage"))
       return
     }
 
     // Validate file size (max 5MB)
     if (file.size > 5 * 1024 * 1024) {
-      toast.error("Image must be less than 5MB")
+      toast.error(t("plantations.imageTooLarge"))
       return
     }
 
@@ -98,10 +102,10 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
 
       setImagePreview(publicUrl)
       setValue('image_url', publicUrl)
-      toast.success("Image uploaded successfully")
+      toast.success(t("plantations.imageUploaded"))
     } catch (error: any) {
       console.error('Error uploading image:', error)
-      toast.error(error.message || "Failed to upload image")
+      toast.error(error.message || t("plantations.imageFailed"))
     } finally {
       setUploading(false)
     }
@@ -133,7 +137,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
           .eq('id', plantation.id)
         
         if (error) throw error
-        toast.success("Plantation updated successfully")
+        toast.success(t("plantations.updated"))
       } else {
         // Create new plantation
         const { error } = await supabase
@@ -141,13 +145,13 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
           .insert([{ ...plantationData, organization_id: orgId }])
         
         if (error) throw error
-        toast.success("Plantation created successfully")
+        toast.success(t("plantations.created"))
       }
       
       onClose()
     } catch (error: any) {
       console.error('Error saving plantation:', error)
-      toast.error(error.message || "Failed to save plantation")
+      toast.error(error.message || t("plantations.saveFailed"))
     } finally {
       setLoading(false)
     }
@@ -159,9 +163,9 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle>{plantation ? 'Edit Plantation' : 'Add New Plantation'}</CardTitle>
+              <CardTitle>{plantation ? t("plantations.editTitle") : t("plantations.addTitle")}</CardTitle>
               <CardDescription>
-                {plantation ? 'Update plantation details' : 'Add a new tea plantation to your management system'}
+                {plantation ? t("plantations.editDescription") : t("plantations.addDescription")}
               </CardDescription>
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
@@ -173,14 +177,14 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             {/* Image Upload Section */}
             <div className="space-y-2">
-              <Label>Plantation Image</Label>
+              <Label>{t("plantations.image")}</Label>
               <div className="flex items-start gap-4">
                 <div className="relative h-32 w-48 bg-muted rounded-lg overflow-hidden border-2 border-dashed border-muted-foreground/25">
                   {imagePreview ? (
                     <>
                       <Image
                         src={imagePreview}
-                        alt="Plantation preview"
+                        alt={t("plantations.imagePreview")}
                         fill
                         sizes="192px"
                         className="object-cover"
@@ -199,7 +203,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
                   ) : (
                     <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
                       <ImageIcon className="h-8 w-8 mb-1" />
-                      <span className="text-xs">No image</span>
+                      <span className="text-xs">{t("plantations.noImage")}</span>
                     </div>
                   )}
                 </div>
@@ -223,10 +227,10 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
                     ) : (
                       <Upload className="h-4 w-4 mr-2" />
                     )}
-                    {uploading ? 'Uploading...' : 'Upload Image'}
+                    {uploading ? t("plantations.uploading") : t("plantations.uploadImage")}
                   </Button>
                   <p className="text-xs text-muted-foreground">
-                    Max: 5MB (JPG, PNG, WebP)
+                    {t("plantations.imageLimits")}
                   </p>
                 </div>
               </div>
@@ -234,7 +238,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
 
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
-                <Label htmlFor="name">Plantation Name *</Label>
+                <Label htmlFor="name">{t("plantations.name")}</Label>
                 <Input
                   id="name"
                   {...register("name")}
@@ -246,7 +250,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="location">Location *</Label>
+                <Label htmlFor="location">{t("plantations.location")}</Label>
                 <Input
                   id="location"
                   {...register("location")}
@@ -258,7 +262,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="area_hectares">Area (Hectares) *</Label>
+                <Label htmlFor="area_hectares">{t("plantations.areaHectares")}</Label>
                 <Input
                   id="area_hectares"
                   type="number"
@@ -272,11 +276,11 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="tea_variety">Tea Variety *</Label>
+                <Label htmlFor="tea_variety">{t("plantations.teaVariety")}</Label>
                 <Input
                   id="tea_variety"
                   {...register("tea_variety")}
-                  placeholder="e.g., Ceylon Black, Green Tea"
+                  placeholder={t("plantations.teaVarietyPlaceholder")}
                 />
                 {errors.tea_variety && (
                   <p className="text-sm text-destructive">{errors.tea_variety.message}</p>
@@ -284,7 +288,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="number_of_plants">Number of Plants</Label>
+                <Label htmlFor="number_of_plants">{t("plantations.numberOfPlants")}</Label>
                 <Input
                   id="number_of_plants"
                   type="number"
@@ -298,7 +302,7 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="established_date">Established Date</Label>
+                <Label htmlFor="established_date">{t("plantations.establishedDate")}</Label>
                 <Input
                   id="established_date"
                   type="date"
@@ -309,12 +313,12 @@ export function PlantationForm({ plantation, onClose }: PlantationFormProps) {
 
             <div className="flex gap-2 justify-end">
               <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button type="submit" disabled={loading}>
                 {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 <Save className="h-4 w-4 mr-2" />
-                {plantation ? 'Update' : 'Create'} Plantation
+                {plantation ? t("plantations.update") : t("plantations.create")}
               </Button>
             </div>
           </form>
@@ -6,6 +6,7 @@ import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
 import { supabase } from "@/lib/supabase"
 import { Plantation } from "@/types/database"
 import { PlantationForm } from "./plantation-form"
@@ -13,6 +14,7 @@ import { useOrganization } from "@/contexts/organization-context"
 
 export function PlantationsManager() {
   const { currentOrganization, loading: orgLoading } = useOrganization()
+  const { t, date } = useTranslation()
   const orgId = currentOrganization?.organization_id
   
   const [plantations, setPlantations] = useState<Plantation[]>([])
@@ -89,11 +91,11 @@ export function PlantationsManager() {
       if (workersError) throw workersError
 
       if (workers && workers.length > 0) {
-        alert(`Cannot delete "${plantation.name}" because it has workers assigned to it. Please reassign or remove the workers first.`)
+        alert(t("plantations.hasWorkers", { name: plantation.name }))
         return
       }
 
-      if (!confirm(`Are you sure you want to delete ${plantation.name}?`)) {
+      if (!confirm(t("plantations.confirmDelete", { name: plantation.name }))) {
         return
       }
 
@@ -106,7 +108,7 @@ export function PlantationsManager() {
       fetchPlantations() // Refresh data
     } catch (error: any) {
       console.error('Error deleting plantation:', error)
-      alert(error.message || "Failed to delete plantation")
+      alert(error.message || t("plantations.deleteFailed"))
     }
   }
 
@@ -119,13 +121,13 @@ export function PlantationsManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
 
   if (loading) {
-    return <div className="flex justify-center items-center h-64">Loading plantations...</div>
+    return <div className="flex justify-center items-center h-64">{t("plantations.loading")}</div>
   }
 
   return (
@@ -134,18 +136,18 @@ export function PlantationsManager() {
       <div className="flex flex-col gap-4">
         {/* Title and Add Button */}
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Plantations</h2>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("plantations.title")}</h2>
           <Button onClick={handleCreatePlantation} size="sm">
             <Plus className="h-4 w-4 mr-2" />
-            <span className="hidden sm:inline">Add Plantation</span>
-            <span className="sm:hidden">Add</span>
+            <span className="hidden sm:inline">{t("plantations.add")}</span>
+            <span className="sm:hidden">{t("plantations.addShort")}</span>
           </Button>
         </div>
         {/* Search */}
         <div className="relative w-full sm:max-w-xs">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search plantations..."
+            placeholder={t("plantations.search")}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10 w-full"
@@ -185,7 +187,7 @@ export function PlantationsManager() {
                 </div>
                 {plantation.tea_variety && (
                   <p className="text-xs text-muted-foreground mt-0.5">
-                    <span className="font-medium">Variety:</span> {plantation.tea_variety}
+                    <span className="font-medium">{t("plantations.variety")}:</span> {plantation.tea_variety}
                   </p>
                 )}
               </div>
@@ -194,14 +196,14 @@ export function PlantationsManager() {
                 <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md bg-muted/50">
                   <Maximize2 className="h-3.5 w-3.5 text-muted-foreground" />
                   <div className="flex flex-col">
-                    <span className="text-[10px] text-muted-foreground uppercase leading-none">Area</span>
-                    <span className="text-sm font-semibold mt-0.5">{plantation.area_hectares} ha</span>
+                    <span className="text-[10px] text-muted-foreground uppercase leading-none">{t("plantations.area")}</span>
+                    <span className="text-sm font-semibold mt-0.5">{t("plantations.hectaresValue", { value: plantation.area_hectares })}</span>
                   </div>
                 </div>
                 {plantation.number_of_plants && (
                   <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md bg-muted/50">
                     <div className="flex flex-col w-full">
-                      <span className="text-[10px] text-muted-foreground uppercase leading-none">Plants</span>
+                      <span className="text-[10px] text-muted-foreground uppercase leading-none">{t("plantations.plants")}</span>
                       <span className="text-sm font-semibold mt-0.5">{plantation.number_of_plants.toLocaleString()}</span>
                     </div>
                   </div>
@@ -211,8 +213,8 @@ export function PlantationsManager() {
                 <div className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-md bg-muted/50">
                   <Calendar className="h-3.5 w-3.5 text-muted-foreground" />
                   <div className="flex flex-col">
-                    <span className="text-[10px] text-muted-foreground uppercase leading-none">Established</span>
-                    <span className="text-sm font-semibold mt-0.5">{new Date(plantation.established_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                    <span className="text-[10px] text-muted-foreground uppercase leading-none">{t("plantations.established")}</span>
+                    <span className="text-sm font-semibold mt-0.5">{date(plantation.established_date)}</span>
                   </div>
                 </div>
               )}
@@ -242,7 +244,7 @@ export function PlantationsManager() {
 
       {filteredPlantations.length === 0 && (
         <div className="text-center py-12">
-          <p className="text-muted-foreground">No plantations found</p>
+          <p className="text-muted-foreground">{t("plantations.none")}</p>
         </div>
       )}
 
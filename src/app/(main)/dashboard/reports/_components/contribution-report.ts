@@ -0,0 +1,228 @@
+// Data and HTML for the EPF/ETF contribution summary that accompanies the monthly remittance
+
+import type { Localizer } from "@/lib/i18n"
+import { fetchOrgSettings } from "@/lib/org-settings"
+import { StatutoryRules, computeContributions, contributoryWage, readStatutoryRules } from "@/lib/statutory"
+import { supabase } from "@/lib/supabase"
+import { recordNormWage } from "@/lib/wage-norms"
+
+interface ContributionAmounts {
+  contributory_wage: number
+  epf_employee: number
+  epf_employer: number
+  etf: number
+}
+
+interface ContributionLine extends ContributionAmounts {
+  employee_id: string
+  name: string
+}
+
+interface ContributionMonth {
+  month: string
+  // Closed months use the payroll snapshot; open months are calculated from records
+  closed: boolean
+  lines: ContributionLine[]
+  totals: ContributionAmounts
+}
+
+export interface ContributionReportData {
+  rules: StatutoryRules
+  months: ContributionMonth[]
+  totals: ContributionAmounts
+}
+
+interface LiveEarnings {
+  employee_id: string
+  name: string
+  total_earned: number
+  extra_work: number
+  bonus: number
+}
+
+function monthOf(date: string) {
+  return `${date.slice(0, 7)}-01`
+}
+
+function sumAmounts(lines: ContributionAmounts[]): ContributionAmounts {
+  return lines.reduce((total, line) => ({
+    contributory_wage: total.contributory_wage + line.contributory_wage,
+    epf_employee: total.epf_employee + line.epf_employee,
+    epf_employer: total.epf_employer + line.epf_employer,
+    etf: total.etf + line.etf,
+  }), { contributory_wage: 0, epf_employee: 0, epf_employer: 0, etf: 0 })
+}
+
+async function fetchClosedLines(orgId: string, from: string, to: string) {
+  const { data: runs, error } = await supabase
+    .from('payroll_runs')
+    .select('id, month')
+    .eq('organization_id', orgId)
+    .eq('status', 'closed')
+    .gte('month', monthOf(from))
+    .lte('month', to)
+  if (error) throw error
+  if (!runs || runs.length === 0) return new Map<string, ContributionLine[]>()
+
+  const { data: lines, error: linesError } = await supabase
+    .from('payroll_run_lines')
+    .select('payroll_run_id, employee_id, worker_name, contributory_wage, epf_employee, epf_employer, etf')
+    .in('payroll_run_id', runs.map((r: any) => r.id))
+  if (linesError) throw linesError
+
+  const monthByRun = new Map<string, string>(runs.map((r: any) => [r.id, r.month]))
+  const byMonth = new Map<string, ContributionLine[]>(runs.map((r: any) => [r.month, []]))
+  ;(lines ?? []).forEach((l: any) => {
+    byMonth.get(monthByRun.get(l.payroll_run_id) ?? '')?.push({
+      employee_id: l.employee_id,
+      name: l.worker_name,
+      contributory_wage: Number(l.contributory_wage),
+      epf_employee: Number(l.epf_employee),
+      epf_employer: Number(l.epf_employer),
+      etf: Number(l.etf),
+    })
+  })
+  return byMonth
+}
+
+function liveEntry(byKey: Map<string, LiveEarnings>, key: string, worker: any) {
+  const entry = byKey.get(key) ?? {
+    employee_id: worker?.employee_id ?? '-',
+    name: `${worker?.first_name ?? ''} ${worker?.last_name ?? ''}`.trim(),
+    total_earned: 0,
+    extra_work: 0,
+    bonus: 0,
+  }
+  byKey.set(key, entry)
+  return entry
+}
+
+// Earnings per month|worker from plucking records and bonuses
+async function fetchLiveEarnings(orgId: string, from: string, to: string) {
+  const [{ data: records, error }, { data: bonuses }] = await Promise.all([
+    supabase
+      .from('daily_plucking')
+      .select('worker_id, date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay, workers (employee_id, first_name, last_name)')
+      .eq('organization_id', orgId)
+      .eq('is_advance', false)
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('worker_bonuses')
+      .select('worker_id, month, amount, workers (employee_id, first_name, last_name)')
+      .eq('organization_id', orgId)
+      .gte('month', monthOf(from))
+      .lte('month', to),
+  ])
+  if (error) throw error
+
+  const byKey = new Map<string, LiveEarnings>()
+  ;(records ?? []).forEach((r: any) => {
+    const entry = liveEntry(byKey, `${monthOf(r.date)}|${r.worker_id}`, r.workers)
+    const extraWork = Number(r.extra_work_payment) || 0
+    entry.total_earned += recordNormWage(r).plucking_wage + extraWork
+    entry.extra_work += extraWork
+  })
+  ;(bonuses ?? []).forEach((b: any) => {
+    liveEntry(byKey, `${monthOf(b.month)}|${b.worker_id}`, b.workers).bonus += Number(b.amount) || 0
+  })
+  return byKey
+}
+
+function liveLinesByMonth(earnings: Map<string, LiveEarnings>, rules: StatutoryRules) {
+  const byMonth = new Map<string, ContributionLine[]>()
+  earnings.forEach((entry, key) => {
+    const month = key.split('|')[0]
+    const contributions = computeContributions(contributoryWage(entry, rules), rules)
+    if (contributions.contributory_wage <= 0) return
+    byMonth.set(month, [...(byMonth.get(month) ?? []), { employee_id: entry.employee_id, name: entry.name, ...contributions }])
+  })
+  return byMonth
+}
+
+export async function fetchContributionReport(orgId: string, from: string, to: string): Promise<ContributionReportData> {
+  const [settings, closed, earnings] = await Promise.all([
+    fetchOrgSettings(orgId),
+    fetchClosedLines(orgId, from, to),
+    fetchLiveEarnings(orgId, from, to),
+  ])
+  const rules = readStatutoryRules(settings)
+  const live = liveLinesByMonth(earnings, rules)
+
+  const monthKeys = [...new Set([...closed.keys(), ...live.keys()])].sort()
+  const months = monthKeys.map(month => {
+    const lines = (closed.get(month) ?? live.get(month) ?? [])
+      .sort((a, b) => a.employee_id.localeCompare(b.employee_id))
+    return { month, closed: closed.has(month), lines, totals: sumAmounts(lines) }
+  })
+
+  return { rules, months, totals: sumAmounts(months.map(m => m.totals)) }
+}
+
+function renderMonth(month: ContributionMonth, rules: StatutoryRules, l: Localizer) {
+  const { t, money } = l
+  return `
+    <h2 style="font-size: 16px; margin-top: 30px;">
+      ${l.date(month.month, 'month')}
+      <small style="color: #666; font-weight: normal;">${t(month.closed ? 'reports.closedPayroll' : 'reports.notClosed')}</small>
+    </h2>
+    <table>
+      <thead>
+        <tr>
+          <th>${t('common.employeeId')}</th>
+          <th>${t('common.worker')}</th>
+          <th class="number">${t('reports.contributoryWage')}</th>
+          <th class="number">${t('reports.epfEmployee', { rate: rules.epf_employee_rate })}</th>
+          <th class="number">${t('reports.epfEmployer', { rate: rules.epf_employer_rate })}</th>
+          <th class="number">${t('reports.totalEpf')}</th>
+          <th class="number">${t('reports.etf', { rate: rules.etf_rate })}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${month.lines.map(l => `
+          <tr>
+            <td>${l.employee_id}</td>
+            <td>${l.name}</td>
+            <td class="number">${money(l.contributory_wage)}</td>
+            <td class="number">${money(l.epf_employee)}</td>
+            <td class="number">${money(l.epf_employer)}</td>
+            <td class="number">${money(l.epf_employee + l.epf_employer)}</td>
+            <td class="number">${money(l.etf)}</td>
+          </tr>
+        `).join('')}
+        <tr style="font-weight: 600;">
+          <td colspan="2">${t('reports.totalMembers', { count: month.lines.length })}</td>
+          <td class="number">${money(month.totals.contributory_wage)}</td>
+          <td class="number">${money(month.totals.epf_employee)}</td>
+          <td class="number">${money(month.totals.epf_employer)}</td>
+          <td class="number">${money(month.totals.epf_employee + month.totals.epf_employer)}</td>
+          <td class="number">${money(month.totals.etf)}</td>
+        </tr>
+      </tbody>
+    </table>
+  `
+}
+
+export function renderContributionReport(data: ContributionReportData, l: Localizer) {
+  const { t, money } = l
+  const epfRemittance = data.totals.epf_employee + data.totals.epf_employer
+
+  return `
+    <div class="summary-cards">
+      <div class="summary-card">
+        <h3>${t('reports.contributoryWages')}</h3>
+        <p class="amount">${money(data.totals.contributory_wage)}</p>
+      </div>
+      <div class="summary-card">
+        <h3>${t('reports.epfRemittance')}</h3>
+        <p class="amount">${money(epfRemittance)}</p>
+      </div>
+      <div class="summary-card">
+        <h3>${t('reports.etfRemittance')}</h3>
+        <p class="amount">${money(data.totals.etf)}</p>
+      </div>
+    </div>
+    ${data.months.length === 0 ? `<p style="margin-top: 20px; color: #666;">${t('reports.noContributions')}</p>` : ''}
+    ${data.months.map(month => renderMonth(month, data.rules, l)).join('')}
+  `
+}
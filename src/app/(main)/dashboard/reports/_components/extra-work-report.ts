@@ -0,0 +1,137 @@
+// Data and HTML for the extra work report (extra work payments broken down by type)
+
+import { extraWorkTypeLabel } from "@/lib/extra-work"
+import type { Localizer, Translate } from "@/lib/i18n"
+import { supabase } from "@/lib/supabase"
+
+interface TypeTotal {
+  name: string
+  entries: number
+  amount: number
+}
+
+interface WorkerTotal {
+  employee_id: string
+  name: string
+  byType: Record<string, number>
+  amount: number
+}
+
+export interface ExtraWorkReportData {
+  types: TypeTotal[]
+  workers: WorkerTotal[]
+  total: number
+}
+
+function addToTypeTotal(types: Map<string, TypeTotal>, typeName: string, amount: number) {
+  const typeTotal = types.get(typeName) ?? { name: typeName, entries: 0, amount: 0 }
+  typeTotal.entries += 1
+  typeTotal.amount += amount
+  types.set(typeName, typeTotal)
+}
+
+function newWorkerTotal(worker: any): WorkerTotal {
+  return {
+    employee_id: worker?.employee_id ?? '-',
+    name: `${worker?.first_name ?? ''} ${worker?.last_name ?? ''}`.trim(),
+    byType: {},
+    amount: 0,
+  }
+}
+
+function addToWorkerTotal(workers: Map<string, WorkerTotal>, record: any, typeName: string, amount: number) {
+  const workerTotal = workers.get(record.worker_id) ?? newWorkerTotal(record.workers)
+  workerTotal.byType[typeName] = (workerTotal.byType[typeName] ?? 0) + amount
+  workerTotal.amount += amount
+  workers.set(record.worker_id, workerTotal)
+}
+
+export async function fetchExtraWorkReport(orgId: string, from: string, to: string, t: Translate): Promise<ExtraWorkReportData> {
+  const { data, error } = await supabase
+    .from('daily_plucking_extra_work')
+    .select(`
+      amount,
+      extra_work_types (name),
+      daily_plucking!inner (date, worker_id, workers (employee_id, first_name, last_name))
+    `)
+    .eq('organization_id', orgId)
+    .gte('daily_plucking.date', from)
+    .lte('daily_plucking.date', to)
+
+  if (error) throw error
+
+  const types = new Map<string, TypeTotal>()
+  const workers = new Map<string, WorkerTotal>()
+  let total = 0
+
+  ;(data ?? []).forEach((row: any) => {
+    const amount = Number(row.amount) || 0
+    const typeName = extraWorkTypeLabel(row, t)
+    addToTypeTotal(types, typeName, amount)
+    addToWorkerTotal(workers, row.daily_plucking, typeName, amount)
+    total += amount
+  })
+
+  return {
+    types: Array.from(types.values()).sort((a, b) => b.amount - a.amount),
+    workers: Array.from(workers.values()).sort((a, b) => a.employee_id.localeCompare(b.employee_id)),
+    total,
+  }
+}
+
+export function renderExtraWorkReport(data: ExtraWorkReportData, l: Localizer) {
+  const { t, money } = l
+  const typeNames = data.types.map(type => type.name)
+
+  return `
+    <h2 style="font-size: 16px; margin-top: 20px;">${t('reports.byWorkType')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>${t('reports.workType')}</th>
+          <th class="number">${t('reports.entries')}</th>
+          <th class="number">${t('reports.amount')}</th>
+          <th class="number">${t('reports.share')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${data.types.map(type => `
+          <tr>
+            <td>${type.name}</td>
+            <td class="number">${l.number(type.entries)}</td>
+            <td class="number">${money(type.amount)}</td>
+            <td class="number">${data.total > 0 ? ((type.amount / data.total) * 100).toFixed(1) : '0.0'}%</td>
+          </tr>
+        `).join('')}
+        <tr style="font-weight: 600;">
+          <td>${t('common.total')}</td>
+          <td class="number">${l.number(data.types.reduce((sum, type) => sum + type.entries, 0))}</td>
+          <td class="number">${money(data.total)}</td>
+          <td class="number">100%</td>
+        </tr>
+      </tbody>
+    </table>
+
+    <h2 style="font-size: 16px; margin-top: 30px;">${t('reports.byWorker')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>${t('common.employeeId')}</th>
+          <th>${t('common.worker')}</th>
+          ${typeNames.map(name => `<th class="number">${name}</th>`).join('')}
+          <th class="number">${t('common.total')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${data.workers.map(w => `
+          <tr>
+            <td>${w.employee_id}</td>
+            <td>${w.name}</td>
+            ${typeNames.map(name => `<td class="number">${w.byType[name] ? money(w.byType[name]) : '-'}</td>`).join('')}
+            <td class="number" style="font-weight: 600;">${money(w.amount)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `
+}
@@ -0,0 +1,74 @@
+// Data and HTML for the financial summary (sales revenue against wages and transport)
+
+import type { Localizer } from "@/lib/i18n"
+import { supabase } from "@/lib/supabase"
+import { saleNetIncome } from "@/lib/tea-sale-deductions"
+import { recordNormWage } from "@/lib/wage-norms"
+
+export interface FinancialReportData {
+  revenue: number
+  wages: number
+  transport: number
+  expenses: number
+  profit: number
+}
+
+export async function fetchFinancialReport(orgId: string, from: string, to: string): Promise<FinancialReportData> {
+  const [salesResult, pluckingResult, tripsResult] = await Promise.all([
+    supabase
+      .from('tea_sales')
+      .select('total_income, deductions, net_income')
+      .eq('organization_id', orgId)
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('daily_plucking')
+      .select('kg_plucked, rate_per_kg, wage_earned, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay')
+      .eq('organization_id', orgId)
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('leaf_trips')
+      .select('cost')
+      .eq('organization_id', orgId)
+      .gte('trip_date', from)
+      .lte('trip_date', to),
+  ])
+
+  const revenue = (salesResult.data ?? []).reduce((sum, sale) => sum + saleNetIncome(sale), 0)
+  const wages = (pluckingResult.data ?? []).reduce((sum, p) => sum + recordNormWage(p).plucking_wage, 0)
+  const transport = (tripsResult.data ?? []).reduce((sum, trip) => sum + Number(trip.cost), 0)
+  const expenses = wages + transport
+
+  return { revenue, wages, transport, expenses, profit: revenue - expenses }
+}
+
+export function renderFinancialReport(data: FinancialReportData, l: Localizer) {
+  const { t, money } = l
+
+  return `
+    <div class="summary-cards">
+      <div class="summary-card">
+        <h3>${t('reports.totalRevenue')}</h3>
+        <p class="amount positive">${money(data.revenue)}</p>
+      </div>
+      <div class="summary-card">
+        <h3>${t('reports.totalExpenses')}</h3>
+        <p class="amount negative">${money(data.expenses)}</p>
+      </div>
+      <div class="summary-card">
+        <h3>${t('reports.netProfit')}</h3>
+        <p class="amount ${data.profit >= 0 ? 'positive' : 'negative'}">${money(data.profit)}</p>
+      </div>
+    </div>
+
+    <h2 style="font-size: 16px; margin-top: 20px;">${t('reports.expenseBreakdown')}</h2>
+    <table>
+      <tbody>
+        <tr><td>${t('reports.wages')}</td><td class="number">${money(data.wages)}</td></tr>
+        <tr><td>${t('reports.transportCosts')}</td><td class="number">${money(data.transport)}</td></tr>
+        <tr style="font-weight: 600;"><td>${t('common.total')}</td><td class="number">${money(data.expenses)}</td></tr>
+      </tbody>
+    </table>
+  `
+}
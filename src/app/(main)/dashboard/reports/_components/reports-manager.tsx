@@ -1,60 +1,88 @@
 "use client"
 
 import { useState } from "react"
-import { FileText, Download, Loader2, Calendar, Users, Leaf, TrendingUp, DollarSign } from "lucide-react"
+import { FileText, Download, Loader2, Calendar, Users, Leaf, TrendingUp, DollarSign, Hammer, Landmark, Truck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { EXTRA_WORK_SELECT, extraWorkTypeLabel } from "@/lib/extra-work"
+import type { Localizer, MessageKey } from "@/lib/i18n"
 import { supabase } from "@/lib/supabase"
+import { saleNetIncome } from "@/lib/tea-sale-deductions"
 import { format, startOfMonth, endOfMonth, subMonths } from "date-fns"
 import { toast } from "sonner"
-import { formatCurrency } from "@/lib/utils"
-import { useOrganization } from "@/contexts/organization-context"
+
+import { fetchContributionReport, renderContributionReport } from "./contribution-report"
+import { fetchExtraWorkReport, renderExtraWorkReport } from "./extra-work-report"
+import { fetchFinancialReport, renderFinancialReport } from "./financial-report"
+import { fetchTransportReport, renderTransportReport } from "./transport-report"
 
 interface ReportType {
   id: string
-  title: string
-  description: string
+  title: MessageKey
+  description: MessageKey
   icon: React.ElementType
 }
 
 const REPORT_TYPES: ReportType[] = [
   {
     id: 'daily-records',
-    title: 'Daily Records Report',
-    description: 'Daily plucking records with worker details and wages',
+    title: 'reports.dailyRecords',
+    description: 'reports.dailyRecordsDescription',
     icon: Leaf,
   },
   {
     id: 'salary',
-    title: 'Salary Report',
-    description: 'Monthly salary summary for all workers',
+    title: 'reports.salary',
+    description: 'reports.salaryDescription',
     icon: DollarSign,
   },
+  {
+    id: 'extra-work',
+    title: 'reports.extraWork',
+    description: 'reports.extraWorkDescription',
+    icon: Hammer,
+  },
+  {
+    id: 'contributions',
+    title: 'reports.contributions',
+    description: 'reports.contributionsDescription',
+    icon: Landmark,
+  },
   {
     id: 'workers',
-    title: 'Workers Report',
-    description: 'Complete list of workers with details',
+    title: 'reports.workers',
+    description: 'reports.workersDescription',
     icon: Users,
   },
   {
     id: 'tea-sales',
-    title: 'Tea Sales Report',
-    description: 'Tea sales and revenue summary',
+    title: 'reports.teaSales',
+    description: 'reports.teaSalesDescription',
     icon: TrendingUp,
   },
+  {
+    id: 'transport',
+    title: 'reports.transport',
+    description: 'reports.transportDescription',
+    icon: Truck,
+  },
   {
     id: 'financial',
-    title: 'Financial Summary',
-    description: 'Revenue, expenses and profit overview',
+    title: 'reports.financial',
+    description: 'reports.financialDescription',
     icon: DollarSign,
   },
 ]
 
 export function ReportsManager() {
   const { currentOrganization, loading: orgLoading } = useOrganization()
+  const l = useTranslation()
+  const { t, money } = l
   const orgId = currentOrganization?.organization_id
   
   const [selectedReport, setSelectedReport] = useState<string>("")
@@ -64,7 +92,7 @@ export function ReportsManager() {
 
   const handleGenerateReport = async () => {
     if (!selectedReport) {
-      toast.error("Please select a report type")
+      toast.error(t('reports.selectTypeError'))
       return
     }
 
@@ -72,16 +100,16 @@ export function ReportsManager() {
 
     try {
       let reportData: any = null
-      let reportTitle = ""
+      const reportTitle = t(REPORT_TYPES.find(r => r.id === selectedReport)?.title ?? 'nav.pdfReports')
 
       switch (selectedReport) {
         case 'daily-records':
-          reportTitle = "Daily Records Report"
           const { data: records } = await supabase
             .from('daily_plucking')
             .select(`
               *,
-              workers (first_name, last_name, employee_id)
+              workers (first_name, last_name, employee_id),
+              ${EXTRA_WORK_SELECT}
             `)
             .eq('organization_id', orgId)
             .gte('date', dateFrom)
@@ -91,12 +119,12 @@ export function ReportsManager() {
           break
 
         case 'salary':
-          reportTitle = "Salary Report"
           const { data: salaryRecords } = await supabase
             .from('daily_plucking')
             .select(`
               *,
-              workers (first_name, last_name, employee_id)
+              workers (first_name, last_name, employee_id),
+              ${EXTRA_WORK_SELECT}
             `)
             .eq('organization_id', orgId)
             .gte('date', dateFrom)
@@ -104,8 +132,15 @@ export function ReportsManager() {
           reportData = salaryRecords
           break
 
+        case 'extra-work':
+          reportData = await fetchExtraWorkReport(orgId!, dateFrom, dateTo, t)
+          break
+
+        case 'contributions':
+          reportData = await fetchContributionReport(orgId!, dateFrom, dateTo)
+          break
+
         case 'workers':
-          reportTitle = "Workers Report"
           const { data: workers } = await supabase
             .from('workers')
             .select('*')
@@ -115,7 +150,6 @@ export function ReportsManager() {
           break
 
         case 'tea-sales':
-          reportTitle = "Tea Sales Report"
           const { data: sales } = await supabase
             .from('tea_sales')
             .select('*')
@@ -126,41 +160,23 @@ export function ReportsManager() {
           reportData = sales
           break
 
+        case 'transport':
+          reportData = await fetchTransportReport(orgId!, dateFrom, dateTo)
+          break
+
         case 'financial':
-          reportTitle = "Financial Summary"
-          const { data: salesData } = await supabase
-            .from('tea_sales')
-            .select('total_income')
-            .eq('organization_id', orgId)
-            .gte('date', dateFrom)
-            .lte('date', dateTo)
-          
-          const { data: pluckingData } = await supabase
-            .from('daily_plucking')
-            .select('kg_plucked, rate_per_kg')
-            .eq('organization_id', orgId)
-            .gte('date', dateFrom)
-            .lte('date', dateTo)
-          
-          const totalRevenue = salesData?.reduce((sum, s) => sum + (s.total_income || 0), 0) || 0
-          const totalExpenses = pluckingData?.reduce((sum, p) => sum + ((p.kg_plucked || 0) * (p.rate_per_kg || 0)), 0) || 0
-          
-          reportData = {
-            revenue: totalRevenue,
-            expenses: totalExpenses,
-            profit: totalRevenue - totalExpenses,
-          }
+          reportData = await fetchFinancialReport(orgId!, dateFrom, dateTo)
           break
       }
 
       // Generate printable HTML
       const printWindow = window.open('', '_blank')
       if (!printWindow) {
-        toast.error("Please allow popups to generate reports")
+        toast.error(t('reports.allowPopups'))
         return
       }
 
-      const reportHtml = generateReportHtml(selectedReport, reportTitle, reportData, dateFrom, dateTo)
+      const reportHtml = generateReportHtml(selectedReport, reportTitle, reportData, dateFrom, dateTo, l)
       printWindow.document.write(reportHtml)
       printWindow.document.close()
       
@@ -169,17 +185,17 @@ export function ReportsManager() {
         printWindow.print()
       }, 500)
 
-      toast.success("Report generated successfully")
+      toast.success(t('reports.generated'))
     } catch (error: any) {
       console.error('Error generating report:', error)
-      toast.error(error.message || "Failed to generate report")
+      toast.error(error.message || t('reports.failed'))
     } finally {
       setGenerating(false)
     }
   }
 
-  const generateReportHtml = (type: string, title: string, data: any, from: string, to: string) => {
-    const dateRange = `${format(new Date(from), 'MMM d, yyyy')} - ${format(new Date(to), 'MMM d, yyyy')}`
+  const generateReportHtml = (type: string, title: string, data: any, from: string, to: string, l: Localizer) => {
+    const dateRange = `${l.date(from)} - ${l.date(to)}`
     
     let tableHtml = ""
 
@@ -189,14 +205,14 @@ export function ReportsManager() {
           <table>
             <thead>
               <tr>
-                <th>Date</th>
-                <th>Employee ID</th>
-                <th>Worker</th>
-                <th>Type</th>
-                <th class="number">Kg Plucked</th>
-                <th class="number">Rate/Kg</th>
-                <th class="number">Extra Work</th>
-                <th class="number">Total Wage</th>
+                <th>${t('common.date')}</th>
+                <th>${t('common.employeeId')}</th>
+                <th>${t('common.worker')}</th>
+                <th>${t('reports.type')}</th>
+                <th class="number">${t('common.kgPlucked')}</th>
+                <th class="number">${t('common.ratePerKg')}</th>
+                <th class="number">${t('common.extraWork')}</th>
+                <th class="number">${t('reports.totalWage')}</th>
               </tr>
             </thead>
             <tbody>
@@ -206,29 +222,24 @@ export function ReportsManager() {
                 const extraWork = r.extra_work_payment || 0
                 const totalWage = isAdvance ? Math.abs(r.kg_plucked || 0) : pluckingAmount + extraWork
                 
-                // Parse extra work items if available
-                let extraWorkDetails = ''
-                try {
-                  if (r.notes) {
-                    const notesData = JSON.parse(r.notes)
-                    if (notesData.extra_work && notesData.extra_work.length > 0) {
-                      extraWorkDetails = '<br><small style="color: #666;">' + 
-                        notesData.extra_work.map((w: any) => `${w.description}: ${formatCurrency(w.amount)}`).join(', ') +
-                        '</small>'
-                    }
-                  }
-                } catch (e) {}
+                // Itemised extra work lines, if any
+                const extraWorkItems = r.daily_plucking_extra_work ?? []
+                const extraWorkDetails = extraWorkItems.length > 0
+                  ? '<br><small style="color: #666;">' +
+                    extraWorkItems.map((w: any) => `${w.description}: ${money(w.amount)}`).join(', ') +
+                    '</small>'
+                  : ''
                 
                 return `
                 <tr>
-                  <td>${format(new Date(r.date), 'MMM d, yyyy')}</td>
+                  <td>${l.date(r.date)}</td>
                   <td>${r.workers?.employee_id || '-'}</td>
                   <td>${r.workers?.first_name || ''} ${r.workers?.last_name || ''}</td>
-                  <td>${isAdvance ? '<span style="color: #dc2626;">Advance</span>' : (extraWork > 0 ? 'Plucking + Work' : 'Plucking')}</td>
-                  <td class="number">${isAdvance ? '-' : (r.kg_plucked?.toFixed(1) || 0) + ' kg'}</td>
-                  <td class="number">${isAdvance ? '-' : formatCurrency(r.rate_per_kg || 0)}</td>
-                  <td class="number">${extraWork > 0 ? formatCurrency(extraWork) + extraWorkDetails : '-'}</td>
-                  <td class="number" style="font-weight: 600;">${isAdvance ? '<span style="color: #dc2626;">-' : ''}${formatCurrency(totalWage)}${isAdvance ? '</span>' : ''}</td>
+                  <td>${isAdvance ? `<span style="color: #dc2626;">${t('common.advance')}</span>` : t(extraWork > 0 ? 'reports.pluckingAndWork' : 'reports.plucking')}</td>
+                  <td class="number">${isAdvance ? '-' : l.kg(r.kg_plucked || 0)}</td>
+                  <td class="number">${isAdvance ? '-' : money(r.rate_per_kg || 0)}</td>
+                  <td class="number">${extraWork > 0 ? money(extraWork) + extraWorkDetails : '-'}</td>
+                  <td class="number" style="font-weight: 600;">${isAdvance ? '<span style="color: #dc2626;">-' : ''}${money(totalWage)}${isAdvance ? '</span>' : ''}</td>
                 </tr>
               `}).join('')}
             </tbody>
@@ -241,12 +252,12 @@ export function ReportsManager() {
           <table>
             <thead>
               <tr>
-                <th>Employee ID</th>
-                <th>Name</th>
-                <th>Role</th>
-                <th>Phone</th>
-                <th>Status</th>
-                <th>Hire Date</th>
+                <th>${t('common.employeeId')}</th>
+                <th>${t('common.name')}</th>
+                <th>${t('common.role')}</th>
+                <th>${t('common.phone')}</th>
+                <th>${t('common.status')}</th>
+                <th>${t('common.hireDate')}</th>
               </tr>
             </thead>
             <tbody>
@@ -257,7 +268,7 @@ export function ReportsManager() {
                   <td>${w.role}</td>
                   <td>${w.phone || '-'}</td>
                   <td>${w.status}</td>
-                  <td>${w.hire_date ? format(new Date(w.hire_date), 'MMM d, yyyy') : '-'}</td>
+                  <td>${w.hire_date ? l.date(w.hire_date) : '-'}</td>
                 </tr>
               `).join('')}
             </tbody>
@@ -270,19 +281,25 @@ export function ReportsManager() {
           <table>
             <thead>
               <tr>
-                <th>Date</th>
-                <th class="number">Quantity (Kg)</th>
-                <th class="number">Rate/Kg</th>
-                <th class="number">Total Income</th>
+                <th>${t('common.date')}</th>
+                <th>${t('reports.factory')}</th>
+                <th class="number">${t('reports.quantityKg')}</th>
+                <th class="number">${t('common.ratePerKg')}</th>
+                <th class="number">${t('reports.grossIncome')}</th>
+                <th class="number">${t('reports.deductions')}</th>
+                <th class="number">${t('reports.netIncome')}</th>
               </tr>
             </thead>
             <tbody>
               ${(data || []).map((s: any) => `
                 <tr>
-                  <td>${format(new Date(s.date), 'MMM d, yyyy')}</td>
-                  <td class="number">${s.quantity_kg?.toFixed(1) || 0} kg</td>
-                  <td class="number">${formatCurrency(s.rate_per_kg || 0)}</td>
-                  <td class="number">${formatCurrency(s.total_income || 0)}</td>
+                  <td>${l.date(s.date)}</td>
+                  <td>${s.factory_name ?? ''}</td>
+                  <td class="number">${l.kg(s.kg_delivered || 0)}</td>
+                  <td class="number">${money(s.rate_per_kg || 0)}</td>
+                  <td class="number">${money(s.total_income || 0)}</td>
+                  <td class="number">${money((s.total_income || 0) - saleNetIncome(s))}</td>
+                  <td class="number">${money(saleNetIncome(s))}</td>
                 </tr>
               `).join('')}
             </tbody>
@@ -290,23 +307,20 @@ export function ReportsManager() {
         `
         break
 
+      case 'extra-work':
+        tableHtml = renderExtraWorkReport(data, l)
+        break
+
+      case 'contributions':
+        tableHtml = renderContributionReport(data, l)
+        break
+
+      case 'transport':
+        tableHtml = renderTransportReport(data, l)
+        break
+
       case 'financial':
-        tableHtml = `
-          <div class="summary-cards">
-            <div class="summary-card">
-              <h3>Total Revenue</h3>
-              <p class="amount positive">${formatCurrency(data?.revenue || 0)}</p>
-            </div>
-            <div class="summary-card">
-              <h3>Total Expenses</h3>
-              <p class="amount negative">${formatCurrency(data?.expenses || 0)}</p>
-            </div>
-            <div class="summary-card">
-              <h3>Net Profit</h3>
-              <p class="amount ${data?.profit >= 0 ? 'positive' : 'negative'}">${formatCurrency(data?.profit || 0)}</p>
-            </div>
-          </div>
-        `
+        tableHtml = renderFinancialReport(data, l)
         break
 
       case 'salary':
@@ -320,14 +334,21 @@ export function ReportsManager() {
               name: `${r.workers?.first_name || ''} ${r.workers?.last_name || ''}`,
               total_kg: 0,
               total_earned: 0,
+              extra_work: 0,
+              extra_work_by_type: {},
               days: 0,
             })
           }
           const w = workerMap.get(workerId)
           if (!r.is_advance) {
             w.total_kg += r.kg_plucked || 0
-            w.total_earned += (r.kg_plucked || 0) * (r.rate_per_kg || 0)
+            w.total_earned += (r.kg_plucked || 0) * (r.rate_per_kg || 0) + (r.extra_work_payment ?? 0)
+            w.extra_work += r.extra_work_payment ?? 0
             w.days += 1
+            ;(r.daily_plucking_extra_work ?? []).forEach((item: any) => {
+              const typeName = extraWorkTypeLabel(item, t)
+              w.extra_work_by_type[typeName] = (w.extra_work_by_type[typeName] ?? 0) + (item.amount ?? 0)
+            })
           }
         })
 
@@ -335,11 +356,12 @@ export function ReportsManager() {
           <table>
             <thead>
               <tr>
-                <th>Employee ID</th>
-                <th>Worker</th>
-                <th class="number">Days Worked</th>
-                <th class="number">Total Kg</th>
-                <th class="number">Total Earned</th>
+                <th>${t('common.employeeId')}</th>
+                <th>${t('common.worker')}</th>
+                <th class="number">${t('common.daysWorked')}</th>
+                <th class="number">${t('common.totalKg')}</th>
+                <th class="number">${t('common.extraWork')}</th>
+                <th class="number">${t('common.totalEarned')}</th>
               </tr>
             </thead>
             <tbody>
@@ -348,8 +370,9 @@ export function ReportsManager() {
                   <td>${w.employee_id || '-'}</td>
                   <td>${w.name}</td>
                   <td class="number">${w.days}</td>
-                  <td class="number">${w.total_kg.toFixed(1)} kg</td>
-                  <td class="number">${formatCurrency(w.total_earned)}</td>
+                  <td class="number">${l.kg(w.total_kg)}</td>
+                  <td class="number">${w.extra_work > 0 ? money(w.extra_work) + '<br><small style="color: #666;">' + Object.entries(w.extra_work_by_type).map(([name, amount]: [string, any]) => `${name}: ${money(amount)}`).join(', ') + '</small>' : '-'}</td>
+                  <td class="number">${money(w.total_earned)}</td>
                 </tr>
               `).join('')}
             </tbody>
@@ -360,12 +383,13 @@ export function ReportsManager() {
 
     return `
       <!DOCTYPE html>
-      <html>
+      <html lang="${l.language}">
         <head>
+          <meta charset="utf-8" />
           <title>${title}</title>
           <style>
             * { margin: 0; padding: 0; box-sizing: border-box; }
-            body { font-family: Arial, sans-serif; padding: 40px; color: #333; }
+            body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; padding: 40px; color: #333; }
             .header { margin-bottom: 30px; border-bottom: 2px solid #333; padding-bottom: 20px; }
             .header h1 { font-size: 24px; margin-bottom: 5px; }
             .header p { color: #666; font-size: 14px; }
@@ -389,11 +413,11 @@ export function ReportsManager() {
         <body>
           <div class="header">
             <h1>${title}</h1>
-            <p>${dateRange} • Generated on ${format(new Date(), 'MMM d, yyyy h:mm a')}</p>
+            <p>${dateRange} • ${t('common.generatedOn', { date: l.date(new Date(), 'dateTime') })}</p>
           </div>
           ${tableHtml}
           <div class="footer">
-            <p>Tea Plantation Management System</p>
+            <p>${t('common.appName')}</p>
           </div>
         </body>
       </html>
@@ -423,7 +447,7 @@ export function ReportsManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t('common.loadingOrganization')}</span>
       </div>
     )
   }
@@ -432,15 +456,15 @@ export function ReportsManager() {
     <div className="space-y-4 sm:space-y-6">
       {/* Header */}
       <div>
-        <h2 className="text-lg sm:text-xl font-semibold">PDF Reports</h2>
+        <h2 className="text-lg sm:text-xl font-semibold">{t('nav.pdfReports')}</h2>
       </div>
 
       <div className="grid gap-4 lg:grid-cols-3">
         {/* Report Selection */}
         <Card className="lg:col-span-2">
           <CardHeader className="pb-4">
-            <CardTitle className="text-base">Select Report Type</CardTitle>
-            <CardDescription className="text-xs">Choose the type of report you want to generate</CardDescription>
+            <CardTitle className="text-base">{t('reports.selectType')}</CardTitle>
+            <CardDescription className="text-xs">{t('reports.selectTypeDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid gap-3 sm:grid-cols-2">
@@ -463,8 +487,8 @@ export function ReportsManager() {
                     <report.icon className="h-4 w-4" />
                   </div>
                   <div>
-                    <h3 className="font-medium text-sm">{report.title}</h3>
-                    <p className="text-xs text-muted-foreground mt-0.5">{report.description}</p>
+                    <h3 className="font-medium text-sm">{t(report.title)}</h3>
+                    <p className="text-xs text-muted-foreground mt-0.5">{t(report.description)}</p>
                   </div>
                 </button>
               ))}
@@ -475,25 +499,25 @@ export function ReportsManager() {
         {/* Date Range & Generate */}
         <Card className="lg:col-span-1">
           <CardHeader className="pb-4">
-            <CardTitle className="text-base">Date Range</CardTitle>
-            <CardDescription className="text-xs">Select the period for your report</CardDescription>
+            <CardTitle className="text-base">{t('reports.dateRange')}</CardTitle>
+            <CardDescription className="text-xs">{t('reports.dateRangeDescription')}</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex flex-wrap gap-2">
               <Button variant="outline" size="sm" onClick={() => handleQuickSelect('this-month')}>
-                This Month
+                {t('reports.thisMonth')}
               </Button>
               <Button variant="outline" size="sm" onClick={() => handleQuickSelect('last-month')}>
-                Last Month
+                {t('reports.lastMonth')}
               </Button>
               <Button variant="outline" size="sm" onClick={() => handleQuickSelect('last-3-months')}>
-                Last 3 Months
+                {t('reports.last3Months')}
               </Button>
             </div>
 
             <div className="space-y-3">
               <div className="space-y-2">
-                <Label htmlFor="dateFrom">From</Label>
+                <Label htmlFor="dateFrom">{t('reports.from')}</Label>
                 <Input
                   id="dateFrom"
                   type="date"
@@ -502,7 +526,7 @@ export function ReportsManager() {
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="dateTo">To</Label>
+                <Label htmlFor="dateTo">{t('reports.to')}</Label>
                 <Input
                   id="dateTo"
                   type="date"
@@ -520,12 +544,12 @@ export function ReportsManager() {
               {generating ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Generating...
+                  {t('reports.generating')}
                 </>
               ) : (
                 <>
                   <Download className="h-4 w-4 mr-2" />
-                  Generate Report
+                  {t('reports.generate')}
                 </>
               )}
             </Button>
@@ -0,0 +1,95 @@
+// Data and HTML for the transport report (collection trips and their cost per kg by factory)
+
+import type { Localizer } from "@/lib/i18n"
+import { FactoryTransportCost, LeafTripWithDeliveries, fetchLeafTrips, transportCostByFactory } from "@/lib/leaf-trips"
+
+export interface TransportReportData {
+  trips: LeafTripWithDeliveries[]
+  factories: FactoryTransportCost[]
+  total: number
+  kg: number
+}
+
+export async function fetchTransportReport(orgId: string, from: string, to: string): Promise<TransportReportData> {
+  const trips = await fetchLeafTrips(orgId, from, to)
+
+  return {
+    trips: [...trips].reverse(),
+    factories: transportCostByFactory(trips),
+    total: trips.reduce((sum, trip) => sum + Number(trip.cost), 0),
+    kg: trips.reduce((sum, trip) => sum + trip.tea_sales.reduce((kg, sale) => kg + Number(sale.kg_delivered), 0), 0),
+  }
+}
+
+function renderTrip(trip: LeafTripWithDeliveries, l: Localizer) {
+  const kg = trip.tea_sales.reduce((sum, sale) => sum + Number(sale.kg_delivered), 0)
+  const factories = [...new Set(trip.tea_sales.map(sale => sale.factory_name))].join(', ')
+
+  return `
+    <tr>
+      <td>${l.date(trip.trip_date)}${trip.departure_time ? ` ${trip.departure_time.slice(0, 5)}` : ''}</td>
+      <td>${trip.vehicle_number}</td>
+      <td>${trip.driver_name ?? '-'}</td>
+      <td>${factories || '-'}</td>
+      <td class="number">${l.kg(kg)}</td>
+      <td class="number">${l.money(trip.cost)}</td>
+      <td class="number">${kg > 0 ? l.money(trip.cost / kg) : '-'}</td>
+    </tr>
+  `
+}
+
+export function renderTransportReport(data: TransportReportData, l: Localizer) {
+  const { t, money } = l
+  if (data.trips.length === 0) return `<p>${t('reports.noTrips')}</p>`
+
+  return `
+    <h2 style="font-size: 16px; margin-top: 20px;">${t('reports.byFactory')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>${t('reports.factory')}</th>
+          <th class="number">${t('reports.trips')}</th>
+          <th class="number">${t('reports.quantityKg')}</th>
+          <th class="number">${t('reports.transportCosts')}</th>
+          <th class="number">${t('reports.costPerKg')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${data.factories.map(row => `
+          <tr>
+            <td>${row.factory}</td>
+            <td class="number">${l.number(row.trips)}</td>
+            <td class="number">${l.kg(row.kg)}</td>
+            <td class="number">${money(row.cost)}</td>
+            <td class="number">${row.kg > 0 ? money(row.costPerKg) : '-'}</td>
+          </tr>
+        `).join('')}
+        <tr style="font-weight: 600;">
+          <td>${t('common.total')}</td>
+          <td class="number">${l.number(data.trips.length)}</td>
+          <td class="number">${l.kg(data.kg)}</td>
+          <td class="number">${money(data.total)}</td>
+          <td class="number">${data.kg > 0 ? money(data.total / data.kg) : '-'}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    <h2 style="font-size: 16px; margin-top: 30px;">${t('reports.trips')}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>${t('common.date')}</th>
+          <th>${t('reports.vehicle')}</th>
+          <th>${t('reports.driver')}</th>
+          <th>${t('reports.factory')}</th>
+          <th class="number">${t('reports.quantityKg')}</th>
+          <th class="number">${t('reports.tripCost')}</th>
+          <th class="number">${t('reports.costPerKg')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${data.trips.map(trip => renderTrip(trip, l)).join('')}
+      </tbody>
+    </table>
+  `
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import { format } from "date-fns"
+import { Download, Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  BankAccount,
+  BankPaymentLine,
+  BankPaymentSettings,
+  DEFAULT_BANK_PAYMENT_SETTINGS,
+  bankAccountProblem,
+  bankName,
+  buildBankFile,
+  fetchBankAccounts,
+  markBankPaid,
+  readBankPaymentSettings
+} from "@/lib/bank-payments"
+import type { MessageKey } from "@/lib/i18n"
+import { fetchOrgSettings } from "@/lib/org-settings"
+
+import type { WorkerSalary } from "./salary-manager"
+
+interface BankPaymentDialogProps {
+  orgId: string
+  month: Date
+  salaries: WorkerSalary[]
+  onClose: () => void
+  onPaid: () => void
+}
+
+interface BankPaymentRow {
+  line: BankPaymentLine
+  // Why the salary is left out of the file, or null when it is included
+  skipped: MessageKey | null
+}
+
+function toRows(salaries: WorkerSalary[], accounts: Map<string, BankAccount>): BankPaymentRow[] {
+  return salaries.flatMap(salary => {
+    const account = accounts.get(salary.worker_id)
+    if (!account) return []
+    // Instalments already paid this month are left out of the amount
+    const line = { worker_id: salary.worker_id, employee_id: salary.employee_id, worker_name: salary.worker_name, amount: salary.balance, account }
+    if (salary.is_paid) return [{ line, skipped: 'bank.alreadyPaid' }]
+    if (salary.balance <= 0) return [{ line, skipped: 'bank.nothingToPay' }]
+    return [{ line, skipped: bankAccountProblem(account) }]
+  })
+}
+
+function downloadFile(content: string, fileName: string) {
+  const blob = new Blob([content], { type: "text/csv" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function BankPaymentTable({ rows }: { rows: BankPaymentRow[] }) {
+  const { t, money } = useTranslation()
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {rows.map(({ line, skipped }) => (
+          <tr key={line.worker_id} className={`border-b last:border-0 ${skipped ? 'text-muted-foreground' : ''}`}>
+            <td className="px-3 py-1.5">
+              <p className="font-medium">{line.worker_name}</p>
+              <p className="text-xs text-muted-foreground">
+                {bankName(line.account.bank_code)} • {line.account.bank_account_number ?? '-'}
+              </p>
+            </td>
+            <td className="px-3 py-1.5 text-right whitespace-nowrap">
+              {skipped ? <Badge variant="outline" className="text-xs">{t(skipped)}</Badge> : money(line.amount)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export function BankPaymentDialog({ orgId, month, salaries, onClose, onPaid }: BankPaymentDialogProps) {
+  const { t, money, date } = useTranslation()
+  const [fileSettings, setFileSettings] = useState<BankPaymentSettings>(DEFAULT_BANK_PAYMENT_SETTINGS)
+  const [accounts, setAccounts] = useState<Map<string, BankAccount>>(new Map())
+  const [valueDate, setValueDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [reference, setReference] = useState(`SALARY ${format(month, 'MMM yyyy').toUpperCase()}`)
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+
+  useEffect(() => {
+    loadAccounts()
+  }, [orgId])
+
+  async function loadAccounts() {
+    try {
+      const [orgSettings, bankAccounts] = await Promise.all([fetchOrgSettings(orgId), fetchBankAccounts(orgId)])
+      setFileSettings(readBankPaymentSettings(orgSettings))
+      setAccounts(bankAccounts)
+    } catch (error: any) {
+      console.error('Error fetching bank accounts:', error?.message ?? error)
+      toast.error(t("bank.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rows = useMemo(() => toRows(salaries, accounts), [salaries, accounts])
+  const included = rows.filter(row => !row.skipped).map(row => row.line)
+  const total = included.reduce((sum, line) => sum + line.amount, 0)
+
+  async function handleGenerate() {
+    if (!confirm(t("bank.confirm", { count: included.length, total: money(total) }))) return
+
+    setGenerating(true)
+    try {
+      // Recorded first: a file handed out for salaries that failed to record would be paid again next time
+      await markBankPaid(orgId, format(month, 'yyyy-MM-dd'), included, reference, valueDate)
+      downloadFile(buildBankFile(fileSettings, included, { valueDate, reference }), `salary-bank-${format(month, 'yyyy-MM')}.csv`)
+      toast.success(t("bank.markedPaid", { count: included.length }))
+      onPaid()
+    } catch (error: any) {
+      console.error('Error generating bank file:', error)
+      toast.error(error.message ?? t("bank.failed"))
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("bank.title", { month: date(month, 'month') })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("bank.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden flex flex-col gap-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-0.5 col-span-2">
+              <p className="text-xs font-medium">{t("bank.fileColumns")}</p>
+              <p className="text-xs text-muted-foreground">
+                {fileSettings.columns.map(column => t(`bank.column.${column}`)).join(' • ')}
+              </p>
+              <p className="text-[10px] text-muted-foreground">{t("bank.fileColumnsHint")}</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bank_value_date" className="text-xs">{t("bank.valueDate")}</Label>
+              <Input id="bank_value_date" type="date" value={valueDate} onChange={(e) => setValueDate(e.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bank_reference" className="text-xs">{t("common.reference")}</Label>
+              <Input id="bank_reference" value={reference} onChange={(e) => setReference(e.target.value)} maxLength={30} className="h-8" />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto rounded-md border">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {t("bank.noWorkers")}
+              </p>
+            ) : (
+              <BankPaymentTable rows={rows} />
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm">
+              {t("payments.salaryCount", { count: included.length })} <span className="font-semibold">{money(total)}</span>
+            </span>
+            <Button size="sm" onClick={handleGenerate} disabled={generating || included.length === 0 || !reference.trim()}>
+              {generating ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Download className="h-3.5 w-3.5 mr-1.5" />}
+              {t("bank.generate")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
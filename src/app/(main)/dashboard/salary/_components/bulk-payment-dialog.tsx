@@ -0,0 +1,147 @@
+"use client"
+
+import { useState } from "react"
+
+import { format } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+import { CheckCheck, Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import { PAYMENT_METHODS } from "@/lib/bank-payments"
+import { addSalaryPayments } from "@/lib/salary-payments"
+import type { PaymentMethod } from "@/types/database"
+
+import type { WorkerSalary } from "./salary-manager"
+
+interface BulkPaymentDialogProps {
+  orgId: string
+  month: Date
+  // The selected salaries; those with nothing left to pay are skipped
+  salaries: WorkerSalary[]
+  onClose: () => void
+  onPaid: () => void
+}
+
+// Pays the remaining balance of every selected salary as one payment each
+export function BulkPaymentDialog({ orgId, month, salaries, onClose, onPaid }: BulkPaymentDialogProps) {
+  const { t, money, date } = useTranslation()
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash')
+  const [paidOn, setPaidOn] = useState(formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM-dd'))
+  const [reference, setReference] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const unpaid = salaries.filter(salary => salary.balance > 0)
+  const total = unpaid.reduce((sum, salary) => sum + salary.balance, 0)
+
+  async function handlePay() {
+    setSaving(true)
+    try {
+      await addSalaryPayments(orgId, format(month, 'yyyy-MM-dd'), unpaid.map(salary => ({
+        worker_id: salary.worker_id,
+        amount: salary.balance,
+        payment_method: paymentMethod,
+        reference: reference.trim() || null,
+        paid_on: paidOn,
+      })))
+      toast.success(t("payments.markedPaid", { count: unpaid.length }))
+      onPaid()
+    } catch (error: any) {
+      console.error('Error recording salary payments:', error)
+      toast.error(error.message ?? t("payments.recordManyFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("payments.bulkTitle", { month: date(month, 'month') })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("payments.bulkDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden flex flex-col gap-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="bulk_payment_method" className="text-xs">{t("common.method")}</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger id="bulk_payment_method" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(value => (
+                    <SelectItem key={value} value={value}>{t(`payslip.method.${value}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bulk_payment_date" className="text-xs">{t("common.date")}</Label>
+              <Input id="bulk_payment_date" type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1.5 col-span-2">
+              <Label htmlFor="bulk_payment_reference" className="text-xs">{t("common.reference")}</Label>
+              <Input
+                id="bulk_payment_reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                maxLength={100}
+                placeholder={t("common.optional")}
+                className="h-8"
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto rounded-md border">
+            {unpaid.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">{t("payments.allPaid")}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {unpaid.map(salary => (
+                    <tr key={salary.worker_id} className="border-b last:border-0">
+                      <td className="px-3 py-1.5">
+                        <p className="font-medium">{salary.worker_name}</p>
+                        {salary.paid_to_date > 0 && (
+                          <p className="text-xs text-muted-foreground">{t("payments.alreadyPaid", { amount: money(salary.paid_to_date) })}</p>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5 text-right whitespace-nowrap">{money(salary.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {unpaid.length < salaries.length && (
+            <p className="text-xs text-muted-foreground">{t("payments.nothingLeft", { count: salaries.length - unpaid.length })}</p>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm">
+              {t("payments.salaryCount", { count: unpaid.length })} <span className="font-semibold">{money(total)}</span>
+            </span>
+            <Button size="sm" onClick={handlePay} disabled={saving || unpaid.length === 0 || !paidOn}>
+              {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <CheckCheck className="h-3.5 w-3.5 mr-1.5" />}
+              {t("salary.markPaid")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
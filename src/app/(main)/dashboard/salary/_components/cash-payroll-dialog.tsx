@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import { Loader2, Printer, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import { fetchBankAccounts } from "@/lib/bank-payments"
+import { CASH_DENOMINATIONS, DEFAULT_DENOMINATIONS, breakDownCash, describeCounts, totalCounts } from "@/lib/cash-payroll"
+
+import { CashPayment, printPayDaySheet } from "./pay-day-sheet"
+import type { WorkerSalary } from "./salary-manager"
+
+interface CashPayrollDialogProps {
+  orgId: string
+  month: Date
+  salaries: WorkerSalary[]
+  onClose: () => void
+}
+
+interface DenominationPickerProps {
+  selected: number[]
+  onToggle: (value: number) => void
+}
+
+// Denominations the clerk can get from the bank; the smallest in use decides whether envelopes come out exact
+function DenominationPicker({ selected, onToggle }: DenominationPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {CASH_DENOMINATIONS.map(({ value, coin }) => (
+        <Button
+          key={value}
+          variant={selected.includes(value) ? "default" : "outline"}
+          size="sm"
+          className={`h-7 px-2 text-xs ${coin ? 'rounded-full' : ''}`}
+          onClick={() => onToggle(value)}
+        >
+          {value}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+function CashTotals({ payments }: { payments: CashPayment[] }) {
+  const { money, number } = useTranslation()
+  const totals = totalCounts(payments.map(p => p.breakdown))
+  const rows = Object.entries(totals).sort(([a], [b]) => Number(b) - Number(a))
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+      {rows.map(([value, count]) => (
+        <div key={value} className="rounded-md border px-2 py-1.5">
+          <p className="text-xs text-muted-foreground">{money(Number(value))}</p>
+          <p className="text-sm font-semibold">× {number(count)}</p>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function CashPayrollDialog({ orgId, month, salaries, onClose }: CashPayrollDialogProps) {
+  const l = useTranslation()
+  const [bankPaid, setBankPaid] = useState<Set<string>>(new Set())
+  const [denominations, setDenominations] = useState<number[]>(DEFAULT_DENOMINATIONS)
+  const [loading, setLoading] = useState(true)
+  const [printing, setPrinting] = useState(false)
+
+  useEffect(() => {
+    loadBankPaid()
+  }, [orgId])
+
+  async function loadBankPaid() {
+    try {
+      setBankPaid(new Set((await fetchBankAccounts(orgId)).keys()))
+    } catch (error: any) {
+      console.error('Error fetching bank accounts:', error?.message ?? error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // What is left to pay of the salaries of workers paid in cash
+  const payments: CashPayment[] = useMemo(() =>
+    salaries
+      .filter(salary => salary.balance > 0 && !bankPaid.has(salary.worker_id))
+      .map(salary => ({ salary, breakdown: breakDownCash(salary.balance, denominations) })),
+  [salaries, bankPaid, denominations])
+
+  const total = payments.reduce((sum, p) => sum + p.breakdown.amount, 0)
+  const inexact = payments.filter(p => p.breakdown.remainder > 0).length
+
+  const toggleDenomination = (value: number) => {
+    setDenominations(prev => prev.includes(value) ? prev.filter(v => v !== value) : [...prev, value])
+  }
+
+  async function handlePrint() {
+    setPrinting(true)
+    try {
+      await printPayDaySheet(orgId, payments, totalCounts(payments.map(p => p.breakdown)), month, l)
+    } catch (error: any) {
+      console.error('Error printing pay day sheet:', error)
+      toast.error(error.message ?? l.t("cash.printFailed"))
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{l.t("cash.title", { month: l.date(month, 'month') })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {l.t("cash.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden flex flex-col gap-3">
+          <DenominationPicker selected={denominations} onToggle={toggleDenomination} />
+
+          <div className="flex-1 overflow-auto rounded-md border">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">{l.t("cash.none")}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {payments.map(({ salary, breakdown }) => (
+                    <tr key={salary.worker_id} className="border-b last:border-0">
+                      <td className="px-3 py-1.5">
+                        <p className="font-medium">{salary.worker_name}</p>
+                        <p className="text-xs text-muted-foreground">{describeCounts(breakdown.counts)}</p>
+                      </td>
+                      <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                        {l.money(breakdown.amount)}
+                        {breakdown.remainder > 0 && (
+                          <p className="text-xs text-destructive">{l.t("cash.short", { amount: l.money(breakdown.remainder) })}</p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {payments.length > 0 && <CashTotals payments={payments} />}
+
+          {inexact > 0 && (
+            <p className="text-xs text-destructive">
+              {l.t("cash.inexact", { count: inexact })}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm">
+              {l.t("cash.workerCount", { count: payments.length })} <span className="font-semibold">{l.money(total)}</span>
+            </span>
+            <Button size="sm" onClick={handlePrint} disabled={printing || payments.length === 0}>
+              {printing ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Printer className="h-3.5 w-3.5 mr-1.5" />}
+              {l.t("cash.print")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
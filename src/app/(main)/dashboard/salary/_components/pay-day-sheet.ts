@@ -0,0 +1,150 @@
+// HTML for the pay-day sheet: each cash-paid worker signs against their amount
+
+import { CashBreakdown, DenominationCounts, describeCounts } from "@/lib/cash-payroll"
+import type { Localizer } from "@/lib/i18n"
+import { imagesLoaded } from "@/lib/signatures"
+import { escapeHtml } from "@/lib/utils"
+
+import { PayslipOrganization, fetchPayslipOrganization } from "./payslip"
+import type { WorkerSalary } from "./salary-manager"
+
+export interface CashPayment {
+  salary: WorkerSalary
+  breakdown: CashBreakdown
+}
+
+function renderPayments(payments: CashPayment[], l: Localizer) {
+  const { t, money } = l
+  return `
+    <table>
+      <thead>
+        <tr>
+          <th>#</th>
+          <th>${t('common.employeeId')}</th>
+          <th>${t('common.name')}</th>
+          <th class="number">${t('payday.amount')}</th>
+          <th>${t('payday.notesAndCoins')}</th>
+          <th class="signature-cell">${t('payday.signature')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${payments.map(({ salary, breakdown }, index) => `
+          <tr>
+            <td>${index + 1}</td>
+            <td>${escapeHtml(salary.employee_id)}</td>
+            <td>${escapeHtml(salary.worker_name)}</td>
+            <td class="number">${money(breakdown.amount)}</td>
+            <td class="muted">${describeCounts(breakdown.counts)}</td>
+            <td class="signature-cell"></td>
+          </tr>
+        `).join('')}
+        <tr class="total">
+          <td colspan="3">${t('common.total')}</td>
+          <td class="number">${money(payments.reduce((sum, p) => sum + p.breakdown.amount, 0))}</td>
+          <td colspan="2"></td>
+        </tr>
+      </tbody>
+    </table>
+  `
+}
+
+function renderCashRequired(totals: DenominationCounts, l: Localizer) {
+  const { t, money } = l
+  const rows = Object.entries(totals).sort(([a], [b]) => Number(b) - Number(a))
+  return `
+    <h2>${t('payday.cashRequired')}</h2>
+    <table class="denominations">
+      <thead>
+        <tr>
+          <th class="number">${t('payday.denomination')}</th>
+          <th class="number">${t('payday.count')}</th>
+          <th class="number">${t('payday.value')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${rows.map(([value, count]) => `
+          <tr>
+            <td class="number">${money(Number(value))}</td>
+            <td class="number">${l.number(count)}</td>
+            <td class="number">${money(Number(value) * count)}</td>
+          </tr>
+        `).join('')}
+        <tr class="total">
+          <td colspan="2">${t('common.total')}</td>
+          <td class="number">${money(rows.reduce((sum, [value, count]) => sum + Number(value) * count, 0))}</td>
+        </tr>
+      </tbody>
+    </table>
+  `
+}
+
+export function renderPayDaySheet(
+  payments: CashPayment[],
+  totals: DenominationCounts,
+  org: PayslipOrganization,
+  month: Date,
+  l: Localizer
+) {
+  const { t } = l
+  const monthLabel = l.date(month, 'month')
+  return `
+    <html lang="${l.language}">
+      <head>
+        <meta charset="utf-8" />
+        <title>${t('payday.documentTitle', { month: monthLabel })}</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; color: #333; font-size: 11px; padding: 24px; }
+          .header { display: flex; align-items: center; gap: 12px; border-bottom: 2px solid #333; padding-bottom: 12px; margin-bottom: 12px; }
+          .logo { height: 48px; width: 48px; object-fit: contain; }
+          h1 { font-size: 18px; }
+          h2 { font-size: 13px; margin: 20px 0 6px; page-break-after: avoid; }
+          .muted { color: #666; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 5px 6px; text-align: left; vertical-align: middle; }
+          th { background: #f5f5f5; }
+          tr { page-break-inside: avoid; }
+          .number { text-align: right; }
+          .total td { font-weight: bold; }
+          .signature-cell { width: 140px; height: 32px; }
+          .denominations { width: auto; min-width: 320px; }
+          .signature { display: grid; grid-template-columns: 1fr 1fr; gap: 48px; margin-top: 40px; }
+          .signature div { border-top: 1px solid #333; padding-top: 4px; text-align: center; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          ${org.logo_url ? `<img src="${escapeHtml(org.logo_url)}" alt="" class="logo" />` : ''}
+          <div>
+            <h1>${escapeHtml(org.name)}</h1>
+            <p class="muted">${t('payday.subtitle', { month: monthLabel, count: payments.length })}</p>
+          </div>
+        </div>
+        ${renderPayments(payments, l)}
+        ${renderCashRequired(totals, l)}
+        <p class="muted" style="margin-top: 8px;">${t('payday.roundingNote')}</p>
+        <div class="signature">
+          <div>${t('payday.preparedBy')}</div>
+          <div>${t('payday.checkedBy')}</div>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+// The window is opened before fetching so the browser treats it as user initiated
+export async function printPayDaySheet(orgId: string, payments: CashPayment[], totals: DenominationCounts, month: Date, l: Localizer) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) throw new Error(l.t('payslip.allowPopups'))
+
+  try {
+    const org = await fetchPayslipOrganization(orgId)
+    printWindow.document.write(renderPayDaySheet(payments, totals, org, month, l))
+    printWindow.document.close()
+    await imagesLoaded(printWindow.document)
+    printWindow.print()
+  } catch (error) {
+    printWindow.close()
+    throw error
+  }
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+import { History, Loader2, Lock, LockOpen, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Localizer } from "@/lib/i18n"
+import { fetchMemberEmails, reopenPayrollRun } from "@/lib/payroll-runs"
+import type { PayrollRun } from "@/types/payroll"
+
+interface PayrollRunBarProps {
+  orgId: string
+  runs: PayrollRun[]
+  canClose: boolean
+  canReopen: boolean
+  closing: boolean
+  onCloseMonth: () => void
+  onReopened: () => void
+}
+
+interface ReopenFormProps {
+  run: PayrollRun
+  onClose: () => void
+  onReopened: () => void
+}
+
+function ReopenForm({ run, onClose, onReopened }: ReopenFormProps) {
+  const { t, date } = useTranslation()
+  const [reason, setReason] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!reason.trim()) {
+      toast.error(t("run.reasonRequired"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await reopenPayrollRun(run.id, reason.trim())
+      toast.success(t("run.reopened"))
+      onReopened()
+      onClose()
+    } catch (error: any) {
+      console.error('Error reopening payroll run:', error)
+      toast.error(error.message ?? t("run.reopenFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("run.reopenTitle", { month: date(run.month, 'month') })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("run.reopenDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="reopen_reason" className="text-xs">{t("common.reason")} *</Label>
+              <Textarea
+                id="reopen_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t("run.reasonPlaceholder")}
+                rows={3}
+                required
+              />
+            </div>
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" size="sm" variant="destructive" disabled={saving}>
+                {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                {t("run.reopenMonth")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function formatWhen(timestamp: string | null, l: Localizer) {
+  return timestamp ? l.date(new Date(timestamp), 'dateTime') : '-'
+}
+
+function RunStatus({ closedRun, memberName }: { closedRun: PayrollRun | undefined; memberName: (userId: string | null) => string }) {
+  const l = useTranslation()
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      {closedRun ? (
+        <>
+          <Badge variant="secondary" className="gap-1">
+            <Lock className="h-3 w-3" />
+            {l.t("run.closed")}
+          </Badge>
+          <span className="text-xs text-muted-foreground truncate">
+            {l.t("run.closedBy", {
+              when: formatWhen(closedRun.closed_at, l),
+              member: memberName(closedRun.closed_by),
+              count: closedRun.worker_count,
+              total: l.money(Number(closedRun.total_net)),
+            })}
+          </span>
+        </>
+      ) : (
+        <>
+          <Badge variant="outline" className="gap-1">
+            <LockOpen className="h-3 w-3" />
+            {l.t("run.open")}
+          </Badge>
+          <span className="text-xs text-muted-foreground">{l.t("run.fromCurrentRecords")}</span>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Close/reopen controls for the selected month, with earlier reopened runs as history
+export function PayrollRunBar({ orgId, runs, canClose, canReopen, closing, onCloseMonth, onReopened }: PayrollRunBarProps) {
+  const l = useTranslation()
+  const [members, setMembers] = useState<Map<string, string>>(new Map())
+  const [showReopen, setShowReopen] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const closedRun = runs.find(r => r.status === 'closed')
+  const reopenedRuns = runs.filter(r => r.status === 'reopened')
+
+  useEffect(() => {
+    if (runs.length > 0) {
+      fetchMemberEmails(orgId).then(setMembers)
+    }
+  }, [orgId, runs.length])
+
+  const memberName = (userId: string | null) => (userId ? members.get(userId) : undefined) ?? l.t("run.aMember")
+
+  return (
+    <Card className="p-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <RunStatus closedRun={closedRun} memberName={memberName} />
+        <div className="flex items-center gap-2">
+          {reopenedRuns.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setShowHistory(prev => !prev)}>
+              <History className="h-3.5 w-3.5 mr-1.5" />
+              {l.t("run.history", { count: reopenedRuns.length })}
+            </Button>
+          )}
+          {closedRun && canReopen && (
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setShowReopen(true)}>
+              <LockOpen className="h-3.5 w-3.5 mr-1.5" />
+              {l.t("run.reopen")}
+            </Button>
+          )}
+          {!closedRun && canClose && (
+            <Button size="sm" className="h-8" onClick={onCloseMonth} disabled={closing}>
+              {closing ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Lock className="h-3.5 w-3.5 mr-1.5" />}
+              {l.t("run.closeMonth")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showHistory && (
+        <div className="mt-3 rounded-md border divide-y">
+          {reopenedRuns.map(run => (
+            <div key={run.id} className="px-3 py-2 text-xs space-y-0.5">
+              <p>
+                {l.t("run.historyClosed", { when: formatWhen(run.closed_at, l), member: memberName(run.closed_by), total: l.money(Number(run.total_net)) })}
+              </p>
+              <p className="text-muted-foreground">
+                {l.t("run.historyReopened", { when: formatWhen(run.reopened_at, l), member: memberName(run.reopened_by), reason: run.reopen_reason ?? '' })}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showReopen && closedRun && (
+        <ReopenForm run={closedRun} onClose={() => setShowReopen(false)} onReopened={onReopened} />
+      )}
+    </Card>
+  )
+}
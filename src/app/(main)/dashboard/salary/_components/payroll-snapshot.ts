@@ -0,0 +1,71 @@
+import { PayrollLineInput, fetchPayrollRunLines } from "@/lib/payroll-runs"
+import { SalaryPaymentEntry, fetchSalaryPayments, salaryPaymentStatus } from "@/lib/salary-payments"
+import type { PayrollRunLine } from "@/types/payroll"
+
+import type { WorkerSalary } from "./salary-manager"
+
+export function toPayrollLine(salary: WorkerSalary): PayrollLineInput {
+  return {
+    worker_id: salary.worker_id,
+    employee_id: salary.employee_id,
+    worker_name: salary.worker_name,
+    days_worked: salary.days_worked,
+    total_kg: salary.total_kg,
+    total_earned: salary.total_earned,
+    extra_work: salary.extra_work,
+    extra_work_by_type: salary.extra_work_by_type,
+    bonus: salary.bonus,
+    attendance_allowance: salary.attendance_allowance,
+    advance_issued: salary.advance_issued,
+    advance_recovered: salary.total_advance,
+    advance_carried: salary.advance_carried,
+    contributory_wage: salary.contributory_wage,
+    epf_employee: salary.epf_employee,
+    epf_employer: salary.epf_employer,
+    etf: salary.etf,
+    net_salary: salary.net_salary,
+  }
+}
+
+function fromPayrollLine(line: PayrollRunLine, payments: SalaryPaymentEntry[] = []): WorkerSalary {
+  const totalKg = Number(line.total_kg)
+  const netSalary = Number(line.net_salary)
+  return {
+    worker_id: line.worker_id ?? line.id,
+    employee_id: line.employee_id,
+    worker_name: line.worker_name,
+    total_kg: totalKg,
+    total_earned: Number(line.total_earned),
+    extra_work: Number(line.extra_work),
+    extra_work_by_type: line.extra_work_by_type,
+    // The snapshot keeps total earned only, not its norm or holiday breakdown
+    over_kilo_pay: 0,
+    wage_top_up: 0,
+    holiday_pay: 0,
+    bonus: Number(line.bonus),
+    bonus_id: null,
+    attendance_allowance: Number(line.attendance_allowance),
+    total_advance: Number(line.advance_recovered),
+    advance_issued: Number(line.advance_issued),
+    advance_carried: Number(line.advance_carried),
+    contributory_wage: Number(line.contributory_wage),
+    epf_employee: Number(line.epf_employee),
+    epf_employer: Number(line.epf_employer),
+    etf: Number(line.etf),
+    net_salary: netSalary,
+    days_worked: line.days_worked,
+    avg_kg_per_day: line.days_worked > 0 ? totalKg / line.days_worked : 0,
+    payments,
+    ...salaryPaymentStatus(netSalary, payments),
+  }
+}
+
+// Salaries of a closed month come from the snapshot; only payment status stays live
+export async function fetchClosedSalaries(orgId: string, runId: string, month: string): Promise<WorkerSalary[]> {
+  const [lines, paymentMap] = await Promise.all([
+    fetchPayrollRunLines(runId),
+    fetchSalaryPayments(orgId, month).catch(() => new Map<string, SalaryPaymentEntry[]>()),
+  ])
+
+  return lines.map(line => fromPayrollLine(line, line.worker_id ? paymentMap.get(line.worker_id) : undefined))
+}
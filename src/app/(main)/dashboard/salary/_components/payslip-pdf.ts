@@ -0,0 +1,58 @@
+// Payslips as one multi-page PDF, a worker per A4 page, to print and hand out on pay day
+
+import { format } from "date-fns"
+
+import type { Localizer } from "@/lib/i18n"
+import { imagesLoaded } from "@/lib/signatures"
+import { StatutoryRules } from "@/lib/statutory"
+
+import { buildPayslips } from "./payslip"
+import type { WorkerSalary } from "./salary-manager"
+
+// A4 in millimetres, the margin kept around each payslip, and A4's width in CSS pixels
+const PAGE_WIDTH = 210
+const PAGE_HEIGHT = 297
+const PAGE_MARGIN = 8
+const FRAME_WIDTH = 794
+
+// Laid out in a hidden frame so the browser shapes Sinhala and Tamil text; the sandbox keeps scripts from running
+function renderFrame(html: string) {
+  return new Promise<HTMLIFrameElement>(resolve => {
+    const frame = document.createElement('iframe')
+    frame.setAttribute('sandbox', 'allow-same-origin')
+    frame.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${FRAME_WIDTH}px; height: 1123px; border: 0;`
+    frame.addEventListener('load', () => resolve(frame), { once: true })
+    frame.srcdoc = html
+    document.body.appendChild(frame)
+  })
+}
+
+export async function downloadPayslipsPdf(orgId: string, salaries: WorkerSalary[], month: Date, rules: StatutoryRules, l: Localizer) {
+  const [html, { jsPDF }, { default: html2canvas }] = await Promise.all([
+    buildPayslips(orgId, salaries, month, rules, l),
+    import('jspdf'),
+    import('html2canvas'),
+  ])
+
+  const frame = await renderFrame(html)
+  try {
+    const doc = frame.contentDocument
+    if (!doc) throw new Error(l.t('payslip.failed'))
+    await imagesLoaded(doc)
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' })
+    const payslips = Array.from(doc.querySelectorAll<HTMLElement>('.payslip'))
+    for (const [index, payslip] of payslips.entries()) {
+      // Captured one at a time to keep memory down on large musters
+      const canvas = await html2canvas(payslip, { scale: 1.5, useCORS: true, backgroundColor: '#ffffff', windowWidth: FRAME_WIDTH })
+      // Fit the page width, shrinking a long payslip to keep it on one page
+      const height = Math.min(canvas.height * (PAGE_WIDTH - 2 * PAGE_MARGIN) / canvas.width, PAGE_HEIGHT - 2 * PAGE_MARGIN)
+      const width = height * canvas.width / canvas.height
+      if (index > 0) pdf.addPage()
+      pdf.addImage(canvas.toDataURL('image/jpeg', 0.85), 'JPEG', (PAGE_WIDTH - width) / 2, PAGE_MARGIN, width, height)
+    }
+    pdf.save(`payslips-${format(month, 'yyyy-MM')}.pdf`)
+  } finally {
+    frame.remove()
+  }
+}
@@ -0,0 +1,327 @@
+// Data and HTML for per-worker payslips, printed one worker per page
+
+import { endOfMonth, format } from "date-fns"
+
+import { EXTRA_WORK_SELECT } from "@/lib/extra-work"
+import type { Localizer, Translate } from "@/lib/i18n"
+import { imagesLoaded, signatureUrls } from "@/lib/signatures"
+import { StatutoryRules } from "@/lib/statutory"
+import { fetchAllRows, supabase } from "@/lib/supabase"
+import { escapeHtml } from "@/lib/utils"
+import { recordNormWage } from "@/lib/wage-norms"
+
+import type { WorkerSalary } from "./salary-manager"
+
+interface PayslipDay {
+  date: string
+  kg: number
+  rate: number
+  wage: number
+  extra_work: { label: string; amount: number }[]
+}
+
+interface PayslipAdvance {
+  date: string
+  amount: number
+}
+
+export interface PayslipDetails {
+  days: PayslipDay[]
+  advances: PayslipAdvance[]
+}
+
+export interface PayslipOrganization {
+  name: string
+  logo_url: string | null
+}
+
+function detailsFor(byWorker: Map<string, PayslipDetails>, workerId: string) {
+  const details = byWorker.get(workerId) ?? { days: [], advances: [] }
+  byWorker.set(workerId, details)
+  return details
+}
+
+function toPayslipDay(record: any, t: Translate): PayslipDay {
+  const kg = Number(record.kg_plucked) || 0
+  const rate = Number(record.rate_per_kg) || 0
+  return {
+    date: record.date,
+    kg,
+    rate,
+    wage: recordNormWage(record).plucking_wage,
+    extra_work: (record.daily_plucking_extra_work ?? []).map((item: any) => ({
+      label: item.extra_work_types?.name ?? item.description ?? t('common.otherWork'),
+      amount: Number(item.amount) || 0,
+    })),
+  }
+}
+
+// Daily records and advances for the month, keyed by worker
+export async function fetchPayslipDetails(orgId: string, month: Date, workerIds: string[], t: Translate) {
+  const records = await fetchAllRows<any>((from, to) => supabase
+    .from('daily_plucking')
+    .select(`id, worker_id, date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay, is_advance, ${EXTRA_WORK_SELECT}`)
+    .eq('organization_id', orgId)
+    .in('worker_id', workerIds)
+    .gte('date', format(month, 'yyyy-MM-dd'))
+    .lte('date', format(endOfMonth(month), 'yyyy-MM-dd'))
+    .order('date')
+    .order('id')
+    .range(from, to))
+
+  const byWorker = new Map<string, PayslipDetails>()
+  records.forEach(record => {
+    const details = detailsFor(byWorker, record.worker_id)
+    if (record.is_advance) {
+      details.advances.push({ date: record.date, amount: Math.abs(Number(record.wage_earned) || 0) })
+    } else {
+      details.days.push(toPayslipDay(record, t))
+    }
+  })
+  return byWorker
+}
+
+export async function fetchPayslipOrganization(orgId: string): Promise<PayslipOrganization> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('name, logo_url')
+    .eq('id', orgId)
+    .single()
+
+  if (error) throw error
+  return { name: data?.name ?? '', logo_url: data?.logo_url ?? null }
+}
+
+function renderDays(days: PayslipDay[], l: Localizer) {
+  const { t, money } = l
+  if (days.length === 0) return `<p class="muted">${t('payslip.noRecords')}</p>`
+
+  return `
+    <table>
+      <thead>
+        <tr>
+          <th>${t('common.date')}</th>
+          <th class="number">${t('common.kgPlucked')}</th>
+          <th class="number">${t('common.ratePerKg')}</th>
+          <th class="number">${t('payslip.pluckingWage')}</th>
+          <th>${t('common.extraWork')}</th>
+          <th class="number">${t('payslip.dayTotal')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${days.map(day => `
+          <tr>
+            <td>${l.date(day.date, 'day')}</td>
+            <td class="number">${day.kg > 0 ? l.number(day.kg, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) : '-'}</td>
+            <td class="number">${day.rate > 0 ? money(day.rate) : '-'}</td>
+            <td class="number">${day.wage > 0 ? money(day.wage) : '-'}</td>
+            <td>${day.extra_work.map(item => `${escapeHtml(item.label)}: ${money(item.amount)}`).join('<br>') || '-'}</td>
+            <td class="number">${money(day.wage + day.extra_work.reduce((sum, item) => sum + item.amount, 0))}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `
+}
+
+function row(label: string, amount: string, className = '') {
+  return `<tr class="${className}"><td>${label}</td><td class="number">${amount}</td></tr>`
+}
+
+function renderNotes(salary: WorkerSalary, details: PayslipDetails, rules: StatutoryRules, l: Localizer) {
+  const { t, money } = l
+  const advancesGiven = details.advances.map(a => `${l.date(a.date, 'day')}: ${money(a.amount)}`).join(', ')
+  const notes = [
+    advancesGiven && t('payslip.advancesGiven', { list: advancesGiven }),
+    salary.advance_carried > 0 && t('payslip.advanceCarried', { amount: money(salary.advance_carried) }),
+    salary.epf_employer + salary.etf > 0 && t('payslip.employerContributions', {
+      epfRate: rules.epf_employer_rate,
+      epf: money(salary.epf_employer),
+      etfRate: rules.etf_rate,
+      etf: money(salary.etf),
+    }),
+  ]
+  return notes.filter(Boolean).map(note => `<p class="muted">${note}</p>`).join('')
+}
+
+function renderSummary(salary: WorkerSalary, details: PayslipDetails, rules: StatutoryRules, l: Localizer) {
+  const { t, money } = l
+  const pluckingWage = salary.total_earned - salary.extra_work
+  const gross = salary.total_earned + salary.bonus + salary.attendance_allowance
+  const deductions = salary.total_advance + salary.epf_employee
+
+  return `
+    <div class="columns">
+      <table>
+        <thead><tr><th colspan="2">${t('payslip.earnings')}</th></tr></thead>
+        <tbody>
+          ${row(t('payslip.pluckingWageKg', { kg: l.number(salary.total_kg, { maximumFractionDigits: 1 }) }), money(pluckingWage))}
+          ${salary.over_kilo_pay > 0 ? row(t('salary.overKilo'), money(salary.over_kilo_pay), 'muted') : ''}
+          ${salary.wage_top_up > 0 ? row(t('salary.wageTopUp'), money(salary.wage_top_up), 'muted') : ''}
+          ${salary.holiday_pay > 0 ? row(t('salary.holidayPay'), money(salary.holiday_pay), 'muted') : ''}
+          ${Object.entries(salary.extra_work_by_type).map(([name, amount]) => row(escapeHtml(name), money(amount))).join('')}
+          ${row(t('common.bonus'), money(salary.bonus))}
+          ${salary.attendance_allowance > 0 ? row(t('salary.attendanceAllowance'), money(salary.attendance_allowance)) : ''}
+          ${row(t('payslip.grossPay'), money(gross), 'total')}
+        </tbody>
+      </table>
+      <table>
+        <thead><tr><th colspan="2">${t('payslip.deductions')}</th></tr></thead>
+        <tbody>
+          ${row(t('payslip.advanceRecovery'), money(salary.total_advance))}
+          ${row(t('payslip.epfEmployee', { rate: rules.epf_employee_rate }), money(salary.epf_employee))}
+          ${row(t('payslip.totalDeductions'), money(deductions), 'total')}
+        </tbody>
+      </table>
+    </div>
+    ${renderNotes(salary, details, rules, l)}
+    <div class="net">${t('payslip.netPay')} <span>${money(salary.net_salary)}</span></div>
+  `
+}
+
+// Each payment made of the salary, with the worker's on-screen signature when they signed for cash
+function renderPayments(salary: WorkerSalary, signatures: Map<string, string>, l: Localizer) {
+  const { t, money } = l
+  if (salary.payments.length === 0) return ''
+
+  const signature = (path: string | null) => {
+    const url = path ? signatures.get(path) : undefined
+    return url ? `<img src="${escapeHtml(url)}" alt="" class="signed" />` : ''
+  }
+  return `
+    <table>
+      <thead>
+        <tr>
+          <th>${t('payslip.paidOn')}</th>
+          <th>${t('payslip.paymentMethod')}</th>
+          <th>${t('payslip.reference')}</th>
+          <th class="number">${t('payslip.amount')}</th>
+          <th>${t('payslip.signature')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${salary.payments.map(payment => `
+          <tr>
+            <td>${l.date(payment.paid_at, 'date')}</td>
+            <td>${t(`payslip.method.${payment.payment_method}`)}</td>
+            <td>${escapeHtml(payment.reference ?? '-')}</td>
+            <td class="number">${payment.amount === null ? money(salary.paid_to_date) : money(Number(payment.amount))}</td>
+            <td>${signature(payment.signature_path)}</td>
+          </tr>
+        `).join('')}
+        <tr class="total">
+          <td colspan="3">${t('payslip.balanceDue')}</td>
+          <td class="number">${money(salary.balance)}</td>
+          <td></td>
+        </tr>
+      </tbody>
+    </table>
+  `
+}
+
+function renderPayslip(
+  salary: WorkerSalary,
+  details: PayslipDetails,
+  org: PayslipOrganization,
+  month: Date,
+  rules: StatutoryRules,
+  l: Localizer,
+  signatures: Map<string, string>
+) {
+  const { t } = l
+  return `
+    <section class="payslip">
+      <div class="header">
+        ${org.logo_url ? `<img src="${escapeHtml(org.logo_url)}" alt="" class="logo" />` : ''}
+        <div>
+          <h1>${escapeHtml(org.name)}</h1>
+          <p class="muted">${t('payslip.title', { month: l.date(month, 'month') })}</p>
+        </div>
+      </div>
+      <div class="worker">
+        <div><span class="muted">${t('common.worker')}</span><strong>${escapeHtml(salary.worker_name)}</strong></div>
+        <div><span class="muted">${t('common.employeeId')}</span><strong>${escapeHtml(salary.employee_id)}</strong></div>
+        <div><span class="muted">${t('common.daysWorked')}</span><strong>${salary.days_worked}</strong></div>
+        <div><span class="muted">${t('common.totalKg')}</span><strong>${l.kg(salary.total_kg)}</strong></div>
+      </div>
+      ${renderDays(details.days, l)}
+      ${renderSummary(salary, details, rules, l)}
+      ${renderPayments(salary, signatures, l)}
+      <div class="signature">
+        <div>${t('payslip.paidBy')}</div>
+        <div>${t('payslip.receivedBy')}</div>
+      </div>
+    </section>
+  `
+}
+
+export function renderPayslips(
+  salaries: WorkerSalary[],
+  details: Map<string, PayslipDetails>,
+  org: PayslipOrganization,
+  month: Date,
+  rules: StatutoryRules,
+  l: Localizer,
+  signatures: Map<string, string> = new Map()
+) {
+  return `
+    <html lang="${l.language}">
+      <head>
+        <meta charset="utf-8" />
+        <title>${l.t('payslip.documentTitle', { month: l.date(month, 'month') })}</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; color: #333; font-size: 11px; }
+          .payslip { padding: 24px; page-break-after: always; }
+          .payslip:last-child { page-break-after: auto; }
+          .header { display: flex; align-items: center; gap: 12px; border-bottom: 2px solid #333; padding-bottom: 12px; margin-bottom: 12px; }
+          .logo { height: 48px; width: 48px; object-fit: contain; }
+          h1 { font-size: 18px; }
+          .muted { color: #666; }
+          p.muted { margin-top: 6px; }
+          .worker { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-bottom: 12px; }
+          .worker div { display: flex; flex-direction: column; gap: 2px; }
+          table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+          th, td { border: 1px solid #ddd; padding: 5px 6px; text-align: left; vertical-align: top; }
+          th { background: #f5f5f5; }
+          .number { text-align: right; }
+          .total td { font-weight: bold; }
+          .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin-top: 8px; }
+          .net { margin-top: 12px; padding: 10px; background: #f5f5f5; font-size: 14px; font-weight: bold; display: flex; justify-content: space-between; }
+          .signature { display: grid; grid-template-columns: 1fr 1fr; gap: 48px; margin-top: 40px; }
+          .signature div { border-top: 1px solid #333; padding-top: 4px; text-align: center; color: #666; }
+          .signed { height: 28px; display: block; }
+        </style>
+      </head>
+      <body>
+        ${salaries.map(salary => renderPayslip(salary, details.get(salary.worker_id) ?? { days: [], advances: [] }, org, month, rules, l, signatures)).join('')}
+      </body>
+    </html>
+  `
+}
+
+// Fetches what the payslips show and renders them as one HTML document, shared by printing and the PDF
+export async function buildPayslips(orgId: string, salaries: WorkerSalary[], month: Date, rules: StatutoryRules, l: Localizer) {
+  const [org, details, signatures] = await Promise.all([
+    fetchPayslipOrganization(orgId),
+    fetchPayslipDetails(orgId, month, salaries.map(s => s.worker_id), l.t),
+    signatureUrls(salaries.flatMap(s => s.payments.map(p => p.signature_path))),
+  ])
+  return renderPayslips(salaries, details, org, month, rules, l, signatures)
+}
+
+// The window is opened before fetching so the browser treats it as user initiated
+export async function printPayslips(orgId: string, salaries: WorkerSalary[], month: Date, rules: StatutoryRules, l: Localizer) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) throw new Error(l.t('payslip.allowPopups'))
+
+  try {
+    printWindow.document.write(await buildPayslips(orgId, salaries, month, rules, l))
+    printWindow.document.close()
+    await imagesLoaded(printWindow.document)
+    printWindow.print()
+  } catch (error) {
+    printWindow.close()
+    throw error
+  }
+}
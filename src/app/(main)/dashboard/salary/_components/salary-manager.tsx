@@ -1,9 +1,9 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { Search, Users, TrendingUp, CalendarDays, Download, Printer, Banknote, Leaf, MinusCircle, Gift, ChevronLeft, ChevronRight, Loader2, Edit, Check, X, CheckCircle, Circle } from "lucide-react"
-import { useOrganization } from "@/contexts/organization-context"
+import { Search, Users, TrendingUp, CalendarDays, Download, Printer, Banknote, Leaf, MinusCircle, Gift, ChevronLeft, ChevronRight, Loader2, Edit, Check, X, CheckCircle, Circle, FileText, Landmark, Coins, FileSignature, PenLine, CheckCheck, FileDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import {
@@ -16,30 +16,266 @@ import { DataTable } from "@/components/data-table/data-table"
 import { DataTablePagination } from "@/components/data-table/data-table-pagination"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { ColumnDef } from "@tanstack/react-table"
+import { useOrganization } from "@/contexts/organization-context"
 import { useDataTableInstance } from "@/hooks/use-data-table-instance"
-import { supabase } from "@/lib/supabase"
+import { useTranslation } from "@/hooks/use-translation"
+import { WorkerLedger, fetchAdvanceLedgers, ledgerMonth } from "@/lib/advances"
+import { fetchAttendanceAllowances, readAttendancePolicy } from "@/lib/attendance"
+import { fetchExtraWorkByType, formatExtraWorkBreakdown } from "@/lib/extra-work"
+import { fetchOrgSettings } from "@/lib/org-settings"
+import { closePayrollMonth, fetchPayrollRuns } from "@/lib/payroll-runs"
+import { SalaryPaymentEntry, fetchSalaryPayments, salaryPaymentStatus } from "@/lib/salary-payments"
+import { DEFAULT_STATUTORY_RULES, StatutoryRules, computeContributions, contributoryWage, readStatutoryRules } from "@/lib/statutory"
+import { fetchAllRows, supabase } from "@/lib/supabase"
+import { recordNormWage } from "@/lib/wage-norms"
 import { format, startOfMonth, endOfMonth, subMonths, addMonths } from "date-fns"
 import { toast } from "sonner"
-import { formatCurrency } from "@/lib/utils"
+import type { PayrollRun } from "@/types/payroll"
 
-interface WorkerSalary {
+import { BankPaymentDialog } from "./bank-payment-dialog"
+import { BulkPaymentDialog } from "./bulk-payment-dialog"
+import { CashPayrollDialog } from "./cash-payroll-dialog"
+import { PayrollRunBar } from "./payroll-run-bar"
+import { fetchClosedSalaries, toPayrollLine } from "./payroll-snapshot"
+import { printPayslips } from "./payslip"
+import { downloadPayslipsPdf } from "./payslip-pdf"
+import { SalaryPaymentsDialog } from "./salary-payments-dialog"
+import { renderSalaryReport } from "./salary-report"
+
+export interface WorkerSalary {
   worker_id: string
   employee_id: string
   worker_name: string
   total_kg: number
   total_earned: number
+  extra_work: number
+  extra_work_by_type: Record<string, number>
+  // Parts of the plucking pay earned under wage norms
+  over_kilo_pay: number
+  wage_top_up: number
+  holiday_pay: number
   bonus: number
   bonus_id: string | null
+  attendance_allowance: number
+  // Advance recovered from this month's salary (see the advance ledger)
   total_advance: number
+  advance_issued: number
+  advance_carried: number
+  // Statutory contributions; only epf_employee is deducted from the salary
+  contributory_wage: number
+  epf_employee: number
+  epf_employer: number
+  etf: number
   net_salary: number
   days_worked: number
   avg_kg_per_day: number
+  // This month's payments, oldest first; paid once they cover the net salary
+  payments: SalaryPaymentEntry[]
+  paid_to_date: number
+  balance: number
   is_paid: boolean
-  payment_id: string | null
+}
+
+// Total earned, with the plucking vs extra work split (by type) and any norm pay on hover
+function SalaryTotalCell({ salary }: { salary: WorkerSalary }) {
+  const { t, money } = useTranslation()
+  const wageParts = [
+    { label: t("salary.overKilo"), amount: salary.over_kilo_pay },
+    { label: t("salary.wageTopUp"), amount: salary.wage_top_up },
+    { label: t("salary.holidayPay"), amount: salary.holiday_pay },
+  ].filter(part => part.amount > 0)
+  if (salary.extra_work <= 0 && wageParts.length === 0) {
+    return <span className="text-sm">{money(salary.total_earned)}</span>
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="text-sm cursor-help">
+            {money(salary.total_earned)}
+            <span className="text-xs text-muted-foreground ml-1">*</span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <div className="space-y-1 text-xs">
+            <div className="flex justify-between gap-4">
+              <span>{t("salary.plucking")}</span>
+              <span>{money(salary.total_earned - salary.extra_work)}</span>
+            </div>
+            {wageParts.map(part => (
+              <div key={part.label} className="flex justify-between gap-4 pl-2 text-muted-foreground">
+                <span>{part.label}</span>
+                <span>{money(part.amount)}</span>
+              </div>
+            ))}
+            {Object.entries(salary.extra_work_by_type).map(([name, amount]) => (
+              <div key={name} className="flex justify-between gap-4">
+                <span>{name}</span>
+                <span>{money(amount)}</span>
+              </div>
+            ))}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+// Employee EPF deducted, with the contributory wage and employer contributions on hover
+function SalaryContributionCell({ salary, rules }: { salary: WorkerSalary; rules: StatutoryRules }) {
+  const { t, money } = useTranslation()
+  if (salary.epf_employee <= 0) {
+    return <span className="text-xs text-muted-foreground">-</span>
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="text-sm cursor-help">{money(salary.epf_employee)}</span>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="space-y-1 text-xs">
+            <p>{t("salary.contributoryWage", { amount: money(salary.contributory_wage) })}</p>
+            <p>{t("salary.employeeEpf", { rate: rules.epf_employee_rate, amount: money(salary.epf_employee) })}</p>
+            <p>{t("salary.employerEpf", { rate: rules.epf_employer_rate, amount: money(salary.epf_employer) })}</p>
+            <p>{t("salary.etf", { rate: rules.etf_rate, amount: money(salary.etf) })}</p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+// Sets what this month's salary recovers; without a ledger, this month's advances are deducted in full
+function applyAdvanceRecovery(salary: WorkerSalary, ledgers: Map<string, WorkerLedger> | null, month: string) {
+  if (!ledgers) {
+    salary.total_advance = salary.advance_issued
+    return
+  }
+  const advanceMonth = ledgerMonth(ledgers.get(salary.worker_id), month)
+  salary.total_advance = advanceMonth?.recovered ?? 0
+  salary.advance_carried = advanceMonth?.carried_forward ?? 0
+}
+
+// A worker's salary line before their records are added up
+function newWorkerSalary(workerId: string, worker: any, payments: SalaryPaymentEntry[] | undefined): WorkerSalary {
+  return {
+    worker_id: workerId,
+    employee_id: worker.employee_id,
+    worker_name: `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}`,
+    total_kg: 0,
+    total_earned: 0,
+    extra_work: 0,
+    extra_work_by_type: {},
+    over_kilo_pay: 0,
+    wage_top_up: 0,
+    holiday_pay: 0,
+    bonus: 0,
+    bonus_id: null,
+    attendance_allowance: 0,
+    total_advance: 0,
+    advance_issued: 0,
+    advance_carried: 0,
+    contributory_wage: 0,
+    epf_employee: 0,
+    epf_employer: 0,
+    etf: 0,
+    net_salary: 0,
+    days_worked: 0,
+    avg_kg_per_day: 0,
+    payments: payments ?? [],
+    paid_to_date: 0,
+    balance: 0,
+    is_paid: false,
+  }
+}
+
+// Workers on sundry work earn the attendance allowance without any plucking records
+async function addAllowanceWorkers(
+  workerMap: Map<string, WorkerSalary>,
+  workerDates: Map<string, Set<string>>,
+  allowances: Map<string, number>,
+  paymentMap: Map<string, SalaryPaymentEntry[]>
+) {
+  const missing = [...allowances.keys()].filter(workerId => !workerMap.has(workerId))
+  if (missing.length === 0) return
+
+  const { data } = await supabase
+    .from('workers')
+    .select('id, employee_id, first_name, last_name')
+    .in('id', missing)
+
+  data?.forEach(worker => {
+    workerMap.set(worker.id, newWorkerSalary(worker.id, worker, paymentMap.get(worker.id)))
+    workerDates.set(worker.id, new Set<string>())
+  })
+}
+
+// Paid, part paid or unpaid; opens the worker's payments. The icon shows whether cash payments are signed for
+function SalaryStatusCell({ salary, onOpen }: { salary: WorkerSalary; onOpen: () => void }) {
+  const { t } = useTranslation()
+  const cashPayments = salary.payments.filter(payment => payment.payment_method === 'cash')
+  const unsigned = cashPayments.some(payment => !payment.signature_path)
+  const label = salary.is_paid ? t("salary.paid") : salary.paid_to_date > 0 ? t("salary.partPaid") : t("salary.markPaid")
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant={salary.is_paid ? "default" : "outline"}
+        size="sm"
+        className={`h-7 text-xs ${salary.is_paid ? "bg-primary/90" : ""}`}
+        onClick={onOpen}
+      >
+        {salary.is_paid ? <CheckCircle className="h-3 w-3 mr-1" /> : <Circle className="h-3 w-3 mr-1" />}
+        {label}
+      </Button>
+      {cashPayments.length > 0 && (
+        <span
+          className={`flex h-7 w-7 items-center justify-center ${unsigned ? "text-muted-foreground" : "text-primary"}`}
+          title={unsigned ? t("salary.collectSignature") : t("salary.signed")}
+        >
+          {unsigned ? <PenLine className="h-3.5 w-3.5" /> : <FileSignature className="h-3.5 w-3.5" />}
+        </span>
+      )}
+    </div>
+  )
+}
+
+// Advance recovered this month, with what was given and what carries forward on hover
+function SalaryAdvanceCell({ salary }: { salary: WorkerSalary }) {
+  const { t, money } = useTranslation()
+  if (salary.total_advance <= 0 && salary.advance_carried <= 0 && salary.advance_issued <= 0) {
+    return <span className="text-xs text-muted-foreground">-</span>
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className="flex items-center gap-1 cursor-help">
+            <MinusCircle className="h-3 w-3 text-muted-foreground" />
+            <span className="text-sm">{money(salary.total_advance)}</span>
+            {salary.advance_carried > 0 && <span className="text-xs text-muted-foreground">*</span>}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="space-y-1 text-xs">
+            <p>{t("salary.givenThisMonth", { amount: money(salary.advance_issued) })}</p>
+            <p>{t("salary.recovered", { amount: money(salary.total_advance) })}</p>
+            <p>{t("salary.carriedToNextMonth", { amount: money(salary.advance_carried) })}</p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
 }
 
 export function SalaryManager() {
-  const { currentOrganization, loading: orgLoading } = useOrganization()
+  const { currentOrganization, loading: orgLoading, canEdit, isOwner } = useOrganization()
+  const l = useTranslation()
+  const { t, money } = l
   const orgId = currentOrganization?.organization_id
   
   const [salaries, setSalaries] = useState<WorkerSalary[]>([])
@@ -49,7 +285,15 @@ export function SalaryManager() {
   const [editingBonusId, setEditingBonusId] = useState<string | null>(null)
   const [bonusValue, setBonusValue] = useState("")
   const [savingBonus, setSavingBonus] = useState(false)
-  const [markingPaidId, setMarkingPaidId] = useState<string | null>(null)
+  const [payrollRuns, setPayrollRuns] = useState<PayrollRun[]>([])
+  const [closingMonth, setClosingMonth] = useState(false)
+  const [statutoryRules, setStatutoryRules] = useState<StatutoryRules>(DEFAULT_STATUTORY_RULES)
+  const [printingPayslips, setPrintingPayslips] = useState(false)
+  const [showBankFile, setShowBankFile] = useState(false)
+  const [showCashPlanner, setShowCashPlanner] = useState(false)
+  const [paymentsWorkerId, setPaymentsWorkerId] = useState<string | null>(null)
+  const [showBulkPay, setShowBulkPay] = useState(false)
+  const isClosed = payrollRuns.some(r => r.status === 'closed')
 
   useEffect(() => {
     if (orgId) {
@@ -64,72 +308,64 @@ export function SalaryManager() {
       const monthStart = format(selectedMonth, 'yyyy-MM-dd')
       const monthEnd = format(endOfMonth(selectedMonth), 'yyyy-MM-dd')
 
-      // Fetch all daily plucking records for the selected month
-      let records: any[] = []
-      const { data, error } = await supabase
-        .from('daily_plucking')
-        .select(`
-          id,
-          worker_id,
-          date,
-          kg_plucked,
-          rate_per_kg,
-          wage_earned,
-          is_advance,
-          extra_work_payment,
-          workers!inner (
-            id,
-            employee_id,
-            first_name,
-            last_name
-          )
-        `)
-        .eq('organization_id', orgId)
-        .gte('date', monthStart)
-        .lte('date', monthEnd)
+      const settings = await fetchOrgSettings(orgId).catch(() => ({}))
+      const rules = readStatutoryRules(settings)
+      setStatutoryRules(rules)
 
-      if (error) {
-        // Fallback if organization_id column doesn't exist
-        if (error.message?.includes('organization_id') || error.code === '42703') {
-          const { data: fallbackData, error: fallbackError } = await supabase
-            .from('daily_plucking')
-            .select(`
+      // A closed month shows its snapshot instead of recalculating from records
+      const runs = await fetchPayrollRuns(orgId, monthStart).catch(() => [])
+      setPayrollRuns(runs)
+      const closedRun = runs.find(r => r.status === 'closed')
+      if (closedRun) {
+        setSalaries(await fetchClosedSalaries(orgId, closedRun.id, monthStart))
+        return
+      }
+
+      // Fetch all daily plucking records for the selected month, a page at a time
+      const monthRecords = (byOrg: boolean) => fetchAllRows<any>((from, to) => {
+        let query = supabase
+          .from('daily_plucking')
+          .select(`
+            id,
+            worker_id,
+            date,
+            kg_plucked,
+            rate_per_kg,
+            wage_earned,
+            is_advance,
+            extra_work_payment,
+            norm_kg,
+            over_kilo_pay,
+            wage_top_up,
+            holiday_pay,
+            workers!inner (
               id,
-              worker_id,
-              date,
-              kg_plucked,
-              rate_per_kg,
-              wage_earned,
-              is_advance,
-              extra_work_payment,
-              workers!inner (
-                id,
-                employee_id,
-                first_name,
-                last_name
-              )
-            `)
-            .gte('date', monthStart)
-            .lte('date', monthEnd)
-          
-          if (fallbackError) {
-            if (fallbackError.message?.includes('relation "daily_plucking" does not exist')) {
-              toast.error("Daily plucking table not found. Please run the SQL setup.")
-              setSalaries([])
-              return
-            }
-            throw fallbackError
-          }
-          records = fallbackData || []
-        } else if (error.message?.includes('relation "daily_plucking" does not exist')) {
-          toast.error("Daily plucking table not found. Please run the SQL setup.")
+              employee_id,
+              first_name,
+              last_name
+            )
+          `)
+          .gte('date', monthStart)
+          .lte('date', monthEnd)
+
+        if (byOrg) query = query.eq('organization_id', orgId)
+        return query.order('date').order('id').range(from, to)
+      })
+
+      let records: any[]
+      try {
+        records = await monthRecords(true).catch((error) => {
+          // Fallback if organization_id column doesn't exist
+          if (error.message?.includes('organization_id') || error.code === '42703') return monthRecords(false)
+          throw error
+        })
+      } catch (error: any) {
+        if (error.message?.includes('relation "daily_plucking" does not exist')) {
+          toast.error(t("common.runSqlSetup", { table: "daily_plucking" }))
           setSalaries([])
           return
-        } else {
-          throw error
         }
-      } else {
-        records = data || []
+        throw error
       }
 
       // Fetch bonuses for this month
@@ -177,20 +413,9 @@ export function SalaryManager() {
         })
       }
 
-      // Fetch payment records for this month
-      const { data: payments, error: paymentError } = await supabase
-        .from('salary_payments')
-        .select('*')
-        .eq('organization_id', orgId)
-        .eq('month', monthStart)
-
-      // Create payment map (ignore error if table doesn't exist)
-      const paymentMap = new Map<string, string>()
-      if (!paymentError && payments) {
-        payments.forEach((p: any) => {
-          paymentMap.set(p.worker_id, p.id)
-        })
-      }
+      // Fetch payment records for this month (ignore error if table doesn't exist)
+      const paymentMap = await fetchSalaryPayments(orgId, monthStart)
+        .catch(() => new Map<string, SalaryPaymentEntry[]>())
 
       // Process records to calculate salary per worker
       const workerMap = new Map<string, WorkerSalary>()
@@ -198,26 +423,13 @@ export function SalaryManager() {
 
       records?.forEach((record: any) => {
         const workerId = record.worker_id
-        const worker = record.workers
-        const workerName = `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}`
         
         if (!workerMap.has(workerId)) {
           const bonusData = bonusMap.get(workerId)
-          const paymentId = paymentMap.get(workerId)
           workerMap.set(workerId, {
-            worker_id: workerId,
-            employee_id: worker.employee_id,
-            worker_name: workerName,
-            total_kg: 0,
-            total_earned: 0,
+            ...newWorkerSalary(workerId, record.workers, paymentMap.get(workerId)),
             bonus: bonusData?.amount || 0,
             bonus_id: bonusData?.id || null,
-            total_advance: 0,
-            net_salary: 0,
-            days_worked: 0,
-            avg_kg_per_day: 0,
-            is_paid: !!paymentId,
-            payment_id: paymentId || null
           })
           workerDates.set(workerId, new Set<string>())
         }
@@ -226,13 +438,17 @@ export function SalaryManager() {
         
         if (record.is_advance) {
           // Advance payment (stored as negative)
-          workerData.total_advance += Math.abs(record.wage_earned)
+          workerData.advance_issued += Math.abs(record.wage_earned)
         } else {
           // Regular plucking + extra work
           workerData.total_kg += record.kg_plucked
-          const pluckingAmount = record.kg_plucked * record.rate_per_kg
+          const normWage = recordNormWage(record)
           const extraWorkAmount = record.extra_work_payment || 0
-          workerData.total_earned += pluckingAmount + extraWorkAmount
+          workerData.total_earned += normWage.plucking_wage + extraWorkAmount
+          workerData.extra_work += extraWorkAmount
+          workerData.over_kilo_pay += normWage.over_kilo_pay
+          workerData.wage_top_up += normWage.wage_top_up
+          workerData.holiday_pay += normWage.holiday_pay
           
           // Add date to the set (only counts unique dates)
           workerDates.get(workerId)!.add(record.date)
@@ -244,37 +460,45 @@ export function SalaryManager() {
         bonuses.forEach((bonus: any) => {
           const workerId = bonus.worker_id
           if (!workerMap.has(workerId)) {
-            const worker = bonus.workers
-            const workerName = `${worker.first_name}${worker.last_name ? ' ' + worker.last_name : ''}`
-            const paymentId = paymentMap.get(workerId)
-            
             workerMap.set(workerId, {
-              worker_id: workerId,
-              employee_id: worker.employee_id,
-              worker_name: workerName,
-              total_kg: 0,
-              total_earned: 0,
+              ...newWorkerSalary(workerId, bonus.workers, paymentMap.get(workerId)),
               bonus: bonus.amount || 0,
               bonus_id: bonus.id || null,
-              total_advance: 0,
-              net_salary: 0,
-              days_worked: 0,
-              avg_kg_per_day: 0,
-              is_paid: !!paymentId,
-              payment_id: paymentId || null
             })
             workerDates.set(workerId, new Set<string>())
           }
         })
       }
 
+      const allowances = await fetchAttendanceAllowances(orgId, monthStart, monthEnd, readAttendancePolicy(settings))
+        .catch(() => new Map<string, number>())
+      await addAllowanceWorkers(workerMap, workerDates, allowances, paymentMap)
+
+      // Itemised extra work per type (totals above come from extra_work_payment)
+      const extraWorkByWorker = await fetchExtraWorkByType(orgId, monthStart, monthEnd, t)
+        .catch(() => new Map<string, Record<string, number>>())
+
+      // Recoveries follow the instalment schedules and carry unrecovered amounts forward
+      const ledgers = await fetchAdvanceLedgers(orgId, monthStart).catch((ledgerError) => {
+        console.error('Error fetching advance ledger:', ledgerError?.message ?? ledgerError)
+        return null
+      })
+
       // Calculate net salary and averages, using unique date count for days worked
       const salaryList = Array.from(workerMap.values()).map(w => {
         const daysWorked = workerDates.get(w.worker_id)?.size || 0
+        applyAdvanceRecovery(w, ledgers, monthStart)
+        const contributions = computeContributions(contributoryWage(w, rules), rules)
+        const allowance = allowances.get(w.worker_id) ?? 0
+        const netSalary = w.total_earned + w.bonus + allowance - w.total_advance - contributions.epf_employee
         return {
           ...w,
+          ...contributions,
+          ...salaryPaymentStatus(netSalary, w.payments),
+          extra_work_by_type: extraWorkByWorker.get(w.worker_id) ?? {},
+          attendance_allowance: allowance,
           days_worked: daysWorked,
-          net_salary: w.total_earned + w.bonus - w.total_advance,
+          net_salary: netSalary,
           avg_kg_per_day: daysWorked > 0 ? w.total_kg / daysWorked : 0
         }
       })
@@ -285,7 +509,7 @@ export function SalaryManager() {
       setSalaries(salaryList)
     } catch (error) {
       console.error('Error fetching salary data:', error)
-      toast.error("Failed to load salary data")
+      toast.error(t("salary.loadFailed"))
     } finally {
       setLoading(false)
     }
@@ -302,6 +526,52 @@ export function SalaryManager() {
     }
   }
 
+  const handleCloseMonth = async () => {
+    if (!orgId) return
+    const monthLabel = l.date(selectedMonth, 'month')
+    if (!confirm(t("run.confirmClose", { month: monthLabel }))) return
+
+    setClosingMonth(true)
+    try {
+      await closePayrollMonth(orgId, format(selectedMonth, 'yyyy-MM-dd'), salaries.map(toPayrollLine))
+      toast.success(t("run.monthClosed", { month: monthLabel }))
+      fetchSalaryData()
+    } catch (error: any) {
+      console.error('Error closing payroll month:', error)
+      toast.error(error.message ?? t("run.closeFailed"))
+    } finally {
+      setClosingMonth(false)
+    }
+  }
+
+  const handlePrintPayslips = useCallback(async (list: WorkerSalary[]) => {
+    if (!orgId || list.length === 0) return
+
+    setPrintingPayslips(true)
+    try {
+      await printPayslips(orgId, list, selectedMonth, statutoryRules, l)
+    } catch (error: any) {
+      console.error('Error printing payslips:', error)
+      toast.error(error.message ?? t("payslip.failed"))
+    } finally {
+      setPrintingPayslips(false)
+    }
+  }, [orgId, selectedMonth, statutoryRules, l, t])
+
+  const handleDownloadPayslips = async (list: WorkerSalary[]) => {
+    if (!orgId || list.length === 0) return
+
+    setPrintingPayslips(true)
+    try {
+      await downloadPayslipsPdf(orgId, list, selectedMonth, statutoryRules, l)
+    } catch (error: any) {
+      console.error('Error generating payslip PDF:', error)
+      toast.error(error.message ?? t("payslip.failed"))
+    } finally {
+      setPrintingPayslips(false)
+    }
+  }
+
   const handleEditBonus = useCallback((workerId: string, currentBonus: number) => {
     setEditingBonusId(workerId)
     setBonusValue(currentBonus > 0 ? currentBonus.toString() : '')
@@ -347,61 +617,22 @@ export function SalaryManager() {
         if (error) throw error
       }
 
-      toast.success("Bonus updated")
+      toast.success(t("salary.bonusUpdated"))
       setEditingBonusId(null)
       setBonusValue('')
       fetchSalaryData()
     } catch (error: any) {
       console.error('Error saving bonus:', error)
       if (error.message?.includes('worker_bonuses')) {
-        toast.error("Bonus table not found. Please run the SQL setup.")
+        toast.error(t("common.runSqlSetup", { table: "worker_bonuses" }))
       } else {
-        toast.error(error.message || "Failed to save bonus")
+        toast.error(error.message || t("salary.bonusFailed"))
       }
     } finally {
       setSavingBonus(false)
     }
   }, [bonusValue, selectedMonth])
 
-  const handleTogglePaid = useCallback(async (workerId: string, paymentId: string | null, isPaid: boolean) => {
-    setMarkingPaidId(workerId)
-    const monthStart = format(selectedMonth, 'yyyy-MM-dd')
-
-    try {
-      if (isPaid && paymentId) {
-        // Unmark as paid - delete the payment record
-        const { error } = await supabase
-          .from('salary_payments')
-          .delete()
-          .eq('id', paymentId)
-        if (error) throw error
-        toast.success("Marked as unpaid")
-      } else {
-        // Mark as paid - insert payment record
-        const { error } = await supabase
-          .from('salary_payments')
-          .insert({
-            worker_id: workerId,
-            month: monthStart,
-            paid_at: new Date().toISOString(),
-            organization_id: orgId
-          })
-        if (error) throw error
-        toast.success("Marked as paid")
-      }
-      fetchSalaryData()
-    } catch (error: any) {
-      console.error('Error toggling payment:', error)
-      if (error.message?.includes('salary_payments')) {
-        toast.error("Payment table not found. Please run the SQL setup.")
-      } else {
-        toast.error(error.message || "Failed to update payment status")
-      }
-    } finally {
-      setMarkingPaidId(null)
-    }
-  }, [selectedMonth])
-
   const filteredSalaries = useMemo(() =>
     salaries.filter(salary =>
       salary.worker_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -411,18 +642,20 @@ export function SalaryManager() {
 
   const stats = useMemo(() => {
     const totalPaid = salaries.reduce((sum, s) => sum + s.net_salary, 0)
-    const actuallyPaid = salaries.filter(s => s.is_paid).reduce((sum, s) => sum + s.net_salary, 0)
+    const actuallyPaid = salaries.reduce((sum, s) => sum + s.paid_to_date, 0)
     const totalKg = salaries.reduce((sum, s) => sum + s.total_kg, 0)
     const totalWorkers = salaries.length
     const paidWorkers = salaries.filter(s => s.is_paid).length
     const totalBonus = salaries.reduce((sum, s) => sum + s.bonus, 0)
+    const totalEpf = salaries.reduce((sum, s) => sum + s.epf_employee + s.epf_employer, 0)
+    const totalEtf = salaries.reduce((sum, s) => sum + s.etf, 0)
 
-    return { totalPaid, actuallyPaid, totalKg, totalWorkers, paidWorkers, totalBonus }
+    return { totalPaid, actuallyPaid, totalKg, totalWorkers, paidWorkers, totalBonus, totalEpf, totalEtf }
   }, [salaries])
 
   // Export functions
   const exportToCSV = () => {
-    const headers = ["Employee ID", "Worker Name", "Days Worked", "Total Kg", "Avg Kg/Day", "Total", "Bonus", "Advances", "Net Salary"]
+    const headers = ["Employee ID", "Worker Name", "Days Worked", "Total Kg", "Avg Kg/Day", "Total", "Extra Work", "Extra Work by Type", "Bonus", "Attendance Allowance", "Advances Given", "Advances Recovered", "Carried Forward", "Contributory Wage", "EPF Employee", "EPF Employer", "ETF", "Net Salary"]
     const rows = filteredSalaries.map(salary => [
       salary.employee_id,
       salary.worker_name,
@@ -430,8 +663,17 @@ export function SalaryManager() {
       salary.total_kg.toFixed(1),
       salary.avg_kg_per_day.toFixed(1),
       salary.total_earned.toFixed(2),
+      salary.extra_work.toFixed(2),
+      formatExtraWorkBreakdown(salary.extra_work_by_type, l),
       salary.bonus.toFixed(2),
+      salary.attendance_allowance.toFixed(2),
+      salary.advance_issued.toFixed(2),
       salary.total_advance.toFixed(2),
+      salary.advance_carried.toFixed(2),
+      salary.contributory_wage.toFixed(2),
+      salary.epf_employee.toFixed(2),
+      salary.epf_employer.toFixed(2),
+      salary.etf.toFixed(2),
       salary.net_salary.toFixed(2)
     ])
     
@@ -449,7 +691,7 @@ export function SalaryManager() {
     link.download = `salary-report-${format(selectedMonth, 'yyyy-MM')}.csv`
     link.click()
     URL.revokeObjectURL(url)
-    toast.success("Exported to CSV")
+    toast.success(t("common.exportedCsv"))
   }
 
   const exportToJSON = () => {
@@ -464,8 +706,17 @@ export function SalaryManager() {
         total_kg: salary.total_kg,
         avg_kg_per_day: salary.avg_kg_per_day,
         total_earned: salary.total_earned,
+        extra_work: salary.extra_work,
+        extra_work_by_type: salary.extra_work_by_type,
         bonus: salary.bonus,
+        attendance_allowance: salary.attendance_allowance,
+        advance_issued: salary.advance_issued,
         total_advance: salary.total_advance,
+        advance_carried: salary.advance_carried,
+        contributory_wage: salary.contributory_wage,
+        epf_employee: salary.epf_employee,
+        epf_employer: salary.epf_employer,
+        etf: salary.etf,
         net_salary: salary.net_salary
       }))
     }
@@ -477,90 +728,11 @@ export function SalaryManager() {
     link.download = `salary-report-${format(selectedMonth, 'yyyy-MM')}.json`
     link.click()
     URL.revokeObjectURL(url)
-    toast.success("Exported to JSON")
+    toast.success(t("common.exportedJson"))
   }
 
   const handlePrint = () => {
-    const printContent = `
-      <html>
-        <head>
-          <title>Salary Report - ${format(selectedMonth, 'MMMM yyyy')}</title>
-          <style>
-            body { font-family: Arial, sans-serif; padding: 20px; }
-            h1 { font-size: 18px; margin-bottom: 5px; }
-            .subtitle { color: #666; font-size: 12px; margin-bottom: 20px; }
-            table { width: 100%; border-collapse: collapse; font-size: 11px; }
-            th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-            th { background: #f5f5f5; }
-            .number { text-align: right; }
-            .positive { color: #16a34a; }
-            .negative { color: #dc2626; }
-            .summary { margin-top: 20px; font-size: 13px; }
-            .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 10px; margin-top: 10px; }
-            .summary-item { background: #f9f9f9; padding: 10px; border-radius: 4px; }
-            .summary-label { font-size: 10px; color: #666; }
-            .summary-value { font-size: 16px; font-weight: bold; }
-          </style>
-        </head>
-        <body>
-          <h1>Salary Report</h1>
-          <div class="subtitle">${format(selectedMonth, 'MMMM yyyy')} • ${salaries.length} Workers</div>
-          
-          <table>
-            <thead>
-              <tr>
-                <th>ID</th>
-                <th>Worker</th>
-                <th class="number">Days</th>
-                <th class="number">Total Kg</th>
-                <th class="number">Avg/Day</th>
-                <th class="number">Total</th>
-                <th class="number">Bonus</th>
-                <th class="number">Advances</th>
-                <th class="number">Net Salary</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${filteredSalaries.map(salary => `
-                <tr>
-                  <td>${salary.employee_id}</td>
-                  <td>${salary.worker_name}</td>
-                  <td class="number">${salary.days_worked}</td>
-                  <td class="number">${salary.total_kg.toFixed(1)} kg</td>
-                  <td class="number">${salary.avg_kg_per_day.toFixed(1)} kg</td>
-                  <td class="number">${formatCurrency(salary.total_earned)}</td>
-                  <td class="number positive">${formatCurrency(salary.bonus)}</td>
-                  <td class="number negative">${formatCurrency(salary.total_advance)}</td>
-                  <td class="number" style="font-weight: bold;">${formatCurrency(salary.net_salary)}</td>
-                </tr>
-              `).join('')}
-            </tbody>
-          </table>
-          
-          <div class="summary">
-            <strong>Summary</strong>
-            <div class="summary-grid">
-              <div class="summary-item">
-                <div class="summary-label">Total Workers</div>
-                <div class="summary-value">${stats.totalWorkers}</div>
-              </div>
-              <div class="summary-item">
-                <div class="summary-label">Total Kg</div>
-                <div class="summary-value">${stats.totalKg.toFixed(1)} kg</div>
-              </div>
-              <div class="summary-item">
-                <div class="summary-label">Total Bonus</div>
-                <div class="summary-value">${formatCurrency(stats.totalBonus)}</div>
-              </div>
-              <div class="summary-item">
-                <div class="summary-label">Total Paid</div>
-                <div class="summary-value">${formatCurrency(stats.totalPaid)}</div>
-              </div>
-            </div>
-          </div>
-        </body>
-      </html>
-    `
+    const printContent = renderSalaryReport(filteredSalaries, stats, selectedMonth, statutoryRules, l)
     const printWindow = window.open('', '_blank')
     if (printWindow) {
       printWindow.document.write(printContent)
@@ -570,54 +742,71 @@ export function SalaryManager() {
   }
 
   const columns: ColumnDef<WorkerSalary>[] = useMemo(() => [
+    {
+      id: "select",
+      header: ({ table }) => (
+        <Checkbox
+          checked={table.getIsAllPageRowsSelected() || (table.getIsSomePageRowsSelected() && "indeterminate")}
+          onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+          aria-label={t("salary.selectAll")}
+        />
+      ),
+      cell: ({ row }) => (
+        <Checkbox
+          checked={row.getIsSelected()}
+          onCheckedChange={(value) => row.toggleSelected(!!value)}
+          aria-label={t("salary.selectWorker")}
+        />
+      ),
+      enableSorting: false,
+      enableHiding: false,
+    },
     {
       accessorKey: "employee_id",
-      header: "ID",
+      header: t("common.id"),
       cell: ({ row }) => (
         <span className="font-mono text-xs text-muted-foreground">{row.getValue("employee_id")}</span>
       ),
     },
     {
       accessorKey: "worker_name",
-      header: "Worker",
+      header: t("common.worker"),
       cell: ({ row }) => (
         <span className="font-medium">{row.getValue("worker_name")}</span>
       ),
     },
     {
       accessorKey: "days_worked",
-      header: "Days",
+      header: t("common.days"),
       cell: ({ row }) => (
         <span className="text-sm">{row.getValue("days_worked")}</span>
       ),
     },
     {
       accessorKey: "total_kg",
-      header: "Total Kg",
+      header: t("common.totalKg"),
       cell: ({ row }) => (
         <div className="flex items-center gap-1.5">
           <Leaf className="h-3 w-3 text-muted-foreground" />
-          <span className="font-medium">{row.getValue<number>("total_kg").toFixed(1)} kg</span>
+          <span className="font-medium">{l.kg(row.getValue<number>("total_kg"))}</span>
         </div>
       ),
     },
     {
       accessorKey: "avg_kg_per_day",
-      header: "Avg/Day",
+      header: t("salary.avgPerDay"),
       cell: ({ row }) => (
-        <span className="text-sm text-muted-foreground">{row.getValue<number>("avg_kg_per_day").toFixed(1)} kg</span>
+        <span className="text-sm text-muted-foreground">{l.kg(row.getValue<number>("avg_kg_per_day"))}</span>
       ),
     },
     {
       accessorKey: "total_earned",
-      header: "Total",
-      cell: ({ row }) => (
-        <span className="text-sm">{formatCurrency(row.getValue<number>("total_earned"))}</span>
-      ),
+      header: t("common.total"),
+      cell: ({ row }) => <SalaryTotalCell salary={row.original} />,
     },
     {
       accessorKey: "bonus",
-      header: "Bonus",
+      header: t("common.bonus"),
       cell: ({ row }) => {
         const salary = row.original
         const isEditing = editingBonusId === salary.worker_id
@@ -668,41 +857,47 @@ export function SalaryManager() {
             {salary.bonus > 0 ? (
               <div className="flex items-center gap-1">
                 <span className="h-3 w-3 text-muted-foreground" />
-                <span className="text-sm">{formatCurrency(salary.bonus)}</span>
+                <span className="text-sm">{money(salary.bonus)}</span>
               </div>
             ) : (
               <span className="text-xs text-muted-foreground">-</span>
             )}
-            <Button
-              variant="ghost"
-              size="sm"
-              className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-              onClick={() => handleEditBonus(salary.worker_id, salary.bonus)}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {!isClosed && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={() => handleEditBonus(salary.worker_id, salary.bonus)}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
           </div>
         )
       },
     },
     {
       accessorKey: "total_advance",
-      header: "Advances",
-      cell: ({ row }) => {
-        const advance = row.getValue<number>("total_advance")
-        return advance > 0 ? (
-          <div className="flex items-center gap-1">
-            <MinusCircle className="h-3 w-3 text-muted-foreground" />
-            <span className="text-sm">{formatCurrency(advance)}</span>
-          </div>
-        ) : (
-          <span className="text-xs text-muted-foreground">-</span>
-        )
-      },
+      header: t("common.advances"),
+      cell: ({ row }) => <SalaryAdvanceCell salary={row.original} />,
+    },
+    {
+      accessorKey: "epf_employee",
+      header: t("salary.epfRate", { rate: statutoryRules.epf_employee_rate }),
+      cell: ({ row }) => <SalaryContributionCell salary={row.original} rules={statutoryRules} />,
+    },
+    {
+      id: "employer_contributions",
+      header: t("salary.employerContributions"),
+      cell: ({ row }) => (
+        <span className="text-sm text-muted-foreground">
+          {row.original.epf_employer + row.original.etf > 0 ? money(row.original.epf_employer + row.original.etf) : '-'}
+        </span>
+      ),
     },
     {
       accessorKey: "net_salary",
-      header: "Net Salary",
+      header: t("common.netSalary"),
       cell: ({ row }) => {
         const salary = row.original
         const netSalary = row.getValue<number>("net_salary")
@@ -711,16 +906,18 @@ export function SalaryManager() {
             <Tooltip>
               <TooltipTrigger asChild>
                 <span className="font-bold cursor-help">
-                  {formatCurrency(netSalary)}
+                  {money(netSalary)}
                 </span>
               </TooltipTrigger>
               <TooltipContent>
                 <div className="text-xs space-y-1">
-                  <p>Earned: {formatCurrency(salary.total_earned)}</p>
-                  <p>+ Bonus: {formatCurrency(salary.bonus)}</p>
-                  <p>- Advances: {formatCurrency(salary.total_advance)}</p>
+                  <p>{t("salary.earned", { amount: money(salary.total_earned) })}</p>
+                  <p>{t("salary.plusBonus", { amount: money(salary.bonus) })}</p>
+                  {salary.attendance_allowance > 0 && <p>{t("salary.plusAllowance", { amount: money(salary.attendance_allowance) })}</p>}
+                  <p>{t("salary.minusAdvances", { amount: money(salary.total_advance) })}</p>
+                  {salary.epf_employee > 0 && <p>{t("salary.minusEpf", { amount: money(salary.epf_employee) })}</p>}
                   <hr className="border-border" />
-                  <p className="font-bold">Net: {formatCurrency(netSalary)}</p>
+                  <p className="font-bold">{t("salary.net", { amount: money(netSalary) })}</p>
                 </div>
               </TooltipContent>
             </Tooltip>
@@ -728,51 +925,63 @@ export function SalaryManager() {
         )
       },
     },
+    {
+      accessorKey: "paid_to_date",
+      header: t("salary.paidToDate"),
+      cell: ({ row }) => (
+        <span className="text-sm">{row.original.paid_to_date > 0 ? money(row.original.paid_to_date) : '-'}</span>
+      ),
+    },
+    {
+      accessorKey: "balance",
+      header: t("salary.balance"),
+      cell: ({ row }) => (
+        <span className={`text-sm ${row.original.balance > 0 ? "font-medium" : "text-muted-foreground"}`}>
+          {money(row.original.balance)}
+        </span>
+      ),
+    },
     {
       accessorKey: "is_paid",
-      header: "Status",
-      cell: ({ row }) => {
-        const salary = row.original
-        const isMarking = markingPaidId === salary.worker_id
-
-        return (
-          <Button
-            variant={salary.is_paid ? "default" : "outline"}
-            size="sm"
-            className={`h-7 text-xs ${salary.is_paid ? "bg-primary/90" : ""}`}
-            onClick={() => handleTogglePaid(salary.worker_id, salary.payment_id, salary.is_paid)}
-            disabled={isMarking}
-          >
-            {isMarking ? (
-              <Loader2 className="h-3 w-3 animate-spin" />
-            ) : salary.is_paid ? (
-              <>
-                <CheckCircle className="h-3 w-3 mr-1" />
-                Paid
-              </>
-            ) : (
-              <>
-                <Circle className="h-3 w-3 mr-1" />
-                Mark Paid
-              </>
-            )}
-          </Button>
-        )
-      },
+      header: t("common.status"),
+      cell: ({ row }) => <SalaryStatusCell salary={row.original} onOpen={() => setPaymentsWorkerId(row.original.worker_id)} />,
+    },
+    {
+      id: "payslip",
+      header: "",
+      cell: ({ row }) => (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          title={t("salary.printPayslip")}
+          onClick={() => handlePrintPayslips([row.original])}
+          disabled={printingPayslips}
+        >
+          <FileText className="h-3.5 w-3.5" />
+        </Button>
+      ),
     },
-  ], [editingBonusId, bonusValue, savingBonus, markingPaidId, handleEditBonus, handleCancelBonus, handleSaveBonus, handleTogglePaid])
+  ], [isClosed, statutoryRules, editingBonusId, bonusValue, savingBonus, printingPayslips, l, t, money, handleEditBonus, handleCancelBonus, handleSaveBonus, handlePrintPayslips])
 
   const table = useDataTableInstance({
     data: filteredSalaries,
     columns,
     getRowId: (row) => row.worker_id,
   })
+  const selectedSalaries = table.getSelectedRowModel().rows.map(row => row.original)
+
+  // Selection is by worker, so a month change would otherwise carry it into the new month
+  useEffect(() => {
+    table.resetRowSelection()
+  }, [selectedMonth, table])
+  const paymentsSalary = salaries.find(salary => salary.worker_id === paymentsWorkerId)
 
   if (orgLoading || !orgId) {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
@@ -781,7 +990,7 @@ export function SalaryManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading salary data...</span>
+        <span className="text-sm text-muted-foreground">{t("salary.loading")}</span>
       </div>
     )
   }
@@ -791,26 +1000,42 @@ export function SalaryManager() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Salary Management</h2>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("salary.title")}</h2>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm">
                 <Download className="h-4 w-4 sm:mr-2" />
-                <span className="hidden sm:inline">Export</span>
+                <span className="hidden sm:inline">{t("common.export")}</span>
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
               <DropdownMenuItem onClick={exportToCSV}>
                 <Download className="h-4 w-4 mr-2" />
-                Export CSV
+                {t("common.exportCsv")}
               </DropdownMenuItem>
               <DropdownMenuItem onClick={exportToJSON}>
                 <Download className="h-4 w-4 mr-2" />
-                Export JSON
+                {t("common.exportJson")}
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handlePrint}>
                 <Printer className="h-4 w-4 mr-2" />
-                Print
+                {t("common.print")}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handlePrintPayslips(filteredSalaries)} disabled={printingPayslips || filteredSalaries.length === 0}>
+                <FileText className="h-4 w-4 mr-2" />
+                {t("salary.generateAllPayslips")}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDownloadPayslips(filteredSalaries)} disabled={printingPayslips || filteredSalaries.length === 0}>
+                <FileDown className="h-4 w-4 mr-2" />
+                {t("salary.downloadPayslipsPdf")}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowBankFile(true)} disabled={!canEdit || salaries.length === 0}>
+                <Landmark className="h-4 w-4 mr-2" />
+                {t("salary.bankPaymentFile")}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowCashPlanner(true)} disabled={salaries.length === 0}>
+                <Coins className="h-4 w-4 mr-2" />
+                {t("salary.cashPlanner")}
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
@@ -820,7 +1045,7 @@ export function SalaryManager() {
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search workers..."
+              placeholder={t("salary.searchWorkers")}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10"
@@ -840,7 +1065,7 @@ export function SalaryManager() {
             <div className="flex items-center gap-2 min-w-[140px] justify-center">
               <CalendarDays className="h-4 w-4 text-muted-foreground" />
               <span className="text-sm font-medium">
-                {format(selectedMonth, 'MMMM yyyy')}
+                {l.date(selectedMonth, 'month')}
               </span>
             </div>
             <Button
@@ -856,50 +1081,68 @@ export function SalaryManager() {
         </div>
       </div>
 
+      <PayrollRunBar
+        orgId={orgId}
+        runs={payrollRuns}
+        canClose={canEdit && salaries.length > 0}
+        canReopen={isOwner}
+        closing={closingMonth}
+        onCloseMonth={handleCloseMonth}
+        onReopened={fetchSalaryData}
+      />
+
       {/* Stats Cards */}
       <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid gap-3 grid-cols-2 lg:grid-cols-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs">
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total Workers</span>
+            <span className="text-xs text-muted-foreground">{t("salary.totalWorkers")}</span>
             <Users className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{stats.totalWorkers}</div>
+          <div className="text-lg font-bold mt-1">{l.number(stats.totalWorkers)}</div>
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total Kg</span>
+            <span className="text-xs text-muted-foreground">{t("common.totalKg")}</span>
             <Leaf className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{stats.totalKg.toFixed(1)} kg</div>
+          <div className="text-lg font-bold mt-1">{l.kg(stats.totalKg)}</div>
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total Bonus</span>
+            <span className="text-xs text-muted-foreground">{t("salary.totalBonus")}</span>
             <Gift className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{formatCurrency(stats.totalBonus)}</div>
+          <div className="text-lg font-bold mt-1">{money(stats.totalBonus)}</div>
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total Paid</span>
+            <span className="text-xs text-muted-foreground">{t("salary.totalPaid")}</span>
             <CheckCircle className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{formatCurrency(stats.actuallyPaid)}</div>
+          <div className="text-lg font-bold mt-1">{money(stats.actuallyPaid)}</div>
         </Card>
       </div>
 
       {/* Salary Table */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-base">Worker Salaries</CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-base">{t("salary.workerSalaries")}</CardTitle>
+            {canEdit && selectedSalaries.length > 0 && (
+              <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setShowBulkPay(true)}>
+                <CheckCheck className="h-3.5 w-3.5 mr-1.5" />
+                {t("salary.markSelectedPaid", { count: selectedSalaries.length })}
+              </Button>
+            )}
+          </div>
           <CardDescription className="text-xs">
-            {filteredSalaries.length} {filteredSalaries.length === 1 ? 'worker' : 'workers'}
-            {searchTerm && ` matching "${searchTerm}"`}
-            {' • '}{format(selectedMonth, 'MMMM yyyy')}
-            {' • '}Hover over bonus to edit
+            {filteredSalaries.length === 1 ? t("salary.workerCountOne") : t("salary.workerCount", { count: filteredSalaries.length })}
+            {searchTerm && ` ${t("salary.matching", { term: searchTerm })}`}
+            {' • '}{l.date(selectedMonth, 'month')}
+            {' • '}{t("salary.hoverToEdit")}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -914,13 +1157,55 @@ export function SalaryManager() {
         <div className="text-center py-12">
           <Banknote className="h-12 w-12 mx-auto text-muted-foreground/30 mb-4" />
           <p className="text-muted-foreground">
-            {searchTerm ? `No workers matching "${searchTerm}"` : 'No salary data for this month'}
+            {searchTerm ? t("salary.noMatches", { term: searchTerm }) : t("salary.noData")}
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            {searchTerm ? 'Try a different search term' : 'Add daily records to see salary calculations'}
+            {searchTerm ? t("salary.tryDifferentSearch") : t("salary.addRecordsHint")}
           </p>
         </div>
       )}
+
+      {showBankFile && (
+        <BankPaymentDialog
+          orgId={orgId}
+          month={selectedMonth}
+          salaries={salaries}
+          onClose={() => setShowBankFile(false)}
+          onPaid={() => {
+            setShowBankFile(false)
+            fetchSalaryData()
+          }}
+        />
+      )}
+
+      {showCashPlanner && (
+        <CashPayrollDialog orgId={orgId} month={selectedMonth} salaries={salaries} onClose={() => setShowCashPlanner(false)} />
+      )}
+
+      {paymentsSalary && (
+        <SalaryPaymentsDialog
+          orgId={orgId}
+          month={selectedMonth}
+          salary={paymentsSalary}
+          canEdit={canEdit}
+          onClose={() => setPaymentsWorkerId(null)}
+          onChanged={fetchSalaryData}
+        />
+      )}
+
+      {showBulkPay && (
+        <BulkPaymentDialog
+          orgId={orgId}
+          month={selectedMonth}
+          salaries={selectedSalaries}
+          onClose={() => setShowBulkPay(false)}
+          onPaid={() => {
+            setShowBulkPay(false)
+            table.resetRowSelection()
+            fetchSalaryData()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,267 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import Image from "next/image"
+
+import { format } from "date-fns"
+import { formatInTimeZone } from "date-fns-tz"
+import { Loader2, PenLine, Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { SignatureDialog } from "@/app/(main)/dashboard/_components/signature-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import { PAYMENT_METHODS } from "@/lib/bank-payments"
+import { SalaryPaymentEntry, addSalaryPayments, deleteSalaryPayment } from "@/lib/salary-payments"
+import { signatureUrls } from "@/lib/signatures"
+import type { PaymentMethod } from "@/types/database"
+
+import type { WorkerSalary } from "./salary-manager"
+
+interface SalaryPaymentsDialogProps {
+  orgId: string
+  month: Date
+  salary: WorkerSalary
+  canEdit: boolean
+  onClose: () => void
+  onChanged: () => void
+}
+
+interface SalaryPaymentRowProps {
+  payment: SalaryPaymentEntry
+  signatureUrl: string | undefined
+  canEdit: boolean
+  onSign: () => void
+  onDelete: () => void
+}
+
+const today = () => formatInTimeZone(new Date(), 'Asia/Colombo', 'yyyy-MM-dd')
+
+const emptyForm = (balance: number) => ({
+  amount: balance > 0 ? balance.toFixed(2) : '',
+  payment_method: 'cash' as PaymentMethod,
+  paid_on: today(),
+  reference: '',
+})
+
+// Cash is signed for on screen; bank transfers carry their own proof
+function PaymentSignature({ payment, signatureUrl, canEdit, onSign }: Omit<SalaryPaymentRowProps, 'onDelete'>) {
+  const { t } = useTranslation()
+  if (signatureUrl) {
+    // Signed URLs expire, so they bypass the image optimizer
+    return <Image src={signatureUrl} alt={t("payments.signatureAlt")} width={80} height={32} unoptimized className="h-8 w-20 rounded border bg-white object-contain" />
+  }
+  if (payment.payment_method !== 'cash' || !canEdit) return null
+  return (
+    <Button variant="outline" size="sm" className="h-7" onClick={onSign}>
+      <PenLine className="h-3.5 w-3.5 mr-1.5" />
+      {t("payments.sign")}
+    </Button>
+  )
+}
+
+// Paid-at is a timestamp; the day it falls on in Sri Lanka is the payment date
+const paidOn = (payment: SalaryPaymentEntry) => formatInTimeZone(payment.paid_at, 'Asia/Colombo', 'yyyy-MM-dd')
+
+function SalaryPaymentRow({ payment, signatureUrl, canEdit, onSign, onDelete }: SalaryPaymentRowProps) {
+  const { t, money, date } = useTranslation()
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 bg-muted/50 rounded-md text-sm">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{payment.amount === null ? t("payments.fullSalary") : money(payment.amount)}</span>
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0">{t(`payslip.method.${payment.payment_method}`)}</Badge>
+        </div>
+        <p className="text-xs text-muted-foreground truncate">
+          {date(paidOn(payment))}
+          {payment.reference && ` · ${t("payments.ref", { reference: payment.reference })}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-1">
+        <PaymentSignature payment={payment} signatureUrl={signatureUrl} canEdit={canEdit} onSign={onSign} />
+        {canEdit && (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive" onClick={onDelete}>
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Every payment made of a worker's salary this month, and a form to record the next one
+export function SalaryPaymentsDialog({ orgId, month, salary, canEdit, onClose, onChanged }: SalaryPaymentsDialogProps) {
+  const { t, money, date } = useTranslation()
+  const [form, setForm] = useState(() => emptyForm(salary.balance))
+  const [signatures, setSignatures] = useState<Map<string, string>>(new Map())
+  const [signingId, setSigningId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // Refreshed payments come back through the salary, so the URLs and the suggested amount follow it
+  useEffect(() => {
+    signatureUrls(salary.payments.map(p => p.signature_path))
+      .then(setSignatures)
+      .catch(error => console.error('Error fetching signatures:', error?.message ?? error))
+  }, [salary.payments])
+
+  useEffect(() => {
+    setForm(prev => ({ ...prev, amount: salary.balance > 0 ? salary.balance.toFixed(2) : '' }))
+  }, [salary.balance])
+
+  async function handleAdd() {
+    const amount = parseFloat(form.amount)
+    if (!amount || amount <= 0) {
+      toast.error(t("payments.enterAmount"))
+      return
+    }
+    if (amount > salary.balance + 0.005 && !confirm(t("payments.overBalance", { amount: money(amount), balance: money(salary.balance) }))) return
+
+    setSaving(true)
+    try {
+      const [paymentId] = await addSalaryPayments(orgId, format(month, 'yyyy-MM-dd'), [{
+        worker_id: salary.worker_id,
+        amount,
+        payment_method: form.payment_method,
+        reference: form.reference.trim() || null,
+        paid_on: form.paid_on,
+      }])
+      toast.success(t("payments.recorded"))
+      setForm(prev => ({ ...prev, reference: '' }))
+      onChanged()
+      // The worker signs for cash as it is handed over
+      if (form.payment_method === 'cash') setSigningId(paymentId)
+    } catch (error: any) {
+      console.error('Error recording salary payment:', error)
+      toast.error(error.message ?? t("payments.recordFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(payment: SalaryPaymentEntry) {
+    const label = payment.amount === null ? t("payments.fullSalary") : money(payment.amount)
+    if (!confirm(t("payments.confirmDelete", { label, date: date(paidOn(payment)) }))) return
+
+    try {
+      await deleteSalaryPayment(payment.id)
+      toast.success(t("payments.deleted"))
+      onChanged()
+    } catch (error: any) {
+      console.error('Error deleting salary payment:', error)
+      toast.error(error.message ?? t("payments.deleteFailed"))
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("payments.title", { name: salary.worker_name })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("payments.summary", { month: date(month, 'month'), net: money(salary.net_salary), paid: money(salary.paid_to_date) })}{' '}
+            {t("payments.balance")} <span className="font-semibold">{money(salary.balance)}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-auto space-y-4">
+          {salary.payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">{t("payments.none")}</p>
+          ) : (
+            <div className="space-y-1.5">
+              {salary.payments.map(payment => (
+                <SalaryPaymentRow
+                  key={payment.id}
+                  payment={payment}
+                  signatureUrl={payment.signature_path ? signatures.get(payment.signature_path) : undefined}
+                  canEdit={canEdit}
+                  onSign={() => setSigningId(payment.id)}
+                  onDelete={() => handleDelete(payment)}
+                />
+              ))}
+            </div>
+          )}
+
+          {canEdit && (
+            <div className="grid grid-cols-2 gap-3 border-t pt-4">
+              <div className="space-y-1.5">
+                <Label htmlFor="salary_payment_amount" className="text-xs">{t("common.amount")}</Label>
+                <Input
+                  id="salary_payment_amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="salary_payment_date" className="text-xs">{t("common.date")}</Label>
+                <Input
+                  id="salary_payment_date"
+                  type="date"
+                  value={form.paid_on}
+                  onChange={(e) => setForm({ ...form, paid_on: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="salary_payment_method" className="text-xs">{t("common.method")}</Label>
+                <Select value={form.payment_method} onValueChange={(value) => setForm({ ...form, payment_method: value as PaymentMethod })}>
+                  <SelectTrigger id="salary_payment_method" className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(value => (
+                      <SelectItem key={value} value={value}>{t(`payslip.method.${value}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="salary_payment_reference" className="text-xs">{t("common.reference")}</Label>
+                <Input
+                  id="salary_payment_reference"
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                  maxLength={100}
+                  placeholder={t("common.optional")}
+                  className="h-8"
+                />
+              </div>
+              <Button size="sm" className="col-span-2" onClick={handleAdd} disabled={saving || !form.paid_on}>
+                {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Plus className="h-3.5 w-3.5 mr-1.5" />}
+                {t("payments.record")}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {signingId && (
+        <SignatureDialog
+          orgId={orgId}
+          table="salary_payments"
+          recordId={signingId}
+          title={t("payments.receiptTitle", { name: salary.worker_name })}
+          description={t("payments.receiptDescription", { month: date(month, 'month') })}
+          onClose={() => setSigningId(null)}
+          onSaved={() => {
+            setSigningId(null)
+            onChanged()
+          }}
+        />
+      )}
+    </div>
+  )
+}
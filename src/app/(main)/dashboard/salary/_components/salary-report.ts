@@ -0,0 +1,125 @@
+// Printable salary report for the selected month
+
+import type { Localizer } from "@/lib/i18n"
+import { StatutoryRules } from "@/lib/statutory"
+
+import type { WorkerSalary } from "./salary-manager"
+
+export interface SalaryReportTotals {
+  totalWorkers: number
+  totalKg: number
+  totalBonus: number
+  totalEpf: number
+  totalEtf: number
+  totalPaid: number
+}
+
+function renderRow(salary: WorkerSalary, l: Localizer) {
+  const { money } = l
+  const extraWork = salary.extra_work > 0
+    ? `<div class="extra-work-detail">${Object.entries(salary.extra_work_by_type).map(([name, amount]) => `${name}: ${money(amount)}`).join(', ')}</div>`
+    : ''
+
+  return `
+    <tr>
+      <td>${salary.employee_id}</td>
+      <td>${salary.worker_name}</td>
+      <td class="number">${l.number(salary.days_worked)}</td>
+      <td class="number">${l.kg(salary.total_kg)}</td>
+      <td class="number">${l.kg(salary.avg_kg_per_day)}</td>
+      <td class="number">${money(salary.total_earned)}${extraWork}</td>
+      <td class="number positive">${money(salary.bonus)}</td>
+      <td class="number positive">${money(salary.attendance_allowance)}</td>
+      <td class="number negative">${money(salary.total_advance)}</td>
+      <td class="number negative">${money(salary.epf_employee)}</td>
+      <td class="number">${money(salary.epf_employer)}</td>
+      <td class="number">${money(salary.etf)}</td>
+      <td class="number" style="font-weight: bold;">${money(salary.net_salary)}</td>
+    </tr>
+  `
+}
+
+function summaryItem(label: string, value: string) {
+  return `
+    <div class="summary-item">
+      <div class="summary-label">${label}</div>
+      <div class="summary-value">${value}</div>
+    </div>
+  `
+}
+
+export function renderSalaryReport(
+  salaries: WorkerSalary[],
+  totals: SalaryReportTotals,
+  month: Date,
+  rules: StatutoryRules,
+  l: Localizer
+) {
+  const { t, money } = l
+  const monthLabel = l.date(month, 'month')
+
+  return `
+    <html lang="${l.language}">
+      <head>
+        <meta charset="utf-8" />
+        <title>${t('salary.reportTitle')} - ${monthLabel}</title>
+        <style>
+          body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; padding: 20px; }
+          h1 { font-size: 18px; margin-bottom: 5px; }
+          .subtitle { color: #666; font-size: 12px; margin-bottom: 20px; }
+          table { width: 100%; border-collapse: collapse; font-size: 11px; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background: #f5f5f5; }
+          .number { text-align: right; }
+          .positive { color: #16a34a; }
+          .negative { color: #dc2626; }
+          .summary { margin-top: 20px; font-size: 13px; }
+          .summary-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 10px; margin-top: 10px; }
+          .summary-item { background: #f9f9f9; padding: 10px; border-radius: 4px; }
+          .summary-label { font-size: 10px; color: #666; }
+          .summary-value { font-size: 16px; font-weight: bold; }
+          .extra-work-detail { font-size: 9px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <h1>${t('salary.reportTitle')}</h1>
+        <div class="subtitle">${t('salary.reportSubtitle', { month: monthLabel, count: totals.totalWorkers })}</div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>${t('common.id')}</th>
+              <th>${t('common.worker')}</th>
+              <th class="number">${t('common.days')}</th>
+              <th class="number">${t('common.totalKg')}</th>
+              <th class="number">${t('salary.avgPerDay')}</th>
+              <th class="number">${t('common.total')}</th>
+              <th class="number">${t('common.bonus')}</th>
+              <th class="number">${t('salary.attendanceAllowance')}</th>
+              <th class="number">${t('common.advances')}</th>
+              <th class="number">${t('salary.epfRate', { rate: rules.epf_employee_rate })}</th>
+              <th class="number">${t('salary.employerEpfRate', { rate: rules.epf_employer_rate })}</th>
+              <th class="number">${t('salary.etfRate', { rate: rules.etf_rate })}</th>
+              <th class="number">${t('common.netSalary')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${salaries.map(salary => renderRow(salary, l)).join('')}
+          </tbody>
+        </table>
+
+        <div class="summary">
+          <strong>${t('salary.summary')}</strong>
+          <div class="summary-grid">
+            ${summaryItem(t('salary.totalWorkers'), l.number(totals.totalWorkers))}
+            ${summaryItem(t('common.totalKg'), l.kg(totals.totalKg))}
+            ${summaryItem(t('salary.totalBonus'), money(totals.totalBonus))}
+            ${summaryItem(t('salary.totalEpf'), money(totals.totalEpf))}
+            ${summaryItem(t('salary.totalEtf'), money(totals.totalEtf))}
+            ${summaryItem(t('salary.totalPaid'), money(totals.totalPaid))}
+          </div>
+        </div>
+      </body>
+    </html>
+  `
+}
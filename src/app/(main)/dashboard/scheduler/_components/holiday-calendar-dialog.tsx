@@ -0,0 +1,248 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { ChevronLeft, ChevronRight, Download, Edit, Loader2, Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  CalendarHoliday,
+  HOLIDAY_TYPES,
+  SRI_LANKAN_HOLIDAY_YEARS,
+  deleteHoliday,
+  fetchHolidays,
+  loadSriLankanHolidays,
+  saveHoliday
+} from "@/lib/holidays"
+import type { HolidayType } from "@/types/payroll"
+
+interface HolidayCalendarDialogProps {
+  orgId: string
+  initialYear: number
+  canEdit: boolean
+  onClose: () => void
+  onChanged: () => void
+}
+
+type HolidayForm = Omit<CalendarHoliday, 'id'>
+
+const emptyForm = (year: number): HolidayForm => ({ date: `${year}-01-01`, name: '', holiday_type: 'estate' })
+
+interface HolidayFormRowProps {
+  form: HolidayForm
+  editing: boolean
+  saving: boolean
+  onChange: (form: HolidayForm) => void
+  onSave: () => void
+}
+
+function HolidayFormRow({ form, editing, saving, onChange, onSave }: HolidayFormRowProps) {
+  const { t } = useTranslation()
+  return (
+    <div className="grid gap-2 grid-cols-2 sm:grid-cols-[auto_1fr_auto_auto] items-center">
+      <Input
+        type="date"
+        value={form.date}
+        onChange={(e) => onChange({ ...form, date: e.target.value })}
+        className="h-8"
+      />
+      <Input
+        placeholder={t("holidays.name")}
+        value={form.name}
+        onChange={(e) => onChange({ ...form, name: e.target.value })}
+        className="h-8"
+      />
+      <Select value={form.holiday_type} onValueChange={(value) => onChange({ ...form, holiday_type: value as HolidayType })}>
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {HOLIDAY_TYPES.map(type => (
+            <SelectItem key={type} value={type}>{t(`holidays.type.${type}`)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" className="h-8" onClick={onSave} disabled={saving}>
+        {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Plus className="h-3.5 w-3.5 mr-1.5" />}
+        {editing ? t("scheduler.update") : t("scheduler.add")}
+      </Button>
+    </div>
+  )
+}
+
+export function HolidayCalendarDialog({ orgId, initialYear, canEdit, onClose, onChanged }: HolidayCalendarDialogProps) {
+  const { t, date } = useTranslation()
+  const [year, setYear] = useState(initialYear)
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState<HolidayForm>(emptyForm(initialYear))
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadYear()
+  }, [orgId, year])
+
+  async function loadYear() {
+    setLoading(true)
+    try {
+      setHolidays(await fetchHolidays(orgId, `${year}-01-01`, `${year}-12-31`))
+    } catch (error: any) {
+      console.error('Error fetching holidays:', error?.message ?? error)
+      toast.error(t("holidays.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function afterChange() {
+    await loadYear()
+    onChanged()
+  }
+
+  async function handleLoadSriLankan() {
+    setSaving(true)
+    try {
+      const added = await loadSriLankanHolidays(orgId, year)
+      toast.success(added > 0 ? t("holidays.added", { count: added, year }) : t("holidays.alreadyLoaded", { year }))
+      await afterChange()
+    } catch (error: any) {
+      console.error('Error loading Sri Lankan holidays:', error)
+      toast.error(error.message ?? t("holidays.loadFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSave() {
+    if (!form.date || !form.name.trim()) {
+      toast.error(t("holidays.required"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await saveHoliday(orgId, { ...form, name: form.name.trim() }, editingId ?? undefined)
+      toast.success(editingId ? t("holidays.updated") : t("holidays.addedOne"))
+      setEditingId(null)
+      setForm(emptyForm(year))
+      await afterChange()
+    } catch (error: any) {
+      console.error('Error saving holiday:', error)
+      toast.error(error.code === '23505' ? t("holidays.duplicate") : error.message ?? t("holidays.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(holiday: CalendarHoliday) {
+    if (!confirm(t("scheduler.confirmDelete", { name: holiday.name }))) return
+
+    try {
+      await deleteHoliday(holiday.id)
+      toast.success(t("holidays.deleted"))
+      await afterChange()
+    } catch (error: any) {
+      console.error('Error deleting holiday:', error)
+      toast.error(error.message ?? t("holidays.deleteFailed"))
+    }
+  }
+
+  const startEdit = (holiday: CalendarHoliday) => {
+    setEditingId(holiday.id)
+    setForm({ date: holiday.date, name: holiday.name, holiday_type: holiday.holiday_type })
+  }
+
+  const changeYear = (next: number) => {
+    setYear(next)
+    setEditingId(null)
+    setForm(emptyForm(next))
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => changeYear(year - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <CardTitle className="text-base">{t("holidays.title", { year })}</CardTitle>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => changeYear(year + 1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("holidays.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden flex flex-col gap-3">
+          {canEdit && (
+            <HolidayFormRow form={form} editing={editingId !== null} saving={saving} onChange={setForm} onSave={handleSave} />
+          )}
+
+          <div className="flex-1 overflow-auto rounded-md border">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : holidays.length === 0 ? (
+              <div className="text-center py-8 space-y-2">
+                <p className="text-sm text-muted-foreground">{t("holidays.none", { year })}</p>
+                {canEdit && SRI_LANKAN_HOLIDAY_YEARS.includes(year) && (
+                  <Button variant="outline" size="sm" onClick={handleLoadSriLankan} disabled={saving}>
+                    <Download className="h-3.5 w-3.5 mr-1.5" />
+                    {t("holidays.loadSriLankan")}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {holidays.map(holiday => (
+                    <tr key={holiday.id} className={`border-b last:border-0 ${editingId === holiday.id ? 'bg-muted/50' : ''}`}>
+                      <td className="px-3 py-1.5 whitespace-nowrap">{date(holiday.date, 'weekday')}</td>
+                      <td className="px-3 py-1.5">{holiday.name}</td>
+                      <td className="px-3 py-1.5">
+                        <Badge variant="secondary" className="text-xs">{t(`holidays.type.${holiday.holiday_type}`)}</Badge>
+                      </td>
+                      <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                        {canEdit && (
+                          <>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => startEdit(holiday)}>
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-destructive" onClick={() => handleDelete(holiday)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {canEdit && holidays.length > 0 && SRI_LANKAN_HOLIDAY_YEARS.includes(year) && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs self-start" onClick={handleLoadSriLankan} disabled={saving}>
+              {t("holidays.addMissing", { year })}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
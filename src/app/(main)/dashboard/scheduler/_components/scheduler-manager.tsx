@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect, useMemo } from "react"
-import { Plus, Search, Calendar, Clock, Trash2, Edit, Check, X, Loader2, ChevronLeft, ChevronRight } from "lucide-react"
+import { Plus, Search, Calendar, Clock, Trash2, Edit, Check, X, Loader2, ChevronLeft, ChevronRight, Flag } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -9,10 +9,14 @@ import { Badge } from "@/components/ui/badge"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { CalendarHoliday, fetchHolidays } from "@/lib/holidays"
 import { supabase } from "@/lib/supabase"
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths, isToday } from "date-fns"
 import { toast } from "sonner"
-import { useOrganization } from "@/contexts/organization-context"
+
+import { HolidayCalendarDialog } from "./holiday-calendar-dialog"
 
 interface ScheduleEvent {
   id: string
@@ -25,16 +29,20 @@ interface ScheduleEvent {
   created_at: string
 }
 
-const EVENT_TYPES = [
-  { value: 'task', label: 'Task', color: 'bg-blue-500' },
-  { value: 'reminder', label: 'Reminder', color: 'bg-yellow-500' },
-  { value: 'meeting', label: 'Meeting', color: 'bg-purple-500' },
-  { value: 'harvest', label: 'Harvest', color: 'bg-green-500' },
-  { value: 'maintenance', label: 'Maintenance', color: 'bg-orange-500' },
+const EVENT_TYPES: { value: ScheduleEvent['event_type']; color: string }[] = [
+  { value: 'task', color: 'bg-blue-500' },
+  { value: 'reminder', color: 'bg-yellow-500' },
+  { value: 'meeting', color: 'bg-purple-500' },
+  { value: 'harvest', color: 'bg-green-500' },
+  { value: 'maintenance', color: 'bg-orange-500' },
 ]
 
+// 1 January 2023 was a Sunday, so this week gives the weekday names in calendar order
+const WEEK = Array.from({ length: 7 }, (_, index) => new Date(2023, 0, 1 + index))
+
 export function SchedulerManager() {
-  const { currentOrganization, loading: orgLoading } = useOrganization()
+  const { currentOrganization, loading: orgLoading, canEdit } = useOrganization()
+  const { t, date: formatDate } = useTranslation()
   const orgId = currentOrganization?.organization_id
   
   const [events, setEvents] = useState<ScheduleEvent[]>([])
@@ -45,6 +53,8 @@ export function SchedulerManager() {
   const [showEventDialog, setShowEventDialog] = useState(false)
   const [editingEvent, setEditingEvent] = useState<ScheduleEvent | null>(null)
   const [saving, setSaving] = useState(false)
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([])
+  const [showHolidays, setShowHolidays] = useState(false)
 
   // Form state
   const [formTitle, setFormTitle] = useState("")
@@ -56,9 +66,22 @@ export function SchedulerManager() {
   useEffect(() => {
     if (orgId) {
       fetchEvents()
+      fetchMonthHolidays()
     }
   }, [currentMonth, orgId])
 
+  // Holidays are shown alongside events; the calendar itself is edited in the holidays dialog
+  async function fetchMonthHolidays() {
+    if (!orgId) return
+    try {
+      setHolidays(await fetchHolidays(orgId, format(startOfMonth(currentMonth), 'yyyy-MM-dd'), format(endOfMonth(currentMonth), 'yyyy-MM-dd')))
+    } catch (error: any) {
+      // Table may not exist yet
+      console.error('Error fetching holidays:', error?.message ?? error)
+      setHolidays([])
+    }
+  }
+
   async function fetchEvents() {
     if (!orgId) return
     setLoading(true)
@@ -107,7 +130,7 @@ export function SchedulerManager() {
       setEvents(data || [])
     } catch (error) {
       console.error('Error fetching events:', error)
-      toast.error("Failed to load events")
+      toast.error(t("scheduler.loadFailed"))
     } finally {
       setLoading(false)
     }
@@ -138,7 +161,7 @@ export function SchedulerManager() {
 
   const handleSaveEvent = async () => {
     if (!formTitle.trim() || !formDate) {
-      toast.error("Please fill in required fields")
+      toast.error(t("scheduler.required"))
       return
     }
 
@@ -160,14 +183,14 @@ export function SchedulerManager() {
           .eq('id', editingEvent.id)
 
         if (error) throw error
-        toast.success("Event updated")
+        toast.success(t("scheduler.updated"))
       } else {
         const { error } = await supabase
           .from('schedule_events')
           .insert([{ ...eventData, organization_id: orgId }])
 
         if (error) throw error
-        toast.success("Event created")
+        toast.success(t("scheduler.created"))
       }
 
       setShowEventDialog(false)
@@ -175,9 +198,9 @@ export function SchedulerManager() {
     } catch (error: any) {
       console.error('Error saving event:', error)
       if (error.message?.includes('schedule_events')) {
-        toast.error("Events table not found. Please run the SQL setup.")
+        toast.error(t("common.runSqlSetup", { table: "schedule_events" }))
       } else {
-        toast.error(error.message || "Failed to save event")
+        toast.error(error.message || t("scheduler.saveFailed"))
       }
     } finally {
       setSaving(false)
@@ -185,7 +208,7 @@ export function SchedulerManager() {
   }
 
   const handleDeleteEvent = async (event: ScheduleEvent) => {
-    if (!confirm(`Delete "${event.title}"?`)) return
+    if (!confirm(t("scheduler.confirmDelete", { name: event.title }))) return
 
     try {
       const { error } = await supabase
@@ -194,11 +217,11 @@ export function SchedulerManager() {
         .eq('id', event.id)
 
       if (error) throw error
-      toast.success("Event deleted")
+      toast.success(t("scheduler.deleted"))
       fetchEvents()
     } catch (error: any) {
       console.error('Error deleting event:', error)
-      toast.error(error.message || "Failed to delete event")
+      toast.error(error.message || t("scheduler.deleteFailed"))
     }
   }
 
@@ -215,7 +238,7 @@ export function SchedulerManager() {
       fetchEvents()
     } catch (error: any) {
       console.error('Error updating status:', error)
-      toast.error("Failed to update status")
+      toast.error(t("scheduler.statusFailed"))
     }
   }
 
@@ -245,6 +268,14 @@ export function SchedulerManager() {
     return map
   }, [events])
 
+  const holidaysByDate = useMemo(() => {
+    const map = new Map<string, CalendarHoliday[]>()
+    holidays.forEach(holiday => map.set(holiday.date, [...(map.get(holiday.date) ?? []), holiday]))
+    return map
+  }, [holidays])
+
+  const selectedDateHolidays = selectedDate ? holidaysByDate.get(format(selectedDate, 'yyyy-MM-dd')) ?? [] : holidays
+
   // Filtered events for selected date
   const selectedDateEvents = useMemo(() => {
     if (!selectedDate) return events
@@ -256,7 +287,7 @@ export function SchedulerManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
@@ -265,7 +296,7 @@ export function SchedulerManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading scheduler...</span>
+        <span className="text-sm text-muted-foreground">{t("scheduler.loading")}</span>
       </div>
     )
   }
@@ -275,12 +306,18 @@ export function SchedulerManager() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Scheduler</h2>
-          <Button onClick={() => handleAddEvent()} size="sm">
-            <Plus className="h-4 w-4 mr-2" />
-            <span className="hidden sm:inline">Add Event</span>
-            <span className="sm:hidden">Add</span>
-          </Button>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("scheduler.title")}</h2>
+          <div className="flex gap-2">
+            <Button onClick={() => setShowHolidays(true)} size="sm" variant="outline">
+              <Flag className="h-4 w-4 mr-2" />
+              {t("scheduler.holidays")}
+            </Button>
+            <Button onClick={() => handleAddEvent()} size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              <span className="hidden sm:inline">{t("scheduler.addEvent")}</span>
+              <span className="sm:hidden">{t("scheduler.add")}</span>
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -289,7 +326,7 @@ export function SchedulerManager() {
         <Card className="lg:col-span-2">
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
-              <CardTitle className="text-base">{format(currentMonth, 'MMMM yyyy')}</CardTitle>
+              <CardTitle className="text-base">{formatDate(currentMonth, 'month')}</CardTitle>
               <div className="flex items-center gap-1">
                 <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handlePreviousMonth}>
                   <ChevronLeft className="h-4 w-4" />
@@ -303,14 +340,14 @@ export function SchedulerManager() {
           <CardContent>
             {/* Day headers */}
             <div className="grid grid-cols-7 border-b border-border">
-              {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day, index) => (
-                <div 
-                  key={day} 
+              {WEEK.map((day, index) => (
+                <div
+                  key={index}
                   className={`text-center text-xs font-medium text-muted-foreground py-2 ${
                     index < 6 ? 'border-r border-border' : ''
                   }`}
                 >
-                  {day}
+                  {formatDate(day, 'weekdayName')}
                 </div>
               ))}
             </div>
@@ -331,6 +368,7 @@ export function SchedulerManager() {
                 
                 const dateKey = format(day, 'yyyy-MM-dd')
                 const dayEvents = eventsByDate.get(dateKey) || []
+                const dayHolidays = holidaysByDate.get(dateKey) ?? []
                 const isSelected = selectedDate && isSameDay(day, selectedDate)
                 const isCurrentMonth = isSameMonth(day, currentMonth)
                 
@@ -345,22 +383,27 @@ export function SchedulerManager() {
                       ${isToday(day) && !isSelected ? 'bg-primary/10' : ''}
                     `}
                   >
-                    <span className={`text-[10px] sm:text-xs mb-0.5 sm:mb-1 ${isToday(day) ? 'font-bold' : ''}`}>
+                    <span className={`text-[10px] sm:text-xs mb-0.5 sm:mb-1 ${isToday(day) ? 'font-bold' : ''} ${dayHolidays.length > 0 && !isSelected ? 'text-red-600' : ''}`}>
                       {format(day, 'd')}
                     </span>
                     <div className="flex-1 overflow-hidden space-y-0.5 hidden sm:block">
+                      {dayHolidays.map(holiday => (
+                        <span key={holiday.id} className={`block text-[10px] truncate leading-tight ${isSelected ? '' : 'text-red-600'}`}>
+                          {holiday.name}
+                        </span>
+                      ))}
                       {dayEvents.slice(0, 2).map((event, i) => (
                         <div key={i} className="flex items-center gap-1 min-w-0">
                           <div
                             className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${
-                              EVENT_TYPES.find(t => t.value === event.event_type)?.color || 'bg-gray-500'
+                              EVENT_TYPES.find(type => type.value === event.event_type)?.color || 'bg-gray-500'
                             }`}
                           />
                           <span className="text-[10px] truncate leading-tight">{event.title}</span>
                         </div>
                       ))}
                       {dayEvents.length > 2 && (
-                        <span className="text-[10px] text-muted-foreground">+{dayEvents.length - 2} more</span>
+                        <span className="text-[10px] text-muted-foreground">{t("scheduler.more", { count: dayEvents.length - 2 })}</span>
                       )}
                     </div>
                     {/* Mobile: just show dots */}
@@ -370,7 +413,7 @@ export function SchedulerManager() {
                           <div
                             key={i}
                             className={`w-1.5 h-1.5 rounded-full ${
-                              EVENT_TYPES.find(t => t.value === event.event_type)?.color || 'bg-gray-500'
+                              EVENT_TYPES.find(type => type.value === event.event_type)?.color || 'bg-gray-500'
                             }`}
                           />
                         ))}
@@ -392,10 +435,10 @@ export function SchedulerManager() {
             <div className="flex items-center justify-between">
               <div>
                 <CardTitle className="text-base">
-                  {selectedDate ? format(selectedDate, 'MMM d, yyyy') : 'All Events'}
+                  {selectedDate ? formatDate(selectedDate) : t("scheduler.allEvents")}
                 </CardTitle>
                 <CardDescription className="text-xs">
-                  {selectedDateEvents.length} {selectedDateEvents.length === 1 ? 'event' : 'events'}
+                  {selectedDateEvents.length === 1 ? t("scheduler.eventCountOne") : t("scheduler.eventCount", { count: selectedDateEvents.length })}
                   {selectedDate && (
                     <Button
                       variant="link"
@@ -403,7 +446,7 @@ export function SchedulerManager() {
                       className="h-auto p-0 ml-2 text-xs"
                       onClick={() => setSelectedDate(null)}
                     >
-                      Show all
+                      {t("scheduler.showAll")}
                     </Button>
                   )}
                 </CardDescription>
@@ -411,16 +454,27 @@ export function SchedulerManager() {
               {selectedDate && (
                 <Button size="sm" variant="outline" className="h-7" onClick={() => handleAddEvent(selectedDate)}>
                   <Plus className="h-3 w-3 mr-1" />
-                  Add
+                  {t("scheduler.add")}
                 </Button>
               )}
             </div>
           </CardHeader>
           <CardContent className="space-y-2 max-h-[400px] overflow-y-auto">
+            {selectedDateHolidays.map(holiday => (
+              <div key={holiday.id} className="p-3 rounded-lg border border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/30">
+                <div className="flex items-center gap-2">
+                  <Flag className="h-3 w-3 shrink-0 text-red-600" />
+                  <span className="font-medium text-sm truncate">{holiday.name}</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 ml-5">
+                  {selectedDate ? '' : `${formatDate(holiday.date, 'day')} · `}{t(`holidays.type.${holiday.holiday_type}`)}
+                </p>
+              </div>
+            ))}
             {selectedDateEvents.length === 0 ? (
               <div className="text-center py-8">
                 <Calendar className="h-8 w-8 mx-auto text-muted-foreground/30 mb-2" />
-                <p className="text-sm text-muted-foreground">No events</p>
+                <p className="text-sm text-muted-foreground">{t("scheduler.noEvents")}</p>
                 {selectedDate && (
                   <Button
                     variant="outline"
@@ -429,7 +483,7 @@ export function SchedulerManager() {
                     onClick={() => handleAddEvent(selectedDate)}
                   >
                     <Plus className="h-3 w-3 mr-1" />
-                    Add Event
+                    {t("scheduler.addEvent")}
                   </Button>
                 )}
               </div>
@@ -446,7 +500,7 @@ export function SchedulerManager() {
                       <div className="flex items-center gap-2">
                         <div
                           className={`w-2 h-2 rounded-full shrink-0 ${
-                            EVENT_TYPES.find(t => t.value === event.event_type)?.color || 'bg-gray-500'
+                            EVENT_TYPES.find(type => type.value === event.event_type)?.color || 'bg-gray-500'
                           }`}
                         />
                         <span className={`font-medium text-sm truncate ${
@@ -500,13 +554,23 @@ export function SchedulerManager() {
         </Card>
       </div>
 
+      {showHolidays && (
+        <HolidayCalendarDialog
+          orgId={orgId}
+          initialYear={currentMonth.getFullYear()}
+          canEdit={canEdit}
+          onClose={() => setShowHolidays(false)}
+          onChanged={fetchMonthHolidays}
+        />
+      )}
+
       {/* Event Modal */}
       {showEventDialog && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
           <Card className="w-full max-w-md">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">{editingEvent ? 'Edit Event' : 'Add Event'}</CardTitle>
+                <CardTitle className="text-base">{editingEvent ? t("scheduler.editEvent") : t("scheduler.addEvent")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setShowEventDialog(false)}>
                   <X className="h-4 w-4" />
                 </Button>
@@ -515,10 +579,10 @@ export function SchedulerManager() {
             <CardContent>
               <form onSubmit={(e) => { e.preventDefault(); handleSaveEvent(); }} className="space-y-3">
                 <div className="space-y-1.5">
-                  <Label htmlFor="title" className="text-xs">Title *</Label>
+                  <Label htmlFor="title" className="text-xs">{t("scheduler.eventTitle")}</Label>
                   <Input
                     id="title"
-                    placeholder="Event title"
+                    placeholder={t("scheduler.eventTitlePlaceholder")}
                     value={formTitle}
                     onChange={(e) => setFormTitle(e.target.value)}
                     className="h-8"
@@ -527,7 +591,7 @@ export function SchedulerManager() {
                 </div>
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
-                    <Label htmlFor="date" className="text-xs">Date *</Label>
+                    <Label htmlFor="date" className="text-xs">{t("scheduler.date")}</Label>
                     <Input
                       id="date"
                       type="date"
@@ -538,7 +602,7 @@ export function SchedulerManager() {
                     />
                   </div>
                   <div className="space-y-1.5">
-                    <Label htmlFor="time" className="text-xs">Time</Label>
+                    <Label htmlFor="time" className="text-xs">{t("scheduler.time")}</Label>
                     <Input
                       id="time"
                       type="time"
@@ -549,7 +613,7 @@ export function SchedulerManager() {
                   </div>
                 </div>
                 <div className="space-y-1.5">
-                  <Label htmlFor="type" className="text-xs">Type</Label>
+                  <Label htmlFor="type" className="text-xs">{t("scheduler.type")}</Label>
                   <Select value={formType} onValueChange={setFormType}>
                     <SelectTrigger className="h-8">
                       <SelectValue />
@@ -559,7 +623,7 @@ export function SchedulerManager() {
                         <SelectItem key={type.value} value={type.value}>
                           <div className="flex items-center gap-2">
                             <div className={`w-2 h-2 rounded-full ${type.color}`} />
-                            {type.label}
+                            {t(`scheduler.type.${type.value}`)}
                           </div>
                         </SelectItem>
                       ))}
@@ -567,10 +631,10 @@ export function SchedulerManager() {
                   </Select>
                 </div>
                 <div className="space-y-1.5">
-                  <Label htmlFor="description" className="text-xs">Description</Label>
+                  <Label htmlFor="description" className="text-xs">{t("scheduler.description")}</Label>
                   <Textarea
                     id="description"
-                    placeholder="Optional description"
+                    placeholder={t("scheduler.descriptionPlaceholder")}
                     value={formDescription}
                     onChange={(e) => setFormDescription(e.target.value)}
                     rows={2}
@@ -579,11 +643,11 @@ export function SchedulerManager() {
                 </div>
                 <div className="flex gap-2 justify-end pt-2">
                   <Button type="button" variant="outline" size="sm" onClick={() => setShowEventDialog(false)}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={saving}>
                     {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
-                    {editingEvent ? 'Update' : 'Create'}
+                    {editingEvent ? t("scheduler.update") : t("scheduler.create")}
                   </Button>
                 </div>
               </form>
@@ -0,0 +1,115 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useTranslation } from "@/hooks/use-translation"
+import { DEDUCTION_METHODS, DEDUCTION_UNITS, deductionAmount, totalDeductions, type DeductionLine } from "@/lib/tea-sale-deductions"
+import type { DeductionMethod } from "@/types/factories"
+
+interface DeductionLinesEditorProps {
+  lines: DeductionLine[]
+  onChange: (lines: DeductionLine[]) => void
+  kg: number
+  rate: number
+}
+
+export function DeductionLinesEditor({ lines, onChange, kg, rate }: DeductionLinesEditorProps) {
+  const { t, money } = useTranslation()
+  const gross = kg * rate
+  const deductions = totalDeductions(lines, kg, rate)
+
+  const updateLine = (index: number, changes: Partial<DeductionLine>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  const addLine = () => {
+    onChange([...lines, { deduction_type_id: null, name: '', method: 'fixed', value: 0 }])
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">{t("teaSales.deductions")}</Label>
+        <Button type="button" variant="ghost" size="sm" className="h-6 text-xs px-2" onClick={addLine}>
+          <Plus className="h-3 w-3 mr-1" />
+          {t("deductions.add")}
+        </Button>
+      </div>
+
+      {lines.length === 0 && (
+        <p className="text-xs text-muted-foreground">{t("deductions.none")}</p>
+      )}
+
+      {lines.map((line, index) => (
+        <div key={index} className="grid grid-cols-[1fr_7rem_4.5rem_auto] items-center gap-1.5">
+          <Input
+            value={line.name}
+            onChange={(e) => updateLine(index, { name: e.target.value })}
+            placeholder={t("deductions.namePlaceholder")}
+            className="h-8 text-xs"
+            disabled={line.deduction_type_id !== null}
+          />
+          <Select
+            value={line.method}
+            onValueChange={(value) => updateLine(index, { method: value as DeductionMethod })}
+            disabled={line.deduction_type_id !== null}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEDUCTION_METHODS.map(method => (
+                <SelectItem key={method} value={method} className="text-xs">{t(`deductions.method.${method}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative">
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={line.value || ''}
+              onChange={(e) => updateLine(index, { value: parseFloat(e.target.value) || 0 })}
+              placeholder="0"
+              className="h-8 text-xs pr-8"
+            />
+            <span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
+              {DEDUCTION_UNITS[line.method]}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="text-xs w-20 text-right">{money(deductionAmount(line, kg, rate))}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+              onClick={() => onChange(lines.filter((_, i) => i !== index))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="p-2 bg-muted/50 rounded-md space-y-1 text-xs">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">{t("teaSales.gross")}</span>
+          <span>{money(gross)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">{t("teaSales.deductions")}</span>
+          <span>- {money(deductions)}</span>
+        </div>
+        <div className="flex justify-between font-bold text-sm pt-1 border-t">
+          <span>{t("teaSales.netIncome")}</span>
+          <span>{money(gross - deductions)}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
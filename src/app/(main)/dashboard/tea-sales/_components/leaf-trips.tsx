@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { Edit, Loader2, Plus, Trash2, Truck } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useOrganization } from "@/contexts/organization-context"
+import { useTranslation } from "@/hooks/use-translation"
+import { LeafTripWithDeliveries, deleteLeafTrip, fetchLeafTrips } from "@/lib/leaf-trips"
+
+import { TransportCosts } from "./transport-costs"
+import { TripDialog, TripSale } from "./trip-dialog"
+
+interface LeafTripsProps {
+  orgId: string
+  sales: TripSale[]
+  period: { from?: string; to?: string; label: string }
+  defaultDate: string
+  onChanged: () => void
+}
+
+interface TripRowProps {
+  trip: LeafTripWithDeliveries
+  canEdit: boolean
+  onEdit: () => void
+  onDelete: () => void
+}
+
+function TripRow({ trip, canEdit, onEdit, onDelete }: TripRowProps) {
+  const l = useTranslation()
+  const { t, money } = l
+  const kg = trip.tea_sales.reduce((sum, sale) => sum + Number(sale.kg_delivered), 0)
+  const factories = [...new Set(trip.tea_sales.map(sale => sale.factory_name))].join(', ')
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 bg-muted/50 rounded-md text-sm">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{trip.vehicle_number}</span>
+          <span className="text-xs text-muted-foreground">
+            {l.date(trip.trip_date, 'day')}
+            {trip.departure_time && ` · ${trip.departure_time.slice(0, 5)}`}
+            {trip.driver_name && ` · ${trip.driver_name}`}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground truncate">
+          {trip.tea_sales.length > 0 ? t("trips.carriedTo", { kg: l.kg(kg), factories }) : t("trips.noDeliveriesLinked")}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 shrink-0">
+        <div className="text-right mr-1">
+          <div className="font-medium">{money(trip.cost)}</div>
+          {kg > 0 && <div className="text-[11px] text-muted-foreground">{t("teaSales.perKg", { amount: money(trip.cost / kg) })}</div>}
+        </div>
+        {canEdit && (
+          <>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onEdit}>
+              <Edit className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive" onClick={onDelete}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Lorry trips for the period on the tea sales page, with transport cost per kg by factory
+export function LeafTrips({ orgId, sales, period, defaultDate, onChanged }: LeafTripsProps) {
+  const { canEdit } = useOrganization()
+  const { t, date, money } = useTranslation()
+  const [trips, setTrips] = useState<LeafTripWithDeliveries[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<LeafTripWithDeliveries | 'new' | null>(null)
+
+  // Sales are a dependency so edited deliveries show their new kg on the trip
+  useEffect(() => {
+    loadTrips()
+  }, [orgId, period.from, period.to, sales])
+
+  async function loadTrips() {
+    try {
+      setTrips(await fetchLeafTrips(orgId, period.from, period.to))
+    } catch (error: any) {
+      console.error('Error fetching trips:', error?.message ?? error)
+      toast.error(t("trips.loadFailed"))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleDelete(trip: LeafTripWithDeliveries) {
+    if (!confirm(t("trips.confirmDelete", { vehicle: trip.vehicle_number, date: date(trip.trip_date) }))) return
+
+    try {
+      await deleteLeafTrip(trip.id)
+      toast.success(t("trips.deleted"))
+      onChanged()
+    } catch (error: any) {
+      console.error('Error deleting trip:', error)
+      toast.error(error.message ?? t("trips.deleteFailed"))
+    }
+  }
+
+  const totalCost = trips.reduce((sum, trip) => sum + Number(trip.cost), 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Truck className="h-4 w-4" />
+              {t("trips.title")}
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {t(trips.length === 1 ? "trips.summaryOne" : "trips.summary", { count: trips.length, amount: money(totalCost), period: period.label })}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={() => setEditing('new')}>
+              <Plus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("trips.record")}</span>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : trips.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t("trips.none")}</p>
+        ) : (
+          <>
+            <div className="space-y-1.5 max-h-72 overflow-y-auto">
+              {trips.map(trip => (
+                <TripRow
+                  key={trip.id}
+                  trip={trip}
+                  canEdit={canEdit}
+                  onEdit={() => setEditing(trip)}
+                  onDelete={() => handleDelete(trip)}
+                />
+              ))}
+            </div>
+            <TransportCosts trips={trips} />
+          </>
+        )}
+      </CardContent>
+
+      {editing && (
+        <TripDialog
+          orgId={orgId}
+          trip={editing === 'new' ? null : editing}
+          sales={sales}
+          defaultDate={defaultDate}
+          onClose={() => setEditing(null)}
+          onSaved={() => {
+            setEditing(null)
+            onChanged()
+          }}
+        />
+      )}
+    </Card>
+  )
+}
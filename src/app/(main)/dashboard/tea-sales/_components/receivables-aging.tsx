@@ -0,0 +1,73 @@
+"use client"
+
+import { useMemo } from "react"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import { AGING_BUCKETS, ReceivableSale, agingReport } from "@/lib/factory-payments"
+
+interface ReceivablesAgingProps {
+  sales: (ReceivableSale & { factory_name: string })[]
+  today: string
+}
+
+// What each factory still owes, by how long ago the leaf was delivered
+export function ReceivablesAging({ sales, today }: ReceivablesAgingProps) {
+  const { t, money } = useTranslation()
+  const rows = useMemo(() => agingReport(sales, today), [sales, today])
+  if (rows.length === 0) return null
+
+  const totals = AGING_BUCKETS.map((_, index) => rows.reduce((sum, row) => sum + row.buckets[index], 0))
+  const grandTotal = rows.reduce((sum, row) => sum + row.total, 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{t("receivables.title")}</CardTitle>
+        <CardDescription className="text-xs">
+          {t(rows.length === 1 ? "receivables.summaryOne" : "receivables.summary", { amount: money(grandTotal), count: rows.length })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-xs text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium px-3 py-2">{t("teaSales.factory")}</th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket.label} className="text-right font-medium px-3 py-2">{t(bucket.label)}</th>
+                ))}
+                <th className="text-right font-medium px-3 py-2">{t("common.total")}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map(row => (
+                <tr key={row.factory}>
+                  <td className="px-3 py-2">{row.factory}</td>
+                  {row.buckets.map((amount, index) => (
+                    <td
+                      key={AGING_BUCKETS[index].label}
+                      className={`px-3 py-2 text-right ${index === AGING_BUCKETS.length - 1 && amount > 0 ? 'text-red-600 font-medium' : ''}`}
+                    >
+                      {amount > 0 ? money(amount) : '-'}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right font-medium">{money(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t bg-muted/30 font-medium">
+              <tr>
+                <td className="px-3 py-2">{t("common.total")}</td>
+                {totals.map((amount, index) => (
+                  <td key={AGING_BUCKETS[index].label} className="px-3 py-2 text-right">{money(amount)}</td>
+                ))}
+                <td className="px-3 py-2 text-right">{money(grandTotal)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,10 @@
 "use client"
 
 import { useState, useEffect, useMemo } from "react"
-import { Plus, Search, TrendingUp, Factory, Package, DollarSign, X, Save, Loader2, Calendar, Edit, Trash2, Download, FileSpreadsheet } from "lucide-react"
+
+import Link from "next/link"
+import { Plus, Search, TrendingUp, Factory, Package, DollarSign, X, Save, Loader2, Calendar, Edit, Trash2, Download, FileSpreadsheet, AlertTriangle, Banknote } from "lucide-react"
+import { FactoryPaymentDialog } from "@/app/(main)/dashboard/_components/factory-payment-dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -12,31 +15,71 @@ import { DataTable } from "@/components/data-table/data-table"
 import { DataTablePagination } from "@/components/data-table/data-table-pagination"
 import { ColumnDef } from "@tanstack/react-table"
 import { useDataTableInstance } from "@/hooks/use-data-table-instance"
+import { useTranslation } from "@/hooks/use-translation"
+import { FactoryWithRate, fetchFactories } from "@/lib/factories"
+import { saleOutstanding } from "@/lib/factory-payments"
+import {
+  RateHistoryEntry,
+  applyDueFactoryRates,
+  fetchRateHistories,
+  rateOn,
+  ratesDiffer
+} from "@/lib/factory-rates"
 import { supabase } from "@/lib/supabase"
-import { formatCurrency } from "@/lib/utils"
+import {
+  DEDUCTIONS_SELECT,
+  DeductionLine,
+  deductionAmount,
+  fetchDeductionTypes,
+  linesFromTypes,
+  saleNetIncome,
+  saveSaleDeductions,
+  toDeductionLines,
+  totalDeductions
+} from "@/lib/tea-sale-deductions"
+import type { TeaSalePaymentStatus } from "@/types/database"
+import type { FactoryDeductionType } from "@/types/factories"
 import { format, startOfMonth, endOfMonth, startOfDay, endOfDay, isWithinInterval, parseISO } from "date-fns"
 import { formatInTimeZone } from "date-fns-tz"
 import { toast } from "sonner"
 import { useOrganization } from "@/contexts/organization-context"
 
+import { DeductionLinesEditor } from "./deduction-lines-editor"
+import { LeafTrips } from "./leaf-trips"
+import { ReceivablesAging } from "./receivables-aging"
+
 interface TeaSale {
   id: string
   date: string
+  factory_id: string | null
   factory_name: string
   kg_delivered: number
   rate_per_kg: number
   total_income: number
+  deductions: number
+  net_income: number | null
+  amount_paid?: number | null
+  payment_status?: TeaSalePaymentStatus
+  tea_sale_deductions?: DeductionLine[]
+  trip_id?: string | null
   notes?: string
 }
 
-interface FactoryRate {
-  id: string
-  factory_name: string
-  current_rate: number
-}
-
 type FilterMode = "all" | "daily" | "monthly"
 
+// Date range of the current filter, for loading the trips made in it
+function filterRange(filterMode: FilterMode, selectedDate: string, selectedMonth: string) {
+  if (filterMode === "daily") return { from: selectedDate, to: selectedDate }
+  if (filterMode === "monthly") {
+    const [year, month] = selectedMonth.split('-').map(Number)
+    return {
+      from: format(startOfMonth(new Date(year, month - 1)), 'yyyy-MM-dd'),
+      to: format(endOfMonth(new Date(year, month - 1)), 'yyyy-MM-dd'),
+    }
+  }
+  return {}
+}
+
 const SL_TIMEZONE = 'Asia/Colombo'
 
 // Helper to get current date in Sri Lankan timezone as YYYY-MM-DD
@@ -49,6 +92,13 @@ function getSLMonth() {
   return formatInTimeZone(new Date(), SL_TIMEZONE, 'yyyy-MM')
 }
 
+// "Transport: 1,200.00, Bag Weight: 450.00" for exports and the printed report
+function describeDeductions(sale: TeaSale) {
+  return (sale.tea_sale_deductions ?? [])
+    .map(line => `${line.name}: ${deductionAmount(line, sale.kg_delivered, sale.rate_per_kg).toFixed(2)}`)
+    .join(', ')
+}
+
 // Helper to format date for display in Sri Lankan timezone
 function formatSLDate(dateStr: string, formatStr: string = 'MMM dd, yyyy') {
   // Parse the date string and treat it as a local date (not UTC)
@@ -58,10 +108,12 @@ function formatSLDate(dateStr: string, formatStr: string = 'MMM dd, yyyy') {
 
 export function TeaSalesManager() {
   const { currentOrganization, loading: orgLoading } = useOrganization()
+  const l = useTranslation()
+  const { t, date: formatDate, money } = l
   const orgId = currentOrganization?.organization_id
   
   const [teaSales, setTeaSales] = useState<TeaSale[]>([])
-  const [factoryRates, setFactoryRates] = useState<FactoryRate[]>([])
+  const [factoryList, setFactoryList] = useState<FactoryWithRate[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [showForm, setShowForm] = useState(false)
@@ -70,10 +122,13 @@ export function TeaSalesManager() {
   const [filterMode, setFilterMode] = useState<FilterMode>("monthly")
   const [selectedDate, setSelectedDate] = useState(getSLDate())
   const [selectedMonth, setSelectedMonth] = useState(getSLMonth())
-  const [useCustomFactory, setUseCustomFactory] = useState(false)
+  const [deductionTypes, setDeductionTypes] = useState<FactoryDeductionType[]>([])
+  const [deductionLines, setDeductionLines] = useState<DeductionLine[]>([])
+  const [rateHistory, setRateHistory] = useState<RateHistoryEntry[]>([])
+  const [showPayment, setShowPayment] = useState(false)
   const [formData, setFormData] = useState({
     date: getSLDate(),
-    factory_name: '',
+    factory_id: '',
     kg_delivered: '',
     rate_per_kg: '',
     notes: ''
@@ -82,7 +137,16 @@ export function TeaSalesManager() {
   useEffect(() => {
     if (orgId) {
       fetchTeaSalesData()
-      fetchFactoryRates()
+      // Switch on any scheduled rates that fell due before reading the current ones
+      applyDueFactoryRates(orgId)
+        .catch(error => console.error('Error applying scheduled rates:', error?.message ?? error))
+        .finally(fetchFactoryList)
+      fetchRateHistories(orgId)
+        .then(setRateHistory)
+        .catch(error => console.error('Error fetching rate history:', error?.message ?? error))
+      fetchDeductionTypes(orgId)
+        .then(setDeductionTypes)
+        .catch(error => console.error('Error fetching deduction types:', error?.message ?? error))
     }
   }, [orgId])
 
@@ -91,7 +155,7 @@ export function TeaSalesManager() {
     try {
       const { data, error } = await supabase
         .from('tea_sales')
-        .select('*')
+        .select(`*, ${DEDUCTIONS_SELECT}`)
         .eq('organization_id', orgId)
         .order('date', { ascending: false })
 
@@ -110,61 +174,65 @@ export function TeaSalesManager() {
       setTeaSales(data || [])
     } catch (error: any) {
       console.error('Error fetching tea sales:', error?.message || error)
-      toast.error("Failed to load tea sales")
+      toast.error(t("teaSales.loadFailed"))
     } finally {
       setLoading(false)
     }
   }
 
-  async function fetchFactoryRates() {
+  async function fetchFactoryList() {
     if (!orgId) return
     try {
-      const { data, error } = await supabase
-        .from('factory_rates')
-        .select('id, factory_name, current_rate')
-        .eq('organization_id', orgId)
-        .order('factory_name')
-
-      if (error) {
-        // Fallback if organization_id column doesn't exist
-        if (error.message?.includes('organization_id') || error.code === '42703') {
-          const { data: fallbackData } = await supabase
-            .from('factory_rates')
-            .select('id, factory_name, current_rate')
-            .order('factory_name')
-          setFactoryRates(fallbackData || [])
-          return
-        }
-        throw error
-      }
-      setFactoryRates(data || [])
+      setFactoryList(await fetchFactories(orgId))
     } catch (error: any) {
-      console.error('Error fetching factory rates:', error?.message || error)
+      console.error('Error fetching factories:', error?.message || error)
     }
   }
 
-  const handleFactorySelect = (factoryName: string) => {
-    if (factoryName === '__custom__') {
-      setUseCustomFactory(true)
-      setFormData({ ...formData, factory_name: '', rate_per_kg: '' })
-    } else {
-      setUseCustomFactory(false)
-      const factory = factoryRates.find(f => f.factory_name === factoryName)
-      if (factory) {
-        setFormData({
-          ...formData,
-          factory_name: factory.factory_name,
-          rate_per_kg: factory.current_rate.toString()
-        })
-      }
-    }
+  // The rate the factory paid on a date. Factories without history only have their current rate;
+  // dates before the first recorded rate have no known rate.
+  const effectiveRateFor = (factoryId: string, date: string) => {
+    const factory = factoryList.find(f => f.id === factoryId)
+    if (!factory) return null
+    if (!rateHistory.some(entry => entry.factory_id === factory.id)) return factory.current_rate
+    return rateOn(rateHistory, factory.id, date)?.rate ?? null
+  }
+
+  const effectiveRate = effectiveRateFor(formData.factory_id, formData.date)
+  const typedRate = parseFloat(formData.rate_per_kg)
+  const rateMismatch = effectiveRate !== null && !isNaN(typedRate) && ratesDiffer(typedRate, effectiveRate)
+  const selectedFactory = factoryList.find(f => f.id === formData.factory_id)
+  // Inactive factories stay selectable on sales already recorded against them
+  const selectableFactories = factoryList.filter(f => f.is_active || f.id === formData.factory_id)
+
+  // Moving the date follows the factory's rate unless a different rate was typed in
+  const handleDateChange = (date: string) => {
+    const previousRate = effectiveRateFor(formData.factory_id, formData.date)
+    const followsRate = formData.rate_per_kg === '' || (previousRate !== null && !ratesDiffer(typedRate, previousRate))
+    const nextRate = effectiveRateFor(formData.factory_id, date)
+
+    setFormData({
+      ...formData,
+      date,
+      rate_per_kg: followsRate && nextRate !== null ? nextRate.toString() : formData.rate_per_kg
+    })
+  }
+
+  const handleFactorySelect = (factoryId: string) => {
+    setDeductionLines(linesFromTypes(deductionTypes.filter(t => t.factory_id === factoryId)))
+    setFormData({
+      ...formData,
+      factory_id: factoryId,
+      rate_per_kg: (effectiveRateFor(factoryId, formData.date) ?? '').toString()
+    })
   }
 
   const handleEdit = (sale: TeaSale) => {
     setEditingSale(sale)
+    setDeductionLines(toDeductionLines(sale.tea_sale_deductions))
     setFormData({
       date: sale.date,
-      factory_name: sale.factory_name,
+      factory_id: sale.factory_id ?? '',
       kg_delivered: sale.kg_delivered.toString(),
       rate_per_kg: sale.rate_per_kg.toString(),
       notes: sale.notes || ''
@@ -173,7 +241,7 @@ export function TeaSalesManager() {
   }
 
   const handleDelete = async (sale: TeaSale) => {
-    if (!confirm(`Delete sale to ${sale.factory_name} on ${formatSLDate(sale.date)}?`)) {
+    if (!confirm(t("teaSales.confirmDelete", { factory: sale.factory_name, date: formatDate(sale.date) }))) {
       return
     }
 
@@ -186,94 +254,40 @@ export function TeaSalesManager() {
       if (error) throw error
       
       setTeaSales(prev => prev.filter(s => s.id !== sale.id))
-      toast.success("Sale deleted successfully")
+      toast.success(t("teaSales.deleted"))
     } catch (error: any) {
       console.error('Error deleting sale:', error)
-      toast.error(error.message || "Failed to delete sale")
-    }
-  }
-
-  async function syncFactoryRate(factoryName: string, rate: number, effectiveDate: string) {
-    // Check if factory exists
-    const existingFactory = factoryRates.find(f => f.factory_name === factoryName)
-    
-    if (existingFactory) {
-      // Update if rate is different
-      if (existingFactory.current_rate !== rate) {
-        // Add to rate history
-        await supabase
-          .from('rate_history')
-          .insert({
-            factory_id: existingFactory.id,
-            rate: rate,
-            effective_date: effectiveDate
-          })
-        
-        // Update factory rate
-        await supabase
-          .from('factory_rates')
-          .update({
-            current_rate: rate,
-            previous_rate: existingFactory.current_rate,
-            effective_date: effectiveDate
-          })
-          .eq('id', existingFactory.id)
-        
-        // Update local state
-        setFactoryRates(prev => prev.map(f => 
-          f.id === existingFactory.id ? { ...f, current_rate: rate } : f
-        ))
-      }
-    } else {
-      // Create new factory
-      const { data: newFactory, error } = await supabase
-        .from('factory_rates')
-        .insert({
-          factory_name: factoryName,
-          current_rate: rate,
-          effective_date: effectiveDate,
-          organization_id: orgId
-        })
-        .select()
-        .single()
-      
-      if (!error && newFactory) {
-        // Add initial rate to history
-        await supabase
-          .from('rate_history')
-          .insert({
-            factory_id: newFactory.id,
-            rate: rate,
-            effective_date: effectiveDate
-          })
-        
-        // Update local state
-        setFactoryRates(prev => [...prev, { id: newFactory.id, factory_name: factoryName, current_rate: rate }])
-      }
+      toast.error(error.message || t("teaSales.deleteFailed"))
     }
   }
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
+    if (!orgId) return
+    if (!selectedFactory) {
+      toast.error(t("teaSales.selectFactoryError"))
+      return
+    }
     setFormLoading(true)
 
     const kg = parseFloat(formData.kg_delivered)
     const rate = parseFloat(formData.rate_per_kg)
     const total = kg * rate
+    const deductions = totalDeductions(deductionLines, kg, rate)
 
     const saleData = {
       date: formData.date,
-      factory_name: formData.factory_name,
+      factory_id: selectedFactory.id,
+      factory_name: selectedFactory.name,
       kg_delivered: kg,
       rate_per_kg: rate,
       total_income: total,
+      deductions,
+      net_income: total - deductions,
       notes: formData.notes || undefined
     }
 
     try {
-      // Sync factory rate (add new factory or update existing rate)
-      await syncFactoryRate(formData.factory_name, rate, formData.date)
-
       if (editingSale) {
         const { error } = await supabase
           .from('tea_sales')
@@ -281,11 +295,12 @@ export function TeaSalesManager() {
           .eq('id', editingSale.id)
         
         if (error) throw error
+        await saveSaleDeductions(orgId, editingSale.id, deductionLines, kg, rate)
         
         setTeaSales(prev => prev.map(s => 
-          s.id === editingSale.id ? { ...s, ...saleData } : s
+          s.id === editingSale.id ? { ...s, ...saleData, tea_sale_deductions: deductionLines } : s
         ))
-        toast.success("Sale updated successfully")
+        toast.success(t("teaSales.updated"))
       } else {
         const { data, error } = await supabase
           .from('tea_sales')
@@ -294,9 +309,10 @@ export function TeaSalesManager() {
           .single()
         
         if (error) throw error
+        await saveSaleDeductions(orgId, data.id, deductionLines, kg, rate)
         
-        setTeaSales(prev => [data, ...prev])
-        toast.success("Sale recorded successfully")
+        setTeaSales(prev => [{ ...data, tea_sale_deductions: deductionLines }, ...prev])
+        toast.success(t("teaSales.recorded"))
       }
 
       setShowForm(false)
@@ -304,7 +320,7 @@ export function TeaSalesManager() {
       resetForm()
     } catch (error: any) {
       console.error('Error saving sale:', error)
-      toast.error(error.message || "Failed to save sale")
+      toast.error(error.message || t("teaSales.saveFailed"))
     } finally {
       setFormLoading(false)
     }
@@ -313,13 +329,13 @@ export function TeaSalesManager() {
   const resetForm = () => {
     setFormData({
       date: getSLDate(),
-      factory_name: '',
+      factory_id: '',
       kg_delivered: '',
       rate_per_kg: '',
       notes: ''
     })
     setEditingSale(null)
-    setUseCustomFactory(false)
+    setDeductionLines([])
   }
 
   const handleCloseForm = () => {
@@ -364,7 +380,10 @@ export function TeaSalesManager() {
   // Calculate stats based on filtered data
   const stats = useMemo(() => {
     const totalKg = filteredByDate.reduce((sum, sale) => sum + sale.kg_delivered, 0)
-    const totalIncome = filteredByDate.reduce((sum, sale) => sum + sale.total_income, 0)
+    const totalGross = filteredByDate.reduce((sum, sale) => sum + sale.total_income, 0)
+    // Income figures are net of factory deductions
+    const totalIncome = filteredByDate.reduce((sum, sale) => sum + saleNetIncome(sale), 0)
+    const totalDeducted = totalGross - totalIncome
     const factories = new Set(filteredByDate.map(sale => sale.factory_name)).size
     const avgRate = filteredByDate.length > 0 
       ? filteredByDate.reduce((sum, sale) => sum + sale.rate_per_kg, 0) / filteredByDate.length 
@@ -376,48 +395,85 @@ export function TeaSalesManager() {
         acc[sale.factory_name] = { kg: 0, income: 0 }
       }
       acc[sale.factory_name].kg += sale.kg_delivered
-      acc[sale.factory_name].income += sale.total_income
+      acc[sale.factory_name].income += saleNetIncome(sale)
       return acc
     }, {} as Record<string, { kg: number; income: number }>)
 
-    return { totalKg, totalIncome, factories, avgRate, factoryBreakdown }
+    return { totalKg, totalGross, totalDeducted, totalIncome, factories, avgRate, factoryBreakdown }
   }, [filteredByDate])
 
   const columns: ColumnDef<TeaSale>[] = useMemo(() => [
     {
       accessorKey: "date",
-      header: "Date",
+      header: t("common.date"),
       cell: ({ row }) => {
         const date = row.getValue("date") as string
-        return formatSLDate(date)
+        return formatDate(date)
       },
     },
     {
       accessorKey: "factory_name",
-      header: "Factory",
+      header: t("teaSales.factory"),
     },
     {
       accessorKey: "kg_delivered",
-      header: "KG Delivered",
+      header: t("teaSales.kgDelivered"),
       cell: ({ row }) => {
         const kg = row.getValue("kg_delivered") as number
-        return <span className="font-medium">{kg.toFixed(1)} kg</span>
+        return <span className="font-medium">{l.kg(kg)}</span>
       },
     },
     {
       accessorKey: "rate_per_kg",
-      header: "Rate/KG",
+      header: t("teaSales.ratePerKg"),
       cell: ({ row }) => {
         const rate = row.getValue("rate_per_kg") as number
-        return <span>{formatCurrency(rate)}</span>
+        return <span>{money(rate)}</span>
       },
     },
     {
       accessorKey: "total_income",
-      header: "Total Income",
+      header: t("teaSales.gross"),
       cell: ({ row }) => {
         const income = row.getValue("total_income") as number
-        return <span className="font-medium">{formatCurrency(income)}</span>
+        return <span className="text-muted-foreground">{money(income)}</span>
+      },
+    },
+    {
+      accessorKey: "deductions",
+      header: t("teaSales.deductions"),
+      cell: ({ row }) => {
+        const lines = row.original.tea_sale_deductions ?? []
+        const deducted = row.original.total_income - saleNetIncome(row.original)
+        if (deducted === 0) return <span className="text-muted-foreground">-</span>
+        return (
+          <span className="text-destructive" title={lines.map(line => line.name).join(', ')}>
+            - {money(deducted)}
+          </span>
+        )
+      },
+    },
+    {
+      id: "net_income",
+      header: t("teaSales.netIncome"),
+      cell: ({ row }) => <span className="font-medium">{money(saleNetIncome(row.original))}</span>,
+    },
+    {
+      id: "payment",
+      header: t("teaSales.payment"),
+      cell: ({ row }) => {
+        const status = row.original.payment_status ?? 'unpaid'
+        const outstanding = saleOutstanding(row.original)
+        return (
+          <div className="flex flex-col">
+            <span className={status === 'paid' ? 'text-green-600 text-xs font-medium' : status === 'partial' ? 'text-amber-600 text-xs font-medium' : 'text-muted-foreground text-xs'}>
+              {t(`factoryPayments.status.${status}`)}
+            </span>
+            {status !== 'paid' && outstanding > 0 && (
+              <span className="text-[10px] text-muted-foreground">{t("teaSales.due", { amount: money(outstanding) })}</span>
+            )}
+          </div>
+        )
       },
     },
     {
@@ -447,7 +503,7 @@ export function TeaSalesManager() {
         )
       },
     },
-  ], [])
+  ], [l, t, formatDate, money])
 
   const table = useDataTableInstance({
     data: filteredSales,
@@ -465,20 +521,30 @@ export function TeaSalesManager() {
     return "All Time"
   }
 
+  // Exports keep the English period in file names; the page and printed report follow the language
+  const getPeriodLabel = () => {
+    if (filterMode === "daily") return formatDate(selectedDate)
+    if (filterMode === "monthly") return formatDate(`${selectedMonth}-01`, 'month')
+    return t("teaSales.allTime")
+  }
+
   // Export functions
   const exportToCSV = () => {
     if (filteredSales.length === 0) {
-      toast.error("No data to export")
+      toast.error(t("teaSales.noData"))
       return
     }
 
-    const headers = ['Date', 'Factory', 'KG Delivered', 'Rate/KG', 'Total Income', 'Notes']
+    const headers = ['Date', 'Factory', 'KG Delivered', 'Rate/KG', 'Gross Income', 'Deductions', 'Deduction Details', 'Net Income', 'Notes']
     const rows = filteredSales.map(sale => [
       format(parseISO(sale.date), 'yyyy-MM-dd'),
       sale.factory_name,
       sale.kg_delivered.toFixed(2),
       sale.rate_per_kg.toFixed(2),
       sale.total_income.toFixed(2),
+      (sale.total_income - saleNetIncome(sale)).toFixed(2),
+      describeDeductions(sale),
+      saleNetIncome(sale).toFixed(2),
       sale.notes || ''
     ])
 
@@ -486,7 +552,9 @@ export function TeaSalesManager() {
     rows.push([])
     rows.push(['Summary'])
     rows.push(['Total KG', stats.totalKg.toFixed(2)])
-    rows.push(['Total Income', stats.totalIncome.toFixed(2)])
+    rows.push(['Gross Income', stats.totalGross.toFixed(2)])
+    rows.push(['Deductions', stats.totalDeducted.toFixed(2)])
+    rows.push(['Net Income', stats.totalIncome.toFixed(2)])
     rows.push(['Average Rate/KG', stats.avgRate.toFixed(2)])
     rows.push(['Number of Factories', stats.factories.toString()])
 
@@ -500,12 +568,12 @@ export function TeaSalesManager() {
     link.href = URL.createObjectURL(blob)
     link.download = `tea-sales-${getFilterLabel().replace(/\s+/g, '-').toLowerCase()}.csv`
     link.click()
-    toast.success("Exported to CSV")
+    toast.success(t("common.exportedCsv"))
   }
 
   const exportToJSON = () => {
     if (filteredSales.length === 0) {
-      toast.error("No data to export")
+      toast.error(t("teaSales.noData"))
       return
     }
 
@@ -514,7 +582,9 @@ export function TeaSalesManager() {
       exportedAt: new Date().toISOString(),
       summary: {
         totalKg: stats.totalKg,
-        totalIncome: stats.totalIncome,
+        grossIncome: stats.totalGross,
+        deductions: stats.totalDeducted,
+        netIncome: stats.totalIncome,
         avgRate: stats.avgRate,
         factories: stats.factories
       },
@@ -523,7 +593,12 @@ export function TeaSalesManager() {
         factory: sale.factory_name,
         kgDelivered: sale.kg_delivered,
         ratePerKg: sale.rate_per_kg,
-        totalIncome: sale.total_income,
+        grossIncome: sale.total_income,
+        deductions: (sale.tea_sale_deductions ?? []).map(line => ({
+          name: line.name,
+          amount: deductionAmount(line, sale.kg_delivered, sale.rate_per_kg)
+        })),
+        netIncome: saleNetIncome(sale),
         notes: sale.notes
       }))
     }
@@ -533,28 +608,28 @@ export function TeaSalesManager() {
     link.href = URL.createObjectURL(blob)
     link.download = `tea-sales-${getFilterLabel().replace(/\s+/g, '-').toLowerCase()}.json`
     link.click()
-    toast.success("Exported to JSON")
+    toast.success(t("common.exportedJson"))
   }
 
   const printReport = () => {
     if (filteredSales.length === 0) {
-      toast.error("No data to print")
+      toast.error(t("teaSales.noDataToPrint"))
       return
     }
 
     const printWindow = window.open('', '_blank')
     if (!printWindow) {
-      toast.error("Please allow popups for printing")
+      toast.error(t("teaSales.allowPopups"))
       return
     }
 
     const html = `
       <!DOCTYPE html>
-      <html>
+      <html lang="${l.language}">
       <head>
-        <title>Tea Sales Report - ${getFilterLabel()}</title>
+        <title>${t('reports.teaSales')} - ${getPeriodLabel()}</title>
         <style>
-          body { font-family: Arial, sans-serif; padding: 20px; }
+          body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; padding: 20px; }
           h1 { color: #333; border-bottom: 2px solid #333; padding-bottom: 10px; }
           .summary { display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px; margin: 20px 0; }
           .summary-card { background: #f5f5f5; padding: 15px; border-radius: 8px; }
@@ -570,60 +645,66 @@ export function TeaSalesManager() {
         </style>
       </head>
       <body>
-        <h1>Tea Sales Report</h1>
-        <p><strong>Period:</strong> ${getFilterLabel()}</p>
-        <p><strong>Generated:</strong> ${format(new Date(), 'MMMM dd, yyyy HH:mm')}</p>
-        
+        <h1>${t('reports.teaSales')}</h1>
+        <p><strong>${t('teaSales.report.period')}:</strong> ${getPeriodLabel()}</p>
+        <p><strong>${t('teaSales.report.generated')}:</strong> ${formatDate(new Date(), 'dateTime')}</p>
+
         <div class="summary">
           <div class="summary-card">
-            <h3>Total KG</h3>
-            <p>${stats.totalKg.toFixed(1)} kg</p>
+            <h3>${t('teaSales.totalKg')}</h3>
+            <p>${l.kg(stats.totalKg)}</p>
           </div>
           <div class="summary-card">
-            <h3>Total Income</h3>
-            <p>LKR ${stats.totalIncome.toLocaleString()}</p>
+            <h3>${t('teaSales.netIncome')}</h3>
+            <p>${money(stats.totalIncome)}</p>
           </div>
           <div class="summary-card">
-            <h3>Factories</h3>
+            <h3>${t('teaSales.factories')}</h3>
             <p>${stats.factories}</p>
           </div>
           <div class="summary-card">
-            <h3>Avg Rate/KG</h3>
-            <p>LKR ${stats.avgRate.toFixed(2)}</p>
+            <h3>${t('teaSales.avgRate')}</h3>
+            <p>${money(stats.avgRate)}</p>
           </div>
         </div>
 
         <table>
           <thead>
             <tr>
-              <th>Date</th>
-              <th>Factory</th>
-              <th>KG Delivered</th>
-              <th>Rate/KG</th>
-              <th>Total Income</th>
+              <th>${t('common.date')}</th>
+              <th>${t('teaSales.factory')}</th>
+              <th>${t('teaSales.kgDelivered')}</th>
+              <th>${t('teaSales.ratePerKg')}</th>
+              <th>${t('teaSales.gross')}</th>
+              <th>${t('teaSales.deductions')}</th>
+              <th>${t('teaSales.netIncome')}</th>
             </tr>
           </thead>
           <tbody>
             ${filteredSales.map(sale => `
               <tr>
-                <td>${formatSLDate(sale.date)}</td>
+                <td>${formatDate(sale.date)}</td>
                 <td>${sale.factory_name}</td>
-                <td>${sale.kg_delivered.toFixed(1)} kg</td>
-                <td>LKR ${sale.rate_per_kg.toLocaleString()}</td>
-                <td>LKR ${sale.total_income.toLocaleString()}</td>
+                <td>${l.kg(sale.kg_delivered)}</td>
+                <td>${money(sale.rate_per_kg)}</td>
+                <td>${money(sale.total_income)}</td>
+                <td>${describeDeductions(sale) || '-'}</td>
+                <td>${money(saleNetIncome(sale))}</td>
               </tr>
             `).join('')}
             <tr class="total-row">
-              <td colspan="2">Total</td>
-              <td>${stats.totalKg.toFixed(1)} kg</td>
+              <td colspan="2">${t('common.total')}</td>
+              <td>${l.kg(stats.totalKg)}</td>
               <td>-</td>
-              <td>LKR ${stats.totalIncome.toLocaleString()}</td>
+              <td>${money(stats.totalGross)}</td>
+              <td>${money(stats.totalDeducted)}</td>
+              <td>${money(stats.totalIncome)}</td>
             </tr>
           </tbody>
         </table>
 
         <div class="footer">
-          <p>Tea Plantation Dashboard - Sales Report</p>
+          <p>${t('teaSales.report.footer')}</p>
         </div>
 
         <script>window.onload = function() { window.print(); }</script>
@@ -639,13 +720,13 @@ export function TeaSalesManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
 
   if (loading) {
-    return <div className="flex justify-center items-center h-64">Loading tea sales...</div>
+    return <div className="flex justify-center items-center h-64">{t("teaSales.loading")}</div>
   }
 
   return (
@@ -654,33 +735,37 @@ export function TeaSalesManager() {
       <div className="flex flex-col gap-4">
         {/* Title and Add Button */}
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Tea Sales</h2>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("teaSales.title")}</h2>
           <div className="flex gap-2">
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm">
                   <Download className="h-4 w-4 sm:mr-2" />
-                  <span className="hidden sm:inline">Export</span>
+                  <span className="hidden sm:inline">{t("common.export")}</span>
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
                 <DropdownMenuItem onClick={exportToCSV}>
                   <FileSpreadsheet className="h-4 w-4 mr-2" />
-                  Export as CSV
+                  {t("teaSales.exportCsv")}
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={exportToJSON}>
                   <Download className="h-4 w-4 mr-2" />
-                  Export as JSON
+                  {t("teaSales.exportJson")}
                 </DropdownMenuItem>
                 <DropdownMenuItem onClick={printReport}>
                   <Download className="h-4 w-4 mr-2" />
-                  Print Report
+                  {t("teaSales.printReport")}
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={() => setShowPayment(true)}>
+              <Banknote className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("teaSales.recordPayment")}</span>
+            </Button>
           <Button onClick={handleOpenForm} size="sm" className="sm:size-default">
             <Plus className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">Record Sale</span>
+            <span className="hidden sm:inline">{t("teaSales.recordSale")}</span>
           </Button>
           </div>
         </div>
@@ -692,9 +777,9 @@ export function TeaSalesManager() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="daily">Daily</SelectItem>
-              <SelectItem value="monthly">Monthly</SelectItem>
-              <SelectItem value="all">All Time</SelectItem>
+              <SelectItem value="daily">{t("teaSales.daily")}</SelectItem>
+              <SelectItem value="monthly">{t("teaSales.monthly")}</SelectItem>
+              <SelectItem value="all">{t("teaSales.allTime")}</SelectItem>
             </SelectContent>
           </Select>
 
@@ -719,7 +804,7 @@ export function TeaSalesManager() {
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search sales..."
+              placeholder={t("teaSales.search")}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10 w-full"
@@ -731,30 +816,35 @@ export function TeaSalesManager() {
       {/* Period Label */}
       <div className="flex items-center gap-2 text-sm text-muted-foreground">
         <Calendar className="h-4 w-4" />
-        <span>Showing: <span className="font-medium text-foreground">{getFilterLabel()}</span></span>
+        <span>{t("teaSales.showing")} <span className="font-medium text-foreground">{getPeriodLabel()}</span></span>
       </div>
 
       {/* Stats Cards */}
       <div className="*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid gap-3 grid-cols-2 lg:grid-cols-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs">
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total KG</span>
+            <span className="text-xs text-muted-foreground">{t("teaSales.totalKg")}</span>
             <Package className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{stats.totalKg.toFixed(1)} kg</div>
+          <div className="text-lg font-bold mt-1">{l.kg(stats.totalKg)}</div>
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Total Income</span>
+            <span className="text-xs text-muted-foreground">{t("teaSales.netIncome")}</span>
             <DollarSign className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{formatCurrency(stats.totalIncome)}</div>
+          <div className="text-lg font-bold mt-1">{money(stats.totalIncome)}</div>
+          {stats.totalDeducted > 0 && (
+            <p className="text-[10px] text-muted-foreground">
+              {t("teaSales.grossLessDeductions", { gross: money(stats.totalGross), deductions: money(stats.totalDeducted) })}
+            </p>
+          )}
         </Card>
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Factories</span>
+            <span className="text-xs text-muted-foreground">{t("teaSales.factories")}</span>
             <Factory className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
           <div className="text-lg font-bold mt-1">{stats.factories}</div>
@@ -762,10 +852,10 @@ export function TeaSalesManager() {
 
         <Card className="p-3">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-muted-foreground">Avg Rate/KG</span>
+            <span className="text-xs text-muted-foreground">{t("teaSales.avgRate")}</span>
             <TrendingUp className="h-3.5 w-3.5 text-muted-foreground" />
           </div>
-          <div className="text-lg font-bold mt-1">{formatCurrency(stats.avgRate)}</div>
+          <div className="text-lg font-bold mt-1">{money(stats.avgRate)}</div>
         </Card>
       </div>
 
@@ -773,8 +863,8 @@ export function TeaSalesManager() {
       {filterMode === "daily" && Object.keys(stats.factoryBreakdown).length > 0 && (
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-base">Factory Breakdown</CardTitle>
-            <CardDescription className="text-xs">Sales by factory for {formatSLDate(selectedDate, 'MMMM dd, yyyy')}</CardDescription>
+            <CardTitle className="text-base">{t("teaSales.factoryBreakdown")}</CardTitle>
+            <CardDescription className="text-xs">{t("teaSales.breakdownDescription", { date: formatDate(selectedDate) })}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
@@ -782,16 +872,16 @@ export function TeaSalesManager() {
                 <div key={factory} className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-2 bg-muted/50 rounded-md gap-1 sm:gap-4">
                   <span className="font-medium text-sm truncate">{factory}</span>
                   <div className="flex justify-between sm:justify-end gap-4 text-sm">
-                    <span className="text-muted-foreground">{data.kg.toFixed(1)} kg</span>
-                    <span className="font-medium">{formatCurrency(data.income)}</span>
+                    <span className="text-muted-foreground">{l.kg(data.kg)}</span>
+                    <span className="font-medium">{money(data.income)}</span>
                   </div>
                 </div>
               ))}
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-2 bg-primary/10 rounded-md border border-primary/20 gap-1 sm:gap-4">
-                <span className="font-semibold text-sm">Day Total</span>
+                <span className="font-semibold text-sm">{t("teaSales.dayTotal")}</span>
                 <div className="flex justify-between sm:justify-end gap-4 text-sm">
-                  <span className="text-muted-foreground">{stats.totalKg.toFixed(1)} kg</span>
-                  <span className="font-bold">{formatCurrency(stats.totalIncome)}</span>
+                  <span className="text-muted-foreground">{l.kg(stats.totalKg)}</span>
+                  <span className="font-bold">{money(stats.totalIncome)}</span>
                 </div>
               </div>
             </div>
@@ -799,12 +889,14 @@ export function TeaSalesManager() {
         </Card>
       )}
 
+      <ReceivablesAging sales={teaSales} today={getSLDate()} />
+
       {/* Sales Table */}
       <Card>
         <CardHeader className="pb-3">
-          <CardTitle className="text-base">Sales Records</CardTitle>
+          <CardTitle className="text-base">{t("teaSales.records")}</CardTitle>
           <CardDescription className="text-xs">
-            {filteredSales.length} {filteredSales.length === 1 ? 'sale' : 'sales'} found
+            {t(filteredSales.length === 1 ? "teaSales.saleCountOne" : "teaSales.saleCount", { count: filteredSales.length })}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -817,17 +909,37 @@ export function TeaSalesManager() {
 
       {filteredSales.length === 0 && (
         <div className="text-center py-12">
-          <p className="text-muted-foreground">No sales found for this period</p>
+          <p className="text-muted-foreground">{t("teaSales.noneForPeriod")}</p>
         </div>
       )}
 
+      <LeafTrips
+        orgId={orgId}
+        sales={teaSales}
+        period={{ ...filterRange(filterMode, selectedDate, selectedMonth), label: getPeriodLabel() }}
+        defaultDate={filterMode === "daily" ? selectedDate : getSLDate()}
+        onChanged={fetchTeaSalesData}
+      />
+
+      {showPayment && orgId && (
+        <FactoryPaymentDialog
+          orgId={orgId}
+          factories={factoryList}
+          onClose={() => setShowPayment(false)}
+          onSaved={() => {
+            setShowPayment(false)
+            fetchTeaSalesData()
+          }}
+        />
+      )}
+
       {/* Add/Edit Sale Form Modal */}
       {showForm && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
-          <Card className="w-full max-w-md">
+          <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">{editingSale ? 'Edit Sale' : 'Record Sale'}</CardTitle>
+                <CardTitle className="text-base">{editingSale ? t("teaSales.editSale") : t("teaSales.recordSale")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleCloseForm}>
                   <X className="h-4 w-4" />
                 </Button>
@@ -837,68 +949,44 @@ export function TeaSalesManager() {
               <form onSubmit={handleSubmit} className="space-y-3">
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
-                    <Label htmlFor="date" className="text-xs">Date *</Label>
+                    <Label htmlFor="date" className="text-xs">{t("teaSales.form.date")}</Label>
                     <Input
                       id="date"
                       type="date"
                       value={formData.date}
-                      onChange={(e) => setFormData({...formData, date: e.target.value})}
+                      onChange={(e) => handleDateChange(e.target.value)}
                       required
                       className="h-8"
                     />
                   </div>
                   <div className="space-y-1.5">
-                    <Label className="text-xs">Factory *</Label>
-                    {!editingSale && !useCustomFactory ? (
-                      <Select
-                        value={formData.factory_name}
-                        onValueChange={handleFactorySelect}
-                      >
-                        <SelectTrigger className="h-8 w-full">
-                          <SelectValue placeholder="Select factory" className="truncate" />
-                        </SelectTrigger>
-                        <SelectContent position="popper" className="max-h-[200px] w-[var(--radix-select-trigger-width)] overflow-y-auto" sideOffset={4} align="start">
-                          {factoryRates.map((factory) => (
-                            <SelectItem key={factory.id} value={factory.factory_name}>
-                              <span className="text-sm truncate">{factory.factory_name}</span>
-                            </SelectItem>
-                          ))}
-                          <SelectItem value="__custom__">
-                            <span className="text-muted-foreground text-sm">+ New factory</span>
+                    <Label className="text-xs">{t("teaSales.form.factory")}</Label>
+                    <Select
+                      value={formData.factory_id}
+                      onValueChange={handleFactorySelect}
+                    >
+                      <SelectTrigger className="h-8 w-full">
+                        <SelectValue placeholder={t("teaSales.form.selectFactory")} className="truncate" />
+                      </SelectTrigger>
+                      <SelectContent position="popper" className="max-h-[200px] w-[var(--radix-select-trigger-width)] overflow-y-auto" sideOffset={4} align="start">
+                        {selectableFactories.map((factory) => (
+                          <SelectItem key={factory.id} value={factory.id}>
+                            <span className="text-sm truncate">{factory.name}</span>
                           </SelectItem>
-                        </SelectContent>
-                      </Select>
-                    ) : (
-                      <div className="flex gap-1.5">
-                        <Input
-                          value={formData.factory_name}
-                          onChange={(e) => setFormData({...formData, factory_name: e.target.value})}
-                          placeholder="Factory name"
-                          required
-                          className="h-8 flex-1"
-                        />
-                        {!editingSale && (
-                          <Button 
-                            type="button" 
-                            variant="outline" 
-                            size="sm"
-                            className="h-8 px-2"
-                            onClick={() => {
-                              setUseCustomFactory(false)
-                              setFormData({...formData, factory_name: '', rate_per_kg: ''})
-                            }}
-                          >
-                            <X className="h-3 w-3" />
-                          </Button>
-                        )}
-                      </div>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {factoryList.length === 0 && (
+                      <Link href="/dashboard/factory-rates" className="text-[10px] text-primary hover:underline">
+                        {t("teaSales.form.addFactoryFirst")}
+                      </Link>
                     )}
                   </div>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
-                    <Label htmlFor="kg_delivered" className="text-xs">KG Delivered *</Label>
+                    <Label htmlFor="kg_delivered" className="text-xs">{t("teaSales.form.kgDelivered")}</Label>
                     <Input
                       id="kg_delivered"
                       type="number"
@@ -911,7 +999,7 @@ export function TeaSalesManager() {
                     />
                   </div>
                   <div className="space-y-1.5">
-                    <Label htmlFor="rate_per_kg" className="text-xs">Rate/KG (රු.) *</Label>
+                    <Label htmlFor="rate_per_kg" className="text-xs">{t("teaSales.form.rate")}</Label>
                     <Input
                       id="rate_per_kg"
                       type="number"
@@ -925,36 +1013,50 @@ export function TeaSalesManager() {
                   </div>
                 </div>
 
-                {/* Calculated Total Preview */}
-                {formData.kg_delivered && formData.rate_per_kg && (
-                  <div className="p-2 bg-muted/50 rounded-md">
-                    <div className="flex justify-between items-center">
-                      <span className="text-xs text-muted-foreground">Total:</span>
-                      <span className="font-bold">
-                        {formatCurrency(parseFloat(formData.kg_delivered) * parseFloat(formData.rate_per_kg))}
-                      </span>
-                    </div>
+                {rateMismatch && (
+                  <div className="flex items-center justify-between gap-2 rounded-md border border-amber-200 bg-amber-50 px-2 py-1.5 text-xs text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200">
+                    <span className="flex items-center gap-1.5">
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                      {t("teaSales.rateMismatch", { factory: selectedFactory?.name ?? '', rate: money(effectiveRate), date: formatDate(formData.date) })}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setFormData({...formData, rate_per_kg: effectiveRate.toString()})}
+                    >
+                      {t("teaSales.useRate", { rate: effectiveRate })}
+                    </Button>
                   </div>
                 )}
 
+                {/* Deductions and net income preview */}
+                <DeductionLinesEditor
+                  lines={deductionLines}
+                  onChange={setDeductionLines}
+                  kg={parseFloat(formData.kg_delivered) || 0}
+                  rate={parseFloat(formData.rate_per_kg) || 0}
+                />
+
                 <div className="space-y-1.5">
-                  <Label htmlFor="notes" className="text-xs">Notes</Label>
+                  <Label htmlFor="notes" className="text-xs">{t("common.notes")}</Label>
                   <Input
                     id="notes"
                     value={formData.notes}
                     onChange={(e) => setFormData({...formData, notes: e.target.value})}
-                    placeholder="Optional notes"
+                    placeholder={t("teaSales.form.notesPlaceholder")}
                     className="h-8"
                   />
                 </div>
                 
                 <div className="flex gap-2 justify-end pt-2">
                   <Button type="button" variant="outline" size="sm" onClick={handleCloseForm}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={formLoading}>
                     {formLoading && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
-                    {editingSale ? 'Update' : 'Save'}
+                    {editingSale ? t("teaSales.update") : t("common.save")}
                   </Button>
                 </div>
               </form>
@@ -0,0 +1,54 @@
+"use client"
+
+import { useMemo } from "react"
+
+import { useTranslation } from "@/hooks/use-translation"
+import { LeafTripWithDeliveries, transportCostByFactory } from "@/lib/leaf-trips"
+
+const ONE_DECIMAL = { minimumFractionDigits: 1, maximumFractionDigits: 1 }
+
+// Trip costs shared out by kg carried, giving what it costs to get a kg of leaf to each factory
+export function TransportCosts({ trips }: { trips: LeafTripWithDeliveries[] }) {
+  const { t, number, money } = useTranslation()
+  const rows = useMemo(() => transportCostByFactory(trips), [trips])
+  if (rows.length === 0) return null
+
+  const totalKg = rows.reduce((sum, row) => sum + row.kg, 0)
+  const totalCost = rows.reduce((sum, row) => sum + row.cost, 0)
+
+  return (
+    <div className="overflow-auto rounded-md border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium px-3 py-2">{t("teaSales.factory")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("trips.trips")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("trips.kgCarriedColumn")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("trips.transportCost")}</th>
+            <th className="text-right font-medium px-3 py-2">{t("trips.costPerKg")}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map(row => (
+            <tr key={row.factory}>
+              <td className="px-3 py-2">{row.factory}</td>
+              <td className="px-3 py-2 text-right">{row.trips}</td>
+              <td className="px-3 py-2 text-right">{number(row.kg, ONE_DECIMAL)}</td>
+              <td className="px-3 py-2 text-right">{money(row.cost)}</td>
+              <td className="px-3 py-2 text-right font-medium">{row.kg > 0 ? money(row.costPerKg) : '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t bg-muted/30 font-medium">
+          <tr>
+            <td className="px-3 py-2">{t("common.total")}</td>
+            <td className="px-3 py-2 text-right">{trips.length}</td>
+            <td className="px-3 py-2 text-right">{number(totalKg, ONE_DECIMAL)}</td>
+            <td className="px-3 py-2 text-right">{money(totalCost)}</td>
+            <td className="px-3 py-2 text-right">{totalKg > 0 ? money(totalCost / totalKg) : '-'}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  )
+}
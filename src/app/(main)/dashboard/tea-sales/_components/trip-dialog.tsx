@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+
+import { Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useTranslation } from "@/hooks/use-translation"
+import { LeafTripWithDeliveries, saveLeafTrip } from "@/lib/leaf-trips"
+
+export interface TripSale {
+  id: string
+  date: string
+  factory_name: string
+  kg_delivered: number
+  trip_id?: string | null
+}
+
+interface TripDialogProps {
+  orgId: string
+  trip: LeafTripWithDeliveries | null
+  sales: TripSale[]
+  defaultDate: string
+  onClose: () => void
+  onSaved: () => void
+}
+
+function toForm(trip: LeafTripWithDeliveries | null, defaultDate: string) {
+  if (!trip) {
+    return { trip_date: defaultDate, departure_time: '', vehicle_number: '', driver_name: '', cost: '', notes: '' }
+  }
+  return {
+    trip_date: trip.trip_date,
+    departure_time: trip.departure_time?.slice(0, 5) ?? '',
+    vehicle_number: trip.vehicle_number,
+    driver_name: trip.driver_name ?? '',
+    cost: String(trip.cost),
+    notes: trip.notes ?? '',
+  }
+}
+
+// Records a collection trip and the deliveries it carried that day
+export function TripDialog({ orgId, trip, sales, defaultDate, onClose, onSaved }: TripDialogProps) {
+  const l = useTranslation()
+  const { t, money } = l
+  const [form, setForm] = useState(() => toForm(trip, defaultDate))
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(trip?.tea_sales.map(sale => sale.id) ?? []))
+  const [saving, setSaving] = useState(false)
+
+  // Deliveries on the trip date that are free or already on this trip
+  const available = sales.filter(sale => sale.date === form.trip_date && (!sale.trip_id || sale.trip_id === trip?.id))
+  const chosen = available.filter(sale => selected.has(sale.id))
+  const kg = chosen.reduce((sum, sale) => sum + Number(sale.kg_delivered), 0)
+  const cost = parseFloat(form.cost) || 0
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected)
+    if (checked) next.add(id)
+    else next.delete(id)
+    setSelected(next)
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!form.vehicle_number.trim()) {
+      toast.error(t("trips.vehicleRequired"))
+      return
+    }
+
+    setSaving(true)
+    try {
+      await saveLeafTrip(orgId, { ...form, cost }, chosen.map(sale => sale.id), trip?.id)
+      toast.success(trip ? t("trips.updated") : t("trips.recorded"))
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving trip:', error)
+      toast.error(error.message ?? t("trips.saveFailed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-base">{trip ? t("trips.edit") : t("trips.record")}</CardTitle>
+              <CardDescription className="text-xs">{t("trips.description")}</CardDescription>
+            </div>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="trip_date" className="text-xs">{t("teaSales.form.date")}</Label>
+                <Input
+                  id="trip_date"
+                  type="date"
+                  value={form.trip_date}
+                  onChange={(e) => setForm({ ...form, trip_date: e.target.value })}
+                  required
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="departure_time" className="text-xs">{t("trips.departureTime")}</Label>
+                <Input
+                  id="departure_time"
+                  type="time"
+                  value={form.departure_time}
+                  onChange={(e) => setForm({ ...form, departure_time: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="vehicle_number" className="text-xs">{t("trips.vehicle")}</Label>
+                <Input
+                  id="vehicle_number"
+                  value={form.vehicle_number}
+                  onChange={(e) => setForm({ ...form, vehicle_number: e.target.value })}
+                  placeholder={t("trips.vehiclePlaceholder")}
+                  required
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="driver_name" className="text-xs">{t("trips.driver")}</Label>
+                <Input
+                  id="driver_name"
+                  value={form.driver_name}
+                  onChange={(e) => setForm({ ...form, driver_name: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="trip_cost" className="text-xs">{t("trips.cost")}</Label>
+                <Input
+                  id="trip_cost"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.cost}
+                  onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                  placeholder={t("trips.costPlaceholder")}
+                  required
+                  className="h-8"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="trip_notes" className="text-xs">{t("common.notes")}</Label>
+                <Input
+                  id="trip_notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="h-8"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t("trips.deliveriesOn", { date: l.date(form.trip_date) })}</Label>
+              {available.length === 0 ? (
+                <p className="text-xs text-muted-foreground py-2">{t("trips.noDeliveries")}</p>
+              ) : (
+                <div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+                  {available.map(sale => (
+                    <label key={sale.id} className="flex items-center gap-2 px-2 py-1.5 text-xs cursor-pointer">
+                      <Checkbox checked={selected.has(sale.id)} onCheckedChange={(checked) => toggle(sale.id, checked === true)} />
+                      <span className="flex-1">{sale.factory_name}</span>
+                      <span className="text-muted-foreground">{l.kg(Number(sale.kg_delivered))}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="p-2 bg-muted/50 rounded-md flex justify-between text-xs">
+              <span className="text-muted-foreground">{t("trips.kgCarried", { kg: l.kg(kg) })}</span>
+              <span>{kg > 0 ? t("teaSales.perKg", { amount: money(cost / kg) }) : '-'}</span>
+            </div>
+
+            <div className="flex gap-2 justify-end pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={onClose}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit" size="sm" disabled={saving}>
+                {saving && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+                {trip ? t("trips.update") : t("trips.record")}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
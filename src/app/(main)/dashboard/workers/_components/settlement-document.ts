@@ -0,0 +1,140 @@
+// HTML for the printable final settlement given to a worker on termination
+
+import type { Localizer } from "@/lib/i18n"
+import { FinalSettlement, GRATUITY_MIN_YEARS } from "@/lib/settlement"
+import { imagesLoaded } from "@/lib/signatures"
+import { supabase } from "@/lib/supabase"
+import { escapeHtml } from "@/lib/utils"
+
+export interface SettlementWorkerDetails {
+  name: string
+  employee_id: string
+  hire_date: string | null
+}
+
+interface SettlementOrganization {
+  name: string
+  logo_url: string | null
+}
+
+async function fetchSettlementOrganization(orgId: string): Promise<SettlementOrganization> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('name, logo_url')
+    .eq('id', orgId)
+    .single()
+
+  if (error) throw error
+  return { name: data?.name ?? '', logo_url: data?.logo_url ?? null }
+}
+
+function row(label: string, amount: string, className = '') {
+  return `<tr class="${className}"><td>${label}</td><td class="number">${amount}</td></tr>`
+}
+
+function describeGratuity(settlement: FinalSettlement, { t, money }: Localizer) {
+  const years = settlement.years_of_service
+  if (years < GRATUITY_MIN_YEARS) {
+    return t('settlement.notEligible', { years, required: GRATUITY_MIN_YEARS })
+  }
+  return settlement.monthly_salary
+    ? t('settlement.gratuityMonthly', { years, salary: money(settlement.monthly_salary) })
+    : t('settlement.gratuityDaily', { years, wage: money(settlement.gratuity_daily_wage) })
+}
+
+function renderAmounts(settlement: FinalSettlement, l: Localizer) {
+  const { t, money } = l
+  const month = l.date(settlement.termination_date, 'month')
+  const wagesNote = settlement.wages_already_paid
+    ? t('settlement.wagesAlreadyPaid', { month })
+    : t('settlement.daysWorked', { days: settlement.days_worked, month })
+  return `
+    <table>
+      <tbody>
+        ${row(`${t('settlement.wagesFor', { month })}<div class="muted">${wagesNote}</div>`, money(settlement.wages))}
+        ${settlement.wages_already_paid ? '' : row(t('settlement.lessEpf'), `- ${money(settlement.epf_employee)}`)}
+        ${settlement.wages_paid > 0 ? row(t('settlement.lessPaid', { month }), `- ${money(settlement.wages_paid)}`) : ''}
+        ${row(t('termination.wagesDue'), money(settlement.wages_due), 'total')}
+        ${row(t('settlement.lessAdvances'), `- ${money(settlement.advance_outstanding)}`)}
+        ${row(`${t('termination.gratuity')}<div class="muted">${describeGratuity(settlement, l)}</div>`, money(settlement.gratuity))}
+      </tbody>
+    </table>
+    <div class="net">
+      ${settlement.net_payable >= 0 ? t('settlement.netPayable') : t('settlement.owedByWorker')}
+      <span>${money(Math.abs(settlement.net_payable))}</span>
+    </div>
+  `
+}
+
+export function renderSettlement(settlement: FinalSettlement, worker: SettlementWorkerDetails, org: SettlementOrganization, l: Localizer) {
+  const { t } = l
+  return `
+    <html lang="${l.language}">
+      <head>
+        <meta charset="utf-8" />
+        <title>${t('settlement.documentTitle', { name: escapeHtml(worker.name) })}</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body { font-family: Arial, 'Noto Sans Sinhala', 'Noto Sans Tamil', sans-serif; color: #333; font-size: 12px; padding: 32px; }
+          .header { display: flex; align-items: center; gap: 12px; border-bottom: 2px solid #333; padding-bottom: 12px; margin-bottom: 16px; }
+          .logo { height: 48px; width: 48px; object-fit: contain; }
+          h1 { font-size: 18px; }
+          .muted { color: #666; font-size: 11px; }
+          .worker { display: grid; grid-template-columns: repeat(2, 1fr); gap: 8px; margin-bottom: 16px; }
+          .worker div { display: flex; flex-direction: column; gap: 2px; }
+          table { width: 100%; border-collapse: collapse; }
+          td { border: 1px solid #ddd; padding: 6px 8px; vertical-align: top; }
+          .number { text-align: right; white-space: nowrap; }
+          .total td { font-weight: bold; }
+          .net { margin-top: 12px; padding: 10px; background: #f5f5f5; font-size: 14px; font-weight: bold; display: flex; justify-content: space-between; }
+          .signature { display: grid; grid-template-columns: 1fr 1fr; gap: 48px; margin-top: 56px; }
+          .signature div { border-top: 1px solid #333; padding-top: 4px; text-align: center; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          ${org.logo_url ? `<img src="${escapeHtml(org.logo_url)}" alt="" class="logo" />` : ''}
+          <div>
+            <h1>${escapeHtml(org.name)}</h1>
+            <p class="muted">${t('settlement.title')}</p>
+          </div>
+        </div>
+        <div class="worker">
+          <div><span class="muted">${t('common.worker')}</span><strong>${escapeHtml(worker.name)}</strong></div>
+          <div><span class="muted">${t('common.employeeId')}</span><strong>${escapeHtml(worker.employee_id)}</strong></div>
+          <div><span class="muted">${t('workers.hired')}</span><strong>${worker.hire_date ? l.date(worker.hire_date) : '-'}</strong></div>
+          <div><span class="muted">${t('settlement.lastWorkingDay')}</span><strong>${l.date(settlement.termination_date)}</strong></div>
+          <div><span class="muted">${t('settlement.service')}</span><strong>${t('settlement.completedYears', { years: settlement.years_of_service })}</strong></div>
+          <div><span class="muted">${t('common.reason')}</span><strong>${escapeHtml(settlement.reason)}</strong></div>
+        </div>
+        ${renderAmounts(settlement, l)}
+        <div class="signature">
+          <div>${t('payslip.paidBy')}</div>
+          <div>${t('settlement.receivedBy')}</div>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+// The window is opened before settle runs so the browser treats it as user initiated
+export async function printSettlement(
+  orgId: string,
+  worker: SettlementWorkerDetails,
+  l: Localizer,
+  settle: () => Promise<FinalSettlement>
+) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) throw new Error(l.t('settlement.allowPopups'))
+
+  try {
+    const [settlement, org] = await Promise.all([settle(), fetchSettlementOrganization(orgId)])
+    printWindow.document.write(renderSettlement(settlement, worker, org, l))
+    printWindow.document.close()
+    await imagesLoaded(printWindow.document)
+    printWindow.print()
+  } catch (error) {
+    printWindow.close()
+    throw error
+  }
+}
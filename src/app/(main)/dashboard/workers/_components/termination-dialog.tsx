@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { Loader2, Printer, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Localizer } from "@/lib/i18n"
+import { FinalSettlement, GRATUITY_MIN_YEARS, SettlementWorker, calculateSettlement, terminateWorker } from "@/lib/settlement"
+
+import { SettlementWorkerDetails, printSettlement } from "./settlement-document"
+
+interface TerminationDialogProps {
+  orgId: string
+  worker: SettlementWorker & SettlementWorkerDetails
+  initialDate: string
+  onClose: () => void
+  onTerminated: () => void
+}
+
+function SettlementLine({ label, amount, note }: { label: string, amount: string, note?: string }) {
+  return (
+    <div className="flex justify-between gap-3 py-1.5 border-b last:border-0">
+      <div>
+        <p>{label}</p>
+        {note && <p className="text-xs text-muted-foreground">{note}</p>}
+      </div>
+      <span className="tabular-nums whitespace-nowrap">{amount}</span>
+    </div>
+  )
+}
+
+function wagesNote(settlement: FinalSettlement, { t, money }: Localizer) {
+  if (settlement.wages_already_paid) return t("termination.wagesAlreadyPaid")
+  const amounts = { days: settlement.days_worked, epf: money(settlement.epf_employee), paid: money(settlement.wages_paid) }
+  return t(settlement.wages_paid > 0 ? "termination.wagesNotePaid" : "termination.wagesNote", amounts)
+}
+
+function SettlementPreview({ settlement }: { settlement: FinalSettlement }) {
+  const l = useTranslation()
+  const { t, money } = l
+  const gratuityNote = settlement.years_of_service < GRATUITY_MIN_YEARS
+    ? t("termination.serviceDue", { years: settlement.years_of_service, required: GRATUITY_MIN_YEARS })
+    : t("termination.service", { years: settlement.years_of_service })
+
+  return (
+    <div className="rounded-md border px-3 text-sm">
+      <SettlementLine
+        label={t("termination.wagesDue")}
+        amount={money(settlement.wages_due)}
+        note={wagesNote(settlement, l)}
+      />
+      <SettlementLine label={t("termination.outstandingAdvances")} amount={`- ${money(settlement.advance_outstanding)}`} />
+      <SettlementLine label={t("termination.gratuity")} amount={money(settlement.gratuity)} note={gratuityNote} />
+      <div className="flex justify-between py-2 font-semibold">
+        <span>{settlement.net_payable >= 0 ? t("termination.netPayable") : t("termination.owedByWorker")}</span>
+        <span className="tabular-nums">{money(Math.abs(settlement.net_payable))}</span>
+      </div>
+    </div>
+  )
+}
+
+export function TerminationDialog({ orgId, worker, initialDate, onClose, onTerminated }: TerminationDialogProps) {
+  const l = useTranslation()
+  const { t } = l
+  const [terminationDate, setTerminationDate] = useState(initialDate)
+  const [reason, setReason] = useState('')
+  const [settlement, setSettlement] = useState<FinalSettlement | null>(null)
+  const [calculating, setCalculating] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (terminationDate) calculate()
+  }, [orgId, worker.id, terminationDate])
+
+  async function calculate() {
+    setCalculating(true)
+    try {
+      setSettlement(await calculateSettlement(orgId, worker, terminationDate, ''))
+    } catch (error: any) {
+      console.error('Error calculating settlement:', error?.message ?? error)
+      toast.error(t("termination.calculateFailed"))
+      setSettlement(null)
+    } finally {
+      setCalculating(false)
+    }
+  }
+
+  async function handleTerminate() {
+    if (!settlement || !reason.trim()) {
+      toast.error(t("termination.reasonRequired"))
+      return
+    }
+    if (!confirm(t("termination.confirm", { name: worker.name, date: l.date(terminationDate) }))) return
+
+    setSaving(true)
+    const final = { ...settlement, reason: reason.trim() }
+    try {
+      await printSettlement(orgId, worker, l, async () => {
+        await terminateWorker(orgId, final)
+        return final
+      })
+      toast.success(t("termination.terminated", { name: worker.name }))
+      onTerminated()
+    } catch (error: any) {
+      console.error('Error terminating worker:', error)
+      toast.error(error.message ?? t("termination.failed"))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md max-h-[90vh] overflow-auto">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">{t("termination.title", { name: worker.name })}</CardTitle>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            {t("termination.description")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="termination_date" className="text-xs">{t("termination.lastWorkingDay")}</Label>
+            <Input
+              id="termination_date"
+              type="date"
+              value={terminationDate}
+              min={worker.hire_date ?? undefined}
+              onChange={(e) => setTerminationDate(e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="termination_reason" className="text-xs">{t("termination.reason")}</Label>
+            <Textarea
+              id="termination_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t("termination.reasonPlaceholder")}
+              rows={2}
+            />
+          </div>
+
+          {calculating ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : settlement && <SettlementPreview settlement={settlement} />}
+
+          <div className="flex gap-2 justify-end pt-2">
+            <Button variant="outline" size="sm" onClick={onClose}>
+              {t("common.cancel")}
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleTerminate} disabled={calculating || saving || !settlement}>
+              {saving ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <Printer className="h-3.5 w-3.5 mr-1.5" />}
+              {t("termination.submit")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
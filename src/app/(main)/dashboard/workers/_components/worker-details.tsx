@@ -6,9 +6,9 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useTranslation } from "@/hooks/use-translation"
 import { supabase } from "@/lib/supabase"
 import { WorkerWithPlantation, HarvestRecordWithPlantation } from "@/types/database"
-import { formatCurrency } from "@/lib/utils"
 
 interface WorkerDetailsProps {
   worker: WorkerWithPlantation
@@ -17,6 +17,7 @@ interface WorkerDetailsProps {
 }
 
 export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
+  const { t, date, number, kg, money } = useTranslation()
   const [recentHarvests, setRecentHarvests] = useState<HarvestRecordWithPlantation[]>([])
   const [stats, setStats] = useState({
     totalHarvests: 0,
@@ -93,10 +94,10 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
                   {worker.first_name} {worker.last_name}
                 </CardTitle>
                 <Badge variant={getRoleBadgeVariant(worker.role)}>
-                  {worker.role.replace('_', ' ')}
+                  {t(`role.${worker.role}`)}
                 </Badge>
                 <Badge variant={worker.status === 'active' ? 'default' : 'secondary'}>
-                  {worker.status}
+                  {t(`workers.status.${worker.status}`)}
                 </Badge>
               </div>
               <CardDescription className="flex items-center gap-2 mt-2">
@@ -107,7 +108,7 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
             <div className="flex gap-2">
               <Button variant="default" onClick={onEdit}>
                 <Edit className="h-4 w-4 mr-2" />
-                Edit
+                {t("common.edit")}
               </Button>
               <Button variant="ghost" size="sm" onClick={onClose}>
                 <X className="h-4 w-4" />
@@ -118,10 +119,10 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
         <CardContent>
           <Tabs defaultValue="overview" className="w-full">
             <TabsList className="grid w-full grid-cols-4">
-              <TabsTrigger value="overview">Overview</TabsTrigger>
-              <TabsTrigger value="performance">Performance</TabsTrigger>
-              <TabsTrigger value="harvest">Harvest History</TabsTrigger>
-              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="overview">{t("workers.details.overview")}</TabsTrigger>
+              <TabsTrigger value="performance">{t("workers.details.performance")}</TabsTrigger>
+              <TabsTrigger value="harvest">{t("workers.details.harvestHistory")}</TabsTrigger>
+              <TabsTrigger value="details">{t("workers.details.details")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-6">
@@ -129,50 +130,50 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
                 <Card>
                   <CardContent className="p-4">
                     <div className="text-2xl font-bold">{stats.totalHarvests}</div>
-                    <p className="text-sm text-muted-foreground">Total Harvests</p>
+                    <p className="text-sm text-muted-foreground">{t("workers.details.totalHarvests")}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="p-4">
-                    <div className="text-2xl font-bold">{stats.monthlyHarvest.toFixed(0)} kg</div>
-                    <p className="text-sm text-muted-foreground">This Month</p>
+                    <div className="text-2xl font-bold">{kg(stats.monthlyHarvest)}</div>
+                    <p className="text-sm text-muted-foreground">{t("workers.details.thisMonth")}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="p-4">
-                    <div className="text-2xl font-bold">{stats.avgDailyOutput.toFixed(1)} kg</div>
-                    <p className="text-sm text-muted-foreground">Avg Daily Output</p>
+                    <div className="text-2xl font-bold">{kg(stats.avgDailyOutput)}</div>
+                    <p className="text-sm text-muted-foreground">{t("workers.details.avgDailyOutput")}</p>
                   </CardContent>
                 </Card>
                 <Card>
                   <CardContent className="p-4">
                     <div className="text-2xl font-bold">
-                      {worker.salary ? formatCurrency(worker.salary) : 'N/A'}
+                      {worker.salary ? money(worker.salary) : t("workers.details.notAvailable")}
                     </div>
-                    <p className="text-sm text-muted-foreground">Monthly Salary</p>
+                    <p className="text-sm text-muted-foreground">{t("workers.details.monthlySalary")}</p>
                   </CardContent>
                 </Card>
               </div>
 
               <Card>
                 <CardHeader>
-                  <CardTitle>Personal Information</CardTitle>
+                  <CardTitle>{t("workers.details.personalInfo")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid gap-4 md:grid-cols-2">
                     <div className="flex items-center gap-3">
                       <Phone className="h-5 w-5 text-green-600" />
                       <div>
-                        <p className="font-medium">Phone</p>
-                        <p className="text-sm text-muted-foreground">{worker.phone || 'Not provided'}</p>
+                        <p className="font-medium">{t("common.phone")}</p>
+                        <p className="text-sm text-muted-foreground">{worker.phone || t("workers.details.notProvided")}</p>
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
                       <MapPin className="h-5 w-5 text-red-600" />
                       <div>
-                        <p className="font-medium">Assigned Plantation</p>
+                        <p className="font-medium">{t("workers.details.assignedPlantation")}</p>
                         <p className="text-sm text-muted-foreground">
-                          {worker.plantation?.name || 'Unassigned'}
+                          {worker.plantation?.name || t("workers.form.unassigned")}
                         </p>
                         {worker.plantation?.location && (
                           <p className="text-xs text-muted-foreground">{worker.plantation.location}</p>
@@ -182,13 +183,13 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
                     <div className="flex items-center gap-3">
                       <Calendar className="h-5 w-5 text-orange-600" />
                       <div>
-                        <p className="font-medium">Hire Date</p>
+                        <p className="font-medium">{t("common.hireDate")}</p>
                         <p className="text-sm text-muted-foreground">
-                          {worker.hire_date ? new Date(worker.hire_date).toLocaleDateString() : 'Not specified'}
+                          {worker.hire_date ? date(worker.hire_date) : t("workers.details.notSpecified")}
                         </p>
                         {worker.hire_date && (
                           <p className="text-xs text-muted-foreground">
-                            {Math.floor((Date.now() - new Date(worker.hire_date).getTime()) / (1000 * 60 * 60 * 24 * 365))} years of service
+                            {t("workers.details.yearsOfService", { years: Math.floor((Date.now() - new Date(worker.hire_date).getTime()) / (1000 * 60 * 60 * 24 * 365)) })}
                           </p>
                         )}
                       </div>
@@ -201,43 +202,43 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
             <TabsContent value="performance" className="space-y-4">
               <Card>
                 <CardHeader>
-                  <CardTitle>Performance Metrics</CardTitle>
+                  <CardTitle>{t("workers.details.performanceMetrics")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
                     <div className="flex justify-between items-center p-3 border rounded-lg">
                       <div>
-                        <p className="font-medium">Monthly Harvest Target</p>
-                        <p className="text-sm text-muted-foreground">Based on role and experience</p>
+                        <p className="font-medium">{t("workers.details.harvestTarget")}</p>
+                        <p className="text-sm text-muted-foreground">{t("workers.details.targetBasis")}</p>
                       </div>
                       <div className="text-right">
                         <p className="text-lg font-bold">
-                          {worker.role === 'picker' ? '1000 kg' : 'Management Role'}
+                          {worker.role === 'picker' ? kg(1000) : t("workers.details.managementRole")}
                         </p>
                       </div>
                     </div>
                     <div className="flex justify-between items-center p-3 border rounded-lg">
                       <div>
-                        <p className="font-medium">Monthly Achievement</p>
-                        <p className="text-sm text-muted-foreground">Current month progress</p>
+                        <p className="font-medium">{t("workers.details.achievement")}</p>
+                        <p className="text-sm text-muted-foreground">{t("workers.details.achievementBasis")}</p>
                       </div>
                       <div className="text-right">
-                        <p className="text-lg font-bold">{stats.monthlyHarvest.toFixed(0)} kg</p>
+                        <p className="text-lg font-bold">{kg(stats.monthlyHarvest)}</p>
                         {worker.role === 'picker' && (
                           <p className="text-sm text-muted-foreground">
-                            {((stats.monthlyHarvest / 1000) * 100).toFixed(1)}% of target
+                            {t("workers.details.ofTarget", { percent: number((stats.monthlyHarvest / 1000) * 100, { maximumFractionDigits: 1 }) })}
                           </p>
                         )}
                       </div>
                     </div>
                     <div className="flex justify-between items-center p-3 border rounded-lg">
                       <div>
-                        <p className="font-medium">Average Quality Grade</p>
-                        <p className="text-sm text-muted-foreground">Based on recent harvests</p>
+                        <p className="font-medium">{t("workers.details.qualityGrade")}</p>
+                        <p className="text-sm text-muted-foreground">{t("workers.details.qualityBasis")}</p>
                       </div>
                       <div className="text-right">
-                        <Badge variant="default">Grade B+</Badge>
-                        <p className="text-sm text-muted-foreground">Improving</p>
+                        <Badge variant="default">{t("workers.details.grade", { grade: "B+" })}</Badge>
+                        <p className="text-sm text-muted-foreground">{t("workers.details.improving")}</p>
                       </div>
                     </div>
                   </div>
@@ -248,33 +249,33 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
             <TabsContent value="harvest" className="space-y-4">
               <Card>
                 <CardHeader>
-                  <CardTitle>Recent Harvest Records</CardTitle>
+                  <CardTitle>{t("workers.details.recentHarvests")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     {recentHarvests.map((harvest) => (
                       <div key={harvest.id} className="flex items-center justify-between p-3 border rounded-lg">
                         <div>
-                          <p className="font-medium">{new Date(harvest.harvest_date).toLocaleDateString()}</p>
+                          <p className="font-medium">{date(harvest.harvest_date)}</p>
                           <p className="text-sm text-muted-foreground">
-                            {(harvest.plantation as any)?.name || 'Unknown Plantation'}
+                            {(harvest.plantation as any)?.name || t("workers.details.unknownPlantation")}
                           </p>
                           {harvest.weather_condition && (
                             <p className="text-xs text-muted-foreground">
-                              Weather: {harvest.weather_condition}
+                              {t("workers.details.weather", { weather: harvest.weather_condition })}
                             </p>
                           )}
                         </div>
                         <div className="text-right">
-                          <p className="text-sm font-medium">{harvest.quantity_kg} kg</p>
+                          <p className="text-sm font-medium">{kg(harvest.quantity_kg)}</p>
                           <Badge variant={harvest.grade === 'A' ? 'default' : harvest.grade === 'B' ? 'secondary' : 'destructive'}>
-                            Grade {harvest.grade}
+                            {t("workers.details.grade", { grade: harvest.grade })}
                           </Badge>
                         </div>
                       </div>
                     ))}
                     {recentHarvests.length === 0 && (
-                      <p className="text-center text-muted-foreground py-8">No harvest records found</p>
+                      <p className="text-center text-muted-foreground py-8">{t("workers.details.noHarvests")}</p>
                     )}
                   </div>
                 </CardContent>
@@ -284,33 +285,33 @@ export function WorkerDetails({ worker, onClose, onEdit }: WorkerDetailsProps) {
             <TabsContent value="details" className="space-y-4">
               <Card>
                 <CardHeader>
-                  <CardTitle>System Details</CardTitle>
+                  <CardTitle>{t("workers.details.systemDetails")}</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <div className="grid gap-4 md:grid-cols-2">
                     <div>
-                      <Label className="text-sm font-medium text-muted-foreground">Worker ID</Label>
+                      <Label className="text-sm font-medium text-muted-foreground">{t("workers.details.workerId")}</Label>
                       <p className="font-mono text-sm">{worker.id}</p>
                     </div>
                     <div>
-                      <Label className="text-sm font-medium text-muted-foreground">Employee ID</Label>
+                      <Label className="text-sm font-medium text-muted-foreground">{t("common.employeeId")}</Label>
                       <p className="font-mono text-sm">{worker.employee_id}</p>
                     </div>
                     <div>
-                      <Label className="text-sm font-medium text-muted-foreground">Plantation ID</Label>
-                      <p className="font-mono text-sm">{worker.plantation_id || 'Not assigned'}</p>
+                      <Label className="text-sm font-medium text-muted-foreground">{t("workers.details.plantationId")}</Label>
+                      <p className="font-mono text-sm">{worker.plantation_id || t("workers.details.notAssigned")}</p>
                     </div>
                     <div>
-                      <Label className="text-sm font-medium text-muted-foreground">Role</Label>
-                      <p className="text-sm">{worker.role.replace('_', ' ')}</p>
+                      <Label className="text-sm font-medium text-muted-foreground">{t("common.role")}</Label>
+                      <p className="text-sm">{t(`role.${worker.role}`)}</p>
                     </div>
                     <div>
-                      <Label className="text-sm font-medium text-muted-foreground">Created</Label>
-                      <p className="text-sm">{new Date(worker.created_at).toLocaleDateString()}</p>
+                      <Label className="text-sm font-medium text-muted-foreground">{t("workers.details.created")}</Label>
+                      <p className="text-sm">{date(worker.created_at)}</p>
                     </div>
                     <div>
-                      <Label className="text-sm font-medium text-muted-foreground">Last Updated</Label>
-                      <p className="text-sm">{new Date(worker.updated_at).toLocaleDateString()}</p>
+                      <Label className="text-sm font-medium text-muted-foreground">{t("workers.details.lastUpdated")}</Label>
+                      <p className="text-sm">{date(worker.updated_at)}</p>
                     </div>
                   </div>
                 </CardContent>
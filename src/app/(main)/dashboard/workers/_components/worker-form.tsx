@@ -10,23 +10,26 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useTranslation } from "@/hooks/use-translation"
+import type { Translate } from "@/lib/i18n"
 import { supabase } from "@/lib/supabase"
 import { WorkerWithPlantation, PlantationBasic } from "@/types/database"
 import { toast } from "sonner"
 
-const workerSchema = z.object({
-  employee_id: z.string().min(3, "Employee ID must be at least 3 characters"),
-  first_name: z.string().min(2, "First name must be at least 2 characters"),
-  last_name: z.string().min(2, "Last name must be at least 2 characters"),
+// Built per language so validation messages follow the user's choice
+const workerSchema = (t: Translate) => z.object({
+  employee_id: z.string().min(3, t("workers.error.employeeId")),
+  first_name: z.string().min(2, t("workers.error.firstName")),
+  last_name: z.string().min(2, t("workers.error.lastName")),
   phone: z.string().optional(),
   role: z.enum(["picker", "supervisor", "manager", "quality_controller"]),
   plantation_id: z.string().optional(),
   hire_date: z.string().optional(),
-  salary: z.number().positive("Salary must be positive").optional(),
+  salary: z.number().positive(t("workers.error.salary")).optional(),
   status: z.enum(["active", "inactive", "terminated"]),
 })
 
-type WorkerFormData = z.infer<typeof workerSchema>
+type WorkerFormData = z.infer<ReturnType<typeof workerSchema>>
 
 interface WorkerFormProps {
   worker?: WorkerWithPlantation | null
@@ -34,6 +37,7 @@ interface WorkerFormProps {
 }
 
 export function WorkerForm({ worker, onClose }: WorkerFormProps) {
+  const { t } = useTranslation()
   const [loading, setLoading] = useState(false)
   const [plantations, setPlantations] = useState<PlantationBasic[]>([])
   
@@ -44,7 +48,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
     setValue,
     watch,
   } = useForm<WorkerFormData>({
-    resolver: zodResolver(workerSchema),
+    resolver: zodResolver(workerSchema(t)),
     defaultValues: {
       employee_id: worker?.employee_id || "",
       first_name: worker?.first_name || "",
@@ -98,7 +102,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
           .eq('id', worker.id)
         
         if (error) throw error
-        toast.success("Worker updated successfully")
+        toast.success(t("workers.updated"))
       } else {
         // Create new worker
         const { error } = await supabase
@@ -106,13 +110,13 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
           .insert([cleanData])
         
         if (error) throw error
-        toast.success("Worker created successfully")
+        toast.success(t("workers.created"))
       }
       
       onClose()
     } catch (error: any) {
       console.error('Error saving worker:', error)
-      toast.error(error.message || "Failed to save worker")
+      toast.error(error.message || t("workers.saveFailed"))
     } finally {
       setLoading(false)
     }
@@ -124,9 +128,9 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle>{worker ? 'Edit Worker' : 'Add New Worker'}</CardTitle>
+              <CardTitle>{worker ? t("workers.edit") : t("workers.form.newTitle")}</CardTitle>
               <CardDescription>
-                {worker ? 'Update worker details' : 'Add a new worker to your plantation workforce'}
+                {worker ? t("workers.form.editDescription") : t("workers.form.newDescription")}
               </CardDescription>
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
@@ -138,7 +142,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
-                <Label htmlFor="employee_id">Employee ID *</Label>
+                <Label htmlFor="employee_id">{t("workers.employeeId")}</Label>
                 <Input
                   id="employee_id"
                   {...register("employee_id")}
@@ -150,19 +154,19 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="role">Role *</Label>
+                <Label htmlFor="role">{t("workers.form.role")}</Label>
                 <Select
                   onValueChange={(value) => setValue("role", value as any)}
                   defaultValue={watch("role")}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select role" />
+                    <SelectValue placeholder={t("workers.form.selectRole")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="picker">Picker</SelectItem>
-                    <SelectItem value="supervisor">Supervisor</SelectItem>
-                    <SelectItem value="manager">Manager</SelectItem>
-                    <SelectItem value="quality_controller">Quality Controller</SelectItem>
+                    <SelectItem value="picker">{t("role.picker")}</SelectItem>
+                    <SelectItem value="supervisor">{t("role.supervisor")}</SelectItem>
+                    <SelectItem value="manager">{t("role.manager")}</SelectItem>
+                    <SelectItem value="quality_controller">{t("role.quality_controller")}</SelectItem>
                   </SelectContent>
                 </Select>
                 {errors.role && (
@@ -171,7 +175,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="first_name">First Name *</Label>
+                <Label htmlFor="first_name">{t("workers.firstName")}</Label>
                 <Input
                   id="first_name"
                   {...register("first_name")}
@@ -183,7 +187,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="last_name">Last Name *</Label>
+                <Label htmlFor="last_name">{t("workers.form.lastName")}</Label>
                 <Input
                   id="last_name"
                   {...register("last_name")}
@@ -195,7 +199,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="phone">Phone</Label>
+                <Label htmlFor="phone">{t("common.phone")}</Label>
                 <Input
                   id="phone"
                   {...register("phone")}
@@ -204,16 +208,16 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="plantation_id">Plantation</Label>
+                <Label htmlFor="plantation_id">{t("workers.form.plantation")}</Label>
                 <Select
                   onValueChange={(value) => setValue("plantation_id", value)}
                   defaultValue={watch("plantation_id")}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select plantation" />
+                    <SelectValue placeholder={t("workers.form.selectPlantation")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    <SelectItem value="unassigned">{t("workers.form.unassigned")}</SelectItem>
                     {plantations.map((plantation) => (
                       <SelectItem key={plantation.id} value={plantation.id}>
                         {plantation.name} - {plantation.location}
@@ -224,7 +228,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="hire_date">Hire Date</Label>
+                <Label htmlFor="hire_date">{t("common.hireDate")}</Label>
                 <Input
                   id="hire_date"
                   type="date"
@@ -233,7 +237,7 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="salary">Monthly Salary (LKR)</Label>
+                <Label htmlFor="salary">{t("workers.form.salary")}</Label>
                 <Input
                   id="salary"
                   type="number"
@@ -247,18 +251,18 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
+                <Label htmlFor="status">{t("common.status")}</Label>
                 <Select
                   onValueChange={(value) => setValue("status", value as any)}
                   defaultValue={watch("status")}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select status" />
+                    <SelectValue placeholder={t("workers.form.selectStatus")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="inactive">Inactive</SelectItem>
-                    <SelectItem value="terminated">Terminated</SelectItem>
+                    <SelectItem value="active">{t("workers.status.active")}</SelectItem>
+                    <SelectItem value="inactive">{t("workers.status.inactive")}</SelectItem>
+                    <SelectItem value="terminated">{t("workers.status.terminated")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -266,12 +270,12 @@ export function WorkerForm({ worker, onClose }: WorkerFormProps) {
 
             <div className="flex gap-2 justify-end">
               <Button type="button" variant="outline" onClick={onClose}>
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button type="submit" disabled={loading}>
                 {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 <Save className="h-4 w-4 mr-2" />
-                {worker ? 'Update' : 'Create'} Worker
+                {worker ? t("workers.form.update") : t("workers.form.create")}
               </Button>
             </div>
           </form>
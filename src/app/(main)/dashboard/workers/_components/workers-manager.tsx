@@ -1,8 +1,17 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { Plus, Search, Users, Edit, Trash2, X, Loader2, Phone, CalendarDays, UserCircle } from "lucide-react"
-import { useOrganization } from "@/contexts/organization-context"
+import { Plus, Search, Users, Edit, Trash2, X, Loader2, Phone, CalendarDays, UserCircle, CalendarCheck, UserX, FileText } from "lucide-react"
+import { AttendanceRegisterDialog } from "@/app/(main)/dashboard/_components/attendance-register-dialog"
+import {
+  BankAccountFields,
+  BankAccountForm,
+  EMPTY_BANK_ACCOUNT,
+  fromBankAccountForm,
+  toBankAccountForm
+} from "@/app/(main)/dashboard/_components/bank-account-fields"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -10,12 +19,21 @@ import { Label } from "@/components/ui/label"
 import { DataTable } from "@/components/data-table/data-table"
 import { DataTablePagination } from "@/components/data-table/data-table-pagination"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { useOrganization } from "@/contexts/organization-context"
 import { ColumnDef } from "@tanstack/react-table"
 import { useDataTableInstance } from "@/hooks/use-data-table-instance"
+import { useTranslation } from "@/hooks/use-translation"
+import { PAYMENT_METHODS, bankAccountProblem } from "@/lib/bank-payments"
+import type { Translate } from "@/lib/i18n"
+import { fetchSettlement } from "@/lib/settlement"
 import { supabase } from "@/lib/supabase"
-import { format, differenceInYears, differenceInMonths, differenceInDays } from "date-fns"
+import { differenceInYears, differenceInMonths, differenceInDays } from "date-fns"
 import { formatInTimeZone } from "date-fns-tz"
 import { toast } from "sonner"
+import type { PaymentMethod } from "@/types/database"
+
+import { printSettlement } from "./settlement-document"
+import { TerminationDialog } from "./termination-dialog"
 
 const SL_TIMEZONE = 'Asia/Colombo'
 
@@ -23,12 +41,7 @@ function getSLDate() {
   return formatInTimeZone(new Date(), SL_TIMEZONE, 'yyyy-MM-dd')
 }
 
-function formatSLDate(dateStr: string, formatStr: string = 'MMM dd, yyyy') {
-  const date = new Date(dateStr + 'T00:00:00')
-  return format(date, formatStr)
-}
-
-function getServiceDuration(hireDate: string) {
+function getServiceDuration(hireDate: string, t: Translate) {
   const start = new Date(hireDate + 'T00:00:00')
   const now = new Date()
   const years = differenceInYears(now, start)
@@ -37,15 +50,75 @@ function getServiceDuration(hireDate: string) {
   const days = differenceInDays(now, start)
   
   if (years > 0) {
-    return `${years}y ${months}m`
+    return t('workers.service.years', { years, months })
   }
   if (totalMonths > 0) {
-    return `${totalMonths}m`
+    return t('workers.service.months', { months: totalMonths })
   }
   if (days > 0) {
-    return `${days}d`
+    return t('workers.service.days', { days })
   }
-  return 'Today'
+  return t('workers.service.today')
+}
+
+function settlementDetails(worker: Worker) {
+  return {
+    name: `${worker.first_name} ${worker.last_name}`.trim(),
+    employee_id: worker.employee_id,
+    hire_date: worker.hire_date,
+  }
+}
+
+function TerminatedBadge({ date }: { date: string | null }) {
+  const { t, date: formatDate } = useTranslation()
+  return (
+    <Badge variant="secondary" className="text-xs">
+      {date ? t("workers.terminatedOn", { date: formatDate(date) }) : t("workers.terminated")}
+    </Badge>
+  )
+}
+
+function ActionButton({ label, onClick, children }: { label: string, onClick: () => void, children: React.ReactNode }) {
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClick}>
+            {children}
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>{label}</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
+
+interface WorkerPaymentFieldsProps {
+  method: PaymentMethod
+  bank: BankAccountForm
+  onChange: (method: PaymentMethod, bank: BankAccountForm) => void
+}
+
+function WorkerPaymentFields({ method, bank, onChange }: WorkerPaymentFieldsProps) {
+  const { t } = useTranslation()
+  return (
+    <>
+      <div className="space-y-1.5">
+        <Label htmlFor="payment_method" className="text-xs">{t("workers.salaryPaidBy")}</Label>
+        <Select value={method} onValueChange={(value) => onChange(value as PaymentMethod, bank)}>
+          <SelectTrigger id="payment_method" className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAYMENT_METHODS.map(value => (
+              <SelectItem key={value} value={value}>{t(`payslip.method.${value}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {method === 'bank' && <BankAccountFields idPrefix="worker" value={bank} onChange={(value) => onChange(method, value)} />}
+    </>
+  )
 }
 
 interface Worker {
@@ -55,25 +128,39 @@ interface Worker {
   last_name: string
   phone: string | null
   hire_date: string | null
+  status: 'active' | 'inactive' | 'terminated'
+  salary: number | null
+  termination_date: string | null
+  payment_method: PaymentMethod
+  bank_code: string | null
+  bank_branch_code: string | null
+  bank_account_number: string | null
+  bank_account_name: string | null
   created_at: string
 }
 
 export function WorkersManager() {
-  const { currentOrganization, loading: orgLoading } = useOrganization()
+  const { currentOrganization, loading: orgLoading, canEdit } = useOrganization()
+  const l = useTranslation()
+  const { t, date: formatDate } = l
   const orgId = currentOrganization?.organization_id
   
   const [workers, setWorkers] = useState<Worker[]>([])
+  const [showAttendance, setShowAttendance] = useState(false)
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [showForm, setShowForm] = useState(false)
   const [formLoading, setFormLoading] = useState(false)
   const [editingWorker, setEditingWorker] = useState<Worker | null>(null)
+  const [terminatingWorker, setTerminatingWorker] = useState<Worker | null>(null)
   const [formData, setFormData] = useState({
     employee_id: '',
     first_name: '',
     last_name: '',
     phone: '',
-    hire_date: getSLDate()
+    hire_date: getSLDate(),
+    payment_method: 'cash' as PaymentMethod,
+    bank: EMPTY_BANK_ACCOUNT
   })
 
   useEffect(() => {
@@ -87,7 +174,7 @@ export function WorkersManager() {
     try {
       const { data, error } = await supabase
         .from('workers')
-        .select('id, employee_id, first_name, last_name, phone, hire_date, created_at')
+        .select('id, employee_id, first_name, last_name, phone, hire_date, status, salary, termination_date, payment_method, bank_code, bank_branch_code, bank_account_number, bank_account_name, created_at')
         .eq('organization_id', orgId)
         .order('first_name')
 
@@ -97,7 +184,7 @@ export function WorkersManager() {
           console.warn('organization_id column not found - run the database migration')
           const { data: fallbackData, error: fallbackError } = await supabase
             .from('workers')
-            .select('id, employee_id, first_name, last_name, phone, hire_date, created_at')
+            .select('id, employee_id, first_name, last_name, phone, hire_date, status, salary, termination_date, payment_method, bank_code, bank_branch_code, bank_account_number, bank_account_name, created_at')
             .order('first_name')
           
           if (fallbackError) throw fallbackError
@@ -109,7 +196,7 @@ export function WorkersManager() {
       setWorkers(data || [])
     } catch (error: any) {
       console.error('Error fetching workers:', error?.message || error)
-      toast.error("Failed to load workers")
+      toast.error(t("workers.loadFailed"))
     } finally {
       setLoading(false)
     }
@@ -122,13 +209,15 @@ export function WorkersManager() {
       first_name: worker.first_name,
       last_name: worker.last_name,
       phone: worker.phone || '',
-      hire_date: worker.hire_date || getSLDate()
+      hire_date: worker.hire_date || getSLDate(),
+      payment_method: worker.payment_method,
+      bank: toBankAccountForm(worker)
     })
     setShowForm(true)
   }, [])
 
   const handleDelete = useCallback(async (worker: Worker) => {
-    if (!confirm(`Delete ${worker.first_name} ${worker.last_name}?`)) {
+    if (!confirm(t("workers.confirmDelete", { name: `${worker.first_name} ${worker.last_name}` }))) {
       return
     }
 
@@ -141,15 +230,35 @@ export function WorkersManager() {
       if (error) throw error
       
       setWorkers(prev => prev.filter(w => w.id !== worker.id))
-      toast.success("Worker deleted successfully")
+      toast.success(t("workers.deleted"))
     } catch (error: any) {
       console.error('Error deleting worker:', error)
-      toast.error(error.message || "Failed to delete worker")
+      toast.error(error.message || t("workers.deleteFailed"))
     }
-  }, [])
+  }, [t])
+
+  const handlePrintSettlement = useCallback(async (worker: Worker) => {
+    if (!orgId) return
+    try {
+      await printSettlement(orgId, settlementDetails(worker), l, async () => {
+        const settlement = await fetchSettlement(worker.id)
+        if (!settlement) throw new Error(t("workers.noSettlement"))
+        return settlement
+      })
+    } catch (error: any) {
+      console.error('Error printing settlement:', error)
+      toast.error(error.message ?? t("workers.printSettlementFailed"))
+    }
+  }, [orgId, l, t])
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault()
+    const bankAccount = fromBankAccountForm(formData.bank)
+    const bankProblem = formData.payment_method === 'bank' && bankAccountProblem(bankAccount)
+    if (bankProblem) {
+      toast.error(t(bankProblem))
+      return
+    }
     setFormLoading(true)
 
     const workerData = {
@@ -157,7 +266,9 @@ export function WorkersManager() {
       first_name: formData.first_name,
       last_name: formData.last_name,
       phone: formData.phone || null,
-      hire_date: formData.hire_date || null
+      hire_date: formData.hire_date || null,
+      payment_method: formData.payment_method,
+      ...bankAccount
     }
 
     try {
@@ -168,14 +279,14 @@ export function WorkersManager() {
           .eq('id', editingWorker.id)
         
         if (error) throw error
-        toast.success("Worker updated successfully")
+        toast.success(t("workers.updated"))
       } else {
         const { error } = await supabase
           .from('workers')
           .insert({ ...workerData, organization_id: orgId })
         
         if (error) throw error
-        toast.success("Worker added successfully")
+        toast.success(t("workers.added"))
       }
 
       setShowForm(false)
@@ -184,7 +295,7 @@ export function WorkersManager() {
       fetchWorkers()
     } catch (error: any) {
       console.error('Error saving worker:', error)
-      toast.error(error.message || "Failed to save worker")
+      toast.error(error.message || t("workers.saveFailed"))
     } finally {
       setFormLoading(false)
     }
@@ -196,7 +307,9 @@ export function WorkersManager() {
       first_name: '',
       last_name: '',
       phone: '',
-      hire_date: getSLDate()
+      hire_date: getSLDate(),
+      payment_method: 'cash',
+      bank: EMPTY_BANK_ACCOUNT
     })
     setEditingWorker(null)
   }
@@ -240,24 +353,25 @@ export function WorkersManager() {
   const columns: ColumnDef<Worker>[] = useMemo(() => [
     {
       accessorKey: "employee_id",
-      header: "ID",
+      header: t("common.id"),
       cell: ({ row }) => (
         <span className="font-mono text-xs text-muted-foreground">{row.getValue("employee_id")}</span>
       ),
     },
     {
       id: "name",
-      header: "Name",
+      header: t("common.name"),
       cell: ({ row }) => (
         <div className="flex items-center gap-2">
           <UserCircle className="h-5 w-5 text-muted-foreground" />
           <span className="font-medium">{row.original.first_name} {row.original.last_name}</span>
+          {row.original.status === 'terminated' && <TerminatedBadge date={row.original.termination_date} />}
         </div>
       ),
     },
     {
       accessorKey: "phone",
-      header: "Phone",
+      header: t("common.phone"),
       cell: ({ row }) => {
         const phone = row.getValue("phone") as string | null
         return phone ? (
@@ -272,7 +386,7 @@ export function WorkersManager() {
     },
     {
       accessorKey: "hire_date",
-      header: "Hired",
+      header: t("workers.hired"),
       cell: ({ row }) => {
         const hireDate = row.getValue("hire_date") as string | null
         if (!hireDate) return <span className="text-muted-foreground text-xs">-</span>
@@ -283,11 +397,11 @@ export function WorkersManager() {
               <TooltipTrigger asChild>
                 <span className="text-sm text-muted-foreground cursor-help flex items-center gap-1">
                   <CalendarDays className="h-3 w-3" />
-                  {getServiceDuration(hireDate)}
+                  {getServiceDuration(hireDate, t)}
                 </span>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Hired on {formatSLDate(hireDate, 'MMMM dd, yyyy')}</p>
+                <p>{t("workers.hiredOn", { date: formatDate(hireDate) })}</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -301,6 +415,16 @@ export function WorkersManager() {
         const worker = row.original
         return (
           <div className="flex gap-1 justify-end">
+            {canEdit && worker.status !== 'terminated' && (
+              <ActionButton label={t("workers.terminate")} onClick={() => setTerminatingWorker(worker)}>
+                <UserX className="h-3.5 w-3.5" />
+              </ActionButton>
+            )}
+            {worker.status === 'terminated' && (
+              <ActionButton label={t("workers.printSettlement")} onClick={() => handlePrintSettlement(worker)}>
+                <FileText className="h-3.5 w-3.5" />
+              </ActionButton>
+            )}
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -313,7 +437,7 @@ export function WorkersManager() {
                     <Edit className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Edit worker</TooltipContent>
+                <TooltipContent>{t("workers.editTooltip")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
             <TooltipProvider>
@@ -328,14 +452,14 @@ export function WorkersManager() {
                     <Trash2 className="h-3.5 w-3.5" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Delete worker</TooltipContent>
+                <TooltipContent>{t("workers.deleteTooltip")}</TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
         )
       },
     },
-  ], [handleEdit, handleDelete])
+  ], [handleEdit, handleDelete, handlePrintSettlement, canEdit, t, formatDate])
 
   const table = useDataTableInstance({
     data: filteredWorkers,
@@ -347,7 +471,7 @@ export function WorkersManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading organization...</span>
+        <span className="text-sm text-muted-foreground">{t("common.loadingOrganization")}</span>
       </div>
     )
   }
@@ -356,7 +480,7 @@ export function WorkersManager() {
     return (
       <div className="flex flex-col justify-center items-center h-64 gap-2">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
-        <span className="text-sm text-muted-foreground">Loading workers...</span>
+        <span className="text-sm text-muted-foreground">{t("workers.loading")}</span>
       </div>
     )
   }
@@ -366,20 +490,28 @@ export function WorkersManager() {
       {/* Header */}
       <div className="flex flex-col gap-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg sm:text-xl font-semibold">Workers</h2>
-          <Button onClick={() => {
-            setFormData(prev => ({ ...prev, employee_id: generateNextEmployeeId() }))
-            setShowForm(true)
-          }} size="sm">
-            <Plus className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">Add Worker</span>
-          </Button>
+          <h2 className="text-lg sm:text-xl font-semibold">{t("workers.title")}</h2>
+          <div className="flex gap-2">
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={() => setShowAttendance(true)}>
+                <CalendarCheck className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">{t("workers.todaysAttendance")}</span>
+              </Button>
+            )}
+            <Button onClick={() => {
+              setFormData(prev => ({ ...prev, employee_id: generateNextEmployeeId() }))
+              setShowForm(true)
+            }} size="sm">
+              <Plus className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">{t("workers.add")}</span>
+            </Button>
+          </div>
         </div>
 
         <div className="relative max-w-sm">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Search workers..."
+            placeholder={t("workers.search")}
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -402,10 +534,10 @@ export function WorkersManager() {
         <div className="text-center py-12">
           <Users className="h-12 w-12 mx-auto text-muted-foreground/30 mb-4" />
           <p className="text-muted-foreground">
-            {searchTerm ? `No workers matching "${searchTerm}"` : 'No workers found'}
+            {searchTerm ? t("workers.noneMatching", { search: searchTerm }) : t("workers.none")}
           </p>
           <p className="text-sm text-muted-foreground mt-1">
-            {searchTerm ? 'Try a different search term' : 'Add workers to your team'}
+            {searchTerm ? t("workers.tryDifferentSearch") : t("workers.addHint")}
           </p>
         </div>
       )}
@@ -413,10 +545,10 @@ export function WorkersManager() {
       {/* Add/Edit Worker Form Modal */}
       {showForm && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
-          <Card className="w-full max-w-sm">
+          <Card className="w-full max-w-md max-h-[90vh] overflow-auto">
             <CardHeader className="pb-3">
               <div className="flex items-center justify-between">
-                <CardTitle className="text-base">{editingWorker ? 'Edit Worker' : 'Add Worker'}</CardTitle>
+                <CardTitle className="text-base">{editingWorker ? t("workers.edit") : t("workers.add")}</CardTitle>
                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleCloseForm}>
                   <X className="h-4 w-4" />
                 </Button>
@@ -425,12 +557,12 @@ export function WorkersManager() {
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-3">
                 <div className="space-y-1.5">
-                  <Label htmlFor="employee_id" className="text-xs">Employee ID *</Label>
+                  <Label htmlFor="employee_id" className="text-xs">{t("workers.employeeId")}</Label>
                   <Input
                     id="employee_id"
                     value={formData.employee_id}
                     onChange={(e) => setFormData({...formData, employee_id: e.target.value})}
-                    placeholder="e.g., EMP001"
+                    placeholder={t("workers.employeeIdPlaceholder")}
                     required
                     className="h-8"
                   />
@@ -438,7 +570,7 @@ export function WorkersManager() {
 
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
-                    <Label htmlFor="first_name" className="text-xs">First Name *</Label>
+                    <Label htmlFor="first_name" className="text-xs">{t("workers.firstName")}</Label>
                     <Input
                       id="first_name"
                       value={formData.first_name}
@@ -450,7 +582,7 @@ export function WorkersManager() {
                   </div>
 
                   <div className="space-y-1.5">
-                    <Label htmlFor="last_name" className="text-xs">Last Name</Label>
+                    <Label htmlFor="last_name" className="text-xs">{t("workers.lastName")}</Label>
                     <Input
                       id="last_name"
                       value={formData.last_name}
@@ -463,7 +595,7 @@ export function WorkersManager() {
 
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1.5">
-                    <Label htmlFor="phone" className="text-xs">Phone</Label>
+                    <Label htmlFor="phone" className="text-xs">{t("common.phone")}</Label>
                     <Input
                       id="phone"
                       value={formData.phone}
@@ -474,7 +606,7 @@ export function WorkersManager() {
                   </div>
 
                   <div className="space-y-1.5">
-                    <Label htmlFor="hire_date" className="text-xs">Hire Date</Label>
+                    <Label htmlFor="hire_date" className="text-xs">{t("common.hireDate")}</Label>
                     <Input
                       id="hire_date"
                       type="date"
@@ -484,14 +616,20 @@ export function WorkersManager() {
                     />
                   </div>
                 </div>
+
+                <WorkerPaymentFields
+                  method={formData.payment_method}
+                  bank={formData.bank}
+                  onChange={(payment_method, bank) => setFormData({ ...formData, payment_method, bank })}
+                />
                 
                 <div className="flex gap-2 justify-end pt-2">
                   <Button type="button" variant="outline" size="sm" onClick={handleCloseForm}>
-                    Cancel
+                    {t("common.cancel")}
                   </Button>
                   <Button type="submit" size="sm" disabled={formLoading}>
                     {formLoading && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
-                    {editingWorker ? 'Update' : 'Add'}
+                    {editingWorker ? t("workers.update") : t("workers.addButton")}
                   </Button>
                 </div>
               </form>
@@ -499,6 +637,23 @@ export function WorkersManager() {
           </Card>
         </div>
       )}
+
+      {showAttendance && orgId && (
+        <AttendanceRegisterDialog orgId={orgId} date={getSLDate()} onClose={() => setShowAttendance(false)} />
+      )}
+
+      {terminatingWorker && (
+        <TerminationDialog
+          orgId={orgId}
+          worker={{ ...terminatingWorker, ...settlementDetails(terminatingWorker) }}
+          initialDate={getSLDate()}
+          onClose={() => setTerminatingWorker(null)}
+          onTerminated={() => {
+            setTerminatingWorker(null)
+            fetchWorkers()
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 "use client"
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { clearOfflineDataCache } from '@/lib/offline-queue'
 import { createBrowserClient } from '@/lib/supabase'
 import { Organization, OrganizationRole, UserOrganization } from '@/types/database'
 import { User } from '@supabase/supabase-js'
@@ -294,6 +295,9 @@ export function OrganizationProvider({ children }: { children: ReactNode }) {
       async (event, session) => {
         setUser(session?.user ?? null)
         setLoading(false)
+        if (event === 'SIGNED_OUT') {
+          clearOfflineDataCache().catch(error => console.error('Error clearing offline data:', error))
+        }
       }
     )
     
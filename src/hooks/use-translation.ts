@@ -0,0 +1,11 @@
+"use client";
+
+import { useMemo } from "react";
+
+import { createLocalizer } from "@/lib/i18n";
+import { usePreferencesStore } from "@/stores/preferences/preferences-provider";
+
+export function useTranslation() {
+  const language = usePreferencesStore((s) => s.language);
+  return useMemo(() => createLocalizer(language), [language]);
+}
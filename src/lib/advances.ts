@@ -0,0 +1,279 @@
+import { addMonths, format, parseISO } from 'date-fns'
+
+import type { Localizer } from '@/lib/i18n'
+import type { Worker } from '@/types/database'
+import type { AdvanceSchedule } from '@/types/payroll'
+
+import { fetchOrgSettings } from './org-settings'
+import { StatutoryRules, computeContributions, readStatutoryRules } from './statutory'
+import { fetchAllRows, supabase } from './supabase'
+
+// =====================================================
+// ADVANCE POLICY (organizations.settings.advance_policy)
+// =====================================================
+
+export type AdvanceEnforcement = 'warn' | 'block'
+
+export interface AdvancePolicy {
+  enforcement: AdvanceEnforcement
+  // Maximum outstanding balance per worker role; missing = no limit
+  role_limits: Partial<Record<Worker['role'], number>>
+}
+
+export const DEFAULT_ADVANCE_POLICY: AdvancePolicy = {
+  enforcement: 'warn',
+  role_limits: {},
+}
+
+export function readAdvancePolicy(settings: Record<string, any>): AdvancePolicy {
+  return { ...DEFAULT_ADVANCE_POLICY, ...(settings.advance_policy ?? {}) }
+}
+
+// A worker's own limit takes precedence over the limit for their role
+export function resolveAdvanceLimit(worker: Pick<Worker, 'role' | 'max_advance'>, policy: AdvancePolicy): number | null {
+  if (worker.max_advance !== null && worker.max_advance !== undefined) return Number(worker.max_advance)
+  return policy.role_limits[worker.role] ?? null
+}
+
+// =====================================================
+// LEDGER
+// =====================================================
+
+export interface AdvanceEntry {
+  id: string
+  worker_id: string
+  date: string
+  amount: number
+  notes: string | null
+  signature_path: string | null
+}
+
+export interface LedgerMonth {
+  month: string
+  issued: number
+  // Instalments falling due this month plus anything carried from last month
+  due: number
+  recovered: number
+  carried_forward: number
+  balance: number
+}
+
+export interface WorkerLedger {
+  worker_id: string
+  advances: AdvanceEntry[]
+  months: LedgerMonth[]
+  outstanding: number
+}
+
+export function monthKey(date: string) {
+  return `${date.slice(0, 7)}-01`
+}
+
+function nextMonth(month: string) {
+  return format(addMonths(parseISO(month), 1), 'yyyy-MM-dd')
+}
+
+// Splits an advance into equal instalments; the last one absorbs rounding
+export function instalmentPlan(advance: AdvanceEntry, schedule: Pick<AdvanceSchedule, 'instalments' | 'start_month'> | undefined) {
+  const count = Math.max(1, schedule?.instalments ?? 1)
+  const instalment = Math.floor((advance.amount / count) * 100) / 100
+  let month = schedule ? monthKey(schedule.start_month) : monthKey(advance.date)
+
+  return Array.from({ length: count }, (_, i) => {
+    const amount = i === count - 1 ? advance.amount - instalment * (count - 1) : instalment
+    const entry = { month, amount }
+    month = nextMonth(month)
+    return entry
+  })
+}
+
+function sumByMonth(entries: { month: string; amount: number }[]) {
+  const totals = new Map<string, number>()
+  entries.forEach(e => totals.set(e.month, (totals.get(e.month) ?? 0) + e.amount))
+  return totals
+}
+
+/**
+ * Walks month by month from the first advance. Each month recovers as much of
+ * the amount due as that month's earnings allow; the rest carries forward.
+ */
+export function buildWorkerLedger(
+  workerId: string,
+  advances: AdvanceEntry[],
+  schedules: Map<string, AdvanceSchedule>,
+  earnings: Map<string, number>,
+  throughMonth: string
+): WorkerLedger {
+  const issuedByMonth = sumByMonth(advances.map(a => ({ month: monthKey(a.date), amount: a.amount })))
+  const dueByMonth = sumByMonth(advances.flatMap(a => instalmentPlan(a, schedules.get(a.id))))
+  const firstMonth = [...issuedByMonth.keys()].sort()[0]
+
+  const months: LedgerMonth[] = []
+  let carry = 0
+  let balance = 0
+
+  for (let month = firstMonth; month && month <= throughMonth; month = nextMonth(month)) {
+    const issued = issuedByMonth.get(month) ?? 0
+    const due = (dueByMonth.get(month) ?? 0) + carry
+    const recovered = Math.min(due, Math.max(0, earnings.get(month) ?? 0))
+    carry = due - recovered
+    balance += issued - recovered
+    months.push({ month, issued, due, recovered, carried_forward: carry, balance })
+  }
+
+  return { worker_id: workerId, advances, months, outstanding: balance }
+}
+
+export function ledgerMonth(ledger: WorkerLedger | undefined, month: string): LedgerMonth | undefined {
+  return ledger?.months.find(m => m.month === month)
+}
+
+// Balance before this month's salary recovers anything (what the worker owes right now)
+export function balanceBeforeRecovery(ledger: WorkerLedger | undefined, month: string) {
+  const current = ledgerMonth(ledger, month)
+  if (current) return current.balance + current.recovered
+  return ledger?.outstanding ?? 0
+}
+
+async function fetchAdvanceEntries(orgId: string, beforeDate: string, workerId?: string) {
+  const data = await fetchAllRows<any>((from, to) => {
+    let query = supabase
+      .from('daily_plucking')
+      .select('id, worker_id, date, wage_earned, notes, signature_path')
+      .eq('organization_id', orgId)
+      .eq('is_advance', true)
+      .lt('date', beforeDate)
+
+    if (workerId) query = query.eq('worker_id', workerId)
+    return query.order('date').order('id').range(from, to)
+  })
+
+  // Advances are stored as negative wages
+  return data.map((r: any): AdvanceEntry => ({
+    id: r.id,
+    worker_id: r.worker_id,
+    date: r.date,
+    amount: Math.abs(Number(r.wage_earned) || 0),
+    notes: r.notes,
+    signature_path: r.signature_path ?? null,
+  }))
+}
+
+async function fetchSchedules(orgId: string, workerId?: string) {
+  const data = await fetchAllRows<AdvanceSchedule>((from, to) => {
+    let query = supabase.from('advance_schedules').select('*').eq('organization_id', orgId)
+    if (workerId) query = query.eq('worker_id', workerId)
+    return query.order('id').range(from, to)
+  })
+  return new Map(data.map(s => [s.daily_plucking_id, s]))
+}
+
+/**
+ * Earnings that advances can be recovered from, keyed worker -> month: plucking + extra work + bonus,
+ * less the employee's EPF so recovery never takes the salary below nothing. EPF is reckoned on
+ * extra work even where the rules leave it out, which can only leave a little more to recover later.
+ */
+async function fetchEarnings(orgId: string, fromMonth: string, throughMonth: string, rules: StatutoryRules, workerId?: string) {
+  // The view and the bonus table both hold one row per worker per month
+  const monthly = (table: string, columns: string) => fetchAllRows<any>((from, to) => {
+    let query = supabase
+      .from(table)
+      .select(columns)
+      .eq('organization_id', orgId)
+      .gte('month', fromMonth)
+      .lte('month', throughMonth)
+
+    if (workerId) query = query.eq('worker_id', workerId)
+    return query.order('worker_id').order('month').range(from, to)
+  })
+
+  const [earned, bonuses] = await Promise.all([
+    monthly('worker_monthly_earnings', 'worker_id, month, earned'),
+    monthly('worker_bonuses', 'worker_id, month, amount'),
+  ])
+
+  const byWorker = new Map<string, Map<string, number>>()
+  const wages = new Map<string, Map<string, number>>()
+  const add = (totals: Map<string, Map<string, number>>, worker: string, month: string, amount: number) => {
+    const months = totals.get(worker) ?? new Map<string, number>()
+    months.set(monthKey(month), (months.get(monthKey(month)) ?? 0) + (Number(amount) || 0))
+    totals.set(worker, months)
+  }
+  earned.forEach((e: any) => {
+    add(byWorker, e.worker_id, e.month, e.earned)
+    add(wages, e.worker_id, e.month, e.earned)
+  })
+  bonuses.forEach((b: any) => {
+    add(byWorker, b.worker_id, b.month, b.amount)
+    if (rules.include_bonus) add(wages, b.worker_id, b.month, b.amount)
+  })
+
+  wages.forEach((months, worker) => months.forEach((wage, month) => {
+    add(byWorker, worker, month, -computeContributions(wage, rules).epf_employee)
+  }))
+  return byWorker
+}
+
+export async function fetchAdvanceLedgers(orgId: string, throughMonth: string, workerId?: string) {
+  const beforeDate = format(addMonths(parseISO(throughMonth), 1), 'yyyy-MM-dd')
+  const advances = await fetchAdvanceEntries(orgId, beforeDate, workerId)
+  const ledgers = new Map<string, WorkerLedger>()
+  if (advances.length === 0) return ledgers
+
+  const [schedules, earnings] = await Promise.all([
+    fetchSchedules(orgId, workerId),
+    fetchOrgSettings(orgId).then(settings =>
+      fetchEarnings(orgId, monthKey(advances[0].date), throughMonth, readStatutoryRules(settings), workerId)
+    ),
+  ])
+
+  const byWorker = new Map<string, AdvanceEntry[]>()
+  advances.forEach(a => byWorker.set(a.worker_id, [...(byWorker.get(a.worker_id) ?? []), a]))
+
+  byWorker.forEach((entries, id) => {
+    ledgers.set(id, buildWorkerLedger(id, entries, schedules, earnings.get(id) ?? new Map(), throughMonth))
+  })
+  return ledgers
+}
+
+// =====================================================
+// LIMIT CHECK
+// =====================================================
+
+export interface AdvanceLimitCheck {
+  limit: number | null
+  outstanding: number
+  exceeded: boolean
+  enforcement: AdvanceEnforcement
+}
+
+/**
+ * Checks whether giving `amount` would push the worker past their limit.
+ * `replacingAmount` is the current amount of an advance being edited.
+ */
+export async function checkAdvanceLimit(orgId: string, workerId: string, date: string, amount: number, replacingAmount = 0) {
+  const [{ data: worker, error }, settings] = await Promise.all([
+    supabase.from('workers').select('role, max_advance').eq('id', workerId).single(),
+    fetchOrgSettings(orgId),
+  ])
+  if (error) throw error
+
+  const policy = readAdvancePolicy(settings)
+  const limit = resolveAdvanceLimit(worker, policy)
+  if (limit === null) return { limit, outstanding: 0, exceeded: false, enforcement: policy.enforcement }
+
+  const month = monthKey(date)
+  const ledgers = await fetchAdvanceLedgers(orgId, month, workerId)
+  const outstanding = balanceBeforeRecovery(ledgers.get(workerId), month) - replacingAmount
+
+  return {
+    limit,
+    outstanding,
+    exceeded: outstanding + amount > limit,
+    enforcement: policy.enforcement,
+  } satisfies AdvanceLimitCheck
+}
+
+export function describeAdvanceLimit(check: AdvanceLimitCheck, amount: number, { t, money }: Localizer) {
+  return t('advances.limitExceeded', { amount: money(amount), balance: money(check.outstanding + amount), limit: money(check.limit ?? 0) })
+}
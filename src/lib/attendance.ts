@@ -0,0 +1,219 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns'
+
+import type { Worker } from '@/types/database'
+import type { AttendanceStatus, LeaveType, WorkerAttendance } from '@/types/payroll'
+
+import { fetchAllRows, supabase } from './supabase'
+
+// =====================================================
+// ATTENDANCE POLICY (organizations.settings.attendance_policy)
+// =====================================================
+
+export interface AttendancePolicy {
+  // Days of each kind of leave a worker may take per calendar year
+  leave_entitlements: Record<LeaveType, number>
+  // Paid with the month's salary to workers attending at least allowance_min_days; 0 turns it off
+  allowance_amount: number
+  allowance_min_days: number
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  leave_entitlements: { annual: 14, casual: 7, sick: 7 },
+  allowance_amount: 0,
+  allowance_min_days: 20,
+}
+
+export function readAttendancePolicy(settings: Record<string, any>): AttendancePolicy {
+  const saved = settings.attendance_policy ?? {}
+  return {
+    ...DEFAULT_ATTENDANCE_POLICY,
+    ...saved,
+    leave_entitlements: { ...DEFAULT_ATTENDANCE_POLICY.leave_entitlements, ...(saved.leave_entitlements ?? {}) },
+  }
+}
+
+// =====================================================
+// REGISTER
+// =====================================================
+
+export const ATTENDANCE_STATUSES: Record<AttendanceStatus, { label: string; code: string; credit: number }> = {
+  present: { label: 'Present', code: 'P', credit: 1 },
+  half_day: { label: 'Half day', code: 'H', credit: 0.5 },
+  absent: { label: 'Absent', code: 'A', credit: 0 },
+  leave: { label: 'Leave', code: 'L', credit: 0 },
+}
+
+export const LEAVE_TYPES: Record<LeaveType, string> = {
+  annual: 'Annual',
+  casual: 'Casual',
+  sick: 'Sick',
+}
+
+export type RegisterWorker = Pick<Worker, 'id' | 'employee_id' | 'first_name' | 'last_name' | 'status'>
+
+export type AttendanceRecord = Pick<WorkerAttendance, 'id' | 'worker_id' | 'date' | 'status' | 'leave_type'>
+
+// A worker's day: a register entry, or present because they have a plucking record
+export interface AttendanceDay {
+  status: AttendanceStatus
+  leave_type: LeaveType | null
+  inferred: boolean
+}
+
+export interface AttendanceSummary {
+  present: number
+  half_days: number
+  absent: number
+  leave: number
+  attended: number
+  allowance: number
+}
+
+export interface LeaveBalance {
+  taken: number
+  entitled: number
+  remaining: number
+}
+
+export function monthDates(month: string) {
+  const start = parseISO(`${month}-01`)
+  const end = new Date(start.getFullYear(), start.getMonth() + 1, 0)
+  return eachDayOfInterval({ start, end }).map(day => format(day, 'yyyy-MM-dd'))
+}
+
+// worker_id -> date -> day; register entries override plucking
+export function resolveAttendance(records: AttendanceRecord[], pluckingDays: { worker_id: string; date: string }[]) {
+  const days = new Map<string, Map<string, AttendanceDay>>()
+  const dayMap = (workerId: string) => {
+    if (!days.has(workerId)) days.set(workerId, new Map())
+    return days.get(workerId)!
+  }
+
+  pluckingDays.forEach(day => dayMap(day.worker_id).set(day.date, { status: 'present', leave_type: null, inferred: true }))
+  records.forEach(record => dayMap(record.worker_id).set(record.date, { status: record.status, leave_type: record.leave_type, inferred: false }))
+  return days
+}
+
+export function attendanceAllowance(attended: number, policy: AttendancePolicy) {
+  return policy.allowance_amount > 0 && attended >= policy.allowance_min_days ? policy.allowance_amount : 0
+}
+
+export function summarizeAttendance(days: Iterable<AttendanceDay>, policy: AttendancePolicy): AttendanceSummary {
+  const summary = { present: 0, half_days: 0, absent: 0, leave: 0, attended: 0, allowance: 0 }
+  for (const day of days) {
+    if (day.status === 'present') summary.present += 1
+    if (day.status === 'half_day') summary.half_days += 1
+    if (day.status === 'absent') summary.absent += 1
+    if (day.status === 'leave') summary.leave += 1
+    summary.attended += ATTENDANCE_STATUSES[day.status].credit
+  }
+  return { ...summary, allowance: attendanceAllowance(summary.attended, policy) }
+}
+
+// Leave taken so far in the year against each entitlement, per worker
+export function leaveBalances(records: AttendanceRecord[], policy: AttendancePolicy) {
+  const taken = new Map<string, Record<LeaveType, number>>()
+  records
+    .filter(record => record.status === 'leave' && record.leave_type)
+    .forEach(record => {
+      const counts = taken.get(record.worker_id) ?? { annual: 0, casual: 0, sick: 0 }
+      counts[record.leave_type!] += 1
+      taken.set(record.worker_id, counts)
+    })
+
+  return (workerId: string) => {
+    const counts = taken.get(workerId) ?? { annual: 0, casual: 0, sick: 0 }
+    return Object.fromEntries((Object.keys(LEAVE_TYPES) as LeaveType[]).map(type => {
+      const entitled = policy.leave_entitlements[type]
+      return [type, { taken: counts[type], entitled, remaining: entitled - counts[type] }]
+    })) as Record<LeaveType, LeaveBalance>
+  }
+}
+
+// Every worker, so former workers still show in past months' registers
+export async function fetchRegisterWorkers(orgId: string) {
+  const { data, error } = await supabase
+    .from('workers')
+    .select('id, employee_id, first_name, last_name, status')
+    .eq('organization_id', orgId)
+    .order('first_name')
+
+  if (error) throw error
+  return (data ?? []) as RegisterWorker[]
+}
+
+export async function fetchAttendance(orgId: string, from: string, to: string, workerId?: string) {
+  return fetchAllRows<AttendanceRecord>((start, end) => {
+    let query = supabase
+      .from('worker_attendance')
+      .select('id, worker_id, date, status, leave_type')
+      .eq('organization_id', orgId)
+      .gte('date', from)
+      .lte('date', to)
+
+    if (workerId) query = query.eq('worker_id', workerId)
+    return query.order('id').range(start, end)
+  })
+}
+
+// Days each worker has a plucking record (advances are not attendance)
+export async function fetchPluckingDays(orgId: string, from: string, to: string, workerId?: string) {
+  return fetchAllRows<{ worker_id: string; date: string }>((start, end) => {
+    let query = supabase
+      .from('daily_plucking')
+      .select('worker_id, date')
+      .eq('organization_id', orgId)
+      .eq('is_advance', false)
+      .gte('date', from)
+      .lte('date', to)
+
+    if (workerId) query = query.eq('worker_id', workerId)
+    return query.order('id').range(start, end)
+  })
+}
+
+// Sets the register for each worker on a date; null clears the entry back to what plucking records show
+export async function saveAttendance(orgId: string, date: string, entries: { worker_id: string; status: AttendanceStatus | null; leave_type?: LeaveType | null }[]) {
+  const marked = entries.filter(entry => entry.status !== null)
+  const cleared = entries.filter(entry => entry.status === null).map(entry => entry.worker_id)
+
+  if (marked.length > 0) {
+    const { error } = await supabase
+      .from('worker_attendance')
+      .upsert(marked.map(entry => ({
+        organization_id: orgId,
+        worker_id: entry.worker_id,
+        date,
+        status: entry.status,
+        leave_type: entry.status === 'leave' ? (entry.leave_type ?? 'annual') : null,
+      })), { onConflict: 'worker_id,date' })
+    if (error) throw error
+  }
+
+  if (cleared.length > 0) {
+    const { error } = await supabase
+      .from('worker_attendance')
+      .delete()
+      .eq('organization_id', orgId)
+      .eq('date', date)
+      .in('worker_id', cleared)
+    if (error) throw error
+  }
+}
+
+// worker_id -> allowance earned in the month, for the salary calculation and final settlements
+export async function fetchAttendanceAllowances(orgId: string, from: string, to: string, policy: AttendancePolicy, workerId?: string) {
+  const allowances = new Map<string, number>()
+  if (policy.allowance_amount <= 0) return allowances
+
+  const [records, pluckingDays] = await Promise.all([
+    fetchAttendance(orgId, from, to, workerId),
+    fetchPluckingDays(orgId, from, to, workerId),
+  ])
+
+  resolveAttendance(records, pluckingDays).forEach((days, workerId) => {
+    const { allowance } = summarizeAttendance(days.values(), policy)
+    if (allowance > 0) allowances.set(workerId, allowance)
+  })
+  return allowances
+}
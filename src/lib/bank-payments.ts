@@ -0,0 +1,161 @@
+import type { MessageKey } from '@/lib/i18n'
+import type { PaymentMethod, Worker } from '@/types/database'
+
+import { addSalaryPayments } from './salary-payments'
+import { supabase } from './supabase'
+
+// =====================================================
+// BANKS (LankaClear member bank codes)
+// =====================================================
+
+export const SRI_LANKAN_BANKS: [string, string][] = [
+  ['7010', 'Bank of Ceylon'],
+  ['7038', 'Standard Chartered Bank'],
+  ['7056', 'Commercial Bank of Ceylon'],
+  ['7083', 'Hatton National Bank'],
+  ['7135', "People's Bank"],
+  ['7162', 'Nations Trust Bank'],
+  ['7214', 'National Development Bank'],
+  ['7278', 'Sampath Bank'],
+  ['7287', 'Seylan Bank'],
+  ['7302', 'Union Bank of Colombo'],
+  ['7311', 'Pan Asia Banking Corporation'],
+  ['7454', 'DFCC Bank'],
+  ['7719', 'National Savings Bank'],
+]
+
+export function bankName(code: string | null) {
+  return SRI_LANKAN_BANKS.find(([bankCode]) => bankCode === code)?.[1] ?? code ?? ''
+}
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'bank']
+
+export type BankAccount = Pick<Worker, 'bank_code' | 'bank_branch_code' | 'bank_account_number' | 'bank_account_name'>
+
+// What stops the account being paid by file, as a message to translate, or null when it can be
+export function bankAccountProblem(account: BankAccount): MessageKey | null {
+  if (!/^\d{4}$/.test(account.bank_code ?? '')) return 'bank.problem.bankCode'
+  if (!/^\d{3}$/.test(account.bank_branch_code ?? '')) return 'bank.problem.branchCode'
+  if (!/^\d{1,20}$/.test(account.bank_account_number ?? '')) return 'bank.problem.accountNumber'
+  if (!account.bank_account_name?.trim()) return 'bank.problem.accountName'
+  return null
+}
+
+// =====================================================
+// SETTINGS (organizations.settings.bank_payments)
+// =====================================================
+
+/**
+ * Fields a payment file can carry. Banks hand each corporate customer their own
+ * bulk salary upload template, so the organization lists the columns in the
+ * order its template has them rather than picking a bank.
+ */
+export const BANK_FILE_COLUMNS = [
+  'account_name',
+  'account_number',
+  'bank_code',
+  'branch_code',
+  'amount',
+  'reference',
+  'employee_id',
+  'value_date',
+] as const
+
+export type BankFileColumn = (typeof BANK_FILE_COLUMNS)[number]
+
+export interface BankPaymentSettings {
+  columns: BankFileColumn[]
+  // Whether the first line of the file names the columns
+  header: boolean
+}
+
+export const DEFAULT_BANK_PAYMENT_SETTINGS: BankPaymentSettings = {
+  columns: ['account_name', 'account_number', 'bank_code', 'branch_code', 'amount', 'reference'],
+  header: true,
+}
+
+const isBankFileColumn = (value: unknown): value is BankFileColumn => BANK_FILE_COLUMNS.includes(value as BankFileColumn)
+
+// Settings saved before columns could be set (a named bank format) fall back to the default
+export function readBankPaymentSettings(settings: Record<string, any>): BankPaymentSettings {
+  const saved = settings.bank_payments ?? {}
+  const columns = Array.isArray(saved.columns) ? saved.columns.filter(isBankFileColumn) : []
+  return {
+    columns: columns.length > 0 ? columns : DEFAULT_BANK_PAYMENT_SETTINGS.columns,
+    header: typeof saved.header === 'boolean' ? saved.header : DEFAULT_BANK_PAYMENT_SETTINGS.header,
+  }
+}
+
+// =====================================================
+// PAYMENT FILES
+// =====================================================
+
+export interface BankPaymentLine {
+  worker_id: string
+  employee_id: string
+  worker_name: string
+  amount: number
+  account: BankAccount
+}
+
+interface BankFileContext {
+  valueDate: string
+  reference: string
+}
+
+// Bank upload parsers reject quotes and commas inside fields, and cap name lengths
+function plain(text: string | null, maxLength = 100) {
+  return (text ?? '').replace(/[^A-Za-z0-9 .\-/]/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase().slice(0, maxLength)
+}
+
+const COLUMN_VALUES: Record<BankFileColumn, (line: BankPaymentLine, context: BankFileContext) => string> = {
+  account_name: line => plain(line.account.bank_account_name, 50),
+  account_number: line => line.account.bank_account_number ?? '',
+  bank_code: line => line.account.bank_code ?? '',
+  branch_code: line => line.account.bank_branch_code ?? '',
+  amount: line => line.amount.toFixed(2),
+  reference: (_, { reference }) => plain(reference, 30),
+  employee_id: line => plain(line.employee_id, 20),
+  value_date: (_, { valueDate }) => valueDate,
+}
+
+// The file is read by the bank, so the header names the fields rather than carrying translated labels
+const COLUMN_HEADERS: Record<BankFileColumn, string> = {
+  account_name: 'Account Name',
+  account_number: 'Account Number',
+  bank_code: 'Bank Code',
+  branch_code: 'Branch Code',
+  amount: 'Amount',
+  reference: 'Reference',
+  employee_id: 'Employee ID',
+  value_date: 'Value Date',
+}
+
+export function buildBankFile(settings: BankPaymentSettings, lines: BankPaymentLine[], context: BankFileContext) {
+  const rows = lines.map(line => settings.columns.map(column => COLUMN_VALUES[column](line, context)).join(','))
+  const header = settings.header ? [settings.columns.map(column => COLUMN_HEADERS[column]).join(',')] : []
+  return [...header, ...rows].join('\r\n') + '\r\n'
+}
+
+// Bank details of every worker paid by transfer
+export async function fetchBankAccounts(orgId: string) {
+  const { data, error } = await supabase
+    .from('workers')
+    .select('id, bank_code, bank_branch_code, bank_account_number, bank_account_name')
+    .eq('organization_id', orgId)
+    .eq('payment_method', 'bank')
+
+  if (error) throw error
+  return new Map<string, BankAccount>((data ?? []).map(({ id, ...account }) => [id, account]))
+}
+
+// Records each line of the file as a bank payment of what was left of that salary
+export async function markBankPaid(orgId: string, month: string, lines: BankPaymentLine[], reference: string, valueDate: string) {
+  await addSalaryPayments(orgId, month, lines.map(line => ({
+    worker_id: line.worker_id,
+    amount: line.amount,
+    payment_method: 'bank',
+    reference,
+    paid_on: valueDate,
+  })))
+}
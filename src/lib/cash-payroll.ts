@@ -0,0 +1,72 @@
+// =====================================================
+// CASH DENOMINATIONS (Sri Lankan rupee)
+// =====================================================
+
+export interface Denomination {
+  value: number
+  coin: boolean
+}
+
+// Largest first; cents are no longer in circulation, so cash pay is in whole rupees
+export const CASH_DENOMINATIONS: Denomination[] = [
+  { value: 5000, coin: false },
+  { value: 2000, coin: false },
+  { value: 1000, coin: false },
+  { value: 500, coin: false },
+  { value: 100, coin: false },
+  { value: 50, coin: false },
+  { value: 20, coin: false },
+  { value: 10, coin: true },
+  { value: 5, coin: true },
+  { value: 2, coin: true },
+  { value: 1, coin: true },
+]
+
+// 2000 notes are seldom issued by banks, so plans leave them out unless asked for
+export const DEFAULT_DENOMINATIONS = CASH_DENOMINATIONS.map(d => d.value).filter(value => value !== 2000)
+
+// Count of each denomination, keyed by its value
+export type DenominationCounts = Record<number, number>
+
+export interface CashBreakdown {
+  amount: number
+  counts: DenominationCounts
+  // Left over when the smallest denomination in use can't make the amount exactly
+  remainder: number
+}
+
+export function cashAmount(netSalary: number) {
+  return Math.max(0, Math.round(netSalary))
+}
+
+// Fewest notes and coins for the amount; taking the largest first is optimal for rupee denominations
+export function breakDownCash(netSalary: number, denominations: number[]): CashBreakdown {
+  const amount = cashAmount(netSalary)
+  const counts: DenominationCounts = {}
+  let left = amount
+  for (const value of [...denominations].sort((a, b) => b - a)) {
+    const count = Math.floor(left / value)
+    if (count > 0) {
+      counts[value] = count
+      left -= count * value
+    }
+  }
+  return { amount, counts, remainder: left }
+}
+
+export function totalCounts(breakdowns: CashBreakdown[]): DenominationCounts {
+  const totals: DenominationCounts = {}
+  breakdowns.forEach(({ counts }) => {
+    Object.entries(counts).forEach(([value, count]) => {
+      totals[Number(value)] = (totals[Number(value)] ?? 0) + count
+    })
+  })
+  return totals
+}
+
+export function describeCounts(counts: DenominationCounts) {
+  return Object.entries(counts)
+    .sort(([a], [b]) => Number(b) - Number(a))
+    .map(([value, count]) => `${count} × ${value}`)
+    .join(', ')
+}
@@ -0,0 +1,67 @@
+/**
+ * Minimal CSV helpers shared by the import and export features
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings
+ */
+
+interface ParserState {
+  rows: string[][]
+  row: string[]
+  field: string
+  inQuotes: boolean
+}
+
+function endField(state: ParserState) {
+  state.row.push(state.field)
+  state.field = ''
+}
+
+function endRow(state: ParserState) {
+  endField(state)
+  state.rows.push(state.row)
+  state.row = []
+}
+
+// Returns how many extra characters were consumed
+function readQuoted(state: ParserState, char: string, next: string): number {
+  if (char === '"' && next === '"') {
+    state.field += '"'
+    return 1
+  }
+  if (char === '"') state.inQuotes = false
+  else state.field += char
+  return 0
+}
+
+function readUnquoted(state: ParserState, char: string, next: string): number {
+  if (char === '\n' || char === '\r') {
+    endRow(state)
+    return char === '\r' && next === '\n' ? 1 : 0
+  }
+  if (char === '"') state.inQuotes = true
+  else if (char === ',') endField(state)
+  else state.field += char
+  return 0
+}
+
+export function parseCSV(text: string): string[][] {
+  const state: ParserState = { rows: [], row: [], field: '', inQuotes: false }
+
+  // Strip a UTF-8 BOM left behind by Excel
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i)
+    const next = input.charAt(i + 1)
+    i += state.inQuotes ? readQuoted(state, char, next) : readUnquoted(state, char, next)
+  }
+
+  if (state.field !== '' || state.row.length > 0) endRow(state)
+
+  // Drop blank lines
+  return state.rows.filter(r => r.some(cell => cell.trim() !== ''))
+}
+
+export function escapeCSVCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return `"${text.replace(/"/g, '""')}"`
+}
@@ -0,0 +1,110 @@
+import type { Localizer, Translate } from '@/lib/i18n'
+import type { ExtraWork, ExtraWorkType } from '@/types/payroll'
+
+import { supabase } from './supabase'
+
+// Embedded select for the itemised extra work lines of a daily_plucking record
+export const EXTRA_WORK_SELECT = 'daily_plucking_extra_work (id, extra_work_type_id, description, amount, extra_work_types (name))'
+
+export interface ExtraWorkItem {
+  extra_work_type_id: string | null
+  description: string
+  amount: number
+}
+
+export type ExtraWorkRow = Pick<ExtraWork, 'id' | 'extra_work_type_id' | 'description' | 'amount'> & {
+  extra_work_types: { name: string } | null
+}
+
+export function toExtraWorkItems(rows: ExtraWorkRow[] | null | undefined): ExtraWorkItem[] {
+  return (rows ?? []).map(row => ({
+    extra_work_type_id: row.extra_work_type_id,
+    description: row.description,
+    amount: Number(row.amount) || 0,
+  }))
+}
+
+export function extraWorkTypeLabel(row: Pick<ExtraWorkRow, 'extra_work_types'>, t: Translate) {
+  return row.extra_work_types?.name ?? t('common.otherWork')
+}
+
+// Links free text descriptions to the catalogue by name (case-insensitive)
+export function matchExtraWorkType(description: string, types: ExtraWorkType[]): string | null {
+  const name = description.trim().toLowerCase()
+  return types.find(t => t.name.toLowerCase() === name)?.id ?? null
+}
+
+export async function fetchExtraWorkTypes(orgId: string, activeOnly = false) {
+  let query = supabase
+    .from('extra_work_types')
+    .select('*')
+    .eq('organization_id', orgId)
+    .order('name')
+
+  if (activeOnly) query = query.eq('is_active', true)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as ExtraWorkType[]
+}
+
+export function buildExtraWorkInserts(orgId: string, dailyPluckingId: string, items: ExtraWorkItem[]) {
+  return items
+    .filter(item => item.description.trim() && item.amount > 0)
+    .map(item => ({
+      organization_id: orgId,
+      daily_plucking_id: dailyPluckingId,
+      extra_work_type_id: item.extra_work_type_id,
+      description: item.description.trim(),
+      amount: item.amount,
+    }))
+}
+
+// Replaces all extra work lines of a record with the given items
+export async function saveExtraWork(orgId: string, dailyPluckingId: string, items: ExtraWorkItem[]) {
+  const { error: deleteError } = await supabase
+    .from('daily_plucking_extra_work')
+    .delete()
+    .eq('daily_plucking_id', dailyPluckingId)
+
+  if (deleteError) throw deleteError
+
+  const rows = buildExtraWorkInserts(orgId, dailyPluckingId, items)
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('daily_plucking_extra_work')
+    .insert(rows)
+
+  if (error) throw error
+}
+
+// Extra work totals per worker, broken out by type name, for a date range
+export async function fetchExtraWorkByType(orgId: string, from: string, to: string, t: Translate) {
+  const { data, error } = await supabase
+    .from('daily_plucking_extra_work')
+    .select('amount, extra_work_types (name), daily_plucking!inner (worker_id, date)')
+    .eq('organization_id', orgId)
+    .gte('daily_plucking.date', from)
+    .lte('daily_plucking.date', to)
+
+  if (error) throw error
+
+  const byWorker = new Map<string, Record<string, number>>()
+  ;(data ?? []).forEach((row: any) => {
+    const workerId = row.daily_plucking?.worker_id
+    if (!workerId) return
+    const breakdown = byWorker.get(workerId) ?? {}
+    const label = extraWorkTypeLabel(row, t)
+    breakdown[label] = (breakdown[label] ?? 0) + (Number(row.amount) || 0)
+    byWorker.set(workerId, breakdown)
+  })
+  return byWorker
+}
+
+export function formatExtraWorkBreakdown(breakdown: Record<string, number> | undefined, l: Localizer) {
+  return Object.entries(breakdown ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, amount]) => `${name}: ${l.money(amount)}`)
+    .join('; ')
+}
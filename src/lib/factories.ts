@@ -0,0 +1,101 @@
+import type { MessageKey } from '@/lib/i18n'
+import type { Factory } from '@/types/factories'
+
+import { addRateHistory } from './factory-rates'
+import { supabase } from './supabase'
+
+// factory_rates is one-to-one with factories and holds the rate in force today
+export const FACTORY_SELECT = '*, factory_rates (current_rate, previous_rate, effective_date)'
+
+export interface FactoryWithRate extends Factory {
+  current_rate: number | null
+  previous_rate: number | null
+  effective_date: string | null
+}
+
+export type FactoryDetails = Pick<Factory,
+  | 'name'
+  | 'contact_person'
+  | 'phone'
+  | 'address'
+  | 'distance_km'
+  | 'registration_number'
+  | 'bank_name'
+  | 'bank_branch'
+  | 'bank_account_name'
+  | 'bank_account_number'
+  | 'notes'
+  | 'is_active'
+>
+
+// Factory names are unique per organization, ignoring case and extra spaces; the message is returned to translate
+export function duplicateFactoryMessage(error: any): MessageKey | null {
+  return error?.code === '23505' ? 'factories.duplicateName' : null
+}
+
+function withRate(row: any): FactoryWithRate {
+  const { factory_rates: rates, ...factory } = row
+  const rate = Array.isArray(rates) ? rates[0] : rates
+  return {
+    ...factory,
+    current_rate: rate ? Number(rate.current_rate) : null,
+    previous_rate: rate?.previous_rate === null || rate?.previous_rate === undefined ? null : Number(rate.previous_rate),
+    effective_date: rate?.effective_date ?? null,
+  }
+}
+
+export async function fetchFactories(orgId: string) {
+  const { data, error } = await supabase
+    .from('factories')
+    .select(FACTORY_SELECT)
+    .eq('organization_id', orgId)
+    .order('name')
+
+  if (error) throw error
+  return (data ?? []).map(withRate)
+}
+
+export async function fetchFactory(orgId: string, factoryId: string) {
+  const { data, error } = await supabase
+    .from('factories')
+    .select(FACTORY_SELECT)
+    .eq('organization_id', orgId)
+    .eq('id', factoryId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? withRate(data) : null
+}
+
+// Creates the factory with its first rate
+export async function createFactory(orgId: string, details: Partial<FactoryDetails> & Pick<FactoryDetails, 'name'>, rate: number, effectiveDate: string) {
+  const { data, error } = await supabase
+    .from('factories')
+    .insert({ ...details, name: details.name.trim(), organization_id: orgId })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  const { error: rateError } = await supabase
+    .from('factory_rates')
+    .insert({
+      id: data.id,
+      organization_id: orgId,
+      current_rate: rate,
+      effective_date: effectiveDate
+    })
+
+  if (rateError) throw rateError
+  await addRateHistory(orgId, data.id, rate, effectiveDate)
+  return data.id as string
+}
+
+export async function updateFactory(factoryId: string, details: Partial<FactoryDetails>) {
+  const { error } = await supabase
+    .from('factories')
+    .update(details.name === undefined ? details : { ...details, name: details.name.trim() })
+    .eq('id', factoryId)
+
+  if (error) throw error
+}
@@ -0,0 +1,166 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+
+import type { FactoryWithRate } from './factories'
+import { saleOutstanding } from './factory-payments'
+import { RateHistoryEntry, rateOn } from './factory-rates'
+import { LeafTripWithDeliveries, transportCostByFactory } from './leaf-trips'
+import { supabase } from './supabase'
+import { saleNetIncome } from './tea-sale-deductions'
+
+export interface ComparisonSale {
+  id: string
+  date: string
+  factory_id: string | null
+  factory_name: string
+  kg_delivered: number
+  total_income: number
+  deductions: number | null
+  net_income: number | null
+  amount_paid: number | null
+  factory_payment_allocations: { factory_payments: { payment_date: string } | null }[]
+}
+
+export interface FactoryComparison {
+  factoryId: string
+  name: string
+  deliveries: number
+  kg: number
+  grossPerKg: number
+  deductionsPerKg: number
+  deductionShare: number
+  transportPerKg: number
+  netPerKg: number
+  avgPaymentDays: number | null
+  outstanding: number
+  nextRate: number | null
+  projectedNetPerKg: number | null
+  rank: number | null
+}
+
+export interface RatePoint {
+  time: number
+  [factoryKey: string]: number
+}
+
+// Projected figures this close count as level, and the faster payer ranks first
+export const RANK_STEP_PER_KG = 0.5
+
+// Chart series keys must be safe in CSS variable names, so factories are keyed by position
+export function factoryKey(index: number) {
+  return `factory${index}`
+}
+
+// Days from delivery to the payment that cleared it; null while unpaid or settled before payments were tracked
+export function paymentDelayDays(sale: ComparisonSale) {
+  if (saleOutstanding(sale) > 0) return null
+  const paidOn = sale.factory_payment_allocations
+    .map(allocation => allocation.factory_payments?.payment_date)
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop()
+  return paidOn ? Math.max(0, differenceInCalendarDays(parseISO(paidOn), parseISO(sale.date))) : null
+}
+
+function average(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+function pastFigures(sales: ComparisonSale[], transportPerKg: number) {
+  const kg = sales.reduce((sum, sale) => sum + Number(sale.kg_delivered), 0)
+  const gross = sales.reduce((sum, sale) => sum + Number(sale.total_income), 0)
+  const net = sales.reduce((sum, sale) => sum + saleNetIncome(sale), 0)
+  const perKg = (amount: number) => (kg > 0 ? amount / kg : 0)
+
+  return {
+    deliveries: sales.length,
+    kg,
+    grossPerKg: perKg(gross),
+    deductionsPerKg: perKg(gross - net),
+    deductionShare: gross > 0 ? (gross - net) / gross : 0,
+    transportPerKg,
+    netPerKg: perKg(net) - transportPerKg,
+    avgPaymentDays: average(sales.map(paymentDelayDays).filter((days): days is number => days !== null)),
+    outstanding: sales.reduce((sum, sale) => sum + saleOutstanding(sale), 0),
+  }
+}
+
+function byProjection(a: FactoryComparison, b: FactoryComparison) {
+  if (a.projectedNetPerKg === null || b.projectedNetPerKg === null) {
+    return Number(a.projectedNetPerKg === null) - Number(b.projectedNetPerKg === null)
+  }
+  const difference = Math.round(b.projectedNetPerKg / RANK_STEP_PER_KG) - Math.round(a.projectedNetPerKg / RANK_STEP_PER_KG)
+  if (difference !== 0) return difference
+  return (a.avgPaymentDays ?? Number.MAX_SAFE_INTEGER) - (b.avgPaymentDays ?? Number.MAX_SAFE_INTEGER)
+}
+
+/**
+ * Past performance of each factory over the sales given, and a ranking for the month starting
+ * nextMonth: the rate in force then, less the factory's usual share of deductions and the
+ * transport cost per kg of getting leaf there.
+ */
+export function compareFactories(
+  factories: FactoryWithRate[],
+  sales: ComparisonSale[],
+  trips: LeafTripWithDeliveries[],
+  history: RateHistoryEntry[],
+  nextMonth: string
+): FactoryComparison[] {
+  const transport = new Map(transportCostByFactory(trips).map(row => [row.factory, row.costPerKg]))
+  const sold = new Set(sales.map(sale => sale.factory_id))
+
+  const rows = factories
+    .filter(factory => factory.is_active || sold.has(factory.id))
+    .map(factory => {
+      const figures = pastFigures(sales.filter(sale => sale.factory_id === factory.id), transport.get(factory.name) ?? 0)
+      const nextRate = factory.is_active ? (rateOn(history, factory.id, nextMonth)?.rate ?? factory.current_rate) : null
+      return {
+        factoryId: factory.id,
+        name: factory.name,
+        ...figures,
+        nextRate,
+        projectedNetPerKg: nextRate === null ? null : nextRate * (1 - figures.deductionShare) - figures.transportPerKg,
+        rank: null,
+      }
+    })
+    .sort(byProjection)
+
+  let rank = 0
+  return rows.map(row => ({ ...row, rank: row.projectedNetPerKg === null ? null : ++rank }))
+}
+
+/**
+ * The rate each factory had in force from `from` to `to`, one point at each rate change so the
+ * chart can draw steps. Values are keyed by factoryKey(position in factories).
+ */
+export function rateSeries(factories: Pick<FactoryWithRate, 'id'>[], history: RateHistoryEntry[], from: string, to: string): RatePoint[] {
+  const dates = [...new Set([
+    from,
+    ...history.filter(entry => entry.effective_date > from && entry.effective_date <= to).map(entry => entry.effective_date),
+    to,
+  ])].sort()
+
+  return dates.map(date => {
+    const point: RatePoint = { time: parseISO(date).getTime() }
+    factories.forEach((factory, index) => {
+      const entry = rateOn(history, factory.id, date)
+      if (entry) point[factoryKey(index)] = entry.rate
+    })
+    return point
+  })
+}
+
+export async function fetchComparisonSales(orgId: string, from: string, to: string) {
+  const { data, error } = await supabase
+    .from('tea_sales')
+    .select(`
+      id, date, factory_id, factory_name, kg_delivered, total_income, deductions, net_income, amount_paid,
+      factory_payment_allocations (factory_payments (payment_date))
+    `)
+    .eq('organization_id', orgId)
+    .gte('date', from)
+    .lte('date', to)
+    .overrideTypes<ComparisonSale[], { merge: false }>()
+
+  if (error) throw error
+  return data ?? []
+}
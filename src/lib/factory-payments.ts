@@ -0,0 +1,141 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+
+import type { MessageKey } from '@/lib/i18n'
+import type { FactoryPayment, FactoryPaymentAllocation, FactoryPaymentMethod } from '@/types/factories'
+
+import { supabase } from './supabase'
+import { SaleIncome, saleNetIncome } from './tea-sale-deductions'
+
+export const PAYMENT_METHODS: FactoryPaymentMethod[] = ['bank_transfer', 'cheque', 'cash']
+
+// Embedded select for the deliveries a payment settles
+export const PAYMENT_SELECT = '*, factory_payment_allocations (tea_sale_id, amount)'
+
+export interface FactoryPaymentWithAllocations extends FactoryPayment {
+  factory_payment_allocations: Pick<FactoryPaymentAllocation, 'tea_sale_id' | 'amount'>[]
+}
+
+export interface ReceivableSale extends SaleIncome {
+  id: string
+  date: string
+  amount_paid?: number | null
+}
+
+export interface PaymentAllocation {
+  tea_sale_id: string
+  amount: number
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+// Sales recorded before payments were tracked have no amount_paid
+export function saleOutstanding(sale: Omit<ReceivableSale, 'id' | 'date'>) {
+  return Math.max(0, round2(saleNetIncome(sale) - Number(sale.amount_paid ?? 0)))
+}
+
+export function paymentAllocated(payment: FactoryPaymentWithAllocations) {
+  return round2(payment.factory_payment_allocations.reduce((sum, a) => sum + Number(a.amount), 0))
+}
+
+// Spreads an amount over the outstanding deliveries, oldest first
+export function allocateOldestFirst(sales: ReceivableSale[], amount: number) {
+  const allocations: Record<string, number> = {}
+  let remaining = round2(amount)
+
+  for (const sale of [...sales].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (remaining <= 0) break
+    const share = Math.min(saleOutstanding(sale), remaining)
+    if (share > 0) {
+      allocations[sale.id] = share
+      remaining = round2(remaining - share)
+    }
+  }
+
+  return allocations
+}
+
+export const AGING_BUCKETS: { label: MessageKey; maxDays: number }[] = [
+  { label: 'receivables.bucket.30', maxDays: 30 },
+  { label: 'receivables.bucket.60', maxDays: 60 },
+  { label: 'receivables.bucket.over60', maxDays: Infinity },
+]
+
+export interface AgingRow {
+  factory: string
+  buckets: number[]
+  total: number
+}
+
+// Unpaid amounts per factory, bucketed by how many days ago the leaf was delivered
+export function agingReport(sales: (ReceivableSale & { factory_name: string })[], today: string): AgingRow[] {
+  const rows = new Map<string, AgingRow>()
+  const asOf = parseISO(today)
+
+  for (const sale of sales) {
+    const outstanding = saleOutstanding(sale)
+    if (outstanding <= 0) continue
+
+    const days = differenceInCalendarDays(asOf, parseISO(sale.date))
+    const bucket = AGING_BUCKETS.findIndex(b => days <= b.maxDays)
+    const row = rows.get(sale.factory_name) ?? { factory: sale.factory_name, buckets: AGING_BUCKETS.map(() => 0), total: 0 }
+
+    row.buckets[bucket] = round2(row.buckets[bucket] + outstanding)
+    row.total = round2(row.total + outstanding)
+    rows.set(sale.factory_name, row)
+  }
+
+  return [...rows.values()].sort((a, b) => b.total - a.total)
+}
+
+export async function fetchFactoryPayments(orgId: string, factoryId?: string) {
+  let query = supabase
+    .from('factory_payments')
+    .select(PAYMENT_SELECT)
+    .eq('organization_id', orgId)
+    .order('payment_date', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (factoryId) query = query.eq('factory_id', factoryId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as FactoryPaymentWithAllocations[]
+}
+
+export interface NewFactoryPayment {
+  factory_id: string
+  payment_date: string
+  amount: number
+  method: FactoryPaymentMethod
+  reference: string
+  notes: string
+}
+
+// The payment and its allocations are written in one transaction by the database
+export async function recordFactoryPayment(orgId: string, payment: NewFactoryPayment, allocations: PaymentAllocation[]) {
+  const { data, error } = await supabase.rpc('record_factory_payment', {
+    p_org_id: orgId,
+    p_factory_id: payment.factory_id,
+    p_payment_date: payment.payment_date,
+    p_amount: payment.amount,
+    p_method: payment.method,
+    p_reference: payment.reference,
+    p_notes: payment.notes,
+    p_allocations: allocations.filter(a => a.amount > 0),
+  })
+
+  if (error) throw error
+  return data as string
+}
+
+// Deleting a payment releases its allocations, so the deliveries become outstanding again
+export async function deleteFactoryPayment(paymentId: string) {
+  const { error } = await supabase
+    .from('factory_payments')
+    .delete()
+    .eq('id', paymentId)
+
+  if (error) throw error
+}
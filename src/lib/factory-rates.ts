@@ -0,0 +1,61 @@
+import type { RateHistory } from '@/types/database'
+
+import { fetchAllRows, supabase } from './supabase'
+
+export type RateHistoryEntry = Pick<RateHistory, 'id' | 'factory_id' | 'rate' | 'effective_date' | 'created_at'>
+
+// Rates typed by hand are compared to the cent
+export function ratesDiffer(a: number, b: number) {
+  return Math.abs(a - b) >= 0.005
+}
+
+// Switches factory_rates.current_rate onto any scheduled rate whose effective date has arrived
+export async function applyDueFactoryRates(orgId: string) {
+  const { data, error } = await supabase.rpc('apply_due_factory_rates', { p_org_id: orgId })
+  if (error) throw error
+  return (data ?? 0) as number
+}
+
+// Every rate change for the organization, or one factory, newest first
+export async function fetchRateHistories(orgId: string, factoryId?: string) {
+  const data = await fetchAllRows<RateHistoryEntry>((from, to) => {
+    let query = supabase
+      .from('rate_history')
+      .select('id, factory_id, rate, effective_date, created_at')
+      .eq('organization_id', orgId)
+
+    if (factoryId) query = query.eq('factory_id', factoryId)
+    return query
+      .order('effective_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to)
+  })
+  // Postgres numerics can arrive as strings
+  return data.map(entry => ({ ...entry, rate: Number(entry.rate) }))
+}
+
+// The entry in force on a date; expects the history newest first, as fetched
+export function rateOn(history: RateHistoryEntry[], factoryId: string, date: string) {
+  return history.find(entry => entry.factory_id === factoryId && entry.effective_date <= date) ?? null
+}
+
+// Rates scheduled after `today`, soonest first
+export function scheduledRates(history: RateHistoryEntry[], factoryId: string, today: string) {
+  return history
+    .filter(entry => entry.factory_id === factoryId && entry.effective_date > today)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+}
+
+export async function addRateHistory(orgId: string, factoryId: string, rate: number, effectiveDate: string) {
+  const { error } = await supabase
+    .from('rate_history')
+    .insert({
+      organization_id: orgId,
+      factory_id: factoryId,
+      rate,
+      effective_date: effectiveDate
+    })
+
+  if (error) throw error
+}
@@ -0,0 +1,96 @@
+import { format, isValid, parse } from 'date-fns'
+
+import type { Localizer, MessageKey, Translate } from '@/lib/i18n'
+
+import { parseCSV } from './csv'
+
+// Reads a factory's monthly statement CSV into dated lines for matching against tea_sales
+
+type StatementField = 'date' | 'kg' | 'deduction_kg' | 'rate'
+
+const STATEMENT_FIELDS: { key: StatementField; label: MessageKey; required: boolean; aliases: string[] }[] = [
+  { key: 'date', label: 'statements.field.date', required: true, aliases: ['date', 'day', 'received date'] },
+  { key: 'kg', label: 'statements.field.kg', required: true, aliases: ['kg', 'kg received', 'received kg', 'gross kg', 'green leaf kg', 'weight', 'quantity'] },
+  { key: 'deduction_kg', label: 'statements.field.deductionKg', required: false, aliases: ['deduction', 'deductions', 'deduction kg', 'leaf deduction', 'leaf deductions', 'water', 'coarse leaf'] },
+  { key: 'rate', label: 'statements.field.rate', required: true, aliases: ['rate', 'rate/kg', 'rate per kg', 'price', 'price/kg'] },
+]
+
+// Factories print dates in whichever style their software uses
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy', 'yyyy/MM/dd']
+
+export interface StatementLine {
+  line: number
+  date: string
+  kg: number
+  deduction_kg: number | null
+  rate: number
+}
+
+function normaliseHeader(header: string) {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function parseNumber(text: string | undefined) {
+  const cleaned = (text ?? '').replace(/,/g, '').trim()
+  return cleaned ? Number(cleaned) : NaN
+}
+
+function parseStatementDate(text: string, dateFormat: string) {
+  const parsed = parse(text.trim(), dateFormat, new Date())
+  return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null
+}
+
+// The first format that reads every date in the file as a day of the statement month
+function detectDateFormat(dates: string[], month: string) {
+  return DATE_FORMATS.find(dateFormat => dates.every(text => parseStatementDate(text, dateFormat)?.startsWith(month)))
+}
+
+function readLine(cells: string[], columns: Record<StatementField, number>, dateFormat: string, line: number, t: Translate): StatementLine | string {
+  const kg = parseNumber(cells[columns.kg])
+  const rate = parseNumber(cells[columns.rate])
+  const deduction = columns.deduction_kg >= 0 ? parseNumber(cells[columns.deduction_kg]) : NaN
+
+  if (Number.isNaN(kg) || kg < 0) return t('statements.error.badKg', { line })
+  if (Number.isNaN(rate) || rate < 0) return t('statements.error.badRate', { line })
+
+  return {
+    line,
+    date: parseStatementDate(cells[columns.date], dateFormat) ?? '',
+    kg,
+    deduction_kg: Number.isNaN(deduction) ? null : deduction,
+    rate,
+  }
+}
+
+// Reads a statement CSV with a header row. month is yyyy-MM; every line must fall in it.
+export function parseStatement(text: string, month: string, { t, date: formatDate }: Localizer): { lines: StatementLine[]; errors: string[] } {
+  const [header, ...rows] = parseCSV(text)
+  if (!header) return { lines: [], errors: [t('statements.error.empty')] }
+
+  const headers = header.map(normaliseHeader)
+  const columns = Object.fromEntries(
+    STATEMENT_FIELDS.map(field => [field.key, headers.findIndex(h => field.aliases.includes(h))])
+  ) as Record<StatementField, number>
+
+  const missing = STATEMENT_FIELDS.filter(field => field.required && columns[field.key] < 0)
+  if (missing.length > 0) {
+    return { lines: [], errors: [t('statements.error.missingColumns', { columns: missing.map(field => t(field.label)).join(', ') })] }
+  }
+
+  // Totals and notes rows at the foot of a statement have no date
+  const dataRows = rows.filter(cells => (cells[columns.date] ?? '').trim() !== '')
+  const dateFormat = detectDateFormat(dataRows.map(cells => cells[columns.date]), month)
+  if (!dateFormat) {
+    return { lines: [], errors: [t('statements.error.dateOutsideMonth', { month: formatDate(`${month}-01`, 'month') })] }
+  }
+
+  const lines: StatementLine[] = []
+  const errors: string[] = []
+  dataRows.forEach((cells, index) => {
+    const result = readLine(cells, columns, dateFormat, index + 2, t)
+    if (typeof result === 'string') errors.push(result)
+    else lines.push(result)
+  })
+
+  return { lines, errors }
+}
@@ -0,0 +1,222 @@
+import { endOfMonth, format, parseISO } from 'date-fns'
+
+import type { Translate } from '@/lib/i18n'
+import type { FactoryReconciliation, FactoryReconciliationStatus, FactoryStatementLine, TeaSaleDeduction } from '@/types/factories'
+
+import type { StatementLine } from './factory-statement-parser'
+import { supabase } from './supabase'
+import { DEDUCTIONS_SELECT, DeductionLine, saleDeductionRows, toDeductionLines, totalDeductions } from './tea-sale-deductions'
+
+// Differences smaller than these are rounding on the statement, not disputes
+const KG_TOLERANCE = 0.05
+export const RATE_TOLERANCE = 0.005
+
+export interface StatementSale {
+  id: string
+  date: string
+  kg_delivered: number
+  rate_per_kg: number
+  tea_sale_deductions?: Pick<TeaSaleDeduction, 'deduction_type_id' | 'name' | 'method' | 'value'>[] | null
+}
+
+export type ReconciledLine = Pick<
+  FactoryStatementLine,
+  'date' | 'tea_sale_id' | 'statement_kg' | 'statement_deduction_kg' | 'statement_rate' | 'recorded_kg' | 'recorded_deduction_kg' | 'recorded_rate' | 'status'
+>
+
+export interface ReconciliationWithLines extends FactoryReconciliation {
+  factory_statement_lines: FactoryStatementLine[]
+}
+
+export const STATEMENT_SALE_SELECT = `id, date, kg_delivered, rate_per_kg, ${DEDUCTIONS_SELECT}`
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export function saleLeafDeductionKg(sale: StatementSale) {
+  return round2((sale.tea_sale_deductions ?? [])
+    .filter(line => line.method === 'kg')
+    .reduce((sum, line) => sum + Number(line.value), 0))
+}
+
+export function figuresDiffer(statement: number | null, recorded: number | null, tolerance = KG_TOLERANCE) {
+  if (statement === null || recorded === null) return false
+  return Math.abs(Number(statement) - Number(recorded)) > tolerance
+}
+
+function statementFigures(statement: StatementLine | undefined) {
+  return {
+    statement_kg: statement ? statement.kg : null,
+    statement_deduction_kg: statement ? statement.deduction_kg : null,
+    statement_rate: statement ? statement.rate : null,
+  }
+}
+
+function recordedFigures(sale: StatementSale | undefined) {
+  return {
+    tea_sale_id: sale ? sale.id : null,
+    recorded_kg: sale ? Number(sale.kg_delivered) : null,
+    recorded_deduction_kg: sale ? saleLeafDeductionKg(sale) : null,
+    recorded_rate: sale ? Number(sale.rate_per_kg) : null,
+  }
+}
+
+function pairLine(statement: StatementLine | undefined, sale: StatementSale | undefined, date: string): ReconciledLine {
+  const row = { date, ...statementFigures(statement), ...recordedFigures(sale) }
+
+  if (!sale) return { ...row, status: 'missing_recorded' }
+  if (!statement) return { ...row, status: 'missing_statement' }
+
+  const differs = figuresDiffer(row.statement_kg, row.recorded_kg)
+    || figuresDiffer(row.statement_deduction_kg, row.recorded_deduction_kg)
+    || figuresDiffer(row.statement_rate, row.recorded_rate, RATE_TOLERANCE)
+  return { ...row, status: differs ? 'mismatch' : 'matched' }
+}
+
+// Pairs statement lines with sales on the same day, heaviest with heaviest, so a day
+// with two deliveries still matches line by line. Unpaired lines on either side are missing.
+export function matchStatement(lines: StatementLine[], sales: StatementSale[]): ReconciledLine[] {
+  const dates = [...new Set([...lines.map(line => line.date), ...sales.map(sale => sale.date)])].sort()
+
+  return dates.flatMap(date => {
+    const dayLines = lines.filter(line => line.date === date).sort((a, b) => b.kg - a.kg)
+    const daySales = sales.filter(sale => sale.date === date).sort((a, b) => b.kg_delivered - a.kg_delivered)
+    const count = Math.max(dayLines.length, daySales.length)
+    return Array.from({ length: count }, (_, index) => pairLine(dayLines[index], daySales[index], date))
+  })
+}
+
+export function lineAmount(kg: number | null, deductionKg: number | null, rate: number | null) {
+  if (kg === null || rate === null) return 0
+  return round2((Number(kg) - Number(deductionKg ?? 0)) * Number(rate))
+}
+
+export function reconciliationTotals(lines: ReconciledLine[]) {
+  return {
+    statementKg: round2(lines.reduce((sum, line) => sum + Number(line.statement_kg ?? 0), 0)),
+    statementAmount: round2(lines.reduce((sum, line) => sum + lineAmount(line.statement_kg, line.statement_deduction_kg, line.statement_rate), 0)),
+    recordedKg: round2(lines.reduce((sum, line) => sum + Number(line.recorded_kg ?? 0), 0)),
+    recordedAmount: round2(lines.reduce((sum, line) => sum + lineAmount(line.recorded_kg, line.recorded_deduction_kg, line.recorded_rate), 0)),
+    mismatches: lines.filter(line => line.status !== 'matched').length,
+  }
+}
+
+// Sets the kg struck off to the factory's figure, on the sale's first weight deduction line
+function withLeafDeduction(lines: DeductionLine[], deductionKg: number | null, name: string): DeductionLine[] {
+  if (deductionKg === null) return lines
+
+  const first = lines.findIndex(line => line.method === 'kg')
+  if (first < 0) {
+    if (deductionKg <= 0) return lines
+    return [...lines, { deduction_type_id: null, name, method: 'kg', value: deductionKg }]
+  }
+
+  return lines.map((line, index) => {
+    if (line.method !== 'kg') return line
+    return { ...line, value: index === first ? deductionKg : 0 }
+  })
+}
+
+function saleFigures(kg: number, rate: number, lines: DeductionLine[]) {
+  const total = round2(kg * rate)
+  const deductions = totalDeductions(lines, kg, rate)
+  return { kg_delivered: kg, rate_per_kg: rate, total_income: total, deductions, net_income: round2(total - deductions) }
+}
+
+export async function fetchStatementSales(orgId: string, factoryId: string, month: string) {
+  const start = parseISO(`${month}-01`)
+  const { data, error } = await supabase
+    .from('tea_sales')
+    .select(STATEMENT_SALE_SELECT)
+    .eq('organization_id', orgId)
+    .eq('factory_id', factoryId)
+    .gte('date', format(start, 'yyyy-MM-dd'))
+    .lte('date', format(endOfMonth(start), 'yyyy-MM-dd'))
+    .order('date')
+
+  if (error) throw error
+  return (data ?? []) as StatementSale[]
+}
+
+export async function fetchReconciliations(orgId: string, factoryId: string) {
+  const { data, error } = await supabase
+    .from('factory_reconciliations')
+    .select('*, factory_statement_lines (*)')
+    .eq('organization_id', orgId)
+    .eq('factory_id', factoryId)
+    .order('month', { ascending: false })
+
+  if (error) throw error
+  return (data ?? []) as ReconciliationWithLines[]
+}
+
+// A sale corrected to the factory's figures, or added for a day only the factory recorded
+export interface SaleCorrection extends ReturnType<typeof saleFigures> {
+  id: string
+  is_new: boolean
+  date: string
+  notes: string | null
+  deduction_lines: ReturnType<typeof saleDeductionRows>
+}
+
+// The sale changes accepting a statement makes. New sales get their id here so the
+// returned lines can link to them; save_factory_reconciliation writes both together.
+export function statementCorrections(lines: ReconciledLine[], sales: StatementSale[], t: Translate) {
+  const salesById = new Map(sales.map(sale => [sale.id, sale]))
+  const corrections: SaleCorrection[] = []
+
+  const linked = lines.map(line => {
+    if (line.statement_kg === null || line.statement_rate === null || line.status === 'matched') return line
+
+    const sale = line.tea_sale_id ? salesById.get(line.tea_sale_id) : undefined
+    const deductionLines = withLeafDeduction(toDeductionLines(sale?.tea_sale_deductions), line.statement_deduction_kg, t('statements.leafDeduction'))
+    const figures = saleFigures(Number(line.statement_kg), Number(line.statement_rate), deductionLines)
+    const id = sale?.id ?? crypto.randomUUID()
+    corrections.push({
+      ...figures,
+      id,
+      is_new: !sale,
+      date: line.date,
+      notes: sale ? null : t('statements.addedNote'),
+      deduction_lines: saleDeductionRows(deductionLines, figures.kg_delivered, figures.rate_per_kg),
+    })
+    return { ...line, tea_sale_id: id }
+  })
+
+  return { lines: linked, corrections }
+}
+
+export async function saveReconciliation(
+  orgId: string,
+  factoryId: string,
+  month: string,
+  status: FactoryReconciliationStatus,
+  fileName: string,
+  disputeReason: string,
+  lines: ReconciledLine[],
+  corrections: SaleCorrection[] = []
+) {
+  const { data, error } = await supabase.rpc('save_factory_reconciliation', {
+    p_org_id: orgId,
+    p_factory_id: factoryId,
+    p_month: `${month}-01`,
+    p_status: status,
+    p_file_name: fileName,
+    p_dispute_reason: disputeReason,
+    p_lines: lines,
+    p_sales: corrections,
+  })
+
+  if (error) throw error
+  return data as string
+}
+
+export async function deleteReconciliation(id: string) {
+  const { error } = await supabase
+    .from('factory_reconciliations')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
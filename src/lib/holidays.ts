@@ -0,0 +1,151 @@
+import type { Holiday, HolidayType } from '@/types/payroll'
+
+import { supabase } from './supabase'
+
+// =====================================================
+// HOLIDAY RATES (organizations.settings.holiday_rates)
+// =====================================================
+
+// Multiplier on a day's plucking wage for each kind of holiday; 1 pays a normal day
+export type HolidayRates = Record<HolidayType, number>
+
+export const HOLIDAY_TYPES: HolidayType[] = ['poya', 'public', 'mercantile', 'estate']
+
+export const DEFAULT_HOLIDAY_RATES: HolidayRates = {
+  poya: 1.5,
+  public: 1.5,
+  mercantile: 1.5,
+  estate: 1,
+}
+
+export function readHolidayRates(settings: Record<string, any>): HolidayRates {
+  return { ...DEFAULT_HOLIDAY_RATES, ...(settings.holiday_rates ?? {}) }
+}
+
+export type CalendarHoliday = Pick<Holiday, 'id' | 'date' | 'name' | 'holiday_type'>
+
+export function holidaysOn(holidays: CalendarHoliday[], date: string) {
+  return holidays.filter(holiday => holiday.date === date)
+}
+
+// The multiplier for plucking on a date; when two holidays fall together the better rate applies
+export function holidayRate(holidays: CalendarHoliday[], date: string, rates: HolidayRates) {
+  return holidaysOn(holidays, date).reduce((rate, holiday) => Math.max(rate, rates[holiday.holiday_type]), 1)
+}
+
+// =====================================================
+// SRI LANKAN HOLIDAYS
+// =====================================================
+
+// From the government gazette. Poya and religious holidays follow the lunar calendar,
+// so add each year's list as it is published.
+const SRI_LANKAN_HOLIDAYS: Record<number, [string, string, HolidayType][]> = {
+  2025: [
+    ['2025-01-13', 'Duruthu Full Moon Poya Day', 'poya'],
+    ['2025-01-14', 'Tamil Thai Pongal Day', 'mercantile'],
+    ['2025-02-04', 'National Day', 'mercantile'],
+    ['2025-02-12', 'Navam Full Moon Poya Day', 'poya'],
+    ['2025-02-26', 'Mahasivarathri Day', 'mercantile'],
+    ['2025-03-13', 'Medin Full Moon Poya Day', 'poya'],
+    ['2025-03-31', 'Id-Ul-Fitr (Ramazan Festival Day)', 'mercantile'],
+    ['2025-04-12', 'Bak Full Moon Poya Day', 'poya'],
+    ['2025-04-13', 'Day prior to Sinhala and Tamil New Year Day', 'mercantile'],
+    ['2025-04-14', 'Sinhala and Tamil New Year Day', 'mercantile'],
+    ['2025-04-18', 'Good Friday', 'public'],
+    ['2025-05-01', 'May Day', 'mercantile'],
+    ['2025-05-12', 'Vesak Full Moon Poya Day', 'poya'],
+    ['2025-05-13', 'Day following Vesak Full Moon Poya Day', 'public'],
+    ['2025-06-07', 'Id-Ul-Alha (Hadji Festival Day)', 'public'],
+    ['2025-06-10', 'Poson Full Moon Poya Day', 'poya'],
+    ['2025-07-10', 'Esala Full Moon Poya Day', 'poya'],
+    ['2025-08-08', 'Nikini Full Moon Poya Day', 'poya'],
+    ['2025-09-05', "Milad-Un-Nabi (Holy Prophet's Birthday)", 'mercantile'],
+    ['2025-09-07', 'Binara Full Moon Poya Day', 'poya'],
+    ['2025-10-06', 'Vap Full Moon Poya Day', 'poya'],
+    ['2025-10-20', 'Deepavali Festival Day', 'mercantile'],
+    ['2025-11-05', 'Il Full Moon Poya Day', 'poya'],
+    ['2025-12-04', 'Unduvap Full Moon Poya Day', 'poya'],
+    ['2025-12-25', 'Christmas Day', 'mercantile'],
+  ],
+  2026: [
+    ['2026-01-03', 'Duruthu Full Moon Poya Day', 'poya'],
+    ['2026-01-15', 'Tamil Thai Pongal Day', 'mercantile'],
+    ['2026-02-01', 'Navam Full Moon Poya Day', 'poya'],
+    ['2026-02-04', 'National Day', 'mercantile'],
+    ['2026-02-15', 'Mahasivarathri Day', 'mercantile'],
+    ['2026-03-02', 'Medin Full Moon Poya Day', 'poya'],
+    ['2026-03-21', 'Id-Ul-Fitr (Ramazan Festival Day)', 'mercantile'],
+    ['2026-04-01', 'Bak Full Moon Poya Day', 'poya'],
+    ['2026-04-03', 'Good Friday', 'public'],
+    ['2026-04-13', 'Day prior to Sinhala and Tamil New Year Day', 'mercantile'],
+    ['2026-04-14', 'Sinhala and Tamil New Year Day', 'mercantile'],
+    ['2026-05-01', 'May Day', 'mercantile'],
+    ['2026-05-01', 'Vesak Full Moon Poya Day', 'poya'],
+    ['2026-05-02', 'Day following Vesak Full Moon Poya Day', 'public'],
+    ['2026-05-28', 'Id-Ul-Alha (Hadji Festival Day)', 'public'],
+    ['2026-05-30', 'Adhi Poson Full Moon Poya Day', 'poya'],
+    ['2026-06-29', 'Poson Full Moon Poya Day', 'poya'],
+    ['2026-07-29', 'Esala Full Moon Poya Day', 'poya'],
+    ['2026-08-26', "Milad-Un-Nabi (Holy Prophet's Birthday)", 'mercantile'],
+    ['2026-08-27', 'Nikini Full Moon Poya Day', 'poya'],
+    ['2026-09-26', 'Binara Full Moon Poya Day', 'poya'],
+    ['2026-10-25', 'Vap Full Moon Poya Day', 'poya'],
+    ['2026-11-08', 'Deepavali Festival Day', 'mercantile'],
+    ['2026-11-24', 'Il Full Moon Poya Day', 'poya'],
+    ['2026-12-23', 'Unduvap Full Moon Poya Day', 'poya'],
+    ['2026-12-25', 'Christmas Day', 'mercantile'],
+  ],
+}
+
+export const SRI_LANKAN_HOLIDAY_YEARS = Object.keys(SRI_LANKAN_HOLIDAYS).map(Number)
+
+// Adds the year's list, leaving entries already in the calendar as they are; returns how many were added
+export async function loadSriLankanHolidays(orgId: string, year: number) {
+  const rows = (SRI_LANKAN_HOLIDAYS[year] ?? []).map(([date, name, holiday_type]) => ({
+    organization_id: orgId,
+    date,
+    name,
+    holiday_type,
+  }))
+  if (rows.length === 0) return 0
+
+  const { data, error } = await supabase
+    .from('holidays')
+    .upsert(rows, { onConflict: 'organization_id,date,name', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) throw error
+  return data?.length ?? 0
+}
+
+// =====================================================
+// CALENDAR
+// =====================================================
+
+export async function fetchHolidays(orgId: string, from?: string, to?: string) {
+  let query = supabase
+    .from('holidays')
+    .select('id, date, name, holiday_type')
+    .eq('organization_id', orgId)
+    .order('date')
+
+  if (from) query = query.gte('date', from)
+  if (to) query = query.lte('date', to)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as CalendarHoliday[]
+}
+
+export async function saveHoliday(orgId: string, holiday: Omit<CalendarHoliday, 'id'>, id?: string) {
+  const { error } = id
+    ? await supabase.from('holidays').update(holiday).eq('id', id)
+    : await supabase.from('holidays').insert({ ...holiday, organization_id: orgId })
+
+  if (error) throw error
+}
+
+export async function deleteHoliday(id: string) {
+  const { error } = await supabase.from('holidays').delete().eq('id', id)
+  if (error) throw error
+}
@@ -0,0 +1,114 @@
+// Translation and locale-aware formatting for the dashboard and its printed documents
+
+import { parseISO } from "date-fns"
+
+import { formatCurrency } from "@/lib/utils"
+import { LANGUAGE_OPTIONS, type Language } from "@/types/preferences/language"
+
+import { en, type MessageKey, type Messages } from "./messages/en"
+import { si } from "./messages/si"
+import { ta } from "./messages/ta"
+
+export type { MessageKey }
+
+export type TranslationParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string
+
+const CATALOGUES: Record<Language, Messages> = { en, si, ta }
+
+export const DATE_FORMATS = {
+  // March 2025
+  month: { month: 'long', year: 'numeric' },
+  // Mar 25
+  shortMonth: { month: 'short', year: '2-digit' },
+  // Mar
+  monthName: { month: 'short' },
+  // Mar 05
+  day: { month: 'short', day: '2-digit' },
+  // Mar 5, 2025
+  date: { month: 'short', day: 'numeric', year: 'numeric' },
+  // Wed
+  weekdayName: { weekday: 'short' },
+  // Wed, Mar 5
+  weekday: { weekday: 'short', month: 'short', day: 'numeric' },
+  // Wed, Mar 5, 2025
+  weekdayDate: { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' },
+  // Mar 5, 2025, 2:30 PM
+  dateTime: { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' },
+} satisfies Record<string, Intl.DateTimeFormatOptions>
+
+export type DateStyle = keyof typeof DATE_FORMATS
+
+export function localeFor(language: Language) {
+  return LANGUAGE_OPTIONS.find(option => option.value === language)?.locale ?? 'en-LK'
+}
+
+export function createTranslator(language: Language): Translate {
+  const messages = CATALOGUES[language]
+  return (key, params) => {
+    const message = messages[key] ?? en[key]
+    if (!params) return message
+    return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+  }
+}
+
+// Date-only strings (yyyy-MM-dd) are read as local dates, not UTC midnight
+export function formatDate(value: Date | string, language: Language, style: DateStyle = 'date') {
+  const date = typeof value === 'string' ? parseISO(value) : value
+  return new Intl.DateTimeFormat(localeFor(language), DATE_FORMATS[style]).format(date)
+}
+
+// Largest unit first; anything under a minute is counted in seconds
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 31536000],
+  ['month', 2592000],
+  ['week', 604800],
+  ['day', 86400],
+  ['hour', 3600],
+  ['minute', 60],
+]
+
+// "3 days ago", "in 2 weeks"
+export function formatRelative(value: Date | string, language: Language) {
+  const date = typeof value === 'string' ? parseISO(value) : value
+  const seconds = (date.getTime() - Date.now()) / 1000
+  const [unit, size] = RELATIVE_UNITS.find(([, size]) => Math.abs(seconds) >= size) ?? ['second', 1]
+  return new Intl.RelativeTimeFormat(localeFor(language), { numeric: 'auto' }).format(Math.round(seconds / size), unit)
+}
+
+export function formatNumber(value: number, language: Language, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(localeFor(language), options).format(value)
+}
+
+export function formatKg(value: number, language: Language, t: Translate) {
+  return t('common.kgValue', { value: formatNumber(value, language, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })
+}
+
+export function formatMoney(amount: number, language: Language) {
+  return formatCurrency(amount, { locale: localeFor(language) })
+}
+
+// Translator and formatters bound to one language; passed to printed documents so they follow the user's choice
+export interface Localizer {
+  language: Language
+  t: Translate
+  date: (value: Date | string, style?: DateStyle) => string
+  relative: (value: Date | string) => string
+  number: (value: number, options?: Intl.NumberFormatOptions) => string
+  kg: (value: number) => string
+  money: (amount: number) => string
+}
+
+export function createLocalizer(language: Language): Localizer {
+  const t = createTranslator(language)
+  return {
+    language,
+    t,
+    date: (value, style) => formatDate(value, language, style),
+    relative: value => formatRelative(value, language),
+    number: (value, options) => formatNumber(value, language, options),
+    kg: value => formatKg(value, language, t),
+    money: amount => formatMoney(amount, language),
+  }
+}
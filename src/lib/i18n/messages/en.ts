@@ -0,0 +1,46 @@
+import { account } from "./en/account"
+import { advances } from "./en/advances"
+import { attendance } from "./en/attendance"
+import { common } from "./en/common"
+import { factories } from "./en/factories"
+import { leaf } from "./en/leaf"
+import { navigation } from "./en/navigation"
+import { organization } from "./en/organization"
+import { overview } from "./en/overview"
+import { plantations } from "./en/plantations"
+import { plucking } from "./en/plucking"
+import { reports } from "./en/reports"
+import { salary } from "./en/salary"
+import { salaryPayments } from "./en/salary-payments"
+import { scheduler } from "./en/scheduler"
+import { settings } from "./en/settings"
+import { teaSales } from "./en/tea-sales"
+import { workers } from "./en/workers"
+
+// English catalogue; the keys here define what every other catalogue must translate.
+// Placeholders in braces, e.g. {count}, are filled in by the translator.
+// Each area of the dashboard keeps its messages in its own file under en/, si/ and ta/.
+export const en = {
+  ...common,
+  ...navigation,
+  ...salary,
+  ...reports,
+  ...salaryPayments,
+  ...advances,
+  ...attendance,
+  ...plantations,
+  ...scheduler,
+  ...workers,
+  ...teaSales,
+  ...plucking,
+  ...factories,
+  ...leaf,
+  ...overview,
+  ...settings,
+  ...organization,
+  ...account,
+} as const
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, string>
@@ -0,0 +1,57 @@
+// Account page, user menu and layout preferences
+export const account = {
+  // User menu
+  'account.menu': 'Account',
+  'account.logOut': 'Log out',
+  'account.logoutFailed': 'Logout failed',
+  'account.loggedOut': 'Logged out successfully',
+  'account.user': 'User',
+
+  // Account page
+  'account.loading': 'Loading account...',
+  'account.signInRequired': 'Please sign in to view account settings',
+  'account.title': 'Account Settings',
+  'account.description': 'Manage your profile and account preferences',
+  'account.photo': 'Profile Photo',
+  'account.photoHint': 'Click on the avatar to upload a new photo',
+  'account.uploading': 'Uploading...',
+  'account.changePhoto': 'Change Photo',
+  'account.photoFormats': 'JPG, PNG or WebP. Max 2MB.',
+  'account.notImage': 'Please select an image file',
+  'account.imageTooLarge': 'Image must be less than 2MB',
+  'account.photoUpdated': 'Profile photo updated',
+  'account.photoFailed': 'Failed to upload photo',
+  'account.details': 'Profile Details',
+  'account.detailsHint': 'Update your personal information',
+  'account.fullName': 'Full Name',
+  'account.fullNamePlaceholder': 'Enter your name',
+  'account.email': 'Email Address',
+  'account.emailFixed': 'Email cannot be changed',
+  'account.id': 'Account ID',
+  'account.memberSince': 'Member Since',
+  'account.saving': 'Saving...',
+  'account.saveChanges': 'Save Changes',
+  'account.profileUpdated': 'Profile updated successfully',
+  'account.profileFailed': 'Failed to update profile',
+
+  // Layout preferences
+  'account.layout.title': 'Layout Settings',
+  'account.layout.description': 'Customize your dashboard layout preferences.',
+  'account.layout.preset': 'Preset',
+  'account.layout.mode': 'Mode',
+  'account.layout.light': 'Light',
+  'account.layout.dark': 'Dark',
+  'account.layout.sidebarVariant': 'Sidebar Variant',
+  'account.layout.inset': 'Inset',
+  'account.layout.sidebar': 'Sidebar',
+  'account.layout.floating': 'Floating',
+  'account.layout.navbarStyle': 'Navbar Style',
+  'account.layout.sticky': 'Sticky',
+  'account.layout.scroll': 'Scroll',
+  'account.layout.collapsible': 'Sidebar Collapsible',
+  'account.layout.icon': 'Icon',
+  'account.layout.offcanvas': 'OffCanvas',
+  'account.layout.contentLayout': 'Content Layout',
+  'account.layout.centered': 'Centered',
+  'account.layout.fullWidth': 'Full Width',
+} as const
@@ -0,0 +1,57 @@
+// Advance ledger, instalment schedules and receipts
+export const advances = {
+  // Ledger
+  'advances.title': 'Advance Ledger',
+  'advances.searchWorkers': 'Search workers...',
+  'advances.totalOutstanding': 'Total Outstanding',
+  'advances.workersWithBalance': 'Workers With Balance',
+  'advances.overLimit': 'Over Limit',
+  'advances.dueThisMonth': 'Due This Month',
+  'advances.outstandingTitle': 'Outstanding Advances',
+  'advances.outstandingDescription': 'Advances are recovered from salary by instalment; anything a month cannot cover carries forward',
+  'advances.loadFailed': 'Failed to load advance ledger',
+  'advances.limit': 'Limit',
+  'advances.noLimit': 'No limit',
+  'advances.given': 'Given',
+  'advances.recovered': 'Recovered',
+  'advances.outstanding': 'Outstanding',
+  'advances.ledger': 'Ledger',
+
+  // Advance limit
+  'advances.limitTitle': 'Advance Limit',
+  'advances.maxOutstanding': 'Maximum Outstanding (රු)',
+  'advances.limitPlaceholder': 'Leave blank to use the role limit',
+  'advances.limitInvalid': 'Enter a positive amount or leave blank',
+  'advances.limitUpdated': 'Advance limit updated',
+  'advances.limitFailed': 'Failed to save advance limit',
+
+  // A worker's ledger
+  'advances.workerTitle': 'Advance Ledger • {name}',
+  'advances.workerOutstanding': '{id} • Outstanding {amount}',
+  'advances.ofLimit': ' of {limit} limit',
+  'advances.due': 'Due',
+  'advances.carriedForward': 'Carried Forward',
+  'advances.schedules': 'Advances & Instalment Schedules',
+  'advances.instalments': 'Instalments',
+  'advances.instalmentsFrom': 'instalments from',
+  'advances.startMonth': 'Start month',
+  'advances.notSigned': 'Not signed',
+  'advances.printReceipt': 'Print receipt',
+  'advances.instalmentsInvalid': 'Instalments must be between 1 and 24',
+  'advances.startTooEarly': 'Recovery cannot start before the month the advance was given',
+  'advances.scheduleSaved': 'Instalment schedule saved',
+  'advances.scheduleFailed': 'Failed to save schedule',
+  'advances.printFailed': 'Failed to print the receipt',
+  'advances.signTitle': 'Advance Receipt • {name}',
+  'advances.signDescription': '{amount} advance on {date}. The worker signs to confirm they received the cash.',
+
+  // Printed receipt
+  'advances.receipt.documentTitle': 'Advance Receipt - {name}',
+  'advances.receipt.heading': 'Salary Advance Receipt',
+  'advances.receipt.received': 'Advance received',
+  'advances.receipt.recovery': 'To be recovered from future salaries.',
+  'advances.receipt.allowPopups': 'Allow pop-ups to print the receipt',
+
+  // Advance limit check
+  'advances.limitExceeded': 'This advance of {amount} would bring the outstanding balance to {balance}, above the limit of {limit}.',
+} as const
@@ -0,0 +1,46 @@
+// Attendance register, muster roll and leave
+export const attendance = {
+  // Statuses and leave
+  'attendance.status.present': 'Present',
+  'attendance.status.half_day': 'Half day',
+  'attendance.status.absent': 'Absent',
+  'attendance.status.leave': 'Leave',
+  'attendance.leave.annual': 'Annual',
+  'attendance.leave.casual': 'Casual',
+  'attendance.leave.sick': 'Sick',
+  'attendance.leaveOption.annual': 'Annual leave',
+  'attendance.leaveOption.casual': 'Casual leave',
+  'attendance.leaveOption.sick': 'Sick leave',
+  'attendance.presentFromPlucking': 'Present (plucking record)',
+
+  // Attendance page
+  'attendance.title': 'Attendance',
+  'attendance.intro': 'Plucking records count as present. Leave entitlements and the allowance are set in',
+  'attendance.orgSettings': 'organization settings',
+  'attendance.markDay': 'Mark Day',
+  'attendance.musterRoll': 'Muster Roll',
+  'attendance.leaveBalances': 'Leave Balances',
+  'attendance.leaveTab': 'Leave',
+  'attendance.legend': 'P present · H half day · A absent · L leave; faded days come from plucking records',
+  'attendance.legendEdit': '. Click a date to mark it',
+  'attendance.loadFailed': 'Failed to load attendance',
+  'attendance.noWorkers': 'No workers for this month',
+  'attendance.allowance': 'Allowance',
+  'attendance.takenOfDays': '{type} (taken / days)',
+  'attendance.over': '{days} over',
+  'attendance.left': '{days} left',
+  'attendance.yearToDate': 'Leave from 1 January {year} to the end of the selected month',
+
+  // Daily register
+  'attendance.registerTitle': 'Attendance for {date}',
+  'attendance.registerDescription': 'Workers with a plucking record count as present unless marked otherwise',
+  'attendance.noActiveWorkers': 'No active workers',
+  'attendance.markUnmarkedPresent': 'Mark unmarked present',
+  'attendance.plucked': 'Plucked',
+  'attendance.presentPlucked': 'Present (plucked)',
+  'attendance.notMarked': 'Not marked',
+  'attendance.saveCount': 'Save ({count})',
+  'attendance.saved': 'Attendance saved for {count} workers',
+  'attendance.savedOne': 'Attendance saved for 1 worker',
+  'attendance.saveFailed': 'Failed to save attendance',
+} as const
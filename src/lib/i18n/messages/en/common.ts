@@ -0,0 +1,64 @@
+// Common
+export const common = {
+  'common.appName': 'Tea Plantation Management System',
+  'common.language': 'Language',
+  'common.loading': 'Loading...',
+  'common.loadingOrganization': 'Loading organization...',
+  'common.export': 'Export',
+  'common.exportCsv': 'Export CSV',
+  'common.exportJson': 'Export JSON',
+  'common.print': 'Print',
+  'common.soon': 'Soon',
+  'common.id': 'ID',
+  'common.employeeId': 'Employee ID',
+  'common.worker': 'Worker',
+  'common.name': 'Name',
+  'common.role': 'Role',
+  'common.phone': 'Phone',
+  'common.status': 'Status',
+  'common.hireDate': 'Hire Date',
+  'common.date': 'Date',
+  'common.days': 'Days',
+  'common.daysWorked': 'Days Worked',
+  'common.totalKg': 'Total Kg',
+  'common.kgPlucked': 'Kg Plucked',
+  'common.ratePerKg': 'Rate/Kg',
+  'common.extraWork': 'Extra Work',
+  'common.otherWork': 'Other',
+  'common.total': 'Total',
+  'common.totalEarned': 'Total Earned',
+  'common.bonus': 'Bonus',
+  'common.advance': 'Advance',
+  'common.advances': 'Advances',
+  'common.netSalary': 'Net Salary',
+  'common.kgValue': '{value} kg',
+  'common.generatedOn': 'Generated on {date}',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.close': 'Close',
+  'common.amount': 'Amount',
+  'common.method': 'Method',
+  'common.reference': 'Reference',
+  'common.optional': 'Optional',
+  'common.notes': 'Notes',
+  'common.reason': 'Reason',
+  'common.month': 'Month',
+  'common.exportedCsv': 'Exported to CSV',
+  'common.exportedJson': 'Exported to JSON',
+  'common.runSqlSetup': '{table} table not found. Please run the SQL setup.',
+  'role.picker': 'Picker',
+  'role.supervisor': 'Supervisor',
+  'role.manager': 'Manager',
+  'role.quality_controller': 'Quality Controller',
+
+  // Signatures
+  'signature.unreadable': 'Could not read the signature',
+  'signature.saved': 'Signature saved',
+  'signature.saveFailed': 'Failed to save signature',
+  'signature.pad': 'Signature pad',
+  'signature.clear': 'Clear',
+  'signature.later': 'Sign later',
+  'signature.save': 'Save Signature',
+} as const
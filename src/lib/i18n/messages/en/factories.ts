@@ -0,0 +1,230 @@
+// Factories, rates, deductions and statements
+export const factories = {
+  // Factory rates
+  'factories.title': 'Factory Rates',
+  'factories.loading': 'Loading factory rates...',
+  'factories.loadFailed': 'Failed to load factory rates',
+  'factories.historyLoadFailed': 'Failed to load rate history',
+  'factories.confirmDelete': 'Delete {name}? This will also delete all rate history. Its tea sales are kept.',
+  'factories.deleted': 'Factory deleted successfully',
+  'factories.deleteFailed': 'Failed to delete factory',
+  'factories.rateScheduled': 'Rate of {rate}/kg scheduled from {date}',
+  'factories.rateUpdated': 'Factory rate updated successfully',
+  'factories.added': 'Factory added successfully',
+  'factories.saveFailed': 'Failed to save factory',
+  'factories.duplicateName': 'A factory with this name already exists',
+  'factories.name': 'Factory Name',
+  'factories.currentRate': 'Current Rate',
+  'factories.previous': 'Previous',
+  'factories.updated': 'Updated',
+  'factories.noRate': 'No rate',
+  'factories.rateFrom': '{rate}/kg from {date}',
+  'factories.firstRate': 'First rate',
+  'factories.viewHistory': 'View rate history',
+  'factories.saleDeductions': 'Sale deductions',
+  'factories.editRate': 'Edit rate',
+  'factories.delete': 'Delete factory',
+  'factories.add': 'Add Factory',
+  'factories.search': 'Search factories...',
+  'factories.sort.highest': 'Highest',
+  'factories.sort.lowest': 'Lowest',
+  'factories.sort.newest': 'Newest',
+  'factories.sort.oldest': 'Oldest',
+  'factories.count': '{count} factories',
+  'factories.countOne': '1 factory',
+  'factories.matching': ' matching "{search}"',
+  'factories.noneMatching': 'No factories matching "{search}"',
+  'factories.none': 'No factories found',
+  'factories.tryDifferentSearch': 'Try a different search term',
+  'factories.addHint': 'Add factories you sell tea to',
+  'factories.updateRate': 'Update Rate',
+  'factories.currentPerKg': 'Current: {rate}/kg',
+  'factories.form.name': 'Factory Name *',
+  'factories.form.namePlaceholder': 'e.g., Ceylon Tea Factory',
+  'factories.form.effectiveDate': 'Effective Date *',
+  'factories.change': 'Change:',
+  'factories.update': 'Update',
+  'factories.addSubmit': 'Add',
+  'factories.rateChanges': '{count} rate changes',
+  'factories.rateChangesOne': '1 rate change',
+  'factories.current': 'Current',
+  'factories.scheduled': 'Scheduled',
+  'factories.noHistory': 'No rate history',
+  'factories.inactive': 'Inactive',
+  'factories.relative.today': 'Today',
+  'factories.relative.yesterday': 'Yesterday',
+  'factories.relative.days': '{count}d ago',
+  'factories.relative.weeks': '{count}w ago',
+  'factories.relative.months': '{count}mo ago',
+  'factories.relative.years': '{count}y ago',
+
+  // Factory details
+  'factories.details': 'Factory Details',
+  'factories.detailsSaved': 'Factory details saved',
+  'factories.detailsSaveFailed': 'Failed to save factory details',
+  'factories.field.contactPerson': 'Contact Person',
+  'factories.field.phonePlaceholder': 'e.g., 077 123 4567',
+  'factories.field.registration': 'Registration No.',
+  'factories.field.registrationPlaceholder': 'Tea Board registration',
+  'factories.field.distance': 'Distance (km)',
+  'factories.field.address': 'Address',
+  'factories.field.bank': 'Bank',
+  'factories.field.branch': 'Branch',
+  'factories.field.accountName': 'Account Name',
+  'factories.field.accountNumber': 'Account Number',
+  'factories.field.bankDetails': 'Bank details for payments',
+  'factories.field.active': 'Active',
+  'factories.field.activeHint': 'Inactive factories are hidden when recording new sales',
+
+  // Deduction types
+  'deductions.loadFailed': 'Failed to load deductions',
+  'deductions.nameRequired': 'Name is required',
+  'deductions.duplicate': 'This factory already has a deduction with that name',
+  'deductions.saveFailed': 'Failed to save deduction',
+  'deductions.confirmDelete': 'Delete deduction "{name}"? Past sales keep their deduction lines.',
+  'deductions.deleted': 'Deduction deleted',
+  'deductions.title': 'Deductions - {factory}',
+  'deductions.description': 'Pre-filled on new sales to this factory; values can be changed per sale',
+  'deductions.noneSetUp': 'No deductions set up for this factory',
+  'deductions.activate': 'Activate',
+  'deductions.deactivate': 'Deactivate',
+  'deductions.workedOutAs': 'Worked out as',
+
+  // Factory page
+  'factories.notFound': 'Factory not found',
+  'factories.backToList': 'Back to factories',
+  'factories.editDetails': 'Edit Details',
+  'factories.deliveries': 'Deliveries',
+  'factories.totalDelivered': 'Total Delivered',
+  'factories.outstandingOf': 'Outstanding of {amount}',
+  'factories.loadOneFailed': 'Failed to load factory',
+  'factories.loadingOne': 'Loading factory...',
+  'factories.tab.rates': 'Rates',
+  'factories.tab.payments': 'Payments',
+  'factories.tab.statements': 'Statements',
+  'factories.tab.details': 'Details',
+  'factories.ratesHint': 'Change rates from the factory list; future-dated rates switch on by themselves',
+  'factories.paymentsReceived': 'Payments Received',
+  'factories.paymentsHint': 'Each payment is allocated to the deliveries it settles',
+  'factories.monthlySettlements': 'Monthly Settlements',
+  'factories.settlementsHint': "What the factory owes for each month's deliveries after deductions",
+  'factories.noDeliveries': 'No deliveries recorded for this factory',
+  'factories.nothingDelivered': 'Nothing delivered to this factory yet',
+  'factories.kg': 'KG',
+  'factories.rate': 'Rate',
+  'factories.net': 'Net',
+  'factories.netPayable': 'Net Payable',
+  'factories.outstanding': 'Outstanding',
+  'factories.contact': 'Contact',
+  'factories.bankAndBranch': 'Bank and branch',
+  'factories.account': 'Account',
+  'factories.notSet': 'Not set',
+  'factories.distanceKm': '{km} km',
+
+  // Factory payments
+  'factoryPayments.method.bank_transfer': 'Bank transfer',
+  'factoryPayments.method.cheque': 'Cheque',
+  'factoryPayments.method.cash': 'Cash',
+  'factoryPayments.confirmDelete': 'Delete the {amount} payment of {date}? Its deliveries become unpaid again.',
+  'factoryPayments.deleted': 'Payment deleted',
+  'factoryPayments.deleteFailed': 'Failed to delete payment',
+  'factoryPayments.none': 'No payments received from this factory yet',
+  'factoryPayments.onAccount': '{amount} on account',
+  'factoryPayments.ref': 'Ref {reference}',
+  'factoryPayments.deliveries': '{count} deliveries',
+  'factoryPayments.deliveriesOne': '1 delivery',
+
+  // Statements
+  'statements.status.accepted': 'Accepted',
+  'statements.status.disputed': 'Disputed',
+  'statements.line.matched': 'Matched',
+  'statements.line.mismatch': 'Differs',
+  'statements.line.missing_recorded': 'Not in our sales',
+  'statements.line.missing_statement': 'Not on statement',
+  'statements.loadFailed': 'Failed to load statements',
+  'statements.confirmDelete': 'Remove the {month} reconciliation? Sales corrected when it was accepted stay as they are.',
+  'statements.removed': 'Reconciliation removed',
+  'statements.removeFailed': 'Failed to remove reconciliation',
+  'statements.title': 'Monthly Statements',
+  'statements.description': "The factory's statement checked line by line against our sales",
+  'statements.import': 'Import Statement',
+  'statements.none': 'No statements reconciled for this factory yet',
+  'statements.differences': '{count} differences',
+  'statements.differencesOne': '1 difference',
+  'statements.statementFigures': 'Statement {kg}, {amount}',
+  'statements.ourFigures': 'Ours {kg}, {amount}',
+  'statements.noLines': 'No deliveries on the statement or in our sales for this month',
+  'statements.leafDeduction': 'Leaf Deduction',
+  'statements.statementVsOurs': 'Statement / ours',
+  'statements.leafValue': 'Leaf value',
+  'statements.allMatch': 'All lines match',
+  'statements.toReview': '{count} to review',
+  'statements.ofLines': 'of {count} lines',
+  'statements.dispute': 'Dispute',
+  'statements.saveDispute': 'Save Dispute',
+  'statements.accept': 'Accept Factory Figures',
+  'statements.matchFailed': 'Failed to match the statement',
+  'statements.reasonRequired': 'Say what is wrong with the statement',
+  'statements.accepted': 'Statement accepted and sales updated',
+  'statements.disputed': 'Statement disputed',
+  'statements.saveFailed': 'Failed to save the reconciliation',
+  'statements.addedNote': 'Added from factory statement',
+  'statements.reconcileTitle': 'Reconcile Statement · {factory}',
+  'statements.fileHint': 'CSV with date, kg received, leaf deduction (kg) and rate columns',
+  'statements.month': 'Statement Month *',
+  'statements.file': 'Statement File *',
+  'statements.chooseFile': 'Choose a CSV file',
+  'statements.acceptHint': "Accepting corrects our sales to the factory's kg, leaf deduction and rate, and adds the days only the factory recorded.",
+  'statements.reason': 'Reason for dispute *',
+  'statements.reasonPlaceholder': 'e.g. 12th missing from statement, rate should be 210',
+  'statements.field.date': 'date',
+  'statements.field.kg': 'kg received',
+  'statements.field.deductionKg': 'leaf deduction (kg)',
+  'statements.field.rate': 'rate',
+  'statements.error.empty': 'The file is empty',
+  'statements.error.missingColumns': 'No {columns} column found',
+  'statements.error.dateOutsideMonth': 'Some dates are not in {month}, or their format was not recognised',
+  'statements.error.badKg': 'Line {line}: kg received is not a number',
+  'statements.error.badRate': 'Line {line}: rate is not a number',
+
+  // Factory comparison
+  'comparison.title': 'Factory Comparison',
+  'comparison.description': 'Rates, net return per kg and payment speed across the factories you sell to',
+  'comparison.loadFailed': 'Failed to load factory comparison',
+  'comparison.lastMonths': 'Last {count} months',
+  'comparison.rankingFor': 'Ranking for {month}',
+  'comparison.rankingHint': "Next month's rate less each factory's usual deductions and transport per kg. Within {amount}/kg the faster payer ranks higher.",
+  'comparison.transportPerKg': 'Transport/Kg',
+  'comparison.projectedNetPerKg': 'Projected Net/Kg',
+  'comparison.paysIn': 'Pays In',
+  'comparison.noRecentDeliveries': 'No recent deliveries',
+  'comparison.days': '{count} days',
+  'comparison.netIncomePerKg': 'Net Income per Kg',
+  'comparison.netIncomeHint': 'Deliveries over the last {count} months, after deductions and transport',
+  'comparison.noDeliveries': 'No deliveries in this period',
+  'comparison.grossPerKg': 'Gross/Kg',
+  'comparison.deductionsPerKg': 'Deductions/Kg',
+  'comparison.netPerKg': 'Net/Kg',
+  'comparison.avgPaymentDelay': 'Avg Payment Delay',
+  'comparison.rateOverTime': 'Rate per Kg Over Time',
+  'comparison.rateOverTimeHint': 'Rate in force at each factory, from the rate history',
+  'comparison.noRateHistory': 'No rate history for this period',
+
+  // Recording a factory payment
+  'factoryPayments.title': 'Record Factory Payment',
+  'factoryPayments.description': 'Settles the oldest deliveries first; adjust the split below',
+  'factoryPayments.loadFailed': 'Failed to load outstanding deliveries',
+  'factoryPayments.required': 'Choose a factory and enter the amount received',
+  'factoryPayments.overAllocated': 'More is allocated to deliveries than was received',
+  'factoryPayments.recorded': 'Payment of {amount} recorded',
+  'factoryPayments.recordFailed': 'Failed to record payment',
+  'factoryPayments.form.factory': 'Factory *',
+  'factoryPayments.form.dateReceived': 'Date Received *',
+  'factoryPayments.form.amount': 'Amount (රු.) *',
+  'factoryPayments.form.referencePlaceholder': 'Cheque / transfer no.',
+  'factoryPayments.unpaidDeliveries': 'Unpaid deliveries',
+  'factoryPayments.outstandingTotal': '{amount} outstanding',
+  'factoryPayments.allPaid': 'Every delivery to this factory is paid',
+  'factoryPayments.allocated': 'Allocated to deliveries',
+  'factoryPayments.leftOnAccount': 'Left on account',
+} as const
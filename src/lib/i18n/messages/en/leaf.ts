@@ -0,0 +1,30 @@
+// Plucked against delivered leaf
+export const leaf = {
+  'leaf.title': 'Plucked vs Delivered',
+  'leaf.description': 'Leaf weighed per worker against leaf weighed at the factory.',
+  'leaf.toleranceLink': 'Tolerance is set in organization settings',
+  'leaf.loadFailed': 'Failed to load plucked and delivered leaf',
+  'leaf.plucked': 'Plucked',
+  'leaf.delivered': 'Delivered',
+  'leaf.shrinkageOf': 'Shrinkage ({kg})',
+  'leaf.daysOutside': 'Days outside ±{percent}%',
+  'leaf.reconciliation': 'Reconciliation',
+  'leaf.reconciliationHint': 'Flagged rows are outside ±{percent}%; click a row for its records',
+  'leaf.noPlucking': 'No plucking',
+  'leaf.pluckedKg': 'Plucked kg',
+  'leaf.deliveredKg': 'Delivered kg',
+  'leaf.difference': 'Difference',
+  'leaf.shrinkage': 'Shrinkage',
+  'leaf.pluckers': 'Pluckers',
+  'leaf.flaggedDays': 'Flagged Days',
+  'leaf.flaggedOf': '{flagged} of {days}',
+  'leaf.noneThisMonth': 'No plucking or deliveries recorded this month',
+  'leaf.noneLastYear': 'No plucking or deliveries recorded in the last 12 months',
+  'leaf.dayLoadFailed': "Failed to load the day's records",
+  'leaf.unknownWorker': 'Unknown worker',
+  'leaf.noneRecorded': 'None recorded',
+  'leaf.daySummary': '{plucked} plucked, {delivered} delivered',
+  'leaf.dayShrinkage': '{percent}% shrinkage',
+  'leaf.pluckedRecords': 'Plucked (Daily Records)',
+  'leaf.deliveredSales': 'Delivered (Tea Sales)',
+} as const
@@ -0,0 +1,36 @@
+// Sidebar and search
+export const navigation = {
+  'nav.overview': 'Overview',
+  'nav.dashboard': 'Dashboard',
+  'nav.plantationManagement': 'Plantation Management',
+  'nav.plantations': 'Plantations',
+  'nav.teaSales': 'Tea Sales',
+  'nav.factoryRates': 'Factory Rates',
+  'nav.factoryComparison': 'Factory Comparison',
+  'nav.employeeManagement': 'Employee Management',
+  'nav.workers': 'Workers',
+  'nav.dailyRecords': 'Daily Records',
+  'nav.attendance': 'Attendance',
+  'nav.salaryManagement': 'Salary Management',
+  'nav.advances': 'Advances',
+  'nav.operations': 'Operations',
+  'nav.scheduler': 'Scheduler',
+  'nav.reportsAnalytics': 'Reports & Analytics',
+  'nav.pdfReports': 'PDF Reports',
+  'nav.leafReconciliation': 'Plucked vs Delivered',
+  'search.button': 'Search',
+  'search.placeholder': 'Search pages, workers, plantations...',
+  'search.noResults': 'No results found.',
+  'search.dashboard': 'Main dashboard with estate metrics',
+  'search.plantations': 'Manage plantation areas',
+  'search.teaSales': 'Track factory deliveries and sales',
+  'search.factoryRates': 'View current factory rates',
+  'search.workers': 'Manage estate workers and staff',
+  'search.dailyRecords': 'Record daily harvest data',
+  'search.salaryManagement': 'Manage worker salaries and bonuses',
+  'search.recentPlucking': 'Recent Plucking',
+  'search.recentSales': 'Recent Sales',
+  'search.worker': 'Worker: {name}',
+  'search.unknown': 'Unknown',
+  'search.hectares': '{value} hectares',
+} as const
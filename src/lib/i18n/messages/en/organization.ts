@@ -0,0 +1,86 @@
+// Organizations, members and invitations
+export const organization = {
+  // Roles
+  'organization.role.owner': 'Owner',
+  'organization.role.admin': 'Admin',
+  'organization.role.manager': 'Manager',
+  'organization.role.viewer': 'Viewer',
+  'organization.roleHint.viewer': 'Can view data only',
+  'organization.roleHint.manager': 'Can view and edit data',
+  'organization.roleHint.admin': 'Can manage members and data',
+
+  // Settings page
+  'organization.loadingSettings': 'Loading settings...',
+  'organization.settings': 'Organization Settings',
+  'organization.edit': 'Edit Organization',
+  'organization.editDescription': 'Update your organization name',
+  'organization.name': 'Organization Name *',
+  'organization.namePlaceholder': 'My Organization',
+  'organization.ownerOnlyRename': 'Only organization owners can update the name',
+  'organization.renamed': 'Organization name updated',
+  'organization.renameFailed': 'Failed to update organization name',
+  'organization.ownerOnlyDelete': 'Only organization owners can delete the organization',
+  'organization.deleted': 'Organization deleted successfully',
+  'organization.deleteFailed': 'Failed to delete organization',
+  'organization.dangerZone': 'Danger Zone',
+  'organization.dangerDescription': 'Permanently delete this organization and all associated data',
+  'organization.delete': 'Delete Organization',
+  'organization.confirmDeleteTitle': 'Are you absolutely sure?',
+  'organization.confirmDelete': "This action cannot be undone. This will permanently delete the organization {name} and remove all members' access.",
+
+  // Members
+  'organization.members': 'Team Members',
+  'organization.memberCount': '{count} members',
+  'organization.memberCountOne': '1 member',
+  'organization.you': '(you)',
+  'organization.joined': 'Joined',
+  'organization.removeMember': 'Remove member',
+  'organization.confirmRemove': 'Remove this member from the organization?',
+  'organization.cannotRemoveSelf': 'You cannot remove yourself',
+  'organization.memberRemoved': 'Member removed',
+  'organization.removeFailed': 'Failed to remove member',
+  'organization.roleUpdated': 'Role updated',
+  'organization.roleUpdateFailed': 'Failed to update role',
+
+  // Invitations
+  'organization.invite': 'Invite',
+  'organization.inviteTitle': 'Invite Member',
+  'organization.inviteDescription': 'Send an invitation to join your organization',
+  'organization.email': 'Email',
+  'organization.emailAddress': 'Email Address *',
+  'organization.roleRequired': 'Role *',
+  'organization.sendInvite': 'Send Invite',
+  'organization.ownerOnlyInvite': 'Only organization owners can send invitations',
+  'organization.alreadyMember': 'This person is already a member of your organization',
+  'organization.alreadyInvited': 'An invitation has already been sent to this email',
+  'organization.inviteSent': 'Invitation sent!',
+  'organization.inviteCreated': 'Invitation created (email notification may not have been sent)',
+  'organization.inviteFailed': 'Failed to create invitation',
+  'organization.inviteCancelled': 'Invitation cancelled',
+  'organization.cancelInviteFailed': 'Failed to cancel invitation',
+  'organization.linkCopied': 'Invite link copied',
+  'organization.copyLink': 'Copy invite link',
+  'organization.cancelInvite': 'Cancel invitation',
+  'organization.sent': 'Sent',
+  'organization.expires': 'Expires',
+  'organization.pendingInvitations': 'Pending Invitations',
+  'organization.pendingCount': '{count} pending invitations',
+  'organization.pendingCountOne': '1 pending invitation',
+
+  // Creating an organization
+  'organization.create': 'Create Organization',
+  'organization.new': 'New Organization',
+  'organization.newDescription': 'Create your own workspace to manage your team',
+  'organization.nameLabel': 'Organization Name',
+  'organization.newNamePlaceholder': 'Acme Tea Estates',
+  'organization.nameHint': 'Choose a name for your workspace. You can change it later in settings.',
+  'organization.nameRequired': 'Please enter an organization name',
+  'organization.created': 'Organization created successfully!',
+  'organization.createRetry': 'Failed to create organization. Please try again.',
+  'organization.createFailed': 'Failed to create organization',
+  'organization.creating': 'Creating...',
+
+  // Organization switcher
+  'organization.getStarted': 'Get started',
+  'organization.organizations': 'Organizations',
+} as const
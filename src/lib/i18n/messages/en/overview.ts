@@ -0,0 +1,27 @@
+// Dashboard overview cards and financial chart
+export const overview = {
+  // Summary cards
+  'overview.monthlyRevenue': 'Monthly Revenue',
+  'overview.fromTeaSales': 'From tea sales',
+  'overview.comparedToLastMonth': 'Compared to last month',
+  'overview.monthlyExpenses': 'Monthly Expenses',
+  'overview.workerPayments': 'Worker payments',
+  'overview.salariesAndAdvances': 'Salaries & advances',
+  'overview.monthlyProfit': 'Monthly Profit',
+  'overview.revenueLessExpenses': 'Revenue - Expenses',
+  'overview.netProfitThisMonth': 'Net profit this month',
+  'overview.todaysHarvest': "Today's Harvest",
+  'overview.leavesPlucked': 'Tea leaves plucked',
+  'overview.comparedToYesterday': 'Compared to yesterday',
+
+  // Financial chart
+  'overview.financialOverview': 'Financial Overview',
+  'overview.revenue': 'Revenue',
+  'overview.expenses': 'Expenses',
+  'overview.profit': 'Profit',
+  'overview.last3Months': 'Last 3 months',
+  'overview.last30Days': 'Last 30 days',
+  'overview.last7Days': 'Last 7 days',
+  'overview.selectRange': 'Select a range',
+  'overview.loadingChart': 'Loading chart data...',
+} as const
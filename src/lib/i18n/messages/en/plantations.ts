@@ -0,0 +1,57 @@
+// Plantations
+export const plantations = {
+  // Plantation list
+  'plantations.title': 'Plantations',
+  'plantations.add': 'Add Plantation',
+  'plantations.addShort': 'Add',
+  'plantations.search': 'Search plantations...',
+  'plantations.loading': 'Loading plantations...',
+  'plantations.none': 'No plantations found',
+  'plantations.variety': 'Variety',
+  'plantations.area': 'Area',
+  'plantations.plants': 'Plants',
+  'plantations.established': 'Established',
+  'plantations.hectaresValue': '{value} ha',
+  'plantations.hasWorkers': 'Cannot delete "{name}" because it has workers assigned to it. Please reassign or remove the workers first.',
+  'plantations.confirmDelete': 'Are you sure you want to delete {name}?',
+  'plantations.deleteFailed': 'Failed to delete plantation',
+
+  // Plantation details
+  'plantations.workers': 'Workers',
+  'plantations.monthly': 'Monthly',
+  'plantations.dailyAvg': 'Daily Avg',
+  'plantations.notSpecified': 'Not specified',
+
+  // Plantation form
+  'plantations.editTitle': 'Edit Plantation',
+  'plantations.addTitle': 'Add New Plantation',
+  'plantations.editDescription': 'Update plantation details',
+  'plantations.addDescription': 'Add a new tea plantation to your management system',
+  'plantations.image': 'Plantation Image',
+  'plantations.imagePreview': 'Plantation preview',
+  'plantations.noImage': 'No image',
+  'plantations.uploading': 'Uploading...',
+  'plantations.uploadImage': 'Upload Image',
+  'plantations.imageLimits': 'Max: 5MB (JPG, PNG, WebP)',
+  'plantations.name': 'Plantation Name *',
+  'plantations.location': 'Location *',
+  'plantations.areaHectares': 'Area (Hectares) *',
+  'plantations.teaVariety': 'Tea Variety *',
+  'plantations.teaVarietyPlaceholder': 'e.g., Ceylon Black, Green Tea',
+  'plantations.numberOfPlants': 'Number of Plants',
+  'plantations.establishedDate': 'Established Date',
+  'plantations.update': 'Update Plantation',
+  'plantations.create': 'Create Plantation',
+  'plantations.selectImage': 'Please select an image file',
+  'plantations.imageTooLarge': 'Image must be less than 5MB',
+  'plantations.imageUploaded': 'Image uploaded successfully',
+  'plantations.imageFailed': 'Failed to upload image',
+  'plantations.updated': 'Plantation updated successfully',
+  'plantations.created': 'Plantation created successfully',
+  'plantations.saveFailed': 'Failed to save plantation',
+  'plantations.error.name': 'Name must be at least 2 characters',
+  'plantations.error.location': 'Location must be at least 2 characters',
+  'plantations.error.area': 'Area must be positive',
+  'plantations.error.teaVariety': 'Tea variety is required',
+  'plantations.error.plants': 'Number of plants must be positive',
+} as const
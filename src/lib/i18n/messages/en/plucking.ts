@@ -0,0 +1,220 @@
+// Daily records, bulk entry, import and offline sync
+export const plucking = {
+  // Bulk entry
+  'plucking.bulk.title': 'Bulk Entry',
+  'plucking.bulk.summary': 'Date: {date} • {count} active workers',
+  'plucking.bulk.holidayRate': '(plucking ×{rate})',
+  'plucking.bulk.keysHint': 'Enter/↑/↓ to move between rows, Tab between columns',
+  'plucking.bulk.kg': 'Kg',
+  'plucking.bulk.rate': 'Rate/kg',
+  'plucking.bulk.extraAmount': 'Extra (රු)',
+  'plucking.bulk.extraWork': 'Extra Work',
+  'plucking.bulk.wage': 'Wage',
+  'plucking.bulk.recorded': 'Recorded',
+  'plucking.bulk.placeholder.kg': 'kg',
+  'plucking.bulk.placeholder.amount': 'රු',
+  'plucking.bulk.placeholder.description': 'e.g., Weeding',
+  'plucking.bulk.totals': '{rows} rows • {kg} • {amount}',
+  'plucking.bulk.includeRecorded': 'Also save the {count} workers already recorded on this date (adds a second record)',
+  'plucking.bulk.saveAll': 'Save All',
+  'plucking.bulk.loadFailed': 'Failed to load workers',
+  'plucking.bulk.nothingEntered': 'Enter kg or extra work for at least one worker',
+  'plucking.bulk.saved': '{count} records saved',
+  'plucking.bulk.savedWithFailures': '{saved} saved, {failed} failed',
+  'plucking.bulk.rowsFailed': '{count} rows could not be saved',
+  'plucking.bulk.saveFailed': 'Failed to save records',
+  'plucking.bulk.extraWorkFailed': '{count} records saved, but their extra work could not be saved. Add it to each record from the daily list.',
+  'plucking.bulk.alreadyRecorded': 'Already recorded on this date',
+
+  // Bulk entry validation
+  'plucking.error.kgPositive': 'Kg plucked must be a positive number',
+  'plucking.error.kgTooHigh': 'Kg plucked cannot exceed {max} kg',
+  'plucking.error.rateRequired': 'Rate per kg is required',
+  'plucking.error.extraPositive': 'Extra work amount must be a positive number',
+  'plucking.error.describeExtra': 'Describe the extra work',
+  'plucking.error.nothingEntered': 'Enter kg plucked or extra work',
+
+  // Import
+  'plucking.import.title': 'Import Daily Records',
+  'plucking.import.stepUpload': 'Step 1 of 3 • Choose a CSV or XLSX file with a header row',
+  'plucking.import.stepMap': 'Step 2 of 3 • Match the columns in {file} to record fields',
+  'plucking.import.stepPreview': 'Step 3 of 3 • {ready} of {total} rows ready to import',
+  'plucking.import.chooseFile': 'Click to choose a file',
+  'plucking.import.columnsHint': 'Columns: employee ID, date, kg, rate, advance flag',
+  'plucking.import.back': 'Back',
+  'plucking.import.preview': 'Preview',
+  'plucking.import.importRecords': 'Import {count} Records',
+  'plucking.import.noRows': 'The file has no data rows',
+  'plucking.import.readFailed': 'Could not read the file. Use a CSV or XLSX file.',
+  'plucking.import.mapColumns': 'Map the {fields} column',
+  'plucking.import.checkFailed': 'Failed to check the import rows',
+  'plucking.import.imported': 'Imported {count} records',
+  'plucking.import.partial': 'Imported {imported} of {total} records: {error}',
+  'plucking.import.failed': 'import failed',
+  'plucking.import.notInFile': 'Not in file',
+  'plucking.import.column': 'Column {number}',
+  'plucking.import.dateFormat': 'Date Format',
+  'plucking.import.field.advanceFlag': 'Advance Flag',
+  'plucking.import.field.advanceAmount': 'Advance Amount',
+  'plucking.import.showAll': 'Show all rows',
+  'plucking.import.showProblems': 'Show problems only',
+  'plucking.import.line': 'Line',
+  'plucking.import.employee': 'Employee',
+  'plucking.import.type': 'Type',
+  'plucking.import.kg': 'Kg',
+  'plucking.import.rate': 'Rate',
+  'plucking.import.plucking': 'Plucking',
+  'plucking.import.status.ready': 'Ready',
+  'plucking.import.status.unknown_worker': 'Unknown worker',
+  'plucking.import.status.duplicate_in_file': 'Duplicate in file',
+  'plucking.import.status.already_exists': 'Already recorded',
+  'plucking.import.status.invalid': 'Invalid',
+
+  // Import validation
+  'plucking.import.error.badDate': 'Unrecognised date "{value}"',
+  'plucking.import.error.noDate': 'Date is missing',
+  'plucking.import.error.negative': 'Amounts must be positive numbers',
+  'plucking.import.error.noAdvance': 'Advance amount is missing',
+  'plucking.import.error.noKg': 'Kg plucked is missing',
+  'plucking.import.error.noRate': 'Rate per kg is missing',
+  'plucking.import.error.unknownWorker': 'No worker with ID "{id}"',
+  'plucking.import.error.monthClosed': 'Payroll for this month is closed',
+  'plucking.import.error.workerLeft': 'Worker left on {date}',
+  'plucking.import.error.exists': 'A record already exists for this worker and date',
+  'plucking.import.error.duplicate': 'Same worker and date appears earlier in the file',
+
+  // Offline sync
+  'plucking.sync.title': 'Offline Entries to Review',
+  'plucking.sync.description': 'These entries were saved on this device while offline and clash with what is on the server',
+  'plucking.sync.allResolved': 'All offline entries are resolved',
+  'plucking.sync.savedOffline': 'Saved offline',
+  'plucking.sync.onServer': 'On the server',
+  'plucking.sync.noRecord': 'No record',
+  'plucking.sync.advance': 'Advance {amount}',
+  'plucking.sync.norm': '({kg} norm)',
+  'plucking.sync.mine.edited': 'Keep mine',
+  'plucking.sync.server.edited': 'Keep server version',
+  'plucking.sync.mine.deleted': 'Add it back',
+  'plucking.sync.server.deleted': 'Leave it deleted',
+  'plucking.sync.mine.duplicate': 'Add mine as well',
+  'plucking.sync.mine.rejected': 'Retry',
+  'plucking.sync.discardMine': 'Discard mine',
+  'plucking.sync.reason.edited': 'This record was changed on another device',
+  'plucking.sync.reason.deleted': 'This record was deleted on another device',
+  'plucking.sync.reason.duplicate': 'A record for this worker and date already exists',
+  'plucking.sync.kept': 'Offline entry saved',
+  'plucking.sync.discarded': 'Offline entry discarded',
+  'plucking.sync.resolveFailed': 'Failed to resolve conflict',
+  'plucking.sync.syncedOne': '1 offline entry synced',
+  'plucking.sync.synced': '{count} offline entries synced',
+  'plucking.sync.needsReviewOne': '1 offline entry needs your review',
+  'plucking.sync.needsReview': '{count} offline entries need your review',
+  'plucking.sync.queued': "You're offline. The entry is saved on this device and will sync when the connection returns",
+
+  // Daily records
+  'plucking.title': 'Daily Records',
+  'plucking.loading': 'Loading records...',
+  'plucking.offline': 'Offline',
+  'plucking.pendingSync': '{count} pending sync',
+  'plucking.toReview': '{count} to review',
+  'plucking.importFile': 'Import CSV/XLSX',
+  'plucking.attendance': 'Attendance',
+  'plucking.addRecord': 'Add Record',
+  'plucking.editRecord': 'Edit Record',
+  'plucking.search': 'Search workers...',
+  'plucking.totalKg': 'Total Kg',
+  'plucking.paidAdvances': 'Paid (Advances)',
+  'plucking.toBePaid': 'To Be Paid',
+  'plucking.recordsFor': 'Records for {date}',
+  'plucking.recordCountOne': '1 record',
+  'plucking.recordCount': '{count} records',
+  'plucking.matching': ' matching "{search}"',
+  'plucking.readOnly': ' • Payroll closed for this month, records are read-only',
+  'plucking.noneMatching': 'No records matching "{search}"',
+  'plucking.noneForDate': 'No records for this date',
+  'plucking.tryDifferentSearch': 'Try a different search term',
+  'plucking.addHint': 'Add plucking records for workers',
+  'plucking.unknownWorker': 'Unknown',
+  'plucking.extraWork': 'Extra work',
+
+  // Record types
+  'plucking.type.plucking': 'Plucking',
+  'plucking.type.pluckingWork': 'Plucking + Work',
+  'plucking.pendingBadge': 'Pending sync',
+  'plucking.conflictBadge': 'Sync conflict',
+  'plucking.reviewConflict': 'Review sync conflict',
+  'plucking.waitingToSync': 'Saved on this device, waiting to sync',
+  'plucking.editTooltip': 'Edit record',
+  'plucking.deleteTooltip': 'Delete record',
+  'plucking.signedByWorker': 'Signed by worker',
+  'plucking.collectSignature': 'Collect worker signature',
+  'plucking.advanceTooltip': 'Advance payment (will be deducted from monthly salary)',
+  'plucking.extraWorkLabel': 'Extra Work:',
+  'plucking.totalLabel': 'Total: {amount}',
+
+  // Record form
+  'plucking.form.date': 'Date: {date}',
+  'plucking.form.worker': 'Worker *',
+  'plucking.form.selectWorker': 'Select worker',
+  'plucking.form.advanceAmount': 'Advance Amount (රු) *',
+  'plucking.form.advancePlaceholder': 'e.g., 5000',
+  'plucking.form.advancePayment': 'Advance Payment',
+  'plucking.form.deductedMonthly': 'Will be deducted from monthly salary',
+  'plucking.form.kgPlucked': 'Kg Plucked *',
+  'plucking.form.kgPlaceholder': 'e.g., 15.5',
+  'plucking.form.rate': 'Rate/kg (රු) *',
+  'plucking.form.ratePlaceholder': 'e.g., 150',
+  'plucking.form.addWork': 'Add Work',
+  'plucking.form.workType': 'Type',
+  'plucking.form.otherWork': 'Other',
+  'plucking.form.dailySalary': 'Daily Salary',
+  'plucking.form.extra': ' + {amount} extra',
+  'plucking.form.work': 'Work',
+  'plucking.form.notesPlaceholder': 'Optional notes...',
+  'plucking.form.update': 'Update',
+  'plucking.form.add': 'Add',
+
+  // Saving
+  'plucking.loadWorkersFailed': 'Failed to load workers',
+  'plucking.loadFailed': 'Failed to load records',
+  'plucking.deleteNeedsConnection': 'Deleting records needs a connection',
+  'plucking.confirmDelete': 'Delete record for {name}?',
+  'plucking.deleted': 'Record deleted successfully',
+  'plucking.deleteFailed': 'Failed to delete record',
+  'plucking.saveAnyway': 'Save anyway?',
+  'plucking.limitCheckFailed': 'Could not check the advance limit',
+  'plucking.advanceAddedKeeping': 'Advance record added while keeping existing plucking record',
+  'plucking.pluckingAddedKeeping': 'Plucking record added while keeping existing advance record',
+  'plucking.updated': 'Record updated successfully',
+  'plucking.bothAdded': 'Plucking and advance records added successfully',
+  'plucking.advanceAdded': 'Advance record added successfully',
+  'plucking.pluckingAdded': 'Plucking record added successfully',
+  'plucking.saveFailed': 'Failed to save record',
+
+  // Advance signature and payment details
+  'plucking.receiptTitle': 'Advance Receipt • {name}',
+  'plucking.receiptDescription': '{amount} advance. The worker signs to confirm they received the cash.',
+  'plucking.details.title': 'Payment Details',
+  'plucking.details.amount': 'Amount:',
+  'plucking.details.advanceNote': "This advance will be deducted from the worker's monthly salary",
+  'plucking.details.kgPlucked': 'Kg Plucked:',
+  'plucking.details.rate': 'Rate per kg:',
+  'plucking.details.pluckingAmount': 'Plucking Amount:',
+  'plucking.details.totalAmount': 'Total Amount:',
+
+  // Printed daily report
+  'plucking.report.title': 'Daily Records - {date}',
+  'plucking.report.heading': 'Daily Records Report',
+  'plucking.report.totalWage': 'Total Wage',
+  'plucking.report.totalKg': 'Total Kg Plucked:',
+  'plucking.report.paid': 'Paid (Advances):',
+  'plucking.report.toBePaid': 'To Be Paid (Work):',
+
+  // Wage under the plucking norm
+  'plucking.norm.simple': '{kg} × {rate} = {wage}',
+  'plucking.norm.reached': '{norm} norm reached: {wage}',
+  'plucking.norm.below': '{kg} × {rate} (below {norm} norm) = {wage}',
+  'plucking.norm.overKilo': 'Over-kilo {kg}: {amount}',
+  'plucking.norm.topUp': 'Minimum wage top-up: {amount}',
+  'plucking.norm.holiday': 'Holiday rate: {amount}',
+} as const
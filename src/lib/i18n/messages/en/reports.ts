@@ -0,0 +1,75 @@
+// Printed reports
+export const reports = {
+  'reports.dailyRecords': 'Daily Records Report',
+  'reports.dailyRecordsDescription': 'Daily plucking records with worker details and wages',
+  'reports.salary': 'Salary Report',
+  'reports.salaryDescription': 'Monthly salary summary for all workers',
+  'reports.extraWork': 'Extra Work Report',
+  'reports.extraWorkDescription': 'Extra work payments broken down by work type',
+  'reports.contributions': 'EPF/ETF Contribution Report',
+  'reports.contributionsDescription': 'Monthly EPF and ETF contribution summary for remittance',
+  'reports.workers': 'Workers Report',
+  'reports.workersDescription': 'Complete list of workers with details',
+  'reports.teaSales': 'Tea Sales Report',
+  'reports.teaSalesDescription': 'Tea sales and revenue summary',
+  'reports.financial': 'Financial Summary',
+  'reports.financialDescription': 'Revenue, expenses and profit overview',
+  'reports.selectType': 'Select Report Type',
+  'reports.selectTypeDescription': 'Choose the type of report you want to generate',
+  'reports.dateRange': 'Date Range',
+  'reports.dateRangeDescription': 'Select the period for your report',
+  'reports.thisMonth': 'This Month',
+  'reports.lastMonth': 'Last Month',
+  'reports.last3Months': 'Last 3 Months',
+  'reports.from': 'From',
+  'reports.to': 'To',
+  'reports.generating': 'Generating...',
+  'reports.generate': 'Generate Report',
+  'reports.selectTypeError': 'Please select a report type',
+  'reports.allowPopups': 'Please allow popups to generate reports',
+  'reports.generated': 'Report generated successfully',
+  'reports.failed': 'Failed to generate report',
+  'reports.type': 'Type',
+  'reports.plucking': 'Plucking',
+  'reports.pluckingAndWork': 'Plucking + Work',
+  'reports.totalWage': 'Total Wage',
+  'reports.quantityKg': 'Quantity (Kg)',
+  'reports.totalIncome': 'Total Income',
+  'reports.factory': 'Factory',
+  'reports.grossIncome': 'Gross Income',
+  'reports.deductions': 'Deductions',
+  'reports.netIncome': 'Net Income',
+  'reports.totalRevenue': 'Total Revenue',
+  'reports.totalExpenses': 'Total Expenses',
+  'reports.netProfit': 'Net Profit',
+  'reports.byWorkType': 'By Work Type',
+  'reports.byWorker': 'By Worker',
+  'reports.share': 'Share',
+  'reports.workType': 'Work Type',
+  'reports.entries': 'Entries',
+  'reports.amount': 'Amount',
+  'reports.contributoryWages': 'Contributory Wages',
+  'reports.contributoryWage': 'Contributory Wage',
+  'reports.epfEmployee': 'EPF Employee {rate}%',
+  'reports.epfEmployer': 'EPF Employer {rate}%',
+  'reports.totalEpf': 'Total EPF',
+  'reports.etf': 'ETF {rate}%',
+  'reports.epfRemittance': 'EPF Remittance',
+  'reports.etfRemittance': 'ETF Remittance',
+  'reports.closedPayroll': 'Closed payroll',
+  'reports.notClosed': 'Not closed, calculated from current records',
+  'reports.totalMembers': 'Total ({count} members)',
+  'reports.noContributions': 'No contributory wages in this period.',
+  'reports.transport': 'Transport Report',
+  'reports.transportDescription': 'Collection trips and transport cost per kg by factory',
+  'reports.byFactory': 'By Factory',
+  'reports.trips': 'Trips',
+  'reports.transportCosts': 'Transport Costs',
+  'reports.costPerKg': 'Cost/Kg',
+  'reports.vehicle': 'Vehicle',
+  'reports.driver': 'Driver',
+  'reports.tripCost': 'Trip Cost',
+  'reports.noTrips': 'No collection trips in this period.',
+  'reports.expenseBreakdown': 'Expense Breakdown',
+  'reports.wages': 'Wages',
+} as const
@@ -0,0 +1,107 @@
+// Salary payments, bank files, cash pay day and closing the month
+export const salaryPayments = {
+  // Recording payments
+  'payments.title': 'Salary Payments • {name}',
+  'payments.summary': '{month} • Net {net} • Paid {paid} •',
+  'payments.balance': 'Balance',
+  'payments.none': 'No payments made this month',
+  'payments.fullSalary': 'Full salary',
+  'payments.ref': 'Ref {reference}',
+  'payments.sign': 'Sign',
+  'payments.signatureAlt': 'Worker signature',
+  'payments.record': 'Record Payment',
+  'payments.enterAmount': 'Enter the amount paid',
+  'payments.overBalance': '{amount} is more than the {balance} balance. Record it anyway?',
+  'payments.recorded': 'Payment recorded',
+  'payments.recordFailed': 'Failed to record payment',
+  'payments.confirmDelete': 'Delete the {label} payment of {date}?',
+  'payments.deleted': 'Payment deleted',
+  'payments.deleteFailed': 'Failed to delete payment',
+  'payments.receiptTitle': 'Salary Receipt • {name}',
+  'payments.receiptDescription': '{month} salary. The worker signs to confirm they received the cash.',
+
+  // Paying several salaries at once
+  'payments.bulkTitle': 'Mark Selected Paid • {month}',
+  'payments.bulkDescription': "Records a payment of each worker's remaining balance. Workers paid in cash can sign for it from their payments afterwards.",
+  'payments.allPaid': 'The selected salaries are already paid',
+  'payments.alreadyPaid': '{amount} already paid',
+  'payments.nothingLeft': '{count} selected salaries have nothing left to pay.',
+  'payments.salaryCount': '{count} salaries •',
+  'payments.markedPaid': '{count} salaries marked as paid',
+  'payments.recordManyFailed': 'Failed to record payments',
+
+  // Bank payment file
+  'bank.title': 'Bank Payment File • {month}',
+  'bank.description': 'Unpaid balances of workers paid by bank transfer. Each line is recorded as a bank payment, then the file downloads.',
+  'bank.fileColumns': 'File columns',
+  'bank.fileColumnsHint': "Set in organization settings to match your bank's upload template",
+  'bank.column.account_name': 'Account name',
+  'bank.column.account_number': 'Account number',
+  'bank.column.bank_code': 'Bank code',
+  'bank.column.branch_code': 'Branch code',
+  'bank.column.amount': 'Amount',
+  'bank.column.reference': 'Reference',
+  'bank.column.employee_id': 'Employee ID',
+  'bank.column.value_date': 'Value date',
+  'bank.valueDate': 'Value date',
+  'bank.noWorkers': 'No worker with a salary this month is paid by bank transfer',
+  'bank.generate': 'Generate & Mark Paid',
+  'bank.confirm': 'Generate a bank file for {count} salaries totalling {total}? They will be marked as paid.',
+  'bank.markedPaid': '{count} salaries marked as paid by bank',
+  'bank.failed': 'Failed to generate the bank file',
+  'bank.loadFailed': 'Failed to load bank details',
+  'bank.alreadyPaid': 'Already paid',
+  'bank.nothingToPay': 'Nothing to pay',
+  'bank.problem.bankCode': 'Bank code must be 4 digits',
+  'bank.problem.branchCode': 'Branch code must be 3 digits',
+  'bank.problem.accountNumber': 'Account number must be digits only',
+  'bank.problem.accountName': 'Account name is missing',
+
+  // Cash pay day
+  'cash.title': 'Cash Pay Day • {month}',
+  'cash.description': 'Notes and coins to withdraw so every envelope is made up exactly. Covers unpaid balances of workers paid in cash, rounded to the nearest rupee.',
+  'cash.none': 'No unpaid cash salaries this month',
+  'cash.short': '{amount} short',
+  'cash.inexact': "{count} envelopes can't be made up exactly without smaller denominations.",
+  'cash.workerCount': '{count} workers •',
+  'cash.print': 'Print Pay Day Sheet',
+  'cash.printFailed': 'Failed to print the pay day sheet',
+
+  // Closing and reopening the month
+  'run.closed': 'Closed',
+  'run.open': 'Open',
+  'run.closedBy': '{when} by {member} • {count} workers • {total}',
+  'run.fromCurrentRecords': 'Salaries are calculated from current records',
+  'run.aMember': 'a member',
+  'run.history': 'History ({count})',
+  'run.reopen': 'Reopen',
+  'run.closeMonth': 'Close Month',
+  'run.historyClosed': 'Closed {when} by {member} • {total}',
+  'run.historyReopened': 'Reopened {when} by {member}: {reason}',
+  'run.reopenTitle': 'Reopen {month}',
+  'run.reopenDescription': 'Records in this month become editable again. The closed snapshot is kept in the history.',
+  'run.reasonPlaceholder': 'e.g., Plucking records for 14th were entered against the wrong worker',
+  'run.reopenMonth': 'Reopen Month',
+  'run.reasonRequired': 'Please give a reason for reopening',
+  'run.reopened': 'Month reopened',
+  'run.reopenFailed': 'Failed to reopen month',
+  'run.confirmClose': 'Close payroll for {month}? The salaries below are saved as the final payroll, and plucking, bonus and advance records in {month} can no longer be changed.',
+  'run.monthClosed': '{month} closed',
+  'run.closeFailed': 'Failed to close month',
+
+  // Salary page messages
+  'salary.loadFailed': 'Failed to load salary data',
+  'salary.bonusUpdated': 'Bonus updated',
+  'salary.bonusFailed': 'Failed to save bonus',
+
+  // Closed months
+  'run.monthLocked': 'Payroll for {month} is closed. Ask the owner to reopen the month to change it.',
+
+  // Bank account fields
+  'bank.field.bank': 'Bank',
+  'bank.field.selectBank': 'Select bank',
+  'bank.field.branchCode': 'Branch Code',
+  'bank.field.branchCodePlaceholder': 'e.g., 001',
+  'bank.field.accountNumber': 'Account Number',
+  'bank.field.accountName': 'Account Name',
+} as const
@@ -0,0 +1,106 @@
+// Salary, payslips and the pay day sheet
+export const salary = {
+  // Salary management
+  'salary.title': 'Salary Management',
+  'salary.searchWorkers': 'Search workers...',
+  'salary.avgPerDay': 'Avg/Day',
+  'salary.employerContributions': 'Employer EPF/ETF',
+  'salary.epfRate': 'EPF {rate}%',
+  'salary.employerEpfRate': 'Employer EPF {rate}%',
+  'salary.etfRate': 'ETF {rate}%',
+  'salary.plucking': 'Plucking',
+  'salary.overKilo': 'incl. over-kilo',
+  'salary.wageTopUp': 'incl. minimum wage top-up',
+  'salary.holidayPay': 'incl. holiday rate',
+  'salary.contributoryWage': 'Contributory wage: {amount}',
+  'salary.employeeEpf': 'Employee EPF {rate}%: {amount}',
+  'salary.employerEpf': 'Employer EPF {rate}%: {amount}',
+  'salary.etf': 'ETF {rate}%: {amount}',
+  'salary.givenThisMonth': 'Given this month: {amount}',
+  'salary.recovered': 'Recovered: {amount}',
+  'salary.carriedToNextMonth': 'Carried to next month: {amount}',
+  'salary.earned': 'Earned: {amount}',
+  'salary.plusBonus': '+ Bonus: {amount}',
+  'salary.plusAllowance': '+ Attendance allowance: {amount}',
+  'salary.attendanceAllowance': 'Attendance Allowance',
+  'salary.minusAdvances': '- Advances: {amount}',
+  'salary.minusEpf': '- EPF: {amount}',
+  'salary.net': 'Net: {amount}',
+  'salary.paid': 'Paid',
+  'salary.markPaid': 'Mark Paid',
+  'salary.printPayslip': 'Print payslip',
+  'salary.collectSignature': 'Collect worker signature',
+  'salary.signed': 'Signed by worker',
+  'salary.paidToDate': 'Paid to Date',
+  'salary.balance': 'Balance',
+  'salary.partPaid': 'Part Paid',
+  'salary.markSelectedPaid': 'Mark {count} Paid',
+  'salary.selectAll': 'Select all',
+  'salary.selectWorker': 'Select worker',
+  'salary.generateAllPayslips': 'Generate All Payslips',
+  'salary.downloadPayslipsPdf': 'Download Payslips PDF',
+  'salary.bankPaymentFile': 'Bank Payment File',
+  'salary.cashPlanner': 'Cash Pay Day Planner',
+  'salary.loading': 'Loading salary data...',
+  'salary.totalWorkers': 'Total Workers',
+  'salary.totalBonus': 'Total Bonus',
+  'salary.totalPaid': 'Total Paid',
+  'salary.totalEpf': 'Total EPF (Employee + Employer)',
+  'salary.totalEtf': 'Total ETF',
+  'salary.summary': 'Summary',
+  'salary.workerSalaries': 'Worker Salaries',
+  'salary.workerCount': '{count} workers',
+  'salary.workerCountOne': '1 worker',
+  'salary.matching': 'matching "{term}"',
+  'salary.hoverToEdit': 'Hover over bonus to edit',
+  'salary.noMatches': 'No workers matching "{term}"',
+  'salary.noData': 'No salary data for this month',
+  'salary.tryDifferentSearch': 'Try a different search term',
+  'salary.addRecordsHint': 'Add daily records to see salary calculations',
+  'salary.reportTitle': 'Salary Report',
+  'salary.reportSubtitle': '{month} • {count} Workers',
+
+  // Payslips
+  'payslip.title': 'Payslip for {month}',
+  'payslip.documentTitle': 'Payslips - {month}',
+  'payslip.noRecords': 'No plucking records this month.',
+  'payslip.pluckingWage': 'Plucking Wage',
+  'payslip.dayTotal': 'Day Total',
+  'payslip.earnings': 'Earnings',
+  'payslip.pluckingWageKg': 'Plucking wage ({kg} kg)',
+  'payslip.grossPay': 'Gross pay',
+  'payslip.deductions': 'Deductions',
+  'payslip.advanceRecovery': 'Advance recovery',
+  'payslip.epfEmployee': 'EPF employee {rate}%',
+  'payslip.totalDeductions': 'Total deductions',
+  'payslip.advancesGiven': 'Advances given this month: {list}',
+  'payslip.advanceCarried': 'Advance balance carried to next month: {amount}',
+  'payslip.employerContributions': 'Employer contributions: EPF {epfRate}% {epf}, ETF {etfRate}% {etf}',
+  'payslip.netPay': 'Net Pay',
+  'payslip.paidBy': 'Paid by',
+  'payslip.receivedBy': 'Received by',
+  'payslip.paidOn': 'Paid on',
+  'payslip.paymentMethod': 'Method',
+  'payslip.reference': 'Reference',
+  'payslip.amount': 'Amount',
+  'payslip.signature': 'Signature',
+  'payslip.balanceDue': 'Balance due',
+  'payslip.method.cash': 'Cash',
+  'payslip.method.bank': 'Bank transfer',
+  'payslip.allowPopups': 'Allow pop-ups to print payslips',
+  'payslip.failed': 'Failed to generate payslips',
+
+  // Pay day sheet
+  'payday.documentTitle': 'Pay Day Sheet - {month}',
+  'payday.subtitle': 'Pay day sheet • {month} • {count} workers paid in cash',
+  'payday.amount': 'Amount',
+  'payday.notesAndCoins': 'Notes and coins',
+  'payday.signature': 'Signature',
+  'payday.cashRequired': 'Cash required',
+  'payday.denomination': 'Denomination',
+  'payday.count': 'Count',
+  'payday.value': 'Value',
+  'payday.roundingNote': 'Amounts are rounded to the nearest rupee.',
+  'payday.preparedBy': 'Prepared by',
+  'payday.checkedBy': 'Checked by',
+} as const
@@ -0,0 +1,61 @@
+// Scheduler and holiday calendar
+export const scheduler = {
+  // Events
+  'scheduler.title': 'Scheduler',
+  'scheduler.loading': 'Loading scheduler...',
+  'scheduler.holidays': 'Holidays',
+  'scheduler.addEvent': 'Add Event',
+  'scheduler.editEvent': 'Edit Event',
+  'scheduler.add': 'Add',
+  'scheduler.allEvents': 'All Events',
+  'scheduler.eventCount': '{count} events',
+  'scheduler.eventCountOne': '1 event',
+  'scheduler.showAll': 'Show all',
+  'scheduler.noEvents': 'No events',
+  'scheduler.more': '+{count} more',
+  'scheduler.eventTitle': 'Title *',
+  'scheduler.eventTitlePlaceholder': 'Event title',
+  'scheduler.date': 'Date *',
+  'scheduler.time': 'Time',
+  'scheduler.type': 'Type',
+  'scheduler.description': 'Description',
+  'scheduler.descriptionPlaceholder': 'Optional description',
+  'scheduler.update': 'Update',
+  'scheduler.create': 'Create',
+  'scheduler.type.task': 'Task',
+  'scheduler.type.reminder': 'Reminder',
+  'scheduler.type.meeting': 'Meeting',
+  'scheduler.type.harvest': 'Harvest',
+  'scheduler.type.maintenance': 'Maintenance',
+  'scheduler.loadFailed': 'Failed to load events',
+  'scheduler.required': 'Please fill in required fields',
+  'scheduler.updated': 'Event updated',
+  'scheduler.created': 'Event created',
+  'scheduler.saveFailed': 'Failed to save event',
+  'scheduler.confirmDelete': 'Delete "{name}"?',
+  'scheduler.deleted': 'Event deleted',
+  'scheduler.deleteFailed': 'Failed to delete event',
+  'scheduler.statusFailed': 'Failed to update status',
+
+  // Holiday calendar
+  'holidays.type.poya': 'Poya day',
+  'holidays.type.public': 'Public holiday',
+  'holidays.type.mercantile': 'Mercantile holiday',
+  'holidays.type.estate': 'Estate holiday',
+  'holidays.title': 'Holidays {year}',
+  'holidays.description': 'Plucking on these days is paid at the holiday rate set in organization settings. Poya and religious holidays move each year, so check loaded dates against the government gazette.',
+  'holidays.name': 'Name',
+  'holidays.none': 'No holidays for {year}',
+  'holidays.loadSriLankan': 'Load Sri Lankan holidays',
+  'holidays.addMissing': 'Add any missing Sri Lankan holidays for {year}',
+  'holidays.loadFailed': 'Failed to load holidays',
+  'holidays.added': 'Added {count} holidays for {year}',
+  'holidays.alreadyLoaded': 'The {year} holidays are already in the calendar',
+  'holidays.required': 'Enter a date and a name',
+  'holidays.updated': 'Holiday updated',
+  'holidays.addedOne': 'Holiday added',
+  'holidays.duplicate': 'That holiday is already on this date',
+  'holidays.saveFailed': 'Failed to save holiday',
+  'holidays.deleted': 'Holiday deleted',
+  'holidays.deleteFailed': 'Failed to delete holiday',
+} as const
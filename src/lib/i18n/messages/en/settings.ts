@@ -0,0 +1,111 @@
+// Organization settings and payroll policies
+export const settings = {
+  // Shared
+  'settings.savePolicy': 'Save Policy',
+
+  // Advance limits
+  'settings.advances.title': 'Advance Limits',
+  'settings.advances.description': 'Maximum outstanding advance per role. A limit set on an individual worker overrides their role limit.',
+  'settings.advances.saved': 'Advance policy saved',
+  'settings.advances.saveFailed': 'Failed to save advance policy',
+  'settings.advances.whenExceeded': 'When a limit is exceeded',
+  'settings.advances.warn': 'Warn and allow',
+  'settings.advances.block': 'Block the advance',
+  'settings.advances.roleLimit': '{role} (රු)',
+  'settings.advances.noLimit': 'No limit',
+
+  // Attendance and leave
+  'settings.attendance.title': 'Attendance & Leave',
+  'settings.attendance.description': 'Yearly leave entitlements, and an allowance added to the salary of workers who attend enough days in the month.',
+  'settings.attendance.musterRollLink': 'Open the muster roll',
+  'settings.attendance.invalid': 'Entitlements and allowance must be zero or more',
+  'settings.attendance.saved': 'Attendance policy saved',
+  'settings.attendance.saveFailed': 'Failed to save attendance policy',
+  'settings.attendance.leaveDays': '{type} leave (days/year)',
+  'settings.attendance.allowance': 'Attendance allowance (රු., 0 = off)',
+  'settings.attendance.minDays': 'Minimum days attended',
+
+  // Bank payments
+  'settings.bank.title': 'Bank Payments',
+  'settings.bank.description': 'Salaries of workers paid by bank transfer are exported from the salary page as a CSV file with these columns, in this order. Set them to match the bulk salary upload template your bank gave you, and check a first file with the bank before uploading a full payroll.',
+  'settings.bank.saved': 'Bank payment settings saved',
+  'settings.bank.saveFailed': 'Failed to save bank payment settings',
+  'settings.bank.header': 'First line lists the column names',
+  'settings.bank.addColumn': 'Add column',
+  'settings.bank.removeColumn': 'Remove column',
+
+  // Leaf shrinkage tolerance
+  'settings.leaf.title': 'Leaf Shrinkage Tolerance',
+  'settings.leaf.description': 'Days where delivered leaf differs from plucked leaf by more than this are flagged.',
+  'settings.leaf.reportLink': 'Open the plucked vs delivered report',
+  'settings.leaf.invalid': 'Tolerance must be a percentage between 0 and 100',
+  'settings.leaf.saved': 'Leaf tolerance saved',
+  'settings.leaf.saveFailed': 'Failed to save leaf tolerance',
+  'settings.leaf.tolerance': 'Tolerance (% of plucked kg)',
+
+  // Holiday pay rates
+  'settings.holidays.title': 'Holiday Pay Rates',
+  'settings.holidays.description': 'Plucking wages entered on a holiday are multiplied by the rate for its type; 1 pays a normal day. Applies to records saved from now on.',
+  'settings.holidays.schedulerLink': 'Holidays are kept in the scheduler',
+  'settings.holidays.invalid': 'Holiday rates must be 1 or more',
+  'settings.holidays.saved': 'Holiday rates saved',
+  'settings.holidays.saveFailed': 'Failed to save holiday rates',
+  'settings.holidays.rate': '{type} (×)',
+
+  // EPF and ETF
+  'settings.statutory.title': 'EPF / ETF',
+  'settings.statutory.description': 'Statutory contributions applied in salary calculations. Employee EPF is deducted from net salary; employer EPF and ETF are paid on top.',
+  'settings.statutory.invalid': 'Rates must be between 0 and 100',
+  'settings.statutory.saved': 'EPF/ETF rules saved',
+  'settings.statutory.saveFailed': 'Failed to save EPF/ETF rules',
+  'settings.statutory.epfEmployee': 'EPF Employee (%)',
+  'settings.statutory.epfEmployer': 'EPF Employer (%)',
+  'settings.statutory.etf': 'ETF (%)',
+  'settings.statutory.enabled': 'Apply EPF/ETF to salaries',
+  'settings.statutory.includeExtraWork': 'Include extra work in the contributory wage',
+  'settings.statutory.includeBonus': 'Include bonuses in the contributory wage',
+  'settings.statutory.save': 'Save Rules',
+
+  // Plucking wage norms
+  'settings.norms.title': 'Plucking Wage Norms',
+  'settings.norms.description': 'Pluckers reaching the norm earn the daily wage plus the over-kilo rate for each kg above it. Shorter days are paid kg × rate and topped up to the minimum wage. Applies to records saved from now on.',
+  'settings.norms.invalid': 'Every norm needs a name, a norm above 0 kg and amounts of 0 or more',
+  'settings.norms.saved': 'Wage norms saved',
+  'settings.norms.saveFailed': 'Failed to save wage norms',
+  'settings.norms.normKg': 'Norm (kg)',
+  'settings.norms.dailyWage': 'Daily wage (රු)',
+  'settings.norms.overKiloRate': 'Over-kilo rate (රු/kg)',
+  'settings.norms.minimumWage': 'Minimum wage (රු)',
+  'settings.norms.allYear': 'All year',
+  'settings.norms.namePlaceholder': 'e.g., Rush season',
+  'settings.norms.plantation': 'Plantation',
+  'settings.norms.allPlantations': 'All plantations',
+  'settings.norms.seasonFrom': 'Season from',
+  'settings.norms.seasonTo': 'to',
+  'settings.norms.enabled': 'Pay plucking against a daily norm',
+  'settings.norms.overrides': 'Plantation and season norms',
+  'settings.norms.overridesHint': "Used instead of the norm above where they match; a plantation's own norm wins over a seasonal one",
+  'settings.norms.add': 'Add',
+  'settings.norms.save': 'Save Norms',
+
+  // Extra work types
+  'settings.extraWork.title': 'Extra Work Types',
+  'settings.extraWork.description': 'Named extra work with default rates, used on daily records and in salary breakdowns',
+  'settings.extraWork.loadFailed': 'Failed to load extra work types',
+  'settings.extraWork.nameRequired': 'Name is required',
+  'settings.extraWork.updated': 'Work type updated',
+  'settings.extraWork.added': 'Work type added',
+  'settings.extraWork.duplicate': 'A work type with this name already exists',
+  'settings.extraWork.saveFailed': 'Failed to save work type',
+  'settings.extraWork.editTitle': 'Edit Work Type',
+  'settings.extraWork.addTitle': 'Add Work Type',
+  'settings.extraWork.name': 'Name *',
+  'settings.extraWork.namePlaceholder': 'e.g., Weeding',
+  'settings.extraWork.defaultRate': 'Default Rate (රු)',
+  'settings.extraWork.update': 'Update',
+  'settings.extraWork.add': 'Add',
+  'settings.extraWork.confirmDelete': 'Delete work type "{name}"? Existing records keep their description.',
+  'settings.extraWork.deleted': 'Work type deleted',
+  'settings.extraWork.addType': 'Add Type',
+  'settings.extraWork.none': 'No extra work types yet',
+} as const
@@ -0,0 +1,118 @@
+// Tea sales, collection trips and receivables
+export const teaSales = {
+  // Sales
+  'teaSales.title': 'Tea Sales',
+  'teaSales.loading': 'Loading tea sales...',
+  'teaSales.loadFailed': 'Failed to load tea sales',
+  'teaSales.confirmDelete': 'Delete sale to {factory} on {date}?',
+  'teaSales.deleted': 'Sale deleted successfully',
+  'teaSales.deleteFailed': 'Failed to delete sale',
+  'teaSales.selectFactoryError': 'Select the factory the tea was sold to',
+  'teaSales.updated': 'Sale updated successfully',
+  'teaSales.recorded': 'Sale recorded successfully',
+  'teaSales.saveFailed': 'Failed to save sale',
+  'teaSales.factory': 'Factory',
+  'teaSales.factories': 'Factories',
+  'teaSales.kgDelivered': 'KG Delivered',
+  'teaSales.ratePerKg': 'Rate/KG',
+  'teaSales.avgRate': 'Avg Rate/KG',
+  'teaSales.totalKg': 'Total KG',
+  'teaSales.gross': 'Gross',
+  'teaSales.deductions': 'Deductions',
+  'teaSales.netIncome': 'Net Income',
+  'teaSales.payment': 'Payment',
+  'teaSales.due': '{amount} due',
+  'teaSales.perKg': '{amount}/kg',
+  'teaSales.allTime': 'All Time',
+  'teaSales.daily': 'Daily',
+  'teaSales.monthly': 'Monthly',
+  'teaSales.search': 'Search sales...',
+  'teaSales.showing': 'Showing:',
+  'teaSales.exportCsv': 'Export as CSV',
+  'teaSales.exportJson': 'Export as JSON',
+  'teaSales.printReport': 'Print Report',
+  'teaSales.recordPayment': 'Record Payment',
+  'teaSales.recordSale': 'Record Sale',
+  'teaSales.editSale': 'Edit Sale',
+  'teaSales.grossLessDeductions': '{gross} gross - {deductions} deductions',
+  'teaSales.factoryBreakdown': 'Factory Breakdown',
+  'teaSales.breakdownDescription': 'Sales by factory for {date}',
+  'teaSales.dayTotal': 'Day Total',
+  'teaSales.records': 'Sales Records',
+  'teaSales.saleCount': '{count} sales found',
+  'teaSales.saleCountOne': '1 sale found',
+  'teaSales.noneForPeriod': 'No sales found for this period',
+  'teaSales.noData': 'No data to export',
+  'teaSales.noDataToPrint': 'No data to print',
+  'teaSales.allowPopups': 'Please allow popups for printing',
+  'teaSales.update': 'Update',
+  'teaSales.form.date': 'Date *',
+  'teaSales.form.factory': 'Factory *',
+  'teaSales.form.selectFactory': 'Select factory',
+  'teaSales.form.addFactoryFirst': 'Add a factory first',
+  'teaSales.form.kgDelivered': 'KG Delivered *',
+  'teaSales.form.rate': 'Rate/KG (රු.) *',
+  'teaSales.form.notesPlaceholder': 'Optional notes',
+  'teaSales.rateMismatch': '{factory} paid {rate}/kg on {date}',
+  'teaSales.useRate': 'Use {rate}',
+
+  // Printed sales report
+  'teaSales.report.period': 'Period',
+  'teaSales.report.generated': 'Generated',
+  'teaSales.report.footer': 'Tea Plantation Dashboard - Sales Report',
+
+  // Factory payment status
+  'factoryPayments.status.unpaid': 'Unpaid',
+  'factoryPayments.status.partial': 'Part paid',
+  'factoryPayments.status.paid': 'Paid',
+
+  // Deductions
+  'deductions.add': 'Add',
+  'deductions.none': 'No deductions for this sale',
+  'deductions.namePlaceholder': 'e.g., Transport',
+  'deductions.method.fixed': 'Fixed amount',
+  'deductions.method.per_kg': 'Per kg delivered',
+  'deductions.method.percent': 'Percent of gross',
+  'deductions.method.kg': 'Weight struck off',
+
+  // Receivables
+  'receivables.title': 'Receivables Aging',
+  'receivables.summary': '{amount} unpaid across {count} factories',
+  'receivables.summaryOne': '{amount} unpaid across 1 factory',
+  'receivables.bucket.30': '0-30 days',
+  'receivables.bucket.60': '31-60 days',
+  'receivables.bucket.over60': '60+ days',
+
+  // Collection trips
+  'trips.title': 'Collection Trips',
+  'trips.summary': '{count} trips costing {amount} · {period}',
+  'trips.summaryOne': '1 trip costing {amount} · {period}',
+  'trips.none': 'No collection trips recorded for this period',
+  'trips.carriedTo': '{kg} to {factories}',
+  'trips.noDeliveriesLinked': 'No deliveries linked',
+  'trips.loadFailed': 'Failed to load collection trips',
+  'trips.confirmDelete': 'Delete the {vehicle} trip of {date}? Its deliveries are kept.',
+  'trips.deleted': 'Trip deleted',
+  'trips.deleteFailed': 'Failed to delete trip',
+  'trips.record': 'Record Trip',
+  'trips.edit': 'Edit Trip',
+  'trips.update': 'Update Trip',
+  'trips.description': 'Tick the deliveries this lorry carried',
+  'trips.departureTime': 'Departure Time',
+  'trips.vehicle': 'Vehicle No. *',
+  'trips.vehiclePlaceholder': 'e.g. LB-4521',
+  'trips.driver': 'Driver',
+  'trips.cost': 'Trip Cost (රු.) *',
+  'trips.costPlaceholder': 'Fuel, hire and driver',
+  'trips.deliveriesOn': 'Deliveries on {date}',
+  'trips.noDeliveries': 'No deliveries recorded for this date that are not already on a trip',
+  'trips.kgCarried': '{kg} carried',
+  'trips.vehicleRequired': 'Enter the vehicle number',
+  'trips.updated': 'Trip updated',
+  'trips.recorded': 'Trip recorded',
+  'trips.saveFailed': 'Failed to save trip',
+  'trips.trips': 'Trips',
+  'trips.kgCarriedColumn': 'KG Carried',
+  'trips.transportCost': 'Transport Cost',
+  'trips.costPerKg': 'Cost/KG',
+} as const
@@ -0,0 +1,145 @@
+// Workers, termination and final settlement
+export const workers = {
+  // Workers
+  'workers.title': 'Workers',
+  'workers.loading': 'Loading workers...',
+  'workers.todaysAttendance': "Today's Attendance",
+  'workers.add': 'Add Worker',
+  'workers.edit': 'Edit Worker',
+  'workers.search': 'Search workers...',
+  'workers.noneMatching': 'No workers matching "{search}"',
+  'workers.none': 'No workers found',
+  'workers.tryDifferentSearch': 'Try a different search term',
+  'workers.addHint': 'Add workers to your team',
+  'workers.employeeId': 'Employee ID *',
+  'workers.employeeIdPlaceholder': 'e.g., EMP001',
+  'workers.firstName': 'First Name *',
+  'workers.lastName': 'Last Name',
+  'workers.salaryPaidBy': 'Salary Paid By',
+  'workers.update': 'Update',
+  'workers.addButton': 'Add',
+  'workers.hired': 'Hired',
+  'workers.hiredOn': 'Hired on {date}',
+  'workers.service.years': '{years}y {months}m',
+  'workers.service.months': '{months}m',
+  'workers.service.days': '{days}d',
+  'workers.service.today': 'Today',
+  'workers.terminated': 'Terminated',
+  'workers.terminatedOn': 'Terminated {date}',
+  'workers.terminate': 'Terminate worker',
+  'workers.printSettlement': 'Print final settlement',
+  'workers.editTooltip': 'Edit worker',
+  'workers.deleteTooltip': 'Delete worker',
+  'workers.confirmDelete': 'Delete {name}?',
+  'workers.loadFailed': 'Failed to load workers',
+  'workers.deleted': 'Worker deleted successfully',
+  'workers.deleteFailed': 'Failed to delete worker',
+  'workers.updated': 'Worker updated successfully',
+  'workers.added': 'Worker added successfully',
+  'workers.created': 'Worker created successfully',
+  'workers.saveFailed': 'Failed to save worker',
+  'workers.noSettlement': 'No settlement was recorded for this worker',
+  'workers.printSettlementFailed': 'Failed to print the settlement',
+  'workers.status.active': 'Active',
+  'workers.status.inactive': 'Inactive',
+  'workers.status.terminated': 'Terminated',
+
+  // Worker form
+  'workers.form.newTitle': 'Add New Worker',
+  'workers.form.editDescription': 'Update worker details',
+  'workers.form.newDescription': 'Add a new worker to your plantation workforce',
+  'workers.form.role': 'Role *',
+  'workers.form.selectRole': 'Select role',
+  'workers.form.lastName': 'Last Name *',
+  'workers.form.plantation': 'Plantation',
+  'workers.form.selectPlantation': 'Select plantation',
+  'workers.form.unassigned': 'Unassigned',
+  'workers.form.salary': 'Monthly Salary (LKR)',
+  'workers.form.selectStatus': 'Select status',
+  'workers.form.update': 'Update Worker',
+  'workers.form.create': 'Create Worker',
+  'workers.error.employeeId': 'Employee ID must be at least 3 characters',
+  'workers.error.firstName': 'First name must be at least 2 characters',
+  'workers.error.lastName': 'Last name must be at least 2 characters',
+  'workers.error.salary': 'Salary must be positive',
+
+  // Worker details
+  'workers.details.overview': 'Overview',
+  'workers.details.performance': 'Performance',
+  'workers.details.harvestHistory': 'Harvest History',
+  'workers.details.details': 'Details',
+  'workers.details.totalHarvests': 'Total Harvests',
+  'workers.details.thisMonth': 'This Month',
+  'workers.details.avgDailyOutput': 'Avg Daily Output',
+  'workers.details.monthlySalary': 'Monthly Salary',
+  'workers.details.notAvailable': 'N/A',
+  'workers.details.personalInfo': 'Personal Information',
+  'workers.details.notProvided': 'Not provided',
+  'workers.details.assignedPlantation': 'Assigned Plantation',
+  'workers.details.notSpecified': 'Not specified',
+  'workers.details.yearsOfService': '{years} years of service',
+  'workers.details.performanceMetrics': 'Performance Metrics',
+  'workers.details.harvestTarget': 'Monthly Harvest Target',
+  'workers.details.targetBasis': 'Based on role and experience',
+  'workers.details.managementRole': 'Management Role',
+  'workers.details.achievement': 'Monthly Achievement',
+  'workers.details.achievementBasis': 'Current month progress',
+  'workers.details.ofTarget': '{percent}% of target',
+  'workers.details.qualityGrade': 'Average Quality Grade',
+  'workers.details.qualityBasis': 'Based on recent harvests',
+  'workers.details.grade': 'Grade {grade}',
+  'workers.details.improving': 'Improving',
+  'workers.details.recentHarvests': 'Recent Harvest Records',
+  'workers.details.unknownPlantation': 'Unknown Plantation',
+  'workers.details.weather': 'Weather: {weather}',
+  'workers.details.noHarvests': 'No harvest records found',
+  'workers.details.systemDetails': 'System Details',
+  'workers.details.workerId': 'Worker ID',
+  'workers.details.plantationId': 'Plantation ID',
+  'workers.details.notAssigned': 'Not assigned',
+  'workers.details.created': 'Created',
+  'workers.details.lastUpdated': 'Last Updated',
+
+  // Termination
+  'termination.title': 'Terminate {name}',
+  'termination.description': "The final settlement pays this month's unpaid wages and any gratuity, less advances still outstanding. The worker's records stay in history.",
+  'termination.lastWorkingDay': 'Last working day *',
+  'termination.reason': 'Reason *',
+  'termination.reasonPlaceholder': 'Resigned, retired, dismissed...',
+  'termination.submit': 'Terminate & Print',
+  'termination.calculateFailed': 'Failed to calculate the settlement',
+  'termination.reasonRequired': 'Enter the reason for termination',
+  'termination.confirm': 'Terminate {name} from {date}?',
+  'termination.terminated': '{name} terminated',
+  'termination.failed': 'Failed to terminate worker',
+  'termination.wagesAlreadyPaid': "This month's salary is already paid",
+  'termination.wagesNote': '{days} days, less {epf} EPF',
+  'termination.wagesNotePaid': '{days} days, less {epf} EPF and {paid} already paid',
+  'termination.service': '{years} years of service',
+  'termination.serviceDue': '{years} years of service; due after {required}',
+  'termination.wagesDue': 'Wages due',
+  'termination.outstandingAdvances': 'Outstanding advances',
+  'termination.gratuity': 'Gratuity',
+  'termination.netPayable': 'Net payable',
+  'termination.owedByWorker': 'Owed by worker',
+
+  // Printed final settlement
+  'settlement.title': 'Final Settlement',
+  'settlement.documentTitle': 'Final Settlement - {name}',
+  'settlement.lastWorkingDay': 'Last working day',
+  'settlement.service': 'Service',
+  'settlement.completedYears': '{years} completed years',
+  'settlement.notEligible': 'Not eligible: {years} completed years of service ({required} required)',
+  'settlement.gratuityMonthly': "{years} years × half a month's salary of {salary}",
+  'settlement.gratuityDaily': '{years} years × 14 days × average daily wage of {wage}',
+  'settlement.wagesAlreadyPaid': 'Already paid with the {month} salary',
+  'settlement.daysWorked': '{days} days worked in {month}',
+  'settlement.wagesFor': 'Wages for {month}',
+  'settlement.lessEpf': 'Less EPF (employee)',
+  'settlement.lessPaid': 'Less paid in {month}',
+  'settlement.lessAdvances': 'Less outstanding advances',
+  'settlement.netPayable': 'Net amount payable to worker',
+  'settlement.owedByWorker': 'Balance owed by worker',
+  'settlement.receivedBy': 'Received in full settlement by',
+  'settlement.allowPopups': 'Allow pop-ups to print the settlement',
+} as const
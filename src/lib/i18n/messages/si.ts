@@ -0,0 +1,41 @@
+import type { Messages } from "./en"
+import { account } from "./si/account"
+import { advances } from "./si/advances"
+import { attendance } from "./si/attendance"
+import { common } from "./si/common"
+import { factories } from "./si/factories"
+import { leaf } from "./si/leaf"
+import { navigation } from "./si/navigation"
+import { organization } from "./si/organization"
+import { overview } from "./si/overview"
+import { plantations } from "./si/plantations"
+import { plucking } from "./si/plucking"
+import { reports } from "./si/reports"
+import { salary } from "./si/salary"
+import { salaryPayments } from "./si/salary-payments"
+import { scheduler } from "./si/scheduler"
+import { settings } from "./si/settings"
+import { teaSales } from "./si/tea-sales"
+import { workers } from "./si/workers"
+
+// Sinhala catalogue
+export const si: Messages = {
+  ...common,
+  ...navigation,
+  ...salary,
+  ...reports,
+  ...salaryPayments,
+  ...advances,
+  ...attendance,
+  ...plantations,
+  ...scheduler,
+  ...workers,
+  ...teaSales,
+  ...plucking,
+  ...factories,
+  ...leaf,
+  ...overview,
+  ...settings,
+  ...organization,
+  ...account,
+}
@@ -0,0 +1,59 @@
+import type { account as en } from "../en/account"
+
+// Account page, user menu and layout preferences
+export const account: Record<keyof typeof en, string> = {
+  // User menu
+  'account.menu': 'ගිණුම',
+  'account.logOut': 'ඉවත් වන්න',
+  'account.logoutFailed': 'ඉවත් වීම අසමත් විය',
+  'account.loggedOut': 'සාර්ථකව ඉවත් විය',
+  'account.user': 'පරිශීලකයා',
+
+  // Account page
+  'account.loading': 'ගිණුම පූරණය වෙමින්...',
+  'account.signInRequired': 'ගිණුම් සැකසුම් බැලීමට කරුණාකර පුරනය වන්න',
+  'account.title': 'ගිණුම් සැකසුම්',
+  'account.description': 'ඔබේ පැතිකඩ සහ ගිණුම් මනාප කළමනාකරණය කරන්න',
+  'account.photo': 'පැතිකඩ ඡායාරූපය',
+  'account.photoHint': 'නව ඡායාරූපයක් උඩුගත කිරීමට අවතාරය ක්ලික් කරන්න',
+  'account.uploading': 'උඩුගත වෙමින්...',
+  'account.changePhoto': 'ඡායාරූපය වෙනස් කරන්න',
+  'account.photoFormats': 'JPG, PNG හෝ WebP. උපරිම 2MB.',
+  'account.notImage': 'කරුණාකර රූප ගොනුවක් තෝරන්න',
+  'account.imageTooLarge': 'රූපය 2MB ට අඩු විය යුතුය',
+  'account.photoUpdated': 'පැතිකඩ ඡායාරූපය යාවත්කාලීන විය',
+  'account.photoFailed': 'ඡායාරූපය උඩුගත කිරීමට අසමත් විය',
+  'account.details': 'පැතිකඩ විස්තර',
+  'account.detailsHint': 'ඔබේ පුද්ගලික තොරතුරු යාවත්කාලීන කරන්න',
+  'account.fullName': 'සම්පූර්ණ නම',
+  'account.fullNamePlaceholder': 'ඔබේ නම ඇතුළත් කරන්න',
+  'account.email': 'විද්‍යුත් තැපැල් ලිපිනය',
+  'account.emailFixed': 'විද්‍යුත් තැපෑල වෙනස් කළ නොහැක',
+  'account.id': 'ගිණුම් හැඳුනුම',
+  'account.memberSince': 'සාමාජිකත්වය ආරම්භය',
+  'account.saving': 'සුරකිමින්...',
+  'account.saveChanges': 'වෙනස්කම් සුරකින්න',
+  'account.profileUpdated': 'පැතිකඩ සාර්ථකව යාවත්කාලීන විය',
+  'account.profileFailed': 'පැතිකඩ යාවත්කාලීන කිරීමට අසමත් විය',
+
+  // Layout preferences
+  'account.layout.title': 'පිරිසැලසුම් සැකසුම්',
+  'account.layout.description': 'ඔබේ උපකරණ පුවරුවේ පිරිසැලසුම් මනාප අභිරුචිකරණය කරන්න.',
+  'account.layout.preset': 'පෙරසැකසුම',
+  'account.layout.mode': 'ප්‍රකාරය',
+  'account.layout.light': 'ආලෝකමත්',
+  'account.layout.dark': 'අඳුරු',
+  'account.layout.sidebarVariant': 'පැති තීරු වර්ගය',
+  'account.layout.inset': 'ඇතුළත',
+  'account.layout.sidebar': 'පැති තීරුව',
+  'account.layout.floating': 'පාවෙන',
+  'account.layout.navbarStyle': 'සංචාලන තීරු විලාසය',
+  'account.layout.sticky': 'ස්ථාවර',
+  'account.layout.scroll': 'අනුචලනය',
+  'account.layout.collapsible': 'පැති තීරුව හැකිළීම',
+  'account.layout.icon': 'අයිකනය',
+  'account.layout.offcanvas': 'තිරයෙන් පිටත',
+  'account.layout.contentLayout': 'අන්තර්ගත පිරිසැලසුම',
+  'account.layout.centered': 'මැදට',
+  'account.layout.fullWidth': 'සම්පූර්ණ පළල',
+}
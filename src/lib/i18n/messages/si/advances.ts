@@ -0,0 +1,59 @@
+import type { advances as en } from "../en/advances"
+
+// Advance ledger, instalment schedules and receipts
+export const advances: Record<keyof typeof en, string> = {
+  // Ledger
+  'advances.title': 'අත්තිකාරම් ලේඛනය',
+  'advances.searchWorkers': 'සේවකයින් සොයන්න...',
+  'advances.totalOutstanding': 'මුළු හිඟ මුදල',
+  'advances.workersWithBalance': 'ශේෂයක් ඇති සේවකයින්',
+  'advances.overLimit': 'සීමාව ඉක්මවූ',
+  'advances.dueThisMonth': 'මෙම මාසයේ ගෙවිය යුතු',
+  'advances.outstandingTitle': 'හිඟ අත්තිකාරම්',
+  'advances.outstandingDescription': 'අත්තිකාරම් වාරික වශයෙන් වැටුපෙන් අය කරයි; මාසයකට ආවරණය කළ නොහැකි ඕනෑම මුදලක් ඉදිරියට ගෙන යයි',
+  'advances.loadFailed': 'අත්තිකාරම් ලේඛනය පූරණය කිරීමට නොහැකි විය',
+  'advances.limit': 'සීමාව',
+  'advances.noLimit': 'සීමාවක් නැත',
+  'advances.given': 'දුන්',
+  'advances.recovered': 'අය කළ',
+  'advances.outstanding': 'හිඟ',
+  'advances.ledger': 'ලේඛනය',
+
+  // Advance limit
+  'advances.limitTitle': 'අත්තිකාරම් සීමාව',
+  'advances.maxOutstanding': 'උපරිම හිඟ මුදල (රු)',
+  'advances.limitPlaceholder': 'භූමිකාවේ සීමාව භාවිතයට හිස්ව තබන්න',
+  'advances.limitInvalid': 'ධන මුදලක් ඇතුළත් කරන්න හෝ හිස්ව තබන්න',
+  'advances.limitUpdated': 'අත්තිකාරම් සීමාව යාවත්කාලීන කළා',
+  'advances.limitFailed': 'අත්තිකාරම් සීමාව සුරැකීමට නොහැකි විය',
+
+  // A worker's ledger
+  'advances.workerTitle': 'අත්තිකාරම් ලේඛනය • {name}',
+  'advances.workerOutstanding': '{id} • හිඟ {amount}',
+  'advances.ofLimit': ' ({limit} සීමාවෙන්)',
+  'advances.due': 'ගෙවිය යුතු',
+  'advances.carriedForward': 'ඉදිරියට ගෙන ගිය',
+  'advances.schedules': 'අත්තිකාරම් සහ වාරික සැලසුම්',
+  'advances.instalments': 'වාරික',
+  'advances.instalmentsFrom': 'වාරික, ආරම්භය',
+  'advances.startMonth': 'ආරම්භක මාසය',
+  'advances.notSigned': 'අත්සන් කර නැත',
+  'advances.printReceipt': 'ලදුපත මුද්‍රණය',
+  'advances.instalmentsInvalid': 'වාරික 1 ත් 24 ත් අතර විය යුතුය',
+  'advances.startTooEarly': 'අත්තිකාරම දුන් මාසයට පෙර අය කිරීම ආරම්භ කළ නොහැක',
+  'advances.scheduleSaved': 'වාරික සැලසුම සුරැකුවා',
+  'advances.scheduleFailed': 'සැලසුම සුරැකීමට නොහැකි විය',
+  'advances.printFailed': 'ලදුපත මුද්‍රණය කිරීමට නොහැකි විය',
+  'advances.signTitle': 'අත්තිකාරම් ලදුපත • {name}',
+  'advances.signDescription': '{date} දින {amount} අත්තිකාරම. මුදල් ලැබුණු බව තහවුරු කිරීමට සේවකයා අත්සන් කරයි.',
+
+  // Printed receipt
+  'advances.receipt.documentTitle': 'අත්තිකාරම් ලදුපත - {name}',
+  'advances.receipt.heading': 'වැටුප් අත්තිකාරම් ලදුපත',
+  'advances.receipt.received': 'ලැබුණු අත්තිකාරම',
+  'advances.receipt.recovery': 'ඉදිරි වැටුප් වලින් අය කරනු ලැබේ.',
+  'advances.receipt.allowPopups': 'ලදුපත මුද්‍රණයට pop-up වලට ඉඩ දෙන්න',
+
+  // Advance limit check
+  'advances.limitExceeded': 'මෙම {amount} අත්තිකාරම නිසා හිඟ ශේෂය {balance} දක්වා ඉහළ යන අතර එය {limit} සීමාවට වඩා වැඩිය.',
+}
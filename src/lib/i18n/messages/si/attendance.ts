@@ -0,0 +1,48 @@
+import type { attendance as en } from "../en/attendance"
+
+// Attendance register, muster roll and leave
+export const attendance: Record<keyof typeof en, string> = {
+  // Statuses and leave
+  'attendance.status.present': 'පැමිණ ඇත',
+  'attendance.status.half_day': 'අර්ධ දිනය',
+  'attendance.status.absent': 'නොපැමිණ',
+  'attendance.status.leave': 'නිවාඩු',
+  'attendance.leave.annual': 'වාර්ෂික',
+  'attendance.leave.casual': 'අනියම්',
+  'attendance.leave.sick': 'අසනීප',
+  'attendance.leaveOption.annual': 'වාර්ෂික නිවාඩු',
+  'attendance.leaveOption.casual': 'අනියම් නිවාඩු',
+  'attendance.leaveOption.sick': 'අසනීප නිවාඩු',
+  'attendance.presentFromPlucking': 'පැමිණ ඇත (නෙළීම් වාර්තාව)',
+
+  // Attendance page
+  'attendance.title': 'පැමිණීම',
+  'attendance.intro': 'නෙළීම් වාර්තා පැමිණීම ලෙස ගණන් ගැනේ. නිවාඩු හිමිකම් සහ දීමනාව සකසන්නේ',
+  'attendance.orgSettings': 'සංවිධාන සැකසුම් තුළය',
+  'attendance.markDay': 'දිනය සලකුණු කරන්න',
+  'attendance.musterRoll': 'පැමිණීමේ ලේඛනය',
+  'attendance.leaveBalances': 'නිවාඩු ශේෂ',
+  'attendance.leaveTab': 'නිවාඩු',
+  'attendance.legend': 'P පැමිණ · H අර්ධ දිනය · A නොපැමිණ · L නිවාඩු; අඳුරු දින නෙළීම් වාර්තා වලිනි',
+  'attendance.legendEdit': '. සලකුණු කිරීමට දිනයක් ක්ලික් කරන්න',
+  'attendance.loadFailed': 'පැමිණීම පූරණය කිරීමට නොහැකි විය',
+  'attendance.noWorkers': 'මෙම මාසයට සේවකයින් නැත',
+  'attendance.allowance': 'දීමනාව',
+  'attendance.takenOfDays': '{type} (ගත් / දින)',
+  'attendance.over': '{days} ඉක්මවා',
+  'attendance.left': '{days} ඉතිරි',
+  'attendance.yearToDate': '{year} ජනවාරි 1 සිට තෝරාගත් මාසය අවසානය දක්වා නිවාඩු',
+
+  // Daily register
+  'attendance.registerTitle': '{date} පැමිණීම',
+  'attendance.registerDescription': 'වෙනත් ලෙස සලකුණු නොකළහොත් නෙළීම් වාර්තාවක් ඇති සේවකයින් පැමිණ ඇති ලෙස ගණන් ගැනේ',
+  'attendance.noActiveWorkers': 'සක්‍රිය සේවකයින් නැත',
+  'attendance.markUnmarkedPresent': 'සලකුණු නොකළ අය පැමිණ ඇති ලෙස සලකුණු කරන්න',
+  'attendance.plucked': 'නෙළා ඇත',
+  'attendance.presentPlucked': 'පැමිණ ඇත (නෙළා ඇත)',
+  'attendance.notMarked': 'සලකුණු කර නැත',
+  'attendance.saveCount': 'සුරකින්න ({count})',
+  'attendance.saved': 'සේවකයින් {count} දෙනෙකුගේ පැමිණීම සුරැකුවා',
+  'attendance.savedOne': 'එක් සේවකයෙකුගේ පැමිණීම සුරැකුවා',
+  'attendance.saveFailed': 'පැමිණීම සුරැකීමට නොහැකි විය',
+}
@@ -0,0 +1,66 @@
+import type { common as en } from "../en/common"
+
+// Common
+export const common: Record<keyof typeof en, string> = {
+  'common.appName': 'තේ වතු කළමනාකරණ පද්ධතිය',
+  'common.language': 'භාෂාව',
+  'common.loading': 'පූරණය වෙමින්...',
+  'common.loadingOrganization': 'ආයතනය පූරණය වෙමින්...',
+  'common.export': 'අපනයනය',
+  'common.exportCsv': 'CSV ලෙස අපනයනය',
+  'common.exportJson': 'JSON ලෙස අපනයනය',
+  'common.print': 'මුද්‍රණය',
+  'common.soon': 'ළඟදීම',
+  'common.id': 'අංකය',
+  'common.employeeId': 'සේවක අංකය',
+  'common.worker': 'සේවකයා',
+  'common.name': 'නම',
+  'common.role': 'තනතුර',
+  'common.phone': 'දුරකථනය',
+  'common.status': 'තත්ත්වය',
+  'common.hireDate': 'බඳවාගත් දිනය',
+  'common.date': 'දිනය',
+  'common.days': 'දින',
+  'common.daysWorked': 'වැඩ කළ දින',
+  'common.totalKg': 'මුළු කි.ග්‍රෑ.',
+  'common.kgPlucked': 'නෙළූ කි.ග්‍රෑ.',
+  'common.ratePerKg': 'කි.ග්‍රෑ. මිල',
+  'common.extraWork': 'අමතර වැඩ',
+  'common.otherWork': 'වෙනත්',
+  'common.total': 'එකතුව',
+  'common.totalEarned': 'මුළු උපයීම',
+  'common.bonus': 'ප්‍රසාද දීමනාව',
+  'common.advance': 'අත්තිකාරම',
+  'common.advances': 'අත්තිකාරම්',
+  'common.netSalary': 'ශුද්ධ වැටුප',
+  'common.kgValue': 'කි.ග්‍රෑ. {value}',
+  'common.generatedOn': 'සකස් කළේ {date}',
+  'common.cancel': 'අවලංගු කරන්න',
+  'common.save': 'සුරකින්න',
+  'common.delete': 'මකන්න',
+  'common.edit': 'සංස්කරණය',
+  'common.close': 'වසන්න',
+  'common.amount': 'මුදල',
+  'common.method': 'ක්‍රමය',
+  'common.reference': 'යොමුව',
+  'common.optional': 'අත්‍යවශ්‍ය නොවේ',
+  'common.notes': 'සටහන්',
+  'common.reason': 'හේතුව',
+  'common.month': 'මාසය',
+  'common.exportedCsv': 'CSV ලෙස අපනයනය කළා',
+  'common.exportedJson': 'JSON ලෙස අපනයනය කළා',
+  'common.runSqlSetup': '{table} වගුව හමු නොවීය. කරුණාකර SQL සැකසුම ධාවනය කරන්න.',
+  'role.picker': 'දළු නෙළන්නා',
+  'role.supervisor': 'අධීක්ෂක',
+  'role.manager': 'කළමනාකරු',
+  'role.quality_controller': 'තත්ත්ව පාලක',
+
+  // Signatures
+  'signature.unreadable': 'අත්සන කියවිය නොහැකි විය',
+  'signature.saved': 'අත්සන සුරකින ලදී',
+  'signature.saveFailed': 'අත්සන සුරැකීමට අසමත් විය',
+  'signature.pad': 'අත්සන් පුවරුව',
+  'signature.clear': 'මකන්න',
+  'signature.later': 'පසුව අත්සන් කරන්න',
+  'signature.save': 'අත්සන සුරකින්න',
+}
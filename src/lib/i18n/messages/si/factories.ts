@@ -0,0 +1,232 @@
+import type { factories as en } from "../en/factories"
+
+// Factories, rates, deductions and statements
+export const factories: Record<keyof typeof en, string> = {
+  // Factory rates
+  'factories.title': 'කර්මාන්තශාලා මිල ගණන්',
+  'factories.loading': 'කර්මාන්තශාලා මිල ගණන් පූරණය වෙමින්...',
+  'factories.loadFailed': 'කර්මාන්තශාලා මිල ගණන් පූරණය කිරීමට අසමත් විය',
+  'factories.historyLoadFailed': 'මිල ඉතිහාසය පූරණය කිරීමට අසමත් විය',
+  'factories.confirmDelete': '{name} මකන්නද? සියලු මිල ඉතිහාසයද මැකෙනු ඇත. එහි තේ විකුණුම් තබා ගැනේ.',
+  'factories.deleted': 'කර්මාන්තශාලාව සාර්ථකව මකා දමන ලදී',
+  'factories.deleteFailed': 'කර්මාන්තශාලාව මකා දැමීමට අසමත් විය',
+  'factories.rateScheduled': '{date} සිට කි.ග්‍රෑ. එකකට {rate} මිල සැලසුම් කරන ලදී',
+  'factories.rateUpdated': 'කර්මාන්තශාලා මිල සාර්ථකව යාවත්කාලීන කරන ලදී',
+  'factories.added': 'කර්මාන්තශාලාව සාර්ථකව එක් කරන ලදී',
+  'factories.saveFailed': 'කර්මාන්තශාලාව සුරැකීමට අසමත් විය',
+  'factories.duplicateName': 'මෙම නමින් කර්මාන්තශාලාවක් දැනටමත් ඇත',
+  'factories.name': 'කර්මාන්තශාලාවේ නම',
+  'factories.currentRate': 'වත්මන් මිල',
+  'factories.previous': 'පෙර',
+  'factories.updated': 'යාවත්කාලීන කළේ',
+  'factories.noRate': 'මිලක් නැත',
+  'factories.rateFrom': '{date} සිට කි.ග්‍රෑ. එකකට {rate}',
+  'factories.firstRate': 'පළමු මිල',
+  'factories.viewHistory': 'මිල ඉතිහාසය බලන්න',
+  'factories.saleDeductions': 'විකුණුම් අඩු කිරීම්',
+  'factories.editRate': 'මිල සංස්කරණය කරන්න',
+  'factories.delete': 'කර්මාන්තශාලාව මකන්න',
+  'factories.add': 'කර්මාන්තශාලාවක් එක් කරන්න',
+  'factories.search': 'කර්මාන්තශාලා සොයන්න...',
+  'factories.sort.highest': 'ඉහළම',
+  'factories.sort.lowest': 'අඩුම',
+  'factories.sort.newest': 'නවතම',
+  'factories.sort.oldest': 'පැරණිතම',
+  'factories.count': 'කර්මාන්තශාලා {count}',
+  'factories.countOne': 'කර්මාන්තශාලා 1',
+  'factories.matching': ' "{search}" ට ගැළපෙන',
+  'factories.noneMatching': '"{search}" ට ගැළපෙන කර්මාන්තශාලා නැත',
+  'factories.none': 'කර්මාන්තශාලා හමු නොවීය',
+  'factories.tryDifferentSearch': 'වෙනත් සෙවුම් පදයක් උත්සාහ කරන්න',
+  'factories.addHint': 'ඔබ තේ විකුණන කර්මාන්තශාලා එක් කරන්න',
+  'factories.updateRate': 'මිල යාවත්කාලීන කරන්න',
+  'factories.currentPerKg': 'වත්මන්: කි.ග්‍රෑ. එකකට {rate}',
+  'factories.form.name': 'කර්මාන්තශාලාවේ නම *',
+  'factories.form.namePlaceholder': 'උදා: ලංකා තේ කර්මාන්තශාලාව',
+  'factories.form.effectiveDate': 'බලපැවැත්වෙන දිනය *',
+  'factories.change': 'වෙනස:',
+  'factories.update': 'යාවත්කාලීන කරන්න',
+  'factories.addSubmit': 'එක් කරන්න',
+  'factories.rateChanges': 'මිල වෙනස්කම් {count}',
+  'factories.rateChangesOne': 'මිල වෙනස්කම් 1',
+  'factories.current': 'වත්මන්',
+  'factories.scheduled': 'සැලසුම් කළ',
+  'factories.noHistory': 'මිල ඉතිහාසයක් නැත',
+  'factories.inactive': 'අක්‍රිය',
+  'factories.relative.today': 'අද',
+  'factories.relative.yesterday': 'ඊයේ',
+  'factories.relative.days': 'දින {count}කට පෙර',
+  'factories.relative.weeks': 'සති {count}කට පෙර',
+  'factories.relative.months': 'මාස {count}කට පෙර',
+  'factories.relative.years': 'වසර {count}කට පෙර',
+
+  // Factory details
+  'factories.details': 'කර්මාන්තශාලා විස්තර',
+  'factories.detailsSaved': 'කර්මාන්තශාලා විස්තර සුරකින ලදී',
+  'factories.detailsSaveFailed': 'කර්මාන්තශාලා විස්තර සුරැකීමට අසමත් විය',
+  'factories.field.contactPerson': 'සම්බන්ධ කර ගත යුතු පුද්ගලයා',
+  'factories.field.phonePlaceholder': 'උදා: 077 123 4567',
+  'factories.field.registration': 'ලියාපදිංචි අංකය',
+  'factories.field.registrationPlaceholder': 'තේ මණ්ඩල ලියාපදිංචිය',
+  'factories.field.distance': 'දුර (කි.මී.)',
+  'factories.field.address': 'ලිපිනය',
+  'factories.field.bank': 'බැංකුව',
+  'factories.field.branch': 'ශාඛාව',
+  'factories.field.accountName': 'ගිණුමේ නම',
+  'factories.field.accountNumber': 'ගිණුම් අංකය',
+  'factories.field.bankDetails': 'ගෙවීම් සඳහා බැංකු විස්තර',
+  'factories.field.active': 'සක්‍රිය',
+  'factories.field.activeHint': 'නව විකුණුම් සටහන් කරන විට අක්‍රිය කර්මාන්තශාලා සැඟවේ',
+
+  // Deduction types
+  'deductions.loadFailed': 'අඩු කිරීම් පූරණය කිරීමට අසමත් විය',
+  'deductions.nameRequired': 'නම අවශ්‍යයි',
+  'deductions.duplicate': 'මෙම කර්මාන්තශාලාවට එම නමින් අඩු කිරීමක් දැනටමත් ඇත',
+  'deductions.saveFailed': 'අඩු කිරීම සුරැකීමට අසමත් විය',
+  'deductions.confirmDelete': '"{name}" අඩු කිරීම මකන්නද? පසුගිය විකුණුම්වල අඩු කිරීම් පේළි තබා ගැනේ.',
+  'deductions.deleted': 'අඩු කිරීම මකා දමන ලදී',
+  'deductions.title': 'අඩු කිරීම් - {factory}',
+  'deductions.description': 'මෙම කර්මාන්තශාලාවට නව විකුණුම්වල කලින් පුරවා ඇත; එක් එක් විකුණුමේදී අගයන් වෙනස් කළ හැක',
+  'deductions.noneSetUp': 'මෙම කර්මාන්තශාලාවට අඩු කිරීම් සකසා නැත',
+  'deductions.activate': 'සක්‍රිය කරන්න',
+  'deductions.deactivate': 'අක්‍රිය කරන්න',
+  'deductions.workedOutAs': 'ගණනය කරන ආකාරය',
+
+  // Factory page
+  'factories.notFound': 'කර්මාන්තශාලාව හමු නොවීය',
+  'factories.backToList': 'කර්මාන්තශාලා වෙත ආපසු',
+  'factories.editDetails': 'විස්තර සංස්කරණය කරන්න',
+  'factories.deliveries': 'බෙදාහැරීම්',
+  'factories.totalDelivered': 'මුළු බෙදාහැරීම',
+  'factories.outstandingOf': '{amount} න් ඉතිරි',
+  'factories.loadOneFailed': 'කර්මාන්තශාලාව පූරණය කිරීමට අසමත් විය',
+  'factories.loadingOne': 'කර්මාන්තශාලාව පූරණය වෙමින්...',
+  'factories.tab.rates': 'මිල ගණන්',
+  'factories.tab.payments': 'ගෙවීම්',
+  'factories.tab.statements': 'ප්‍රකාශන',
+  'factories.tab.details': 'විස්තර',
+  'factories.ratesHint': 'කර්මාන්තශාලා ලැයිස්තුවෙන් මිල වෙනස් කරන්න; අනාගත දින සහිත මිල ගණන් ඉබේම ක්‍රියාත්මක වේ',
+  'factories.paymentsReceived': 'ලැබුණු ගෙවීම්',
+  'factories.paymentsHint': 'සෑම ගෙවීමක්ම එය පියවන බෙදාහැරීම්වලට වෙන් කෙරේ',
+  'factories.monthlySettlements': 'මාසික පියවීම්',
+  'factories.settlementsHint': 'අඩු කිරීම්වලින් පසු එක් එක් මාසයේ බෙදාහැරීම් සඳහා කර්මාන්තශාලාව ගෙවිය යුතු මුදල',
+  'factories.noDeliveries': 'මෙම කර්මාන්තශාලාවට බෙදාහැරීම් සටහන් කර නැත',
+  'factories.nothingDelivered': 'මෙම කර්මාන්තශාලාවට තවම කිසිවක් බෙදා හැර නැත',
+  'factories.kg': 'කි.ග්‍රෑ.',
+  'factories.rate': 'මිල',
+  'factories.net': 'ශුද්ධ',
+  'factories.netPayable': 'ගෙවිය යුතු ශුද්ධ මුදල',
+  'factories.outstanding': 'ඉතිරි',
+  'factories.contact': 'සම්බන්ධතා',
+  'factories.bankAndBranch': 'බැංකුව සහ ශාඛාව',
+  'factories.account': 'ගිණුම',
+  'factories.notSet': 'සකසා නැත',
+  'factories.distanceKm': 'කි.මී. {km}',
+
+  // Factory payments
+  'factoryPayments.method.bank_transfer': 'බැංකු හුවමාරුව',
+  'factoryPayments.method.cheque': 'චෙක්පත',
+  'factoryPayments.method.cash': 'මුදල්',
+  'factoryPayments.confirmDelete': '{date} දින {amount} ගෙවීම මකන්නද? එහි බෙදාහැරීම් නැවත නොගෙවූ ලෙස සැලකේ.',
+  'factoryPayments.deleted': 'ගෙවීම මකා දමන ලදී',
+  'factoryPayments.deleteFailed': 'ගෙවීම මකා දැමීමට අසමත් විය',
+  'factoryPayments.none': 'මෙම කර්මාන්තශාලාවෙන් තවම ගෙවීම් ලැබී නැත',
+  'factoryPayments.onAccount': 'ගිණුමේ {amount}',
+  'factoryPayments.ref': 'යොමුව {reference}',
+  'factoryPayments.deliveries': 'බෙදාහැරීම් {count}',
+  'factoryPayments.deliveriesOne': 'බෙදාහැරීම් 1',
+
+  // Statements
+  'statements.status.accepted': 'පිළිගත්',
+  'statements.status.disputed': 'විරෝධතා ඇති',
+  'statements.line.matched': 'ගැළපේ',
+  'statements.line.mismatch': 'වෙනස්',
+  'statements.line.missing_recorded': 'අපගේ විකුණුම්වල නැත',
+  'statements.line.missing_statement': 'ප්‍රකාශනයේ නැත',
+  'statements.loadFailed': 'ප්‍රකාශන පූරණය කිරීමට අසමත් විය',
+  'statements.confirmDelete': '{month} සැසඳීම ඉවත් කරන්නද? එය පිළිගත් විට නිවැරදි කළ විකුණුම් එලෙසම පවතී.',
+  'statements.removed': 'සැසඳීම ඉවත් කරන ලදී',
+  'statements.removeFailed': 'සැසඳීම ඉවත් කිරීමට අසමත් විය',
+  'statements.title': 'මාසික ප්‍රකාශන',
+  'statements.description': 'කර්මාන්තශාලාවේ ප්‍රකාශනය අපගේ විකුණුම් සමඟ පේළියෙන් පේළිය පරීක්ෂා කෙරේ',
+  'statements.import': 'ප්‍රකාශනය ආයාත කරන්න',
+  'statements.none': 'මෙම කර්මාන්තශාලාවට තවම ප්‍රකාශන සසඳා නැත',
+  'statements.differences': 'වෙනස්කම් {count}',
+  'statements.differencesOne': 'වෙනස්කම් 1',
+  'statements.statementFigures': 'ප්‍රකාශනය {kg}, {amount}',
+  'statements.ourFigures': 'අපගේ {kg}, {amount}',
+  'statements.noLines': 'මෙම මාසය සඳහා ප්‍රකාශනයේ හෝ අපගේ විකුණුම්වල බෙදාහැරීම් නැත',
+  'statements.leafDeduction': 'දළු අඩු කිරීම',
+  'statements.statementVsOurs': 'ප්‍රකාශනය / අපගේ',
+  'statements.leafValue': 'දළු වටිනාකම',
+  'statements.allMatch': 'සියලු පේළි ගැළපේ',
+  'statements.toReview': 'සමාලෝචනයට {count}ක්',
+  'statements.ofLines': 'පේළි {count}න්',
+  'statements.dispute': 'විරෝධය',
+  'statements.saveDispute': 'විරෝධය සුරකින්න',
+  'statements.accept': 'කර්මාන්තශාලා අගයන් පිළිගන්න',
+  'statements.matchFailed': 'ප්‍රකාශනය සැසඳීමට අසමත් විය',
+  'statements.reasonRequired': 'ප්‍රකාශනයේ ඇති වරද සඳහන් කරන්න',
+  'statements.accepted': 'ප්‍රකාශනය පිළිගෙන විකුණුම් යාවත්කාලීන කරන ලදී',
+  'statements.disputed': 'ප්‍රකාශනයට විරෝධය දක්වන ලදී',
+  'statements.saveFailed': 'සැසඳීම සුරැකීමට අසමත් විය',
+  'statements.addedNote': 'කර්මාන්තශාලා ප්‍රකාශනයෙන් එක් කරන ලදී',
+  'statements.reconcileTitle': 'ප්‍රකාශනය සසඳන්න · {factory}',
+  'statements.fileHint': 'දිනය, ලැබුණු කි.ග්‍රෑ., දළු අඩු කිරීම (කි.ග්‍රෑ.) සහ මිල තීරු සහිත CSV',
+  'statements.month': 'ප්‍රකාශන මාසය *',
+  'statements.file': 'ප්‍රකාශන ගොනුව *',
+  'statements.chooseFile': 'CSV ගොනුවක් තෝරන්න',
+  'statements.acceptHint': 'පිළිගැනීමෙන් අපගේ විකුණුම් කර්මාන්තශාලාවේ කි.ග්‍රෑ., දළු අඩු කිරීම සහ මිලට නිවැරදි කර, කර්මාන්තශාලාව පමණක් සටහන් කළ දින එක් කෙරේ.',
+  'statements.reason': 'විරෝධයට හේතුව *',
+  'statements.reasonPlaceholder': 'උදා: 12 වැනිදා ප්‍රකාශනයේ නැත, මිල 210 විය යුතුය',
+  'statements.field.date': 'දිනය',
+  'statements.field.kg': 'ලැබුණු කි.ග්‍රෑ.',
+  'statements.field.deductionKg': 'දළු අඩු කිරීම (කි.ග්‍රෑ.)',
+  'statements.field.rate': 'මිල',
+  'statements.error.empty': 'ගොනුව හිස්ය',
+  'statements.error.missingColumns': '{columns} තීරුව හමු නොවීය',
+  'statements.error.dateOutsideMonth': 'සමහර දින {month} තුළ නැත, නැතහොත් ඒවායේ ආකෘතිය හඳුනාගත නොහැකි විය',
+  'statements.error.badKg': 'පේළිය {line}: ලැබුණු කි.ග්‍රෑ. අංකයක් නොවේ',
+  'statements.error.badRate': 'පේළිය {line}: මිල අංකයක් නොවේ',
+
+  // Factory comparison
+  'comparison.title': 'කර්මාන්තශාලා සැසඳීම',
+  'comparison.description': 'ඔබ විකුණන කර්මාන්තශාලා අතර මිල, කි.ග්‍රෑ. එකකට ශුද්ධ ප්‍රතිලාභය සහ ගෙවීම් වේගය',
+  'comparison.loadFailed': 'කර්මාන්තශාලා සැසඳීම පූරණය කිරීමට අසමත් විය',
+  'comparison.lastMonths': 'පසුගිය මාස {count}',
+  'comparison.rankingFor': '{month} සඳහා ශ්‍රේණිගත කිරීම',
+  'comparison.rankingHint': 'ලබන මාසයේ මිලෙන් එක් එක් කර්මාන්තශාලාවේ සුපුරුදු අඩු කිරීම් සහ කි.ග්‍රෑ. එකකට ප්‍රවාහන වියදම අඩු කළ විට. කි.ග්‍රෑ. එකකට {amount} ඇතුළත නම් ඉක්මනින් ගෙවන්නා ඉහළින් සිටී.',
+  'comparison.transportPerKg': 'ප්‍රවාහනය/කි.ග්‍රෑ.',
+  'comparison.projectedNetPerKg': 'අපේක්ෂිත ශුද්ධ/කි.ග්‍රෑ.',
+  'comparison.paysIn': 'ගෙවන කාලය',
+  'comparison.noRecentDeliveries': 'මෑත බෙදාහැරීම් නැත',
+  'comparison.days': 'දින {count}',
+  'comparison.netIncomePerKg': 'කි.ග්‍රෑ. එකකට ශුද්ධ ආදායම',
+  'comparison.netIncomeHint': 'අඩු කිරීම් සහ ප්‍රවාහනයෙන් පසු පසුගිය මාස {count} තුළ බෙදාහැරීම්',
+  'comparison.noDeliveries': 'මෙම කාලය තුළ බෙදාහැරීම් නැත',
+  'comparison.grossPerKg': 'දළ/කි.ග්‍රෑ.',
+  'comparison.deductionsPerKg': 'අඩු කිරීම්/කි.ග්‍රෑ.',
+  'comparison.netPerKg': 'ශුද්ධ/කි.ග්‍රෑ.',
+  'comparison.avgPaymentDelay': 'සාමාන්‍ය ගෙවීම් ප්‍රමාදය',
+  'comparison.rateOverTime': 'කාලයත් සමඟ කි.ග්‍රෑ. එකක මිල',
+  'comparison.rateOverTimeHint': 'මිල ඉතිහාසයෙන්, එක් එක් කර්මාන්තශාලාවේ බලපවත්නා මිල',
+  'comparison.noRateHistory': 'මෙම කාලය සඳහා මිල ඉතිහාසයක් නැත',
+
+  // Recording a factory payment
+  'factoryPayments.title': 'කර්මාන්තශාලා ගෙවීමක් සටහන් කරන්න',
+  'factoryPayments.description': 'පැරණිතම බෙදාහැරීම් මුලින්ම පියවයි; බෙදීම පහතින් සකසන්න',
+  'factoryPayments.loadFailed': 'හිඟ බෙදාහැරීම් පූරණය කිරීමට අසමත් විය',
+  'factoryPayments.required': 'කර්මාන්තශාලාවක් තෝරා ලැබුණු මුදල ඇතුළත් කරන්න',
+  'factoryPayments.overAllocated': 'ලැබුණු මුදලට වඩා වැඩියෙන් බෙදාහැරීම්වලට වෙන් කර ඇත',
+  'factoryPayments.recorded': '{amount} ගෙවීම සටහන් කරන ලදී',
+  'factoryPayments.recordFailed': 'ගෙවීම සටහන් කිරීමට අසමත් විය',
+  'factoryPayments.form.factory': 'කර්මාන්තශාලාව *',
+  'factoryPayments.form.dateReceived': 'ලැබුණු දිනය *',
+  'factoryPayments.form.amount': 'මුදල (රු.) *',
+  'factoryPayments.form.referencePlaceholder': 'චෙක්පත / මාරු අංකය',
+  'factoryPayments.unpaidDeliveries': 'නොගෙවූ බෙදාහැරීම්',
+  'factoryPayments.outstandingTotal': '{amount} හිඟ',
+  'factoryPayments.allPaid': 'මෙම කර්මාන්තශාලාවට සියලු බෙදාහැරීම් ගෙවා ඇත',
+  'factoryPayments.allocated': 'බෙදාහැරීම්වලට වෙන් කළ',
+  'factoryPayments.leftOnAccount': 'ගිණුමේ ඉතිරි',
+}
@@ -0,0 +1,32 @@
+import type { leaf as en } from "../en/leaf"
+
+// Plucked against delivered leaf
+export const leaf: Record<keyof typeof en, string> = {
+  'leaf.title': 'නෙළූ සහ බෙදාහැරි',
+  'leaf.description': 'සේවකයා අනුව කිරූ දළු කර්මාන්තශාලාවේ කිරූ දළු සමඟ සැසඳේ.',
+  'leaf.toleranceLink': 'ඉවසීම සංවිධාන සැකසුම්වල සකසා ඇත',
+  'leaf.loadFailed': 'නෙළූ සහ බෙදාහැරි දළු පූරණය කිරීමට අසමත් විය',
+  'leaf.plucked': 'නෙළූ',
+  'leaf.delivered': 'බෙදාහැරි',
+  'leaf.shrinkageOf': 'අඩුවීම ({kg})',
+  'leaf.daysOutside': '±{percent}% න් පිටත දින',
+  'leaf.reconciliation': 'සැසඳීම',
+  'leaf.reconciliationHint': 'සලකුණු කළ පේළි ±{percent}% න් පිටත ඇත; වාර්තා සඳහා පේළියක් ක්ලික් කරන්න',
+  'leaf.noPlucking': 'නෙළීමක් නැත',
+  'leaf.pluckedKg': 'නෙළූ කි.ග්‍රෑ.',
+  'leaf.deliveredKg': 'බෙදාහැරි කි.ග්‍රෑ.',
+  'leaf.difference': 'වෙනස',
+  'leaf.shrinkage': 'අඩුවීම',
+  'leaf.pluckers': 'නෙළන්නන්',
+  'leaf.flaggedDays': 'සලකුණු කළ දින',
+  'leaf.flaggedOf': '{days} න් {flagged}',
+  'leaf.noneThisMonth': 'මෙම මාසයේ නෙළීම් හෝ බෙදාහැරීම් සටහන් කර නැත',
+  'leaf.noneLastYear': 'පසුගිය මාස 12 තුළ නෙළීම් හෝ බෙදාහැරීම් සටහන් කර නැත',
+  'leaf.dayLoadFailed': 'දිනයේ වාර්තා පූරණය කිරීමට අසමත් විය',
+  'leaf.unknownWorker': 'නොදන්නා සේවකයා',
+  'leaf.noneRecorded': 'කිසිවක් සටහන් කර නැත',
+  'leaf.daySummary': '{plucked} නෙළූ, {delivered} බෙදාහැරි',
+  'leaf.dayShrinkage': '{percent}% අඩුවීම',
+  'leaf.pluckedRecords': 'නෙළූ (දෛනික වාර්තා)',
+  'leaf.deliveredSales': 'බෙදාහැරි (තේ විකුණුම්)',
+}
@@ -0,0 +1,38 @@
+import type { navigation as en } from "../en/navigation"
+
+// Sidebar and search
+export const navigation: Record<keyof typeof en, string> = {
+  'nav.overview': 'දළ විශ්ලේෂණය',
+  'nav.dashboard': 'උපකරණ පුවරුව',
+  'nav.plantationManagement': 'වතු කළමනාකරණය',
+  'nav.plantations': 'වතු',
+  'nav.teaSales': 'තේ විකුණුම්',
+  'nav.factoryRates': 'කර්මාන්තශාලා මිල',
+  'nav.factoryComparison': 'කර්මාන්තශාලා සැසඳීම',
+  'nav.employeeManagement': 'සේවක කළමනාකරණය',
+  'nav.workers': 'සේවකයින්',
+  'nav.dailyRecords': 'දෛනික වාර්තා',
+  'nav.attendance': 'පැමිණීම',
+  'nav.salaryManagement': 'වැටුප් කළමනාකරණය',
+  'nav.advances': 'අත්තිකාරම්',
+  'nav.operations': 'මෙහෙයුම්',
+  'nav.scheduler': 'කාලසටහන',
+  'nav.reportsAnalytics': 'වාර්තා සහ විශ්ලේෂණ',
+  'nav.pdfReports': 'PDF වාර්තා',
+  'nav.leafReconciliation': 'නෙලූ හා බාරදුන් දළු',
+  'search.button': 'සොයන්න',
+  'search.placeholder': 'පිටු, සේවකයින්, වතු සොයන්න...',
+  'search.noResults': 'ප්‍රතිඵල හමු නොවීය.',
+  'search.dashboard': 'වතු දත්ත සහිත ප්‍රධාන පුවරුව',
+  'search.plantations': 'වතු ප්‍රදේශ කළමනාකරණය',
+  'search.teaSales': 'කර්මාන්තශාලා භාරදීම් සහ විකුණුම්',
+  'search.factoryRates': 'වත්මන් කර්මාන්තශාලා මිල බලන්න',
+  'search.workers': 'වතු සේවකයින් සහ කාර්ය මණ්ඩලය',
+  'search.dailyRecords': 'දෛනික නෙළීම් දත්ත ඇතුළත් කරන්න',
+  'search.salaryManagement': 'සේවක වැටුප් සහ ප්‍රසාද දීමනා',
+  'search.recentPlucking': 'මෑත නෙළීම්',
+  'search.recentSales': 'මෑත විකුණුම්',
+  'search.worker': 'සේවකයා: {name}',
+  'search.unknown': 'නොදනී',
+  'search.hectares': 'හෙක්ටයාර {value}',
+}
@@ -0,0 +1,88 @@
+import type { organization as en } from "../en/organization"
+
+// Organizations, members and invitations
+export const organization: Record<keyof typeof en, string> = {
+  // Roles
+  'organization.role.owner': 'හිමිකරු',
+  'organization.role.admin': 'පරිපාලක',
+  'organization.role.manager': 'කළමනාකරු',
+  'organization.role.viewer': 'නරඹන්නා',
+  'organization.roleHint.viewer': 'දත්ත බැලීමට පමණි',
+  'organization.roleHint.manager': 'දත්ත බැලීමට සහ සංස්කරණයට හැක',
+  'organization.roleHint.admin': 'සාමාජිකයින් සහ දත්ත කළමනාකරණයට හැක',
+
+  // Settings page
+  'organization.loadingSettings': 'සැකසුම් පූරණය වෙමින්...',
+  'organization.settings': 'සංවිධාන සැකසුම්',
+  'organization.edit': 'සංවිධානය සංස්කරණය',
+  'organization.editDescription': 'ඔබේ සංවිධානයේ නම යාවත්කාලීන කරන්න',
+  'organization.name': 'සංවිධානයේ නම *',
+  'organization.namePlaceholder': 'මගේ සංවිධානය',
+  'organization.ownerOnlyRename': 'නම යාවත්කාලීන කළ හැක්කේ සංවිධාන හිමිකරුවන්ට පමණි',
+  'organization.renamed': 'සංවිධානයේ නම යාවත්කාලීන කරන ලදී',
+  'organization.renameFailed': 'සංවිධානයේ නම යාවත්කාලීන කිරීමට අසමත් විය',
+  'organization.ownerOnlyDelete': 'සංවිධානය මැකිය හැක්කේ සංවිධාන හිමිකරුවන්ට පමණි',
+  'organization.deleted': 'සංවිධානය සාර්ථකව මකා දමන ලදී',
+  'organization.deleteFailed': 'සංවිධානය මැකීමට අසමත් විය',
+  'organization.dangerZone': 'අවදානම් කලාපය',
+  'organization.dangerDescription': 'මෙම සංවිධානය සහ ඊට අදාළ සියලු දත්ත ස්ථිරවම මකන්න',
+  'organization.delete': 'සංවිධානය මකන්න',
+  'organization.confirmDeleteTitle': 'ඔබට සම්පූර්ණයෙන්ම විශ්වාසද?',
+  'organization.confirmDelete': 'මෙම ක්‍රියාව ආපසු හැරවිය නොහැක. මෙය {name} සංවිධානය ස්ථිරවම මකා සියලු සාමාජිකයින්ගේ ප්‍රවේශය ඉවත් කරයි.',
+
+  // Members
+  'organization.members': 'කණ්ඩායම් සාමාජිකයින්',
+  'organization.memberCount': 'සාමාජිකයින් {count}',
+  'organization.memberCountOne': 'සාමාජිකයින් 1',
+  'organization.you': '(ඔබ)',
+  'organization.joined': 'එක් වූ දිනය',
+  'organization.removeMember': 'සාමාජිකයා ඉවත් කරන්න',
+  'organization.confirmRemove': 'මෙම සාමාජිකයා සංවිධානයෙන් ඉවත් කරන්නද?',
+  'organization.cannotRemoveSelf': 'ඔබට ඔබවම ඉවත් කළ නොහැක',
+  'organization.memberRemoved': 'සාමාජිකයා ඉවත් කරන ලදී',
+  'organization.removeFailed': 'සාමාජිකයා ඉවත් කිරීමට අසමත් විය',
+  'organization.roleUpdated': 'භූමිකාව යාවත්කාලීන කරන ලදී',
+  'organization.roleUpdateFailed': 'භූමිකාව යාවත්කාලීන කිරීමට අසමත් විය',
+
+  // Invitations
+  'organization.invite': 'ආරාධනා කරන්න',
+  'organization.inviteTitle': 'සාමාජිකයෙකුට ආරාධනා කරන්න',
+  'organization.inviteDescription': 'ඔබේ සංවිධානයට එක්වීමට ආරාධනාවක් යවන්න',
+  'organization.email': 'ඊමේල්',
+  'organization.emailAddress': 'ඊමේල් ලිපිනය *',
+  'organization.roleRequired': 'භූමිකාව *',
+  'organization.sendInvite': 'ආරාධනාව යවන්න',
+  'organization.ownerOnlyInvite': 'ආරාධනා යැවිය හැක්කේ සංවිධාන හිමිකරුවන්ට පමණි',
+  'organization.alreadyMember': 'මෙම පුද්ගලයා දැනටමත් ඔබේ සංවිධානයේ සාමාජිකයෙකි',
+  'organization.alreadyInvited': 'මෙම ඊමේල් ලිපිනයට දැනටමත් ආරාධනාවක් යවා ඇත',
+  'organization.inviteSent': 'ආරාධනාව යවන ලදී!',
+  'organization.inviteCreated': 'ආරාධනාව සාදන ලදී (ඊමේල් දැනුම්දීම යවා නොතිබිය හැක)',
+  'organization.inviteFailed': 'ආරාධනාව සෑදීමට අසමත් විය',
+  'organization.inviteCancelled': 'ආරාධනාව අවලංගු කරන ලදී',
+  'organization.cancelInviteFailed': 'ආරාධනාව අවලංගු කිරීමට අසමත් විය',
+  'organization.linkCopied': 'ආරාධනා සබැඳිය පිටපත් කරන ලදී',
+  'organization.copyLink': 'ආරාධනා සබැඳිය පිටපත් කරන්න',
+  'organization.cancelInvite': 'ආරාධනාව අවලංගු කරන්න',
+  'organization.sent': 'යැවූ',
+  'organization.expires': 'කල් ඉකුත් වේ',
+  'organization.pendingInvitations': 'පොරොත්තු ආරාධනා',
+  'organization.pendingCount': 'පොරොත්තු ආරාධනා {count}',
+  'organization.pendingCountOne': 'පොරොත්තු ආරාධනා 1',
+
+  // Creating an organization
+  'organization.create': 'සංවිධානයක් සාදන්න',
+  'organization.new': 'නව සංවිධානය',
+  'organization.newDescription': 'ඔබේ කණ්ඩායම කළමනාකරණයට ඔබේම වැඩබිමක් සාදන්න',
+  'organization.nameLabel': 'සංවිධානයේ නම',
+  'organization.newNamePlaceholder': 'ඇක්මි තේ වතු',
+  'organization.nameHint': 'ඔබේ වැඩබිමට නමක් තෝරන්න. පසුව සැකසුම්වලදී එය වෙනස් කළ හැක.',
+  'organization.nameRequired': 'කරුණාකර සංවිධානයේ නමක් ඇතුළත් කරන්න',
+  'organization.created': 'සංවිධානය සාර්ථකව සාදන ලදී!',
+  'organization.createRetry': 'සංවිධානය සෑදීමට අසමත් විය. කරුණාකර නැවත උත්සාහ කරන්න.',
+  'organization.createFailed': 'සංවිධානය සෑදීමට අසමත් විය',
+  'organization.creating': 'සාදමින්...',
+
+  // Organization switcher
+  'organization.getStarted': 'ආරම්භ කරන්න',
+  'organization.organizations': 'සංවිධාන',
+}
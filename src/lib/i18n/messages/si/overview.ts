@@ -0,0 +1,29 @@
+import type { overview as en } from "../en/overview"
+
+// Dashboard overview cards and financial chart
+export const overview: Record<keyof typeof en, string> = {
+  // Summary cards
+  'overview.monthlyRevenue': 'මාසික ආදායම',
+  'overview.fromTeaSales': 'තේ විකුණුම්වලින්',
+  'overview.comparedToLastMonth': 'පසුගිය මාසයට සාපේක්ෂව',
+  'overview.monthlyExpenses': 'මාසික වියදම්',
+  'overview.workerPayments': 'සේවක ගෙවීම්',
+  'overview.salariesAndAdvances': 'වැටුප් සහ අත්තිකාරම්',
+  'overview.monthlyProfit': 'මාසික ලාභය',
+  'overview.revenueLessExpenses': 'ආදායම - වියදම්',
+  'overview.netProfitThisMonth': 'මෙම මාසයේ ශුද්ධ ලාභය',
+  'overview.todaysHarvest': 'අද අස්වැන්න',
+  'overview.leavesPlucked': 'නෙළූ තේ දළු',
+  'overview.comparedToYesterday': 'ඊයේට සාපේක්ෂව',
+
+  // Financial chart
+  'overview.financialOverview': 'මූල්‍ය දළ විශ්ලේෂණය',
+  'overview.revenue': 'ආදායම',
+  'overview.expenses': 'වියදම්',
+  'overview.profit': 'ලාභය',
+  'overview.last3Months': 'පසුගිය මාස 3',
+  'overview.last30Days': 'පසුගිය දින 30',
+  'overview.last7Days': 'පසුගිය දින 7',
+  'overview.selectRange': 'කාල පරාසයක් තෝරන්න',
+  'overview.loadingChart': 'ප්‍රස්තාර දත්ත පූරණය වෙමින්...',
+}
@@ -0,0 +1,59 @@
+import type { plantations as en } from "../en/plantations"
+
+// Plantations
+export const plantations: Record<keyof typeof en, string> = {
+  // Plantation list
+  'plantations.title': 'වතු',
+  'plantations.add': 'වත්තක් එක් කරන්න',
+  'plantations.addShort': 'එක් කරන්න',
+  'plantations.search': 'වතු සොයන්න...',
+  'plantations.loading': 'වතු පූරණය වෙමින්...',
+  'plantations.none': 'වතු හමු නොවීය',
+  'plantations.variety': 'ප්‍රභේදය',
+  'plantations.area': 'වර්ගඵලය',
+  'plantations.plants': 'පැළ',
+  'plantations.established': 'ආරම්භ කළ දිනය',
+  'plantations.hectaresValue': 'හෙක්. {value}',
+  'plantations.hasWorkers': 'සේවකයින් පවරා ඇති නිසා "{name}" මැකිය නොහැක. කරුණාකර පළමුව සේවකයින් වෙනත් තැනකට පවරන්න හෝ ඉවත් කරන්න.',
+  'plantations.confirmDelete': '{name} මැකීමට ඔබට විශ්වාසද?',
+  'plantations.deleteFailed': 'වත්ත මැකීමට නොහැකි විය',
+
+  // Plantation details
+  'plantations.workers': 'සේවකයින්',
+  'plantations.monthly': 'මාසික',
+  'plantations.dailyAvg': 'දෛනික සාමාන්‍යය',
+  'plantations.notSpecified': 'සඳහන් කර නැත',
+
+  // Plantation form
+  'plantations.editTitle': 'වත්ත සංස්කරණය',
+  'plantations.addTitle': 'නව වත්තක් එක් කරන්න',
+  'plantations.editDescription': 'වත්තේ විස්තර යාවත්කාලීන කරන්න',
+  'plantations.addDescription': 'ඔබේ කළමනාකරණ පද්ධතියට නව තේ වත්තක් එක් කරන්න',
+  'plantations.image': 'වත්තේ රූපය',
+  'plantations.imagePreview': 'වත්තේ පෙරදසුන',
+  'plantations.noImage': 'රූපයක් නැත',
+  'plantations.uploading': 'උඩුගත වෙමින්...',
+  'plantations.uploadImage': 'රූපය උඩුගත කරන්න',
+  'plantations.imageLimits': 'උපරිම: 5MB (JPG, PNG, WebP)',
+  'plantations.name': 'වත්තේ නම *',
+  'plantations.location': 'ස්ථානය *',
+  'plantations.areaHectares': 'වර්ගඵලය (හෙක්ටයාර) *',
+  'plantations.teaVariety': 'තේ ප්‍රභේදය *',
+  'plantations.teaVarietyPlaceholder': 'උදා: ලංකා කළු තේ, කොළ තේ',
+  'plantations.numberOfPlants': 'පැළ ගණන',
+  'plantations.establishedDate': 'ආරම්භ කළ දිනය',
+  'plantations.update': 'වත්ත යාවත්කාලීන කරන්න',
+  'plantations.create': 'වත්ත සාදන්න',
+  'plantations.selectImage': 'කරුණාකර රූප ගොනුවක් තෝරන්න',
+  'plantations.imageTooLarge': 'රූපය 5MB ට අඩු විය යුතුය',
+  'plantations.imageUploaded': 'රූපය සාර්ථකව උඩුගත කළා',
+  'plantations.imageFailed': 'රූපය උඩුගත කිරීමට නොහැකි විය',
+  'plantations.updated': 'වත්ත සාර්ථකව යාවත්කාලීන කළා',
+  'plantations.created': 'වත්ත සාර්ථකව සෑදුවා',
+  'plantations.saveFailed': 'වත්ත සුරැකීමට නොහැකි විය',
+  'plantations.error.name': 'නම අවම වශයෙන් අකුරු 2 ක් විය යුතුය',
+  'plantations.error.location': 'ස්ථානය අවම වශයෙන් අකුරු 2 ක් විය යුතුය',
+  'plantations.error.area': 'වර්ගඵලය ධන අගයක් විය යුතුය',
+  'plantations.error.teaVariety': 'තේ ප්‍රභේදය අවශ්‍යයි',
+  'plantations.error.plants': 'පැළ ගණන ධන අගයක් විය යුතුය',
+}
@@ -0,0 +1,222 @@
+import type { plucking as en } from "../en/plucking"
+
+// Daily records, bulk entry, import and offline sync
+export const plucking: Record<keyof typeof en, string> = {
+  // Bulk entry
+  'plucking.bulk.title': 'තොග ඇතුළත් කිරීම',
+  'plucking.bulk.summary': 'දිනය: {date} • සක්‍රිය සේවකයින් {count}',
+  'plucking.bulk.holidayRate': '(දළු නෙලීම ×{rate})',
+  'plucking.bulk.keysHint': 'පේළි අතර යාමට Enter/↑/↓, තීරු අතර යාමට Tab',
+  'plucking.bulk.kg': 'කි.ග්‍රෑ.',
+  'plucking.bulk.rate': 'කි.ග්‍රෑ. අනුපාතය',
+  'plucking.bulk.extraAmount': 'අමතර (රු)',
+  'plucking.bulk.extraWork': 'අමතර වැඩ',
+  'plucking.bulk.wage': 'වැටුප',
+  'plucking.bulk.recorded': 'සටහන් කර ඇත',
+  'plucking.bulk.placeholder.kg': 'කි.ග්‍රෑ.',
+  'plucking.bulk.placeholder.amount': 'රු',
+  'plucking.bulk.placeholder.description': 'උදා., වල් නෙලීම',
+  'plucking.bulk.totals': 'පේළි {rows} • {kg} • {amount}',
+  'plucking.bulk.includeRecorded': 'මෙම දිනයේ දැනටමත් සටහන් කළ සේවකයින් {count} දෙනාද සුරකින්න (දෙවන වාර්තාවක් එක් කරයි)',
+  'plucking.bulk.saveAll': 'සියල්ල සුරකින්න',
+  'plucking.bulk.loadFailed': 'සේවකයින් පූරණය කිරීමට නොහැකි විය',
+  'plucking.bulk.nothingEntered': 'අවම වශයෙන් එක් සේවකයෙකු සඳහා කි.ග්‍රෑ. හෝ අමතර වැඩ ඇතුළත් කරන්න',
+  'plucking.bulk.saved': 'වාර්තා {count}ක් සුරැකිණි',
+  'plucking.bulk.savedWithFailures': '{saved}ක් සුරැකිණි, {failed}ක් අසාර්ථකයි',
+  'plucking.bulk.rowsFailed': 'පේළි {count}ක් සුරැකීමට නොහැකි විය',
+  'plucking.bulk.saveFailed': 'වාර්තා සුරැකීමට නොහැකි විය',
+  'plucking.bulk.extraWorkFailed': 'වාර්තා {count} ක් සුරැකිණි, නමුත් ඒවායේ අමතර වැඩ සුරැකිය නොහැකි විය. දෛනික ලැයිස්තුවෙන් එක් එක් වාර්තාවට එය එක් කරන්න.',
+  'plucking.bulk.alreadyRecorded': 'මෙම දිනයේ දැනටමත් සටහන් කර ඇත',
+
+  // Bulk entry validation
+  'plucking.error.kgPositive': 'නෙලූ කි.ග්‍රෑ. ධන සංඛ්‍යාවක් විය යුතුය',
+  'plucking.error.kgTooHigh': 'නෙලූ කි.ග්‍රෑ. {max} ඉක්මවිය නොහැක',
+  'plucking.error.rateRequired': 'කි.ග්‍රෑ.කට අනුපාතය අවශ්‍යයි',
+  'plucking.error.extraPositive': 'අමතර වැඩ මුදල ධන සංඛ්‍යාවක් විය යුතුය',
+  'plucking.error.describeExtra': 'අමතර වැඩ විස්තර කරන්න',
+  'plucking.error.nothingEntered': 'නෙලූ කි.ග්‍රෑ. හෝ අමතර වැඩ ඇතුළත් කරන්න',
+
+  // Import
+  'plucking.import.title': 'දෛනික වාර්තා ආයාත කරන්න',
+  'plucking.import.stepUpload': 'පියවර 3න් 1 • ශීර්ෂ පේළියක් සහිත CSV හෝ XLSX ගොනුවක් තෝරන්න',
+  'plucking.import.stepMap': 'පියවර 3න් 2 • {file} හි තීරු වාර්තා ක්ෂේත්‍රවලට ගළපන්න',
+  'plucking.import.stepPreview': 'පියවර 3න් 3 • පේළි {total}න් {ready}ක් ආයාත කිරීමට සූදානම්',
+  'plucking.import.chooseFile': 'ගොනුවක් තේරීමට ක්ලික් කරන්න',
+  'plucking.import.columnsHint': 'තීරු: සේවක හැඳුනුම්පත, දිනය, කි.ග්‍රෑ., අනුපාතය, අත්තිකාරම් සලකුණ',
+  'plucking.import.back': 'ආපසු',
+  'plucking.import.preview': 'පෙරදසුන',
+  'plucking.import.importRecords': 'වාර්තා {count}ක් ආයාත කරන්න',
+  'plucking.import.noRows': 'ගොනුවේ දත්ත පේළි නැත',
+  'plucking.import.readFailed': 'ගොනුව කියවිය නොහැකි විය. CSV හෝ XLSX ගොනුවක් භාවිත කරන්න.',
+  'plucking.import.mapColumns': '{fields} තීරුව ගළපන්න',
+  'plucking.import.checkFailed': 'ආයාත පේළි පරීක්ෂා කිරීමට නොහැකි විය',
+  'plucking.import.imported': 'වාර්තා {count}ක් ආයාත කළා',
+  'plucking.import.partial': 'වාර්තා {total}න් {imported}ක් ආයාත කළා: {error}',
+  'plucking.import.failed': 'ආයාත කිරීම අසාර්ථකයි',
+  'plucking.import.notInFile': 'ගොනුවේ නැත',
+  'plucking.import.column': 'තීරුව {number}',
+  'plucking.import.dateFormat': 'දින ආකෘතිය',
+  'plucking.import.field.advanceFlag': 'අත්තිකාරම් සලකුණ',
+  'plucking.import.field.advanceAmount': 'අත්තිකාරම් මුදල',
+  'plucking.import.showAll': 'සියලු පේළි පෙන්වන්න',
+  'plucking.import.showProblems': 'ගැටලු පමණක් පෙන්වන්න',
+  'plucking.import.line': 'පේළිය',
+  'plucking.import.employee': 'සේවකයා',
+  'plucking.import.type': 'වර්ගය',
+  'plucking.import.kg': 'කි.ග්‍රෑ.',
+  'plucking.import.rate': 'අනුපාතය',
+  'plucking.import.plucking': 'දළු නෙලීම',
+  'plucking.import.status.ready': 'සූදානම්',
+  'plucking.import.status.unknown_worker': 'නොදන්නා සේවකයා',
+  'plucking.import.status.duplicate_in_file': 'ගොනුවේ අනුපිටපතක්',
+  'plucking.import.status.already_exists': 'දැනටමත් සටහන් කර ඇත',
+  'plucking.import.status.invalid': 'වලංගු නැත',
+
+  // Import validation
+  'plucking.import.error.badDate': 'හඳුනා නොගත් දිනය "{value}"',
+  'plucking.import.error.noDate': 'දිනය නැත',
+  'plucking.import.error.negative': 'මුදල් ධන සංඛ්‍යා විය යුතුය',
+  'plucking.import.error.noAdvance': 'අත්තිකාරම් මුදල නැත',
+  'plucking.import.error.noKg': 'නෙලූ කි.ග්‍රෑ. නැත',
+  'plucking.import.error.noRate': 'කි.ග්‍රෑ.කට අනුපාතය නැත',
+  'plucking.import.error.unknownWorker': '"{id}" හැඳුනුම්පත සහිත සේවකයෙක් නැත',
+  'plucking.import.error.monthClosed': 'මෙම මාසයේ වැටුප් ලේඛනය වසා ඇත',
+  'plucking.import.error.workerLeft': 'සේවකයා {date} දින ඉවත් විය',
+  'plucking.import.error.exists': 'මෙම සේවකයාට සහ දිනයට දැනටමත් වාර්තාවක් ඇත',
+  'plucking.import.error.duplicate': 'එම සේවකයා සහ දිනය ගොනුවේ කලින් දැක්වේ',
+
+  // Offline sync
+  'plucking.sync.title': 'සමාලෝචනය කළ යුතු නොබැඳි ඇතුළත් කිරීම්',
+  'plucking.sync.description': 'මෙම ඇතුළත් කිරීම් නොබැඳිව සිටියදී මෙම උපාංගයේ සුරැකි අතර සේවාදායකයේ ඇති දේ සමඟ ගැටේ',
+  'plucking.sync.allResolved': 'සියලු නොබැඳි ඇතුළත් කිරීම් විසඳා ඇත',
+  'plucking.sync.savedOffline': 'නොබැඳිව සුරැකි',
+  'plucking.sync.onServer': 'සේවාදායකයේ',
+  'plucking.sync.noRecord': 'වාර්තාවක් නැත',
+  'plucking.sync.advance': 'අත්තිකාරම් {amount}',
+  'plucking.sync.norm': '({kg} ප්‍රමිතිය)',
+  'plucking.sync.mine.edited': 'මගේ එක තබාගන්න',
+  'plucking.sync.server.edited': 'සේවාදායක අනුවාදය තබාගන්න',
+  'plucking.sync.mine.deleted': 'නැවත එක් කරන්න',
+  'plucking.sync.server.deleted': 'මකා දමා තබන්න',
+  'plucking.sync.mine.duplicate': 'මගේ එකද එක් කරන්න',
+  'plucking.sync.mine.rejected': 'නැවත උත්සාහ කරන්න',
+  'plucking.sync.discardMine': 'මගේ එක ඉවත ලන්න',
+  'plucking.sync.reason.edited': 'මෙම වාර්තාව වෙනත් උපාංගයක වෙනස් කර ඇත',
+  'plucking.sync.reason.deleted': 'මෙම වාර්තාව වෙනත් උපාංගයක මකා ඇත',
+  'plucking.sync.reason.duplicate': 'මෙම සේවකයාට සහ දිනයට වාර්තාවක් දැනටමත් ඇත',
+  'plucking.sync.kept': 'නොබැඳි ඇතුළත් කිරීම සුරැකිණි',
+  'plucking.sync.discarded': 'නොබැඳි ඇතුළත් කිරීම ඉවත දැමිණි',
+  'plucking.sync.resolveFailed': 'ගැටුම විසඳීමට නොහැකි විය',
+  'plucking.sync.syncedOne': 'නොබැඳි ඇතුළත් කිරීම් 1ක් සමමුහුර්ත විය',
+  'plucking.sync.synced': 'නොබැඳි ඇතුළත් කිරීම් {count}ක් සමමුහුර්ත විය',
+  'plucking.sync.needsReviewOne': 'නොබැඳි ඇතුළත් කිරීම් 1ක් ඔබේ සමාලෝචනය අවශ්‍යයි',
+  'plucking.sync.needsReview': 'නොබැඳි ඇතුළත් කිරීම් {count}ක් ඔබේ සමාලෝචනය අවශ්‍යයි',
+  'plucking.sync.queued': 'ඔබ නොබැඳිව සිටී. ඇතුළත් කිරීම මෙම උපාංගයේ සුරැකී ඇති අතර සම්බන්ධතාවය යළි පැමිණි විට සමමුහුර්ත වේ',
+
+  // Daily records
+  'plucking.title': 'දෛනික වාර්තා',
+  'plucking.loading': 'වාර්තා පූරණය වෙමින්...',
+  'plucking.offline': 'නොබැඳි',
+  'plucking.pendingSync': 'සමමුහුර්ත වීමට {count}ක්',
+  'plucking.toReview': 'සමාලෝචනයට {count}ක්',
+  'plucking.importFile': 'CSV/XLSX ආයාත කරන්න',
+  'plucking.attendance': 'පැමිණීම',
+  'plucking.addRecord': 'වාර්තාවක් එක් කරන්න',
+  'plucking.editRecord': 'වාර්තාව සංස්කරණය කරන්න',
+  'plucking.search': 'සේවකයින් සොයන්න...',
+  'plucking.totalKg': 'මුළු කි.ග්‍රෑ.',
+  'plucking.paidAdvances': 'ගෙවූ (අත්තිකාරම්)',
+  'plucking.toBePaid': 'ගෙවිය යුතු',
+  'plucking.recordsFor': '{date} වාර්තා',
+  'plucking.recordCountOne': 'වාර්තා 1',
+  'plucking.recordCount': 'වාර්තා {count}',
+  'plucking.matching': ' "{search}" ට ගැළපෙන',
+  'plucking.readOnly': ' • මෙම මාසයේ වැටුප් ලේඛනය වසා ඇත, වාර්තා කියවීමට පමණි',
+  'plucking.noneMatching': '"{search}" ට ගැළපෙන වාර්තා නැත',
+  'plucking.noneForDate': 'මෙම දිනයට වාර්තා නැත',
+  'plucking.tryDifferentSearch': 'වෙනත් සෙවුම් පදයක් උත්සාහ කරන්න',
+  'plucking.addHint': 'සේවකයින් සඳහා දළු නෙලීමේ වාර්තා එක් කරන්න',
+  'plucking.unknownWorker': 'නොදනී',
+  'plucking.extraWork': 'අමතර වැඩ',
+
+  // Record types
+  'plucking.type.plucking': 'දළු නෙලීම',
+  'plucking.type.pluckingWork': 'දළු නෙලීම + වැඩ',
+  'plucking.pendingBadge': 'සමමුහුර්ත වීමට ඇත',
+  'plucking.conflictBadge': 'සමමුහුර්ත ගැටුම',
+  'plucking.reviewConflict': 'සමමුහුර්ත ගැටුම සමාලෝචනය කරන්න',
+  'plucking.waitingToSync': 'මෙම උපාංගයේ සුරැකිණි, සමමුහුර්ත වීමට රැඳී සිටී',
+  'plucking.editTooltip': 'වාර්තාව සංස්කරණය කරන්න',
+  'plucking.deleteTooltip': 'වාර්තාව මකන්න',
+  'plucking.signedByWorker': 'සේවකයා අත්සන් කළා',
+  'plucking.collectSignature': 'සේවකයාගේ අත්සන ලබාගන්න',
+  'plucking.advanceTooltip': 'අත්තිකාරම් ගෙවීම (මාසික වැටුපෙන් අඩු කෙරේ)',
+  'plucking.extraWorkLabel': 'අමතර වැඩ:',
+  'plucking.totalLabel': 'එකතුව: {amount}',
+
+  // Record form
+  'plucking.form.date': 'දිනය: {date}',
+  'plucking.form.worker': 'සේවකයා *',
+  'plucking.form.selectWorker': 'සේවකයා තෝරන්න',
+  'plucking.form.advanceAmount': 'අත්තිකාරම් මුදල (රු) *',
+  'plucking.form.advancePlaceholder': 'උදා., 5000',
+  'plucking.form.advancePayment': 'අත්තිකාරම් ගෙවීම',
+  'plucking.form.deductedMonthly': 'මාසික වැටුපෙන් අඩු කෙරේ',
+  'plucking.form.kgPlucked': 'නෙලූ කි.ග්‍රෑ. *',
+  'plucking.form.kgPlaceholder': 'උදා., 15.5',
+  'plucking.form.rate': 'කි.ග්‍රෑ. අනුපාතය (රු) *',
+  'plucking.form.ratePlaceholder': 'උදා., 150',
+  'plucking.form.addWork': 'වැඩ එක් කරන්න',
+  'plucking.form.workType': 'වර්ගය',
+  'plucking.form.otherWork': 'වෙනත්',
+  'plucking.form.dailySalary': 'දෛනික වැටුප',
+  'plucking.form.extra': ' + අමතර {amount}',
+  'plucking.form.work': 'වැඩ',
+  'plucking.form.notesPlaceholder': 'විකල්ප සටහන්...',
+  'plucking.form.update': 'යාවත්කාලීන කරන්න',
+  'plucking.form.add': 'එක් කරන්න',
+
+  // Saving
+  'plucking.loadWorkersFailed': 'සේවකයින් පූරණය කිරීමට නොහැකි විය',
+  'plucking.loadFailed': 'වාර්තා පූරණය කිරීමට නොහැකි විය',
+  'plucking.deleteNeedsConnection': 'වාර්තා මැකීමට සම්බන්ධතාවයක් අවශ්‍යයි',
+  'plucking.confirmDelete': '{name} ගේ වාර්තාව මකන්නද?',
+  'plucking.deleted': 'වාර්තාව සාර්ථකව මැකුවා',
+  'plucking.deleteFailed': 'වාර්තාව මැකීමට නොහැකි විය',
+  'plucking.saveAnyway': 'කෙසේ වෙතත් සුරකින්නද?',
+  'plucking.limitCheckFailed': 'අත්තිකාරම් සීමාව පරීක්ෂා කළ නොහැකි විය',
+  'plucking.advanceAddedKeeping': 'පවතින දළු නෙලීමේ වාර්තාව තබාගෙන අත්තිකාරම් වාර්තාව එක් කළා',
+  'plucking.pluckingAddedKeeping': 'පවතින අත්තිකාරම් වාර්තාව තබාගෙන දළු නෙලීමේ වාර්තාව එක් කළා',
+  'plucking.updated': 'වාර්තාව සාර්ථකව යාවත්කාලීන කළා',
+  'plucking.bothAdded': 'දළු නෙලීමේ සහ අත්තිකාරම් වාර්තා සාර්ථකව එක් කළා',
+  'plucking.advanceAdded': 'අත්තිකාරම් වාර්තාව සාර්ථකව එක් කළා',
+  'plucking.pluckingAdded': 'දළු නෙලීමේ වාර්තාව සාර්ථකව එක් කළා',
+  'plucking.saveFailed': 'වාර්තාව සුරැකීමට නොහැකි විය',
+
+  // Advance signature and payment details
+  'plucking.receiptTitle': 'අත්තිකාරම් රිසිට්පත • {name}',
+  'plucking.receiptDescription': '{amount} අත්තිකාරම. මුදල් ලැබුණු බව තහවුරු කිරීමට සේවකයා අත්සන් කරයි.',
+  'plucking.details.title': 'ගෙවීම් විස්තර',
+  'plucking.details.amount': 'මුදල:',
+  'plucking.details.advanceNote': 'මෙම අත්තිකාරම සේවකයාගේ මාසික වැටුපෙන් අඩු කෙරේ',
+  'plucking.details.kgPlucked': 'නෙලූ කි.ග්‍රෑ.:',
+  'plucking.details.rate': 'කි.ග්‍රෑ.කට අනුපාතය:',
+  'plucking.details.pluckingAmount': 'දළු නෙලීමේ මුදල:',
+  'plucking.details.totalAmount': 'මුළු මුදල:',
+
+  // Printed daily report
+  'plucking.report.title': 'දෛනික වාර්තා - {date}',
+  'plucking.report.heading': 'දෛනික වාර්තා සාරාංශය',
+  'plucking.report.totalWage': 'මුළු වැටුප',
+  'plucking.report.totalKg': 'නෙලූ මුළු කි.ග්‍රෑ.:',
+  'plucking.report.paid': 'ගෙවූ (අත්තිකාරම්):',
+  'plucking.report.toBePaid': 'ගෙවිය යුතු (වැඩ):',
+
+  // Wage under the plucking norm
+  'plucking.norm.simple': '{kg} × {rate} = {wage}',
+  'plucking.norm.reached': '{norm} ප්‍රමිතිය සපුරා ඇත: {wage}',
+  'plucking.norm.below': '{kg} × {rate} ({norm} ප්‍රමිතියට අඩු) = {wage}',
+  'plucking.norm.overKilo': 'අතිරික්ත කිලෝ {kg}: {amount}',
+  'plucking.norm.topUp': 'අවම වැටුප් අතිරේකය: {amount}',
+  'plucking.norm.holiday': 'නිවාඩු දින අනුපාතය: {amount}',
+}
@@ -0,0 +1,77 @@
+import type { reports as en } from "../en/reports"
+
+// Printed reports
+export const reports: Record<keyof typeof en, string> = {
+  'reports.dailyRecords': 'දෛනික වාර්තා වාර්තාව',
+  'reports.dailyRecordsDescription': 'සේවක විස්තර සහ වැටුප් සහිත දෛනික නෙළීම් වාර්තා',
+  'reports.salary': 'වැටුප් වාර්තාව',
+  'reports.salaryDescription': 'සියලු සේවකයින්ගේ මාසික වැටුප් සාරාංශය',
+  'reports.extraWork': 'අමතර වැඩ වාර්තාව',
+  'reports.extraWorkDescription': 'වැඩ වර්ගය අනුව අමතර වැඩ ගෙවීම්',
+  'reports.contributions': 'EPF/ETF දායක වාර්තාව',
+  'reports.contributionsDescription': 'ප්‍රේෂණය සඳහා මාසික EPF සහ ETF දායක සාරාංශය',
+  'reports.workers': 'සේවක වාර්තාව',
+  'reports.workersDescription': 'විස්තර සහිත සම්පූර්ණ සේවක ලැයිස්තුව',
+  'reports.teaSales': 'තේ විකුණුම් වාර්තාව',
+  'reports.teaSalesDescription': 'තේ විකුණුම් සහ ආදායම් සාරාංශය',
+  'reports.financial': 'මූල්‍ය සාරාංශය',
+  'reports.financialDescription': 'ආදායම, වියදම් සහ ලාභය',
+  'reports.selectType': 'වාර්තා වර්ගය තෝරන්න',
+  'reports.selectTypeDescription': 'ඔබට සැකසීමට අවශ්‍ය වාර්තා වර්ගය තෝරන්න',
+  'reports.dateRange': 'දින පරාසය',
+  'reports.dateRangeDescription': 'වාර්තාවේ කාල සීමාව තෝරන්න',
+  'reports.thisMonth': 'මෙම මාසය',
+  'reports.lastMonth': 'පසුගිය මාසය',
+  'reports.last3Months': 'පසුගිය මාස 3',
+  'reports.from': 'සිට',
+  'reports.to': 'දක්වා',
+  'reports.generating': 'සකසමින්...',
+  'reports.generate': 'වාර්තාව සකසන්න',
+  'reports.selectTypeError': 'කරුණාකර වාර්තා වර්ගයක් තෝරන්න',
+  'reports.allowPopups': 'වාර්තා සැකසීමට pop-up සඳහා ඉඩ දෙන්න',
+  'reports.generated': 'වාර්තාව සාර්ථකව සැකසිණි',
+  'reports.failed': 'වාර්තාව සැකසීම අසාර්ථකයි',
+  'reports.type': 'වර්ගය',
+  'reports.plucking': 'නෙළීම',
+  'reports.pluckingAndWork': 'නෙළීම + වැඩ',
+  'reports.totalWage': 'මුළු වැටුප',
+  'reports.quantityKg': 'ප්‍රමාණය (කි.ග්‍රෑ.)',
+  'reports.totalIncome': 'මුළු ආදායම',
+  'reports.factory': 'කර්මාන්ත ශාලාව',
+  'reports.grossIncome': 'දළ ආදායම',
+  'reports.deductions': 'අඩු කිරීම්',
+  'reports.netIncome': 'ශුද්ධ ආදායම',
+  'reports.totalRevenue': 'මුළු ආදායම',
+  'reports.totalExpenses': 'මුළු වියදම',
+  'reports.netProfit': 'ශුද්ධ ලාභය',
+  'reports.byWorkType': 'වැඩ වර්ගය අනුව',
+  'reports.byWorker': 'සේවකයා අනුව',
+  'reports.share': 'කොටස',
+  'reports.workType': 'වැඩ වර්ගය',
+  'reports.entries': 'ඇතුළත් කිරීම්',
+  'reports.amount': 'මුදල',
+  'reports.contributoryWages': 'දායක වැටුප්',
+  'reports.contributoryWage': 'දායක වැටුප',
+  'reports.epfEmployee': 'සේවක EPF {rate}%',
+  'reports.epfEmployer': 'සේවා යෝජක EPF {rate}%',
+  'reports.totalEpf': 'මුළු EPF',
+  'reports.etf': 'ETF {rate}%',
+  'reports.epfRemittance': 'EPF ප්‍රේෂණය',
+  'reports.etfRemittance': 'ETF ප්‍රේෂණය',
+  'reports.closedPayroll': 'වසා දැමූ වැටුප් ලේඛනය',
+  'reports.notClosed': 'වසා නැත, වත්මන් වාර්තා අනුව ගණනය කර ඇත',
+  'reports.totalMembers': 'එකතුව (සාමාජිකයින් {count})',
+  'reports.noContributions': 'මෙම කාලයේ දායක වැටුප් නැත.',
+  'reports.transport': 'ප්‍රවාහන වාර්තාව',
+  'reports.transportDescription': 'දළු ප්‍රවාහන ගමන් සහ කර්මාන්ත ශාලාව අනුව කිලෝවකට ප්‍රවාහන වියදම',
+  'reports.byFactory': 'කර්මාන්ත ශාලාව අනුව',
+  'reports.trips': 'ගමන්',
+  'reports.transportCosts': 'ප්‍රවාහන වියදම්',
+  'reports.costPerKg': 'වියදම/කි.ග්‍රෑ.',
+  'reports.vehicle': 'වාහනය',
+  'reports.driver': 'රියදුරු',
+  'reports.tripCost': 'ගමන් වියදම',
+  'reports.noTrips': 'මෙම කාලයේ දළු ප්‍රවාහන ගමන් නැත.',
+  'reports.expenseBreakdown': 'වියදම් විස්තරය',
+  'reports.wages': 'වැටුප්',
+}
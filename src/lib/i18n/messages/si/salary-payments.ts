@@ -0,0 +1,109 @@
+import type { salaryPayments as en } from "../en/salary-payments"
+
+// Salary payments, bank files, cash pay day and closing the month
+export const salaryPayments: Record<keyof typeof en, string> = {
+  // Recording payments
+  'payments.title': 'වැටුප් ගෙවීම් • {name}',
+  'payments.summary': '{month} • ශුද්ධ {net} • ගෙවූ {paid} •',
+  'payments.balance': 'ශේෂය',
+  'payments.none': 'මෙම මාසයේ ගෙවීම් කර නැත',
+  'payments.fullSalary': 'සම්පූර්ණ වැටුප',
+  'payments.ref': 'යොමුව {reference}',
+  'payments.sign': 'අත්සන් කරන්න',
+  'payments.signatureAlt': 'සේවකයාගේ අත්සන',
+  'payments.record': 'ගෙවීම සටහන් කරන්න',
+  'payments.enterAmount': 'ගෙවූ මුදල ඇතුළත් කරන්න',
+  'payments.overBalance': '{amount} යනු {balance} ශේෂයට වඩා වැඩිය. එසේ වුවද සටහන් කරන්නද?',
+  'payments.recorded': 'ගෙවීම සටහන් කළා',
+  'payments.recordFailed': 'ගෙවීම සටහන් කිරීමට නොහැකි විය',
+  'payments.confirmDelete': '{date} දින {label} ගෙවීම මකන්නද?',
+  'payments.deleted': 'ගෙවීම මැකුවා',
+  'payments.deleteFailed': 'ගෙවීම මැකීමට නොහැකි විය',
+  'payments.receiptTitle': 'වැටුප් ලදුපත • {name}',
+  'payments.receiptDescription': '{month} වැටුප. මුදල් ලැබුණු බව තහවුරු කිරීමට සේවකයා අත්සන් කරයි.',
+
+  // Paying several salaries at once
+  'payments.bulkTitle': 'තෝරාගත් ඒවා ගෙවූ බව සලකුණු කරන්න • {month}',
+  'payments.bulkDescription': 'එක් එක් සේවකයාගේ ඉතිරි ශේෂය ගෙවූ බව සටහන් කරයි. මුදලින් ගෙවන සේවකයින්ට පසුව තම ගෙවීම් වලින් අත්සන් කළ හැක.',
+  'payments.allPaid': 'තෝරාගත් වැටුප් දැනටමත් ගෙවා ඇත',
+  'payments.alreadyPaid': '{amount} දැනටමත් ගෙවා ඇත',
+  'payments.nothingLeft': 'තෝරාගත් වැටුප් {count} ක ගෙවීමට කිසිවක් ඉතිරි නැත.',
+  'payments.salaryCount': 'වැටුප් {count} •',
+  'payments.markedPaid': 'වැටුප් {count} ක් ගෙවූ බව සලකුණු කළා',
+  'payments.recordManyFailed': 'ගෙවීම් සටහන් කිරීමට නොහැකි විය',
+
+  // Bank payment file
+  'bank.title': 'බැංකු ගෙවීම් ගොනුව • {month}',
+  'bank.description': 'බැංකු හුවමාරුවෙන් ගෙවන සේවකයින්ගේ නොගෙවූ ශේෂ. සෑම පේළියක්ම බැංකු ගෙවීමක් ලෙස සටහන් කර, පසුව ගොනුව බාගත වේ.',
+  'bank.fileColumns': 'ගොනු තීරු',
+  'bank.fileColumnsHint': 'ඔබේ බැංකුවේ උඩුගත කිරීමේ ආකෘතියට ගැළපෙන සේ සංවිධාන සැකසුම්වල සකසන්න',
+  'bank.column.account_name': 'ගිණුම් නාමය',
+  'bank.column.account_number': 'ගිණුම් අංකය',
+  'bank.column.bank_code': 'බැංකු කේතය',
+  'bank.column.branch_code': 'ශාඛා කේතය',
+  'bank.column.amount': 'මුදල',
+  'bank.column.reference': 'යොමුව',
+  'bank.column.employee_id': 'සේවක අංකය',
+  'bank.column.value_date': 'වටිනාකම් දිනය',
+  'bank.valueDate': 'වටිනාකම් දිනය',
+  'bank.noWorkers': 'මෙම මාසයේ වැටුපක් ඇති කිසිදු සේවකයෙකු බැංකු හුවමාරුවෙන් ගෙවන්නේ නැත',
+  'bank.generate': 'සකසා ගෙවූ බව සලකුණු කරන්න',
+  'bank.confirm': 'මුළු {total} ක් වන වැටුප් {count} සඳහා බැංකු ගොනුවක් සකසන්නද? ඒවා ගෙවූ බව සලකුණු වේ.',
+  'bank.markedPaid': 'වැටුප් {count} ක් බැංකුවෙන් ගෙවූ බව සලකුණු කළා',
+  'bank.failed': 'බැංකු ගොනුව සකස් කිරීමට නොහැකි විය',
+  'bank.loadFailed': 'බැංකු විස්තර පූරණය කිරීමට නොහැකි විය',
+  'bank.alreadyPaid': 'දැනටමත් ගෙවා ඇත',
+  'bank.nothingToPay': 'ගෙවීමට කිසිවක් නැත',
+  'bank.problem.bankCode': 'බැංකු කේතය ඉලක්කම් 4 ක් විය යුතුය',
+  'bank.problem.branchCode': 'ශාඛා කේතය ඉලක්කම් 3 ක් විය යුතුය',
+  'bank.problem.accountNumber': 'ගිණුම් අංකයේ ඉලක්කම් පමණක් තිබිය යුතුය',
+  'bank.problem.accountName': 'ගිණුම් නාමය නැත',
+
+  // Cash pay day
+  'cash.title': 'මුදල් වැටුප් දිනය • {month}',
+  'cash.description': 'සෑම ලියුම් කවරයක්ම නිවැරදිව සකස් කිරීමට ආපසු ගත යුතු නෝට්ටු සහ කාසි. මුදලින් ගෙවන සේවකයින්ගේ නොගෙවූ ශේෂ ආසන්න රුපියලට වටකර ඇතුළත් වේ.',
+  'cash.none': 'මෙම මාසයේ නොගෙවූ මුදල් වැටුප් නැත',
+  'cash.short': '{amount} අඩුයි',
+  'cash.inexact': 'කුඩා මුදල් ඒකක නොමැතිව ලියුම් කවර {count} ක් නිවැරදිව සකස් කළ නොහැක.',
+  'cash.workerCount': 'සේවකයින් {count} •',
+  'cash.print': 'වැටුප් දින පත්‍රය මුද්‍රණය',
+  'cash.printFailed': 'වැටුප් දින පත්‍රය මුද්‍රණය කිරීමට නොහැකි විය',
+
+  // Closing and reopening the month
+  'run.closed': 'වසා ඇත',
+  'run.open': 'විවෘතයි',
+  'run.closedBy': '{when} දින {member} විසින් • සේවකයින් {count} • {total}',
+  'run.fromCurrentRecords': 'වැටුප් ගණනය කරන්නේ වත්මන් වාර්තා වලිනි',
+  'run.aMember': 'සාමාජිකයෙක්',
+  'run.history': 'ඉතිහාසය ({count})',
+  'run.reopen': 'නැවත විවෘත කරන්න',
+  'run.closeMonth': 'මාසය වසන්න',
+  'run.historyClosed': '{when} දින {member} විසින් වසා ඇත • {total}',
+  'run.historyReopened': '{when} දින {member} විසින් නැවත විවෘත කළා: {reason}',
+  'run.reopenTitle': '{month} නැවත විවෘත කරන්න',
+  'run.reopenDescription': 'මෙම මාසයේ වාර්තා නැවත සංස්කරණය කළ හැකි වේ. වසා දැමූ පිටපත ඉතිහාසයේ තබා ගනී.',
+  'run.reasonPlaceholder': 'උදා: 14 වැනිදා නෙළීම් වාර්තා වැරදි සේවකයෙකුට ඇතුළත් කර ඇත',
+  'run.reopenMonth': 'මාසය නැවත විවෘත කරන්න',
+  'run.reasonRequired': 'කරුණාකර නැවත විවෘත කිරීමට හේතුවක් දෙන්න',
+  'run.reopened': 'මාසය නැවත විවෘත කළා',
+  'run.reopenFailed': 'මාසය නැවත විවෘත කිරීමට නොහැකි විය',
+  'run.confirmClose': '{month} වැටුප් ලේඛනය වසන්නද? පහත වැටුප් අවසාන වැටුප් ලේඛනය ලෙස සුරකින අතර, {month} හි නෙළීම්, ප්‍රසාද දීමනා සහ අත්තිකාරම් වාර්තා තවදුරටත් වෙනස් කළ නොහැක.',
+  'run.monthClosed': '{month} වසා දැමුවා',
+  'run.closeFailed': 'මාසය වැසීමට නොහැකි විය',
+
+  // Salary page messages
+  'salary.loadFailed': 'වැටුප් දත්ත පූරණය කිරීමට නොහැකි විය',
+  'salary.bonusUpdated': 'ප්‍රසාද දීමනාව යාවත්කාලීන කළා',
+  'salary.bonusFailed': 'ප්‍රසාද දීමනාව සුරැකීමට නොහැකි විය',
+
+  // Closed months
+  'run.monthLocked': '{month} සඳහා වැටුප් ලේඛනය වසා ඇත. එය වෙනස් කිරීමට මාසය නැවත විවෘත කරන ලෙස හිමිකරුගෙන් ඉල්ලන්න.',
+
+  // Bank account fields
+  'bank.field.bank': 'බැංකුව',
+  'bank.field.selectBank': 'බැංකුව තෝරන්න',
+  'bank.field.branchCode': 'ශාඛා කේතය',
+  'bank.field.branchCodePlaceholder': 'උදා., 001',
+  'bank.field.accountNumber': 'ගිණුම් අංකය',
+  'bank.field.accountName': 'ගිණුම් නාමය',
+}
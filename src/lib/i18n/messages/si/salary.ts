@@ -0,0 +1,108 @@
+import type { salary as en } from "../en/salary"
+
+// Salary, payslips and the pay day sheet
+export const salary: Record<keyof typeof en, string> = {
+  // Salary management
+  'salary.title': 'වැටුප් කළමනාකරණය',
+  'salary.searchWorkers': 'සේවකයින් සොයන්න...',
+  'salary.avgPerDay': 'දිනක සාමාන්‍යය',
+  'salary.employerContributions': 'සේවා යෝජක EPF/ETF',
+  'salary.epfRate': 'EPF {rate}%',
+  'salary.employerEpfRate': 'සේවා යෝජක EPF {rate}%',
+  'salary.etfRate': 'ETF {rate}%',
+  'salary.plucking': 'නෙළීම',
+  'salary.overKilo': 'අතිරේක කිලෝ ඇතුළුව',
+  'salary.wageTopUp': 'අවම වැටුප් පිරවීම ඇතුළුව',
+  'salary.holidayPay': 'නිවාඩු දින අනුපාතය ඇතුළුව',
+  'salary.contributoryWage': 'දායක වැටුප: {amount}',
+  'salary.employeeEpf': 'සේවක EPF {rate}%: {amount}',
+  'salary.employerEpf': 'සේවා යෝජක EPF {rate}%: {amount}',
+  'salary.etf': 'ETF {rate}%: {amount}',
+  'salary.givenThisMonth': 'මෙම මාසයේ දුන්: {amount}',
+  'salary.recovered': 'අයකර ගත්: {amount}',
+  'salary.carriedToNextMonth': 'ඊළඟ මාසයට ඉදිරියට: {amount}',
+  'salary.earned': 'උපයීම: {amount}',
+  'salary.plusBonus': '+ ප්‍රසාද දීමනාව: {amount}',
+  'salary.plusAllowance': '+ පැමිණීමේ දීමනාව: {amount}',
+  'salary.attendanceAllowance': 'පැමිණීමේ දීමනාව',
+  'salary.minusAdvances': '- අත්තිකාරම්: {amount}',
+  'salary.minusEpf': '- EPF: {amount}',
+  'salary.net': 'ශුද්ධ: {amount}',
+  'salary.paid': 'ගෙවා ඇත',
+  'salary.markPaid': 'ගෙවූ බව සලකුණු කරන්න',
+  'salary.printPayslip': 'වැටුප් පත්‍රිකාව මුද්‍රණය',
+  'salary.collectSignature': 'සේවකයාගේ අත්සන ලබා ගන්න',
+  'salary.signed': 'සේවකයා අත්සන් කර ඇත',
+  'salary.paidToDate': 'මෙතෙක් ගෙවූ',
+  'salary.balance': 'ශේෂය',
+  'salary.partPaid': 'කොටසක් ගෙවා ඇත',
+  'salary.markSelectedPaid': '{count} ක් ගෙවූ බව සලකුණු කරන්න',
+  'salary.selectAll': 'සියල්ල තෝරන්න',
+  'salary.selectWorker': 'සේවකයා තෝරන්න',
+  'salary.generateAllPayslips': 'සියලු වැටුප් පත්‍රිකා සකසන්න',
+  'salary.downloadPayslipsPdf': 'වැටුප් පත්‍රිකා PDF ලෙස බාගන්න',
+  'salary.bankPaymentFile': 'බැංකු ගෙවීම් ගොනුව',
+  'salary.cashPlanner': 'මුදල් ගෙවීම් සැලසුම',
+  'salary.loading': 'වැටුප් දත්ත පූරණය වෙමින්...',
+  'salary.totalWorkers': 'මුළු සේවකයින්',
+  'salary.totalBonus': 'මුළු ප්‍රසාද දීමනා',
+  'salary.totalPaid': 'මුළු ගෙවීම',
+  'salary.totalEpf': 'මුළු EPF (සේවක + සේවා යෝජක)',
+  'salary.totalEtf': 'මුළු ETF',
+  'salary.summary': 'සාරාංශය',
+  'salary.workerSalaries': 'සේවක වැටුප්',
+  'salary.workerCount': 'සේවකයින් {count}',
+  'salary.workerCountOne': 'සේවකයින් 1',
+  'salary.matching': '"{term}" ට ගැළපෙන',
+  'salary.hoverToEdit': 'සංස්කරණයට ප්‍රසාද දීමනාව මත රඳවන්න',
+  'salary.noMatches': '"{term}" ට ගැළපෙන සේවකයින් නැත',
+  'salary.noData': 'මෙම මාසයට වැටුප් දත්ත නැත',
+  'salary.tryDifferentSearch': 'වෙනත් සෙවුම් පදයක් උත්සාහ කරන්න',
+  'salary.addRecordsHint': 'වැටුප් ගණනය බැලීමට දෛනික වාර්තා එක් කරන්න',
+  'salary.reportTitle': 'වැටුප් වාර්තාව',
+  'salary.reportSubtitle': '{month} • සේවකයින් {count}',
+
+  // Payslips
+  'payslip.title': '{month} වැටුප් පත්‍රිකාව',
+  'payslip.documentTitle': 'වැටුප් පත්‍රිකා - {month}',
+  'payslip.noRecords': 'මෙම මාසයේ නෙළීම් වාර්තා නැත.',
+  'payslip.pluckingWage': 'නෙළීම් වැටුප',
+  'payslip.dayTotal': 'දින එකතුව',
+  'payslip.earnings': 'උපයීම්',
+  'payslip.pluckingWageKg': 'නෙළීම් වැටුප (කි.ග්‍රෑ. {kg})',
+  'payslip.grossPay': 'දළ වැටුප',
+  'payslip.deductions': 'අඩු කිරීම්',
+  'payslip.advanceRecovery': 'අත්තිකාරම් අයකිරීම',
+  'payslip.epfEmployee': 'සේවක EPF {rate}%',
+  'payslip.totalDeductions': 'මුළු අඩු කිරීම්',
+  'payslip.advancesGiven': 'මෙම මාසයේ දුන් අත්තිකාරම්: {list}',
+  'payslip.advanceCarried': 'ඊළඟ මාසයට ඉදිරියට යන අත්තිකාරම් ශේෂය: {amount}',
+  'payslip.employerContributions': 'සේවා යෝජක දායකත්වය: EPF {epfRate}% {epf}, ETF {etfRate}% {etf}',
+  'payslip.netPay': 'ශුද්ධ වැටුප',
+  'payslip.paidBy': 'ගෙවූයේ',
+  'payslip.receivedBy': 'ලැබුණේ',
+  'payslip.paidOn': 'ගෙවූ දිනය',
+  'payslip.paymentMethod': 'ක්‍රමය',
+  'payslip.reference': 'යොමුව',
+  'payslip.amount': 'මුදල',
+  'payslip.signature': 'අත්සන',
+  'payslip.balanceDue': 'ගෙවිය යුතු ශේෂය',
+  'payslip.method.cash': 'මුදල්',
+  'payslip.method.bank': 'බැංකු හුවමාරුව',
+  'payslip.allowPopups': 'වැටුප් පත්‍රිකා මුද්‍රණයට pop-up සඳහා ඉඩ දෙන්න',
+  'payslip.failed': 'වැටුප් පත්‍රිකා සැකසීම අසාර්ථකයි',
+
+  // Pay day sheet
+  'payday.documentTitle': 'ගෙවීම් දින පත්‍රිකාව - {month}',
+  'payday.subtitle': 'ගෙවීම් දින පත්‍රිකාව • {month} • මුදලින් ගෙවන සේවකයින් {count}',
+  'payday.amount': 'මුදල',
+  'payday.notesAndCoins': 'නෝට්ටු සහ කාසි',
+  'payday.signature': 'අත්සන',
+  'payday.cashRequired': 'අවශ්‍ය මුදල්',
+  'payday.denomination': 'වටිනාකම',
+  'payday.count': 'ගණන',
+  'payday.value': 'එකතුව',
+  'payday.roundingNote': 'මුදල් ආසන්නතම රුපියලට වටයා ඇත.',
+  'payday.preparedBy': 'සකස් කළේ',
+  'payday.checkedBy': 'පරීක්ෂා කළේ',
+}
@@ -0,0 +1,63 @@
+import type { scheduler as en } from "../en/scheduler"
+
+// Scheduler and holiday calendar
+export const scheduler: Record<keyof typeof en, string> = {
+  // Events
+  'scheduler.title': 'කාලසටහන',
+  'scheduler.loading': 'කාලසටහන පූරණය වෙමින්...',
+  'scheduler.holidays': 'නිවාඩු දින',
+  'scheduler.addEvent': 'සිදුවීමක් එක් කරන්න',
+  'scheduler.editEvent': 'සිදුවීම සංස්කරණය',
+  'scheduler.add': 'එක් කරන්න',
+  'scheduler.allEvents': 'සියලු සිදුවීම්',
+  'scheduler.eventCount': 'සිදුවීම් {count}',
+  'scheduler.eventCountOne': 'සිදුවීම් 1',
+  'scheduler.showAll': 'සියල්ල පෙන්වන්න',
+  'scheduler.noEvents': 'සිදුවීම් නැත',
+  'scheduler.more': 'තවත් {count}',
+  'scheduler.eventTitle': 'මාතෘකාව *',
+  'scheduler.eventTitlePlaceholder': 'සිදුවීමේ මාතෘකාව',
+  'scheduler.date': 'දිනය *',
+  'scheduler.time': 'වේලාව',
+  'scheduler.type': 'වර්ගය',
+  'scheduler.description': 'විස්තරය',
+  'scheduler.descriptionPlaceholder': 'අමතර විස්තරයක් (අත්‍යවශ්‍ය නොවේ)',
+  'scheduler.update': 'යාවත්කාලීන කරන්න',
+  'scheduler.create': 'සාදන්න',
+  'scheduler.type.task': 'කාර්යය',
+  'scheduler.type.reminder': 'සිහිකැඳවීම',
+  'scheduler.type.meeting': 'රැස්වීම',
+  'scheduler.type.harvest': 'අස්වැන්න',
+  'scheduler.type.maintenance': 'නඩත්තුව',
+  'scheduler.loadFailed': 'සිදුවීම් පූරණය කිරීමට නොහැකි විය',
+  'scheduler.required': 'කරුණාකර අවශ්‍ය ක්ෂේත්‍ර පුරවන්න',
+  'scheduler.updated': 'සිදුවීම යාවත්කාලීන කළා',
+  'scheduler.created': 'සිදුවීම සෑදුවා',
+  'scheduler.saveFailed': 'සිදුවීම සුරැකීමට නොහැකි විය',
+  'scheduler.confirmDelete': '"{name}" මකන්නද?',
+  'scheduler.deleted': 'සිදුවීම මැකුවා',
+  'scheduler.deleteFailed': 'සිදුවීම මැකීමට නොහැකි විය',
+  'scheduler.statusFailed': 'තත්ත්වය යාවත්කාලීන කිරීමට නොහැකි විය',
+
+  // Holiday calendar
+  'holidays.type.poya': 'පෝය දිනය',
+  'holidays.type.public': 'රජයේ නිවාඩු දිනය',
+  'holidays.type.mercantile': 'වෙළඳ නිවාඩු දිනය',
+  'holidays.type.estate': 'වතු නිවාඩු දිනය',
+  'holidays.title': 'නිවාඩු දින {year}',
+  'holidays.description': 'මෙම දිනවල නෙළීම සංවිධාන සැකසුම් වල ඇති නිවාඩු අනුපාතයට ගෙවනු ලැබේ. පෝය සහ ආගමික නිවාඩු දින සෑම වසරකම වෙනස් වන නිසා, පූරණය කළ දින රජයේ ගැසට් පත්‍රය සමඟ සසඳන්න.',
+  'holidays.name': 'නම',
+  'holidays.none': '{year} සඳහා නිවාඩු දින නැත',
+  'holidays.loadSriLankan': 'ශ්‍රී ලංකා නිවාඩු දින පූරණය කරන්න',
+  'holidays.addMissing': '{year} සඳහා නැති ශ්‍රී ලංකා නිවාඩු දින එක් කරන්න',
+  'holidays.loadFailed': 'නිවාඩු දින පූරණය කිරීමට නොහැකි විය',
+  'holidays.added': '{year} සඳහා නිවාඩු දින {count} ක් එක් කළා',
+  'holidays.alreadyLoaded': '{year} නිවාඩු දින දැනටමත් දින දර්ශනයේ ඇත',
+  'holidays.required': 'දිනයක් සහ නමක් ඇතුළත් කරන්න',
+  'holidays.updated': 'නිවාඩු දිනය යාවත්කාලීන කළා',
+  'holidays.addedOne': 'නිවාඩු දිනය එක් කළා',
+  'holidays.duplicate': 'එම නිවාඩු දිනය දැනටමත් මෙම දිනයේ ඇත',
+  'holidays.saveFailed': 'නිවාඩු දිනය සුරැකීමට නොහැකි විය',
+  'holidays.deleted': 'නිවාඩු දිනය මැකුවා',
+  'holidays.deleteFailed': 'නිවාඩු දිනය මැකීමට නොහැකි විය',
+}
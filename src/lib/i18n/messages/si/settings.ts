@@ -0,0 +1,113 @@
+import type { settings as en } from "../en/settings"
+
+// Organization settings and payroll policies
+export const settings: Record<keyof typeof en, string> = {
+  // Shared
+  'settings.savePolicy': 'ප්‍රතිපත්තිය සුරකින්න',
+
+  // Advance limits
+  'settings.advances.title': 'අත්තිකාරම් සීමා',
+  'settings.advances.description': 'භූමිකාවකට උපරිම හිඟ අත්තිකාරම. තනි සේවකයෙකුට සකසන සීමාව ඔහුගේ භූමිකා සීමාව අභිබවයි.',
+  'settings.advances.saved': 'අත්තිකාරම් ප්‍රතිපත්තිය සුරකින ලදී',
+  'settings.advances.saveFailed': 'අත්තිකාරම් ප්‍රතිපත්තිය සුරැකීමට අසමත් විය',
+  'settings.advances.whenExceeded': 'සීමාවක් ඉක්මවූ විට',
+  'settings.advances.warn': 'අනතුරු අඟවා ඉඩ දෙන්න',
+  'settings.advances.block': 'අත්තිකාරම අවහිර කරන්න',
+  'settings.advances.roleLimit': '{role} (රු)',
+  'settings.advances.noLimit': 'සීමාවක් නැත',
+
+  // Attendance and leave
+  'settings.attendance.title': 'පැමිණීම සහ නිවාඩු',
+  'settings.attendance.description': 'වාර්ෂික නිවාඩු හිමිකම් සහ මාසයේ ප්‍රමාණවත් දින පැමිණෙන සේවකයින්ගේ වැටුපට එකතු කරන දීමනාවක්.',
+  'settings.attendance.musterRollLink': 'පැමිණීම් ලේඛනය විවෘත කරන්න',
+  'settings.attendance.invalid': 'හිමිකම් සහ දීමනාව ශුන්‍ය හෝ ඊට වැඩි විය යුතුය',
+  'settings.attendance.saved': 'පැමිණීම් ප්‍රතිපත්තිය සුරකින ලදී',
+  'settings.attendance.saveFailed': 'පැමිණීම් ප්‍රතිපත්තිය සුරැකීමට අසමත් විය',
+  'settings.attendance.leaveDays': '{type} නිවාඩු (දින/වසර)',
+  'settings.attendance.allowance': 'පැමිණීමේ දීමනාව (රු., 0 = අක්‍රිය)',
+  'settings.attendance.minDays': 'අවම පැමිණි දින',
+
+  // Bank payments
+  'settings.bank.title': 'බැංකු ගෙවීම්',
+  'settings.bank.description': 'බැංකු හුවමාරුවෙන් ගෙවන සේවකයින්ගේ වැටුප් වැටුප් පිටුවෙන් මෙම තීරු සහිතව, මෙම අනුපිළිවෙලින් CSV ගොනුවක් ලෙස නිර්යාත කෙරේ. ඔබේ බැංකුව ලබා දුන් තොග වැටුප් උඩුගත කිරීමේ ආකෘතියට ගැළපෙන සේ ඒවා සකසා, සම්පූර්ණ වැටුප් ලේඛනයක් උඩුගත කිරීමට පෙර පළමු ගොනුව බැංකුව සමඟ පරීක්ෂා කරන්න.',
+  'settings.bank.saved': 'බැංකු ගෙවීම් සැකසුම් සුරකින ලදී',
+  'settings.bank.saveFailed': 'බැංකු ගෙවීම් සැකසුම් සුරැකීමට අසමත් විය',
+  'settings.bank.header': 'පළමු පේළියේ තීරු නාම ලැයිස්තුගත වේ',
+  'settings.bank.addColumn': 'තීරුවක් එක් කරන්න',
+  'settings.bank.removeColumn': 'තීරුව ඉවත් කරන්න',
+
+  // Leaf shrinkage tolerance
+  'settings.leaf.title': 'දළු හැකිළීමේ ඉවසීම',
+  'settings.leaf.description': 'බෙදාහරින ලද දළු නෙළූ දළුවලින් මීට වඩා වෙනස් වන දින සලකුණු කෙරේ.',
+  'settings.leaf.reportLink': 'නෙළූ සහ බෙදාහැරි දළු වාර්තාව විවෘත කරන්න',
+  'settings.leaf.invalid': 'ඉවසීම 0 සහ 100 අතර ප්‍රතිශතයක් විය යුතුය',
+  'settings.leaf.saved': 'දළු ඉවසීම සුරකින ලදී',
+  'settings.leaf.saveFailed': 'දළු ඉවසීම සුරැකීමට අසමත් විය',
+  'settings.leaf.tolerance': 'ඉවසීම (නෙළූ කි.ග්‍රෑ. වලින් %)',
+
+  // Holiday pay rates
+  'settings.holidays.title': 'නිවාඩු දින ගෙවීම් අනුපාත',
+  'settings.holidays.description': 'නිවාඩු දිනයක ඇතුළත් කරන නෙළීමේ වැටුප් එහි වර්ගයේ අනුපාතයෙන් ගුණ කෙරේ; 1 සාමාන්‍ය දිනයක් ගෙවයි. මින් ඉදිරියට සුරකින වාර්තාවලට අදාළ වේ.',
+  'settings.holidays.schedulerLink': 'නිවාඩු දින කාලසටහනේ තබා ඇත',
+  'settings.holidays.invalid': 'නිවාඩු අනුපාත 1 හෝ ඊට වැඩි විය යුතුය',
+  'settings.holidays.saved': 'නිවාඩු අනුපාත සුරකින ලදී',
+  'settings.holidays.saveFailed': 'නිවාඩු අනුපාත සුරැකීමට අසමත් විය',
+  'settings.holidays.rate': '{type} (×)',
+
+  // EPF and ETF
+  'settings.statutory.title': 'EPF / ETF',
+  'settings.statutory.description': 'වැටුප් ගණනයේදී යොදන ව්‍යවස්ථාපිත දායකත්ව. සේවක EPF ශුද්ධ වැටුපෙන් අඩු කෙරේ; සේවා යෝජක EPF සහ ETF අමතරව ගෙවනු ලැබේ.',
+  'settings.statutory.invalid': 'අනුපාත 0 සහ 100 අතර විය යුතුය',
+  'settings.statutory.saved': 'EPF/ETF නීති සුරකින ලදී',
+  'settings.statutory.saveFailed': 'EPF/ETF නීති සුරැකීමට අසමත් විය',
+  'settings.statutory.epfEmployee': 'EPF සේවක (%)',
+  'settings.statutory.epfEmployer': 'EPF සේවා යෝජක (%)',
+  'settings.statutory.etf': 'ETF (%)',
+  'settings.statutory.enabled': 'වැටුප්වලට EPF/ETF යොදන්න',
+  'settings.statutory.includeExtraWork': 'දායක වැටුපට අමතර වැඩ ඇතුළත් කරන්න',
+  'settings.statutory.includeBonus': 'දායක වැටුපට ප්‍රසාද දීමනා ඇතුළත් කරන්න',
+  'settings.statutory.save': 'නීති සුරකින්න',
+
+  // Plucking wage norms
+  'settings.norms.title': 'නෙළීමේ වැටුප් සම්මත',
+  'settings.norms.description': 'සම්මතයට ළඟා වන නෙළන්නන්ට දෛනික වැටුප සහ ඊට ඉහළින් එක් එක් කි.ග්‍රෑ. සඳහා අමතර කිලෝ අනුපාතය ලැබේ. අඩු දිනවලට කි.ග්‍රෑ. × අනුපාතය ගෙවා අවම වැටුප දක්වා පුරවනු ලැබේ. මින් ඉදිරියට සුරකින වාර්තාවලට අදාළ වේ.',
+  'settings.norms.invalid': 'සෑම සම්මතයකටම නමක්, කි.ග්‍රෑ. 0 ට වැඩි සම්මතයක් සහ 0 හෝ ඊට වැඩි මුදල් අවශ්‍යයි',
+  'settings.norms.saved': 'වැටුප් සම්මත සුරකින ලදී',
+  'settings.norms.saveFailed': 'වැටුප් සම්මත සුරැකීමට අසමත් විය',
+  'settings.norms.normKg': 'සම්මතය (කි.ග්‍රෑ.)',
+  'settings.norms.dailyWage': 'දෛනික වැටුප (රු)',
+  'settings.norms.overKiloRate': 'අමතර කිලෝ අනුපාතය (රු/කි.ග්‍රෑ.)',
+  'settings.norms.minimumWage': 'අවම වැටුප (රු)',
+  'settings.norms.allYear': 'මුළු වසරම',
+  'settings.norms.namePlaceholder': 'උදා., අධික වාරය',
+  'settings.norms.plantation': 'වතුයාය',
+  'settings.norms.allPlantations': 'සියලු වතුයායන්',
+  'settings.norms.seasonFrom': 'වාරය ආරම්භය',
+  'settings.norms.seasonTo': 'දක්වා',
+  'settings.norms.enabled': 'දෛනික සම්මතයකට එරෙහිව නෙළීම ගෙවන්න',
+  'settings.norms.overrides': 'වතුයාය සහ වාර සම්මත',
+  'settings.norms.overridesHint': 'ගැළපෙන තැන්වල ඉහත සම්මතය වෙනුවට භාවිත වේ; වතුයායක තමන්ගේම සම්මතය වාර සම්මතයට වඩා ප්‍රමුඛ වේ',
+  'settings.norms.add': 'එකතු කරන්න',
+  'settings.norms.save': 'සම්මත සුරකින්න',
+
+  // Extra work types
+  'settings.extraWork.title': 'අමතර වැඩ වර්ග',
+  'settings.extraWork.description': 'දෛනික වාර්තා සහ වැටුප් විස්තරවල භාවිත වන, පෙරනිමි අනුපාත සහිත නම් කළ අමතර වැඩ',
+  'settings.extraWork.loadFailed': 'අමතර වැඩ වර්ග පූරණය කිරීමට අසමත් විය',
+  'settings.extraWork.nameRequired': 'නම අවශ්‍යයි',
+  'settings.extraWork.updated': 'වැඩ වර්ගය යාවත්කාලීන කරන ලදී',
+  'settings.extraWork.added': 'වැඩ වර්ගය එකතු කරන ලදී',
+  'settings.extraWork.duplicate': 'මෙම නමින් වැඩ වර්ගයක් දැනටමත් පවතී',
+  'settings.extraWork.saveFailed': 'වැඩ වර්ගය සුරැකීමට අසමත් විය',
+  'settings.extraWork.editTitle': 'වැඩ වර්ගය සංස්කරණය',
+  'settings.extraWork.addTitle': 'වැඩ වර්ගයක් එකතු කරන්න',
+  'settings.extraWork.name': 'නම *',
+  'settings.extraWork.namePlaceholder': 'උදා., වල් නෙළීම',
+  'settings.extraWork.defaultRate': 'පෙරනිමි අනුපාතය (රු)',
+  'settings.extraWork.update': 'යාවත්කාලීන කරන්න',
+  'settings.extraWork.add': 'එකතු කරන්න',
+  'settings.extraWork.confirmDelete': '"{name}" වැඩ වර්ගය මකන්නද? පවතින වාර්තා ඒවායේ විස්තරය රඳවා ගනී.',
+  'settings.extraWork.deleted': 'වැඩ වර්ගය මකා දමන ලදී',
+  'settings.extraWork.addType': 'වර්ගයක් එකතු කරන්න',
+  'settings.extraWork.none': 'තවම අමතර වැඩ වර්ග නැත',
+}
@@ -0,0 +1,120 @@
+import type { teaSales as en } from "../en/tea-sales"
+
+// Tea sales, collection trips and receivables
+export const teaSales: Record<keyof typeof en, string> = {
+  // Sales
+  'teaSales.title': 'තේ විකුණුම්',
+  'teaSales.loading': 'තේ විකුණුම් පූරණය වෙමින්...',
+  'teaSales.loadFailed': 'තේ විකුණුම් පූරණය කිරීමට නොහැකි විය',
+  'teaSales.confirmDelete': '{date} දින {factory} වෙත කළ විකිණීම මකන්නද?',
+  'teaSales.deleted': 'විකිණීම සාර්ථකව මැකුවා',
+  'teaSales.deleteFailed': 'විකිණීම මැකීමට නොහැකි විය',
+  'teaSales.selectFactoryError': 'තේ විකුණූ කර්මාන්තශාලාව තෝරන්න',
+  'teaSales.updated': 'විකිණීම සාර්ථකව යාවත්කාලීන කළා',
+  'teaSales.recorded': 'විකිණීම සාර්ථකව සටහන් කළා',
+  'teaSales.saveFailed': 'විකිණීම සුරැකීමට නොහැකි විය',
+  'teaSales.factory': 'කර්මාන්තශාලාව',
+  'teaSales.factories': 'කර්මාන්තශාලා',
+  'teaSales.kgDelivered': 'භාර දුන් කි.ග්‍රෑ.',
+  'teaSales.ratePerKg': 'කි.ග්‍රෑ. අනුපාතය',
+  'teaSales.avgRate': 'සාමාන්‍ය කි.ග්‍රෑ. අනුපාතය',
+  'teaSales.totalKg': 'මුළු කි.ග්‍රෑ.',
+  'teaSales.gross': 'දළ',
+  'teaSales.deductions': 'අඩු කිරීම්',
+  'teaSales.netIncome': 'ශුද්ධ ආදායම',
+  'teaSales.payment': 'ගෙවීම',
+  'teaSales.due': '{amount} ලැබිය යුතුය',
+  'teaSales.perKg': 'කි.ග්‍රෑ.කට {amount}',
+  'teaSales.allTime': 'සියලු කාලය',
+  'teaSales.daily': 'දෛනික',
+  'teaSales.monthly': 'මාසික',
+  'teaSales.search': 'විකුණුම් සොයන්න...',
+  'teaSales.showing': 'පෙන්වන්නේ:',
+  'teaSales.exportCsv': 'CSV ලෙස නිර්යාත කරන්න',
+  'teaSales.exportJson': 'JSON ලෙස නිර්යාත කරන්න',
+  'teaSales.printReport': 'වාර්තාව මුද්‍රණය කරන්න',
+  'teaSales.recordPayment': 'ගෙවීමක් සටහන් කරන්න',
+  'teaSales.recordSale': 'විකිණීමක් සටහන් කරන්න',
+  'teaSales.editSale': 'විකිණීම සංස්කරණය',
+  'teaSales.grossLessDeductions': 'දළ {gross} - අඩු කිරීම් {deductions}',
+  'teaSales.factoryBreakdown': 'කර්මාන්තශාලා අනුව',
+  'teaSales.breakdownDescription': '{date} සඳහා කර්මාන්තශාලා අනුව විකුණුම්',
+  'teaSales.dayTotal': 'දින එකතුව',
+  'teaSales.records': 'විකුණුම් වාර්තා',
+  'teaSales.saleCount': 'විකුණුම් {count} ක් හමු විය',
+  'teaSales.saleCountOne': 'විකිණීම් 1 ක් හමු විය',
+  'teaSales.noneForPeriod': 'මෙම කාලය සඳහා විකුණුම් හමු නොවීය',
+  'teaSales.noData': 'නිර්යාත කිරීමට දත්ත නැත',
+  'teaSales.noDataToPrint': 'මුද්‍රණය කිරීමට දත්ත නැත',
+  'teaSales.allowPopups': 'මුද්‍රණය සඳහා pop-up වලට ඉඩ දෙන්න',
+  'teaSales.update': 'යාවත්කාලීන කරන්න',
+  'teaSales.form.date': 'දිනය *',
+  'teaSales.form.factory': 'කර්මාන්තශාලාව *',
+  'teaSales.form.selectFactory': 'කර්මාන්තශාලාව තෝරන්න',
+  'teaSales.form.addFactoryFirst': 'පළමුව කර්මාන්තශාලාවක් එක් කරන්න',
+  'teaSales.form.kgDelivered': 'භාර දුන් කි.ග්‍රෑ. *',
+  'teaSales.form.rate': 'කි.ග්‍රෑ. අනුපාතය (රු.) *',
+  'teaSales.form.notesPlaceholder': 'අමතර සටහන් (අත්‍යවශ්‍ය නොවේ)',
+  'teaSales.rateMismatch': '{date} දින {factory} කි.ග්‍රෑ.කට {rate} ගෙවීය',
+  'teaSales.useRate': '{rate} භාවිත කරන්න',
+
+  // Printed sales report
+  'teaSales.report.period': 'කාලය',
+  'teaSales.report.generated': 'සකස් කළේ',
+  'teaSales.report.footer': 'තේ වතු උපකරණ පුවරුව - විකුණුම් වාර්තාව',
+
+  // Factory payment status
+  'factoryPayments.status.unpaid': 'නොගෙවූ',
+  'factoryPayments.status.partial': 'අර්ධ වශයෙන් ගෙවූ',
+  'factoryPayments.status.paid': 'ගෙවූ',
+
+  // Deductions
+  'deductions.add': 'එක් කරන්න',
+  'deductions.none': 'මෙම විකිණීමට අඩු කිරීම් නැත',
+  'deductions.namePlaceholder': 'උදා: ප්‍රවාහනය',
+  'deductions.method.fixed': 'ස්ථාවර මුදල',
+  'deductions.method.per_kg': 'භාර දුන් කි.ග්‍රෑ.කට',
+  'deductions.method.percent': 'දළ මුදලේ ප්‍රතිශතය',
+  'deductions.method.kg': 'කපා හරින ලද බර',
+
+  // Receivables
+  'receivables.title': 'ලැබිය යුතු මුදල් කාලය අනුව',
+  'receivables.summary': 'කර්මාන්තශාලා {count} කින් නොගෙවූ {amount}',
+  'receivables.summaryOne': 'කර්මාන්තශාලා 1 කින් නොගෙවූ {amount}',
+  'receivables.bucket.30': 'දින 0-30',
+  'receivables.bucket.60': 'දින 31-60',
+  'receivables.bucket.over60': 'දින 60+',
+
+  // Collection trips
+  'trips.title': 'දළු එකතු කිරීමේ ගමන්',
+  'trips.summary': 'ගමන් {count}, වියදම {amount} · {period}',
+  'trips.summaryOne': 'ගමන් 1, වියදම {amount} · {period}',
+  'trips.none': 'මෙම කාලය සඳහා ගමන් සටහන් කර නැත',
+  'trips.carriedTo': '{factories} වෙත {kg}',
+  'trips.noDeliveriesLinked': 'සම්බන්ධ කළ භාරදීම් නැත',
+  'trips.loadFailed': 'ගමන් පූරණය කිරීමට නොහැකි විය',
+  'trips.confirmDelete': '{date} දින {vehicle} ගමන මකන්නද? එහි භාරදීම් රැඳේ.',
+  'trips.deleted': 'ගමන මැකුවා',
+  'trips.deleteFailed': 'ගමන මැකීමට නොහැකි විය',
+  'trips.record': 'ගමනක් සටහන් කරන්න',
+  'trips.edit': 'ගමන සංස්කරණය',
+  'trips.update': 'ගමන යාවත්කාලීන කරන්න',
+  'trips.description': 'මෙම ලොරිය රැගෙන ගිය භාරදීම් සලකුණු කරන්න',
+  'trips.departureTime': 'පිටත්වීමේ වේලාව',
+  'trips.vehicle': 'වාහන අංකය *',
+  'trips.vehiclePlaceholder': 'උදා: LB-4521',
+  'trips.driver': 'රියදුරු',
+  'trips.cost': 'ගමන් වියදම (රු.) *',
+  'trips.costPlaceholder': 'ඉන්ධන, කුලිය සහ රියදුරු',
+  'trips.deliveriesOn': '{date} දින භාරදීම්',
+  'trips.noDeliveries': 'මෙම දිනයට ගමනකට එක් නොකළ භාරදීම් නැත',
+  'trips.kgCarried': '{kg} රැගෙන ගියා',
+  'trips.vehicleRequired': 'වාහන අංකය ඇතුළත් කරන්න',
+  'trips.updated': 'ගමන යාවත්කාලීන කළා',
+  'trips.recorded': 'ගමන සටහන් කළා',
+  'trips.saveFailed': 'ගමන සුරැකීමට නොහැකි විය',
+  'trips.trips': 'ගමන්',
+  'trips.kgCarriedColumn': 'රැගෙන ගිය කි.ග්‍රෑ.',
+  'trips.transportCost': 'ප්‍රවාහන වියදම',
+  'trips.costPerKg': 'කි.ග්‍රෑ.කට වියදම',
+}
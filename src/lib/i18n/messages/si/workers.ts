@@ -0,0 +1,147 @@
+import type { workers as en } from "../en/workers"
+
+// Workers, termination and final settlement
+export const workers: Record<keyof typeof en, string> = {
+  // Workers
+  'workers.title': 'සේවකයින්',
+  'workers.loading': 'සේවකයින් පූරණය වෙමින්...',
+  'workers.todaysAttendance': 'අද පැමිණීම',
+  'workers.add': 'සේවකයෙකු එක් කරන්න',
+  'workers.edit': 'සේවකයා සංස්කරණය',
+  'workers.search': 'සේවකයින් සොයන්න...',
+  'workers.noneMatching': '"{search}" ට ගැළපෙන සේවකයින් නැත',
+  'workers.none': 'සේවකයින් හමු නොවීය',
+  'workers.tryDifferentSearch': 'වෙනත් සෙවුම් පදයක් උත්සාහ කරන්න',
+  'workers.addHint': 'ඔබේ කණ්ඩායමට සේවකයින් එක් කරන්න',
+  'workers.employeeId': 'සේවක අංකය *',
+  'workers.employeeIdPlaceholder': 'උදා: EMP001',
+  'workers.firstName': 'මුල් නම *',
+  'workers.lastName': 'වාසගම',
+  'workers.salaryPaidBy': 'වැටුප ගෙවන ක්‍රමය',
+  'workers.update': 'යාවත්කාලීන කරන්න',
+  'workers.addButton': 'එක් කරන්න',
+  'workers.hired': 'බඳවාගත්',
+  'workers.hiredOn': '{date} දින බඳවා ගන්නා ලදී',
+  'workers.service.years': 'අ{years} මා{months}',
+  'workers.service.months': 'මා{months}',
+  'workers.service.days': 'දි{days}',
+  'workers.service.today': 'අද',
+  'workers.terminated': 'සේවය අවසන්',
+  'workers.terminatedOn': 'සේවය අවසන් {date}',
+  'workers.terminate': 'සේවකයාගේ සේවය අවසන් කරන්න',
+  'workers.printSettlement': 'අවසන් පියවීම මුද්‍රණය කරන්න',
+  'workers.editTooltip': 'සේවකයා සංස්කරණය',
+  'workers.deleteTooltip': 'සේවකයා මකන්න',
+  'workers.confirmDelete': '{name} මකන්නද?',
+  'workers.loadFailed': 'සේවකයින් පූරණය කිරීමට නොහැකි විය',
+  'workers.deleted': 'සේවකයා සාර්ථකව මැකුවා',
+  'workers.deleteFailed': 'සේවකයා මැකීමට නොහැකි විය',
+  'workers.updated': 'සේවකයා සාර්ථකව යාවත්කාලීන කළා',
+  'workers.added': 'සේවකයා සාර්ථකව එක් කළා',
+  'workers.created': 'සේවකයා සාර්ථකව සෑදුවා',
+  'workers.saveFailed': 'සේවකයා සුරැකීමට නොහැකි විය',
+  'workers.noSettlement': 'මෙම සේවකයා සඳහා පියවීමක් සටහන් කර නැත',
+  'workers.printSettlementFailed': 'පියවීම මුද්‍රණය කිරීමට නොහැකි විය',
+  'workers.status.active': 'සක්‍රිය',
+  'workers.status.inactive': 'අක්‍රිය',
+  'workers.status.terminated': 'සේවය අවසන්',
+
+  // Worker form
+  'workers.form.newTitle': 'නව සේවකයෙකු එක් කරන්න',
+  'workers.form.editDescription': 'සේවක විස්තර යාවත්කාලීන කරන්න',
+  'workers.form.newDescription': 'ඔබේ වත්තේ සේවක බලකායට නව සේවකයෙකු එක් කරන්න',
+  'workers.form.role': 'භූමිකාව *',
+  'workers.form.selectRole': 'භූමිකාව තෝරන්න',
+  'workers.form.lastName': 'වාසගම *',
+  'workers.form.plantation': 'වත්ත',
+  'workers.form.selectPlantation': 'වත්ත තෝරන්න',
+  'workers.form.unassigned': 'පවරා නැත',
+  'workers.form.salary': 'මාසික වැටුප (රු.)',
+  'workers.form.selectStatus': 'තත්ත්වය තෝරන්න',
+  'workers.form.update': 'සේවකයා යාවත්කාලීන කරන්න',
+  'workers.form.create': 'සේවකයා සාදන්න',
+  'workers.error.employeeId': 'සේවක අංකය අවම වශයෙන් අකුරු 3ක් විය යුතුය',
+  'workers.error.firstName': 'මුල් නම අවම වශයෙන් අකුරු 2ක් විය යුතුය',
+  'workers.error.lastName': 'වාසගම අවම වශයෙන් අකුරු 2ක් විය යුතුය',
+  'workers.error.salary': 'වැටුප ධන අගයක් විය යුතුය',
+
+  // Worker details
+  'workers.details.overview': 'දළ විශ්ලේෂණය',
+  'workers.details.performance': 'කාර්ය සාධනය',
+  'workers.details.harvestHistory': 'අස්වනු ඉතිහාසය',
+  'workers.details.details': 'විස්තර',
+  'workers.details.totalHarvests': 'මුළු අස්වනු',
+  'workers.details.thisMonth': 'මෙම මාසය',
+  'workers.details.avgDailyOutput': 'සාමාන්‍ය දෛනික නිමැවුම',
+  'workers.details.monthlySalary': 'මාසික වැටුප',
+  'workers.details.notAvailable': 'නැත',
+  'workers.details.personalInfo': 'පුද්ගලික තොරතුරු',
+  'workers.details.notProvided': 'ලබා දී නැත',
+  'workers.details.assignedPlantation': 'පවරා ඇති වත්ත',
+  'workers.details.notSpecified': 'සඳහන් කර නැත',
+  'workers.details.yearsOfService': 'සේවා කාලය වසර {years}',
+  'workers.details.performanceMetrics': 'කාර්ය සාධන මිනුම්',
+  'workers.details.harvestTarget': 'මාසික අස්වනු ඉලක්කය',
+  'workers.details.targetBasis': 'භූමිකාව සහ පළපුරුද්ද මත',
+  'workers.details.managementRole': 'කළමනාකරණ භූමිකාව',
+  'workers.details.achievement': 'මාසික සාධනය',
+  'workers.details.achievementBasis': 'වත්මන් මාසයේ ප්‍රගතිය',
+  'workers.details.ofTarget': 'ඉලක්කයෙන් {percent}%',
+  'workers.details.qualityGrade': 'සාමාන්‍ය ගුණාත්මක ශ්‍රේණිය',
+  'workers.details.qualityBasis': 'මෑත අස්වනු මත',
+  'workers.details.grade': 'ශ්‍රේණිය {grade}',
+  'workers.details.improving': 'දියුණු වෙමින්',
+  'workers.details.recentHarvests': 'මෑත අස්වනු වාර්තා',
+  'workers.details.unknownPlantation': 'නොදන්නා වත්ත',
+  'workers.details.weather': 'කාලගුණය: {weather}',
+  'workers.details.noHarvests': 'අස්වනු වාර්තා හමු නොවීය',
+  'workers.details.systemDetails': 'පද්ධති විස්තර',
+  'workers.details.workerId': 'සේවක හැඳුනුම්පත',
+  'workers.details.plantationId': 'වත්තේ හැඳුනුම්පත',
+  'workers.details.notAssigned': 'පවරා නැත',
+  'workers.details.created': 'සෑදූ දිනය',
+  'workers.details.lastUpdated': 'අවසන් යාවත්කාලීනය',
+
+  // Termination
+  'termination.title': '{name} ගේ සේවය අවසන් කරන්න',
+  'termination.description': 'අවසන් පියවීමෙන් මෙම මාසයේ නොගෙවූ වැටුප් සහ පාරිතෝෂිකය ගෙවනු ලැබේ, තවමත් හිඟ අත්තිකාරම් අඩු කර. සේවකයාගේ වාර්තා ඉතිහාසයේ රැඳේ.',
+  'termination.lastWorkingDay': 'අවසන් වැඩ කළ දිනය *',
+  'termination.reason': 'හේතුව *',
+  'termination.reasonPlaceholder': 'ඉල්ලා අස්වීම, විශ්‍රාම යාම, සේවයෙන් පහ කිරීම...',
+  'termination.submit': 'සේවය අවසන් කර මුද්‍රණය කරන්න',
+  'termination.calculateFailed': 'පියවීම ගණනය කිරීමට නොහැකි විය',
+  'termination.reasonRequired': 'සේවය අවසන් කිරීමට හේතුව ඇතුළත් කරන්න',
+  'termination.confirm': '{date} සිට {name} ගේ සේවය අවසන් කරන්නද?',
+  'termination.terminated': '{name} ගේ සේවය අවසන් කළා',
+  'termination.failed': 'සේවකයාගේ සේවය අවසන් කිරීමට නොහැකි විය',
+  'termination.wagesAlreadyPaid': 'මෙම මාසයේ වැටුප දැනටමත් ගෙවා ඇත',
+  'termination.wagesNote': 'දින {days}, EPF {epf} අඩු කර',
+  'termination.wagesNotePaid': 'දින {days}, EPF {epf} සහ දැනටමත් ගෙවූ {paid} අඩු කර',
+  'termination.service': 'සේවා කාලය වසර {years}',
+  'termination.serviceDue': 'සේවා කාලය වසර {years}; වසර {required} කට පසු හිමි වේ',
+  'termination.wagesDue': 'ගෙවිය යුතු වැටුප්',
+  'termination.outstandingAdvances': 'හිඟ අත්තිකාරම්',
+  'termination.gratuity': 'පාරිතෝෂිකය',
+  'termination.netPayable': 'ශුද්ධ ගෙවිය යුතු',
+  'termination.owedByWorker': 'සේවකයා ගෙවිය යුතු',
+
+  // Printed final settlement
+  'settlement.title': 'අවසන් පියවීම',
+  'settlement.documentTitle': 'අවසන් පියවීම - {name}',
+  'settlement.lastWorkingDay': 'අවසන් වැඩ කළ දිනය',
+  'settlement.service': 'සේවා කාලය',
+  'settlement.completedYears': 'සම්පූර්ණ කළ වසර {years}',
+  'settlement.notEligible': 'හිමි නැත: සම්පූර්ණ කළ සේවා වසර {years} (වසර {required} ක් අවශ්‍යයි)',
+  'settlement.gratuityMonthly': 'වසර {years} × {salary} මාසික වැටුපෙන් අඩක්',
+  'settlement.gratuityDaily': 'වසර {years} × දින 14 × සාමාන්‍ය දෛනික වැටුප {wage}',
+  'settlement.wagesAlreadyPaid': '{month} වැටුප සමඟ දැනටමත් ගෙවා ඇත',
+  'settlement.daysWorked': '{month} දී වැඩ කළ දින {days}',
+  'settlement.wagesFor': '{month} වැටුප්',
+  'settlement.lessEpf': 'අඩු කළ EPF (සේවක)',
+  'settlement.lessPaid': '{month} දී ගෙවූ මුදල අඩු කර',
+  'settlement.lessAdvances': 'හිඟ අත්තිකාරම් අඩු කර',
+  'settlement.netPayable': 'සේවකයාට ගෙවිය යුතු ශුද්ධ මුදල',
+  'settlement.owedByWorker': 'සේවකයා ගෙවිය යුතු ශේෂය',
+  'settlement.receivedBy': 'සම්පූර්ණ පියවීම ලෙස ලැබුණේ',
+  'settlement.allowPopups': 'පියවීම මුද්‍රණය කිරීමට pop-up වලට ඉඩ දෙන්න',
+}
@@ -0,0 +1,41 @@
+import type { Messages } from "./en"
+import { account } from "./ta/account"
+import { advances } from "./ta/advances"
+import { attendance } from "./ta/attendance"
+import { common } from "./ta/common"
+import { factories } from "./ta/factories"
+import { leaf } from "./ta/leaf"
+import { navigation } from "./ta/navigation"
+import { organization } from "./ta/organization"
+import { overview } from "./ta/overview"
+import { plantations } from "./ta/plantations"
+import { plucking } from "./ta/plucking"
+import { reports } from "./ta/reports"
+import { salary } from "./ta/salary"
+import { salaryPayments } from "./ta/salary-payments"
+import { scheduler } from "./ta/scheduler"
+import { settings } from "./ta/settings"
+import { teaSales } from "./ta/tea-sales"
+import { workers } from "./ta/workers"
+
+// Tamil catalogue
+export const ta: Messages = {
+  ...common,
+  ...navigation,
+  ...salary,
+  ...reports,
+  ...salaryPayments,
+  ...advances,
+  ...attendance,
+  ...plantations,
+  ...scheduler,
+  ...workers,
+  ...teaSales,
+  ...plucking,
+  ...factories,
+  ...leaf,
+  ...overview,
+  ...settings,
+  ...organization,
+  ...account,
+}
@@ -0,0 +1,59 @@
+import type { account as en } from "../en/account"
+
+// Account page, user menu and layout preferences
+export const account: Record<keyof typeof en, string> = {
+  // User menu
+  'account.menu': 'கணக்கு',
+  'account.logOut': 'வெளியேறு',
+  'account.logoutFailed': 'வெளியேற முடியவில்லை',
+  'account.loggedOut': 'வெற்றிகரமாக வெளியேறினீர்கள்',
+  'account.user': 'பயனர்',
+
+  // Account page
+  'account.loading': 'கணக்கு ஏற்றப்படுகிறது...',
+  'account.signInRequired': 'கணக்கு அமைப்புகளைப் பார்க்க உள்நுழையவும்',
+  'account.title': 'கணக்கு அமைப்புகள்',
+  'account.description': 'உங்கள் சுயவிவரம் மற்றும் கணக்கு விருப்பங்களை நிர்வகிக்கவும்',
+  'account.photo': 'சுயவிவரப் படம்',
+  'account.photoHint': 'புதிய படத்தைப் பதிவேற்ற அவதாரத்தைக் கிளிக் செய்யவும்',
+  'account.uploading': 'பதிவேற்றப்படுகிறது...',
+  'account.changePhoto': 'படத்தை மாற்று',
+  'account.photoFormats': 'JPG, PNG அல்லது WebP. அதிகபட்சம் 2MB.',
+  'account.notImage': 'ஒரு படக் கோப்பைத் தேர்ந்தெடுக்கவும்',
+  'account.imageTooLarge': 'படம் 2MB க்குக் குறைவாக இருக்க வேண்டும்',
+  'account.photoUpdated': 'சுயவிவரப் படம் புதுப்பிக்கப்பட்டது',
+  'account.photoFailed': 'படத்தைப் பதிவேற்ற முடியவில்லை',
+  'account.details': 'சுயவிவர விவரங்கள்',
+  'account.detailsHint': 'உங்கள் தனிப்பட்ட தகவலைப் புதுப்பிக்கவும்',
+  'account.fullName': 'முழுப் பெயர்',
+  'account.fullNamePlaceholder': 'உங்கள் பெயரை உள்ளிடவும்',
+  'account.email': 'மின்னஞ்சல் முகவரி',
+  'account.emailFixed': 'மின்னஞ்சலை மாற்ற முடியாது',
+  'account.id': 'கணக்கு அடையாளம்',
+  'account.memberSince': 'உறுப்பினரான நாள்',
+  'account.saving': 'சேமிக்கப்படுகிறது...',
+  'account.saveChanges': 'மாற்றங்களைச் சேமி',
+  'account.profileUpdated': 'சுயவிவரம் வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது',
+  'account.profileFailed': 'சுயவிவரத்தைப் புதுப்பிக்க முடியவில்லை',
+
+  // Layout preferences
+  'account.layout.title': 'தளவமைப்பு அமைப்புகள்',
+  'account.layout.description': 'உங்கள் டாஷ்போர்டு தளவமைப்பு விருப்பங்களைத் தனிப்பயனாக்கவும்.',
+  'account.layout.preset': 'முன்னமைவு',
+  'account.layout.mode': 'பயன்முறை',
+  'account.layout.light': 'ஒளி',
+  'account.layout.dark': 'இருள்',
+  'account.layout.sidebarVariant': 'பக்கப்பட்டி வகை',
+  'account.layout.inset': 'உள்ளமைந்த',
+  'account.layout.sidebar': 'பக்கப்பட்டி',
+  'account.layout.floating': 'மிதக்கும்',
+  'account.layout.navbarStyle': 'வழிசெலுத்தல் பட்டி பாணி',
+  'account.layout.sticky': 'நிலையான',
+  'account.layout.scroll': 'உருள்',
+  'account.layout.collapsible': 'பக்கப்பட்டி சுருக்கம்',
+  'account.layout.icon': 'சின்னம்',
+  'account.layout.offcanvas': 'திரைக்கு வெளியே',
+  'account.layout.contentLayout': 'உள்ளடக்க தளவமைப்பு',
+  'account.layout.centered': 'மையப்படுத்தப்பட்ட',
+  'account.layout.fullWidth': 'முழு அகலம்',
+}
@@ -0,0 +1,59 @@
+import type { advances as en } from "../en/advances"
+
+// Advance ledger, instalment schedules and receipts
+export const advances: Record<keyof typeof en, string> = {
+  // Ledger
+  'advances.title': 'முற்பணப் பேரேடு',
+  'advances.searchWorkers': 'தொழிலாளர்களைத் தேடு...',
+  'advances.totalOutstanding': 'மொத்த நிலுவை',
+  'advances.workersWithBalance': 'மீதியுள்ள தொழிலாளர்கள்',
+  'advances.overLimit': 'வரம்பை மீறியவை',
+  'advances.dueThisMonth': 'இம்மாதம் செலுத்த வேண்டியது',
+  'advances.outstandingTitle': 'நிலுவையிலுள்ள முற்பணங்கள்',
+  'advances.outstandingDescription': 'முற்பணங்கள் தவணைகளாகச் சம்பளத்திலிருந்து மீளப்பெறப்படும்; ஒரு மாதம் ஈடுசெய்ய முடியாதது அடுத்த மாதத்துக்குக் கொண்டுசெல்லப்படும்',
+  'advances.loadFailed': 'முற்பணப் பேரேட்டை ஏற்ற முடியவில்லை',
+  'advances.limit': 'வரம்பு',
+  'advances.noLimit': 'வரம்பு இல்லை',
+  'advances.given': 'வழங்கியது',
+  'advances.recovered': 'மீளப்பெற்றது',
+  'advances.outstanding': 'நிலுவை',
+  'advances.ledger': 'பேரேடு',
+
+  // Advance limit
+  'advances.limitTitle': 'முற்பண வரம்பு',
+  'advances.maxOutstanding': 'அதிகபட்ச நிலுவை (ரூ)',
+  'advances.limitPlaceholder': 'பணிநிலை வரம்பைப் பயன்படுத்த வெறுமையாக விடவும்',
+  'advances.limitInvalid': 'நேர்மறைத் தொகையை உள்ளிடவும் அல்லது வெறுமையாக விடவும்',
+  'advances.limitUpdated': 'முற்பண வரம்பு புதுப்பிக்கப்பட்டது',
+  'advances.limitFailed': 'முற்பண வரம்பைச் சேமிக்க முடியவில்லை',
+
+  // A worker's ledger
+  'advances.workerTitle': 'முற்பணப் பேரேடு • {name}',
+  'advances.workerOutstanding': '{id} • நிலுவை {amount}',
+  'advances.ofLimit': ' ({limit} வரம்பில்)',
+  'advances.due': 'செலுத்த வேண்டியது',
+  'advances.carriedForward': 'முன்கொண்டு சென்றது',
+  'advances.schedules': 'முற்பணங்களும் தவணை அட்டவணைகளும்',
+  'advances.instalments': 'தவணைகள்',
+  'advances.instalmentsFrom': 'தவணைகள், தொடக்கம்',
+  'advances.startMonth': 'தொடக்க மாதம்',
+  'advances.notSigned': 'கையொப்பமிடப்படவில்லை',
+  'advances.printReceipt': 'பற்றுச்சீட்டை அச்சிடு',
+  'advances.instalmentsInvalid': 'தவணைகள் 1 முதல் 24 வரை இருக்க வேண்டும்',
+  'advances.startTooEarly': 'முற்பணம் வழங்கிய மாதத்துக்கு முன் மீளப்பெறலைத் தொடங்க முடியாது',
+  'advances.scheduleSaved': 'தவணை அட்டவணை சேமிக்கப்பட்டது',
+  'advances.scheduleFailed': 'அட்டவணையைச் சேமிக்க முடியவில்லை',
+  'advances.printFailed': 'பற்றுச்சீட்டை அச்சிட முடியவில்லை',
+  'advances.signTitle': 'முற்பணப் பற்றுச்சீட்டு • {name}',
+  'advances.signDescription': '{date} அன்று {amount} முற்பணம். பணம் கிடைத்ததை உறுதிப்படுத்த தொழிலாளர் கையொப்பமிடுவார்.',
+
+  // Printed receipt
+  'advances.receipt.documentTitle': 'முற்பணப் பற்றுச்சீட்டு - {name}',
+  'advances.receipt.heading': 'சம்பள முற்பணப் பற்றுச்சீட்டு',
+  'advances.receipt.received': 'பெற்ற முற்பணம்',
+  'advances.receipt.recovery': 'எதிர்காலச் சம்பளங்களிலிருந்து மீளப்பெறப்படும்.',
+  'advances.receipt.allowPopups': 'பற்றுச்சீட்டை அச்சிட pop-up களை அனுமதிக்கவும்',
+
+  // Advance limit check
+  'advances.limitExceeded': 'இந்த {amount} முற்பணம் நிலுவையை {balance} ஆக உயர்த்தும், இது {limit} வரம்பை விட அதிகம்.',
+}
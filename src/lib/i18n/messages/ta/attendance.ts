@@ -0,0 +1,48 @@
+import type { attendance as en } from "../en/attendance"
+
+// Attendance register, muster roll and leave
+export const attendance: Record<keyof typeof en, string> = {
+  // Statuses and leave
+  'attendance.status.present': 'வருகை',
+  'attendance.status.half_day': 'அரை நாள்',
+  'attendance.status.absent': 'வரவில்லை',
+  'attendance.status.leave': 'விடுப்பு',
+  'attendance.leave.annual': 'வருடாந்த',
+  'attendance.leave.casual': 'தற்செயல்',
+  'attendance.leave.sick': 'சுகவீன',
+  'attendance.leaveOption.annual': 'வருடாந்த விடுப்பு',
+  'attendance.leaveOption.casual': 'தற்செயல் விடுப்பு',
+  'attendance.leaveOption.sick': 'சுகவீன விடுப்பு',
+  'attendance.presentFromPlucking': 'வருகை (பறிப்புப் பதிவு)',
+
+  // Attendance page
+  'attendance.title': 'வருகை',
+  'attendance.intro': 'பறிப்புப் பதிவுகள் வருகையாகக் கணக்கிடப்படும். விடுப்பு உரிமைகளும் கொடுப்பனவும் அமைக்கப்படுவது',
+  'attendance.orgSettings': 'நிறுவன அமைப்புகளில்',
+  'attendance.markDay': 'நாளைக் குறி',
+  'attendance.musterRoll': 'வருகைப் பதிவேடு',
+  'attendance.leaveBalances': 'விடுப்பு மீதிகள்',
+  'attendance.leaveTab': 'விடுப்பு',
+  'attendance.legend': 'P வருகை · H அரை நாள் · A வரவில்லை · L விடுப்பு; மங்கிய நாட்கள் பறிப்புப் பதிவுகளிலிருந்து வந்தவை',
+  'attendance.legendEdit': '. குறிக்க ஒரு திகதியைக் கிளிக் செய்யவும்',
+  'attendance.loadFailed': 'வருகையை ஏற்ற முடியவில்லை',
+  'attendance.noWorkers': 'இம்மாதத்துக்குத் தொழிலாளர்கள் இல்லை',
+  'attendance.allowance': 'கொடுப்பனவு',
+  'attendance.takenOfDays': '{type} (எடுத்தது / நாட்கள்)',
+  'attendance.over': '{days} மேலதிகம்',
+  'attendance.left': '{days} மீதம்',
+  'attendance.yearToDate': '{year} ஜனவரி 1 முதல் தெரிவு செய்த மாத இறுதி வரையான விடுப்பு',
+
+  // Daily register
+  'attendance.registerTitle': '{date} வருகை',
+  'attendance.registerDescription': 'வேறுவிதமாகக் குறிக்கப்படாவிட்டால் பறிப்புப் பதிவுள்ள தொழிலாளர்கள் வருகையாகக் கணக்கிடப்படுவர்',
+  'attendance.noActiveWorkers': 'செயலிலுள்ள தொழிலாளர்கள் இல்லை',
+  'attendance.markUnmarkedPresent': 'குறிக்காதவர்களை வருகையாகக் குறி',
+  'attendance.plucked': 'பறித்தார்',
+  'attendance.presentPlucked': 'வருகை (பறித்தார்)',
+  'attendance.notMarked': 'குறிக்கப்படவில்லை',
+  'attendance.saveCount': 'சேமி ({count})',
+  'attendance.saved': '{count} தொழிலாளர்களின் வருகை சேமிக்கப்பட்டது',
+  'attendance.savedOne': '1 தொழிலாளரின் வருகை சேமிக்கப்பட்டது',
+  'attendance.saveFailed': 'வருகையைச் சேமிக்க முடியவில்லை',
+}
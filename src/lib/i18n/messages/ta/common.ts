@@ -0,0 +1,66 @@
+import type { common as en } from "../en/common"
+
+// Common
+export const common: Record<keyof typeof en, string> = {
+  'common.appName': 'தேயிலைத் தோட்ட முகாமைத்துவ அமைப்பு',
+  'common.language': 'மொழி',
+  'common.loading': 'ஏற்றப்படுகிறது...',
+  'common.loadingOrganization': 'நிறுவனம் ஏற்றப்படுகிறது...',
+  'common.export': 'ஏற்றுமதி',
+  'common.exportCsv': 'CSV ஆக ஏற்றுமதி',
+  'common.exportJson': 'JSON ஆக ஏற்றுமதி',
+  'common.print': 'அச்சிடு',
+  'common.soon': 'விரைவில்',
+  'common.id': 'இல.',
+  'common.employeeId': 'ஊழியர் இல.',
+  'common.worker': 'தொழிலாளர்',
+  'common.name': 'பெயர்',
+  'common.role': 'பதவி',
+  'common.phone': 'தொலைபேசி',
+  'common.status': 'நிலை',
+  'common.hireDate': 'சேர்ந்த திகதி',
+  'common.date': 'திகதி',
+  'common.days': 'நாட்கள்',
+  'common.daysWorked': 'வேலை செய்த நாட்கள்',
+  'common.totalKg': 'மொத்த கி.கி.',
+  'common.kgPlucked': 'பறித்த கி.கி.',
+  'common.ratePerKg': 'கி.கி. விலை',
+  'common.extraWork': 'மேலதிக வேலை',
+  'common.otherWork': 'மற்றவை',
+  'common.total': 'மொத்தம்',
+  'common.totalEarned': 'மொத்த வருமானம்',
+  'common.bonus': 'ஊக்கத்தொகை',
+  'common.advance': 'முற்பணம்',
+  'common.advances': 'முற்பணங்கள்',
+  'common.netSalary': 'நிகர சம்பளம்',
+  'common.kgValue': '{value} கி.கி.',
+  'common.generatedOn': '{date} அன்று தயாரிக்கப்பட்டது',
+  'common.cancel': 'ரத்து செய்',
+  'common.save': 'சேமி',
+  'common.delete': 'நீக்கு',
+  'common.edit': 'திருத்து',
+  'common.close': 'மூடு',
+  'common.amount': 'தொகை',
+  'common.method': 'முறை',
+  'common.reference': 'குறிப்பு',
+  'common.optional': 'விருப்பத்திற்குரியது',
+  'common.notes': 'குறிப்புகள்',
+  'common.reason': 'காரணம்',
+  'common.month': 'மாதம்',
+  'common.exportedCsv': 'CSV ஆக ஏற்றுமதி செய்யப்பட்டது',
+  'common.exportedJson': 'JSON ஆக ஏற்றுமதி செய்யப்பட்டது',
+  'common.runSqlSetup': '{table} அட்டவணை இல்லை. SQL அமைப்பை இயக்கவும்.',
+  'role.picker': 'கொழுந்து பறிப்பவர்',
+  'role.supervisor': 'மேற்பார்வையாளர்',
+  'role.manager': 'முகாமையாளர்',
+  'role.quality_controller': 'தரக் கட்டுப்பாட்டாளர்',
+
+  // Signatures
+  'signature.unreadable': 'கையொப்பத்தைப் படிக்க முடியவில்லை',
+  'signature.saved': 'கையொப்பம் சேமிக்கப்பட்டது',
+  'signature.saveFailed': 'கையொப்பத்தைச் சேமிக்க முடியவில்லை',
+  'signature.pad': 'கையொப்பத் தளம்',
+  'signature.clear': 'அழி',
+  'signature.later': 'பின்னர் கையொப்பமிடு',
+  'signature.save': 'கையொப்பத்தைச் சேமி',
+}
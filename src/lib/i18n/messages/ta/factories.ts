@@ -0,0 +1,232 @@
+import type { factories as en } from "../en/factories"
+
+// Factories, rates, deductions and statements
+export const factories: Record<keyof typeof en, string> = {
+  // Factory rates
+  'factories.title': 'தொழிற்சாலை விலைகள்',
+  'factories.loading': 'தொழிற்சாலை விலைகள் ஏற்றப்படுகின்றன...',
+  'factories.loadFailed': 'தொழிற்சாலை விலைகளை ஏற்ற முடியவில்லை',
+  'factories.historyLoadFailed': 'விலை வரலாற்றை ஏற்ற முடியவில்லை',
+  'factories.confirmDelete': '{name} ஐ நீக்கவா? எல்லா விலை வரலாறும் நீக்கப்படும். அதன் தேயிலை விற்பனைகள் வைக்கப்படும்.',
+  'factories.deleted': 'தொழிற்சாலை வெற்றிகரமாக நீக்கப்பட்டது',
+  'factories.deleteFailed': 'தொழிற்சாலையை நீக்க முடியவில்லை',
+  'factories.rateScheduled': '{date} முதல் கி.கி.க்கு {rate} விலை திட்டமிடப்பட்டது',
+  'factories.rateUpdated': 'தொழிற்சாலை விலை வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது',
+  'factories.added': 'தொழிற்சாலை வெற்றிகரமாகச் சேர்க்கப்பட்டது',
+  'factories.saveFailed': 'தொழிற்சாலையைச் சேமிக்க முடியவில்லை',
+  'factories.duplicateName': 'இந்தப் பெயரில் ஒரு தொழிற்சாலை ஏற்கனவே உள்ளது',
+  'factories.name': 'தொழிற்சாலையின் பெயர்',
+  'factories.currentRate': 'தற்போதைய விலை',
+  'factories.previous': 'முந்தையது',
+  'factories.updated': 'புதுப்பிக்கப்பட்டது',
+  'factories.noRate': 'விலை இல்லை',
+  'factories.rateFrom': '{date} முதல் கி.கி.க்கு {rate}',
+  'factories.firstRate': 'முதல் விலை',
+  'factories.viewHistory': 'விலை வரலாற்றைப் பார்',
+  'factories.saleDeductions': 'விற்பனைக் கழிவுகள்',
+  'factories.editRate': 'விலையைத் திருத்து',
+  'factories.delete': 'தொழிற்சாலையை நீக்கு',
+  'factories.add': 'தொழிற்சாலையைச் சேர்',
+  'factories.search': 'தொழிற்சாலைகளைத் தேடு...',
+  'factories.sort.highest': 'அதிகபட்சம்',
+  'factories.sort.lowest': 'குறைந்தபட்சம்',
+  'factories.sort.newest': 'புதியவை',
+  'factories.sort.oldest': 'பழையவை',
+  'factories.count': '{count} தொழிற்சாலைகள்',
+  'factories.countOne': '1 தொழிற்சாலை',
+  'factories.matching': ' "{search}" உடன் பொருந்துபவை',
+  'factories.noneMatching': '"{search}" உடன் பொருந்தும் தொழிற்சாலைகள் இல்லை',
+  'factories.none': 'தொழிற்சாலைகள் எதுவும் இல்லை',
+  'factories.tryDifferentSearch': 'வேறு தேடல் சொல்லை முயற்சிக்கவும்',
+  'factories.addHint': 'நீங்கள் தேயிலை விற்கும் தொழிற்சாலைகளைச் சேர்க்கவும்',
+  'factories.updateRate': 'விலையைப் புதுப்பி',
+  'factories.currentPerKg': 'தற்போது: கி.கி.க்கு {rate}',
+  'factories.form.name': 'தொழிற்சாலையின் பெயர் *',
+  'factories.form.namePlaceholder': 'எ.கா., இலங்கை தேயிலைத் தொழிற்சாலை',
+  'factories.form.effectiveDate': 'நடைமுறைக்கு வரும் தேதி *',
+  'factories.change': 'மாற்றம்:',
+  'factories.update': 'புதுப்பி',
+  'factories.addSubmit': 'சேர்',
+  'factories.rateChanges': '{count} விலை மாற்றங்கள்',
+  'factories.rateChangesOne': '1 விலை மாற்றம்',
+  'factories.current': 'தற்போதையது',
+  'factories.scheduled': 'திட்டமிடப்பட்டது',
+  'factories.noHistory': 'விலை வரலாறு இல்லை',
+  'factories.inactive': 'செயலற்றது',
+  'factories.relative.today': 'இன்று',
+  'factories.relative.yesterday': 'நேற்று',
+  'factories.relative.days': '{count} நா. முன்',
+  'factories.relative.weeks': '{count} வா. முன்',
+  'factories.relative.months': '{count} மா. முன்',
+  'factories.relative.years': '{count} ஆ. முன்',
+
+  // Factory details
+  'factories.details': 'தொழிற்சாலை விவரங்கள்',
+  'factories.detailsSaved': 'தொழிற்சாலை விவரங்கள் சேமிக்கப்பட்டன',
+  'factories.detailsSaveFailed': 'தொழிற்சாலை விவரங்களைச் சேமிக்க முடியவில்லை',
+  'factories.field.contactPerson': 'தொடர்பு நபர்',
+  'factories.field.phonePlaceholder': 'எ.கா., 077 123 4567',
+  'factories.field.registration': 'பதிவு எண்',
+  'factories.field.registrationPlaceholder': 'தேயிலைச் சபைப் பதிவு',
+  'factories.field.distance': 'தூரம் (கி.மீ.)',
+  'factories.field.address': 'முகவரி',
+  'factories.field.bank': 'வங்கி',
+  'factories.field.branch': 'கிளை',
+  'factories.field.accountName': 'கணக்கின் பெயர்',
+  'factories.field.accountNumber': 'கணக்கு எண்',
+  'factories.field.bankDetails': 'கொடுப்பனவுகளுக்கான வங்கி விவரங்கள்',
+  'factories.field.active': 'செயலில்',
+  'factories.field.activeHint': 'புதிய விற்பனைகளைப் பதிவு செய்யும்போது செயலற்ற தொழிற்சாலைகள் மறைக்கப்படும்',
+
+  // Deduction types
+  'deductions.loadFailed': 'கழிவுகளை ஏற்ற முடியவில்லை',
+  'deductions.nameRequired': 'பெயர் தேவை',
+  'deductions.duplicate': 'இந்தத் தொழிற்சாலைக்கு அந்தப் பெயரில் ஏற்கனவே ஒரு கழிவு உள்ளது',
+  'deductions.saveFailed': 'கழிவைச் சேமிக்க முடியவில்லை',
+  'deductions.confirmDelete': '"{name}" கழிவை நீக்கவா? முந்தைய விற்பனைகள் அவற்றின் கழிவு வரிகளை வைத்திருக்கும்.',
+  'deductions.deleted': 'கழிவு நீக்கப்பட்டது',
+  'deductions.title': 'கழிவுகள் - {factory}',
+  'deductions.description': 'இந்தத் தொழிற்சாலைக்கான புதிய விற்பனைகளில் முன்கூட்டியே நிரப்பப்படும்; ஒவ்வொரு விற்பனையிலும் மதிப்புகளை மாற்றலாம்',
+  'deductions.noneSetUp': 'இந்தத் தொழிற்சாலைக்குக் கழிவுகள் அமைக்கப்படவில்லை',
+  'deductions.activate': 'செயல்படுத்து',
+  'deductions.deactivate': 'செயலிழக்கச் செய்',
+  'deductions.workedOutAs': 'கணக்கிடும் முறை',
+
+  // Factory page
+  'factories.notFound': 'தொழிற்சாலை காணப்படவில்லை',
+  'factories.backToList': 'தொழிற்சாலைகளுக்குத் திரும்பு',
+  'factories.editDetails': 'விவரங்களைத் திருத்து',
+  'factories.deliveries': 'விநியோகங்கள்',
+  'factories.totalDelivered': 'மொத்த விநியோகம்',
+  'factories.outstandingOf': '{amount} இல் நிலுவை',
+  'factories.loadOneFailed': 'தொழிற்சாலையை ஏற்ற முடியவில்லை',
+  'factories.loadingOne': 'தொழிற்சாலை ஏற்றப்படுகிறது...',
+  'factories.tab.rates': 'விலைகள்',
+  'factories.tab.payments': 'கொடுப்பனவுகள்',
+  'factories.tab.statements': 'அறிக்கைகள்',
+  'factories.tab.details': 'விவரங்கள்',
+  'factories.ratesHint': 'தொழிற்சாலைப் பட்டியலிலிருந்து விலைகளை மாற்றவும்; எதிர்காலத் தேதியிட்ட விலைகள் தாமாகவே நடைமுறைக்கு வரும்',
+  'factories.paymentsReceived': 'பெறப்பட்ட கொடுப்பனவுகள்',
+  'factories.paymentsHint': 'ஒவ்வொரு கொடுப்பனவும் அது தீர்க்கும் விநியோகங்களுக்கு ஒதுக்கப்படும்',
+  'factories.monthlySettlements': 'மாதாந்தத் தீர்வுகள்',
+  'factories.settlementsHint': 'கழிவுகளுக்குப் பின் ஒவ்வொரு மாத விநியோகங்களுக்கும் தொழிற்சாலை செலுத்த வேண்டியது',
+  'factories.noDeliveries': 'இந்தத் தொழிற்சாலைக்கு விநியோகங்கள் பதிவு செய்யப்படவில்லை',
+  'factories.nothingDelivered': 'இந்தத் தொழிற்சாலைக்கு இன்னும் எதுவும் விநியோகிக்கப்படவில்லை',
+  'factories.kg': 'கி.கி.',
+  'factories.rate': 'விலை',
+  'factories.net': 'நிகரம்',
+  'factories.netPayable': 'செலுத்த வேண்டிய நிகரம்',
+  'factories.outstanding': 'நிலுவை',
+  'factories.contact': 'தொடர்பு',
+  'factories.bankAndBranch': 'வங்கி மற்றும் கிளை',
+  'factories.account': 'கணக்கு',
+  'factories.notSet': 'அமைக்கப்படவில்லை',
+  'factories.distanceKm': '{km} கி.மீ.',
+
+  // Factory payments
+  'factoryPayments.method.bank_transfer': 'வங்கிப் பரிமாற்றம்',
+  'factoryPayments.method.cheque': 'காசோலை',
+  'factoryPayments.method.cash': 'பணம்',
+  'factoryPayments.confirmDelete': '{date} அன்றைய {amount} கொடுப்பனவை நீக்கவா? அதன் விநியோகங்கள் மீண்டும் செலுத்தப்படாதவையாகும்.',
+  'factoryPayments.deleted': 'கொடுப்பனவு நீக்கப்பட்டது',
+  'factoryPayments.deleteFailed': 'கொடுப்பனவை நீக்க முடியவில்லை',
+  'factoryPayments.none': 'இந்தத் தொழிற்சாலையிடமிருந்து இன்னும் கொடுப்பனவுகள் பெறப்படவில்லை',
+  'factoryPayments.onAccount': 'கணக்கில் {amount}',
+  'factoryPayments.ref': 'குறிப்பு {reference}',
+  'factoryPayments.deliveries': '{count} விநியோகங்கள்',
+  'factoryPayments.deliveriesOne': '1 விநியோகம்',
+
+  // Statements
+  'statements.status.accepted': 'ஏற்கப்பட்டது',
+  'statements.status.disputed': 'ஆட்சேபிக்கப்பட்டது',
+  'statements.line.matched': 'பொருந்துகிறது',
+  'statements.line.mismatch': 'வேறுபடுகிறது',
+  'statements.line.missing_recorded': 'எங்கள் விற்பனைகளில் இல்லை',
+  'statements.line.missing_statement': 'அறிக்கையில் இல்லை',
+  'statements.loadFailed': 'அறிக்கைகளை ஏற்ற முடியவில்லை',
+  'statements.confirmDelete': '{month} ஒப்பீட்டை அகற்றவா? அது ஏற்கப்பட்டபோது திருத்தப்பட்ட விற்பனைகள் அப்படியே இருக்கும்.',
+  'statements.removed': 'ஒப்பீடு அகற்றப்பட்டது',
+  'statements.removeFailed': 'ஒப்பீட்டை அகற்ற முடியவில்லை',
+  'statements.title': 'மாதாந்த அறிக்கைகள்',
+  'statements.description': 'தொழிற்சாலையின் அறிக்கை எங்கள் விற்பனைகளுடன் வரிக்கு வரி சரிபார்க்கப்படுகிறது',
+  'statements.import': 'அறிக்கையை இறக்குமதி செய்',
+  'statements.none': 'இந்தத் தொழிற்சாலைக்கு இன்னும் அறிக்கைகள் ஒப்பிடப்படவில்லை',
+  'statements.differences': '{count} வேறுபாடுகள்',
+  'statements.differencesOne': '1 வேறுபாடு',
+  'statements.statementFigures': 'அறிக்கை {kg}, {amount}',
+  'statements.ourFigures': 'எங்களுடையது {kg}, {amount}',
+  'statements.noLines': 'இந்த மாதத்திற்கு அறிக்கையிலோ எங்கள் விற்பனைகளிலோ விநியோகங்கள் இல்லை',
+  'statements.leafDeduction': 'இலைக் கழிவு',
+  'statements.statementVsOurs': 'அறிக்கை / எங்களுடையது',
+  'statements.leafValue': 'இலை மதிப்பு',
+  'statements.allMatch': 'எல்லா வரிகளும் பொருந்துகின்றன',
+  'statements.toReview': '{count} மதிப்பாய்வுக்கு',
+  'statements.ofLines': '{count} வரிகளில்',
+  'statements.dispute': 'ஆட்சேபி',
+  'statements.saveDispute': 'ஆட்சேபத்தைச் சேமி',
+  'statements.accept': 'தொழிற்சாலை எண்ணிக்கைகளை ஏற்றுக்கொள்',
+  'statements.matchFailed': 'அறிக்கையைப் பொருத்த முடியவில்லை',
+  'statements.reasonRequired': 'அறிக்கையில் என்ன தவறு என்று குறிப்பிடவும்',
+  'statements.accepted': 'அறிக்கை ஏற்கப்பட்டு விற்பனைகள் புதுப்பிக்கப்பட்டன',
+  'statements.disputed': 'அறிக்கை ஆட்சேபிக்கப்பட்டது',
+  'statements.saveFailed': 'ஒப்பீட்டைச் சேமிக்க முடியவில்லை',
+  'statements.addedNote': 'தொழிற்சாலை அறிக்கையிலிருந்து சேர்க்கப்பட்டது',
+  'statements.reconcileTitle': 'அறிக்கையை ஒப்பிடு · {factory}',
+  'statements.fileHint': 'தேதி, பெற்ற கி.கி., இலைக் கழிவு (கி.கி.) மற்றும் விலை நெடுவரிசைகளுடன் CSV',
+  'statements.month': 'அறிக்கை மாதம் *',
+  'statements.file': 'அறிக்கைக் கோப்பு *',
+  'statements.chooseFile': 'CSV கோப்பைத் தேர்ந்தெடு',
+  'statements.acceptHint': 'ஏற்றுக்கொள்வது எங்கள் விற்பனைகளைத் தொழிற்சாலையின் கி.கி., இலைக் கழிவு மற்றும் விலைக்குத் திருத்தி, தொழிற்சாலை மட்டும் பதிவு செய்த நாட்களைச் சேர்க்கும்.',
+  'statements.reason': 'ஆட்சேபத்திற்கான காரணம் *',
+  'statements.reasonPlaceholder': 'எ.கா. 12ஆம் தேதி அறிக்கையில் இல்லை, விலை 210 ஆக இருக்க வேண்டும்',
+  'statements.field.date': 'தேதி',
+  'statements.field.kg': 'பெற்ற கி.கி.',
+  'statements.field.deductionKg': 'இலைக் கழிவு (கி.கி.)',
+  'statements.field.rate': 'விலை',
+  'statements.error.empty': 'கோப்பு காலியாக உள்ளது',
+  'statements.error.missingColumns': '{columns} நெடுவரிசை காணப்படவில்லை',
+  'statements.error.dateOutsideMonth': 'சில தேதிகள் {month} இல் இல்லை, அல்லது அவற்றின் வடிவம் அடையாளம் காணப்படவில்லை',
+  'statements.error.badKg': 'வரி {line}: பெற்ற கி.கி. ஒரு எண் அல்ல',
+  'statements.error.badRate': 'வரி {line}: விலை ஒரு எண் அல்ல',
+
+  // Factory comparison
+  'comparison.title': 'தொழிற்சாலை ஒப்பீடு',
+  'comparison.description': 'நீங்கள் விற்கும் தொழிற்சாலைகளின் விலைகள், கி.கி.க்கான நிகர வருவாய் மற்றும் கொடுப்பனவு வேகம்',
+  'comparison.loadFailed': 'தொழிற்சாலை ஒப்பீட்டை ஏற்ற முடியவில்லை',
+  'comparison.lastMonths': 'கடந்த {count} மாதங்கள்',
+  'comparison.rankingFor': '{month} இற்கான தரவரிசை',
+  'comparison.rankingHint': 'அடுத்த மாத விலையிலிருந்து ஒவ்வொரு தொழிற்சாலையின் வழக்கமான கழிவுகளும் கி.கி.க்கான போக்குவரத்தும் கழிக்கப்படும். கி.கி.க்கு {amount} க்குள் இருந்தால் விரைவாகச் செலுத்துபவர் முன்னிலை பெறுவார்.',
+  'comparison.transportPerKg': 'போக்குவரத்து/கி.கி.',
+  'comparison.projectedNetPerKg': 'எதிர்பார்க்கும் நிகரம்/கி.கி.',
+  'comparison.paysIn': 'செலுத்தும் காலம்',
+  'comparison.noRecentDeliveries': 'சமீபத்திய விநியோகங்கள் இல்லை',
+  'comparison.days': '{count} நாட்கள்',
+  'comparison.netIncomePerKg': 'கி.கி.க்கான நிகர வருமானம்',
+  'comparison.netIncomeHint': 'கழிவுகள் மற்றும் போக்குவரத்துக்குப் பின் கடந்த {count} மாத விநியோகங்கள்',
+  'comparison.noDeliveries': 'இந்தக் காலத்தில் விநியோகங்கள் இல்லை',
+  'comparison.grossPerKg': 'மொத்தம்/கி.கி.',
+  'comparison.deductionsPerKg': 'கழிவுகள்/கி.கி.',
+  'comparison.netPerKg': 'நிகரம்/கி.கி.',
+  'comparison.avgPaymentDelay': 'சராசரி கொடுப்பனவுத் தாமதம்',
+  'comparison.rateOverTime': 'காலப்போக்கில் கி.கி.க்கான விலை',
+  'comparison.rateOverTimeHint': 'விலை வரலாற்றிலிருந்து, ஒவ்வொரு தொழிற்சாலையிலும் நடைமுறையிலிருந்த விலை',
+  'comparison.noRateHistory': 'இந்தக் காலத்திற்கு விலை வரலாறு இல்லை',
+
+  // Recording a factory payment
+  'factoryPayments.title': 'தொழிற்சாலைக் கொடுப்பனவைப் பதிவுசெய்',
+  'factoryPayments.description': 'பழைய விநியோகங்களை முதலில் தீர்க்கும்; கீழே பிரிவைச் சரிசெய்யவும்',
+  'factoryPayments.loadFailed': 'நிலுவை விநியோகங்களை ஏற்ற முடியவில்லை',
+  'factoryPayments.required': 'ஒரு தொழிற்சாலையைத் தேர்ந்தெடுத்து பெற்ற தொகையை உள்ளிடவும்',
+  'factoryPayments.overAllocated': 'பெற்றதை விட அதிகம் விநியோகங்களுக்கு ஒதுக்கப்பட்டுள்ளது',
+  'factoryPayments.recorded': '{amount} கொடுப்பனவு பதிவுசெய்யப்பட்டது',
+  'factoryPayments.recordFailed': 'கொடுப்பனவைப் பதிவுசெய்ய முடியவில்லை',
+  'factoryPayments.form.factory': 'தொழிற்சாலை *',
+  'factoryPayments.form.dateReceived': 'பெற்ற திகதி *',
+  'factoryPayments.form.amount': 'தொகை (ரூ.) *',
+  'factoryPayments.form.referencePlaceholder': 'காசோலை / பரிமாற்ற இல.',
+  'factoryPayments.unpaidDeliveries': 'செலுத்தப்படாத விநியோகங்கள்',
+  'factoryPayments.outstandingTotal': '{amount} நிலுவை',
+  'factoryPayments.allPaid': 'இந்தத் தொழிற்சாலைக்கான அனைத்து விநியோகங்களும் செலுத்தப்பட்டுள்ளன',
+  'factoryPayments.allocated': 'விநியோகங்களுக்கு ஒதுக்கப்பட்டது',
+  'factoryPayments.leftOnAccount': 'கணக்கில் மீதம்',
+}
@@ -0,0 +1,32 @@
+import type { leaf as en } from "../en/leaf"
+
+// Plucked against delivered leaf
+export const leaf: Record<keyof typeof en, string> = {
+  'leaf.title': 'பறித்தது மற்றும் விநியோகித்தது',
+  'leaf.description': 'பணியாளர் வாரியாக எடைபோட்ட இலை தொழிற்சாலையில் எடைபோட்ட இலையுடன் ஒப்பிடப்படுகிறது.',
+  'leaf.toleranceLink': 'சகிப்பு வரம்பு நிறுவன அமைப்புகளில் அமைக்கப்படுகிறது',
+  'leaf.loadFailed': 'பறித்த மற்றும் விநியோகித்த இலையை ஏற்ற முடியவில்லை',
+  'leaf.plucked': 'பறித்தது',
+  'leaf.delivered': 'விநியோகித்தது',
+  'leaf.shrinkageOf': 'சுருக்கம் ({kg})',
+  'leaf.daysOutside': '±{percent}% க்கு வெளியே உள்ள நாட்கள்',
+  'leaf.reconciliation': 'ஒப்பீடு',
+  'leaf.reconciliationHint': 'குறிக்கப்பட்ட வரிகள் ±{percent}% க்கு வெளியே உள்ளன; பதிவுகளுக்கு ஒரு வரியைக் கிளிக் செய்யவும்',
+  'leaf.noPlucking': 'பறிப்பு இல்லை',
+  'leaf.pluckedKg': 'பறித்த கி.கி.',
+  'leaf.deliveredKg': 'விநியோகித்த கி.கி.',
+  'leaf.difference': 'வேறுபாடு',
+  'leaf.shrinkage': 'சுருக்கம்',
+  'leaf.pluckers': 'பறிப்பவர்கள்',
+  'leaf.flaggedDays': 'குறிக்கப்பட்ட நாட்கள்',
+  'leaf.flaggedOf': '{days} இல் {flagged}',
+  'leaf.noneThisMonth': 'இந்த மாதம் பறிப்போ விநியோகமோ பதிவு செய்யப்படவில்லை',
+  'leaf.noneLastYear': 'கடந்த 12 மாதங்களில் பறிப்போ விநியோகமோ பதிவு செய்யப்படவில்லை',
+  'leaf.dayLoadFailed': 'அன்றைய பதிவுகளை ஏற்ற முடியவில்லை',
+  'leaf.unknownWorker': 'அறியப்படாத பணியாளர்',
+  'leaf.noneRecorded': 'எதுவும் பதிவு செய்யப்படவில்லை',
+  'leaf.daySummary': '{plucked} பறித்தது, {delivered} விநியோகித்தது',
+  'leaf.dayShrinkage': '{percent}% சுருக்கம்',
+  'leaf.pluckedRecords': 'பறித்தது (தினசரி பதிவுகள்)',
+  'leaf.deliveredSales': 'விநியோகித்தது (தேயிலை விற்பனை)',
+}
@@ -0,0 +1,38 @@
+import type { navigation as en } from "../en/navigation"
+
+// Sidebar and search
+export const navigation: Record<keyof typeof en, string> = {
+  'nav.overview': 'மேலோட்டம்',
+  'nav.dashboard': 'முகப்புப் பலகை',
+  'nav.plantationManagement': 'தோட்ட முகாமைத்துவம்',
+  'nav.plantations': 'தோட்டங்கள்',
+  'nav.teaSales': 'தேயிலை விற்பனை',
+  'nav.factoryRates': 'தொழிற்சாலை விலைகள்',
+  'nav.factoryComparison': 'தொழிற்சாலை ஒப்பீடு',
+  'nav.employeeManagement': 'ஊழியர் முகாமைத்துவம்',
+  'nav.workers': 'தொழிலாளர்கள்',
+  'nav.dailyRecords': 'தினசரி பதிவுகள்',
+  'nav.attendance': 'வருகை',
+  'nav.salaryManagement': 'சம்பள முகாமைத்துவம்',
+  'nav.advances': 'முற்பணங்கள்',
+  'nav.operations': 'செயற்பாடுகள்',
+  'nav.scheduler': 'அட்டவணை',
+  'nav.reportsAnalytics': 'அறிக்கைகள் & பகுப்பாய்வு',
+  'nav.pdfReports': 'PDF அறிக்கைகள்',
+  'nav.leafReconciliation': 'பறித்த மற்றும் ஒப்படைத்த கொழுந்து',
+  'search.button': 'தேடு',
+  'search.placeholder': 'பக்கங்கள், தொழிலாளர்கள், தோட்டங்களைத் தேடுக...',
+  'search.noResults': 'முடிவுகள் எதுவும் இல்லை.',
+  'search.dashboard': 'தோட்ட அளவீடுகளுடன் கூடிய முகப்புப் பலகை',
+  'search.plantations': 'தோட்டப் பகுதிகளை நிர்வகிக்க',
+  'search.teaSales': 'தொழிற்சாலை விநியோகங்கள் மற்றும் விற்பனை',
+  'search.factoryRates': 'தற்போதைய தொழிற்சாலை விலைகளைப் பார்க்க',
+  'search.workers': 'தோட்டத் தொழிலாளர்கள் மற்றும் பணியாளர்கள்',
+  'search.dailyRecords': 'தினசரி அறுவடைத் தரவைப் பதிவு செய்ய',
+  'search.salaryManagement': 'தொழிலாளர் சம்பளம் மற்றும் ஊக்கத்தொகை',
+  'search.recentPlucking': 'அண்மைய பறிப்புகள்',
+  'search.recentSales': 'அண்மைய விற்பனைகள்',
+  'search.worker': 'தொழிலாளர்: {name}',
+  'search.unknown': 'தெரியாது',
+  'search.hectares': '{value} ஹெக்டேயர்',
+}
@@ -0,0 +1,88 @@
+import type { organization as en } from "../en/organization"
+
+// Organizations, members and invitations
+export const organization: Record<keyof typeof en, string> = {
+  // Roles
+  'organization.role.owner': 'உரிமையாளர்',
+  'organization.role.admin': 'நிர்வாகி',
+  'organization.role.manager': 'மேலாளர்',
+  'organization.role.viewer': 'பார்வையாளர்',
+  'organization.roleHint.viewer': 'தரவைப் பார்க்க மட்டும்',
+  'organization.roleHint.manager': 'தரவைப் பார்க்கவும் திருத்தவும் முடியும்',
+  'organization.roleHint.admin': 'உறுப்பினர்களையும் தரவையும் நிர்வகிக்க முடியும்',
+
+  // Settings page
+  'organization.loadingSettings': 'அமைப்புகள் ஏற்றப்படுகின்றன...',
+  'organization.settings': 'நிறுவன அமைப்புகள்',
+  'organization.edit': 'நிறுவனத்தைத் திருத்து',
+  'organization.editDescription': 'உங்கள் நிறுவனப் பெயரைப் புதுப்பிக்கவும்',
+  'organization.name': 'நிறுவனப் பெயர் *',
+  'organization.namePlaceholder': 'எனது நிறுவனம்',
+  'organization.ownerOnlyRename': 'நிறுவன உரிமையாளர்கள் மட்டுமே பெயரைப் புதுப்பிக்க முடியும்',
+  'organization.renamed': 'நிறுவனப் பெயர் புதுப்பிக்கப்பட்டது',
+  'organization.renameFailed': 'நிறுவனப் பெயரைப் புதுப்பிக்க முடியவில்லை',
+  'organization.ownerOnlyDelete': 'நிறுவன உரிமையாளர்கள் மட்டுமே நிறுவனத்தை நீக்க முடியும்',
+  'organization.deleted': 'நிறுவனம் வெற்றிகரமாக நீக்கப்பட்டது',
+  'organization.deleteFailed': 'நிறுவனத்தை நீக்க முடியவில்லை',
+  'organization.dangerZone': 'அபாய வலயம்',
+  'organization.dangerDescription': 'இந்த நிறுவனத்தையும் அதனுடன் தொடர்புடைய எல்லாத் தரவையும் நிரந்தரமாக நீக்கு',
+  'organization.delete': 'நிறுவனத்தை நீக்கு',
+  'organization.confirmDeleteTitle': 'நீங்கள் முழுமையாக உறுதியாக உள்ளீர்களா?',
+  'organization.confirmDelete': 'இந்தச் செயலைத் திரும்பப் பெற முடியாது. இது {name} நிறுவனத்தை நிரந்தரமாக நீக்கி அனைத்து உறுப்பினர்களின் அணுகலையும் அகற்றும்.',
+
+  // Members
+  'organization.members': 'குழு உறுப்பினர்கள்',
+  'organization.memberCount': '{count} உறுப்பினர்கள்',
+  'organization.memberCountOne': '1 உறுப்பினர்',
+  'organization.you': '(நீங்கள்)',
+  'organization.joined': 'இணைந்தது',
+  'organization.removeMember': 'உறுப்பினரை அகற்று',
+  'organization.confirmRemove': 'இந்த உறுப்பினரை நிறுவனத்திலிருந்து அகற்றவா?',
+  'organization.cannotRemoveSelf': 'உங்களை நீங்களே அகற்ற முடியாது',
+  'organization.memberRemoved': 'உறுப்பினர் அகற்றப்பட்டார்',
+  'organization.removeFailed': 'உறுப்பினரை அகற்ற முடியவில்லை',
+  'organization.roleUpdated': 'பங்கு புதுப்பிக்கப்பட்டது',
+  'organization.roleUpdateFailed': 'பங்கைப் புதுப்பிக்க முடியவில்லை',
+
+  // Invitations
+  'organization.invite': 'அழை',
+  'organization.inviteTitle': 'உறுப்பினரை அழை',
+  'organization.inviteDescription': 'உங்கள் நிறுவனத்தில் இணைய அழைப்பை அனுப்பவும்',
+  'organization.email': 'மின்னஞ்சல்',
+  'organization.emailAddress': 'மின்னஞ்சல் முகவரி *',
+  'organization.roleRequired': 'பங்கு *',
+  'organization.sendInvite': 'அழைப்பை அனுப்பு',
+  'organization.ownerOnlyInvite': 'நிறுவன உரிமையாளர்கள் மட்டுமே அழைப்புகளை அனுப்ப முடியும்',
+  'organization.alreadyMember': 'இவர் ஏற்கனவே உங்கள் நிறுவனத்தின் உறுப்பினர்',
+  'organization.alreadyInvited': 'இந்த மின்னஞ்சலுக்கு ஏற்கனவே அழைப்பு அனுப்பப்பட்டுள்ளது',
+  'organization.inviteSent': 'அழைப்பு அனுப்பப்பட்டது!',
+  'organization.inviteCreated': 'அழைப்பு உருவாக்கப்பட்டது (மின்னஞ்சல் அறிவிப்பு அனுப்பப்படாமல் இருக்கலாம்)',
+  'organization.inviteFailed': 'அழைப்பை உருவாக்க முடியவில்லை',
+  'organization.inviteCancelled': 'அழைப்பு ரத்துசெய்யப்பட்டது',
+  'organization.cancelInviteFailed': 'அழைப்பை ரத்துசெய்ய முடியவில்லை',
+  'organization.linkCopied': 'அழைப்பு இணைப்பு நகலெடுக்கப்பட்டது',
+  'organization.copyLink': 'அழைப்பு இணைப்பை நகலெடு',
+  'organization.cancelInvite': 'அழைப்பை ரத்துசெய்',
+  'organization.sent': 'அனுப்பியது',
+  'organization.expires': 'காலாவதி',
+  'organization.pendingInvitations': 'நிலுவையிலுள்ள அழைப்புகள்',
+  'organization.pendingCount': '{count} நிலுவை அழைப்புகள்',
+  'organization.pendingCountOne': '1 நிலுவை அழைப்பு',
+
+  // Creating an organization
+  'organization.create': 'நிறுவனத்தை உருவாக்கு',
+  'organization.new': 'புதிய நிறுவனம்',
+  'organization.newDescription': 'உங்கள் குழுவை நிர்வகிக்க உங்கள் சொந்தப் பணியிடத்தை உருவாக்கவும்',
+  'organization.nameLabel': 'நிறுவனப் பெயர்',
+  'organization.newNamePlaceholder': 'அக்மி தேயிலைத் தோட்டங்கள்',
+  'organization.nameHint': 'உங்கள் பணியிடத்திற்கு ஒரு பெயரைத் தேர்ந்தெடுக்கவும். பின்னர் அமைப்புகளில் அதை மாற்றலாம்.',
+  'organization.nameRequired': 'நிறுவனப் பெயரை உள்ளிடவும்',
+  'organization.created': 'நிறுவனம் வெற்றிகரமாக உருவாக்கப்பட்டது!',
+  'organization.createRetry': 'நிறுவனத்தை உருவாக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'organization.createFailed': 'நிறுவனத்தை உருவாக்க முடியவில்லை',
+  'organization.creating': 'உருவாக்கப்படுகிறது...',
+
+  // Organization switcher
+  'organization.getStarted': 'தொடங்குங்கள்',
+  'organization.organizations': 'நிறுவனங்கள்',
+}
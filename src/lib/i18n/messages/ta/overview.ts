@@ -0,0 +1,29 @@
+import type { overview as en } from "../en/overview"
+
+// Dashboard overview cards and financial chart
+export const overview: Record<keyof typeof en, string> = {
+  // Summary cards
+  'overview.monthlyRevenue': 'மாதாந்த வருவாய்',
+  'overview.fromTeaSales': 'தேயிலை விற்பனையிலிருந்து',
+  'overview.comparedToLastMonth': 'கடந்த மாதத்துடன் ஒப்பிடுகையில்',
+  'overview.monthlyExpenses': 'மாதாந்தச் செலவுகள்',
+  'overview.workerPayments': 'தொழிலாளர் கொடுப்பனவுகள்',
+  'overview.salariesAndAdvances': 'சம்பளங்களும் முற்பணங்களும்',
+  'overview.monthlyProfit': 'மாதாந்த இலாபம்',
+  'overview.revenueLessExpenses': 'வருவாய் - செலவுகள்',
+  'overview.netProfitThisMonth': 'இந்த மாத நிகர இலாபம்',
+  'overview.todaysHarvest': 'இன்றைய அறுவடை',
+  'overview.leavesPlucked': 'பறித்த தேயிலை இலைகள்',
+  'overview.comparedToYesterday': 'நேற்றுடன் ஒப்பிடுகையில்',
+
+  // Financial chart
+  'overview.financialOverview': 'நிதிக் கண்ணோட்டம்',
+  'overview.revenue': 'வருவாய்',
+  'overview.expenses': 'செலவுகள்',
+  'overview.profit': 'இலாபம்',
+  'overview.last3Months': 'கடந்த 3 மாதங்கள்',
+  'overview.last30Days': 'கடந்த 30 நாட்கள்',
+  'overview.last7Days': 'கடந்த 7 நாட்கள்',
+  'overview.selectRange': 'ஒரு காலப்பகுதியைத் தேர்ந்தெடு',
+  'overview.loadingChart': 'வரைபடத் தரவு ஏற்றப்படுகிறது...',
+}
@@ -0,0 +1,59 @@
+import type { plantations as en } from "../en/plantations"
+
+// Plantations
+export const plantations: Record<keyof typeof en, string> = {
+  // Plantation list
+  'plantations.title': 'தோட்டங்கள்',
+  'plantations.add': 'தோட்டத்தைச் சேர்',
+  'plantations.addShort': 'சேர்',
+  'plantations.search': 'தோட்டங்களைத் தேடு...',
+  'plantations.loading': 'தோட்டங்கள் ஏற்றப்படுகின்றன...',
+  'plantations.none': 'தோட்டங்கள் எதுவும் இல்லை',
+  'plantations.variety': 'வகை',
+  'plantations.area': 'பரப்பளவு',
+  'plantations.plants': 'செடிகள்',
+  'plantations.established': 'நிறுவப்பட்டது',
+  'plantations.hectaresValue': '{value} ஹெ',
+  'plantations.hasWorkers': 'தொழிலாளர்கள் ஒதுக்கப்பட்டுள்ளதால் "{name}" ஐ நீக்க முடியாது. முதலில் தொழிலாளர்களை வேறிடத்துக்கு மாற்றவும் அல்லது நீக்கவும்.',
+  'plantations.confirmDelete': '{name} ஐ நீக்க விரும்புகிறீர்களா?',
+  'plantations.deleteFailed': 'தோட்டத்தை நீக்க முடியவில்லை',
+
+  // Plantation details
+  'plantations.workers': 'தொழிலாளர்கள்',
+  'plantations.monthly': 'மாதாந்த',
+  'plantations.dailyAvg': 'தினசரி சராசரி',
+  'plantations.notSpecified': 'குறிப்பிடப்படவில்லை',
+
+  // Plantation form
+  'plantations.editTitle': 'தோட்டத்தைத் திருத்து',
+  'plantations.addTitle': 'புதிய தோட்டத்தைச் சேர்',
+  'plantations.editDescription': 'தோட்ட விவரங்களைப் புதுப்பி',
+  'plantations.addDescription': 'உங்கள் முகாமைத்துவ அமைப்பில் புதிய தேயிலைத் தோட்டத்தைச் சேர்',
+  'plantations.image': 'தோட்டப் படம்',
+  'plantations.imagePreview': 'தோட்ட முன்னோட்டம்',
+  'plantations.noImage': 'படம் இல்லை',
+  'plantations.uploading': 'பதிவேற்றப்படுகிறது...',
+  'plantations.uploadImage': 'படத்தைப் பதிவேற்று',
+  'plantations.imageLimits': 'அதிகபட்சம்: 5MB (JPG, PNG, WebP)',
+  'plantations.name': 'தோட்டப் பெயர் *',
+  'plantations.location': 'இடம் *',
+  'plantations.areaHectares': 'பரப்பளவு (ஹெக்டேயர்) *',
+  'plantations.teaVariety': 'தேயிலை வகை *',
+  'plantations.teaVarietyPlaceholder': 'உ-ம்: இலங்கைக் கறுப்புத் தேயிலை, பச்சைத் தேயிலை',
+  'plantations.numberOfPlants': 'செடிகளின் எண்ணிக்கை',
+  'plantations.establishedDate': 'நிறுவிய திகதி',
+  'plantations.update': 'தோட்டத்தைப் புதுப்பி',
+  'plantations.create': 'தோட்டத்தை உருவாக்கு',
+  'plantations.selectImage': 'படக் கோப்பைத் தெரிவு செய்யவும்',
+  'plantations.imageTooLarge': 'படம் 5MB க்குக் குறைவாக இருக்க வேண்டும்',
+  'plantations.imageUploaded': 'படம் வெற்றிகரமாகப் பதிவேற்றப்பட்டது',
+  'plantations.imageFailed': 'படத்தைப் பதிவேற்ற முடியவில்லை',
+  'plantations.updated': 'தோட்டம் வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது',
+  'plantations.created': 'தோட்டம் வெற்றிகரமாக உருவாக்கப்பட்டது',
+  'plantations.saveFailed': 'தோட்டத்தைச் சேமிக்க முடியவில்லை',
+  'plantations.error.name': 'பெயர் குறைந்தது 2 எழுத்துகளாக இருக்க வேண்டும்',
+  'plantations.error.location': 'இடம் குறைந்தது 2 எழுத்துகளாக இருக்க வேண்டும்',
+  'plantations.error.area': 'பரப்பளவு நேர்மறையாக இருக்க வேண்டும்',
+  'plantations.error.teaVariety': 'தேயிலை வகை அவசியம்',
+  'plantations.error.plants': 'செடிகளின் எண்ணிக்கை நேர்மறையாக இருக்க வேண்டும்',
+}
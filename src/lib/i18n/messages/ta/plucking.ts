@@ -0,0 +1,222 @@
+import type { plucking as en } from "../en/plucking"
+
+// Daily records, bulk entry, import and offline sync
+export const plucking: Record<keyof typeof en, string> = {
+  // Bulk entry
+  'plucking.bulk.title': 'மொத்த உள்ளீடு',
+  'plucking.bulk.summary': 'திகதி: {date} • செயலில் உள்ள பணியாளர்கள் {count}',
+  'plucking.bulk.holidayRate': '(கொழுந்து பறித்தல் ×{rate})',
+  'plucking.bulk.keysHint': 'வரிசைகளுக்கிடையே செல்ல Enter/↑/↓, நெடுவரிசைகளுக்கிடையே Tab',
+  'plucking.bulk.kg': 'கி.கி.',
+  'plucking.bulk.rate': 'கி.கி. விகிதம்',
+  'plucking.bulk.extraAmount': 'மேலதிகம் (ரூ)',
+  'plucking.bulk.extraWork': 'மேலதிக வேலை',
+  'plucking.bulk.wage': 'கூலி',
+  'plucking.bulk.recorded': 'பதிவு செய்யப்பட்டது',
+  'plucking.bulk.placeholder.kg': 'கி.கி.',
+  'plucking.bulk.placeholder.amount': 'ரூ',
+  'plucking.bulk.placeholder.description': 'உ.ம்., களையெடுத்தல்',
+  'plucking.bulk.totals': '{rows} வரிசைகள் • {kg} • {amount}',
+  'plucking.bulk.includeRecorded': 'இந்தத் திகதியில் ஏற்கனவே பதிவு செய்யப்பட்ட {count} பணியாளர்களையும் சேமிக்கவும் (இரண்டாவது பதிவைச் சேர்க்கும்)',
+  'plucking.bulk.saveAll': 'அனைத்தையும் சேமி',
+  'plucking.bulk.loadFailed': 'பணியாளர்களை ஏற்ற முடியவில்லை',
+  'plucking.bulk.nothingEntered': 'குறைந்தது ஒரு பணியாளருக்கு கி.கி. அல்லது மேலதிக வேலையை உள்ளிடவும்',
+  'plucking.bulk.saved': '{count} பதிவுகள் சேமிக்கப்பட்டன',
+  'plucking.bulk.savedWithFailures': '{saved} சேமிக்கப்பட்டன, {failed} தோல்வியடைந்தன',
+  'plucking.bulk.rowsFailed': '{count} வரிசைகளைச் சேமிக்க முடியவில்லை',
+  'plucking.bulk.saveFailed': 'பதிவுகளைச் சேமிக்க முடியவில்லை',
+  'plucking.bulk.extraWorkFailed': '{count} பதிவுகள் சேமிக்கப்பட்டன, ஆனால் அவற்றின் கூடுதல் வேலையைச் சேமிக்க முடியவில்லை. தினசரி பட்டியலிலிருந்து ஒவ்வொரு பதிவிலும் அதைச் சேர்க்கவும்.',
+  'plucking.bulk.alreadyRecorded': 'இந்தத் திகதியில் ஏற்கனவே பதிவு செய்யப்பட்டுள்ளது',
+
+  // Bulk entry validation
+  'plucking.error.kgPositive': 'பறித்த கி.கி. நேர்ம எண்ணாக இருக்க வேண்டும்',
+  'plucking.error.kgTooHigh': 'பறித்த கி.கி. {max} ஐ விட அதிகமாக இருக்க முடியாது',
+  'plucking.error.rateRequired': 'கி.கி.க்கான விகிதம் தேவை',
+  'plucking.error.extraPositive': 'மேலதிக வேலைத் தொகை நேர்ம எண்ணாக இருக்க வேண்டும்',
+  'plucking.error.describeExtra': 'மேலதிக வேலையை விவரிக்கவும்',
+  'plucking.error.nothingEntered': 'பறித்த கி.கி. அல்லது மேலதிக வேலையை உள்ளிடவும்',
+
+  // Import
+  'plucking.import.title': 'தினசரி பதிவுகளை இறக்குமதி செய்',
+  'plucking.import.stepUpload': 'படி 1/3 • தலைப்பு வரிசையுடன் கூடிய CSV அல்லது XLSX கோப்பைத் தேர்ந்தெடுக்கவும்',
+  'plucking.import.stepMap': 'படி 2/3 • {file} இலுள்ள நெடுவரிசைகளைப் பதிவுப் புலங்களுடன் பொருத்தவும்',
+  'plucking.import.stepPreview': 'படி 3/3 • {total} வரிசைகளில் {ready} இறக்குமதிக்குத் தயார்',
+  'plucking.import.chooseFile': 'கோப்பைத் தேர்ந்தெடுக்கக் கிளிக் செய்யவும்',
+  'plucking.import.columnsHint': 'நெடுவரிசைகள்: பணியாளர் இலக்கம், திகதி, கி.கி., விகிதம், முற்பணக் குறி',
+  'plucking.import.back': 'பின்செல்',
+  'plucking.import.preview': 'முன்னோட்டம்',
+  'plucking.import.importRecords': '{count} பதிவுகளை இறக்குமதி செய்',
+  'plucking.import.noRows': 'கோப்பில் தரவு வரிசைகள் இல்லை',
+  'plucking.import.readFailed': 'கோப்பைப் படிக்க முடியவில்லை. CSV அல்லது XLSX கோப்பைப் பயன்படுத்தவும்.',
+  'plucking.import.mapColumns': '{fields} நெடுவரிசையைப் பொருத்தவும்',
+  'plucking.import.checkFailed': 'இறக்குமதி வரிசைகளைச் சரிபார்க்க முடியவில்லை',
+  'plucking.import.imported': '{count} பதிவுகள் இறக்குமதி செய்யப்பட்டன',
+  'plucking.import.partial': '{total} பதிவுகளில் {imported} இறக்குமதி செய்யப்பட்டன: {error}',
+  'plucking.import.failed': 'இறக்குமதி தோல்வியடைந்தது',
+  'plucking.import.notInFile': 'கோப்பில் இல்லை',
+  'plucking.import.column': 'நெடுவரிசை {number}',
+  'plucking.import.dateFormat': 'திகதி வடிவம்',
+  'plucking.import.field.advanceFlag': 'முற்பணக் குறி',
+  'plucking.import.field.advanceAmount': 'முற்பணத் தொகை',
+  'plucking.import.showAll': 'எல்லா வரிசைகளையும் காட்டு',
+  'plucking.import.showProblems': 'சிக்கல்களை மட்டும் காட்டு',
+  'plucking.import.line': 'வரி',
+  'plucking.import.employee': 'பணியாளர்',
+  'plucking.import.type': 'வகை',
+  'plucking.import.kg': 'கி.கி.',
+  'plucking.import.rate': 'விகிதம்',
+  'plucking.import.plucking': 'கொழுந்து பறித்தல்',
+  'plucking.import.status.ready': 'தயார்',
+  'plucking.import.status.unknown_worker': 'அறியப்படாத பணியாளர்',
+  'plucking.import.status.duplicate_in_file': 'கோப்பில் நகல்',
+  'plucking.import.status.already_exists': 'ஏற்கனவே பதிவு செய்யப்பட்டது',
+  'plucking.import.status.invalid': 'செல்லாதது',
+
+  // Import validation
+  'plucking.import.error.badDate': 'அடையாளம் காணப்படாத திகதி "{value}"',
+  'plucking.import.error.noDate': 'திகதி இல்லை',
+  'plucking.import.error.negative': 'தொகைகள் நேர்ம எண்களாக இருக்க வேண்டும்',
+  'plucking.import.error.noAdvance': 'முற்பணத் தொகை இல்லை',
+  'plucking.import.error.noKg': 'பறித்த கி.கி. இல்லை',
+  'plucking.import.error.noRate': 'கி.கி.க்கான விகிதம் இல்லை',
+  'plucking.import.error.unknownWorker': '"{id}" இலக்கமுடைய பணியாளர் இல்லை',
+  'plucking.import.error.monthClosed': 'இந்த மாதச் சம்பளப் பட்டியல் மூடப்பட்டுள்ளது',
+  'plucking.import.error.workerLeft': 'பணியாளர் {date} அன்று விலகினார்',
+  'plucking.import.error.exists': 'இந்தப் பணியாளருக்கும் திகதிக்கும் ஏற்கனவே ஒரு பதிவு உள்ளது',
+  'plucking.import.error.duplicate': 'அதே பணியாளரும் திகதியும் கோப்பில் முன்னர் வருகின்றன',
+
+  // Offline sync
+  'plucking.sync.title': 'மதிப்பாய்வு செய்ய வேண்டிய இணைப்பற்ற பதிவுகள்',
+  'plucking.sync.description': 'இந்தப் பதிவுகள் இணைப்பற்ற நிலையில் இந்தச் சாதனத்தில் சேமிக்கப்பட்டு சேவையகத்தில் உள்ளவற்றுடன் முரண்படுகின்றன',
+  'plucking.sync.allResolved': 'அனைத்து இணைப்பற்ற பதிவுகளும் தீர்க்கப்பட்டன',
+  'plucking.sync.savedOffline': 'இணைப்பற்ற நிலையில் சேமிக்கப்பட்டது',
+  'plucking.sync.onServer': 'சேவையகத்தில்',
+  'plucking.sync.noRecord': 'பதிவு இல்லை',
+  'plucking.sync.advance': 'முற்பணம் {amount}',
+  'plucking.sync.norm': '({kg} நியமம்)',
+  'plucking.sync.mine.edited': 'என்னுடையதை வைத்திரு',
+  'plucking.sync.server.edited': 'சேவையகப் பதிப்பை வைத்திரு',
+  'plucking.sync.mine.deleted': 'மீண்டும் சேர்',
+  'plucking.sync.server.deleted': 'நீக்கியபடியே விடு',
+  'plucking.sync.mine.duplicate': 'என்னுடையதையும் சேர்',
+  'plucking.sync.mine.rejected': 'மீண்டும் முயற்சி',
+  'plucking.sync.discardMine': 'என்னுடையதை நிராகரி',
+  'plucking.sync.reason.edited': 'இந்தப் பதிவு வேறொரு சாதனத்தில் மாற்றப்பட்டது',
+  'plucking.sync.reason.deleted': 'இந்தப் பதிவு வேறொரு சாதனத்தில் நீக்கப்பட்டது',
+  'plucking.sync.reason.duplicate': 'இந்தப் பணியாளருக்கும் திகதிக்கும் ஏற்கனவே ஒரு பதிவு உள்ளது',
+  'plucking.sync.kept': 'இணைப்பற்ற பதிவு சேமிக்கப்பட்டது',
+  'plucking.sync.discarded': 'இணைப்பற்ற பதிவு நிராகரிக்கப்பட்டது',
+  'plucking.sync.resolveFailed': 'முரண்பாட்டைத் தீர்க்க முடியவில்லை',
+  'plucking.sync.syncedOne': '1 இணைப்பற்ற பதிவு ஒத்திசைக்கப்பட்டது',
+  'plucking.sync.synced': '{count} இணைப்பற்ற பதிவுகள் ஒத்திசைக்கப்பட்டன',
+  'plucking.sync.needsReviewOne': '1 இணைப்பற்ற பதிவுக்கு உங்கள் மதிப்பாய்வு தேவை',
+  'plucking.sync.needsReview': '{count} இணைப்பற்ற பதிவுகளுக்கு உங்கள் மதிப்பாய்வு தேவை',
+  'plucking.sync.queued': 'நீங்கள் இணைப்பில் இல்லை. பதிவு இந்தச் சாதனத்தில் சேமிக்கப்பட்டு இணைப்பு மீண்டதும் ஒத்திசைக்கப்படும்',
+
+  // Daily records
+  'plucking.title': 'தினசரி பதிவுகள்',
+  'plucking.loading': 'பதிவுகள் ஏற்றப்படுகின்றன...',
+  'plucking.offline': 'இணைப்பில் இல்லை',
+  'plucking.pendingSync': '{count} ஒத்திசைவுக்குக் காத்திருக்கின்றன',
+  'plucking.toReview': '{count} மதிப்பாய்வுக்கு',
+  'plucking.importFile': 'CSV/XLSX இறக்குமதி',
+  'plucking.attendance': 'வருகை',
+  'plucking.addRecord': 'பதிவைச் சேர்',
+  'plucking.editRecord': 'பதிவைத் திருத்து',
+  'plucking.search': 'பணியாளர்களைத் தேடு...',
+  'plucking.totalKg': 'மொத்த கி.கி.',
+  'plucking.paidAdvances': 'செலுத்தியவை (முற்பணம்)',
+  'plucking.toBePaid': 'செலுத்த வேண்டியவை',
+  'plucking.recordsFor': '{date} இற்கான பதிவுகள்',
+  'plucking.recordCountOne': '1 பதிவு',
+  'plucking.recordCount': '{count} பதிவுகள்',
+  'plucking.matching': ' "{search}" உடன் பொருந்தும்',
+  'plucking.readOnly': ' • இந்த மாதச் சம்பளப் பட்டியல் மூடப்பட்டுள்ளது, பதிவுகளைப் படிக்க மட்டுமே முடியும்',
+  'plucking.noneMatching': '"{search}" உடன் பொருந்தும் பதிவுகள் இல்லை',
+  'plucking.noneForDate': 'இந்தத் திகதிக்குப் பதிவுகள் இல்லை',
+  'plucking.tryDifferentSearch': 'வேறு தேடல் சொல்லை முயற்சிக்கவும்',
+  'plucking.addHint': 'பணியாளர்களுக்கு கொழுந்து பறிப்புப் பதிவுகளைச் சேர்க்கவும்',
+  'plucking.unknownWorker': 'தெரியாது',
+  'plucking.extraWork': 'மேலதிக வேலை',
+
+  // Record types
+  'plucking.type.plucking': 'கொழுந்து பறித்தல்',
+  'plucking.type.pluckingWork': 'கொழுந்து பறித்தல் + வேலை',
+  'plucking.pendingBadge': 'ஒத்திசைவுக்குக் காத்திருக்கிறது',
+  'plucking.conflictBadge': 'ஒத்திசைவு முரண்பாடு',
+  'plucking.reviewConflict': 'ஒத்திசைவு முரண்பாட்டை மதிப்பாய்வு செய்',
+  'plucking.waitingToSync': 'இந்தச் சாதனத்தில் சேமிக்கப்பட்டது, ஒத்திசைவுக்குக் காத்திருக்கிறது',
+  'plucking.editTooltip': 'பதிவைத் திருத்து',
+  'plucking.deleteTooltip': 'பதிவை நீக்கு',
+  'plucking.signedByWorker': 'பணியாளர் கையொப்பமிட்டார்',
+  'plucking.collectSignature': 'பணியாளரின் கையொப்பத்தைப் பெறு',
+  'plucking.advanceTooltip': 'முற்பணக் கொடுப்பனவு (மாதச் சம்பளத்திலிருந்து கழிக்கப்படும்)',
+  'plucking.extraWorkLabel': 'மேலதிக வேலை:',
+  'plucking.totalLabel': 'மொத்தம்: {amount}',
+
+  // Record form
+  'plucking.form.date': 'திகதி: {date}',
+  'plucking.form.worker': 'பணியாளர் *',
+  'plucking.form.selectWorker': 'பணியாளரைத் தேர்ந்தெடு',
+  'plucking.form.advanceAmount': 'முற்பணத் தொகை (ரூ) *',
+  'plucking.form.advancePlaceholder': 'உ.ம்., 5000',
+  'plucking.form.advancePayment': 'முற்பணக் கொடுப்பனவு',
+  'plucking.form.deductedMonthly': 'மாதச் சம்பளத்திலிருந்து கழிக்கப்படும்',
+  'plucking.form.kgPlucked': 'பறித்த கி.கி. *',
+  'plucking.form.kgPlaceholder': 'உ.ம்., 15.5',
+  'plucking.form.rate': 'கி.கி. விகிதம் (ரூ) *',
+  'plucking.form.ratePlaceholder': 'உ.ம்., 150',
+  'plucking.form.addWork': 'வேலையைச் சேர்',
+  'plucking.form.workType': 'வகை',
+  'plucking.form.otherWork': 'மற்றவை',
+  'plucking.form.dailySalary': 'தினசரி சம்பளம்',
+  'plucking.form.extra': ' + மேலதிகம் {amount}',
+  'plucking.form.work': 'வேலை',
+  'plucking.form.notesPlaceholder': 'விருப்பக் குறிப்புகள்...',
+  'plucking.form.update': 'புதுப்பி',
+  'plucking.form.add': 'சேர்',
+
+  // Saving
+  'plucking.loadWorkersFailed': 'பணியாளர்களை ஏற்ற முடியவில்லை',
+  'plucking.loadFailed': 'பதிவுகளை ஏற்ற முடியவில்லை',
+  'plucking.deleteNeedsConnection': 'பதிவுகளை நீக்க இணைப்பு தேவை',
+  'plucking.confirmDelete': '{name} இன் பதிவை நீக்கவா?',
+  'plucking.deleted': 'பதிவு வெற்றிகரமாக நீக்கப்பட்டது',
+  'plucking.deleteFailed': 'பதிவை நீக்க முடியவில்லை',
+  'plucking.saveAnyway': 'இருந்தாலும் சேமிக்கவா?',
+  'plucking.limitCheckFailed': 'முற்பண வரம்பைச் சரிபார்க்க முடியவில்லை',
+  'plucking.advanceAddedKeeping': 'ஏற்கனவே உள்ள கொழுந்து பறிப்புப் பதிவை வைத்துக்கொண்டு முற்பணப் பதிவு சேர்க்கப்பட்டது',
+  'plucking.pluckingAddedKeeping': 'ஏற்கனவே உள்ள முற்பணப் பதிவை வைத்துக்கொண்டு கொழுந்து பறிப்புப் பதிவு சேர்க்கப்பட்டது',
+  'plucking.updated': 'பதிவு வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது',
+  'plucking.bothAdded': 'கொழுந்து பறிப்பு மற்றும் முற்பணப் பதிவுகள் வெற்றிகரமாகச் சேர்க்கப்பட்டன',
+  'plucking.advanceAdded': 'முற்பணப் பதிவு வெற்றிகரமாகச் சேர்க்கப்பட்டது',
+  'plucking.pluckingAdded': 'கொழுந்து பறிப்புப் பதிவு வெற்றிகரமாகச் சேர்க்கப்பட்டது',
+  'plucking.saveFailed': 'பதிவைச் சேமிக்க முடியவில்லை',
+
+  // Advance signature and payment details
+  'plucking.receiptTitle': 'முற்பண ரசீது • {name}',
+  'plucking.receiptDescription': '{amount} முற்பணம். பணத்தைப் பெற்றதை உறுதிப்படுத்த பணியாளர் கையொப்பமிடுகிறார்.',
+  'plucking.details.title': 'கொடுப்பனவு விவரங்கள்',
+  'plucking.details.amount': 'தொகை:',
+  'plucking.details.advanceNote': 'இந்த முற்பணம் பணியாளரின் மாதச் சம்பளத்திலிருந்து கழிக்கப்படும்',
+  'plucking.details.kgPlucked': 'பறித்த கி.கி.:',
+  'plucking.details.rate': 'கி.கி.க்கான விகிதம்:',
+  'plucking.details.pluckingAmount': 'கொழுந்து பறிப்புத் தொகை:',
+  'plucking.details.totalAmount': 'மொத்தத் தொகை:',
+
+  // Printed daily report
+  'plucking.report.title': 'தினசரி பதிவுகள் - {date}',
+  'plucking.report.heading': 'தினசரி பதிவுகள் அறிக்கை',
+  'plucking.report.totalWage': 'மொத்தக் கூலி',
+  'plucking.report.totalKg': 'பறித்த மொத்த கி.கி.:',
+  'plucking.report.paid': 'செலுத்தியவை (முற்பணம்):',
+  'plucking.report.toBePaid': 'செலுத்த வேண்டியவை (வேலை):',
+
+  // Wage under the plucking norm
+  'plucking.norm.simple': '{kg} × {rate} = {wage}',
+  'plucking.norm.reached': '{norm} நியமம் எட்டப்பட்டது: {wage}',
+  'plucking.norm.below': '{kg} × {rate} ({norm} நியமத்திற்குக் குறைவு) = {wage}',
+  'plucking.norm.overKilo': 'மேலதிக கிலோ {kg}: {amount}',
+  'plucking.norm.topUp': 'குறைந்தபட்சக் கூலி நிரப்பல்: {amount}',
+  'plucking.norm.holiday': 'விடுமுறை விகிதம்: {amount}',
+}
@@ -0,0 +1,77 @@
+import type { reports as en } from "../en/reports"
+
+// Printed reports
+export const reports: Record<keyof typeof en, string> = {
+  'reports.dailyRecords': 'தினசரி பதிவு அறிக்கை',
+  'reports.dailyRecordsDescription': 'தொழிலாளர் விவரங்கள் மற்றும் கூலியுடன் தினசரி பறிப்புப் பதிவுகள்',
+  'reports.salary': 'சம்பள அறிக்கை',
+  'reports.salaryDescription': 'அனைத்து தொழிலாளர்களின் மாதாந்த சம்பளச் சுருக்கம்',
+  'reports.extraWork': 'மேலதிக வேலை அறிக்கை',
+  'reports.extraWorkDescription': 'வேலை வகை வாரியாக மேலதிக வேலைக் கொடுப்பனவுகள்',
+  'reports.contributions': 'EPF/ETF பங்களிப்பு அறிக்கை',
+  'reports.contributionsDescription': 'செலுத்துவதற்கான மாதாந்த EPF மற்றும் ETF பங்களிப்புச் சுருக்கம்',
+  'reports.workers': 'தொழிலாளர் அறிக்கை',
+  'reports.workersDescription': 'விவரங்களுடன் முழுமையான தொழிலாளர் பட்டியல்',
+  'reports.teaSales': 'தேயிலை விற்பனை அறிக்கை',
+  'reports.teaSalesDescription': 'தேயிலை விற்பனை மற்றும் வருவாய்ச் சுருக்கம்',
+  'reports.financial': 'நிதிச் சுருக்கம்',
+  'reports.financialDescription': 'வருவாய், செலவுகள் மற்றும் இலாபம்',
+  'reports.selectType': 'அறிக்கை வகையைத் தெரிவு செய்க',
+  'reports.selectTypeDescription': 'தயாரிக்க வேண்டிய அறிக்கை வகையைத் தெரிவு செய்க',
+  'reports.dateRange': 'திகதி வரம்பு',
+  'reports.dateRangeDescription': 'அறிக்கைக்கான காலப்பகுதியைத் தெரிவு செய்க',
+  'reports.thisMonth': 'இம்மாதம்',
+  'reports.lastMonth': 'கடந்த மாதம்',
+  'reports.last3Months': 'கடந்த 3 மாதங்கள்',
+  'reports.from': 'இருந்து',
+  'reports.to': 'வரை',
+  'reports.generating': 'தயாரிக்கப்படுகிறது...',
+  'reports.generate': 'அறிக்கையைத் தயாரி',
+  'reports.selectTypeError': 'அறிக்கை வகையொன்றைத் தெரிவு செய்க',
+  'reports.allowPopups': 'அறிக்கைகளைத் தயாரிக்க pop-up களை அனுமதிக்கவும்',
+  'reports.generated': 'அறிக்கை வெற்றிகரமாகத் தயாரிக்கப்பட்டது',
+  'reports.failed': 'அறிக்கையைத் தயாரிக்க முடியவில்லை',
+  'reports.type': 'வகை',
+  'reports.plucking': 'பறிப்பு',
+  'reports.pluckingAndWork': 'பறிப்பு + வேலை',
+  'reports.totalWage': 'மொத்தக் கூலி',
+  'reports.quantityKg': 'அளவு (கி.கி.)',
+  'reports.totalIncome': 'மொத்த வருமானம்',
+  'reports.factory': 'தொழிற்சாலை',
+  'reports.grossIncome': 'மொத்த வருமானம்',
+  'reports.deductions': 'கழிவுகள்',
+  'reports.netIncome': 'நிகர வருமானம்',
+  'reports.totalRevenue': 'மொத்த வருவாய்',
+  'reports.totalExpenses': 'மொத்தச் செலவுகள்',
+  'reports.netProfit': 'நிகர இலாபம்',
+  'reports.byWorkType': 'வேலை வகை வாரியாக',
+  'reports.byWorker': 'தொழிலாளர் வாரியாக',
+  'reports.share': 'பங்கு',
+  'reports.workType': 'வேலை வகை',
+  'reports.entries': 'பதிவுகள்',
+  'reports.amount': 'தொகை',
+  'reports.contributoryWages': 'பங்களிப்புச் சம்பளங்கள்',
+  'reports.contributoryWage': 'பங்களிப்புச் சம்பளம்',
+  'reports.epfEmployee': 'ஊழியர் EPF {rate}%',
+  'reports.epfEmployer': 'தொழில்தருநர் EPF {rate}%',
+  'reports.totalEpf': 'மொத்த EPF',
+  'reports.etf': 'ETF {rate}%',
+  'reports.epfRemittance': 'EPF செலுத்துகை',
+  'reports.etfRemittance': 'ETF செலுத்துகை',
+  'reports.closedPayroll': 'மூடப்பட்ட சம்பளப் பட்டியல்',
+  'reports.notClosed': 'மூடப்படவில்லை, தற்போதைய பதிவுகளிலிருந்து கணிக்கப்பட்டது',
+  'reports.totalMembers': 'மொத்தம் ({count} உறுப்பினர்கள்)',
+  'reports.noContributions': 'இக்காலப்பகுதியில் பங்களிப்புச் சம்பளங்கள் இல்லை.',
+  'reports.transport': 'போக்குவரத்து அறிக்கை',
+  'reports.transportDescription': 'கொழுந்து சேகரிப்பு பயணங்கள் மற்றும் தொழிற்சாலை வாரியாக கிலோவுக்கான போக்குவரத்து செலவு',
+  'reports.byFactory': 'தொழிற்சாலை வாரியாக',
+  'reports.trips': 'பயணங்கள்',
+  'reports.transportCosts': 'போக்குவரத்து செலவுகள்',
+  'reports.costPerKg': 'செலவு/கிலோ',
+  'reports.vehicle': 'வாகனம்',
+  'reports.driver': 'ஓட்டுநர்',
+  'reports.tripCost': 'பயண செலவு',
+  'reports.noTrips': 'இந்த காலத்தில் சேகரிப்பு பயணங்கள் இல்லை.',
+  'reports.expenseBreakdown': 'செலவு விவரம்',
+  'reports.wages': 'சம்பளங்கள்',
+}
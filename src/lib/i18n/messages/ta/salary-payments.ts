@@ -0,0 +1,109 @@
+import type { salaryPayments as en } from "../en/salary-payments"
+
+// Salary payments, bank files, cash pay day and closing the month
+export const salaryPayments: Record<keyof typeof en, string> = {
+  // Recording payments
+  'payments.title': 'சம்பளக் கொடுப்பனவுகள் • {name}',
+  'payments.summary': '{month} • நிகரம் {net} • செலுத்தியது {paid} •',
+  'payments.balance': 'மீதி',
+  'payments.none': 'இம்மாதம் கொடுப்பனவுகள் எதுவும் செய்யப்படவில்லை',
+  'payments.fullSalary': 'முழுச் சம்பளம்',
+  'payments.ref': 'குறிப்பு {reference}',
+  'payments.sign': 'கையொப்பமிடு',
+  'payments.signatureAlt': 'தொழிலாளரின் கையொப்பம்',
+  'payments.record': 'கொடுப்பனவைப் பதிவு செய்',
+  'payments.enterAmount': 'செலுத்திய தொகையை உள்ளிடவும்',
+  'payments.overBalance': '{amount} என்பது {balance} மீதியை விட அதிகம். இருந்தும் பதிவு செய்யவா?',
+  'payments.recorded': 'கொடுப்பனவு பதிவு செய்யப்பட்டது',
+  'payments.recordFailed': 'கொடுப்பனவைப் பதிவு செய்ய முடியவில்லை',
+  'payments.confirmDelete': '{date} அன்று செய்த {label} கொடுப்பனவை நீக்கவா?',
+  'payments.deleted': 'கொடுப்பனவு நீக்கப்பட்டது',
+  'payments.deleteFailed': 'கொடுப்பனவை நீக்க முடியவில்லை',
+  'payments.receiptTitle': 'சம்பளப் பற்றுச்சீட்டு • {name}',
+  'payments.receiptDescription': '{month} சம்பளம். பணம் கிடைத்ததை உறுதிப்படுத்த தொழிலாளர் கையொப்பமிடுவார்.',
+
+  // Paying several salaries at once
+  'payments.bulkTitle': 'தெரிவு செய்தவற்றைச் செலுத்தியதாகக் குறி • {month}',
+  'payments.bulkDescription': 'ஒவ்வொரு தொழிலாளரின் மீதித் தொகைக்கும் ஒரு கொடுப்பனவைப் பதிவு செய்யும். பணமாகப் பெறுபவர்கள் பின்னர் தமது கொடுப்பனவுகளில் கையொப்பமிடலாம்.',
+  'payments.allPaid': 'தெரிவு செய்த சம்பளங்கள் ஏற்கனவே செலுத்தப்பட்டுள்ளன',
+  'payments.alreadyPaid': '{amount} ஏற்கனவே செலுத்தப்பட்டது',
+  'payments.nothingLeft': 'தெரிவு செய்த {count} சம்பளங்களில் செலுத்த எதுவும் மீதியில்லை.',
+  'payments.salaryCount': '{count} சம்பளங்கள் •',
+  'payments.markedPaid': '{count} சம்பளங்கள் செலுத்தியதாகக் குறிக்கப்பட்டன',
+  'payments.recordManyFailed': 'கொடுப்பனவுகளைப் பதிவு செய்ய முடியவில்லை',
+
+  // Bank payment file
+  'bank.title': 'வங்கிக் கொடுப்பனவுக் கோப்பு • {month}',
+  'bank.description': 'வங்கிப் பரிமாற்றம் மூலம் சம்பளம் பெறும் தொழிலாளர்களின் செலுத்தப்படாத மீதிகள். ஒவ்வொரு வரியும் வங்கிக் கொடுப்பனவாகப் பதிவு செய்யப்பட்ட பின் கோப்பு பதிவிறக்கப்படும்.',
+  'bank.fileColumns': 'கோப்பு நெடுவரிசைகள்',
+  'bank.fileColumnsHint': 'உங்கள் வங்கியின் பதிவேற்ற வார்ப்புருவுக்குப் பொருந்தும்படி நிறுவன அமைப்புகளில் அமைக்கவும்',
+  'bank.column.account_name': 'கணக்குப் பெயர்',
+  'bank.column.account_number': 'கணக்கு எண்',
+  'bank.column.bank_code': 'வங்கிக் குறியீடு',
+  'bank.column.branch_code': 'கிளைக் குறியீடு',
+  'bank.column.amount': 'தொகை',
+  'bank.column.reference': 'குறிப்பு எண்',
+  'bank.column.employee_id': 'பணியாளர் எண்',
+  'bank.column.value_date': 'மதிப்புத் தேதி',
+  'bank.valueDate': 'பெறுமதித் திகதி',
+  'bank.noWorkers': 'இம்மாதம் சம்பளம் உள்ள எந்தத் தொழிலாளரும் வங்கிப் பரிமாற்றம் மூலம் பெறுவதில்லை',
+  'bank.generate': 'தயாரித்துச் செலுத்தியதாகக் குறி',
+  'bank.confirm': 'மொத்தம் {total} கொண்ட {count} சம்பளங்களுக்கு வங்கிக் கோப்பைத் தயாரிக்கவா? அவை செலுத்தியதாகக் குறிக்கப்படும்.',
+  'bank.markedPaid': '{count} சம்பளங்கள் வங்கி மூலம் செலுத்தியதாகக் குறிக்கப்பட்டன',
+  'bank.failed': 'வங்கிக் கோப்பைத் தயாரிக்க முடியவில்லை',
+  'bank.loadFailed': 'வங்கி விவரங்களை ஏற்ற முடியவில்லை',
+  'bank.alreadyPaid': 'ஏற்கனவே செலுத்தப்பட்டது',
+  'bank.nothingToPay': 'செலுத்த எதுவுமில்லை',
+  'bank.problem.bankCode': 'வங்கிக் குறியீடு 4 இலக்கங்களாக இருக்க வேண்டும்',
+  'bank.problem.branchCode': 'கிளைக் குறியீடு 3 இலக்கங்களாக இருக்க வேண்டும்',
+  'bank.problem.accountNumber': 'கணக்கு இலக்கத்தில் இலக்கங்கள் மட்டுமே இருக்க வேண்டும்',
+  'bank.problem.accountName': 'கணக்குப் பெயர் இல்லை',
+
+  // Cash pay day
+  'cash.title': 'பணச் சம்பள நாள் • {month}',
+  'cash.description': 'ஒவ்வொரு உறையையும் சரியாகத் தயாரிக்க எடுக்க வேண்டிய நோட்டுகளும் நாணயங்களும். பணமாகப் பெறும் தொழிலாளர்களின் செலுத்தப்படாத மீதிகள், அருகிலுள்ள ரூபாய்க்கு முழுமையாக்கப்பட்டவை.',
+  'cash.none': 'இம்மாதம் செலுத்தப்படாத பணச் சம்பளங்கள் இல்லை',
+  'cash.short': '{amount} குறைவு',
+  'cash.inexact': 'சிறிய மதிப்புகள் இல்லாமல் {count} உறைகளைச் சரியாகத் தயாரிக்க முடியாது.',
+  'cash.workerCount': '{count} தொழிலாளர்கள் •',
+  'cash.print': 'சம்பள நாள் தாளை அச்சிடு',
+  'cash.printFailed': 'சம்பள நாள் தாளை அச்சிட முடியவில்லை',
+
+  // Closing and reopening the month
+  'run.closed': 'மூடப்பட்டது',
+  'run.open': 'திறந்துள்ளது',
+  'run.closedBy': '{when} அன்று {member} • {count} தொழிலாளர்கள் • {total}',
+  'run.fromCurrentRecords': 'சம்பளங்கள் தற்போதைய பதிவுகளிலிருந்து கணிக்கப்படுகின்றன',
+  'run.aMember': 'ஒரு உறுப்பினர்',
+  'run.history': 'வரலாறு ({count})',
+  'run.reopen': 'மீண்டும் திற',
+  'run.closeMonth': 'மாதத்தை மூடு',
+  'run.historyClosed': '{when} அன்று {member} மூடினார் • {total}',
+  'run.historyReopened': '{when} அன்று {member} மீண்டும் திறந்தார்: {reason}',
+  'run.reopenTitle': '{month} ஐ மீண்டும் திற',
+  'run.reopenDescription': 'இம்மாதப் பதிவுகளை மீண்டும் திருத்தலாம். மூடிய நிலைப் பதிவு வரலாற்றில் வைக்கப்படும்.',
+  'run.reasonPlaceholder': 'உ-ம்: 14 ஆம் திகதி பறிப்புப் பதிவுகள் தவறான தொழிலாளருக்கு உள்ளிடப்பட்டன',
+  'run.reopenMonth': 'மாதத்தை மீண்டும் திற',
+  'run.reasonRequired': 'மீண்டும் திறப்பதற்கான காரணத்தைத் தரவும்',
+  'run.reopened': 'மாதம் மீண்டும் திறக்கப்பட்டது',
+  'run.reopenFailed': 'மாதத்தை மீண்டும் திறக்க முடியவில்லை',
+  'run.confirmClose': '{month} சம்பளப் பட்டியலை மூடவா? கீழுள்ள சம்பளங்கள் இறுதிச் சம்பளப் பட்டியலாகச் சேமிக்கப்படும், {month} இன் பறிப்பு, ஊக்கத்தொகை, முற்பணப் பதிவுகளை இனி மாற்ற முடியாது.',
+  'run.monthClosed': '{month} மூடப்பட்டது',
+  'run.closeFailed': 'மாதத்தை மூட முடியவில்லை',
+
+  // Salary page messages
+  'salary.loadFailed': 'சம்பளத் தரவை ஏற்ற முடியவில்லை',
+  'salary.bonusUpdated': 'ஊக்கத்தொகை புதுப்பிக்கப்பட்டது',
+  'salary.bonusFailed': 'ஊக்கத்தொகையைச் சேமிக்க முடியவில்லை',
+
+  // Closed months
+  'run.monthLocked': '{month} இற்கான சம்பளப் பட்டியல் மூடப்பட்டுள்ளது. அதை மாற்ற மாதத்தை மீண்டும் திறக்குமாறு உரிமையாளரிடம் கேளுங்கள்.',
+
+  // Bank account fields
+  'bank.field.bank': 'வங்கி',
+  'bank.field.selectBank': 'வங்கியைத் தேர்ந்தெடு',
+  'bank.field.branchCode': 'கிளைக் குறியீடு',
+  'bank.field.branchCodePlaceholder': 'எ.கா., 001',
+  'bank.field.accountNumber': 'கணக்கு இலக்கம்',
+  'bank.field.accountName': 'கணக்குப் பெயர்',
+}
@@ -0,0 +1,108 @@
+import type { salary as en } from "../en/salary"
+
+// Salary, payslips and the pay day sheet
+export const salary: Record<keyof typeof en, string> = {
+  // Salary management
+  'salary.title': 'சம்பள முகாமைத்துவம்',
+  'salary.searchWorkers': 'தொழிலாளர்களைத் தேடுக...',
+  'salary.avgPerDay': 'நாள் சராசரி',
+  'salary.employerContributions': 'தொழில்தருநர் EPF/ETF',
+  'salary.epfRate': 'EPF {rate}%',
+  'salary.employerEpfRate': 'தொழில்தருநர் EPF {rate}%',
+  'salary.etfRate': 'ETF {rate}%',
+  'salary.plucking': 'பறிப்பு',
+  'salary.overKilo': 'மேலதிக கிலோ உட்பட',
+  'salary.wageTopUp': 'குறைந்தபட்ச ஊதிய நிரப்பு உட்பட',
+  'salary.holidayPay': 'விடுமுறை நாள் விகிதம் உட்பட',
+  'salary.contributoryWage': 'பங்களிப்புச் சம்பளம்: {amount}',
+  'salary.employeeEpf': 'ஊழியர் EPF {rate}%: {amount}',
+  'salary.employerEpf': 'தொழில்தருநர் EPF {rate}%: {amount}',
+  'salary.etf': 'ETF {rate}%: {amount}',
+  'salary.givenThisMonth': 'இம்மாதம் வழங்கியது: {amount}',
+  'salary.recovered': 'அறவிடப்பட்டது: {amount}',
+  'salary.carriedToNextMonth': 'அடுத்த மாதத்திற்கு: {amount}',
+  'salary.earned': 'வருமானம்: {amount}',
+  'salary.plusBonus': '+ ஊக்கத்தொகை: {amount}',
+  'salary.plusAllowance': '+ வருகை கொடுப்பனவு: {amount}',
+  'salary.attendanceAllowance': 'வருகை கொடுப்பனவு',
+  'salary.minusAdvances': '- முற்பணங்கள்: {amount}',
+  'salary.minusEpf': '- EPF: {amount}',
+  'salary.net': 'நிகரம்: {amount}',
+  'salary.paid': 'செலுத்தப்பட்டது',
+  'salary.markPaid': 'செலுத்தியதாகக் குறி',
+  'salary.printPayslip': 'சம்பளச் சீட்டை அச்சிடு',
+  'salary.collectSignature': 'தொழிலாளியின் கையொப்பத்தைப் பெறு',
+  'salary.signed': 'தொழிலாளி கையொப்பமிட்டார்',
+  'salary.paidToDate': 'இதுவரை செலுத்தியது',
+  'salary.balance': 'மீதி',
+  'salary.partPaid': 'பகுதி செலுத்தப்பட்டது',
+  'salary.markSelectedPaid': '{count} செலுத்தியதாகக் குறி',
+  'salary.selectAll': 'அனைத்தையும் தேர்ந்தெடு',
+  'salary.selectWorker': 'தொழிலாளியைத் தேர்ந்தெடு',
+  'salary.generateAllPayslips': 'அனைத்து சம்பளச் சீட்டுகளையும் தயாரி',
+  'salary.downloadPayslipsPdf': 'சம்பளச் சீட்டுகளை PDF ஆகப் பதிவிறக்கு',
+  'salary.bankPaymentFile': 'வங்கி கொடுப்பனவுக் கோப்பு',
+  'salary.cashPlanner': 'பணக் கொடுப்பனவுத் திட்டம்',
+  'salary.loading': 'சம்பளத் தரவு ஏற்றப்படுகிறது...',
+  'salary.totalWorkers': 'மொத்த தொழிலாளர்கள்',
+  'salary.totalBonus': 'மொத்த ஊக்கத்தொகை',
+  'salary.totalPaid': 'மொத்தம் செலுத்தியது',
+  'salary.totalEpf': 'மொத்த EPF (ஊழியர் + தொழில்தருநர்)',
+  'salary.totalEtf': 'மொத்த ETF',
+  'salary.summary': 'சுருக்கம்',
+  'salary.workerSalaries': 'தொழிலாளர் சம்பளங்கள்',
+  'salary.workerCount': '{count} தொழிலாளர்கள்',
+  'salary.workerCountOne': '1 தொழிலாளர்',
+  'salary.matching': '"{term}" உடன் பொருந்துபவை',
+  'salary.hoverToEdit': 'திருத்த ஊக்கத்தொகை மீது வைக்கவும்',
+  'salary.noMatches': '"{term}" உடன் பொருந்தும் தொழிலாளர்கள் இல்லை',
+  'salary.noData': 'இம்மாதத்திற்கு சம்பளத் தரவு இல்லை',
+  'salary.tryDifferentSearch': 'வேறு தேடல் சொல்லை முயற்சிக்கவும்',
+  'salary.addRecordsHint': 'சம்பளக் கணக்கைப் பார்க்க தினசரி பதிவுகளைச் சேர்க்கவும்',
+  'salary.reportTitle': 'சம்பள அறிக்கை',
+  'salary.reportSubtitle': '{month} • {count} தொழிலாளர்கள்',
+
+  // Payslips
+  'payslip.title': '{month} சம்பளச் சீட்டு',
+  'payslip.documentTitle': 'சம்பளச் சீட்டுகள் - {month}',
+  'payslip.noRecords': 'இம்மாதம் பறிப்புப் பதிவுகள் இல்லை.',
+  'payslip.pluckingWage': 'பறிப்புக் கூலி',
+  'payslip.dayTotal': 'நாள் மொத்தம்',
+  'payslip.earnings': 'வருமானங்கள்',
+  'payslip.pluckingWageKg': 'பறிப்புக் கூலி ({kg} கி.கி.)',
+  'payslip.grossPay': 'மொத்தச் சம்பளம்',
+  'payslip.deductions': 'கழிவுகள்',
+  'payslip.advanceRecovery': 'முற்பண அறவீடு',
+  'payslip.epfEmployee': 'ஊழியர் EPF {rate}%',
+  'payslip.totalDeductions': 'மொத்தக் கழிவுகள்',
+  'payslip.advancesGiven': 'இம்மாதம் வழங்கிய முற்பணங்கள்: {list}',
+  'payslip.advanceCarried': 'அடுத்த மாதத்திற்குச் செல்லும் முற்பண மீதி: {amount}',
+  'payslip.employerContributions': 'தொழில்தருநர் பங்களிப்பு: EPF {epfRate}% {epf}, ETF {etfRate}% {etf}',
+  'payslip.netPay': 'நிகரச் சம்பளம்',
+  'payslip.paidBy': 'செலுத்தியவர்',
+  'payslip.receivedBy': 'பெற்றுக்கொண்டவர்',
+  'payslip.paidOn': 'செலுத்திய தேதி',
+  'payslip.paymentMethod': 'முறை',
+  'payslip.reference': 'குறிப்பு',
+  'payslip.amount': 'தொகை',
+  'payslip.signature': 'கையொப்பம்',
+  'payslip.balanceDue': 'செலுத்த வேண்டிய மீதி',
+  'payslip.method.cash': 'பணம்',
+  'payslip.method.bank': 'வங்கிப் பரிமாற்றம்',
+  'payslip.allowPopups': 'சம்பளச் சீட்டுகளை அச்சிட pop-up களை அனுமதிக்கவும்',
+  'payslip.failed': 'சம்பளச் சீட்டுகளைத் தயாரிக்க முடியவில்லை',
+
+  // Pay day sheet
+  'payday.documentTitle': 'சம்பள நாள் தாள் - {month}',
+  'payday.subtitle': 'சம்பள நாள் தாள் • {month} • பணமாகச் செலுத்தப்படும் {count} தொழிலாளர்கள்',
+  'payday.amount': 'தொகை',
+  'payday.notesAndCoins': 'நோட்டுகள் மற்றும் நாணயங்கள்',
+  'payday.signature': 'கையொப்பம்',
+  'payday.cashRequired': 'தேவையான பணம்',
+  'payday.denomination': 'மதிப்பு',
+  'payday.count': 'எண்ணிக்கை',
+  'payday.value': 'தொகை',
+  'payday.roundingNote': 'தொகைகள் அருகிலுள்ள ரூபாய்க்கு முழுமையாக்கப்பட்டுள்ளன.',
+  'payday.preparedBy': 'தயாரித்தவர்',
+  'payday.checkedBy': 'சரிபார்த்தவர்',
+}
@@ -0,0 +1,63 @@
+import type { scheduler as en } from "../en/scheduler"
+
+// Scheduler and holiday calendar
+export const scheduler: Record<keyof typeof en, string> = {
+  // Events
+  'scheduler.title': 'அட்டவணை',
+  'scheduler.loading': 'அட்டவணை ஏற்றப்படுகிறது...',
+  'scheduler.holidays': 'விடுமுறைகள்',
+  'scheduler.addEvent': 'நிகழ்வைச் சேர்',
+  'scheduler.editEvent': 'நிகழ்வைத் திருத்து',
+  'scheduler.add': 'சேர்',
+  'scheduler.allEvents': 'அனைத்து நிகழ்வுகளும்',
+  'scheduler.eventCount': '{count} நிகழ்வுகள்',
+  'scheduler.eventCountOne': '1 நிகழ்வு',
+  'scheduler.showAll': 'அனைத்தையும் காட்டு',
+  'scheduler.noEvents': 'நிகழ்வுகள் இல்லை',
+  'scheduler.more': 'மேலும் {count}',
+  'scheduler.eventTitle': 'தலைப்பு *',
+  'scheduler.eventTitlePlaceholder': 'நிகழ்வுத் தலைப்பு',
+  'scheduler.date': 'திகதி *',
+  'scheduler.time': 'நேரம்',
+  'scheduler.type': 'வகை',
+  'scheduler.description': 'விவரம்',
+  'scheduler.descriptionPlaceholder': 'விருப்பத்திற்குரிய விவரம்',
+  'scheduler.update': 'புதுப்பி',
+  'scheduler.create': 'உருவாக்கு',
+  'scheduler.type.task': 'பணி',
+  'scheduler.type.reminder': 'நினைவூட்டல்',
+  'scheduler.type.meeting': 'கூட்டம்',
+  'scheduler.type.harvest': 'அறுவடை',
+  'scheduler.type.maintenance': 'பராமரிப்பு',
+  'scheduler.loadFailed': 'நிகழ்வுகளை ஏற்ற முடியவில்லை',
+  'scheduler.required': 'அவசியமான புலங்களை நிரப்பவும்',
+  'scheduler.updated': 'நிகழ்வு புதுப்பிக்கப்பட்டது',
+  'scheduler.created': 'நிகழ்வு உருவாக்கப்பட்டது',
+  'scheduler.saveFailed': 'நிகழ்வைச் சேமிக்க முடியவில்லை',
+  'scheduler.confirmDelete': '"{name}" ஐ நீக்கவா?',
+  'scheduler.deleted': 'நிகழ்வு நீக்கப்பட்டது',
+  'scheduler.deleteFailed': 'நிகழ்வை நீக்க முடியவில்லை',
+  'scheduler.statusFailed': 'நிலையைப் புதுப்பிக்க முடியவில்லை',
+
+  // Holiday calendar
+  'holidays.type.poya': 'போயா தினம்',
+  'holidays.type.public': 'பொது விடுமுறை',
+  'holidays.type.mercantile': 'வர்த்தக விடுமுறை',
+  'holidays.type.estate': 'தோட்ட விடுமுறை',
+  'holidays.title': 'விடுமுறைகள் {year}',
+  'holidays.description': 'இந்நாட்களில் பறிப்பு நிறுவன அமைப்புகளில் உள்ள விடுமுறை விகிதத்தில் செலுத்தப்படும். போயா மற்றும் சமய விடுமுறைகள் ஆண்டுதோறும் மாறுவதால், ஏற்றிய திகதிகளை அரச வர்த்தமானியுடன் சரிபார்க்கவும்.',
+  'holidays.name': 'பெயர்',
+  'holidays.none': '{year} இற்கு விடுமுறைகள் இல்லை',
+  'holidays.loadSriLankan': 'இலங்கை விடுமுறைகளை ஏற்று',
+  'holidays.addMissing': '{year} இற்கு விடுபட்ட இலங்கை விடுமுறைகளைச் சேர்',
+  'holidays.loadFailed': 'விடுமுறைகளை ஏற்ற முடியவில்லை',
+  'holidays.added': '{year} இற்கு {count} விடுமுறைகள் சேர்க்கப்பட்டன',
+  'holidays.alreadyLoaded': '{year} விடுமுறைகள் ஏற்கனவே நாட்காட்டியில் உள்ளன',
+  'holidays.required': 'திகதியையும் பெயரையும் உள்ளிடவும்',
+  'holidays.updated': 'விடுமுறை புதுப்பிக்கப்பட்டது',
+  'holidays.addedOne': 'விடுமுறை சேர்க்கப்பட்டது',
+  'holidays.duplicate': 'அந்த விடுமுறை ஏற்கனவே இத்திகதியில் உள்ளது',
+  'holidays.saveFailed': 'விடுமுறையைச் சேமிக்க முடியவில்லை',
+  'holidays.deleted': 'விடுமுறை நீக்கப்பட்டது',
+  'holidays.deleteFailed': 'விடுமுறையை நீக்க முடியவில்லை',
+}
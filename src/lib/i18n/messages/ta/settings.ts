@@ -0,0 +1,113 @@
+import type { settings as en } from "../en/settings"
+
+// Organization settings and payroll policies
+export const settings: Record<keyof typeof en, string> = {
+  // Shared
+  'settings.savePolicy': 'கொள்கையைச் சேமி',
+
+  // Advance limits
+  'settings.advances.title': 'முற்பண வரம்புகள்',
+  'settings.advances.description': 'ஒவ்வொரு பணிப் பங்கிற்குமான அதிகபட்ச நிலுவை முற்பணம். தனித் தொழிலாளிக்கு அமைக்கப்படும் வரம்பு அவரது பணிப் பங்கு வரம்பை மீறும்.',
+  'settings.advances.saved': 'முற்பணக் கொள்கை சேமிக்கப்பட்டது',
+  'settings.advances.saveFailed': 'முற்பணக் கொள்கையைச் சேமிக்க முடியவில்லை',
+  'settings.advances.whenExceeded': 'வரம்பு மீறப்படும்போது',
+  'settings.advances.warn': 'எச்சரித்து அனுமதி',
+  'settings.advances.block': 'முற்பணத்தைத் தடு',
+  'settings.advances.roleLimit': '{role} (ரூ)',
+  'settings.advances.noLimit': 'வரம்பு இல்லை',
+
+  // Attendance and leave
+  'settings.attendance.title': 'வருகையும் விடுப்பும்',
+  'settings.attendance.description': 'ஆண்டு விடுப்பு உரிமைகளும், மாதத்தில் போதுமான நாட்கள் வருகை தரும் தொழிலாளர்களின் சம்பளத்துடன் சேர்க்கப்படும் கொடுப்பனவும்.',
+  'settings.attendance.musterRollLink': 'வருகைப் பதிவேட்டைத் திற',
+  'settings.attendance.invalid': 'உரிமைகளும் கொடுப்பனவும் பூஜ்ஜியம் அல்லது அதற்கு மேல் இருக்க வேண்டும்',
+  'settings.attendance.saved': 'வருகைக் கொள்கை சேமிக்கப்பட்டது',
+  'settings.attendance.saveFailed': 'வருகைக் கொள்கையைச் சேமிக்க முடியவில்லை',
+  'settings.attendance.leaveDays': '{type} விடுப்பு (நாட்கள்/ஆண்டு)',
+  'settings.attendance.allowance': 'வருகைக் கொடுப்பனவு (ரூ., 0 = முடக்கம்)',
+  'settings.attendance.minDays': 'குறைந்தபட்ச வருகை நாட்கள்',
+
+  // Bank payments
+  'settings.bank.title': 'வங்கிக் கொடுப்பனவுகள்',
+  'settings.bank.description': 'வங்கிப் பரிமாற்றம் மூலம் சம்பளம் பெறும் பணியாளர்களின் சம்பளம், சம்பளப் பக்கத்திலிருந்து இந்த நெடுவரிசைகளுடன், இந்த வரிசையில் CSV கோப்பாக ஏற்றுமதி செய்யப்படுகிறது. உங்கள் வங்கி வழங்கிய மொத்த சம்பளப் பதிவேற்ற வார்ப்புருவுக்குப் பொருந்தும்படி அவற்றை அமைத்து, முழுச் சம்பளப் பட்டியலைப் பதிவேற்றும் முன் முதல் கோப்பை வங்கியுடன் சரிபார்க்கவும்.',
+  'settings.bank.saved': 'வங்கிக் கொடுப்பனவு அமைப்புகள் சேமிக்கப்பட்டன',
+  'settings.bank.saveFailed': 'வங்கிக் கொடுப்பனவு அமைப்புகளைச் சேமிக்க முடியவில்லை',
+  'settings.bank.header': 'முதல் வரியில் நெடுவரிசைப் பெயர்கள் இருக்கும்',
+  'settings.bank.addColumn': 'நெடுவரிசையைச் சேர்',
+  'settings.bank.removeColumn': 'நெடுவரிசையை நீக்கு',
+
+  // Leaf shrinkage tolerance
+  'settings.leaf.title': 'இலைச் சுருக்கச் சகிப்பு',
+  'settings.leaf.description': 'விநியோகித்த இலை பறித்த இலையிலிருந்து இதைவிட அதிகமாக வேறுபடும் நாட்கள் குறிக்கப்படும்.',
+  'settings.leaf.reportLink': 'பறித்தது எதிர் விநியோகித்தது அறிக்கையைத் திற',
+  'settings.leaf.invalid': 'சகிப்பு 0 முதல் 100 வரையிலான சதவீதமாக இருக்க வேண்டும்',
+  'settings.leaf.saved': 'இலைச் சகிப்பு சேமிக்கப்பட்டது',
+  'settings.leaf.saveFailed': 'இலைச் சகிப்பைச் சேமிக்க முடியவில்லை',
+  'settings.leaf.tolerance': 'சகிப்பு (பறித்த கி.கி.யின் %)',
+
+  // Holiday pay rates
+  'settings.holidays.title': 'விடுமுறை ஊதிய விகிதங்கள்',
+  'settings.holidays.description': 'விடுமுறை நாளில் உள்ளிடப்படும் பறிப்புக் கூலி அதன் வகைக்கான விகிதத்தால் பெருக்கப்படும்; 1 சாதாரண நாளைச் செலுத்தும். இனிமேல் சேமிக்கப்படும் பதிவுகளுக்குப் பொருந்தும்.',
+  'settings.holidays.schedulerLink': 'விடுமுறைகள் அட்டவணையில் வைக்கப்பட்டுள்ளன',
+  'settings.holidays.invalid': 'விடுமுறை விகிதங்கள் 1 அல்லது அதற்கு மேல் இருக்க வேண்டும்',
+  'settings.holidays.saved': 'விடுமுறை விகிதங்கள் சேமிக்கப்பட்டன',
+  'settings.holidays.saveFailed': 'விடுமுறை விகிதங்களைச் சேமிக்க முடியவில்லை',
+  'settings.holidays.rate': '{type} (×)',
+
+  // EPF and ETF
+  'settings.statutory.title': 'EPF / ETF',
+  'settings.statutory.description': 'சம்பளக் கணிப்பில் பயன்படுத்தப்படும் சட்டப்படியான பங்களிப்புகள். ஊழியர் EPF நிகர சம்பளத்திலிருந்து கழிக்கப்படும்; தொழில்தருநர் EPF உம் ETF உம் மேலதிகமாகச் செலுத்தப்படும்.',
+  'settings.statutory.invalid': 'விகிதங்கள் 0 முதல் 100 வரை இருக்க வேண்டும்',
+  'settings.statutory.saved': 'EPF/ETF விதிகள் சேமிக்கப்பட்டன',
+  'settings.statutory.saveFailed': 'EPF/ETF விதிகளைச் சேமிக்க முடியவில்லை',
+  'settings.statutory.epfEmployee': 'EPF ஊழியர் (%)',
+  'settings.statutory.epfEmployer': 'EPF தொழில்தருநர் (%)',
+  'settings.statutory.etf': 'ETF (%)',
+  'settings.statutory.enabled': 'சம்பளங்களுக்கு EPF/ETF பயன்படுத்து',
+  'settings.statutory.includeExtraWork': 'பங்களிப்புக் கூலியில் மேலதிக வேலையைச் சேர்',
+  'settings.statutory.includeBonus': 'பங்களிப்புக் கூலியில் போனஸ்களைச் சேர்',
+  'settings.statutory.save': 'விதிகளைச் சேமி',
+
+  // Plucking wage norms
+  'settings.norms.title': 'பறிப்புக் கூலி நியமங்கள்',
+  'settings.norms.description': 'நியமத்தை எட்டும் பறிப்பாளர்கள் தினக் கூலியுடன் அதற்கு மேலான ஒவ்வொரு கி.கி.க்கும் மேலதிகக் கிலோ விகிதத்தைப் பெறுவர். குறைந்த நாட்களுக்கு கி.கி. × விகிதம் செலுத்தப்பட்டு குறைந்தபட்சக் கூலி வரை நிரப்பப்படும். இனிமேல் சேமிக்கப்படும் பதிவுகளுக்குப் பொருந்தும்.',
+  'settings.norms.invalid': 'ஒவ்வொரு நியமத்திற்கும் ஒரு பெயர், 0 கி.கி.க்கு மேலான நியமம் மற்றும் 0 அல்லது அதற்கு மேலான தொகைகள் தேவை',
+  'settings.norms.saved': 'கூலி நியமங்கள் சேமிக்கப்பட்டன',
+  'settings.norms.saveFailed': 'கூலி நியமங்களைச் சேமிக்க முடியவில்லை',
+  'settings.norms.normKg': 'நியமம் (கி.கி.)',
+  'settings.norms.dailyWage': 'தினக் கூலி (ரூ)',
+  'settings.norms.overKiloRate': 'மேலதிகக் கிலோ விகிதம் (ரூ/கி.கி.)',
+  'settings.norms.minimumWage': 'குறைந்தபட்சக் கூலி (ரூ)',
+  'settings.norms.allYear': 'ஆண்டு முழுவதும்',
+  'settings.norms.namePlaceholder': 'எ.கா., உச்சப் பருவம்',
+  'settings.norms.plantation': 'தோட்டம்',
+  'settings.norms.allPlantations': 'அனைத்துத் தோட்டங்களும்',
+  'settings.norms.seasonFrom': 'பருவம் தொடக்கம்',
+  'settings.norms.seasonTo': 'வரை',
+  'settings.norms.enabled': 'தின நியமத்தின் அடிப்படையில் பறிப்புக் கூலி செலுத்து',
+  'settings.norms.overrides': 'தோட்ட மற்றும் பருவ நியமங்கள்',
+  'settings.norms.overridesHint': 'பொருந்தும் இடங்களில் மேலுள்ள நியமத்திற்குப் பதிலாகப் பயன்படுத்தப்படும்; ஒரு தோட்டத்தின் சொந்த நியமம் பருவ நியமத்தை விட முன்னுரிமை பெறும்',
+  'settings.norms.add': 'சேர்',
+  'settings.norms.save': 'நியமங்களைச் சேமி',
+
+  // Extra work types
+  'settings.extraWork.title': 'மேலதிக வேலை வகைகள்',
+  'settings.extraWork.description': 'தினப் பதிவுகளிலும் சம்பள விவரங்களிலும் பயன்படும், இயல்புநிலை விகிதங்களுடன் கூடிய பெயரிடப்பட்ட மேலதிக வேலைகள்',
+  'settings.extraWork.loadFailed': 'மேலதிக வேலை வகைகளை ஏற்ற முடியவில்லை',
+  'settings.extraWork.nameRequired': 'பெயர் தேவை',
+  'settings.extraWork.updated': 'வேலை வகை புதுப்பிக்கப்பட்டது',
+  'settings.extraWork.added': 'வேலை வகை சேர்க்கப்பட்டது',
+  'settings.extraWork.duplicate': 'இந்தப் பெயரில் ஒரு வேலை வகை ஏற்கனவே உள்ளது',
+  'settings.extraWork.saveFailed': 'வேலை வகையைச் சேமிக்க முடியவில்லை',
+  'settings.extraWork.editTitle': 'வேலை வகையைத் திருத்து',
+  'settings.extraWork.addTitle': 'வேலை வகையைச் சேர்',
+  'settings.extraWork.name': 'பெயர் *',
+  'settings.extraWork.namePlaceholder': 'எ.கா., களையெடுத்தல்',
+  'settings.extraWork.defaultRate': 'இயல்புநிலை விகிதம் (ரூ)',
+  'settings.extraWork.update': 'புதுப்பி',
+  'settings.extraWork.add': 'சேர்',
+  'settings.extraWork.confirmDelete': '"{name}" வேலை வகையை நீக்கவா? ஏற்கனவே உள்ள பதிவுகள் அவற்றின் விவரத்தைத் தக்கவைக்கும்.',
+  'settings.extraWork.deleted': 'வேலை வகை நீக்கப்பட்டது',
+  'settings.extraWork.addType': 'வகையைச் சேர்',
+  'settings.extraWork.none': 'இன்னும் மேலதிக வேலை வகைகள் இல்லை',
+}
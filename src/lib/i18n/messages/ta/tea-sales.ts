@@ -0,0 +1,120 @@
+import type { teaSales as en } from "../en/tea-sales"
+
+// Tea sales, collection trips and receivables
+export const teaSales: Record<keyof typeof en, string> = {
+  // Sales
+  'teaSales.title': 'தேயிலை விற்பனை',
+  'teaSales.loading': 'தேயிலை விற்பனைகள் ஏற்றப்படுகின்றன...',
+  'teaSales.loadFailed': 'தேயிலை விற்பனைகளை ஏற்ற முடியவில்லை',
+  'teaSales.confirmDelete': '{date} அன்று {factory} இற்கான விற்பனையை நீக்கவா?',
+  'teaSales.deleted': 'விற்பனை வெற்றிகரமாக நீக்கப்பட்டது',
+  'teaSales.deleteFailed': 'விற்பனையை நீக்க முடியவில்லை',
+  'teaSales.selectFactoryError': 'தேயிலை விற்கப்பட்ட தொழிற்சாலையைத் தேர்ந்தெடுக்கவும்',
+  'teaSales.updated': 'விற்பனை வெற்றிகரமாகப் புதுப்பிக்கப்பட்டது',
+  'teaSales.recorded': 'விற்பனை வெற்றிகரமாகப் பதிவு செய்யப்பட்டது',
+  'teaSales.saveFailed': 'விற்பனையைச் சேமிக்க முடியவில்லை',
+  'teaSales.factory': 'தொழிற்சாலை',
+  'teaSales.factories': 'தொழிற்சாலைகள்',
+  'teaSales.kgDelivered': 'வழங்கிய கி.கி.',
+  'teaSales.ratePerKg': 'கி.கி. விகிதம்',
+  'teaSales.avgRate': 'சராசரி கி.கி. விகிதம்',
+  'teaSales.totalKg': 'மொத்த கி.கி.',
+  'teaSales.gross': 'மொத்தம்',
+  'teaSales.deductions': 'கழிவுகள்',
+  'teaSales.netIncome': 'நிகர வருமானம்',
+  'teaSales.payment': 'கொடுப்பனவு',
+  'teaSales.due': '{amount} நிலுவை',
+  'teaSales.perKg': 'கி.கி.க்கு {amount}',
+  'teaSales.allTime': 'எல்லாக் காலமும்',
+  'teaSales.daily': 'தினசரி',
+  'teaSales.monthly': 'மாதாந்த',
+  'teaSales.search': 'விற்பனைகளைத் தேடு...',
+  'teaSales.showing': 'காட்டப்படுவது:',
+  'teaSales.exportCsv': 'CSV ஆக ஏற்றுமதி செய்',
+  'teaSales.exportJson': 'JSON ஆக ஏற்றுமதி செய்',
+  'teaSales.printReport': 'அறிக்கையை அச்சிடு',
+  'teaSales.recordPayment': 'கொடுப்பனவைப் பதிவு செய்',
+  'teaSales.recordSale': 'விற்பனையைப் பதிவு செய்',
+  'teaSales.editSale': 'விற்பனையைத் திருத்து',
+  'teaSales.grossLessDeductions': 'மொத்தம் {gross} - கழிவுகள் {deductions}',
+  'teaSales.factoryBreakdown': 'தொழிற்சாலை வாரியாக',
+  'teaSales.breakdownDescription': '{date} இற்கான தொழிற்சாலை வாரியான விற்பனை',
+  'teaSales.dayTotal': 'நாள் மொத்தம்',
+  'teaSales.records': 'விற்பனைப் பதிவுகள்',
+  'teaSales.saleCount': '{count} விற்பனைகள் கண்டறியப்பட்டன',
+  'teaSales.saleCountOne': '1 விற்பனை கண்டறியப்பட்டது',
+  'teaSales.noneForPeriod': 'இக்காலத்திற்கு விற்பனைகள் இல்லை',
+  'teaSales.noData': 'ஏற்றுமதி செய்யத் தரவு இல்லை',
+  'teaSales.noDataToPrint': 'அச்சிடத் தரவு இல்லை',
+  'teaSales.allowPopups': 'அச்சிட pop-up களை அனுமதிக்கவும்',
+  'teaSales.update': 'புதுப்பி',
+  'teaSales.form.date': 'திகதி *',
+  'teaSales.form.factory': 'தொழிற்சாலை *',
+  'teaSales.form.selectFactory': 'தொழிற்சாலையைத் தேர்ந்தெடு',
+  'teaSales.form.addFactoryFirst': 'முதலில் ஒரு தொழிற்சாலையைச் சேர்க்கவும்',
+  'teaSales.form.kgDelivered': 'வழங்கிய கி.கி. *',
+  'teaSales.form.rate': 'கி.கி. விகிதம் (ரூ.) *',
+  'teaSales.form.notesPlaceholder': 'விருப்பக் குறிப்புகள்',
+  'teaSales.rateMismatch': '{date} அன்று {factory} கி.கி.க்கு {rate} செலுத்தியது',
+  'teaSales.useRate': '{rate} ஐப் பயன்படுத்து',
+
+  // Printed sales report
+  'teaSales.report.period': 'காலம்',
+  'teaSales.report.generated': 'உருவாக்கப்பட்டது',
+  'teaSales.report.footer': 'தேயிலைத் தோட்டக் கட்டுப்பாட்டுப் பலகை - விற்பனை அறிக்கை',
+
+  // Factory payment status
+  'factoryPayments.status.unpaid': 'செலுத்தப்படவில்லை',
+  'factoryPayments.status.partial': 'பகுதியாகச் செலுத்தப்பட்டது',
+  'factoryPayments.status.paid': 'செலுத்தப்பட்டது',
+
+  // Deductions
+  'deductions.add': 'சேர்',
+  'deductions.none': 'இவ்விற்பனைக்குக் கழிவுகள் இல்லை',
+  'deductions.namePlaceholder': 'உ.ம்: போக்குவரத்து',
+  'deductions.method.fixed': 'நிலையான தொகை',
+  'deductions.method.per_kg': 'வழங்கிய கி.கி.க்கு',
+  'deductions.method.percent': 'மொத்தத்தின் சதவீதம்',
+  'deductions.method.kg': 'கழிக்கப்பட்ட எடை',
+
+  // Receivables
+  'receivables.title': 'பெறவேண்டியவை கால அடிப்படையில்',
+  'receivables.summary': '{count} தொழிற்சாலைகளில் செலுத்தப்படாத {amount}',
+  'receivables.summaryOne': '1 தொழிற்சாலையில் செலுத்தப்படாத {amount}',
+  'receivables.bucket.30': '0-30 நாட்கள்',
+  'receivables.bucket.60': '31-60 நாட்கள்',
+  'receivables.bucket.over60': '60+ நாட்கள்',
+
+  // Collection trips
+  'trips.title': 'இலை சேகரிப்புப் பயணங்கள்',
+  'trips.summary': '{count} பயணங்கள், செலவு {amount} · {period}',
+  'trips.summaryOne': '1 பயணம், செலவு {amount} · {period}',
+  'trips.none': 'இக்காலத்திற்குப் பயணங்கள் பதிவு செய்யப்படவில்லை',
+  'trips.carriedTo': '{factories} இற்கு {kg}',
+  'trips.noDeliveriesLinked': 'இணைக்கப்பட்ட விநியோகங்கள் இல்லை',
+  'trips.loadFailed': 'பயணங்களை ஏற்ற முடியவில்லை',
+  'trips.confirmDelete': '{date} அன்றைய {vehicle} பயணத்தை நீக்கவா? அதன் விநியோகங்கள் வைக்கப்படும்.',
+  'trips.deleted': 'பயணம் நீக்கப்பட்டது',
+  'trips.deleteFailed': 'பயணத்தை நீக்க முடியவில்லை',
+  'trips.record': 'பயணத்தைப் பதிவு செய்',
+  'trips.edit': 'பயணத்தைத் திருத்து',
+  'trips.update': 'பயணத்தைப் புதுப்பி',
+  'trips.description': 'இந்த லொறி கொண்டு சென்ற விநியோகங்களைத் தெரிவு செய்யவும்',
+  'trips.departureTime': 'புறப்படும் நேரம்',
+  'trips.vehicle': 'வாகன இலக்கம் *',
+  'trips.vehiclePlaceholder': 'உ.ம்: LB-4521',
+  'trips.driver': 'சாரதி',
+  'trips.cost': 'பயணச் செலவு (ரூ.) *',
+  'trips.costPlaceholder': 'எரிபொருள், வாடகை மற்றும் சாரதி',
+  'trips.deliveriesOn': '{date} அன்றைய விநியோகங்கள்',
+  'trips.noDeliveries': 'இத்திகதியில் பயணத்தில் சேர்க்கப்படாத விநியோகங்கள் இல்லை',
+  'trips.kgCarried': '{kg} கொண்டு செல்லப்பட்டது',
+  'trips.vehicleRequired': 'வாகன இலக்கத்தை உள்ளிடவும்',
+  'trips.updated': 'பயணம் புதுப்பிக்கப்பட்டது',
+  'trips.recorded': 'பயணம் பதிவு செய்யப்பட்டது',
+  'trips.saveFailed': 'பயணத்தைச் சேமிக்க முடியவில்லை',
+  'trips.trips': 'பயணங்கள்',
+  'trips.kgCarriedColumn': 'கொண்டு சென்ற கி.கி.',
+  'trips.transportCost': 'போக்குவரத்துச் செலவு',
+  'trips.costPerKg': 'கி.கி. செலவு',
+}
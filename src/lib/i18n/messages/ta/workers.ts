@@ -0,0 +1,147 @@
+import type { workers as en } from "../en/workers"
+
+// Workers, termination and final settlement
+export const workers: Record<keyof typeof en, string> = {
+  // Workers
+  'workers.title': 'தொழிலாளர்கள்',
+  'workers.loading': 'தொழிலாளர்கள் ஏற்றப்படுகின்றனர்...',
+  'workers.todaysAttendance': 'இன்றைய வருகை',
+  'workers.add': 'தொழிலாளரைச் சேர்',
+  'workers.edit': 'தொழிலாளரைத் திருத்து',
+  'workers.search': 'தொழிலாளர்களைத் தேடு...',
+  'workers.noneMatching': '"{search}" உடன் பொருந்தும் தொழிலாளர்கள் இல்லை',
+  'workers.none': 'தொழிலாளர்கள் இல்லை',
+  'workers.tryDifferentSearch': 'வேறு தேடல் சொல்லை முயற்சிக்கவும்',
+  'workers.addHint': 'உங்கள் குழுவில் தொழிலாளர்களைச் சேர்க்கவும்',
+  'workers.employeeId': 'ஊழியர் இலக்கம் *',
+  'workers.employeeIdPlaceholder': 'உ.ம்: EMP001',
+  'workers.firstName': 'முதல் பெயர் *',
+  'workers.lastName': 'கடைசிப் பெயர்',
+  'workers.salaryPaidBy': 'சம்பளம் செலுத்தும் முறை',
+  'workers.update': 'புதுப்பி',
+  'workers.addButton': 'சேர்',
+  'workers.hired': 'சேர்ந்தது',
+  'workers.hiredOn': '{date} அன்று சேர்ந்தார்',
+  'workers.service.years': '{years}ஆ {months}மா',
+  'workers.service.months': '{months}மா',
+  'workers.service.days': '{days}நா',
+  'workers.service.today': 'இன்று',
+  'workers.terminated': 'பணி நீக்கப்பட்டது',
+  'workers.terminatedOn': 'பணி நீக்கம் {date}',
+  'workers.terminate': 'தொழிலாளரைப் பணி நீக்கு',
+  'workers.printSettlement': 'இறுதித் தீர்வை அச்சிடு',
+  'workers.editTooltip': 'தொழிலாளரைத் திருத்து',
+  'workers.deleteTooltip': 'தொழிலாளரை நீக்கு',
+  'workers.confirmDelete': '{name} ஐ நீக்கவா?',
+  'workers.loadFailed': 'தொழிலாளர்களை ஏற்ற முடியவில்லை',
+  'workers.deleted': 'தொழிலாளர் வெற்றிகரமாக நீக்கப்பட்டார்',
+  'workers.deleteFailed': 'தொழிலாளரை நீக்க முடியவில்லை',
+  'workers.updated': 'தொழிலாளர் வெற்றிகரமாகப் புதுப்பிக்கப்பட்டார்',
+  'workers.added': 'தொழிலாளர் வெற்றிகரமாகச் சேர்க்கப்பட்டார்',
+  'workers.created': 'தொழிலாளர் வெற்றிகரமாக உருவாக்கப்பட்டார்',
+  'workers.saveFailed': 'தொழிலாளரைச் சேமிக்க முடியவில்லை',
+  'workers.noSettlement': 'இந்தத் தொழிலாளருக்குத் தீர்வு எதுவும் பதிவு செய்யப்படவில்லை',
+  'workers.printSettlementFailed': 'தீர்வை அச்சிட முடியவில்லை',
+  'workers.status.active': 'செயலில்',
+  'workers.status.inactive': 'செயலற்றது',
+  'workers.status.terminated': 'பணி நீக்கப்பட்டது',
+
+  // Worker form
+  'workers.form.newTitle': 'புதிய தொழிலாளரைச் சேர்',
+  'workers.form.editDescription': 'தொழிலாளர் விவரங்களைப் புதுப்பி',
+  'workers.form.newDescription': 'உங்கள் தோட்டப் பணியாளர்களுடன் புதிய தொழிலாளரைச் சேர்க்கவும்',
+  'workers.form.role': 'பங்கு *',
+  'workers.form.selectRole': 'பங்கைத் தேர்ந்தெடு',
+  'workers.form.lastName': 'கடைசிப் பெயர் *',
+  'workers.form.plantation': 'தோட்டம்',
+  'workers.form.selectPlantation': 'தோட்டத்தைத் தேர்ந்தெடு',
+  'workers.form.unassigned': 'ஒதுக்கப்படவில்லை',
+  'workers.form.salary': 'மாதச் சம்பளம் (ரூ.)',
+  'workers.form.selectStatus': 'நிலையைத் தேர்ந்தெடு',
+  'workers.form.update': 'தொழிலாளரைப் புதுப்பி',
+  'workers.form.create': 'தொழிலாளரை உருவாக்கு',
+  'workers.error.employeeId': 'ஊழியர் இலக்கம் குறைந்தது 3 எழுத்துகள் இருக்க வேண்டும்',
+  'workers.error.firstName': 'முதல் பெயர் குறைந்தது 2 எழுத்துகள் இருக்க வேண்டும்',
+  'workers.error.lastName': 'கடைசிப் பெயர் குறைந்தது 2 எழுத்துகள் இருக்க வேண்டும்',
+  'workers.error.salary': 'சம்பளம் நேர்மறையாக இருக்க வேண்டும்',
+
+  // Worker details
+  'workers.details.overview': 'மேலோட்டம்',
+  'workers.details.performance': 'செயல்திறன்',
+  'workers.details.harvestHistory': 'அறுவடை வரலாறு',
+  'workers.details.details': 'விவரங்கள்',
+  'workers.details.totalHarvests': 'மொத்த அறுவடைகள்',
+  'workers.details.thisMonth': 'இந்த மாதம்',
+  'workers.details.avgDailyOutput': 'சராசரி தினசரி வெளியீடு',
+  'workers.details.monthlySalary': 'மாதச் சம்பளம்',
+  'workers.details.notAvailable': 'இல்லை',
+  'workers.details.personalInfo': 'தனிப்பட்ட தகவல்',
+  'workers.details.notProvided': 'வழங்கப்படவில்லை',
+  'workers.details.assignedPlantation': 'ஒதுக்கப்பட்ட தோட்டம்',
+  'workers.details.notSpecified': 'குறிப்பிடப்படவில்லை',
+  'workers.details.yearsOfService': '{years} ஆண்டுச் சேவை',
+  'workers.details.performanceMetrics': 'செயல்திறன் அளவீடுகள்',
+  'workers.details.harvestTarget': 'மாதாந்த அறுவடை இலக்கு',
+  'workers.details.targetBasis': 'பங்கு மற்றும் அனுபவத்தின் அடிப்படையில்',
+  'workers.details.managementRole': 'நிர்வாகப் பங்கு',
+  'workers.details.achievement': 'மாதாந்த சாதனை',
+  'workers.details.achievementBasis': 'நடப்பு மாத முன்னேற்றம்',
+  'workers.details.ofTarget': 'இலக்கில் {percent}%',
+  'workers.details.qualityGrade': 'சராசரி தர வகை',
+  'workers.details.qualityBasis': 'அண்மைய அறுவடைகளின் அடிப்படையில்',
+  'workers.details.grade': 'தரம் {grade}',
+  'workers.details.improving': 'மேம்படுகிறது',
+  'workers.details.recentHarvests': 'அண்மைய அறுவடைப் பதிவுகள்',
+  'workers.details.unknownPlantation': 'தெரியாத தோட்டம்',
+  'workers.details.weather': 'வானிலை: {weather}',
+  'workers.details.noHarvests': 'அறுவடைப் பதிவுகள் இல்லை',
+  'workers.details.systemDetails': 'அமைப்பு விவரங்கள்',
+  'workers.details.workerId': 'தொழிலாளர் அடையாளம்',
+  'workers.details.plantationId': 'தோட்ட அடையாளம்',
+  'workers.details.notAssigned': 'ஒதுக்கப்படவில்லை',
+  'workers.details.created': 'உருவாக்கப்பட்டது',
+  'workers.details.lastUpdated': 'கடைசியாகப் புதுப்பிக்கப்பட்டது',
+
+  // Termination
+  'termination.title': '{name} ஐப் பணி நீக்கு',
+  'termination.description': 'இறுதித் தீர்வு இம்மாதச் செலுத்தப்படாத ஊதியத்தையும் பணிக்கொடையையும் செலுத்தும், நிலுவையிலுள்ள முற்பணங்கள் கழிக்கப்படும். தொழிலாளரின் பதிவுகள் வரலாற்றில் இருக்கும்.',
+  'termination.lastWorkingDay': 'கடைசி வேலை நாள் *',
+  'termination.reason': 'காரணம் *',
+  'termination.reasonPlaceholder': 'இராஜினாமா, ஓய்வு, பணிநீக்கம்...',
+  'termination.submit': 'பணி நீக்கி அச்சிடு',
+  'termination.calculateFailed': 'தீர்வைக் கணக்கிட முடியவில்லை',
+  'termination.reasonRequired': 'பணி நீக்கத்திற்கான காரணத்தை உள்ளிடவும்',
+  'termination.confirm': '{date} முதல் {name} ஐப் பணி நீக்கவா?',
+  'termination.terminated': '{name} பணி நீக்கப்பட்டார்',
+  'termination.failed': 'தொழிலாளரைப் பணி நீக்க முடியவில்லை',
+  'termination.wagesAlreadyPaid': 'இம்மாதச் சம்பளம் ஏற்கனவே செலுத்தப்பட்டுள்ளது',
+  'termination.wagesNote': '{days} நாட்கள், EPF {epf} கழித்து',
+  'termination.wagesNotePaid': '{days} நாட்கள், EPF {epf} மற்றும் ஏற்கனவே செலுத்திய {paid} கழித்து',
+  'termination.service': '{years} ஆண்டுச் சேவை',
+  'termination.serviceDue': '{years} ஆண்டுச் சேவை; {required} ஆண்டுகளுக்குப் பின் உரியது',
+  'termination.wagesDue': 'செலுத்த வேண்டிய ஊதியம்',
+  'termination.outstandingAdvances': 'நிலுவை முற்பணங்கள்',
+  'termination.gratuity': 'பணிக்கொடை',
+  'termination.netPayable': 'நிகரச் செலுத்த வேண்டியது',
+  'termination.owedByWorker': 'தொழிலாளர் செலுத்த வேண்டியது',
+
+  // Printed final settlement
+  'settlement.title': 'இறுதித் தீர்வு',
+  'settlement.documentTitle': 'இறுதித் தீர்வு - {name}',
+  'settlement.lastWorkingDay': 'கடைசி வேலை நாள்',
+  'settlement.service': 'சேவை',
+  'settlement.completedYears': '{years} பூர்த்தியான ஆண்டுகள்',
+  'settlement.notEligible': 'தகுதியில்லை: {years} பூர்த்தியான சேவை ஆண்டுகள் ({required} தேவை)',
+  'settlement.gratuityMonthly': '{years} ஆண்டுகள் × {salary} மாதச் சம்பளத்தில் பாதி',
+  'settlement.gratuityDaily': '{years} ஆண்டுகள் × 14 நாட்கள் × சராசரி தினக் கூலி {wage}',
+  'settlement.wagesAlreadyPaid': '{month} சம்பளத்துடன் ஏற்கனவே செலுத்தப்பட்டது',
+  'settlement.daysWorked': '{month} இல் வேலை செய்த {days} நாட்கள்',
+  'settlement.wagesFor': '{month} ஊதியம்',
+  'settlement.lessEpf': 'கழிக்க EPF (ஊழியர்)',
+  'settlement.lessPaid': '{month} இல் செலுத்தியது கழிக்க',
+  'settlement.lessAdvances': 'நிலுவை முற்பணங்கள் கழிக்க',
+  'settlement.netPayable': 'தொழிலாளருக்குச் செலுத்த வேண்டிய நிகரத் தொகை',
+  'settlement.owedByWorker': 'தொழிலாளர் செலுத்த வேண்டிய மீதி',
+  'settlement.receivedBy': 'முழுத் தீர்வாகப் பெற்றுக்கொண்டவர்',
+  'settlement.allowPopups': 'தீர்வை அச்சிட pop-up களை அனுமதிக்கவும்',
+}
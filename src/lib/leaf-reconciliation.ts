@@ -0,0 +1,129 @@
+import { supabase } from './supabase'
+
+// Leaf weighed at plucking against leaf weighed at the factory. Some loss is expected
+// (moisture, handling); beyond the tolerance it points to weighing errors or theft.
+
+export interface LeafTolerance {
+  // Largest acceptable difference between plucked and delivered kg, as a percent of plucked
+  shrinkage_percent: number
+}
+
+export const DEFAULT_LEAF_TOLERANCE: LeafTolerance = {
+  shrinkage_percent: 3,
+}
+
+export function readLeafTolerance(settings: Record<string, any>): LeafTolerance {
+  return { ...DEFAULT_LEAF_TOLERANCE, ...(settings.leaf_tolerance ?? {}) }
+}
+
+export interface LeafTotals {
+  plucked: number
+  delivered: number
+  difference: number
+  // null when nothing was plucked, so no percentage can be taken
+  shrinkage: number | null
+  flagged: boolean
+}
+
+export interface LeafDay extends LeafTotals {
+  date: string
+  pluckers: number
+  deliveries: number
+}
+
+export interface LeafMonth extends LeafTotals {
+  month: string
+  days: number
+  flaggedDays: number
+}
+
+interface LeafReconciliationRow {
+  date: string
+  plucked_kg: number
+  delivered_kg: number
+  pluckers: number
+  deliveries: number
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+// Leaf lost between the field and the factory; negative when more was delivered than plucked
+export function leafTotals(plucked: number, delivered: number, tolerance: LeafTolerance): LeafTotals {
+  const difference = round2(plucked - delivered)
+  const shrinkage = plucked > 0 ? round2((difference / plucked) * 100) : null
+  const flagged = shrinkage === null ? delivered > 0 : Math.abs(shrinkage) > tolerance.shrinkage_percent
+  return { plucked: round2(plucked), delivered: round2(delivered), difference, shrinkage, flagged }
+}
+
+export async function fetchLeafDays(orgId: string, from: string, to: string, tolerance: LeafTolerance): Promise<LeafDay[]> {
+  const { data, error } = await supabase.rpc('leaf_reconciliation', {
+    p_org_id: orgId,
+    p_from: from,
+    p_to: to,
+  })
+
+  if (error) throw error
+  return ((data ?? []) as LeafReconciliationRow[]).map(row => ({
+    date: row.date,
+    pluckers: row.pluckers,
+    deliveries: row.deliveries,
+    ...leafTotals(Number(row.plucked_kg), Number(row.delivered_kg), tolerance),
+  }))
+}
+
+// Newest month first
+export function leafMonths(days: LeafDay[], tolerance: LeafTolerance): LeafMonth[] {
+  const months = new Map<string, LeafDay[]>()
+  for (const day of days) {
+    const month = day.date.slice(0, 7)
+    months.set(month, [...(months.get(month) ?? []), day])
+  }
+
+  return [...months.entries()]
+    .map(([month, monthDays]) => ({
+      month,
+      days: monthDays.length,
+      flaggedDays: monthDays.filter(day => day.flagged).length,
+      ...leafTotals(
+        monthDays.reduce((sum, day) => sum + day.plucked, 0),
+        monthDays.reduce((sum, day) => sum + day.delivered, 0),
+        tolerance
+      ),
+    }))
+    .sort((a, b) => b.month.localeCompare(a.month))
+}
+
+export interface LeafDayRecords {
+  plucking: { id: string; kg_plucked: number; workers: { first_name: string; last_name: string | null; employee_id: string } | null }[]
+  sales: { id: string; factory_name: string; kg_delivered: number }[]
+}
+
+// The individual weighings behind one day's totals
+export async function fetchLeafDayRecords(orgId: string, date: string): Promise<LeafDayRecords> {
+  const [pluckingResult, salesResult] = await Promise.all([
+    supabase
+      .from('daily_plucking')
+      .select('id, kg_plucked, workers (first_name, last_name, employee_id)')
+      .eq('organization_id', orgId)
+      .eq('date', date)
+      // Same rule as the leaf_reconciliation totals: a NULL is_advance is a weighing
+      .not('is_advance', 'is', true)
+      .order('kg_plucked', { ascending: false })
+      .overrideTypes<LeafDayRecords['plucking'], { merge: false }>(),
+    supabase
+      .from('tea_sales')
+      .select('id, factory_name, kg_delivered')
+      .eq('organization_id', orgId)
+      .eq('date', date)
+      .order('kg_delivered', { ascending: false }),
+  ])
+
+  if (pluckingResult.error) throw pluckingResult.error
+  if (salesResult.error) throw salesResult.error
+  return {
+    plucking: pluckingResult.data ?? [],
+    sales: salesResult.data ?? [],
+  }
+}
@@ -0,0 +1,131 @@
+import type { LeafTrip } from '@/types/factories'
+
+import { supabase } from './supabase'
+
+export type LeafTripDetails = Pick<LeafTrip, 'trip_date' | 'departure_time' | 'vehicle_number' | 'driver_name' | 'cost' | 'notes'>
+
+export interface TripDelivery {
+  id: string
+  factory_name: string
+  kg_delivered: number
+}
+
+export interface LeafTripWithDeliveries extends LeafTrip {
+  tea_sales: TripDelivery[]
+}
+
+export interface FactoryTransportCost {
+  factory: string
+  trips: number
+  kg: number
+  cost: number
+  costPerKg: number
+}
+
+// Cost of trips that carried no deliveries is reported under this name
+export const UNASSIGNED_TRIPS = 'No deliveries linked'
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function optionalText(value: string | null) {
+  const text = value?.trim() ?? ''
+  return text === '' ? null : text
+}
+
+// Shares a trip's cost across the deliveries it carried, in proportion to their kg
+export function apportionTripCost(cost: number, deliveries: TripDelivery[]): number[] {
+  const totalKg = deliveries.reduce((sum, delivery) => sum + Number(delivery.kg_delivered), 0)
+  if (totalKg <= 0) return deliveries.map(() => 0)
+  return deliveries.map(delivery => round2((Number(cost) * Number(delivery.kg_delivered)) / totalKg))
+}
+
+function addFactoryCost(costs: Map<string, FactoryTransportCost & { tripIds: Set<string> }>, factory: string, tripId: string, kg: number, cost: number) {
+  const entry = costs.get(factory) ?? { factory, trips: 0, kg: 0, cost: 0, costPerKg: 0, tripIds: new Set<string>() }
+  entry.tripIds.add(tripId)
+  entry.kg += kg
+  entry.cost += cost
+  costs.set(factory, entry)
+}
+
+// Transport cost per kg delivered to each factory, most expensive per kg first
+export function transportCostByFactory(trips: LeafTripWithDeliveries[]): FactoryTransportCost[] {
+  const costs = new Map<string, FactoryTransportCost & { tripIds: Set<string> }>()
+
+  for (const trip of trips) {
+    if (trip.tea_sales.length === 0) {
+      addFactoryCost(costs, UNASSIGNED_TRIPS, trip.id, 0, Number(trip.cost))
+      continue
+    }
+    const shares = apportionTripCost(trip.cost, trip.tea_sales)
+    trip.tea_sales.forEach((delivery, index) => {
+      addFactoryCost(costs, delivery.factory_name, trip.id, Number(delivery.kg_delivered), shares[index])
+    })
+  }
+
+  return [...costs.values()]
+    .map(({ tripIds, ...entry }) => ({
+      ...entry,
+      trips: tripIds.size,
+      cost: round2(entry.cost),
+      costPerKg: entry.kg > 0 ? entry.cost / entry.kg : 0,
+    }))
+    .sort((a, b) => b.costPerKg - a.costPerKg)
+}
+
+export async function fetchLeafTrips(orgId: string, from?: string, to?: string) {
+  let query = supabase
+    .from('leaf_trips')
+    .select('*, tea_sales (id, factory_name, kg_delivered)')
+    .eq('organization_id', orgId)
+    .order('trip_date', { ascending: false })
+    .order('departure_time', { ascending: false })
+
+  if (from) query = query.gte('trip_date', from)
+  if (to) query = query.lte('trip_date', to)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as LeafTripWithDeliveries[]
+}
+
+// Saves the trip and makes saleIds exactly the deliveries it carried
+export async function saveLeafTrip(orgId: string, details: LeafTripDetails, saleIds: string[], tripId?: string) {
+  const row = {
+    ...details,
+    departure_time: optionalText(details.departure_time),
+    driver_name: optionalText(details.driver_name),
+    notes: optionalText(details.notes),
+    vehicle_number: details.vehicle_number.trim().toUpperCase(),
+  }
+
+  const { data, error } = tripId
+    ? await supabase.from('leaf_trips').update(row).eq('id', tripId).select('id').single()
+    : await supabase.from('leaf_trips').insert({ ...row, organization_id: orgId }).select('id').single()
+  if (error) throw error
+
+  let release = supabase.from('tea_sales').update({ trip_id: null }).eq('trip_id', data.id)
+  if (saleIds.length > 0) release = release.not('id', 'in', `(${saleIds.join(',')})`)
+  const { error: releaseError } = await release
+  if (releaseError) throw releaseError
+
+  if (saleIds.length === 0) return data.id as string
+
+  const { error: linkError } = await supabase
+    .from('tea_sales')
+    .update({ trip_id: data.id })
+    .in('id', saleIds)
+  if (linkError) throw linkError
+
+  return data.id as string
+}
+
+export async function deleteLeafTrip(id: string) {
+  const { error } = await supabase
+    .from('leaf_trips')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
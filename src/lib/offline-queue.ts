@@ -0,0 +1,266 @@
+import { saveExtraWork, type ExtraWorkItem } from './extra-work'
+import { supabase } from './supabase'
+
+// =====================================================
+// DAILY PLUCKING SAVES
+// =====================================================
+
+export interface PluckingRow {
+  worker_id: string
+  date: string
+  kg_plucked: number
+  rate_per_kg: number
+  wage_earned: number
+  total_income: number
+  extra_work_payment: number
+  norm_kg: number | null
+  over_kilo_pay: number
+  wage_top_up: number
+  holiday_pay: number
+  is_advance: boolean
+  notes: string | null
+}
+
+// One save from the daily records form; extra work goes on the plucking (non-advance) row
+export type PluckingSave =
+  | { kind: 'insert'; rows: PluckingRow[]; extra_work: ExtraWorkItem[] }
+  // `original` is the record as it was loaded, used to spot edits made elsewhere before replaying
+  | { kind: 'update'; record_id: string; row: PluckingRow; original: PluckingRow; extra_work: ExtraWorkItem[] }
+
+const ROW_COLUMNS = 'worker_id, date, kg_plucked, rate_per_kg, wage_earned, total_income, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay, is_advance, notes'
+
+const COMPARED_FIELDS = ['worker_id', 'date', 'kg_plucked', 'rate_per_kg', 'wage_earned', 'is_advance', 'notes'] as const
+
+// Returns the id of an advance the save inserted, so the worker can sign for it
+export async function applyPluckingSave(orgId: string, save: PluckingSave): Promise<string | null> {
+  if (save.kind === 'update') {
+    const { error } = await supabase
+      .from('daily_plucking')
+      .update(save.row)
+      .eq('id', save.record_id)
+
+    if (error) throw error
+    await saveExtraWork(orgId, save.record_id, save.extra_work)
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('daily_plucking')
+    .insert(save.rows.map(row => ({ ...row, organization_id: orgId })))
+    .select('id, is_advance')
+
+  if (error) throw error
+  const pluckingRecord = data?.find((record: any) => !record.is_advance)
+  if (pluckingRecord) await saveExtraWork(orgId, pluckingRecord.id, save.extra_work)
+  return data?.find((record: any) => record.is_advance)?.id ?? null
+}
+
+// Supabase reports a dropped connection as an error whose message carries the fetch failure
+export function isNetworkError(error: any) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  return /failed to fetch|network ?error|load failed/i.test(String(error?.message ?? error ?? ''))
+}
+
+// =====================================================
+// INDEXEDDB QUEUE
+// =====================================================
+
+export type SyncConflictReason = 'edited' | 'deleted' | 'duplicate' | 'rejected'
+
+export interface SyncConflict {
+  reason: SyncConflictReason
+  message: string
+  // The server's copy of the record, when there is one to compare against
+  server: PluckingRow | null
+}
+
+export interface QueuedPluckingSave {
+  id: string
+  organization_id: string
+  save: PluckingSave
+  queued_at: string
+  status: 'pending' | 'conflict'
+  conflict: SyncConflict | null
+}
+
+const DB_NAME = 'teaos-offline'
+const DB_VERSION = 1
+const QUEUE_STORE = 'daily_plucking_queue'
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(QUEUE_STORE)) {
+        request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openQueue()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function fetchQueuedSaves(orgId: string) {
+  const all = await withStore<QueuedPluckingSave[]>('readonly', store => store.getAll())
+  return all
+    .filter(entry => entry.organization_id === orgId)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at))
+}
+
+export async function queuePluckingSave(orgId: string, save: PluckingSave) {
+  const entry: QueuedPluckingSave = {
+    id: crypto.randomUUID(),
+    organization_id: orgId,
+    save,
+    queued_at: new Date().toISOString(),
+    status: 'pending',
+    conflict: null,
+  }
+  await withStore('readwrite', store => store.put(entry))
+  return entry
+}
+
+async function putQueued(entry: QueuedPluckingSave) {
+  await withStore('readwrite', store => store.put(entry))
+}
+
+export async function removeQueuedSave(id: string) {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+// =====================================================
+// REPLAY
+// =====================================================
+
+function differs(a: PluckingRow, b: PluckingRow) {
+  return COMPARED_FIELDS.some(field => {
+    if (typeof a[field] === 'number') return Number(a[field]) !== Number(b[field])
+    return (a[field] ?? null) !== (b[field] ?? null)
+  })
+}
+
+async function findUpdateConflict(save: Extract<PluckingSave, { kind: 'update' }>): Promise<SyncConflict | null> {
+  const { data, error } = await supabase
+    .from('daily_plucking')
+    .select(ROW_COLUMNS)
+    .eq('id', save.record_id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return { reason: 'deleted', message: 'This record was deleted on another device', server: null }
+  if (differs(save.original, data)) {
+    return { reason: 'edited', message: 'This record was changed on another device', server: data }
+  }
+  return null
+}
+
+// Replaying an insert twice, or after someone else entered the same day, would double a worker's wages
+async function findInsertConflict(orgId: string, save: Extract<PluckingSave, { kind: 'insert' }>): Promise<SyncConflict | null> {
+  for (const row of save.rows) {
+    const { data, error } = await supabase
+      .from('daily_plucking')
+      .select(ROW_COLUMNS)
+      .eq('organization_id', orgId)
+      .eq('worker_id', row.worker_id)
+      .eq('date', row.date)
+      .eq('is_advance', row.is_advance)
+      .limit(1)
+
+    if (error) throw error
+    if (data && data.length > 0) {
+      const kind = row.is_advance ? 'An advance' : 'A plucking record'
+      return { reason: 'duplicate', message: `${kind} for this worker and date already exists`, server: data[0] }
+    }
+  }
+  return null
+}
+
+function findConflict(orgId: string, save: PluckingSave) {
+  return save.kind === 'update' ? findUpdateConflict(save) : findInsertConflict(orgId, save)
+}
+
+export interface ReplayResult {
+  synced: number
+  conflicts: number
+  // False when the connection dropped again part way through
+  completed: boolean
+}
+
+let replaying: Promise<ReplayResult> | null = null
+
+async function replay(orgId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0, completed: true }
+  const pending = (await fetchQueuedSaves(orgId)).filter(entry => entry.status === 'pending')
+
+  for (const entry of pending) {
+    try {
+      const conflict = await findConflict(orgId, entry.save)
+      if (conflict) {
+        await putQueued({ ...entry, status: 'conflict', conflict })
+        result.conflicts++
+        continue
+      }
+      await applyPluckingSave(orgId, entry.save)
+      await removeQueuedSave(entry.id)
+      result.synced++
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        result.completed = false
+        break
+      }
+      // e.g. the payroll month was closed while this entry waited
+      const message = error?.message ?? 'The server rejected this entry'
+      await putQueued({ ...entry, status: 'conflict', conflict: { reason: 'rejected', message, server: null } })
+      result.conflicts++
+    }
+  }
+  return result
+}
+
+// Replays pending saves oldest first; concurrent callers share the run in progress
+export function replayQueuedSaves(orgId: string) {
+  replaying ??= replay(orgId).finally(() => {
+    replaying = null
+  })
+  return replaying
+}
+
+// 'mine' writes the queued values over the server; 'server' drops the queued save
+export async function resolveConflict(orgId: string, entry: QueuedPluckingSave, keep: 'mine' | 'server') {
+  if (keep === 'mine') {
+    const { save } = entry
+    // A record deleted elsewhere can only be kept by adding it back
+    const replacement: PluckingSave = save.kind === 'update' && entry.conflict?.reason === 'deleted'
+      ? { kind: 'insert', rows: [save.row], extra_work: save.extra_work }
+      : save
+    await applyPluckingSave(orgId, replacement)
+  }
+  await removeQueuedSave(entry.id)
+}
+
+// =====================================================
+// CACHED DATA
+// =====================================================
+
+// DATA_CACHE in public/sw.js
+const SW_DATA_CACHE = 'teaos-data-v1'
+
+// The service worker keeps the org's workers and settings for offline use; dropped
+// on sign-out so the next person on a shared device can't be served them
+export async function clearOfflineDataCache() {
+  if (typeof caches === 'undefined') return
+  await caches.delete(SW_DATA_CACHE)
+}
@@ -0,0 +1,26 @@
+import { supabase } from './supabase'
+
+// Feature settings are stored as top-level keys of organizations.settings (JSONB)
+
+export async function fetchOrgSettings(orgId: string): Promise<Record<string, any>> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', orgId)
+    .single()
+
+  if (error) throw error
+  return data?.settings ?? {}
+}
+
+// Merges one key into the settings so other features' settings are preserved
+export async function updateOrgSetting(orgId: string, key: string, value: unknown) {
+  const settings = await fetchOrgSettings(orgId)
+
+  const { error } = await supabase
+    .from('organizations')
+    .update({ settings: { ...settings, [key]: value } })
+    .eq('id', orgId)
+
+  if (error) throw error
+}
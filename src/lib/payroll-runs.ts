@@ -0,0 +1,87 @@
+import type { Localizer } from '@/lib/i18n'
+import type { PayrollRun, PayrollRunLine } from '@/types/payroll'
+
+import { supabase } from './supabase'
+
+// =====================================================
+// PAYROLL RUNS (month-end close, see sql/create_payroll_runs.sql)
+// =====================================================
+
+// A salary line as sent to close_payroll_month
+export type PayrollLineInput = Omit<PayrollRunLine, 'id' | 'payroll_run_id' | 'organization_id' | 'created_at'>
+
+export function monthStartOf(date: string) {
+  return `${date.slice(0, 7)}-01`
+}
+
+// All runs for a month, newest first; at most one of them is closed
+export async function fetchPayrollRuns(orgId: string, month: string): Promise<PayrollRun[]> {
+  const { data, error } = await supabase
+    .from('payroll_runs')
+    .select('*')
+    .eq('organization_id', orgId)
+    .eq('month', month)
+    .order('closed_at', { ascending: false })
+
+  if (error) throw error
+  return data ?? []
+}
+
+export async function fetchPayrollRunLines(runId: string): Promise<PayrollRunLine[]> {
+  const { data, error } = await supabase
+    .from('payroll_run_lines')
+    .select('*')
+    .eq('payroll_run_id', runId)
+    .order('net_salary', { ascending: false })
+
+  if (error) throw error
+  return data ?? []
+}
+
+// Months (yyyy-MM-01) currently closed, used to lock records in entry forms
+export async function fetchClosedMonths(orgId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('payroll_runs')
+    .select('month')
+    .eq('organization_id', orgId)
+    .eq('status', 'closed')
+
+  if (error) throw error
+  return new Set((data ?? []).map((r: { month: string }) => r.month))
+}
+
+export function isMonthClosed(closedMonths: Set<string>, date: string) {
+  return closedMonths.has(monthStartOf(date))
+}
+
+export function closedMonthMessage(date: string, { t, date: formatDate }: Localizer) {
+  return t('run.monthLocked', { month: formatDate(monthStartOf(date), 'month') })
+}
+
+export async function closePayrollMonth(orgId: string, month: string, lines: PayrollLineInput[]) {
+  const { data, error } = await supabase.rpc('close_payroll_month', {
+    p_org_id: orgId,
+    p_month: month,
+    p_lines: lines,
+  })
+
+  if (error) throw error
+  return data as string
+}
+
+// Owner only; the database records who reopened the run and when
+export async function reopenPayrollRun(runId: string, reason: string) {
+  const { error } = await supabase.rpc('reopen_payroll_run', {
+    p_run_id: runId,
+    p_reason: reason,
+  })
+
+  if (error) throw error
+}
+
+// user_id -> email for showing who closed or reopened a run
+export async function fetchMemberEmails(orgId: string): Promise<Map<string, string>> {
+  const { data, error } = await supabase.rpc('get_organization_members', { p_org_id: orgId })
+  if (error) return new Map()
+  return new Map((data ?? []).map((m: { user_id: string; email: string; full_name: string | null }) => [m.user_id, m.full_name ?? m.email]))
+}
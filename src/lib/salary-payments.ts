@@ -0,0 +1,82 @@
+import type { PaymentMethod, SalaryPayment } from '@/types/database'
+
+import { supabase } from './supabase'
+
+// =====================================================
+// SALARY PAYMENTS (several per worker-month)
+// =====================================================
+
+export type SalaryPaymentEntry = Pick<SalaryPayment, 'id' | 'worker_id' | 'amount' | 'payment_method' | 'reference' | 'paid_at' | 'signature_path'>
+
+export interface NewSalaryPayment {
+  worker_id: string
+  amount: number
+  payment_method: PaymentMethod
+  reference: string | null
+  // yyyy-MM-dd the money was handed over or transferred
+  paid_on: string
+}
+
+export interface SalaryPaymentStatus {
+  paid_to_date: number
+  balance: number
+  is_paid: boolean
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Paid-to-date and what is left of the net salary. A payment without an amount
+ * was recorded before instalments and settled the month in full.
+ */
+export function salaryPaymentStatus(netSalary: number, payments: Pick<SalaryPayment, 'amount'>[]): SalaryPaymentStatus {
+  if (payments.some(payment => payment.amount === null)) {
+    return { paid_to_date: round(Math.max(0, netSalary)), balance: 0, is_paid: true }
+  }
+  const paid_to_date = round(payments.reduce((sum, payment) => sum + Number(payment.amount), 0))
+  const balance = round(Math.max(0, netSalary - paid_to_date))
+  return { paid_to_date, balance, is_paid: payments.length > 0 && balance === 0 }
+}
+
+// The month's payments, oldest first, keyed by worker
+export async function fetchSalaryPayments(orgId: string, month: string) {
+  const { data, error } = await supabase
+    .from('salary_payments')
+    .select('id, worker_id, amount, payment_method, reference, paid_at, signature_path')
+    .eq('organization_id', orgId)
+    .eq('month', month)
+    .order('paid_at')
+
+  if (error) throw error
+  const byWorker = new Map<string, SalaryPaymentEntry[]>()
+  ;(data ?? []).forEach((payment: SalaryPaymentEntry) => {
+    byWorker.set(payment.worker_id, [...(byWorker.get(payment.worker_id) ?? []), payment])
+  })
+  return byWorker
+}
+
+// Returns the new payments' ids in the order given, so cash ones can be signed for
+export async function addSalaryPayments(orgId: string, month: string, payments: NewSalaryPayment[]) {
+  const { data, error } = await supabase
+    .from('salary_payments')
+    .insert(payments.map(({ paid_on, ...payment }) => ({
+      ...payment,
+      organization_id: orgId,
+      month,
+      amount: round(payment.amount),
+      paid_at: paid_on,
+    })))
+    .select('id')
+
+  if (error) throw error
+  return (data ?? []).map((row: { id: string }) => row.id)
+}
+
+export async function deleteSalaryPayment(paymentId: string) {
+  const { error } = await supabase
+    .from('salary_payments')
+    .delete()
+    .eq('id', paymentId)
+
+  if (error) throw error
+}
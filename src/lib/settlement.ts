@@ -0,0 +1,175 @@
+import { differenceInYears, format, parseISO, subMonths } from 'date-fns'
+
+import type { SalaryPayment, Worker } from '@/types/database'
+import type { WorkerSettlement } from '@/types/payroll'
+
+import { WorkerLedger, balanceBeforeRecovery, fetchAdvanceLedgers, ledgerMonth, monthKey } from './advances'
+import { fetchAttendanceAllowances, readAttendancePolicy } from './attendance'
+import { fetchOrgSettings } from './org-settings'
+import { salaryPaymentStatus } from './salary-payments'
+import { computeContributions, contributoryWage, readStatutoryRules } from './statutory'
+import { supabase } from './supabase'
+import { recordNormWage } from './wage-norms'
+
+// =====================================================
+// GRATUITY (Payment of Gratuity Act No. 12 of 1983)
+// =====================================================
+
+// Gratuity is due once a worker has completed this many years of service
+export const GRATUITY_MIN_YEARS = 5
+// Daily and piece-rate workers get 14 days' wages per completed year; monthly staff get half a month's salary
+const GRATUITY_DAYS_PER_YEAR = 14
+// A piece-rate worker's daily wage is their average over the months before leaving
+const GRATUITY_WAGE_MONTHS = 3
+
+export function yearsOfService(hireDate: string | null, terminationDate: string) {
+  if (!hireDate) return 0
+  return Math.max(0, differenceInYears(parseISO(terminationDate), parseISO(hireDate)))
+}
+
+export function gratuityFor(years: number, monthlySalary: number | null, dailyWage: number) {
+  if (years < GRATUITY_MIN_YEARS) return 0
+  return monthlySalary ? years * (monthlySalary / 2) : years * GRATUITY_DAYS_PER_YEAR * dailyWage
+}
+
+// =====================================================
+// FINAL SETTLEMENT
+// =====================================================
+
+export type SettlementWorker = Pick<Worker, 'id' | 'hire_date' | 'salary'>
+
+export type FinalSettlement = Omit<WorkerSettlement, 'id' | 'organization_id' | 'created_by' | 'created_at'>
+
+const round = (amount: number) => Math.round(amount * 100) / 100
+
+async function fetchEarnedRecords(orgId: string, workerId: string, from: string, to: string) {
+  const { data, error } = await supabase
+    .from('daily_plucking')
+    .select('date, kg_plucked, rate_per_kg, wage_earned, extra_work_payment, norm_kg, over_kilo_pay, wage_top_up, holiday_pay')
+    .eq('organization_id', orgId)
+    .eq('worker_id', workerId)
+    .eq('is_advance', false)
+    .gte('date', from)
+    .lte('date', to)
+
+  if (error) throw error
+  return data ?? []
+}
+
+function sumEarnings(records: Awaited<ReturnType<typeof fetchEarnedRecords>>) {
+  const extra_work = records.reduce((sum, record) => sum + (Number(record.extra_work_payment) || 0), 0)
+  const earned = records.reduce((sum, record) => sum + recordNormWage(record).plucking_wage, 0) + extra_work
+  return { earned, extra_work, days: new Set(records.map(record => record.date)).size }
+}
+
+async function fetchMonthBonus(orgId: string, workerId: string, month: string) {
+  const { data } = await supabase
+    .from('worker_bonuses')
+    .select('amount')
+    .eq('organization_id', orgId)
+    .eq('worker_id', workerId)
+    .eq('month', month)
+  return (data ?? []).reduce((sum, bonus) => sum + (Number(bonus.amount) || 0), 0)
+}
+
+async function fetchMonthPayments(orgId: string, workerId: string, month: string) {
+  const { data } = await supabase
+    .from('salary_payments')
+    .select('amount')
+    .eq('organization_id', orgId)
+    .eq('worker_id', workerId)
+    .eq('month', month)
+  return data ?? []
+}
+
+/**
+ * The last month counts as paid once its salary (after that month's advance
+ * recovery) is paid in full; instalments paid short of that are deducted.
+ */
+function lastMonthPaid(ledger: WorkerLedger | undefined, month: string, wagesAfterEpf: number, payments: Pick<SalaryPayment, 'amount'>[]) {
+  const current = ledgerMonth(ledger, month)
+  const { paid_to_date, is_paid } = salaryPaymentStatus(wagesAfterEpf - (current?.recovered ?? 0), payments)
+  return {
+    paid: is_paid,
+    wages_paid: is_paid ? 0 : paid_to_date,
+    // A paid month has already recovered its instalments, so only the balance after it is left
+    advance_outstanding: is_paid ? current?.balance ?? ledger?.outstanding ?? 0 : balanceBeforeRecovery(ledger, month),
+  }
+}
+
+/**
+ * Works out what is owed when a worker leaves on terminationDate: the last
+ * month's wages and attendance allowance (less what was already paid of them)
+ * less EPF, less every advance still outstanding, plus gratuity.
+ */
+export async function calculateSettlement(
+  orgId: string,
+  worker: SettlementWorker,
+  terminationDate: string,
+  reason: string
+): Promise<FinalSettlement> {
+  const month = monthKey(terminationDate)
+  const wageFrom = format(subMonths(parseISO(terminationDate), GRATUITY_WAGE_MONTHS), 'yyyy-MM-dd')
+  const [records, bonus, payments, settings, ledgers] = await Promise.all([
+    fetchEarnedRecords(orgId, worker.id, wageFrom, terminationDate),
+    fetchMonthBonus(orgId, worker.id, month),
+    fetchMonthPayments(orgId, worker.id, month),
+    fetchOrgSettings(orgId),
+    fetchAdvanceLedgers(orgId, month, worker.id),
+  ])
+
+  const monthEarnings = sumEarnings(records.filter(record => record.date >= month))
+  const recentEarnings = sumEarnings(records)
+  const rules = readStatutoryRules(settings)
+  // The allowance is not part of the contributory wage, as on the salary page
+  const allowances = await fetchAttendanceAllowances(orgId, month, terminationDate, readAttendancePolicy(settings), worker.id)
+  const wages = monthEarnings.earned + bonus + (allowances.get(worker.id) ?? 0)
+  const { epf_employee } = computeContributions(
+    contributoryWage({ total_earned: monthEarnings.earned, extra_work: monthEarnings.extra_work, bonus }, rules),
+    rules
+  )
+
+  const ledger = ledgers.get(worker.id)
+  const { paid, wages_paid, advance_outstanding } = lastMonthPaid(ledger, month, wages - epf_employee, payments)
+
+  const years_of_service = yearsOfService(worker.hire_date, terminationDate)
+  const monthly_salary = worker.salary && worker.salary > 0 ? Number(worker.salary) : null
+  const gratuity_daily_wage = recentEarnings.days > 0 ? recentEarnings.earned / recentEarnings.days : 0
+  const gratuity = gratuityFor(years_of_service, monthly_salary, gratuity_daily_wage)
+  const wages_due = paid ? 0 : wages - epf_employee - wages_paid
+
+  return {
+    worker_id: worker.id,
+    termination_date: terminationDate,
+    reason,
+    days_worked: monthEarnings.days,
+    wages: round(wages),
+    epf_employee,
+    wages_already_paid: paid,
+    wages_paid: round(wages_paid),
+    wages_due: round(wages_due),
+    advance_outstanding: round(advance_outstanding),
+    years_of_service,
+    monthly_salary,
+    gratuity_daily_wage: round(gratuity_daily_wage),
+    gratuity: round(gratuity),
+    net_payable: round(wages_due + gratuity - advance_outstanding),
+  }
+}
+
+// Keeps the settlement, marks the last month's wages paid with it and terminates the worker, in one transaction
+export async function terminateWorker(orgId: string, settlement: FinalSettlement) {
+  const { error } = await supabase.rpc('terminate_worker', { p_org_id: orgId, p_settlement: settlement })
+  if (error) throw error
+}
+
+export async function fetchSettlement(workerId: string) {
+  const { data, error } = await supabase
+    .from('worker_settlements')
+    .select('*')
+    .eq('worker_id', workerId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as WorkerSettlement | null
+}
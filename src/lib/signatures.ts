@@ -0,0 +1,61 @@
+import { supabase } from './supabase'
+
+// =====================================================
+// PAYMENT SIGNATURES (private 'signatures' bucket)
+// =====================================================
+
+const SIGNATURE_BUCKET = 'signatures'
+
+// Signed URLs are only needed long enough to show or print a receipt
+const SIGNED_URL_SECONDS = 60 * 60
+
+// Tables whose rows carry a signature_path: cash salary payments and advances
+export type SignedRecord = 'salary_payments' | 'daily_plucking'
+
+/**
+ * Uploads the signature under the organization's folder and links it to the
+ * payment. A new file is written each time so a re-signed receipt never shows
+ * a cached image. Earlier signatures stay in storage as proof of payment, and
+ * the bucket allows no deletes, so an upload whose record update fails is left behind.
+ */
+export async function saveSignature(orgId: string, table: SignedRecord, recordId: string, image: Blob) {
+  const path = `${orgId}/${table}/${recordId}-${Date.now()}.png`
+
+  const { error: uploadError } = await supabase.storage
+    .from(SIGNATURE_BUCKET)
+    .upload(path, image, { contentType: 'image/png' })
+  if (uploadError) throw uploadError
+
+  const { error } = await supabase
+    .from(table)
+    .update({ signature_path: path })
+    .eq('id', recordId)
+  if (error) throw error
+  return path
+}
+
+// Signed URLs keyed by signature path; paths that fail to sign are left out
+export async function signatureUrls(paths: (string | null | undefined)[]) {
+  const unique = [...new Set(paths.filter((path): path is string => !!path))]
+  const urls = new Map<string, string>()
+  if (unique.length === 0) return urls
+
+  const { data, error } = await supabase.storage
+    .from(SIGNATURE_BUCKET)
+    .createSignedUrls(unique, SIGNED_URL_SECONDS)
+  if (error) throw error
+
+  ;(data ?? []).forEach(item => {
+    if (item.path && item.signedUrl) urls.set(item.path, item.signedUrl)
+  })
+  return urls
+}
+
+// Logos and signatures load from storage after the print document is written; printing earlier leaves them blank
+export function imagesLoaded(doc: Document) {
+  const pending = Array.from(doc.images).filter(image => !image.complete)
+  return Promise.all(pending.map(image => new Promise<void>(resolve => {
+    image.addEventListener('load', () => resolve(), { once: true })
+    image.addEventListener('error', () => resolve(), { once: true })
+  })))
+}
@@ -0,0 +1,69 @@
+// =====================================================
+// STATUTORY CONTRIBUTIONS (organizations.settings.statutory_rules)
+// =====================================================
+// Sri Lankan EPF is deducted from the employee's wage and matched by the employer;
+// ETF is paid by the employer only. Rates are percentages of the contributory wage.
+
+export interface StatutoryRules {
+  enabled: boolean
+  epf_employee_rate: number
+  epf_employer_rate: number
+  etf_rate: number
+  // Whether extra work payments and bonuses count towards the contributory wage
+  include_extra_work: boolean
+  include_bonus: boolean
+}
+
+// Off until the organization turns it on, so nothing is deducted from workers who are not registered
+export const DEFAULT_STATUTORY_RULES: StatutoryRules = {
+  enabled: false,
+  epf_employee_rate: 8,
+  epf_employer_rate: 12,
+  etf_rate: 3,
+  include_extra_work: true,
+  include_bonus: false,
+}
+
+export interface StatutoryContributions {
+  contributory_wage: number
+  epf_employee: number
+  epf_employer: number
+  etf: number
+}
+
+export const NO_CONTRIBUTIONS: StatutoryContributions = {
+  contributory_wage: 0,
+  epf_employee: 0,
+  epf_employer: 0,
+  etf: 0,
+}
+
+export function readStatutoryRules(settings: Record<string, any>): StatutoryRules {
+  return { ...DEFAULT_STATUTORY_RULES, ...(settings.statutory_rules ?? {}) }
+}
+
+// total_earned includes extra work, as elsewhere in salary calculations
+export function contributoryWage(
+  earnings: { total_earned: number; extra_work: number; bonus: number },
+  rules: StatutoryRules
+) {
+  const wage = earnings.total_earned
+    - (rules.include_extra_work ? 0 : earnings.extra_work)
+    + (rules.include_bonus ? earnings.bonus : 0)
+  return Math.max(0, wage)
+}
+
+function percentOf(amount: number, rate: number) {
+  return Math.round(amount * rate) / 100
+}
+
+export function computeContributions(wage: number, rules: StatutoryRules): StatutoryContributions {
+  if (!rules.enabled || wage <= 0) return NO_CONTRIBUTIONS
+
+  return {
+    contributory_wage: wage,
+    epf_employee: percentOf(wage, rules.epf_employee_rate),
+    epf_employer: percentOf(wage, rules.epf_employer_rate),
+    etf: percentOf(wage, rules.etf_rate),
+  }
+}
@@ -1,5 +1,5 @@
 import { createBrowserClient as createSSRBrowserClient } from '@supabase/ssr'
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type PostgrestError } from '@supabase/supabase-js'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -7,6 +7,25 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 // Client-side Supabase instance (safe for browser) - for data operations
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+
+/**
+ * Fetches every row of a query one page at a time. `page` builds the query for
+ * rows from..to (inclusive) and must order by a unique column so pages don't overlap.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
 // Browser client with cookie support - for auth operations
 export function createBrowserSupabaseClient() {
   return createSSRBrowserClient(supabaseUrl, supabaseAnonKey)
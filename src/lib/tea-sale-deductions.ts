@@ -0,0 +1,123 @@
+import type { DeductionMethod, FactoryDeductionType, TeaSaleDeduction } from '@/types/factories'
+
+import { supabase } from './supabase'
+
+// Embedded select for the itemised deduction lines of a tea_sales record
+export const DEDUCTIONS_SELECT = 'tea_sale_deductions (id, deduction_type_id, name, method, value, amount)'
+
+export const DEDUCTION_METHODS: DeductionMethod[] = ['fixed', 'per_kg', 'percent', 'kg']
+
+// What a deduction's value is entered in
+export const DEDUCTION_UNITS: Record<DeductionMethod, string> = {
+  fixed: 'රු',
+  per_kg: 'රු/kg',
+  percent: '%',
+  kg: 'kg',
+}
+
+export interface DeductionLine {
+  deduction_type_id: string | null
+  name: string
+  method: DeductionMethod
+  value: number
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export function deductionAmount(line: Pick<DeductionLine, 'method' | 'value'>, kg: number, rate: number) {
+  switch (line.method) {
+    case 'per_kg':
+      return round2(line.value * kg)
+    case 'percent':
+      return round2((kg * rate * line.value) / 100)
+    case 'kg':
+      return round2(line.value * rate)
+    default:
+      return round2(line.value)
+  }
+}
+
+export function totalDeductions(lines: DeductionLine[], kg: number, rate: number) {
+  return round2(lines.reduce((sum, line) => sum + deductionAmount(line, kg, rate), 0))
+}
+
+export interface SaleIncome {
+  total_income: number
+  deductions?: number | null
+  net_income?: number | null
+}
+
+// Sales recorded before deductions were itemised have no net_income stored
+export function saleNetIncome(sale: SaleIncome) {
+  if (sale.net_income !== null && sale.net_income !== undefined) return Number(sale.net_income)
+  return Number(sale.total_income) - Number(sale.deductions ?? 0)
+}
+
+export function toDeductionLines(rows: Pick<TeaSaleDeduction, 'deduction_type_id' | 'name' | 'method' | 'value'>[] | null | undefined): DeductionLine[] {
+  return (rows ?? []).map(row => ({
+    deduction_type_id: row.deduction_type_id,
+    name: row.name,
+    method: row.method,
+    value: Number(row.value) || 0,
+  }))
+}
+
+// Starting lines for a new sale: every active deduction the factory takes
+export function linesFromTypes(types: FactoryDeductionType[]): DeductionLine[] {
+  return types
+    .filter(type => type.is_active)
+    .map(type => ({
+      deduction_type_id: type.id,
+      name: type.name,
+      method: type.method,
+      value: Number(type.default_value) || 0,
+    }))
+}
+
+export async function fetchDeductionTypes(orgId: string, factoryId?: string) {
+  let query = supabase
+    .from('factory_deduction_types')
+    .select('*')
+    .eq('organization_id', orgId)
+    .order('name')
+
+  if (factoryId) query = query.eq('factory_id', factoryId)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data ?? []) as FactoryDeductionType[]
+}
+
+// The lines as stored, with their amounts; lines that come to nothing are not stored
+export function saleDeductionRows(lines: DeductionLine[], kg: number, rate: number) {
+  return lines
+    .map(line => ({
+      deduction_type_id: line.deduction_type_id,
+      name: line.name.trim(),
+      method: line.method,
+      value: line.value,
+      amount: deductionAmount(line, kg, rate),
+    }))
+    .filter(row => row.name && row.amount !== 0)
+}
+
+// Replaces the sale's deduction lines
+export async function saveSaleDeductions(orgId: string, saleId: string, lines: DeductionLine[], kg: number, rate: number) {
+  const { error: deleteError } = await supabase
+    .from('tea_sale_deductions')
+    .delete()
+    .eq('tea_sale_id', saleId)
+
+  if (deleteError) throw deleteError
+
+  const rows = saleDeductionRows(lines, kg, rate)
+  if (rows.length === 0) return
+
+  const { error } = await supabase
+    .from('tea_sale_deductions')
+    .insert(rows.map(row => ({ ...row, organization_id: orgId, tea_sale_id: saleId })))
+
+  if (error) throw error
+}
@@ -42,3 +42,10 @@ export function formatCurrency(
   const formatted = new Intl.NumberFormat(locale, formatOptions).format(amount);
   return formatted.replace('LKR', 'රු').replace('Rs.', 'රු');
 }
+
+const HTML_ENTITIES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+// For names, notes and other entered text written into print windows as HTML
+export function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? "").replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
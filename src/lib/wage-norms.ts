@@ -0,0 +1,170 @@
+import type { Localizer } from '@/lib/i18n'
+
+// =====================================================
+// WAGE NORMS (organizations.settings.wage_norms)
+// =====================================================
+
+export interface WageNorm {
+  // Kg a plucker must bring in to earn the guaranteed daily wage
+  norm_kg: number
+  daily_wage: number
+  // Paid per kg above the norm
+  over_kilo_rate: number
+  // Any plucking day pays at least this; short days are topped up
+  minimum_wage: number
+}
+
+// A norm for one plantation and/or season; the season runs from_month..to_month and may wrap past December
+export interface WageNormOverride extends WageNorm {
+  label: string
+  plantation_id: string | null
+  from_month: number | null
+  to_month: number | null
+}
+
+export interface WageNormSettings {
+  // Off: plucking is paid kg × rate, as before norms existed
+  enabled: boolean
+  default: WageNorm
+  overrides: WageNormOverride[]
+}
+
+export const DEFAULT_WAGE_NORM: WageNorm = {
+  norm_kg: 18,
+  daily_wage: 1350,
+  over_kilo_rate: 50,
+  minimum_wage: 1000,
+}
+
+export const DEFAULT_WAGE_NORMS: WageNormSettings = {
+  enabled: false,
+  default: DEFAULT_WAGE_NORM,
+  overrides: [],
+}
+
+export function readWageNorms(settings: Record<string, any>): WageNormSettings {
+  const saved = settings.wage_norms ?? {}
+  return {
+    ...DEFAULT_WAGE_NORMS,
+    ...saved,
+    default: { ...DEFAULT_WAGE_NORM, ...(saved.default ?? {}) },
+    overrides: saved.overrides ?? [],
+  }
+}
+
+function inSeason(override: WageNormOverride, month: number) {
+  if (override.from_month === null || override.to_month === null) return true
+  return override.from_month <= override.to_month
+    ? month >= override.from_month && month <= override.to_month
+    : month >= override.from_month || month <= override.to_month
+}
+
+// A plantation's own norm beats a seasonal one, and one for both beats either
+function specificity(override: WageNormOverride) {
+  return (override.plantation_id ? 2 : 0) + (override.from_month !== null ? 1 : 0)
+}
+
+// The norm for a day's plucking, or null when norms are off
+export function normFor(settings: WageNormSettings, date: string, plantationId: string | null | undefined): WageNorm | null {
+  if (!settings.enabled) return null
+  const month = Number(date.slice(5, 7))
+  const matching = settings.overrides
+    .filter(override => (!override.plantation_id || override.plantation_id === plantationId) && inSeason(override, month))
+    .sort((a, b) => specificity(b) - specificity(a))
+  return matching[0] ?? settings.default
+}
+
+// =====================================================
+// DAILY WAGE
+// =====================================================
+
+// What a day's plucking pays; extra work is added on top
+export interface NormWage {
+  // The norm in force that day; null when paid kg × rate
+  norm_kg: number | null
+  // kg × rate below the norm, the daily wage once it is reached
+  base_wage: number
+  over_kilo_pay: number
+  wage_top_up: number
+  // What a holiday rate multiplier adds on top of the rest
+  holiday_pay: number
+  plucking_wage: number
+}
+
+// holidayRate is the multiplier for the day (see lib/holidays); 1 on working days
+export function calculateNormWage(kg: number, rate: number, norm: WageNorm | null, holidayRate = 1): NormWage {
+  // Days with only extra work are not topped up
+  if (!norm || kg <= 0) {
+    return withHolidayPay({ norm_kg: null, base_wage: kg * rate, over_kilo_pay: 0, wage_top_up: 0 }, holidayRate)
+  }
+
+  const metNorm = kg >= norm.norm_kg
+  const base_wage = metNorm ? norm.daily_wage : kg * rate
+  const over_kilo_pay = metNorm ? (kg - norm.norm_kg) * norm.over_kilo_rate : 0
+  const wage_top_up = Math.max(0, norm.minimum_wage - base_wage - over_kilo_pay)
+  return withHolidayPay({ norm_kg: norm.norm_kg, base_wage, over_kilo_pay, wage_top_up }, holidayRate)
+}
+
+function withHolidayPay(wage: Omit<NormWage, 'holiday_pay' | 'plucking_wage'>, holidayRate: number): NormWage {
+  const workingDayWage = wage.base_wage + wage.over_kilo_pay + wage.wage_top_up
+  const holiday_pay = workingDayWage * (holidayRate - 1)
+  return { ...wage, holiday_pay, plucking_wage: workingDayWage + holiday_pay }
+}
+
+// The columns a daily_plucking row stores for its wage breakdown
+export function normColumns(wage: NormWage) {
+  return { norm_kg: wage.norm_kg, over_kilo_pay: wage.over_kilo_pay, wage_top_up: wage.wage_top_up, holiday_pay: wage.holiday_pay }
+}
+
+interface StoredWage {
+  kg_plucked: number
+  rate_per_kg: number
+  wage_earned: number
+  extra_work_payment?: number | null
+  norm_kg?: number | null
+  over_kilo_pay?: number | null
+  wage_top_up?: number | null
+  holiday_pay?: number | null
+}
+
+// The breakdown of a saved record; records saved without a norm are kg × rate, plus any holiday pay
+export function recordNormWage(record: StoredWage): NormWage {
+  const kg = Number(record.kg_plucked) || 0
+  const holiday_pay = Number(record.holiday_pay) || 0
+  if (record.norm_kg === null || record.norm_kg === undefined) {
+    const base_wage = kg * (Number(record.rate_per_kg) || 0)
+    return { norm_kg: null, base_wage, over_kilo_pay: 0, wage_top_up: 0, holiday_pay, plucking_wage: base_wage + holiday_pay }
+  }
+
+  const plucking_wage = (Number(record.wage_earned) || 0) - (Number(record.extra_work_payment) || 0)
+  const over_kilo_pay = Number(record.over_kilo_pay) || 0
+  const wage_top_up = Number(record.wage_top_up) || 0
+  return {
+    norm_kg: Number(record.norm_kg),
+    base_wage: plucking_wage - over_kilo_pay - wage_top_up - holiday_pay,
+    over_kilo_pay,
+    wage_top_up,
+    holiday_pay,
+    plucking_wage,
+  }
+}
+
+// One line per part of the wage, for tooltips and printouts
+export function describeNormWage(wage: NormWage, kg: number, rate: number, l: Localizer) {
+  const lines = normLines(wage, kg, rate, l)
+  if (wage.holiday_pay > 0) lines.push(l.t('plucking.norm.holiday', { amount: l.money(wage.holiday_pay) }))
+  return lines
+}
+
+function normLines(wage: NormWage, kg: number, rate: number, { t, kg: formatKg, money }: Localizer) {
+  const wageParams = { kg: formatKg(kg), rate: money(rate), wage: money(wage.base_wage) }
+  if (wage.norm_kg === null) return [t('plucking.norm.simple', wageParams)]
+
+  const norm = formatKg(wage.norm_kg)
+  const lines = kg >= wage.norm_kg
+    ? [t('plucking.norm.reached', { norm, wage: wageParams.wage })]
+    : [t('plucking.norm.below', { ...wageParams, norm })]
+  if (wage.over_kilo_pay > 0) lines.push(t('plucking.norm.overKilo', { kg: formatKg(kg - wage.norm_kg), amount: money(wage.over_kilo_pay) }))
+  if (wage.wage_top_up > 0) lines.push(t('plucking.norm.topUp', { amount: money(wage.wage_top_up) }))
+  return lines
+}
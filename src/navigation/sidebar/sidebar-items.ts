@@ -13,11 +13,18 @@ import {
   Calendar,
   LayoutDashboard,
   DollarSign,
+  Wallet,
+  Scale,
+  ArrowLeftRight,
+  CalendarCheck,
   type LucideIcon,
 } from "lucide-react";
 
+import type { MessageKey } from "@/lib/i18n";
+
+// Titles and labels are message keys, translated when the sidebar renders
 export interface NavSubItem {
-  title: string;
+  title: MessageKey;
   url: string;
   icon?: LucideIcon;
   comingSoon?: boolean;
@@ -26,7 +33,7 @@ export interface NavSubItem {
 }
 
 export interface NavMainItem {
-  title: string;
+  title: MessageKey;
   url: string;
   icon?: LucideIcon;
   subItems?: NavSubItem[];
@@ -37,17 +44,17 @@ export interface NavMainItem {
 
 export interface NavGroup {
   id: number;
-  label?: string;
+  label?: MessageKey;
   items: NavMainItem[];
 }
 
 export const sidebarItems: NavGroup[] = [
   {
     id: 1,
-    label: "Overview",
+    label: "nav.overview",
     items: [
       {
-        title: "Dashboard",
+        title: "nav.dashboard",
         url: "/dashboard/default",
         icon: LayoutDashboard,
       },
@@ -55,52 +62,67 @@ export const sidebarItems: NavGroup[] = [
   },
   {
     id: 2,
-    label: "Plantation Management",
+    label: "nav.plantationManagement",
     items: [
       {
-        title: "Plantations",
+        title: "nav.plantations",
         url: "/dashboard/plantations",
         icon: Leaf,
       },
       {
-        title: "Tea Sales",
+        title: "nav.teaSales",
         url: "/dashboard/tea-sales",
         icon: TrendingUp,
       },
       {
-        title: "Factory Rates",
+        title: "nav.factoryRates",
         url: "/dashboard/factory-rates",
         icon: BarChart3,
       },
+      {
+        title: "nav.factoryComparison",
+        url: "/dashboard/factory-comparison",
+        icon: ArrowLeftRight,
+      },
     ],
   },
   {
     id: 3,
-    label: "Employee Management",
+    label: "nav.employeeManagement",
     items: [
       {
-        title: "Workers",
+        title: "nav.workers",
         url: "/dashboard/workers",
         icon: Users,
       },
       {
-        title: "Daily Records",
+        title: "nav.dailyRecords",
         url: "/dashboard/daily-plucking",
         icon: Scissors,
       },
       {
-        title: "Salary Management",
+        title: "nav.attendance",
+        url: "/dashboard/attendance",
+        icon: CalendarCheck,
+      },
+      {
+        title: "nav.salaryManagement",
         url: "/dashboard/salary",
         icon: DollarSign,
       },
+      {
+        title: "nav.advances",
+        url: "/dashboard/advances",
+        icon: Wallet,
+      },
     ],
   },
   {
     id: 4,
-    label: "Operations",
+    label: "nav.operations",
     items: [
       {
-        title: "Scheduler",
+        title: "nav.scheduler",
         url: "/dashboard/scheduler",
         icon: Calendar,
       },
@@ -108,12 +130,17 @@ export const sidebarItems: NavGroup[] = [
   },
   {
     id: 5,
-    label: "Reports & Analytics",
+    label: "nav.reportsAnalytics",
     items: [
       {
-        title: "PDF Reports",
+        title: "nav.pdfReports",
         url: "/dashboard/reports",
         icon: FileText,
+      },
+      {
+        title: "nav.leafReconciliation",
+        url: "/dashboard/leaf-reconciliation",
+        icon: Scale,
       }
     ],
   },
@@ -1,18 +1,23 @@
 import { createStore } from "zustand/vanilla";
 
+import type { Language } from "@/types/preferences/language";
 import type { ThemeMode, ThemePreset } from "@/types/preferences/theme";
 
 export type PreferencesState = {
   themeMode: ThemeMode;
   themePreset: ThemePreset;
+  language: Language;
   setThemeMode: (mode: ThemeMode) => void;
   setThemePreset: (preset: ThemePreset) => void;
+  setLanguage: (language: Language) => void;
 };
 
 export const createPreferencesStore = (init?: Partial<PreferencesState>) =>
   createStore<PreferencesState>()((set) => ({
     themeMode: init?.themeMode ?? "light",
     themePreset: init?.themePreset ?? "default",
+    language: init?.language ?? "en",
     setThemeMode: (mode) => set({ themeMode: mode }),
     setThemePreset: (preset) => set({ themePreset: preset }),
+    setLanguage: (language) => set({ language }),
   }));
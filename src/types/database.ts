@@ -79,6 +79,8 @@ export interface Plantation {
   updated_at: string
 }
 
+export type PaymentMethod = 'cash' | 'bank'
+
 export interface Worker {
   id: string
   organization_id: string | null
@@ -90,7 +92,17 @@ export interface Worker {
   plantation_id: string | null
   hire_date: string | null
   salary: number | null
+  max_advance: number | null
   status: 'active' | 'inactive' | 'terminated'
+  // Set by the termination workflow (see lib/settlement)
+  termination_date: string | null
+  termination_reason: string | null
+  payment_method: PaymentMethod
+  // LankaClear bank and branch codes; used when payment_method is 'bank'
+  bank_code: string | null
+  bank_branch_code: string | null
+  bank_account_number: string | null
+  bank_account_name: string | null
   created_at: string
   updated_at: string
 }
@@ -200,8 +212,16 @@ export interface DailyPlucking {
   wage_earned: number
   total_income: number
   extra_work_payment: number
+  // Wage breakdown under a norm (see lib/wage-norms); norm_kg is null for kg × rate
+  norm_kg: number | null
+  over_kilo_pay: number
+  wage_top_up: number
+  // Part of wage_earned from a holiday rate multiplier (see lib/holidays)
+  holiday_pay: number
   is_advance: boolean
   notes: string | null
+  // Worker's signature for an advance taken (see lib/signatures)
+  signature_path: string | null
   created_at: string
 }
 
@@ -221,35 +241,46 @@ export interface SalaryPayment {
   organization_id: string | null
   worker_id: string
   month: string
-  amount: number
+  // One payment of the month's salary; null on payments that settled the month before instalments
+  amount: number | null
+  payment_method: PaymentMethod
+  // Bank payment file the salary was paid in
+  reference: string | null
+  // Worker's signature for a cash payment (see lib/signatures)
+  signature_path: string | null
   paid_at: string
   created_at: string
 }
 
+export type TeaSalePaymentStatus = 'unpaid' | 'partial' | 'paid'
+
 export interface TeaSale {
   id: string
   organization_id: string | null
   date: string
   factory_id: string | null
+  factory_name: string
   kg_delivered: number
   rate_per_kg: number
   total_income: number
   deductions: number
   net_income: number
+  amount_paid: number
+  payment_status: TeaSalePaymentStatus
+  trip_id: string | null
   receipt_number: string | null
   notes: string | null
   created_at: string
   updated_at: string
 }
 
+// The rate in force today for a factory; id is the factory's id
 export interface FactoryRate {
   id: string
   organization_id: string | null
-  factory_name: string
-  rate_per_kg: number
-  effective_from: string
-  notes: string | null
-  is_active: boolean
+  current_rate: number
+  previous_rate: number | null
+  effective_date: string
   created_at: string
   updated_at: string
 }
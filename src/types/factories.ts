@@ -0,0 +1,128 @@
+// Factory types: factories, sale deductions, payments, leaf trips and statement reconciliations
+
+export type DeductionMethod = 'fixed' | 'per_kg' | 'percent' | 'kg'
+
+// A deduction a factory takes from sales, with the value used to pre-fill new sales
+export interface FactoryDeductionType {
+  id: string
+  organization_id: string | null
+  factory_id: string
+  name: string
+  method: DeductionMethod
+  default_value: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// One itemised deduction line on a tea sale
+export interface TeaSaleDeduction {
+  id: string
+  organization_id: string | null
+  tea_sale_id: string
+  deduction_type_id: string | null
+  name: string
+  method: DeductionMethod
+  value: number
+  amount: number
+  created_at: string
+}
+
+export interface Factory {
+  id: string
+  organization_id: string | null
+  name: string
+  contact_person: string | null
+  phone: string | null
+  address: string | null
+  distance_km: number | null
+  registration_number: string | null
+  bank_name: string | null
+  bank_branch: string | null
+  bank_account_name: string | null
+  bank_account_number: string | null
+  notes: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type FactoryPaymentMethod = 'bank_transfer' | 'cheque' | 'cash'
+
+// Money received from a factory, allocated across one or more deliveries
+export interface FactoryPayment {
+  id: string
+  organization_id: string | null
+  factory_id: string
+  payment_date: string
+  amount: number
+  method: FactoryPaymentMethod
+  reference: string | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface FactoryPaymentAllocation {
+  id: string
+  organization_id: string | null
+  payment_id: string
+  tea_sale_id: string
+  amount: number
+  created_at: string
+}
+
+// A lorry trip taking leaf to one or more factories; its deliveries link back through tea_sales.trip_id
+export interface LeafTrip {
+  id: string
+  organization_id: string | null
+  trip_date: string
+  departure_time: string | null
+  vehicle_number: string
+  driver_name: string | null
+  cost: number
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type FactoryReconciliationStatus = 'accepted' | 'disputed'
+
+export type StatementLineStatus = 'matched' | 'mismatch' | 'missing_recorded' | 'missing_statement'
+
+// A factory's monthly statement checked against our tea sales for that month
+export interface FactoryReconciliation {
+  id: string
+  organization_id: string | null
+  factory_id: string
+  month: string
+  status: FactoryReconciliationStatus
+  file_name: string | null
+  statement_kg: number
+  statement_amount: number
+  recorded_kg: number
+  recorded_amount: number
+  mismatch_count: number
+  dispute_reason: string | null
+  reconciled_by: string | null
+  reconciled_at: string
+  created_at: string
+  updated_at: string
+}
+
+export interface FactoryStatementLine {
+  id: string
+  organization_id: string | null
+  reconciliation_id: string
+  date: string
+  tea_sale_id: string | null
+  statement_kg: number | null
+  statement_deduction_kg: number | null
+  statement_rate: number | null
+  recorded_kg: number | null
+  recorded_deduction_kg: number | null
+  recorded_rate: number | null
+  status: StatementLineStatus
+  created_at: string
+}
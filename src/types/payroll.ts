@@ -0,0 +1,131 @@
+// Payroll types: extra work, advance schedules, attendance, holidays, settlements and closed months
+
+export interface ExtraWorkType {
+  id: string
+  organization_id: string | null
+  name: string
+  default_rate: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// One itemised extra work line on a daily_plucking record
+export interface ExtraWork {
+  id: string
+  organization_id: string | null
+  daily_plucking_id: string
+  extra_work_type_id: string | null
+  description: string
+  amount: number
+  created_at: string
+}
+
+// Instalment plan for an advance (a daily_plucking row with is_advance = true)
+export interface AdvanceSchedule {
+  id: string
+  organization_id: string | null
+  daily_plucking_id: string
+  worker_id: string
+  instalments: number
+  start_month: string
+  created_at: string
+  updated_at: string
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'half_day' | 'leave'
+
+export type LeaveType = 'annual' | 'casual' | 'sick'
+
+// A register entry; days with plucking and no entry count as present
+export interface WorkerAttendance {
+  id: string
+  organization_id: string | null
+  worker_id: string
+  date: string
+  status: AttendanceStatus
+  leave_type: LeaveType | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type HolidayType = 'poya' | 'public' | 'mercantile' | 'estate'
+
+// An organization holiday; plucking on it is paid at the type's rate multiplier
+export interface Holiday {
+  id: string
+  organization_id: string
+  date: string
+  name: string
+  holiday_type: HolidayType
+  created_at: string
+  updated_at: string
+}
+
+// The final settlement worked out when a worker was terminated
+export interface WorkerSettlement {
+  id: string
+  organization_id: string
+  worker_id: string
+  termination_date: string
+  reason: string
+  days_worked: number
+  wages: number
+  epf_employee: number
+  wages_already_paid: boolean
+  // Instalments already paid of a last month that was not paid in full
+  wages_paid: number
+  wages_due: number
+  advance_outstanding: number
+  years_of_service: number
+  monthly_salary: number | null
+  gratuity_daily_wage: number
+  gratuity: number
+  net_payable: number
+  created_by: string | null
+  created_at: string
+}
+
+// A closed payroll month; reopening keeps the run as history
+export interface PayrollRun {
+  id: string
+  organization_id: string | null
+  month: string
+  status: 'closed' | 'reopened'
+  worker_count: number
+  total_kg: number
+  total_net: number
+  closed_by: string | null
+  closed_at: string
+  reopened_by: string | null
+  reopened_at: string | null
+  reopen_reason: string | null
+  created_at: string
+}
+
+// Immutable salary line snapshotted when a month is closed
+export interface PayrollRunLine {
+  id: string
+  payroll_run_id: string
+  organization_id: string | null
+  worker_id: string | null
+  employee_id: string
+  worker_name: string
+  days_worked: number
+  total_kg: number
+  total_earned: number
+  extra_work: number
+  extra_work_by_type: Record<string, number>
+  bonus: number
+  attendance_allowance: number
+  advance_issued: number
+  advance_recovered: number
+  advance_carried: number
+  contributory_wage: number
+  epf_employee: number
+  epf_employer: number
+  etf: number
+  net_salary: number
+  created_at: string
+}
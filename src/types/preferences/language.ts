@@ -0,0 +1,8 @@
+// Language
+export const LANGUAGE_OPTIONS = [
+  { label: "English", value: "en", locale: "en-LK" },
+  { label: "සිංහල", value: "si", locale: "si-LK" },
+  { label: "தமிழ்", value: "ta", locale: "ta-LK" },
+] as const;
+export const LANGUAGE_VALUES = LANGUAGE_OPTIONS.map((v) => v.value);
+export type Language = (typeof LANGUAGE_VALUES)[number];